@@ -24,6 +24,7 @@ import { FontAwesome } from '@expo/vector-icons';
 // 🚀 UPDATED: Use new integrated auth hooks and authService
 import { useAuth, useTheme } from '../../stores/appStore';
 import { useUserData } from '../../src/hooks/useAppData';
+import { useTranslation } from '../../src/hooks/useTranslation';
 import { requestPasswordReset } from '../../src/api/authService';
 
 import {
@@ -49,6 +50,7 @@ export default function ForgotPasswordScreen() {
   const [success, setSuccess] = useState(false);
   const colorScheme = useColorScheme();
   const router = useRouter();
+  const { t } = useTranslation();
   const videoRef = useRef<Video>(null);
 
   // 🚀 UPDATED: Use integrated auth store
@@ -122,8 +124,7 @@ export default function ForgotPasswordScreen() {
       console.log('✅ Password reset request successful');
     } catch (error: any) {
       // 🚀 UPDATED: Use auth store error handling
-      const errorMessage =
-        error.message || 'Şifre sıfırlama talebi başarısız oldu';
+      const errorMessage = error.message || t('auth.resetRequestFailed');
       console.error('❌ Password reset error:', errorMessage);
       // The error will be automatically handled if we had a store method,
       // but since we're calling authService directly, we'll handle it locally
@@ -131,7 +132,7 @@ export default function ForgotPasswordScreen() {
     } finally {
       setLoading(false);
     }
-  }, [email, setLoading, clearError]);
+  }, [email, setLoading, clearError, t]);
 
   const handleBackToLogin = useCallback(() => {
     router.push('/(auth)/login');
@@ -193,11 +194,9 @@ export default function ForgotPasswordScreen() {
                 />
               </PlayfulCard>
 
-              <Text style={styles.titleText}>Şifre Sıfırla</Text>
+              <Text style={styles.titleText}>{t('auth.resetPassword')}</Text>
 
-              <Text style={styles.subtitleText}>
-                Şifre sıfırlama bağlantısı almak için e-posta adresinizi girin
-              </Text>
+              <Text style={styles.subtitleText}>{t('auth.resetSubtitle')}</Text>
             </View>
 
             {!success ? (
@@ -210,10 +209,10 @@ export default function ForgotPasswordScreen() {
               >
                 <View style={styles.inputContainer}>
                   <Input
-                    label='E-posta'
+                    label={t('auth.email')}
                     value={email}
                     onChangeText={setEmail}
-                    placeholder='E-posta adresinizi girin'
+                    placeholder={t('auth.emailPlaceholder')}
                     inputMode='email'
                     autoCapitalize='none'
                     disabled={isLoading}
@@ -238,15 +237,13 @@ export default function ForgotPasswordScreen() {
                 {/* 🚀 NEW: Show validation hint (consistent with login screen) */}
                 {!canSubmit && email && (
                   <Text style={styles.validationHint}>
-                    Lütfen geçerli bir e-posta adresi girin
+                    {t('auth.emailInvalid')}
                   </Text>
                 )}
 
                 <PlayfulButton
                   title={
-                    isLoading
-                      ? 'Gönderiliyor...'
-                      : 'Sıfırlama Bağlantısı Gönder'
+                    isLoading ? t('auth.sending') : t('auth.sendResetLink')
                   }
                   onPress={handleResetRequest}
                   disabled={!canSubmit}
@@ -268,7 +265,7 @@ export default function ForgotPasswordScreen() {
                 <View style={styles.backToLoginContainer}>
                   <TextLink
                     href='/(auth)/login'
-                    label='Giriş Ekranına Dön'
+                    label={t('auth.backToLogin')}
                     style={styles.backToLoginLink}
                   />
                 </View>
@@ -299,17 +296,19 @@ export default function ForgotPasswordScreen() {
                     />
                   </PlayfulCard>
 
-                  <Text style={styles.successTitle}>Başarılı!</Text>
+                  <Text style={styles.successTitle}>
+                    {t('auth.resetSuccessTitle')}
+                  </Text>
                 </View>
 
                 <Alert
                   type='success'
-                  message='E-posta adresiniz sistemimizde kayıtlıysa, kısa süre içinde şifre sıfırlama bağlantısı alacaksınız. Lütfen gelen kutunuzu kontrol edin.'
+                  message={t('auth.resetEmailSent')}
                   style={styles.successAlert}
                 />
 
                 <PlayfulButton
-                  title='Giriş Ekranına Dön'
+                  title={t('auth.backToLogin')}
                   onPress={handleBackToLogin}
                   variant='vibrant'
                   gradient='success'
@@ -324,10 +323,10 @@ export default function ForgotPasswordScreen() {
 
             {/* Additional Help Section */}
             <View style={styles.helpContainer}>
-              <Text style={styles.helpText}>Sorun mu yaşıyorsun? </Text>
+              <Text style={styles.helpText}>{t('auth.needHelp')} </Text>
               <TextLink
                 href='/(auth)/login'
-                label='Destek Al'
+                label={t('auth.getSupport')}
                 style={styles.supportLink}
                 touchableProps={{
                   style: styles.supportTouchable,
@@ -24,6 +24,8 @@ import { LinearGradient } from 'expo-linear-gradient';
 // 🚀 UPDATED: Use new integrated auth hooks
 import { useAuth, useTheme } from '../../stores/appStore';
 import { useUserData } from '../../src/hooks/useAppData';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import { translate } from '../../localization';
 
 import {
   Button,
@@ -241,15 +243,15 @@ const getLoginErrorMessage = (error: string): string => {
   const errorLower = error.toLowerCase();
 
   if (errorLower.includes('invalid') && errorLower.includes('credential')) {
-    return 'E-posta veya şifre hatalı. Lütfen kontrol edip tekrar deneyin.';
+    return translate('auth.errors.invalidCredentials');
   }
 
   if (errorLower.includes('too many requests')) {
-    return 'Çok fazla giriş denemesi yaptınız. Lütfen biraz bekleyin ve tekrar deneyin.';
+    return translate('auth.errors.tooManyLoginAttempts');
   }
 
   if (errorLower.includes('network') || errorLower.includes('connection')) {
-    return 'İnternet bağlantısı sorunu. Bağlantınızı kontrol edip tekrar deneyin.';
+    return translate('auth.errors.network');
   }
 
   if (
@@ -257,7 +259,7 @@ const getLoginErrorMessage = (error: string): string => {
     errorLower.includes('not') &&
     errorLower.includes('confirmed')
   ) {
-    return 'E-posta adresinizi doğrulayın. Gelen kutunuzu kontrol edin.';
+    return translate('auth.errors.emailNotConfirmed');
   }
 
   if (
@@ -265,14 +267,14 @@ const getLoginErrorMessage = (error: string): string => {
     errorLower.includes('not') &&
     errorLower.includes('found')
   ) {
-    return 'Bu e-posta adresi ile kayıtlı hesap bulunamadı.';
+    return translate('auth.errors.userNotFound');
   }
 
   if (errorLower.includes('weak') && errorLower.includes('password')) {
-    return 'Şifreniz çok zayıf. Daha güçlü bir şifre seçin.';
+    return translate('auth.errors.weakPassword');
   }
 
-  return error || 'Giriş sırasında bir hata oluştu. Lütfen tekrar deneyin.';
+  return error || translate('auth.errors.loginFailed');
 };
 
 export default function LoginScreen() {
@@ -282,6 +284,7 @@ export default function LoginScreen() {
   const videoRef = useRef<Video>(null);
 
   const { toast, showToast, hideToast } = useToast();
+  const { t } = useTranslation();
 
   const {
     user,
@@ -344,12 +347,12 @@ export default function LoginScreen() {
 
   const handleLogin = useCallback(async () => {
     if (!email.trim() || !password.trim()) {
-      showToast('Lütfen e-posta ve şifrenizi girin.', 'warning');
+      showToast(t('auth.enterEmailAndPassword'), 'warning');
       return;
     }
 
     if (!/\S+@\S+\.\S+/.test(email.trim())) {
-      showToast('Lütfen geçerli bir e-posta adresi girin.', 'warning');
+      showToast(t('auth.emailInvalid'), 'warning');
       return;
     }
 
@@ -359,7 +362,7 @@ export default function LoginScreen() {
     } catch (error: any) {
       console.error('Login error:', error);
     }
-  }, [email, password, signIn, showToast]);
+  }, [email, password, signIn, showToast, t]);
 
   const handleOAuthLogin = useCallback(
     async (provider: 'google' | 'apple' | 'facebook') => {
@@ -389,13 +392,13 @@ export default function LoginScreen() {
           const providerName =
             provider.charAt(0).toUpperCase() + provider.slice(1);
           showToast(
-            `${providerName} ile giriş yapılamadı. Lütfen tekrar deneyin.`,
+            t('auth.oauthLoginFailed', { provider: providerName }),
             'error',
           );
         }
       }
     },
-    [signInWithGoogle, signInWithApple, signInWithFacebook, showToast],
+    [signInWithGoogle, signInWithApple, signInWithFacebook, showToast, t],
   );
 
   const isDisabled = useMemo(
@@ -473,9 +476,7 @@ export default function LoginScreen() {
 
               <Text style={styles.titleText}>DUSPORT</Text>
 
-              <Text style={styles.subtitleText}>
-                Diş hekimliği sınavlarınızda güvenle başarılı olun
-              </Text>
+              <Text style={styles.subtitleText}>{t('auth.appTagline')}</Text>
             </View>
 
             <GlassCard
@@ -486,12 +487,12 @@ export default function LoginScreen() {
               glowColor={Colors.vibrant?.purpleLight}
               shimmerEffect={true}
             >
-              <Text style={styles.quickLoginTitle}>Hızlı Giriş</Text>
+              <Text style={styles.quickLoginTitle}>{t('auth.quickLogin')}</Text>
 
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'google'
-                    ? 'Giriş yapılıyor...'
+                    ? t('auth.signingIn')
                     : 'Google'
                 }
                 icon='google'
@@ -508,7 +509,7 @@ export default function LoginScreen() {
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'apple'
-                    ? 'Giriş yapılıyor...'
+                    ? t('auth.signingIn')
                     : 'Apple'
                 }
                 icon='apple'
@@ -525,7 +526,7 @@ export default function LoginScreen() {
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'facebook'
-                    ? 'Giriş yapılıyor...'
+                    ? t('auth.signingIn')
                     : 'Facebook'
                 }
                 icon='facebook'
@@ -541,7 +542,7 @@ export default function LoginScreen() {
               <View style={styles.dividerContainer}>
                 <View style={styles.dividerLine} />
                 <Text style={styles.dividerText}>
-                  veya e-posta ile devam et
+                  {t('auth.orContinueWithEmail')}
                 </Text>
                 <View style={styles.dividerLine} />
               </View>
@@ -555,10 +556,10 @@ export default function LoginScreen() {
             >
               <View style={styles.inputContainer}>
                 <Input
-                  label='E-posta'
+                  label={t('auth.email')}
                   value={email}
                   onChangeText={setEmail}
-                  placeholder='E-posta adresinizi girin'
+                  placeholder={t('auth.emailPlaceholder')}
                   inputMode='email'
                   autoCapitalize='none'
                   disabled={isDisabled}
@@ -569,10 +570,10 @@ export default function LoginScreen() {
                 />
 
                 <Input
-                  label='Şifre'
+                  label={t('auth.password')}
                   value={password}
                   onChangeText={setPassword}
-                  placeholder='Şifrenizi girin'
+                  placeholder={t('auth.passwordPlaceholder')}
                   secureTextEntry
                   disabled={isDisabled}
                   leftIcon='lock'
@@ -585,14 +586,14 @@ export default function LoginScreen() {
               <View style={styles.forgotPasswordContainer}>
                 <TextLink
                   href='/(auth)/forgot-password'
-                  label='Şifremi unuttum?'
+                  label={t('auth.forgotPasswordLink')}
                   style={styles.forgotPasswordLink}
                 />
               </View>
 
               <PlayfulButton
                 title={
-                  isLoading ? 'Giriş yapılıyor...' : 'E-posta ile Giriş Yap'
+                  isLoading ? t('auth.signingIn') : t('auth.signInWithEmail')
                 }
                 onPress={handleLogin}
                 disabled={!canSubmit}
@@ -612,10 +613,10 @@ export default function LoginScreen() {
             </GlassCard>
 
             <View style={styles.signUpContainer}>
-              <Text style={styles.signUpText}>Hesabınız yok mu?</Text>
+              <Text style={styles.signUpText}>{t('auth.noAccount')}</Text>
               <TextLink
                 href='/(auth)/register'
-                label=' Kayıt Ol'
+                label={` ${t('auth.signUp')}`}
                 style={styles.signUpLink}
                 touchableProps={{
                   style: styles.signUpTouchable,
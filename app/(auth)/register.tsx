@@ -24,6 +24,8 @@ import { Video, ResizeMode } from 'expo-av';
 // 🚀 UPDATED: Use new integrated auth hooks
 import { useAuth, useTheme } from '../../stores/appStore';
 import { useUserData } from '../../src/hooks/useAppData';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import { translate } from '../../localization';
 
 import { Button, Input, TextLink, Alert } from '../../components/ui';
 import { PlayfulButton, GlassCard, PlayfulCard } from '../../components/ui';
@@ -235,34 +237,34 @@ const getRegistrationErrorMessage = (error: string): string => {
     errorLower.includes('already exists') ||
     errorLower.includes('already registered')
   ) {
-    return 'Bu e-posta adresi zaten kayıtlı. Giriş yapmayı deneyin.';
+    return translate('auth.errors.emailTaken');
   }
 
   if (errorLower.includes('weak password')) {
-    return 'Şifre çok zayıf. Daha güçlü bir şifre oluşturun.';
+    return translate('auth.errors.weakPasswordRegister');
   }
 
   if (errorLower.includes('invalid') && errorLower.includes('email')) {
-    return 'Geçersiz e-posta adresi. Lütfen doğru formatta girin.';
+    return translate('auth.errors.invalidEmail');
   }
 
   if (errorLower.includes('too many requests')) {
-    return 'Çok fazla kayıt denemesi. Lütfen biraz bekleyin ve tekrar deneyin.';
+    return translate('auth.errors.tooManyRegisterAttempts');
   }
 
   if (errorLower.includes('network') || errorLower.includes('connection')) {
-    return 'İnternet bağlantısı sorunu. Bağlantınızı kontrol edip tekrar deneyin.';
+    return translate('auth.errors.network');
   }
 
   if (errorLower.includes('username') && errorLower.includes('taken')) {
-    return 'Bu kullanıcı adı alınmış. Farklı bir kullanıcı adı deneyin.';
+    return translate('auth.errors.usernameTaken');
   }
 
   if (errorLower.includes('email') && errorLower.includes('format')) {
-    return 'E-posta adresi formatı hatalı. Örnek: ornek@email.com';
+    return translate('auth.errors.emailFormat');
   }
 
-  return error || 'Kayıt sırasında bir hata oluştu. Lütfen tekrar deneyin.';
+  return error || translate('auth.errors.registerFailed');
 };
 
 // Password strength calculation
@@ -291,6 +293,8 @@ const calculatePasswordStrength = (password: string) => {
 
 // Password strength indicator component
 const PasswordStrengthIndicator = ({ password }: { password: string }) => {
+  const { t } = useTranslation();
+
   if (!password) return null;
 
   const strength = calculatePasswordStrength(password);
@@ -304,10 +308,10 @@ const PasswordStrengthIndicator = ({ password }: { password: string }) => {
   };
 
   const getStrengthText = () => {
-    if (criteriaCount <= 1) return 'Çok Zayıf';
-    if (criteriaCount === 2) return 'Zayıf';
-    if (criteriaCount === 3) return 'Orta';
-    return 'Güçlü';
+    if (criteriaCount <= 1) return t('auth.passwordStrength.veryWeak');
+    if (criteriaCount === 2) return t('auth.passwordStrength.weak');
+    if (criteriaCount === 3) return t('auth.passwordStrength.medium');
+    return t('auth.passwordStrength.strong');
   };
 
   return (
@@ -337,36 +341,40 @@ const PasswordStrengthIndicator = ({ password }: { password: string }) => {
 
 // Password criteria checklist component
 const PasswordCriteria = ({ password }: { password: string }) => {
+  const { t } = useTranslation();
+
   if (!password) return null;
 
   const strength = calculatePasswordStrength(password);
 
   const criteria = [
     {
-      text: 'En az 8 karakter',
+      text: t('auth.passwordCriteria.minLength'),
       met: password.length >= 8,
     },
     {
-      text: 'Büyük harf (A-Z)',
+      text: t('auth.passwordCriteria.upperCase'),
       met: strength.hasUpperCase,
     },
     {
-      text: 'Küçük harf (a-z)',
+      text: t('auth.passwordCriteria.lowerCase'),
       met: strength.hasLowerCase,
     },
     {
-      text: 'Rakam (0-9)',
+      text: t('auth.passwordCriteria.number'),
       met: strength.hasNumbers,
     },
     {
-      text: 'Özel karakter (!@#$...)',
+      text: t('auth.passwordCriteria.special'),
       met: strength.hasSpecialChars,
     },
   ];
 
   return (
     <View style={styles.criteriaContainer}>
-      <Text style={styles.criteriaTitle}>Şifre Gereksinimleri:</Text>
+      <Text style={styles.criteriaTitle}>
+        {t('auth.passwordRequirementsTitle')}
+      </Text>
       {criteria.map((criterion, index) => (
         <View key={index} style={styles.criteriaItem}>
           <Text
@@ -394,7 +402,7 @@ const PasswordCriteria = ({ password }: { password: string }) => {
           </Text>
         </View>
       ))}
-      <Text style={styles.criteriaNote}>* En az 3 kriter karşılanmalıdır</Text>
+      <Text style={styles.criteriaNote}>{t('auth.passwordCriteriaNote')}</Text>
     </View>
   );
 };
@@ -410,6 +418,7 @@ export default function RegisterScreen() {
 
   // 🚀 NEW: Toast hook
   const { toast, showToast, hideToast } = useToast();
+  const { t } = useTranslation();
 
   // 🚀 UPDATED: Use integrated auth store with authService
   const {
@@ -487,37 +496,35 @@ export default function RegisterScreen() {
 
     // Length check
     if (password.length < 8) {
-      errors.push('Şifre en az 8 karakter olmalıdır');
+      errors.push(t('auth.passwordRequirements'));
     }
 
     // Strength check - must have at least 3 of 4 criteria
     if (strength.criteriaCount < 3) {
-      errors.push(
-        'Şifre en az 3 farklı karakter türü içermelidir (büyük harf, küçük harf, rakam, özel karakter)',
-      );
+      errors.push(t('auth.passwordCharacterTypes'));
     }
 
     return errors.length > 0 ? errors : null;
-  }, [password]);
+  }, [password, t]);
 
   // 🚀 UPDATED: Enhanced form validation with toast integration
   const validationErrors = useMemo(() => {
     const errors: string[] = [];
 
     // Required field validation
-    if (!username) errors.push('Kullanıcı adı gereklidir');
-    if (!email) errors.push('E-posta gereklidir');
-    if (!password) errors.push('Şifre gereklidir');
-    if (!confirmPassword) errors.push('Şifre tekrarı gereklidir');
+    if (!username) errors.push(t('auth.usernameRequired'));
+    if (!email) errors.push(t('auth.emailRequired'));
+    if (!password) errors.push(t('auth.passwordRequired'));
+    if (!confirmPassword) errors.push(t('auth.confirmPasswordRequired'));
 
     // Email format validation
     if (email && !/\S+@\S+\.\S+/.test(email)) {
-      errors.push('Geçerli bir e-posta adresi girin');
+      errors.push(t('auth.emailInvalid'));
     }
 
     // Username validation
     if (username && username.length < 3) {
-      errors.push('Kullanıcı adı en az 3 karakter olmalıdır');
+      errors.push(t('auth.usernameMinLength'));
     }
 
     // Password validation
@@ -527,11 +534,11 @@ export default function RegisterScreen() {
 
     // Password confirmation validation
     if (password && confirmPassword && password !== confirmPassword) {
-      errors.push('Şifreler eşleşmiyor');
+      errors.push(t('auth.passwordsDontMatch'));
     }
 
     return errors;
-  }, [username, email, password, confirmPassword, passwordValidation]);
+  }, [username, email, password, confirmPassword, passwordValidation, t]);
 
   // 🚀 UPDATED: Handle registration with automatic login after success
   const handleRegister = useCallback(async () => {
@@ -542,35 +549,32 @@ export default function RegisterScreen() {
       !password.trim() ||
       !confirmPassword.trim()
     ) {
-      showToast('Lütfen tüm alanları doldurun.', 'warning');
+      showToast(t('auth.fillAllFields'), 'warning');
       return;
     }
 
     // Email validation
     if (!/\S+@\S+\.\S+/.test(email.trim())) {
-      showToast('Lütfen geçerli bir e-posta adresi girin.', 'warning');
+      showToast(t('auth.emailInvalid'), 'warning');
       return;
     }
 
     // Username validation
     if (username.trim().length < 3) {
-      showToast('Kullanıcı adı en az 3 karakter olmalıdır.', 'warning');
+      showToast(t('auth.usernameMinLength'), 'warning');
       return;
     }
 
     // Password strength validation
     const strength = calculatePasswordStrength(password);
     if (!strength.isStrong) {
-      showToast(
-        'Şifre en az 8 karakter ve 3 farklı karakter türü içermelidir.',
-        'warning',
-      );
+      showToast(t('auth.passwordRules'), 'warning');
       return;
     }
 
     // Password confirmation
     if (password !== confirmPassword) {
-      showToast('Şifreler eşleşmiyor. Lütfen kontrol edin.', 'warning');
+      showToast(t('auth.passwordsDontMatchCheck'), 'warning');
       return;
     }
 
@@ -585,20 +589,26 @@ export default function RegisterScreen() {
       console.log('Auto-login after registration successful');
 
       // Step 3: Show success message
-      showToast('Hesabınız başarıyla oluşturuldu! Hoş geldiniz!', 'success');
+      showToast(t('auth.registerWelcome'), 'success');
     } catch (error: any) {
       console.error('Registration/Login error:', error);
 
       // If registration succeeded but login failed, show specific message
       if (error.message?.includes('login') || error.message?.includes('sign')) {
-        showToast(
-          'Hesabınız oluşturuldu ancak otomatik giriş yapılamadı. Lütfen manuel olarak giriş yapın.',
-          'warning',
-        );
+        showToast(t('auth.autoLoginFailed'), 'warning');
       }
       // Error handling for registration failure is done via the useEffect above
     }
-  }, [username, email, password, confirmPassword, register, signIn, showToast]);
+  }, [
+    username,
+    email,
+    password,
+    confirmPassword,
+    register,
+    signIn,
+    showToast,
+    t,
+  ]);
 
   // 🚀 UPDATED: OAuth registration handlers with toast error handling
   const handleOAuthSignUp = useCallback(
@@ -632,13 +642,13 @@ export default function RegisterScreen() {
           const providerName =
             provider.charAt(0).toUpperCase() + provider.slice(1);
           showToast(
-            `${providerName} ile kayıt oluşturulamadı. Lütfen tekrar deneyin.`,
+            t('auth.oauthRegisterFailed', { provider: providerName }),
             'error',
           );
         }
       }
     },
-    [signInWithGoogle, signInWithApple, signInWithFacebook, showToast],
+    [signInWithGoogle, signInWithApple, signInWithFacebook, showToast, t],
   );
 
   const isDisabled = useMemo(
@@ -721,13 +731,9 @@ export default function RegisterScreen() {
                 />
               </PlayfulCard>
 
-              <Text style={styles.titleText}>
-                DUSPORT ile Sınav Hazırlığına Katıl
-              </Text>
+              <Text style={styles.titleText}>{t('auth.joinTitle')}</Text>
 
-              <Text style={styles.subtitleText}>
-                Diş hekimliği sınav başarınıza giden yolculuğa başlayın
-              </Text>
+              <Text style={styles.subtitleText}>{t('auth.joinSubtitle')}</Text>
             </View>
 
             {/* OAuth Sign Up Options */}
@@ -739,12 +745,14 @@ export default function RegisterScreen() {
               glowColor={Colors.vibrant?.greenLight}
               shimmerEffect={true}
             >
-              <Text style={styles.quickSignUpTitle}>Hızlı Kayıt</Text>
+              <Text style={styles.quickSignUpTitle}>
+                {t('auth.quickSignUp')}
+              </Text>
 
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'google'
-                    ? 'Kayıt oluyor...'
+                    ? t('auth.signingUp')
                     : 'Google'
                 }
                 icon='google'
@@ -761,7 +769,7 @@ export default function RegisterScreen() {
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'apple'
-                    ? 'Kayıt oluyor...'
+                    ? t('auth.signingUp')
                     : 'Apple'
                 }
                 icon='apple'
@@ -778,7 +786,7 @@ export default function RegisterScreen() {
               <PlayfulButton
                 title={
                   isOAuthLoading && oauthProvider === 'facebook'
-                    ? 'Kayıt oluyor...'
+                    ? t('auth.signingUp')
                     : 'Facebook'
                 }
                 icon='facebook'
@@ -796,7 +804,7 @@ export default function RegisterScreen() {
             <View style={styles.dividerContainer}>
               <View style={styles.dividerLine} />
               <Text style={styles.dividerText}>
-                veya e-posta ile hesap oluştur
+                {t('auth.orSignUpWithEmail')}
               </Text>
               <View style={styles.dividerLine} />
             </View>
@@ -810,10 +818,10 @@ export default function RegisterScreen() {
             >
               <View style={styles.inputContainer}>
                 <Input
-                  label='Kullanıcı Adı'
+                  label={t('auth.username')}
                   value={username}
                   onChangeText={setUsername}
-                  placeholder='Kullanıcı adınızı girin (en az 3 karakter)'
+                  placeholder={t('auth.usernamePlaceholder')}
                   disabled={isDisabled}
                   leftIcon='user'
                   containerStyle={styles.inputFieldContainer}
@@ -822,10 +830,10 @@ export default function RegisterScreen() {
                 />
 
                 <Input
-                  label='E-posta'
+                  label={t('auth.email')}
                   value={email}
                   onChangeText={setEmail}
-                  placeholder='E-posta adresinizi girin'
+                  placeholder={t('auth.emailPlaceholder')}
                   inputMode='email'
                   autoCapitalize='none'
                   disabled={isDisabled}
@@ -837,7 +845,7 @@ export default function RegisterScreen() {
 
                 <View>
                   <Input
-                    label='Şifre'
+                    label={t('auth.password')}
                     value={password}
                     onChangeText={(text) => {
                       setPassword(text);
@@ -847,7 +855,7 @@ export default function RegisterScreen() {
                         text.length > 0 && !strength.isStrong,
                       );
                     }}
-                    placeholder='Güçlü bir şifre oluşturun'
+                    placeholder={t('auth.newPasswordPlaceholder')}
                     secureTextEntry
                     disabled={isDisabled}
                     leftIcon='lock'
@@ -868,10 +876,10 @@ export default function RegisterScreen() {
                 </View>
 
                 <Input
-                  label='Şifre Tekrarı'
+                  label={t('auth.confirmPassword')}
                   value={confirmPassword}
                   onChangeText={setConfirmPassword}
-                  placeholder='Şifrenizi tekrar girin'
+                  placeholder={t('auth.confirmPasswordPlaceholder')}
                   secureTextEntry
                   disabled={isDisabled}
                   leftIcon='lock'
@@ -884,7 +892,11 @@ export default function RegisterScreen() {
               {/* 🚀 REMOVED: Inline error display - now using toast */}
 
               <PlayfulButton
-                title={isLoading ? 'Hesap Oluşturuluyor...' : 'Hesap Oluştur'}
+                title={
+                  isLoading
+                    ? t('auth.creatingAccount')
+                    : t('auth.createAccount')
+                }
                 onPress={handleRegister}
                 disabled={!canSubmit}
                 variant='vibrant'
@@ -904,10 +916,10 @@ export default function RegisterScreen() {
 
             {/* Sign In Link */}
             <View style={styles.signInContainer}>
-              <Text style={styles.signInText}>Zaten hesabınız var mı?</Text>
+              <Text style={styles.signInText}>{t('auth.alreadyAccount')}</Text>
               <TextLink
                 href='/(auth)/login'
-                label=' Giriş Yap'
+                label={` ${t('auth.signIn')}`}
                 style={styles.signInLink}
                 touchableProps={{
                   style: styles.signInTouchable,
@@ -6,11 +6,12 @@ import React, {
   useRef,
 } from 'react';
 import { Tabs } from 'expo-router';
-import { useColorScheme, View, Text, StyleSheet } from 'react-native';
+import { View, Text, StyleSheet } from 'react-native';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
 import { Video, ResizeMode } from 'expo-av';
 // ✅ UPDATED: Use new appStore instead of context
 import { usePreferredCourse } from '../../stores/appStore';
+import { useThemeColors } from '../../components/ui';
 
 // Memoized TabBarIcon component
 const TabBarIcon = React.memo(
@@ -66,7 +67,7 @@ const VideoTabIcon = React.memo(
 );
 
 export default function TabLayout() {
-  const colorScheme = useColorScheme();
+  const { colors } = useThemeColors();
   // ✅ UPDATED: Use new appStore hook - get getCourseCategory too
   const { preferredCourse, getCourseColor, getCourseCategory, isLoading } =
     usePreferredCourse();
@@ -108,13 +109,14 @@ export default function TabLayout() {
   const screenOptions = useMemo(
     () => ({
       tabBarActiveTintColor: activeColor, // Use the dynamic active color
+      tabBarInactiveTintColor: colors.tabIconInactive,
       headerShown: false,
       tabBarStyle: {
-        backgroundColor: '#FFFFFF',
-        borderTopColor: '#FFFFFF',
+        backgroundColor: colors.tabBar,
+        borderTopColor: colors.tabBarBorder,
       },
     }),
-    [activeColor],
+    [activeColor, colors],
   );
 
   // Memoize tab screen configurations
@@ -158,18 +160,44 @@ export default function TabLayout() {
 
       <Tabs.Screen name='duels/[id]' options={hiddenScreenOptions} />
       <Tabs.Screen name='duels/new' options={hiddenScreenOptions} />
-      <Tabs.Screen name='courses/[id]' options={hiddenScreenOptions} />
       <Tabs.Screen name='profile/achievements' options={hiddenScreenOptions} />
       <Tabs.Screen name='profile/friends' options={hiddenScreenOptions} />
-      <Tabs.Screen name='profile/settings' options={hiddenScreenOptions} />
+      <Tabs.Screen
+        name='profile/change-password'
+        options={hiddenScreenOptions}
+      />
+      <Tabs.Screen name='profile/exam-dates' options={hiddenScreenOptions} />
+      <Tabs.Screen
+        name='profile/study-sessions'
+        options={hiddenScreenOptions}
+      />
       <Tabs.Screen
         name='notifications/settings'
         options={hiddenScreenOptions}
       />
       <Tabs.Screen name='duels/history' options={hiddenScreenOptions} />
-      <Tabs.Screen name='courses/index' options={hiddenScreenOptions} />
-      <Tabs.Screen name='tests' options={hiddenScreenOptions} />
+      <Tabs.Screen name='duels/replay/[id]' options={hiddenScreenOptions} />
+      <Tabs.Screen name='duels/async/[id]' options={hiddenScreenOptions} />
+      <Tabs.Screen
+        name='duels/tournaments/index'
+        options={hiddenScreenOptions}
+      />
+      <Tabs.Screen
+        name='duels/tournaments/[id]'
+        options={hiddenScreenOptions}
+      />
+      <Tabs.Screen name='duels/bots' options={hiddenScreenOptions} />
+      <Tabs.Screen name='tests/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='tests/[id]' options={hiddenScreenOptions} />
+      <Tabs.Screen name='plans/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='plans/new' options={hiddenScreenOptions} />
+      <Tabs.Screen name='review/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='bookmarks/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='subscription/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='coaching/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='analytics/index' options={hiddenScreenOptions} />
       <Tabs.Screen name='notifications/index' options={hiddenScreenOptions} />
+      <Tabs.Screen name='courses/[id]' options={hiddenScreenOptions} />
     </Tabs>
   );
 }
@@ -0,0 +1,477 @@
+// app/(tabs)/analytics/index.tsx - Study time charts, course distribution and activity heatmap
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Button,
+  Alert,
+  SlideInElement,
+  LineChart,
+  BarChart,
+  DonutChart,
+  CalendarHeatmap,
+  DateRangePicker,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+  type DateRange,
+  type HeatmapDatum,
+} from '../../../components/ui';
+import {
+  useAnalyticsPeriod,
+  useStudyHeatmap,
+  useCourseDistribution,
+  analyticsDashboardHelpers,
+  ANALYTICS_RANGE_PRESETS,
+  DEFAULT_ANALYTICS_RANGE_DAYS,
+} from '../../../src/hooks/useAnalyticsDashboardData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { buildRoute } from '../../../constants/routes';
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      padding: Spacing[6],
+      alignItems: 'center',
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontFamily: 'PrimaryFont',
+      fontSize: 16,
+      color: colors.text,
+      marginBottom: Spacing[1],
+    },
+    sectionHint: {
+      fontFamily: 'SecondaryFont-Regular',
+      fontSize: 12,
+      color: colors.icon,
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    summaryRow: {
+      gap: Spacing[2],
+      marginBottom: Spacing[4],
+    },
+    summaryItem: {
+      flex: 1,
+      alignItems: 'center',
+      paddingVertical: Spacing[3],
+      borderRadius: BorderRadius.lg,
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    summaryValue: {
+      fontFamily: 'SecondaryFont-Bold',
+      fontSize: 20,
+      color: colors.text,
+    },
+    summaryLabel: {
+      fontFamily: 'SecondaryFont-Regular',
+      fontSize: 12,
+      color: colors.icon,
+      marginTop: Spacing[1],
+    },
+    trendRow: {
+      alignItems: 'center',
+      gap: Spacing[1],
+      marginTop: Spacing[1],
+    },
+    trendText: {
+      fontFamily: 'SecondaryFont-Bold',
+      fontSize: 12,
+    },
+    emptyChart: {
+      fontFamily: 'SecondaryFont-Regular',
+      fontSize: 14,
+      color: colors.icon,
+      textAlign: 'center',
+      paddingVertical: Spacing[6],
+    },
+    selectedDay: {
+      fontFamily: 'SecondaryFont-Bold',
+      fontSize: 13,
+      color: colors.text,
+      marginTop: Spacing[3],
+    },
+  });
+
+const formatHours = (value: number): string =>
+  Number.isInteger(value) ? `${value}` : value.toFixed(1);
+
+// ===============================
+// SUBCOMPONENTS
+// ===============================
+
+const TrendIndicator = memo(
+  ({ change, t }: { change: number; t: TFunction }) => {
+    const { colors } = useThemeColors();
+    const styles = useMemo(() => createStyles(colors), [colors]);
+    const rounded = Math.round(change);
+    if (rounded === 0) {
+      return (
+        <Text style={[styles.trendText, { color: colors.textMuted }]}>
+          {t('analytics.trendFlat')}
+        </Text>
+      );
+    }
+    const isUp = rounded > 0;
+    const color = isUp ? Colors.vibrant.green : Colors.vibrant.coral;
+    return (
+      <Row style={styles.trendRow}>
+        <FontAwesome
+          name={isUp ? 'arrow-up' : 'arrow-down'}
+          size={10}
+          color={color}
+        />
+        <Text style={[styles.trendText, { color }]}>
+          {t('analytics.trendPercent', { value: Math.abs(rounded) })}
+        </Text>
+      </Row>
+    );
+  },
+);
+
+const PeriodSummary = memo(
+  ({
+    hours,
+    sessions,
+    activeDays,
+    studyTimeChange,
+    t,
+  }: {
+    hours: number;
+    sessions: number;
+    activeDays: number;
+    studyTimeChange: number;
+    t: TFunction;
+  }) => {
+    const { colors } = useThemeColors();
+    const styles = useMemo(() => createStyles(colors), [colors]);
+
+    return (
+      <Row style={styles.summaryRow}>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{formatHours(hours)}</Text>
+          <Text style={styles.summaryLabel}>{t('analytics.totalHours')}</Text>
+          <TrendIndicator change={studyTimeChange} t={t} />
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{sessions}</Text>
+          <Text style={styles.summaryLabel}>{t('analytics.sessions')}</Text>
+        </View>
+        <View style={styles.summaryItem}>
+          <Text style={styles.summaryValue}>{activeDays}</Text>
+          <Text style={styles.summaryLabel}>{t('analytics.activeDays')}</Text>
+        </View>
+      </Row>
+    );
+  },
+);
+
+// ===============================
+// SCREEN
+// ===============================
+
+export default function AnalyticsScreen() {
+  const router = useRouter();
+  const { t, dateLocale } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  const [range, setRange] = useState<DateRange>(() =>
+    analyticsDashboardHelpers.getTrailingRange(DEFAULT_ANALYTICS_RANGE_DAYS),
+  );
+  const [selectedDay, setSelectedDay] = useState<HeatmapDatum | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const period = useAnalyticsPeriod(range);
+  const heatmap = useStudyHeatmap();
+  const distribution = useCourseDistribution();
+
+  const presets = useMemo(
+    () =>
+      ANALYTICS_RANGE_PRESETS.map((preset) => ({
+        key: preset.key,
+        days: preset.days,
+        label: t(`analytics.preset.${preset.key}`),
+      })),
+    [t],
+  );
+
+  const formatDay = useCallback(
+    (date: string) =>
+      new Date(`${date}T00:00:00`).toLocaleDateString(dateLocale, {
+        day: 'numeric',
+        month: 'short',
+      }),
+    [dateLocale],
+  );
+
+  const dailyData = useMemo(
+    () =>
+      period.daily.map((day) => ({
+        label: formatDay(day.date),
+        value: day.minutes,
+      })),
+    [period.daily, formatDay],
+  );
+
+  const weeklyData = useMemo(
+    () =>
+      period.weekly.map((week) => ({
+        label: formatDay(week.weekStart),
+        value: week.hours,
+      })),
+    [period.weekly, formatDay],
+  );
+
+  const donutData = useMemo(
+    () =>
+      distribution.shares.map((share) => ({
+        label: share.courseTitle || t('analytics.otherCourses'),
+        value: share.hours,
+      })),
+    [distribution.shares, t],
+  );
+
+  const heatmapData = useMemo(
+    () => heatmap.days.map((day) => ({ date: day.date, value: day.minutes })),
+    [heatmap.days],
+  );
+
+  const formatHoursLabel = useCallback(
+    (value: number) => t('analytics.hoursShort', { value: formatHours(value) }),
+    [t],
+  );
+
+  const formatMinutesLabel = useCallback(
+    (value: number) =>
+      t('analytics.minutesShort', { value: Math.round(value) }),
+    [t],
+  );
+
+  const handleRangeChange = useCallback((next: DateRange) => {
+    setRange(next);
+  }, []);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([
+        period.refetch(),
+        heatmap.refetch(),
+        distribution.refetch(),
+      ]);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [period, heatmap, distribution]);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('home'));
+    }
+  }, [router]);
+
+  const hasPeriodData = period.totals.hours > 0;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          tintColor={Colors.white}
+        />
+      }
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('analytics.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('analytics.subtitle')}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {/* Range */}
+      <SlideInElement delay={100}>
+        <PlayfulCard style={styles.card} animated={false}>
+          <DateRangePicker
+            value={range}
+            onChange={handleRangeChange}
+            presets={presets}
+          />
+        </PlayfulCard>
+      </SlideInElement>
+
+      {period.error ? (
+        <Alert
+          type='error'
+          message={t('analytics.loadFailed')}
+          style={styles.statusAlert}
+        />
+      ) : null}
+
+      {period.isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size='large' color={Colors.white} />
+        </View>
+      ) : (
+        <>
+          <PeriodSummary
+            hours={period.totals.hours}
+            sessions={period.totals.sessions}
+            activeDays={period.totals.activeDays}
+            studyTimeChange={period.trends.studyTimeImprovement}
+            t={t}
+          />
+
+          {/* Daily study time */}
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>{t('analytics.dailyTitle')}</Text>
+            <Text style={styles.sectionHint}>{t('analytics.dailyHint')}</Text>
+            {hasPeriodData ? (
+              <LineChart
+                data={dailyData}
+                color={colors.primary}
+                formatValue={formatMinutesLabel}
+              />
+            ) : (
+              <Text style={styles.emptyChart}>
+                {t('analytics.emptyPeriod')}
+              </Text>
+            )}
+          </PlayfulCard>
+
+          {/* Weekly hours */}
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {t('analytics.weeklyTitle')}
+            </Text>
+            <Text style={styles.sectionHint}>{t('analytics.weeklyHint')}</Text>
+            {hasPeriodData ? (
+              <BarChart
+                data={weeklyData}
+                color={Colors.vibrant.green}
+                showValues={weeklyData.length <= 6}
+                formatValue={formatHours}
+              />
+            ) : (
+              <Text style={styles.emptyChart}>
+                {t('analytics.emptyPeriod')}
+              </Text>
+            )}
+          </PlayfulCard>
+        </>
+      )}
+
+      {/* Course distribution */}
+      <PlayfulCard style={styles.card} animated={false}>
+        <Text style={styles.sectionTitle}>
+          {t('analytics.distributionTitle')}
+        </Text>
+        <Text style={styles.sectionHint}>
+          {t('analytics.distributionHint')}
+        </Text>
+        {distribution.isLoading ? (
+          <ActivityIndicator color={colors.primary} />
+        ) : donutData.length > 0 ? (
+          <DonutChart
+            data={donutData}
+            centerValue={formatHoursLabel(distribution.totalHours)}
+            centerLabel={t('analytics.total')}
+            formatValue={formatHoursLabel}
+          />
+        ) : (
+          <Text style={styles.emptyChart}>
+            {t('analytics.emptyDistribution')}
+          </Text>
+        )}
+      </PlayfulCard>
+
+      {/* Activity heatmap */}
+      <PlayfulCard style={styles.card} animated={false}>
+        <Text style={styles.sectionTitle}>{t('analytics.heatmapTitle')}</Text>
+        <Text style={styles.sectionHint}>
+          {t('analytics.heatmapHint', { count: heatmap.activeDays })}
+        </Text>
+        {heatmap.isLoading ? (
+          <ActivityIndicator color={Colors.vibrant.green} />
+        ) : (
+          <>
+            <CalendarHeatmap
+              data={heatmapData}
+              startDate={heatmap.range.startDate}
+              endDate={heatmap.range.endDate}
+              formatValue={formatMinutesLabel}
+              onDayPress={setSelectedDay}
+            />
+            {selectedDay && (
+              <Text style={styles.selectedDay}>
+                {t('analytics.selectedDay', {
+                  date: formatDay(selectedDay.date),
+                  minutes: selectedDay.value,
+                })}
+              </Text>
+            )}
+          </>
+        )}
+      </PlayfulCard>
+
+      <Button
+        title={t('navigation.goBack')}
+        variant='outline'
+        onPress={handleBack}
+        icon='arrow-left'
+      />
+    </ScrollView>
+  );
+}
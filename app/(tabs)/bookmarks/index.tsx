@@ -0,0 +1,469 @@
+// app/(tabs)/bookmarks/index.tsx - Bookmarked questions list and practice set launcher
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  SlideInElement,
+  Container,
+  BookmarkButton,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  useAuth,
+  useBookmarks,
+  useNetwork,
+  usePreferredCourse,
+} from '../../../stores/appStore';
+import { BookmarkedQuestion } from '../../../src/types/models';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import { BOOKMARK_PRACTICE_SET_ID } from '../../../src/hooks/usePracticeTestsData';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[2],
+  },
+  chipScroll: {
+    marginBottom: Spacing[4],
+  },
+  chip: {
+    paddingVertical: Spacing[2],
+    paddingHorizontal: Spacing[3],
+    borderRadius: BorderRadius.button,
+    backgroundColor: Colors.white,
+    marginRight: Spacing[2],
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  chipTextActive: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  syncAlert: {
+    marginBottom: Spacing[4],
+  },
+  practiceButton: {
+    marginBottom: Spacing[4],
+  },
+  questionCard: {
+    marginBottom: Spacing[3],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  questionHeader: {
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    marginBottom: Spacing[2],
+  },
+  questionMeta: {
+    flex: 1,
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+    marginRight: Spacing[2],
+  },
+  questionText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+    lineHeight: 20,
+  },
+  answerText: {
+    marginTop: Spacing[2],
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.vibrant.green,
+  },
+  explanationText: {
+    marginTop: Spacing[2],
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    lineHeight: 18,
+  },
+  toggleText: {
+    marginTop: Spacing[2],
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.vibrant.purple,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[8],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  errorAlert: {
+    marginBottom: Spacing[4],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// Selectable filter chip
+const FilterChip = React.memo(
+  ({
+    label,
+    isActive,
+    activeColor,
+    onPress,
+  }: {
+    label: string;
+    isActive: boolean;
+    activeColor: string;
+    onPress: () => void;
+  }) => (
+    <TouchableOpacity
+      style={[styles.chip, isActive && { backgroundColor: activeColor }]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Text
+        style={[styles.chipText, isActive && styles.chipTextActive]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  ),
+);
+
+// Single bookmarked question with expandable answer
+const BookmarkCard = React.memo(
+  ({ question }: { question: BookmarkedQuestion }) => {
+    const { t, dateLocale } = useTranslation();
+    const [expanded, setExpanded] = useState(false);
+    const { bookmarked_at, ...bookmarkQuestion } = question;
+    const correctText = question.options?.[question.correct_answer];
+
+    return (
+      <PlayfulCard style={styles.questionCard} animated={false}>
+        <Row style={styles.questionHeader}>
+          <Row style={styles.questionMeta}>
+            {question.course_title ? (
+              <Badge
+                text={question.course_title}
+                variant='secondary'
+                size='sm'
+                fontFamily='SecondaryFont-Bold'
+              />
+            ) : null}
+            <Badge
+              text={new Date(bookmarked_at).toLocaleDateString(dateLocale)}
+              variant='neutral'
+              size='sm'
+              fontFamily='SecondaryFont-Bold'
+            />
+          </Row>
+          <BookmarkButton
+            question={bookmarkQuestion}
+            color={Colors.gray[600]}
+          />
+        </Row>
+        <Text style={styles.questionText}>{question.question_text}</Text>
+        {expanded && (
+          <Column>
+            <Text style={styles.answerText}>
+              {t('bookmarks.correctAnswer', {
+                answer: question.correct_answer,
+              })}
+              {correctText ? ` - ${correctText}` : ''}
+            </Text>
+            {question.explanation ? (
+              <Text style={styles.explanationText}>
+                💡 {question.explanation}
+              </Text>
+            ) : null}
+          </Column>
+        )}
+        <TouchableOpacity onPress={() => setExpanded((prev) => !prev)}>
+          <Text style={styles.toggleText}>
+            {expanded ? t('bookmarks.hideAnswer') : t('bookmarks.showAnswer')}
+          </Text>
+        </TouchableOpacity>
+      </PlayfulCard>
+    );
+  },
+);
+
+export default function BookmarksScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isOnline } = useNetwork();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+  const { bookmarks, pendingCount, isSyncing, loadBookmarks } = useBookmarks();
+
+  const [selectedCourseId, setSelectedCourseId] = useState<number | null>(null);
+  const [initialLoading, setInitialLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Pull the server copy once; local bookmarks are shown immediately
+  useEffect(() => {
+    if (!isAuthenticated) return;
+
+    loadBookmarks()
+      .catch((loadError) =>
+        console.error('Error loading bookmarks:', loadError),
+      )
+      .finally(() => setInitialLoading(false));
+  }, [isAuthenticated, loadBookmarks]);
+
+  // Course chips are derived from the saved questions themselves
+  const courseOptions = useMemo(() => {
+    const seen = new Map<number, string>();
+    bookmarks.forEach((bookmark) => {
+      if (bookmark.course_id && !seen.has(bookmark.course_id)) {
+        seen.set(
+          bookmark.course_id,
+          bookmark.course_title || t('bookmarks.courseFallback'),
+        );
+      }
+    });
+    return Array.from(seen, ([course_id, title]) => ({ course_id, title }));
+  }, [bookmarks, t]);
+
+  const filteredBookmarks = useMemo(
+    () =>
+      selectedCourseId === null
+        ? bookmarks
+        : bookmarks.filter((b) => b.course_id === selectedCourseId),
+    [bookmarks, selectedCourseId],
+  );
+
+  const contextColor = useMemo(() => {
+    const selected = courseOptions.find(
+      (c) => c.course_id === selectedCourseId,
+    );
+    const title = selected?.title || preferredCourse?.title || '';
+    return getCourseColor(getCourseCategory(title));
+  }, [
+    courseOptions,
+    selectedCourseId,
+    preferredCourse?.title,
+    getCourseColor,
+    getCourseCategory,
+  ]);
+
+  const handlePractice = useCallback(() => {
+    router.push(
+      buildRoute(
+        'test',
+        { id: BOOKMARK_PRACTICE_SET_ID },
+        { courseId: selectedCourseId },
+      ),
+    );
+  }, [router, selectedCourseId]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await loadBookmarks();
+    } catch (refreshError) {
+      console.error('Error refreshing bookmarks:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [loadBookmarks]);
+
+  if (authLoading) {
+    return (
+      <Container style={styles.errorContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Container style={styles.errorContainer}>
+        <Alert
+          type='error'
+          title={t('common.loginRequired')}
+          message={t('bookmarks.loginMessage')}
+          style={styles.errorAlert}
+        />
+        <Button
+          title={t('auth.signIn')}
+          variant='primary'
+          onPress={() => router.replace('/(auth)/login')}
+          icon='sign-in'
+        />
+      </Container>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={contextColor}
+            colors={[contextColor]}
+          />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('bookmarks.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('bookmarks.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Sync status */}
+        {pendingCount > 0 && (
+          <Alert
+            type={isOnline ? 'info' : 'warning'}
+            title={
+              isSyncing ? t('bookmarks.syncing') : t('bookmarks.pendingChanges')
+            }
+            message={
+              isOnline
+                ? t('bookmarks.pendingOnline', { count: pendingCount })
+                : t('bookmarks.pendingOffline', { count: pendingCount })
+            }
+            style={styles.syncAlert}
+          />
+        )}
+
+        {/* Course filter */}
+        {courseOptions.length > 1 && (
+          <SlideInElement delay={100}>
+            <Text style={styles.sectionLabel}>{t('bookmarks.course')}</Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.chipScroll}
+            >
+              <FilterChip
+                label={t('common.all')}
+                isActive={selectedCourseId === null}
+                activeColor={contextColor}
+                onPress={() => setSelectedCourseId(null)}
+              />
+              {courseOptions.map((course) => (
+                <FilterChip
+                  key={course.course_id}
+                  label={course.title}
+                  isActive={selectedCourseId === course.course_id}
+                  activeColor={contextColor}
+                  onPress={() => setSelectedCourseId(course.course_id)}
+                />
+              ))}
+            </ScrollView>
+          </SlideInElement>
+        )}
+
+        {/* Bookmark list */}
+        {initialLoading && bookmarks.length === 0 ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size='large' color={contextColor} />
+            <Text style={styles.loadingText}>{t('bookmarks.loading')}</Text>
+          </View>
+        ) : filteredBookmarks.length === 0 ? (
+          <EmptyState
+            icon='bookmark-o'
+            title={t('bookmarks.emptyTitle')}
+            message={t('bookmarks.emptyMessage')}
+            actionButton={{
+              title: t('bookmarks.goToTests'),
+              onPress: () => router.push(buildRoute('tests')),
+              variant: 'primary',
+            }}
+            buttonFontFamily='PrimaryFont'
+          />
+        ) : (
+          <>
+            <Button
+              title={t('bookmarks.practice', {
+                count: filteredBookmarks.length,
+              })}
+              icon='play'
+              variant='primary'
+              onPress={handlePractice}
+              style={[styles.practiceButton, { backgroundColor: contextColor }]}
+            />
+            {filteredBookmarks.map((bookmark, index) => (
+              <SlideInElement
+                key={bookmark.question_id}
+                delay={150 + Math.min(index, 10) * 40}
+              >
+                <BookmarkCard question={bookmark} />
+              </SlideInElement>
+            ))}
+          </>
+        )}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
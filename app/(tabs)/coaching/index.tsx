@@ -0,0 +1,722 @@
+// app/(tabs)/coaching/index.tsx - Coaching notes, motivational messages and strategy videos
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { Video, ResizeMode, AVPlaybackStatus } from 'expo-av';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  Modal,
+  PremiumGate,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  useCoachingNotes,
+  useMotivationalMessages,
+  useStrategyVideos,
+  coachingHelpers,
+  type CoachingTab,
+} from '../../../src/hooks/useCoachingData';
+import { usePremiumAccess } from '../../../src/hooks/useSubscriptionData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import type {
+  CoachingNote,
+  MotivationalMessage,
+  StrategyVideo,
+} from '../../../src/types/models';
+
+const TABS: CoachingTab[] = ['notes', 'messages', 'videos'];
+
+const TAB_ICONS: Record<
+  CoachingTab,
+  React.ComponentProps<typeof FontAwesome>['name']
+> = {
+  notes: 'sticky-note',
+  messages: 'heart',
+  videos: 'play-circle',
+};
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  tabRow: {
+    gap: Spacing[2],
+    marginBottom: Spacing[4],
+  },
+  tab: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing[1],
+    paddingVertical: Spacing[2],
+    borderRadius: BorderRadius.button,
+    backgroundColor: Colors.white,
+  },
+  tabText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  tabTextActive: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  card: {
+    marginBottom: Spacing[3],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  highlightedCard: {
+    borderWidth: 2,
+  },
+  noteHeader: {
+    alignItems: 'flex-start',
+    justifyContent: 'space-between',
+    gap: Spacing[2],
+    marginBottom: Spacing[2],
+  },
+  noteTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  noteDate: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[500],
+    marginBottom: Spacing[2],
+  },
+  bodyText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+    lineHeight: 21,
+  },
+  toggleText: {
+    marginTop: Spacing[2],
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.vibrant.purple,
+  },
+  messageText: {
+    fontSize: 15,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+    lineHeight: 22,
+    fontStyle: 'italic',
+  },
+  messageAuthor: {
+    marginTop: Spacing[2],
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[600],
+    textAlign: 'right',
+  },
+  videoRow: {
+    alignItems: 'center',
+    gap: Spacing[3],
+  },
+  videoIcon: {
+    width: 48,
+    height: 48,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  videoInfo: {
+    flex: 1,
+  },
+  videoTitle: {
+    fontSize: 15,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[900],
+  },
+  videoDescription: {
+    marginTop: 2,
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  videoMeta: {
+    marginTop: Spacing[1],
+    gap: Spacing[2],
+  },
+  player: {
+    width: '100%',
+    aspectRatio: 16 / 9,
+    backgroundColor: Colors.black,
+    borderRadius: BorderRadius.lg,
+  },
+  playerOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  playerError: {
+    marginTop: Spacing[3],
+  },
+  playerDescription: {
+    marginTop: Spacing[3],
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    lineHeight: 19,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[8],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  errorAlert: {
+    marginBottom: Spacing[4],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// Weekly coaching note with expandable content
+const NoteCard = React.memo(
+  ({
+    note,
+    initiallyExpanded,
+    contextColor,
+    t,
+    dateLocale,
+  }: {
+    note: CoachingNote;
+    initiallyExpanded: boolean;
+    contextColor: string;
+    t: TFunction;
+    dateLocale: string;
+  }) => {
+    const [expanded, setExpanded] = useState(initiallyExpanded);
+    const isLong = note.content.length > 220;
+
+    return (
+      <PlayfulCard
+        style={[
+          styles.card,
+          initiallyExpanded && [
+            styles.highlightedCard,
+            { borderColor: contextColor },
+          ],
+        ]}
+        animated={false}
+      >
+        <Row style={styles.noteHeader}>
+          <Text style={styles.noteTitle}>{note.title}</Text>
+          <Badge
+            text={t('coaching.week', { week: note.week_number })}
+            variant='secondary'
+            size='sm'
+            fontFamily='SecondaryFont-Bold'
+          />
+        </Row>
+        <Text style={styles.noteDate}>
+          {new Date(note.publish_date).toLocaleDateString(dateLocale)}
+        </Text>
+        <Text
+          style={styles.bodyText}
+          numberOfLines={expanded || !isLong ? undefined : 4}
+        >
+          {note.content}
+        </Text>
+        {isLong && (
+          <TouchableOpacity onPress={() => setExpanded((prev) => !prev)}>
+            <Text style={styles.toggleText}>
+              {expanded ? t('coaching.showLess') : t('coaching.readMore')}
+            </Text>
+          </TouchableOpacity>
+        )}
+      </PlayfulCard>
+    );
+  },
+);
+
+const MessageCard = React.memo(
+  ({ message }: { message: MotivationalMessage }) => (
+    <PlayfulCard style={styles.card} animated={false}>
+      <Text style={styles.messageText}>“{message.message}”</Text>
+      {message.author ? (
+        <Text style={styles.messageAuthor}>— {message.author}</Text>
+      ) : null}
+    </PlayfulCard>
+  ),
+);
+
+// Strategy video row; premium videos show an upgrade pill for free accounts
+const VideoCard = React.memo(
+  ({
+    video,
+    isLocked,
+    contextColor,
+    onPlay,
+    t,
+  }: {
+    video: StrategyVideo;
+    isLocked: boolean;
+    contextColor: string;
+    onPlay: (video: StrategyVideo) => void;
+    t: TFunction;
+  }) => {
+    const duration = coachingHelpers.formatDuration(video.duration_seconds);
+
+    return (
+      <PlayfulCard style={styles.card} animated={false}>
+        <Row style={styles.videoRow}>
+          <TouchableOpacity
+            style={[styles.videoIcon, { backgroundColor: contextColor }]}
+            onPress={() => onPlay(video)}
+            disabled={isLocked}
+            activeOpacity={0.8}
+            accessibilityRole='button'
+            accessibilityLabel={t('coaching.playVideo')}
+          >
+            <FontAwesome name='play' size={18} color={Colors.white} />
+          </TouchableOpacity>
+          <View style={styles.videoInfo}>
+            <Text style={styles.videoTitle} numberOfLines={2}>
+              {video.title}
+            </Text>
+            {video.description ? (
+              <Text style={styles.videoDescription} numberOfLines={2}>
+                {video.description}
+              </Text>
+            ) : null}
+            <Row style={styles.videoMeta}>
+              {duration ? (
+                <Badge
+                  text={duration}
+                  variant='neutral'
+                  size='sm'
+                  fontFamily='SecondaryFont-Bold'
+                />
+              ) : null}
+              {video.is_premium ? (
+                <Badge
+                  text={t('subscription.gate.badge')}
+                  variant='warning'
+                  size='sm'
+                  fontFamily='SecondaryFont-Bold'
+                />
+              ) : null}
+            </Row>
+          </View>
+          {isLocked && <PremiumGate compact locked />}
+        </Row>
+      </PlayfulCard>
+    );
+  },
+);
+
+// Strategy video player - expo-av with native controls inside a modal
+const StrategyVideoPlayer = ({
+  video,
+  onClose,
+  t,
+}: {
+  video: StrategyVideo | null;
+  onClose: () => void;
+  t: TFunction;
+}) => {
+  const [isBuffering, setIsBuffering] = useState(true);
+  const [hasError, setHasError] = useState(false);
+
+  useEffect(() => {
+    setIsBuffering(true);
+    setHasError(false);
+  }, [video?.video_id]);
+
+  const handleStatusUpdate = useCallback((status: AVPlaybackStatus) => {
+    if (!status.isLoaded) {
+      if (status.error) {
+        console.error('❌ Strategy video playback error:', status.error);
+        setHasError(true);
+      }
+      return;
+    }
+    setIsBuffering(status.isBuffering && !status.isPlaying);
+  }, []);
+
+  return (
+    <Modal
+      visible={!!video}
+      onClose={onClose}
+      title={video?.title}
+      width='92%'
+      titleFontFamily='PrimaryFont'
+    >
+      {video && (
+        <View>
+          <View>
+            <Video
+              source={{ uri: video.video_url }}
+              posterSource={
+                video.thumbnail_url ? { uri: video.thumbnail_url } : undefined
+              }
+              usePoster={!!video.thumbnail_url}
+              style={styles.player}
+              resizeMode={ResizeMode.CONTAIN}
+              useNativeControls
+              shouldPlay
+              onPlaybackStatusUpdate={handleStatusUpdate}
+              onError={() => setHasError(true)}
+            />
+            {isBuffering && !hasError && (
+              <View style={styles.playerOverlay} pointerEvents='none'>
+                <ActivityIndicator size='large' color={Colors.white} />
+              </View>
+            )}
+          </View>
+          {hasError && (
+            <Alert
+              type='error'
+              message={t('coaching.videoError')}
+              style={styles.playerError}
+            />
+          )}
+          {video.description ? (
+            <Text style={styles.playerDescription}>{video.description}</Text>
+          ) : null}
+        </View>
+      )}
+    </Modal>
+  );
+};
+
+export default function CoachingScreen() {
+  const router = useRouter();
+  const { tab, noteId } = useLocalSearchParams<{
+    tab?: string;
+    noteId?: string;
+  }>();
+  const { t, dateLocale } = useTranslation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+  const { isPremium } = usePremiumAccess();
+
+  const [activeTab, setActiveTab] = useState<CoachingTab>('notes');
+  const [playingVideo, setPlayingVideo] = useState<StrategyVideo | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  const contextColor = useMemo(
+    () => getCourseColor(getCourseCategory(preferredCourse?.title || '')),
+    [preferredCourse?.title, getCourseColor, getCourseCategory],
+  );
+
+  const {
+    data: notes = [],
+    isLoading: notesLoading,
+    error: notesError,
+    refetch: refetchNotes,
+  } = useCoachingNotes();
+  const {
+    data: messages = [],
+    isLoading: messagesLoading,
+    error: messagesError,
+    refetch: refetchMessages,
+  } = useMotivationalMessages();
+  const {
+    data: videos = [],
+    isLoading: videosLoading,
+    error: videosError,
+    refetch: refetchVideos,
+  } = useStrategyVideos();
+
+  const highlightedNoteId = noteId ? Number(noteId) : null;
+
+  // Notifications open the hub on a specific tab or note
+  useEffect(() => {
+    if (noteId) {
+      setActiveTab('notes');
+    } else if (tab && TABS.includes(tab as CoachingTab)) {
+      setActiveTab(tab as CoachingTab);
+    }
+  }, [tab, noteId]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([refetchNotes(), refetchMessages(), refetchVideos()]);
+    } catch (refreshError) {
+      console.error('Error refreshing coaching content:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetchNotes, refetchMessages, refetchVideos]);
+
+  const handlePlayVideo = useCallback((video: StrategyVideo) => {
+    setPlayingVideo(video);
+  }, []);
+
+  const handleClosePlayer = useCallback(() => {
+    setPlayingVideo(null);
+  }, []);
+
+  if (authLoading) {
+    return (
+      <Container style={styles.errorContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Container style={styles.errorContainer}>
+        <Alert
+          type='error'
+          title={t('common.loginRequired')}
+          message={t('coaching.loginRequired')}
+          style={styles.errorAlert}
+        />
+        <Button
+          title={t('auth.signIn')}
+          variant='primary'
+          onPress={() => router.replace('/(auth)/login')}
+          icon='sign-in'
+        />
+      </Container>
+    );
+  }
+
+  const renderLoading = () => (
+    <View style={styles.loadingContainer}>
+      <ActivityIndicator size='large' color={contextColor} />
+    </View>
+  );
+
+  const renderNotes = () => {
+    if (notesLoading) return renderLoading();
+    if (notesError) {
+      return (
+        <Alert
+          type='error'
+          message={t('coaching.notesError')}
+          style={styles.errorAlert}
+        />
+      );
+    }
+    if (notes.length === 0) {
+      return (
+        <EmptyState
+          icon='sticky-note'
+          title={t('coaching.noNotes')}
+          message={t('coaching.noNotesMessage')}
+        />
+      );
+    }
+    return notes.map((note) => (
+      <NoteCard
+        key={note.note_id}
+        note={note}
+        initiallyExpanded={note.note_id === highlightedNoteId}
+        contextColor={contextColor}
+        t={t}
+        dateLocale={dateLocale}
+      />
+    ));
+  };
+
+  const renderMessages = () => {
+    if (messagesLoading) return renderLoading();
+    if (messagesError) {
+      return (
+        <Alert
+          type='error'
+          message={t('coaching.messagesError')}
+          style={styles.errorAlert}
+        />
+      );
+    }
+    if (messages.length === 0) {
+      return (
+        <EmptyState
+          icon='heart'
+          title={t('coaching.noMessages')}
+          message={t('coaching.noMessagesMessage')}
+        />
+      );
+    }
+    return messages.map((message) => (
+      <MessageCard key={message.message_id} message={message} />
+    ));
+  };
+
+  const renderVideos = () => {
+    if (videosLoading) return renderLoading();
+    if (videosError) {
+      return (
+        <Alert
+          type='error'
+          message={t('coaching.videosError')}
+          style={styles.errorAlert}
+        />
+      );
+    }
+    return (
+      <>
+        {!isPremium && (
+          <PremiumGate
+            feature={t('coaching.premiumVideos')}
+            message={t('coaching.premiumVideosMessage')}
+            style={styles.card}
+          />
+        )}
+        {videos.length === 0 ? (
+          <EmptyState
+            icon='film'
+            title={t('coaching.noVideos')}
+            message={t('coaching.noVideosMessage')}
+          />
+        ) : (
+          videos.map((video) => (
+            <VideoCard
+              key={video.video_id}
+              video={video}
+              isLocked={video.is_premium && !isPremium}
+              contextColor={contextColor}
+              onPlay={handlePlayVideo}
+              t={t}
+            />
+          ))
+        )}
+      </>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={contextColor}
+            colors={[contextColor]}
+          />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('coaching.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('coaching.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Tabs */}
+        <Row style={styles.tabRow}>
+          {TABS.map((item) => {
+            const isActive = item === activeTab;
+            return (
+              <TouchableOpacity
+                key={item}
+                style={[
+                  styles.tab,
+                  isActive && { backgroundColor: contextColor },
+                ]}
+                onPress={() => setActiveTab(item)}
+                activeOpacity={0.8}
+                accessibilityRole='tab'
+                accessibilityState={{ selected: isActive }}
+              >
+                <FontAwesome
+                  name={TAB_ICONS[item]}
+                  size={12}
+                  color={isActive ? Colors.white : Colors.gray[600]}
+                />
+                <Text
+                  style={[styles.tabText, isActive && styles.tabTextActive]}
+                >
+                  {t(`coaching.tabs.${item}`)}
+                </Text>
+              </TouchableOpacity>
+            );
+          })}
+        </Row>
+
+        <SlideInElement key={activeTab} delay={100}>
+          <View>
+            {activeTab === 'notes' && renderNotes()}
+            {activeTab === 'messages' && renderMessages()}
+            {activeTab === 'videos' && renderVideos()}
+          </View>
+        </SlideInElement>
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+
+      <StrategyVideoPlayer
+        video={playingVideo}
+        onClose={handleClosePlayer}
+        t={t}
+      />
+    </View>
+  );
+}
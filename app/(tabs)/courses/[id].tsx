@@ -0,0 +1,484 @@
+// app/(tabs)/courses/[id].tsx - Course detail: topic/subtopic checklist and per topic repetitions
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Button,
+  Alert,
+  Checkbox,
+  ProgressBar,
+  EmptyState,
+  SlideInElement,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../components/ui';
+import {
+  useCourseChecklist,
+  useToggleSubtopic,
+  useUpdateTopicRepetitions,
+  courseChecklistHelpers,
+  type ChecklistTopic,
+} from '../../../src/hooks/useCourseChecklistData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { buildRoute } from '../../../constants/routes';
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    summaryValue: {
+      fontSize: 32,
+      fontFamily: 'PrimaryFont',
+      color: Colors.vibrant.green,
+      marginBottom: Spacing[2],
+    },
+    summaryHint: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      marginTop: Spacing[2],
+    },
+    topicHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+    },
+    topicTitle: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+    },
+    topicCount: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.icon,
+    },
+    topicProgress: {
+      marginTop: Spacing[2],
+    },
+    repetitionRow: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginTop: Spacing[3],
+    },
+    repetitionLabel: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    repetitionControls: {
+      alignItems: 'center',
+      gap: Spacing[2],
+    },
+    repetitionButton: {
+      width: 32,
+      height: 32,
+      borderRadius: BorderRadius.full,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+      justifyContent: 'center',
+    },
+    repetitionButtonDisabled: {
+      opacity: 0.4,
+    },
+    repetitionValue: {
+      minWidth: 24,
+      textAlign: 'center',
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    subtopicList: {
+      marginTop: Spacing[3],
+      paddingTop: Spacing[2],
+      borderTopWidth: 1,
+      borderTopColor: colors.divider,
+    },
+    subtopicRow: {
+      alignItems: 'center',
+      paddingVertical: Spacing[1],
+    },
+    subtopicCheckbox: {
+      flex: 1,
+    },
+    subtopicLabel: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+    },
+    noSubtopicsText: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textMuted,
+    },
+    actions: {
+      gap: Spacing[3],
+    },
+  });
+
+// Memoized Topic Card
+const TopicCard = memo<{
+  item: ChecklistTopic;
+  isExpanded: boolean;
+  pendingSubtopicId?: number;
+  isUpdatingRepetitions: boolean;
+  onToggleExpanded: (topicId: number) => void;
+  onToggleSubtopic: (subtopicId: number, isCompleted: boolean) => void;
+  onChangeRepetitions: (topicId: number, repetitionCount: number) => void;
+  t: TFunction;
+}>(
+  ({
+    item,
+    isExpanded,
+    pendingSubtopicId,
+    isUpdatingRepetitions,
+    onToggleExpanded,
+    onToggleSubtopic,
+    onChangeRepetitions,
+    t,
+  }) => {
+    const { colors } = useThemeColors();
+    const styles = useMemo(() => createStyles(colors), [colors]);
+    const { topic, subtopics, completedSubtopicIds, repetitionCount } = item;
+    const completion = courseChecklistHelpers.getTopicCompletion(item);
+
+    return (
+      <PlayfulCard style={styles.card} animated={false}>
+        <TouchableOpacity
+          onPress={() => onToggleExpanded(topic.topic_id)}
+          accessibilityRole='button'
+          accessibilityState={{ expanded: isExpanded }}
+        >
+          <Row style={styles.topicHeader}>
+            <Text style={styles.topicTitle}>{topic.title}</Text>
+            <Text style={styles.topicCount}>
+              {t('courseChecklist.subtopicCount', {
+                completed: completion.completed,
+                total: completion.total,
+              })}
+            </Text>
+            <FontAwesome
+              name={isExpanded ? 'chevron-up' : 'chevron-down'}
+              size={14}
+              color={colors.textMuted}
+            />
+          </Row>
+          {completion.total > 0 && (
+            <View style={styles.topicProgress}>
+              <ProgressBar
+                progress={completion.percentage}
+                height={6}
+                width='100%'
+                trackColor={colors.border}
+                progressColor={Colors.vibrant.green}
+                animated={false}
+              />
+            </View>
+          )}
+        </TouchableOpacity>
+
+        <Row style={styles.repetitionRow}>
+          <Text style={styles.repetitionLabel}>
+            🔁 {t('courseChecklist.repetitions')}
+          </Text>
+          <Row style={styles.repetitionControls}>
+            <TouchableOpacity
+              style={[
+                styles.repetitionButton,
+                (repetitionCount === 0 || isUpdatingRepetitions) &&
+                  styles.repetitionButtonDisabled,
+              ]}
+              onPress={() =>
+                onChangeRepetitions(topic.topic_id, repetitionCount - 1)
+              }
+              disabled={repetitionCount === 0 || isUpdatingRepetitions}
+              accessibilityRole='button'
+              accessibilityLabel={t('courseChecklist.decreaseRepetitions')}
+            >
+              <FontAwesome
+                name='minus'
+                size={12}
+                color={colors.textSecondary}
+              />
+            </TouchableOpacity>
+            <Text style={styles.repetitionValue}>{repetitionCount}</Text>
+            <TouchableOpacity
+              style={[
+                styles.repetitionButton,
+                isUpdatingRepetitions && styles.repetitionButtonDisabled,
+              ]}
+              onPress={() =>
+                onChangeRepetitions(topic.topic_id, repetitionCount + 1)
+              }
+              disabled={isUpdatingRepetitions}
+              accessibilityRole='button'
+              accessibilityLabel={t('courseChecklist.increaseRepetitions')}
+            >
+              <FontAwesome name='plus' size={12} color={colors.textSecondary} />
+            </TouchableOpacity>
+          </Row>
+        </Row>
+
+        {isExpanded && (
+          <View style={styles.subtopicList}>
+            {subtopics.length === 0 ? (
+              <Text style={styles.noSubtopicsText}>
+                {t('courseChecklist.noSubtopics')}
+              </Text>
+            ) : (
+              subtopics.map((subtopic) => {
+                const isCompleted = completedSubtopicIds.includes(
+                  subtopic.subtopic_id,
+                );
+                const isPending = pendingSubtopicId === subtopic.subtopic_id;
+                return (
+                  <Row key={subtopic.subtopic_id} style={styles.subtopicRow}>
+                    <Checkbox
+                      checked={isCompleted}
+                      onPress={() =>
+                        onToggleSubtopic(subtopic.subtopic_id, !isCompleted)
+                      }
+                      label={subtopic.title}
+                      disabled={pendingSubtopicId !== undefined}
+                      style={styles.subtopicCheckbox}
+                      labelStyle={styles.subtopicLabel}
+                    />
+                    {isPending && (
+                      <ActivityIndicator
+                        size='small'
+                        color={Colors.vibrant.green}
+                      />
+                    )}
+                  </Row>
+                );
+              })
+            )}
+          </View>
+        )}
+      </PlayfulCard>
+    );
+  },
+);
+
+export default function CourseDetailScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const courseId = Number(id) || null;
+
+  const { checklist, completion, isLoading, isFetching, refetch } =
+    useCourseChecklist(courseId);
+  const { toggleSubtopic, pendingSubtopicId } = useToggleSubtopic(courseId);
+  const { updateRepetitions, isUpdatingRepetitions } =
+    useUpdateTopicRepetitions(courseId);
+
+  const [expandedTopicIds, setExpandedTopicIds] = useState<Set<number>>(
+    () => new Set(),
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const handleToggleExpanded = useCallback((topicId: number) => {
+    setExpandedTopicIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(topicId)) {
+        next.delete(topicId);
+      } else {
+        next.add(topicId);
+      }
+      return next;
+    });
+  }, []);
+
+  const handleToggleSubtopic = useCallback(
+    async (subtopicId: number, isCompleted: boolean) => {
+      setError(null);
+      try {
+        await toggleSubtopic({ subtopicId, isCompleted });
+      } catch {
+        setError(t('courseChecklist.updateFailed'));
+      }
+    },
+    [toggleSubtopic, t],
+  );
+
+  const handleChangeRepetitions = useCallback(
+    async (topicId: number, repetitionCount: number) => {
+      setError(null);
+      try {
+        await updateRepetitions({ topicId, repetitionCount });
+      } catch {
+        setError(t('courseChecklist.updateFailed'));
+      }
+    },
+    [updateRepetitions, t],
+  );
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('home'));
+    }
+  }, [router]);
+
+  const topics = checklist?.topics ?? [];
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={
+        <RefreshControl
+          refreshing={isFetching && !isLoading}
+          onRefresh={refetch}
+        />
+      }
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {checklist?.courseTitle || t('courseChecklist.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('courseChecklist.subtitle')}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {error && (
+        <Alert
+          type='error'
+          message={error}
+          dismissible
+          onDismiss={() => setError(null)}
+          style={styles.statusAlert}
+        />
+      )}
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size='large' color={colors.primary} />
+        </View>
+      ) : topics.length === 0 ? (
+        <EmptyState
+          icon='list-ul'
+          title={t('courseChecklist.emptyTitle')}
+          message={t('courseChecklist.emptyMessage')}
+        />
+      ) : (
+        <>
+          {/* Completion summary */}
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('courseChecklist.completion')}
+              </Text>
+              <Text style={styles.summaryValue}>
+                {t('courseChecklist.percentage', {
+                  percentage: completion.percentage,
+                })}
+              </Text>
+              <ProgressBar
+                progress={completion.percentage}
+                height={10}
+                width='100%'
+                trackColor={colors.border}
+                progressColor={Colors.vibrant.green}
+              />
+              <Text style={styles.summaryHint}>
+                {t('courseChecklist.completionHint', {
+                  completed: completion.completed,
+                  total: completion.total,
+                })}
+              </Text>
+            </PlayfulCard>
+          </SlideInElement>
+
+          {/* Topics */}
+          {topics.map((item) => (
+            <TopicCard
+              key={item.topic.topic_id}
+              item={item}
+              isExpanded={expandedTopicIds.has(item.topic.topic_id)}
+              pendingSubtopicId={pendingSubtopicId}
+              isUpdatingRepetitions={isUpdatingRepetitions}
+              onToggleExpanded={handleToggleExpanded}
+              onToggleSubtopic={handleToggleSubtopic}
+              onChangeRepetitions={handleChangeRepetitions}
+              t={t}
+            />
+          ))}
+        </>
+      )}
+
+      <View style={styles.actions}>
+        <Button
+          title={t('navigation.goBack')}
+          variant='outline'
+          onPress={handleBack}
+          icon='arrow-left'
+        />
+      </View>
+    </ScrollView>
+  );
+}
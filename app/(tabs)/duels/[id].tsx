@@ -28,7 +28,13 @@ import {
   ListRenderItem,
 } from 'react-native';
 import { Video, ResizeMode } from 'expo-av';
-import { useRouter, useLocalSearchParams, router } from 'expo-router';
+import {
+  useRouter,
+  useLocalSearchParams,
+  router,
+  type Href,
+} from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import { FontAwesome } from '@expo/vector-icons';
 import { useFocusEffect } from '@react-navigation/native';
 
@@ -38,15 +44,23 @@ import {
   duelHelpers,
   FinalResults,
 } from '../../../src/hooks/useDuelsData';
+import { asyncDuelHelpers } from '../../../src/hooks/useAsyncDuelData';
 import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 import {
   analyticsService,
   userQuestionHistoryService,
   duelResultService,
 } from '../../../src/api';
 import { CreateDuelResultInput } from '../../../src/api/duelResultService';
+import type {
+  PowerUpType,
+  PowerUpInventory,
+} from '../../../src/api/socketService';
+import type { TranslationKey } from '../../../localization';
 
 import QuestionReportModal from '../../../components/ui/QuestionReportModal';
+import BookmarkButton from '../../../components/ui/BookmarkButton';
 
 import {
   Container,
@@ -68,6 +82,7 @@ import {
   FloatingElement,
   GlassCard,
   LinearGradient,
+  PowerUpButton,
 } from '../../../components/ui';
 import { Colors, Spacing, BorderRadius } from '../../../constants/theme';
 
@@ -538,6 +553,10 @@ const styles = StyleSheet.create({
     fontFamily: 'SecondaryFont-Regular',
     marginTop: 4,
   },
+  bookmarkButton: {
+    alignSelf: 'flex-end',
+    marginBottom: Spacing[2],
+  },
   reportQuestionContainer: {
     backgroundColor: 'rgba(255, 183, 3, 0.1)',
     borderRadius: BorderRadius['3xl'],
@@ -723,8 +742,97 @@ const styles = StyleSheet.create({
     flex: 1,
     minHeight: 50,
   },
+  reconnectOverlay: {
+    ...StyleSheet.absoluteFillObject,
+    backgroundColor: 'rgba(0,0,0,0.7)',
+    justifyContent: 'center',
+    alignItems: 'center',
+    paddingHorizontal: Spacing[4],
+  },
+  reconnectCard: {
+    padding: Spacing[5],
+    width: Math.floor(width * 0.85),
+    maxWidth: 360,
+    alignItems: 'center',
+  },
+  reconnectTitle: {
+    fontSize: 20,
+    color: Colors.gray[900],
+    fontFamily: 'PrimaryFont',
+    textAlign: 'center',
+    marginTop: Spacing[3],
+    marginBottom: Spacing[2],
+  },
+  reconnectMessage: {
+    color: Colors.gray[600],
+    textAlign: 'center',
+    fontFamily: 'SecondaryFont-Regular',
+    marginBottom: Spacing[4],
+  },
+  reconnectActions: {
+    gap: Spacing[3],
+    width: '100%',
+  },
+  powerUpContainer: {
+    backgroundColor: 'rgba(255,255,255,0.1)',
+    borderRadius: BorderRadius['3xl'],
+    padding: Spacing[3],
+    marginBottom: Spacing[4],
+  },
+  powerUpTitle: {
+    fontSize: 13,
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+    marginBottom: Spacing[2],
+  },
+  powerUpRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'space-between',
+    gap: Spacing[2],
+  },
+  powerUpStatusRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+    marginTop: Spacing[2],
+  },
+  powerUpError: {
+    fontSize: 12,
+    color: Colors.vibrant.coral,
+    fontFamily: 'SecondaryFont-Regular',
+    marginTop: Spacing[2],
+  },
 });
 
+const POWER_UP_ORDER: PowerUpType[] = [
+  'hint',
+  'skip',
+  'freeze',
+  'double',
+  'extra-time',
+];
+
+const POWER_UP_LABELS: Record<
+  PowerUpType,
+  { title: TranslationKey; description: TranslationKey }
+> = {
+  hint: { title: 'powerUps.hint', description: 'powerUps.hintDescription' },
+  skip: { title: 'powerUps.skip', description: 'powerUps.skipDescription' },
+  freeze: {
+    title: 'powerUps.freeze',
+    description: 'powerUps.freezeDescription',
+  },
+  double: {
+    title: 'powerUps.double',
+    description: 'powerUps.doubleDescription',
+  },
+  'extra-time': {
+    title: 'powerUps.extraTime',
+    description: 'powerUps.extraTimeDescription',
+  },
+};
+
 // 📍 MEMOIZED SUB-COMPONENTS
 
 // Helper function to safely access question options
@@ -743,6 +851,7 @@ const DuelInfoHeader = memo<{
   botInfo: any;
   isCreatingDuelResult: boolean;
 }>(({ isLoading, duelInfo, opponentInfo, botInfo, isCreatingDuelResult }) => {
+  const { t } = useTranslation();
   const getBotDisplayInfo = useCallback(() => {
     if (!opponentInfo?.isBot || !botInfo?.botInfo) return null;
     return duelHelpers.getBotDisplayInfo(botInfo.botInfo);
@@ -754,7 +863,7 @@ const DuelInfoHeader = memo<{
         <Row style={{ alignItems: 'center', justifyContent: 'center' }}>
           <ActivityIndicator size='small' color={Colors.white} />
           <Text style={styles.duelInfoLoading}>
-            Düello bilgileri yükleniyor...
+            {t('liveDuel.loadingInfo')}
           </Text>
         </Row>
       </View>
@@ -779,11 +888,17 @@ const DuelInfoHeader = memo<{
           )}
           {botDisplayInfo && (
             <Text style={[styles.duelInfoBot, { color: botDisplayInfo.color }]}>
-              🤖 {botDisplayInfo.name} (Seviye {botDisplayInfo.difficulty})
+              🤖{' '}
+              {t('liveDuel.botLevel', {
+                name: botDisplayInfo.name,
+                level: botDisplayInfo.difficulty,
+              })}
             </Text>
           )}
           {isCreatingDuelResult && (
-            <Text style={styles.duelInfoLoading}>Sonuçlar kaydediliyor...</Text>
+            <Text style={styles.duelInfoLoading}>
+              {t('liveDuel.savingResults')}
+            </Text>
           )}
         </Column>
       </Row>
@@ -807,42 +922,53 @@ const QuestionHeader = memo<{
     serverSynced,
     opponentAnswered,
     opponentInfo,
-  }) => (
-    <View style={styles.questionHeaderContainer}>
-      <Row style={styles.questionHeader}>
-        <Column>
-          <Text style={styles.questionCounter}>
-            Soru {questionIndex + 1} / {totalQuestions}
-          </Text>
-          <ProgressBar
-            progress={Number(
-              (((questionIndex + 1) / totalQuestions) * 100).toFixed(0),
-            )}
-            progressColor={Colors.vibrant.mint}
-            style={{ width: 120, marginTop: Spacing[1] }}
-          />
-        </Column>
-        <Column style={{ alignItems: 'flex-end' }}>
-          <Text
-            style={[
-              styles.timer,
-              displayTimeLeft <= 10 && styles.timerDanger,
-              !serverSynced && styles.timerUnsynced,
-            ]}
-          >
-            {displayTimeLeft}s {serverSynced ? '🟢' : '🔄'}
-          </Text>
-          <Text style={styles.opponentStatus}>
-            {opponentAnswered
-              ? `${opponentInfo?.isBot ? 'Bot' : 'Rakip'}: Tamamladı ✓`
-              : `${opponentInfo?.isBot ? 'Bot' : 'Rakip'}: ${
-                  opponentInfo?.isBot ? 'Hesaplıyor...' : 'Düşünüyor...'
-                }`}
-          </Text>
-        </Column>
-      </Row>
-    </View>
-  ),
+  }) => {
+    const { t } = useTranslation();
+
+    const opponentLabel = opponentInfo?.isBot
+      ? t('liveDuel.bot')
+      : t('liveDuel.opponent');
+
+    return (
+      <View style={styles.questionHeaderContainer}>
+        <Row style={styles.questionHeader}>
+          <Column>
+            <Text style={styles.questionCounter}>
+              {t('liveDuel.questionCounter', {
+                current: questionIndex + 1,
+                total: totalQuestions,
+              })}
+            </Text>
+            <ProgressBar
+              progress={Number(
+                (((questionIndex + 1) / totalQuestions) * 100).toFixed(0),
+              )}
+              progressColor={Colors.vibrant.mint}
+              style={{ width: 120, marginTop: Spacing[1] }}
+            />
+          </Column>
+          <Column style={{ alignItems: 'flex-end' }}>
+            <Text
+              style={[
+                styles.timer,
+                displayTimeLeft <= 10 && styles.timerDanger,
+                !serverSynced && styles.timerUnsynced,
+              ]}
+            >
+              {displayTimeLeft}s {serverSynced ? '🟢' : '🔄'}
+            </Text>
+            <Text style={styles.opponentStatus}>
+              {opponentAnswered
+                ? t('liveDuel.opponentDone', { name: opponentLabel })
+                : opponentInfo?.isBot
+                  ? t('liveDuel.botCalculating', { name: opponentLabel })
+                  : t('liveDuel.opponentThinking', { name: opponentLabel })}
+            </Text>
+          </Column>
+        </Row>
+      </View>
+    );
+  },
 );
 
 // Memoized Score Section
@@ -852,30 +978,34 @@ const ScoreSection = memo<{
   totalQuestions: number;
   user: any;
   opponentInfo: any;
-}>(({ userScore, opponentScore, totalQuestions, user, opponentInfo }) => (
-  <View style={styles.scoreContainer}>
-    <Row style={styles.scoreRow}>
-      <View style={styles.scoreDisplayWrapper}>
-        <ScoreDisplay
-          score={userScore}
-          maxScore={totalQuestions}
-          label={user?.username || 'Sen'}
-          variant='gradient'
-          size='small'
-        />
-      </View>
-      <View style={styles.scoreDisplayWrapper}>
-        <ScoreDisplay
-          score={opponentScore}
-          maxScore={totalQuestions}
-          label={opponentInfo?.username || 'Rakip'}
-          variant='gradient'
-          size='small'
-        />
-      </View>
-    </Row>
-  </View>
-));
+}>(({ userScore, opponentScore, totalQuestions, user, opponentInfo }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.scoreContainer}>
+      <Row style={styles.scoreRow}>
+        <View style={styles.scoreDisplayWrapper}>
+          <ScoreDisplay
+            score={userScore}
+            maxScore={totalQuestions}
+            label={user?.username || t('liveDuel.you')}
+            variant='gradient'
+            size='small'
+          />
+        </View>
+        <View style={styles.scoreDisplayWrapper}>
+          <ScoreDisplay
+            score={opponentScore}
+            maxScore={totalQuestions}
+            label={opponentInfo?.username || t('liveDuel.opponent')}
+            variant='gradient'
+            size='small'
+          />
+        </View>
+      </Row>
+    </View>
+  );
+});
 
 // Memoized Option Item for FlatList
 const OptionItem = memo<{
@@ -885,6 +1015,7 @@ const OptionItem = memo<{
   correctAnswer?: string;
   onPress: (key: string) => void;
 }>(({ item, selectedAnswer, hasAnswered, correctAnswer, onPress }) => {
+  const { t } = useTranslation();
   const { key, value } = item;
 
   const isSelected = selectedAnswer === key;
@@ -944,7 +1075,7 @@ const OptionItem = memo<{
         {key}) {value}
         {showResultsInQuestion && isCorrect && ' ✓'}
         {showResultsInQuestion && isSelected && !isCorrect && ' ✗'}
-        {showResultsInQuestion && isSelected && ' (Seçiminiz)'}
+        {showResultsInQuestion && isSelected && t('liveDuel.yourChoice')}
       </Text>
     </TouchableOpacity>
   );
@@ -957,56 +1088,60 @@ const ConnectingScreen = memo<{
   logoVideo: any;
   pulseAnim: Animated.Value;
   renderDuelInfoHeader: () => React.ReactNode;
-}>(({ logoVideo, pulseAnim, renderDuelInfoHeader }) => (
-  <View style={styles.mainContainer}>
-    <View style={{ marginHorizontal: Spacing[4] }}>
-      {renderDuelInfoHeader()}
-    </View>
-    <View style={styles.contentWrapper}>
-      <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
-        <PlayfulCard
-          variant='gradient'
-          style={{
-            width: 128,
-            height: 128,
-            borderRadius: 64,
-            alignItems: 'center',
-            justifyContent: 'center',
-            marginBottom: Spacing[4],
-            alignContent: 'center',
-          }}
-          contentContainerStyle={{
-            alignItems: 'center',
-            justifyContent: 'center',
-            alignContent: 'center',
-          }}
-          animated={true}
-          floatingAnimation={true}
-          gradient='purple'
-        >
-          <Video
-            source={logoVideo}
-            style={styles.logoVideo}
-            shouldPlay={true}
-            isLooping={true}
-            isMuted={true}
-            resizeMode={ResizeMode.COVER}
-            useNativeControls={false}
-            usePoster={false}
-          />
-        </PlayfulCard>
-      </Animated.View>
-      <PlayfulTitle level={2} style={styles.whiteText}>
-        Düelloya Bağlanıyor...
-      </PlayfulTitle>
-      <ActivityIndicator
-        size='large'
-        color={Colors.white}
-        style={{ marginTop: Spacing[4] }}
-      />
+}>(({ logoVideo, pulseAnim, renderDuelInfoHeader }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.mainContainer}>
+      <View style={{ marginHorizontal: Spacing[4] }}>
+        {renderDuelInfoHeader()}
+      </View>
+      <View style={styles.contentWrapper}>
+        <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
+          <PlayfulCard
+            variant='gradient'
+            style={{
+              width: 128,
+              height: 128,
+              borderRadius: 64,
+              alignItems: 'center',
+              justifyContent: 'center',
+              marginBottom: Spacing[4],
+              alignContent: 'center',
+            }}
+            contentContainerStyle={{
+              alignItems: 'center',
+              justifyContent: 'center',
+              alignContent: 'center',
+            }}
+            animated={true}
+            floatingAnimation={true}
+            gradient='purple'
+          >
+            <Video
+              source={logoVideo}
+              style={styles.logoVideo}
+              shouldPlay={true}
+              isLooping={true}
+              isMuted={true}
+              resizeMode={ResizeMode.COVER}
+              useNativeControls={false}
+              usePoster={false}
+            />
+          </PlayfulCard>
+        </Animated.View>
+        <PlayfulTitle level={2} style={styles.whiteText}>
+          {t('liveDuel.connecting')}
+        </PlayfulTitle>
+        <ActivityIndicator
+          size='large'
+          color={Colors.white}
+          style={{ marginTop: Spacing[4] }}
+        />
+      </View>
     </View>
-  </View>
-));
+  );
+});
 
 // Memoized Lobby Screen
 const LobbyScreen = memo<{
@@ -1015,6 +1150,7 @@ const LobbyScreen = memo<{
   opponentInfo: any;
   botInfo: any;
 }>(({ renderDuelInfoHeader, user, opponentInfo, botInfo }) => {
+  const { t } = useTranslation();
   const getBotDisplayInfo = useCallback(() => {
     if (!opponentInfo?.isBot || !botInfo?.botInfo) return null;
     return duelHelpers.getBotDisplayInfo(botInfo.botInfo);
@@ -1042,7 +1178,7 @@ const LobbyScreen = memo<{
                 bgColor={Colors.vibrant.purple}
                 style={{}}
               />
-              <Text style={styles.vsText}>KARŞI</Text>
+              <Text style={styles.vsText}>{t('liveDuel.versus')}</Text>
               <Avatar
                 size='lg'
                 name={
@@ -1058,38 +1194,48 @@ const LobbyScreen = memo<{
             </Row>
 
             <PlayfulTitle level={3} style={styles.whiteText}>
-              Düello Lobisi
+              {t('liveDuel.lobbyTitle')}
             </PlayfulTitle>
 
             <Paragraph style={styles.lightText}>
               {opponentInfo?.isBot
-                ? `${opponentInfo.username} ile düello başlıyor...`
+                ? t('liveDuel.startingWith', { name: opponentInfo.username })
                 : opponentInfo?.username
-                  ? `${opponentInfo.username} ile düello başlıyor...`
-                  : 'Her iki oyuncunun hazır olması bekleniyor...'}
+                  ? t('liveDuel.startingWith', { name: opponentInfo.username })
+                  : t('liveDuel.waitingForPlayers')}
             </Paragraph>
 
             {botDisplayInfo && (
               <View style={styles.botInfoCard}>
-                <Text style={styles.botInfoTitle}>Bot Bilgileri</Text>
+                <Text style={styles.botInfoTitle}>
+                  {t('liveDuel.botInfoTitle')}
+                </Text>
                 <Text style={styles.botInfoText}>
-                  Zorluk: Seviye {botDisplayInfo.difficulty} • Doğruluk:{' '}
-                  {botDisplayInfo.accuracy}%
+                  {t('liveDuel.botDifficulty', {
+                    level: botDisplayInfo.difficulty,
+                    accuracy: botDisplayInfo.accuracy,
+                  })}
                 </Text>
                 <Text style={styles.botInfoText}>
-                  Ortalama Yanıt Süresi: {botDisplayInfo.avgTime}s
+                  {t('liveDuel.botAvgTime', {
+                    seconds: botDisplayInfo.avgTime,
+                  })}
                 </Text>
               </View>
             )}
 
             <Row style={{ marginTop: Spacing[4] }}>
               <Badge
-                text='Hazır ✓'
+                text={t('liveDuel.ready')}
                 variant='success'
                 fontFamily='SecondaryFont-Bold'
               />
               <Badge
-                text={opponentInfo?.isBot ? 'Bot Hazır ✓' : 'Bekliyor...'}
+                text={
+                  opponentInfo?.isBot
+                    ? t('liveDuel.botReady')
+                    : t('liveDuel.waiting')
+                }
                 variant={opponentInfo?.isBot ? 'success' : 'warning'}
                 fontFamily='SecondaryFont-Bold'
               />
@@ -1106,21 +1252,110 @@ const CountdownScreen = memo<{
   countdown: number;
   pulseAnim: Animated.Value;
   renderDuelInfoHeader: () => React.ReactNode;
-}>(({ countdown, pulseAnim, renderDuelInfoHeader }) => (
-  <View style={styles.mainContainer}>
-    <View style={{ marginHorizontal: Spacing[4] }}>
-      {renderDuelInfoHeader()}
-    </View>
-    <View style={styles.contentWrapper}>
-      <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
-        <Text style={styles.countdownText}>{countdown}</Text>
-      </Animated.View>
-      <PlayfulTitle level={2} style={styles.whiteText}>
-        Hazır Olun!
-      </PlayfulTitle>
+}>(({ countdown, pulseAnim, renderDuelInfoHeader }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.mainContainer}>
+      <View style={{ marginHorizontal: Spacing[4] }}>
+        {renderDuelInfoHeader()}
+      </View>
+      <View style={styles.contentWrapper}>
+        <Animated.View style={{ transform: [{ scale: pulseAnim }] }}>
+          <Text style={styles.countdownText}>{countdown}</Text>
+        </Animated.View>
+        <PlayfulTitle level={2} style={styles.whiteText}>
+          {t('liveDuel.getReady')}
+        </PlayfulTitle>
+      </View>
     </View>
-  </View>
-));
+  );
+});
+
+// Memoized Power-up Bar
+const PowerUpBar = memo<{
+  powerUps: PowerUpInventory;
+  usedPowerUps: PowerUpType[];
+  pendingPowerUp: PowerUpType | null;
+  opponentPowerUp: PowerUpType | null;
+  powerUpError: string | null;
+  isFrozen: boolean;
+  hasAnswered: boolean;
+  onUsePowerUp: (powerUp: PowerUpType) => void;
+}>(
+  ({
+    powerUps,
+    usedPowerUps,
+    pendingPowerUp,
+    opponentPowerUp,
+    powerUpError,
+    isFrozen,
+    hasAnswered,
+    onUsePowerUp,
+  }) => {
+    const { t } = useTranslation();
+    // One power-up per question, and only before answering
+    const canUse = !hasAnswered && !pendingPowerUp && usedPowerUps.length === 0;
+
+    return (
+      <View style={styles.powerUpContainer}>
+        <Text style={styles.powerUpTitle}>{t('powerUps.title')}</Text>
+        <View style={styles.powerUpRow}>
+          {POWER_UP_ORDER.map((powerUp) => {
+            const count = powerUps[powerUp] ?? 0;
+            const available = canUse && count > 0;
+            return (
+              <PowerUpButton
+                key={powerUp}
+                title={t(POWER_UP_LABELS[powerUp].title)}
+                description={t(POWER_UP_LABELS[powerUp].description)}
+                powerUpType={powerUp}
+                count={count}
+                available={available}
+                variant={pendingPowerUp === powerUp ? 'pulsing' : 'default'}
+                size='small'
+                disabled={!available}
+                onPress={() => onUsePowerUp(powerUp)}
+              />
+            );
+          })}
+        </View>
+
+        {(usedPowerUps.includes('double') || isFrozen || opponentPowerUp) && (
+          <View style={styles.powerUpStatusRow}>
+            {usedPowerUps.includes('double') && (
+              <Badge
+                text={t('powerUps.doubleActive')}
+                variant='success'
+                size='sm'
+              />
+            )}
+            {isFrozen && (
+              <Badge
+                text={t('powerUps.timerFrozen')}
+                variant='info'
+                size='sm'
+              />
+            )}
+            {opponentPowerUp && (
+              <Badge
+                text={t('powerUps.opponentUsed', {
+                  powerUp: t(POWER_UP_LABELS[opponentPowerUp].title),
+                })}
+                variant='warning'
+                size='sm'
+              />
+            )}
+          </View>
+        )}
+
+        {powerUpError && (
+          <Text style={styles.powerUpError}>{powerUpError}</Text>
+        )}
+      </View>
+    );
+  },
+);
 
 // Memoized Question Screen
 const QuestionScreen = memo<{
@@ -1138,6 +1373,14 @@ const QuestionScreen = memo<{
   hasAnswered: boolean;
   onAnswerSelect: (answer: string) => void;
   renderDuelInfoHeader: () => React.ReactNode;
+  powerUps: PowerUpInventory;
+  usedPowerUps: PowerUpType[];
+  pendingPowerUp: PowerUpType | null;
+  removedOptions: string[];
+  opponentPowerUp: PowerUpType | null;
+  powerUpError: string | null;
+  isFrozen: boolean;
+  onUsePowerUp: (powerUp: PowerUpType) => void;
 }>(
   ({
     currentQuestion,
@@ -1154,15 +1397,27 @@ const QuestionScreen = memo<{
     hasAnswered,
     onAnswerSelect,
     renderDuelInfoHeader,
+    powerUps,
+    usedPowerUps,
+    pendingPowerUp,
+    removedOptions,
+    opponentPowerUp,
+    powerUpError,
+    isFrozen,
+    onUsePowerUp,
   }) => {
-    // Convert options to FlatList data
+    const { t } = useTranslation();
+
+    // Convert options to FlatList data, without the ones a hint removed
     const optionsData = useMemo(() => {
       if (!currentQuestion?.options) return [];
-      return Object.entries(currentQuestion.options).map(([key, value]) => ({
-        key,
-        value,
-      }));
-    }, [currentQuestion?.options]);
+      return Object.entries(currentQuestion.options)
+        .filter(([key]) => !removedOptions.includes(key))
+        .map(([key, value]) => ({
+          key,
+          value,
+        }));
+    }, [currentQuestion?.options, removedOptions]);
 
     // FlatList render item
     const renderOptionItem: ListRenderItem<OptionItem> = useCallback(
@@ -1195,7 +1450,7 @@ const QuestionScreen = memo<{
           <View style={styles.contentWrapper}>
             <ActivityIndicator size='large' color={Colors.white} />
             <Text style={[styles.lightText, { marginTop: Spacing[3] }]}>
-              Soru yükleniyor...
+              {t('liveDuel.loadingQuestion')}
             </Text>
           </View>
         </View>
@@ -1231,6 +1486,18 @@ const QuestionScreen = memo<{
             opponentInfo={opponentInfo}
           />
 
+          {/* Power-ups */}
+          <PowerUpBar
+            powerUps={powerUps}
+            usedPowerUps={usedPowerUps}
+            pendingPowerUp={pendingPowerUp}
+            opponentPowerUp={opponentPowerUp}
+            powerUpError={powerUpError}
+            isFrozen={isFrozen}
+            hasAnswered={hasAnswered}
+            onUsePowerUp={onUsePowerUp}
+          />
+
           {/* Question Content */}
           <View style={styles.questionCard}>
             <View style={styles.questionContent}>
@@ -1261,7 +1528,11 @@ const QuestionScreen = memo<{
           {hasAnswered && (
             <View style={styles.answerStatusContainer}>
               <Badge
-                text='Cevap Gönderildi ✓'
+                text={
+                  usedPowerUps.includes('skip')
+                    ? t('powerUps.skipped')
+                    : t('liveDuel.answerSubmitted')
+                }
                 variant='success'
                 size='md'
                 fontFamily='SecondaryFont-Bold'
@@ -1269,8 +1540,8 @@ const QuestionScreen = memo<{
               />
               <Paragraph style={styles.answerStatusText}>
                 {opponentInfo?.isBot
-                  ? 'Bot hesaplıyor...'
-                  : 'Rakip bekleniyor...'}
+                  ? t('liveDuel.botCalculatingStatus')
+                  : t('liveDuel.waitingForOpponent')}
               </Paragraph>
             </View>
           )}
@@ -1279,17 +1550,20 @@ const QuestionScreen = memo<{
             <View style={styles.questionResultsContainer}>
               <View style={styles.correctAnswerContainer}>
                 <Text style={styles.correctAnswer}>
-                  Doğru Cevap: {currentQuestion.correctAnswer}){' '}
-                  {getOptionValue(
-                    currentQuestion.options,
-                    currentQuestion.correctAnswer,
-                  )}
+                  {t('liveDuel.correctAnswer', {
+                    answer: `${currentQuestion.correctAnswer}) ${getOptionValue(
+                      currentQuestion.options,
+                      currentQuestion.correctAnswer,
+                    )}`,
+                  })}
                 </Text>
               </View>
 
               {currentQuestion.explanation && (
                 <View style={styles.explanationContainer}>
-                  <Text style={styles.explanationTitle}>💡 Açıklama</Text>
+                  <Text style={styles.explanationTitle}>
+                    💡 {t('liveDuel.explanation')}
+                  </Text>
                   <Text style={styles.explanationText}>
                     {currentQuestion.explanation}
                   </Text>
@@ -1315,6 +1589,7 @@ const ResultsScreen = memo<{
   opponentScore: number;
   totalQuestions: number;
   currentQuestion: Question | null;
+  duelInfo: any;
   showReportModal: boolean;
   onShowReportModal: (show: boolean) => void;
   renderDuelInfoHeader: () => React.ReactNode;
@@ -1328,10 +1603,13 @@ const ResultsScreen = memo<{
     opponentScore,
     totalQuestions,
     currentQuestion,
+    duelInfo,
     showReportModal,
     onShowReportModal,
     renderDuelInfoHeader,
   }) => {
+    const { t } = useTranslation();
+
     if (!roundResult || !roundResult.question) {
       return null;
     }
@@ -1353,11 +1631,26 @@ const ResultsScreen = memo<{
             <PlayfulCard variant='glass' style={styles.resultsCard}>
               <Column style={{ alignItems: 'center' }}>
                 <PlayfulTitle level={2} style={styles.whiteText}>
-                  {questionIndex + 1}. Tur Sonuçları
+                  {t('liveDuel.roundResults', { round: questionIndex + 1 })}
                 </PlayfulTitle>
 
                 {/* Question Display with Answer Highlighting */}
                 <View style={styles.questionResultsContainer}>
+                  <BookmarkButton
+                    question={{
+                      question_id: roundResult.question.id,
+                      question_text: roundResult.question.text,
+                      options: roundResult.question.options || {},
+                      correct_answer: roundResult.question.correctAnswer || '',
+                      explanation: roundResult.question.explanation || null,
+                      test_id: duelInfo?.test?.test_id ?? null,
+                      course_id: duelInfo?.course?.course_id ?? null,
+                      course_title: duelInfo?.course?.title ?? null,
+                    }}
+                    showLabel
+                    size={18}
+                    style={styles.bookmarkButton}
+                  />
                   <Text style={styles.questionResultsText}>
                     {roundResult.question.text}
                   </Text>
@@ -1402,7 +1695,7 @@ const ResultsScreen = memo<{
                               {key}) {value as string}
                               {isCorrect && ' ✓'}
                               {isUserSelected && !isCorrect && ' ✗'}
-                              {isUserSelected && ' (Seçiminiz)'}
+                              {isUserSelected && t('liveDuel.yourChoice')}
                             </Text>
                           </View>
                         );
@@ -1413,18 +1706,21 @@ const ResultsScreen = memo<{
                   {/* Correct Answer Display */}
                   <View style={styles.correctAnswerContainer}>
                     <Text style={styles.correctAnswer}>
-                      Doğru Cevap: {roundResult.question.correctAnswer}){' '}
-                      {getOptionValue(
-                        roundResult.question.options,
-                        roundResult.question.correctAnswer,
-                      )}
+                      {t('liveDuel.correctAnswer', {
+                        answer: `${roundResult.question.correctAnswer}) ${getOptionValue(
+                          roundResult.question.options,
+                          roundResult.question.correctAnswer,
+                        )}`,
+                      })}
                     </Text>
                   </View>
 
                   {/* Explanation if available */}
                   {roundResult.question.explanation && (
                     <View style={styles.explanationContainer}>
-                      <Text style={styles.explanationTitle}>💡 Açıklama</Text>
+                      <Text style={styles.explanationTitle}>
+                        💡 {t('liveDuel.explanation')}
+                      </Text>
                       <Text style={styles.explanationText}>
                         {roundResult.question.explanation}
                       </Text>
@@ -1440,8 +1736,8 @@ const ResultsScreen = memo<{
 
                       const isUser = answer.userId === user?.userId;
                       const displayName = isUser
-                        ? user?.username || 'Sen'
-                        : opponentInfo?.username || 'Rakip';
+                        ? user?.username || t('liveDuel.you')
+                        : opponentInfo?.username || t('liveDuel.opponent');
 
                       return (
                         <View key={idx} style={styles.playerResultContainer}>
@@ -1451,7 +1747,11 @@ const ResultsScreen = memo<{
                               {!isUser && opponentInfo?.isBot && ' 🤖'}
                             </Text>
                             <Badge
-                              text={answer.isCorrect ? 'Doğru ✓' : 'Yanlış ✗'}
+                              text={
+                                answer.isCorrect
+                                  ? t('liveDuel.correct')
+                                  : t('liveDuel.wrong')
+                              }
                               variant={answer.isCorrect ? 'success' : 'error'}
                               style={styles.resultBadge}
                               fontFamily='SecondaryFont-Bold'
@@ -1461,7 +1761,9 @@ const ResultsScreen = memo<{
                             </Text>
                             {answer.selectedAnswer && (
                               <Text style={styles.selectedAnswerText}>
-                                Seçim: {answer.selectedAnswer}
+                                {t('liveDuel.picked', {
+                                  answer: answer.selectedAnswer,
+                                })}
                               </Text>
                             )}
                           </Column>
@@ -1479,7 +1781,9 @@ const ResultsScreen = memo<{
                         value={userScore}
                         style={{ color: Colors.vibrant.mint }}
                       />
-                      <Text style={styles.scoreLabel}>Puanınız</Text>
+                      <Text style={styles.scoreLabel}>
+                        {t('liveDuel.yourScore')}
+                      </Text>
                     </Column>
                     <Text style={styles.scoreVs}>-</Text>
                     <Column style={{ alignItems: 'center', minWidth: 80 }}>
@@ -1488,7 +1792,9 @@ const ResultsScreen = memo<{
                         style={{ color: Colors.vibrant.coral }}
                       />
                       <Text style={styles.scoreLabel}>
-                        {opponentInfo?.isBot ? 'Bot' : 'Rakip'}
+                        {opponentInfo?.isBot
+                          ? t('liveDuel.bot')
+                          : t('liveDuel.opponent')}
                       </Text>
                     </Column>
                   </Row>
@@ -1497,11 +1803,10 @@ const ResultsScreen = memo<{
                 {/* Question Report Section */}
                 <View style={styles.reportQuestionContainer}>
                   <Text style={styles.reportQuestionTitle}>
-                    Soruyla ilgili bir sorun mu var?
+                    {t('liveDuel.reportTitle')}
                   </Text>
                   <Text style={styles.reportQuestionDescription}>
-                    Yanlış cevap, yazım hatası veya belirsizlik varsa bize
-                    bildirin
+                    {t('liveDuel.reportDescription')}
                   </Text>
                   <TouchableOpacity
                     style={styles.reportButton}
@@ -1514,13 +1819,15 @@ const ResultsScreen = memo<{
                       color={Colors.white}
                       style={{ marginRight: Spacing[2] }}
                     />
-                    <Text style={styles.reportButtonText}>Soruyu Bildir</Text>
+                    <Text style={styles.reportButtonText}>
+                      {t('liveDuel.reportQuestion')}
+                    </Text>
                   </TouchableOpacity>
                 </View>
 
                 <View style={styles.nextQuestionContainer}>
                   <Paragraph style={styles.lightText}>
-                    Sonraki soru 30 saniye içinde...
+                    {t('liveDuel.nextQuestion', { seconds: 30 })}
                   </Paragraph>
                 </View>
               </Column>
@@ -1564,7 +1871,7 @@ const FinalScreen = memo<{
   totalQuestions: number;
   answeredQuestions: AnsweredQuestion[];
   duelResultCreated: boolean;
-  onCleanupAndNavigate: (route: string) => void;
+  onCleanupAndNavigate: (route: Href) => void;
   renderDuelInfoHeader: () => React.ReactNode;
 }>(
   ({
@@ -1579,6 +1886,7 @@ const FinalScreen = memo<{
     onCleanupAndNavigate,
     renderDuelInfoHeader,
   }) => {
+    const { t } = useTranslation();
     const getBotDisplayInfo = useCallback(() => {
       if (!opponentInfo?.isBot || !botInfo?.botInfo) return null;
       return duelHelpers.getBotDisplayInfo(botInfo.botInfo);
@@ -1609,11 +1917,13 @@ const FinalScreen = memo<{
                           style={styles.winnerText}
                           fontFamily='SecondaryFont-Bold'
                         >
-                          ZAFER!
+                          {t('liveDuel.victory')}
                         </PlayfulTitle>
                         {opponentInfo?.isBot && (
                           <Text style={styles.botVictoryText}>
-                            {opponentInfo.username} botu yendiniz!
+                            {t('liveDuel.beatBot', {
+                              name: opponentInfo.username,
+                            })}
                           </Text>
                         )}
                       </>
@@ -1621,11 +1931,13 @@ const FinalScreen = memo<{
                       <>
                         <Text style={styles.winnerEmoji}>😔</Text>
                         <PlayfulTitle level={1} style={styles.loserText}>
-                          Yenilgi
+                          {t('liveDuel.defeat')}
                         </PlayfulTitle>
                         {opponentInfo?.isBot && (
                           <Text style={styles.botDefeatText}>
-                            {opponentInfo.username} botu sizi yendi!
+                            {t('liveDuel.lostToBot', {
+                              name: opponentInfo.username,
+                            })}
                           </Text>
                         )}
                       </>
@@ -1633,7 +1945,7 @@ const FinalScreen = memo<{
                       <>
                         <Text style={styles.winnerEmoji}>🤝</Text>
                         <PlayfulTitle level={1} style={styles.drawText}>
-                          Beraberlik!
+                          {t('liveDuel.drawTitle')}
                         </PlayfulTitle>
                       </>
                     )}
@@ -1651,7 +1963,7 @@ const FinalScreen = memo<{
                             : finalResults.user2.score
                         }
                         maxScore={totalQuestions}
-                        label={user?.username || 'Sen'}
+                        label={user?.username || t('liveDuel.you')}
                         variant='default'
                         size='medium'
                         style={{ width: '100%', maxWidth: '100%' }}
@@ -1668,7 +1980,7 @@ const FinalScreen = memo<{
                             : finalResults.user1.score
                         }
                         maxScore={totalQuestions}
-                        label={opponentInfo?.username || 'Rakip'}
+                        label={opponentInfo?.username || t('liveDuel.opponent')}
                         variant='default'
                         size='medium'
                         style={{ width: '100%', maxWidth: '100%' }}
@@ -1684,12 +1996,14 @@ const FinalScreen = memo<{
                 {duelInfo && (
                   <View style={styles.duelSummaryContainer}>
                     <View style={styles.duelSummary}>
-                      <Text style={styles.duelSummaryTitle}>Düello Özeti</Text>
+                      <Text style={styles.duelSummaryTitle}>
+                        {t('liveDuel.summaryTitle')}
+                      </Text>
                       <Text style={styles.duelSummaryText}>
-                        📚 {duelInfo.course?.title || 'Bilinmeyen Ders'}
+                        📚 {duelInfo.course?.title || t('duels.unknownCourse')}
                       </Text>
                       <Text style={styles.duelSummaryText}>
-                        📝 {duelInfo.test?.title || 'Bilinmeyen Test'}
+                        📝 {duelInfo.test?.title || t('liveDuel.unknownTest')}
                       </Text>
                       <Text style={styles.duelSummaryText}>
                         👥 {user?.username} vs {opponentInfo?.username}
@@ -1702,17 +2016,23 @@ const FinalScreen = memo<{
                             { color: botDisplayInfo.color },
                           ]}
                         >
-                          🎯 Zorluk Seviye {botDisplayInfo.difficulty} •{' '}
-                          {botDisplayInfo.accuracy}% Doğruluk
+                          🎯{' '}
+                          {t('liveDuel.summaryBotDifficulty', {
+                            level: botDisplayInfo.difficulty,
+                            accuracy: botDisplayInfo.accuracy,
+                          })}
                         </Text>
                       )}
                       <Text style={styles.duelSummaryText}>
-                        📊 {answeredQuestions.length} soru yanıtlandı
+                        📊{' '}
+                        {t('liveDuel.questionsAnswered', {
+                          count: answeredQuestions.length,
+                        })}
                       </Text>
                       {duelResultCreated && (
                         <View style={styles.resultCreatedContainer}>
                           <Badge
-                            text='Sonuçlar Kaydedildi ✓'
+                            text={t('liveDuel.resultsSaved')}
                             variant='success'
                             style={styles.resultCreatedBadge}
                           />
@@ -1727,37 +2047,42 @@ const FinalScreen = memo<{
                   <View style={styles.statsSection}>
                     <Row style={styles.statsRow}>
                       <Text style={styles.statText}>
-                        Doğruluk:{' '}
-                        {Math.floor(
-                          (finalResults.user1.userId === user?.userId
-                            ? finalResults.user1.accuracy
-                            : finalResults.user2.accuracy) * 100,
-                        )}
-                        %
+                        {t('liveDuel.accuracy', {
+                          accuracy: Math.floor(
+                            (finalResults.user1.userId === user?.userId
+                              ? finalResults.user1.accuracy
+                              : finalResults.user2.accuracy) * 100,
+                          ),
+                        })}
                       </Text>
                       <Text style={styles.statText}>
-                        Ort. Süre:{' '}
-                        {Math.floor(
-                          ((finalResults.user1.userId === user?.userId
-                            ? finalResults.user1.totalTime
-                            : finalResults.user2.totalTime) /
-                            1000 /
-                            totalQuestions) *
-                            10,
-                        ) / 10}
-                        s
+                        {t('liveDuel.avgTime', {
+                          seconds:
+                            Math.floor(
+                              ((finalResults.user1.userId === user?.userId
+                                ? finalResults.user1.totalTime
+                                : finalResults.user2.totalTime) /
+                                1000 /
+                                totalQuestions) *
+                                10,
+                            ) / 10,
+                        })}
                       </Text>
                     </Row>
 
                     {answeredQuestions.length > 0 && (
                       <Row style={styles.additionalStatsRow}>
                         <Text style={styles.statText}>
-                          Doğru:{' '}
-                          {answeredQuestions.filter((q) => q.isCorrect).length}
+                          {t('liveDuel.correctCount', {
+                            count: answeredQuestions.filter((q) => q.isCorrect)
+                              .length,
+                          })}
                         </Text>
                         <Text style={styles.statText}>
-                          Yanlış:{' '}
-                          {answeredQuestions.filter((q) => !q.isCorrect).length}
+                          {t('liveDuel.wrongCount', {
+                            count: answeredQuestions.filter((q) => !q.isCorrect)
+                              .length,
+                          })}
                         </Text>
                       </Row>
                     )}
@@ -1768,11 +2093,11 @@ const FinalScreen = memo<{
                 <View style={styles.actionButtonsContainer}>
                   <Row style={styles.actionButtons}>
                     <Button
-                      title='Yeni Düello'
+                      title={t('liveDuel.newDuel')}
                       variant='ghost'
                       onPress={() => {
                         // Force cleanup and navigate
-                        onCleanupAndNavigate('/(tabs)/duels/new');
+                        onCleanupAndNavigate(buildRoute('newDuel'));
                         // Add a small delay to ensure cleanup completes
                         setTimeout(() => {
                           router.replace('/(tabs)/duels/new');
@@ -1781,9 +2106,9 @@ const FinalScreen = memo<{
                       style={styles.actionButton}
                     />
                     <Button
-                      title='Çık'
+                      title={t('liveDuel.exit')}
                       variant='secondary'
-                      onPress={() => onCleanupAndNavigate('/(tabs)/duels')}
+                      onPress={() => onCleanupAndNavigate(buildRoute('duels'))}
                       style={styles.actionButton}
                     />
                   </Row>
@@ -1803,21 +2128,77 @@ const ErrorScreen = memo<{
   connectionError?: string;
   roomError?: string;
   onRetry: () => void;
-}>(({ gameError, connectionError, roomError, onRetry }) => (
-  <View style={styles.mainContainer}>
-    <View style={styles.contentWrapper}>
-      <UIAlert
-        type='error'
-        title='Bağlantı Hatası'
-        message={
-          gameError || connectionError || roomError || 'Bir şeyler ters gitti'
-        }
-        style={{ marginBottom: Spacing[4] }}
-      />
-      <Button title='Tekrar Dene' variant='primary' onPress={onRetry} />
+}>(({ gameError, connectionError, roomError, onRetry }) => {
+  const { t } = useTranslation();
+
+  return (
+    <View style={styles.mainContainer}>
+      <View style={styles.contentWrapper}>
+        <UIAlert
+          type='error'
+          title={t('liveDuel.connectionError')}
+          message={
+            gameError ||
+            connectionError ||
+            roomError ||
+            t('liveDuel.somethingWentWrong')
+          }
+          style={{ marginBottom: Spacing[4] }}
+        />
+        <Button title={t('common.retry')} variant='primary' onPress={onRetry} />
+      </View>
     </View>
-  </View>
-));
+  );
+});
+
+// Shown on top of the current phase while the socket is inside its grace window
+const ReconnectingOverlay = memo<{
+  deadline: number | null;
+  onRetry: () => void;
+  onLeave: () => void;
+}>(({ deadline, onRetry, onLeave }) => {
+  const { t } = useTranslation();
+  const getSecondsLeft = useCallback(
+    () =>
+      deadline ? Math.max(0, Math.ceil((deadline - Date.now()) / 1000)) : 0,
+    [deadline],
+  );
+  const [secondsLeft, setSecondsLeft] = useState(getSecondsLeft);
+
+  useEffect(() => {
+    setSecondsLeft(getSecondsLeft());
+    const interval = setInterval(() => setSecondsLeft(getSecondsLeft()), 1000);
+    return () => clearInterval(interval);
+  }, [getSecondsLeft]);
+
+  return (
+    <View style={styles.reconnectOverlay}>
+      <PlayfulCard style={styles.reconnectCard} animated={false}>
+        <ActivityIndicator size='large' color={Colors.vibrant.purple} />
+        <Text style={styles.reconnectTitle}>
+          {t('duels.reconnectingTitle')}
+        </Text>
+        <Text style={styles.reconnectMessage}>
+          {t('duels.reconnectingMessage', { seconds: secondsLeft })}
+        </Text>
+        <View style={styles.reconnectActions}>
+          <Button
+            title={t('duels.reconnectRetry')}
+            variant='primary'
+            onPress={onRetry}
+            icon='refresh'
+          />
+          <Button
+            title={t('duels.reconnectLeave')}
+            variant='outline'
+            onPress={onLeave}
+            icon='sign-out'
+          />
+        </View>
+      </PlayfulCard>
+    </View>
+  );
+});
 
 // 📍 MAIN COMPONENT
 export default function DuelRoomScreen() {
@@ -1829,6 +2210,7 @@ export default function DuelRoomScreen() {
   // Store hooks
   const { user, isAuthenticated } = useAuth();
   const { preferredCourse, getCourseColor } = usePreferredCourse();
+  const { t } = useTranslation();
 
   // Refs for stable initialization
   const initializationRef = useRef({
@@ -1906,6 +2288,16 @@ export default function DuelRoomScreen() {
     submitAnswer,
     signalReady,
     cleanup,
+    isReconnecting,
+    reconnectDeadline,
+    retryReconnect,
+    powerUps,
+    usedPowerUps,
+    pendingPowerUp,
+    removedOptions,
+    opponentPowerUp,
+    powerUpError,
+    activatePowerUp,
     isLoading,
     hasError,
     roundResult,
@@ -1917,8 +2309,17 @@ export default function DuelRoomScreen() {
     timeLeft: timerTimeLeft,
     isActive: timerActive,
     serverSynced,
+    isFrozen,
   } = useDuelTimer(60);
 
+  // Async duels are played on their own screen, not in the live room
+  useEffect(() => {
+    if (asyncDuelHelpers.isAsyncDuel(duelInfo)) {
+      cleanup();
+      router.replace(buildRoute('asyncDuel', { id: duelId }));
+    }
+  }, [duelInfo, duelId, cleanup, router]);
+
   // 📍 CONSOLIDATED STATE - Reduced from multiple useState
   const [uiState, setUIState] = useState({
     selectedAnswer: null as string | null,
@@ -1976,26 +2377,22 @@ export default function DuelRoomScreen() {
   );
 
   const handleExitDuel = useCallback(() => {
-    Alert.alert(
-      'Düellodan Çık',
-      'Ayrılmak istediğinizden emin misiniz? Bu yenilgi sayılacak.',
-      [
-        { text: 'İptal', style: 'cancel' },
-        {
-          text: 'Çık',
-          style: 'destructive',
-          onPress: () => {
-            const initRef = initializationRef.current;
-            if (!initRef.hasCleanedUp) {
-              initRef.hasCleanedUp = true;
-              cleanup();
-            }
-            router.replace('/(tabs)/duels/new');
-          },
+    Alert.alert(t('liveDuel.exitTitle'), t('liveDuel.exitMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('liveDuel.exit'),
+        style: 'destructive',
+        onPress: () => {
+          const initRef = initializationRef.current;
+          if (!initRef.hasCleanedUp) {
+            initRef.hasCleanedUp = true;
+            cleanup();
+          }
+          router.replace('/(tabs)/duels/new');
         },
-      ],
-    );
-  }, [cleanup, router]);
+      },
+    ]);
+  }, [cleanup, router, t]);
 
   // const handleCleanupAndNavigate = useCallback(
   //   (route: string) => {
@@ -2014,7 +2411,7 @@ export default function DuelRoomScreen() {
   // );
 
   const handleCleanupAndNavigate = useCallback(
-    (route: string) => {
+    (route: Href) => {
       console.log('🚀 FORCING COMPLETE CLEANUP before navigation to:', route);
 
       const initRef = initializationRef.current;
@@ -2046,7 +2443,7 @@ export default function DuelRoomScreen() {
       console.log('✅ Complete cleanup executed, navigating to:', route);
 
       // Force immediate navigation with replace to prevent back navigation
-      router.replace(route as any);
+      router.replace(route);
     },
     [cleanup, router],
   );
@@ -2249,7 +2646,7 @@ export default function DuelRoomScreen() {
         <View style={styles.contentWrapper}>
           <ActivityIndicator size='large' color={Colors.white} />
           <Text style={[styles.lightText, { marginTop: Spacing[3] }]}>
-            Hazırlanıyor...
+            {t('liveDuel.preparing')}
           </Text>
         </View>
       </View>
@@ -2257,98 +2654,122 @@ export default function DuelRoomScreen() {
   }
 
   // Main render logic with memoized components
-  switch (gamePhase) {
-    case 'connecting':
-      return (
-        <ConnectingScreen
-          logoVideo={logoVideo}
-          pulseAnim={pulseAnim}
-          renderDuelInfoHeader={renderDuelInfoHeader}
-        />
-      );
-    case 'lobby':
-      return (
-        <LobbyScreen
-          renderDuelInfoHeader={renderDuelInfoHeader}
-          user={user}
-          opponentInfo={opponentInfo}
-          botInfo={botInfo}
-        />
-      );
-    case 'countdown':
-      return (
-        <CountdownScreen
-          countdown={uiState.countdown}
-          pulseAnim={pulseAnim}
-          renderDuelInfoHeader={renderDuelInfoHeader}
-        />
-      );
-    case 'question':
-      return (
-        <QuestionScreen
-          currentQuestion={currentQuestion}
-          questionIndex={questionIndex}
-          totalQuestions={totalQuestions}
-          displayTimeLeft={displayTimeLeft}
-          serverSynced={serverSynced}
-          opponentAnswered={opponentAnswered}
-          opponentInfo={opponentInfo}
-          userScore={userScore}
-          opponentScore={opponentScore}
-          user={user}
-          selectedAnswer={uiState.selectedAnswer}
-          hasAnswered={hasAnswered}
-          onAnswerSelect={handleAnswerSelect}
-          renderDuelInfoHeader={renderDuelInfoHeader}
-        />
-      );
-    case 'results':
-      return (
-        <ResultsScreen
-          roundResult={roundResult}
-          questionIndex={questionIndex}
-          user={user}
-          opponentInfo={opponentInfo}
-          userScore={userScore}
-          opponentScore={opponentScore}
-          totalQuestions={totalQuestions}
-          currentQuestion={currentQuestion}
-          showReportModal={uiState.showReportModal}
-          onShowReportModal={handleShowReportModal}
-          renderDuelInfoHeader={renderDuelInfoHeader}
-        />
-      );
-    case 'final':
-      return finalResults ? (
-        <FinalScreen
-          finalResults={finalResults}
-          duelInfo={duelInfo}
-          opponentInfo={opponentInfo}
-          botInfo={botInfo}
-          user={user}
-          totalQuestions={totalQuestions}
-          answeredQuestions={uiState.answeredQuestions}
-          duelResultCreated={uiState.duelResultCreated}
-          onCleanupAndNavigate={handleCleanupAndNavigate}
-          renderDuelInfoHeader={renderDuelInfoHeader}
-        />
-      ) : null;
-    case 'error':
-      return (
-        <ErrorScreen
-          gameError={gameError || undefined}
-          connectionError={connectionError || undefined}
-          roomError={roomError || undefined}
-          onRetry={handleRetry}
-        />
-      );
-    default:
-      return (
-        <ConnectingScreen
-          logoVideo={logoVideo}
-          pulseAnim={pulseAnim}
-          renderDuelInfoHeader={renderDuelInfoHeader}
+  const renderPhaseContent = () => {
+    switch (gamePhase) {
+      case 'connecting':
+        return (
+          <ConnectingScreen
+            logoVideo={logoVideo}
+            pulseAnim={pulseAnim}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+          />
+        );
+      case 'lobby':
+        return (
+          <LobbyScreen
+            renderDuelInfoHeader={renderDuelInfoHeader}
+            user={user}
+            opponentInfo={opponentInfo}
+            botInfo={botInfo}
+          />
+        );
+      case 'countdown':
+        return (
+          <CountdownScreen
+            countdown={uiState.countdown}
+            pulseAnim={pulseAnim}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+          />
+        );
+      case 'question':
+        return (
+          <QuestionScreen
+            currentQuestion={currentQuestion}
+            questionIndex={questionIndex}
+            totalQuestions={totalQuestions}
+            displayTimeLeft={displayTimeLeft}
+            serverSynced={serverSynced}
+            opponentAnswered={opponentAnswered}
+            opponentInfo={opponentInfo}
+            userScore={userScore}
+            opponentScore={opponentScore}
+            user={user}
+            selectedAnswer={uiState.selectedAnswer}
+            hasAnswered={hasAnswered}
+            onAnswerSelect={handleAnswerSelect}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+            powerUps={powerUps}
+            usedPowerUps={usedPowerUps}
+            pendingPowerUp={pendingPowerUp}
+            removedOptions={removedOptions}
+            opponentPowerUp={opponentPowerUp}
+            powerUpError={powerUpError}
+            isFrozen={isFrozen}
+            onUsePowerUp={activatePowerUp}
+          />
+        );
+      case 'results':
+        return (
+          <ResultsScreen
+            roundResult={roundResult}
+            questionIndex={questionIndex}
+            user={user}
+            opponentInfo={opponentInfo}
+            userScore={userScore}
+            opponentScore={opponentScore}
+            totalQuestions={totalQuestions}
+            currentQuestion={currentQuestion}
+            duelInfo={duelInfo}
+            showReportModal={uiState.showReportModal}
+            onShowReportModal={handleShowReportModal}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+          />
+        );
+      case 'final':
+        return finalResults ? (
+          <FinalScreen
+            finalResults={finalResults}
+            duelInfo={duelInfo}
+            opponentInfo={opponentInfo}
+            botInfo={botInfo}
+            user={user}
+            totalQuestions={totalQuestions}
+            answeredQuestions={uiState.answeredQuestions}
+            duelResultCreated={uiState.duelResultCreated}
+            onCleanupAndNavigate={handleCleanupAndNavigate}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+          />
+        ) : null;
+      case 'error':
+        return (
+          <ErrorScreen
+            gameError={gameError || undefined}
+            connectionError={connectionError || undefined}
+            roomError={roomError || undefined}
+            onRetry={handleRetry}
+          />
+        );
+      default:
+        return (
+          <ConnectingScreen
+            logoVideo={logoVideo}
+            pulseAnim={pulseAnim}
+            renderDuelInfoHeader={renderDuelInfoHeader}
+          />
+        );
+    }
+  };
+
+  return (
+    <View style={{ flex: 1 }}>
+      {renderPhaseContent()}
+      {isReconnecting && (
+        <ReconnectingOverlay
+          deadline={reconnectDeadline}
+          onRetry={retryReconnect}
+          onLeave={() => handleCleanupAndNavigate(buildRoute('duels'))}
         />
-      );
-  }
+      )}
+    </View>
+  );
 }
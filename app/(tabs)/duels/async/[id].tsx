@@ -0,0 +1,615 @@
+// app/(tabs)/duels/async/[id].tsx - Play your turn of an async duel and see the result
+
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  memo,
+} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  ProgressBar,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../../components/ui';
+import {
+  useAsyncDuel,
+  useAsyncDuelMutations,
+  asyncDuelHelpers,
+  ASYNC_QUESTION_TIME_LIMIT_S,
+  type AsyncRunAnswerInput,
+} from '../../../../src/hooks/useAsyncDuelData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../../src/hooks/useTranslation';
+import { useAuth } from '../../../../stores/appStore';
+import { buildRoute } from '../../../../constants/routes';
+import type {
+  AsyncDuelQuestion,
+  AsyncDuelRun,
+} from '../../../../src/types/models';
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[2],
+    },
+    bodyText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+      lineHeight: 20,
+      marginBottom: Spacing[3],
+    },
+    metaRow: {
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: Spacing[2],
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    questionHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: Spacing[2],
+    },
+    questionCounter: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    timerText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+    },
+    timerDanger: {
+      color: Colors.vibrant.coral,
+    },
+    timerBar: {
+      marginBottom: Spacing[3],
+    },
+    questionText: {
+      fontSize: 16,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      lineHeight: 23,
+      marginBottom: Spacing[3],
+    },
+    option: {
+      padding: Spacing[3],
+      borderRadius: BorderRadius.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      marginBottom: Spacing[2],
+    },
+    optionText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+    },
+    optionKey: {
+      fontFamily: 'SecondaryFont-Bold',
+    },
+    scoreRow: {
+      alignItems: 'center',
+      justifyContent: 'space-around',
+      marginVertical: Spacing[3],
+    },
+    scoreColumn: {
+      alignItems: 'center',
+      flex: 1,
+    },
+    scoreValue: {
+      fontSize: 32,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    scoreLabel: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      textAlign: 'center',
+    },
+    scoreDivider: {
+      fontSize: 20,
+      fontFamily: 'PrimaryFont',
+      color: colors.placeholder,
+    },
+    outcomeText: {
+      fontSize: 18,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      textAlign: 'center',
+      marginBottom: Spacing[2],
+    },
+    reviewItem: {
+      paddingVertical: Spacing[2],
+      borderTopWidth: 1,
+      borderTopColor: colors.divider,
+    },
+    reviewQuestion: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      marginBottom: Spacing[1],
+    },
+    reviewRow: {
+      alignItems: 'center',
+      gap: Spacing[2],
+    },
+    reviewText: {
+      flex: 1,
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+    },
+    actions: {
+      gap: Spacing[3],
+    },
+  });
+
+// Memoized Turn Player - one question at a time against the clock
+const TurnPlayer = memo<{
+  questions: AsyncDuelQuestion[];
+  isSubmitting: boolean;
+  onFinish: (answers: AsyncRunAnswerInput[]) => void;
+  t: TFunction;
+}>(({ questions, isSubmitting, onFinish, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const [questionIndex, setQuestionIndex] = useState(0);
+  const [timeLeft, setTimeLeft] = useState(ASYNC_QUESTION_TIME_LIMIT_S);
+  const answersRef = useRef<AsyncRunAnswerInput[]>([]);
+  const questionStartRef = useRef(Date.now());
+  const isDone = questionIndex >= questions.length;
+  const question = questions[Math.min(questionIndex, questions.length - 1)];
+
+  const recordAnswer = useCallback(
+    (selectedAnswer: string | null) => {
+      if (isDone || !question) return;
+
+      answersRef.current = [
+        ...answersRef.current,
+        {
+          questionId: question.id,
+          selectedAnswer,
+          timeTaken: Math.min(
+            Date.now() - questionStartRef.current,
+            ASYNC_QUESTION_TIME_LIMIT_S * 1000,
+          ),
+        },
+      ];
+
+      const nextIndex = questionIndex + 1;
+      setQuestionIndex(nextIndex);
+      setTimeLeft(ASYNC_QUESTION_TIME_LIMIT_S);
+      questionStartRef.current = Date.now();
+      if (nextIndex >= questions.length) {
+        onFinish(answersRef.current);
+      }
+    },
+    [isDone, question, questionIndex, questions.length, onFinish],
+  );
+
+  // Unanswered questions count as blank once their time runs out
+  useEffect(() => {
+    if (isDone) return;
+    if (timeLeft <= 0) {
+      recordAnswer(null);
+      return;
+    }
+    const timeout = setTimeout(() => setTimeLeft((value) => value - 1), 1000);
+    return () => clearTimeout(timeout);
+  }, [timeLeft, isDone, recordAnswer]);
+
+  if (isDone || !question) {
+    return (
+      <PlayfulCard style={styles.card} animated={false}>
+        <ActivityIndicator
+          size='large'
+          color={colors.primary}
+          animating={isSubmitting}
+        />
+        <Text style={[styles.bodyText, { textAlign: 'center' }]}>
+          {t('asyncDuel.submitting')}
+        </Text>
+      </PlayfulCard>
+    );
+  }
+
+  return (
+    <PlayfulCard style={styles.card} animated={false}>
+      <Row style={styles.questionHeader}>
+        <Text style={styles.questionCounter}>
+          {t('asyncDuel.questionCounter', {
+            current: questionIndex + 1,
+            total: questions.length,
+          })}
+        </Text>
+        <Text style={[styles.timerText, timeLeft <= 10 && styles.timerDanger]}>
+          {timeLeft}s
+        </Text>
+      </Row>
+      <ProgressBar
+        progress={(timeLeft / ASYNC_QUESTION_TIME_LIMIT_S) * 100}
+        style={styles.timerBar}
+      />
+      <Text style={styles.questionText}>{question.text}</Text>
+      {Object.entries(question.options).map(([key, value]) => (
+        <TouchableOpacity
+          key={key}
+          style={styles.option}
+          onPress={() => recordAnswer(key)}
+          activeOpacity={0.7}
+        >
+          <Text style={styles.optionText}>
+            <Text style={styles.optionKey}>{key}) </Text>
+            {value}
+          </Text>
+        </TouchableOpacity>
+      ))}
+    </PlayfulCard>
+  );
+});
+
+// Memoized Result Card - both runs are in
+const ResultCard = memo<{
+  questions: AsyncDuelQuestion[];
+  ownRun: AsyncDuelRun;
+  opponentRun: AsyncDuelRun;
+  opponentName: string;
+  t: TFunction;
+}>(({ questions, ownRun, opponentRun, opponentName, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const outcome =
+    ownRun.score > opponentRun.score
+      ? t('asyncDuel.youWon')
+      : ownRun.score < opponentRun.score
+        ? t('asyncDuel.youLost')
+        : t('asyncDuel.draw');
+
+  return (
+    <PlayfulCard style={styles.card} animated={false}>
+      <Text style={styles.outcomeText}>{outcome}</Text>
+      <Row style={styles.scoreRow}>
+        <View style={styles.scoreColumn}>
+          <Text style={styles.scoreValue}>{ownRun.score}</Text>
+          <Text style={styles.scoreLabel}>{t('asyncDuel.you')}</Text>
+        </View>
+        <Text style={styles.scoreDivider}>-</Text>
+        <View style={styles.scoreColumn}>
+          <Text style={styles.scoreValue}>{opponentRun.score}</Text>
+          <Text style={styles.scoreLabel} numberOfLines={1}>
+            {opponentName}
+          </Text>
+        </View>
+      </Row>
+
+      <Text style={styles.sectionTitle}>{t('asyncDuel.review')}</Text>
+      {questions.map((question, index) => {
+        const answer = ownRun.answers.find(
+          (entry) => entry.question_id === question.id,
+        );
+        return (
+          <View key={question.id} style={styles.reviewItem}>
+            <Text style={styles.reviewQuestion} numberOfLines={2}>
+              {index + 1}. {question.text}
+            </Text>
+            <Row style={styles.reviewRow}>
+              <FontAwesome
+                name={answer?.is_correct ? 'check-circle' : 'times-circle'}
+                size={14}
+                color={
+                  answer?.is_correct
+                    ? Colors.vibrant.green
+                    : Colors.vibrant.coral
+                }
+              />
+              <Text style={styles.reviewText}>
+                {answer?.selected_answer
+                  ? t('asyncDuel.yourAnswer', {
+                      answer: answer.selected_answer,
+                    })
+                  : t('asyncDuel.noAnswer')}
+                {question.correctAnswer
+                  ? ` · ${t('asyncDuel.correctAnswer', {
+                      answer: question.correctAnswer,
+                    })}`
+                  : ''}
+              </Text>
+            </Row>
+          </View>
+        );
+      })}
+    </PlayfulCard>
+  );
+});
+
+export default function AsyncDuelScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const duelId = Number(id);
+
+  const {
+    data,
+    isLoading,
+    error: loadError,
+    refetch,
+    isRefetching,
+  } = useAsyncDuel(duelId);
+  const { submitRun, isSubmitting } = useAsyncDuelMutations();
+
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [unsentAnswers, setUnsentAnswers] = useState<
+    AsyncRunAnswerInput[] | null
+  >(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('duels'));
+    }
+  }, [router]);
+
+  const handleSubmit = useCallback(
+    async (answers: AsyncRunAnswerInput[]) => {
+      setError(null);
+      try {
+        await submitRun({ duelId, answers });
+        setUnsentAnswers(null);
+      } catch (submitError) {
+        // Keep the answers so the turn isn't lost to a network hiccup
+        setUnsentAnswers(answers);
+        setError(
+          submitError instanceof Error
+            ? submitError.message
+            : t('asyncDuel.submitFailed'),
+        );
+      } finally {
+        setIsPlaying(false);
+      }
+    },
+    [duelId, submitRun, t],
+  );
+
+  if (isLoading) {
+    return (
+      <Container style={styles.centerContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+      </Container>
+    );
+  }
+
+  if (!data || loadError || !user) {
+    return (
+      <Container style={styles.centerContainer}>
+        <EmptyState
+          icon='hourglass-half'
+          title={t('asyncDuel.notFoundTitle')}
+          message={t('asyncDuel.notFoundMessage')}
+          actionButton={{
+            title: t('navigation.goBack'),
+            onPress: handleBack,
+          }}
+        />
+      </Container>
+    );
+  }
+
+  const { duel, questions, runs } = data;
+  const userId = user.userId;
+  const opponentId = asyncDuelHelpers.getOpponentId(duel, userId);
+  const ownRun = asyncDuelHelpers.getRun(runs, userId);
+  const opponentRun = asyncDuelHelpers.getRun(runs, opponentId);
+  // A duel settled after expiring comes back completed with a run missing
+  const isExpired =
+    asyncDuelHelpers.isExpired(duel) ||
+    (duel.status === 'completed' && (!ownRun || !opponentRun));
+  const timeRemaining = asyncDuelHelpers.getTimeRemaining(duel);
+  const opponentName =
+    (duel.initiator_id === userId
+      ? duel.opponent_username
+      : duel.initiator_username) || t('asyncDuel.opponent');
+  const courseTitle = duel.course?.title ?? duel.course_title;
+  const remainingText = timeRemaining
+    ? t('asyncDuel.timeRemaining', timeRemaining)
+    : t('asyncDuel.expired');
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={
+        isPlaying ? undefined : (
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+        )
+      }
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('asyncDuel.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('asyncDuel.subtitle', { name: opponentName })}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {error && (
+        <Alert
+          type='error'
+          message={error}
+          dismissible
+          onDismiss={() => setError(null)}
+          style={styles.statusAlert}
+        />
+      )}
+
+      {isPlaying ? (
+        <TurnPlayer
+          questions={questions}
+          isSubmitting={isSubmitting}
+          onFinish={handleSubmit}
+          t={t}
+        />
+      ) : unsentAnswers ? (
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>{t('asyncDuel.unsentTitle')}</Text>
+          <Text style={styles.bodyText}>{t('asyncDuel.unsentMessage')}</Text>
+          <Button
+            title={t('asyncDuel.retrySubmit')}
+            variant='primary'
+            icon='refresh'
+            onPress={() => handleSubmit(unsentAnswers)}
+            loading={isSubmitting}
+            disabled={isSubmitting}
+          />
+        </PlayfulCard>
+      ) : !ownRun ? (
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>
+            {isExpired ? t('asyncDuel.expiredTitle') : t('asyncDuel.yourTurn')}
+          </Text>
+          <Row style={styles.metaRow}>
+            {courseTitle ? (
+              <Badge text={courseTitle} variant='primary' size='sm' />
+            ) : null}
+            <Badge
+              text={t('asyncDuel.questionCount', { count: questions.length })}
+              variant='info'
+              size='sm'
+            />
+            <Badge
+              text={remainingText}
+              variant={isExpired ? 'error' : 'warning'}
+              size='sm'
+            />
+          </Row>
+          <Text style={styles.bodyText}>
+            {isExpired
+              ? t('asyncDuel.expiredMessage')
+              : t('asyncDuel.rules', { seconds: ASYNC_QUESTION_TIME_LIMIT_S })}
+          </Text>
+          {!isExpired && (
+            <Button
+              title={t('asyncDuel.start')}
+              variant='primary'
+              icon='play'
+              onPress={() => setIsPlaying(true)}
+              disabled={questions.length === 0}
+            />
+          )}
+        </PlayfulCard>
+      ) : !opponentRun ? (
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>{t('asyncDuel.waitingTitle')}</Text>
+          <Row style={styles.scoreRow}>
+            <View style={styles.scoreColumn}>
+              <Text style={styles.scoreValue}>{ownRun.score}</Text>
+              <Text style={styles.scoreLabel}>
+                {t('asyncDuel.yourScore', { total: questions.length })}
+              </Text>
+            </View>
+          </Row>
+          <Text style={styles.bodyText}>
+            {isExpired
+              ? t('asyncDuel.opponentExpired', { name: opponentName })
+              : t('asyncDuel.waitingMessage', {
+                  name: opponentName,
+                  remaining: remainingText,
+                })}
+          </Text>
+        </PlayfulCard>
+      ) : (
+        <ResultCard
+          questions={questions}
+          ownRun={ownRun}
+          opponentRun={opponentRun}
+          opponentName={opponentName}
+          t={t}
+        />
+      )}
+
+      {!isPlaying && (
+        <View style={styles.actions}>
+          <Button
+            title={t('navigation.goBack')}
+            variant='outline'
+            onPress={handleBack}
+            icon='arrow-left'
+          />
+        </View>
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,448 @@
+// app/(tabs)/duels/bots.tsx - Bot practice: adaptive bot, topic and question count
+
+import React, { useState, useCallback, useEffect, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { useFocusEffect } from '@react-navigation/native';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  ProgressBar,
+  SlideInElement,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../components/ui';
+import {
+  useAdaptiveBot,
+  botPracticeHelpers,
+  BOT_PRACTICE_QUESTION_COUNTS,
+  DEFAULT_BOT_PRACTICE_QUESTION_COUNT,
+  type AdaptiveBotConfig,
+} from '../../../src/hooks/useBotPracticeData';
+import { useCourseTopics } from '../../../src/hooks/usePracticeTestsData';
+import { useSocketBotChallenge } from '../../../src/hooks/useDuelsData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { usePreferredCourse } from '../../../stores/appStore';
+import { buildRoute } from '../../../constants/routes';
+import type { Topic } from '../../../src/types/models';
+import type { TranslationKey } from '../../../localization';
+
+const DIFFICULTY_LABELS: Record<number, TranslationKey> = {
+  1: 'botPractice.difficulty1',
+  2: 'botPractice.difficulty2',
+  3: 'botPractice.difficulty3',
+  4: 'botPractice.difficulty4',
+  5: 'botPractice.difficulty5',
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[3],
+    },
+    courseText: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+    },
+    courseTextSpaced: {
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    optionRow: {
+      gap: Spacing[2],
+    },
+    option: {
+      flex: 1,
+      paddingVertical: Spacing[3],
+      borderRadius: BorderRadius.lg,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+    },
+    optionActive: {
+      borderColor: colors.primary,
+      backgroundColor: 'rgba(108, 92, 231, 0.08)',
+    },
+    optionText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    optionTextActive: {
+      color: colors.primary,
+    },
+    topicList: {
+      gap: Spacing[2],
+    },
+    topicChip: {
+      paddingVertical: Spacing[2],
+      paddingHorizontal: Spacing[3],
+      borderRadius: BorderRadius.full,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    botHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+      marginBottom: Spacing[3],
+    },
+    botName: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginLeft: Spacing[2],
+    },
+    botStatLabel: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      marginBottom: Spacing[1],
+    },
+    botHint: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      marginTop: Spacing[2],
+    },
+    cappedText: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: Colors.vibrant.coral,
+      marginTop: Spacing[2],
+    },
+  });
+
+// Memoized Adaptive Bot Card
+const AdaptiveBotCard = memo<{
+  config: AdaptiveBotConfig;
+  isLoading: boolean;
+  onUpgrade: () => void;
+  t: TFunction;
+}>(({ config, isLoading, onUpgrade, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  if (isLoading) {
+    return (
+      <PlayfulCard style={styles.card} animated={false}>
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size='small' color={colors.primary} />
+        </View>
+      </PlayfulCard>
+    );
+  }
+
+  const targetPercent = Math.round(config.targetAccuracy * 100);
+  const playerPercent =
+    config.playerAccuracy !== null
+      ? Math.round(config.playerAccuracy * 100)
+      : null;
+
+  return (
+    <PlayfulCard style={styles.card} animated={false}>
+      <Row style={styles.botHeader}>
+        <FontAwesome name='android' size={22} color={colors.primary} />
+        <Text style={styles.botName}>{t('botPractice.botName')}</Text>
+        <Badge
+          text={t(DIFFICULTY_LABELS[config.difficulty])}
+          variant='info'
+          size='sm'
+        />
+      </Row>
+      <Text style={styles.botStatLabel}>
+        {t('botPractice.targetAccuracy', { accuracy: targetPercent })}
+      </Text>
+      <ProgressBar progress={targetPercent} />
+      <Text style={styles.botHint}>
+        {config.source === 'topic' && playerPercent !== null
+          ? t('botPractice.basedOnTopic', {
+              accuracy: playerPercent,
+              count: config.questionsAnswered,
+            })
+          : config.source === 'course' && playerPercent !== null
+            ? t('botPractice.basedOnCourse', {
+                accuracy: playerPercent,
+                count: config.questionsAnswered,
+              })
+            : t('botPractice.basedOnDefault')}
+      </Text>
+      {config.isCapped && (
+        <TouchableOpacity onPress={onUpgrade}>
+          <Text style={styles.cappedText}>{t('botPractice.cappedNotice')}</Text>
+        </TouchableOpacity>
+      )}
+    </PlayfulCard>
+  );
+});
+
+// Memoized Topic Picker
+const TopicPicker = memo<{
+  topics: Topic[];
+  selectedTopicId: number | null;
+  onSelect: (topicId: number | null) => void;
+  t: TFunction;
+}>(({ topics, selectedTopicId, onSelect, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.topicList}
+    >
+      {[null, ...topics].map((topic) => {
+        const topicId = topic?.topic_id ?? null;
+        const isActive = selectedTopicId === topicId;
+        return (
+          <TouchableOpacity
+            key={topicId ?? 'all'}
+            style={[styles.topicChip, isActive && styles.optionActive]}
+            onPress={() => onSelect(topicId)}
+          >
+            <Text
+              style={[styles.optionText, isActive && styles.optionTextActive]}
+              numberOfLines={1}
+            >
+              {topic ? topic.title : t('botPractice.allTopics')}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+});
+
+export default function BotPracticeScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { preferredCourse } = usePreferredCourse();
+  const courseId = preferredCourse?.course_id ?? null;
+
+  const [topicId, setTopicId] = useState<number | null>(null);
+  const [questionCount, setQuestionCount] = useState<number>(
+    DEFAULT_BOT_PRACTICE_QUESTION_COUNT,
+  );
+  const [error, setError] = useState<string | null>(null);
+
+  const { data: topics = [], isLoading: topicsLoading } =
+    useCourseTopics(courseId);
+  const { config, isLoading: botLoading } = useAdaptiveBot(courseId, topicId);
+  const {
+    challengeBot,
+    challengeState,
+    challengeError,
+    createdDuel,
+    reset: resetChallenge,
+    isLoading: isChallenging,
+  } = useSocketBotChallenge();
+
+  useFocusEffect(
+    useCallback(() => {
+      resetChallenge();
+      setError(null);
+    }, [resetChallenge]),
+  );
+
+  // Topics belong to a course; start over when the course changes
+  useEffect(() => {
+    setTopicId(null);
+  }, [courseId]);
+
+  useEffect(() => {
+    if (challengeState === 'success' && createdDuel) {
+      resetChallenge();
+      router.push(buildRoute('duel', { id: createdDuel.duel_id }));
+    } else if (challengeState === 'error' && challengeError) {
+      setError(challengeError);
+    }
+  }, [challengeState, createdDuel, challengeError, resetChallenge, router]);
+
+  const handleUpgrade = useCallback(() => {
+    router.push(buildRoute('subscription'));
+  }, [router]);
+
+  const handleChallenge = useCallback(async () => {
+    setError(null);
+    if (!courseId) {
+      setError(t('botPractice.selectCourseFirst'));
+      return;
+    }
+
+    await challengeBot(
+      courseId,
+      config.difficulty,
+      true,
+      botPracticeHelpers.getChallengeOptions(config, {
+        courseId,
+        topicId,
+        questionCount,
+      }),
+    );
+  }, [courseId, config, topicId, questionCount, challengeBot, t]);
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('botPractice.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('botPractice.subtitle')}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {error && (
+        <Alert
+          type='error'
+          message={error}
+          dismissible
+          onDismiss={() => setError(null)}
+          style={styles.statusAlert}
+        />
+      )}
+
+      {/* Topic */}
+      <SlideInElement delay={100}>
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>{t('botPractice.topicLabel')}</Text>
+          {!courseId ? (
+            <Text style={styles.courseText}>
+              {t('botPractice.selectCourseFirst')}
+            </Text>
+          ) : topicsLoading ? (
+            <ActivityIndicator size='small' color={colors.primary} />
+          ) : (
+            <>
+              <Text style={[styles.courseText, styles.courseTextSpaced]}>
+                {t('botPractice.courseLabel', {
+                  course: preferredCourse?.title ?? '',
+                })}
+              </Text>
+              <TopicPicker
+                topics={topics}
+                selectedTopicId={topicId}
+                onSelect={setTopicId}
+                t={t}
+              />
+            </>
+          )}
+        </PlayfulCard>
+      </SlideInElement>
+
+      {/* Question count */}
+      <SlideInElement delay={150}>
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>
+            {t('botPractice.questionCountLabel')}
+          </Text>
+          <Row style={styles.optionRow}>
+            {BOT_PRACTICE_QUESTION_COUNTS.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.option,
+                  questionCount === option && styles.optionActive,
+                ]}
+                onPress={() => setQuestionCount(option)}
+              >
+                <Text
+                  style={[
+                    styles.optionText,
+                    questionCount === option && styles.optionTextActive,
+                  ]}
+                >
+                  {t('botPractice.questionCountOption', { count: option })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </Row>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {/* Adaptive bot */}
+      <SlideInElement delay={200}>
+        <AdaptiveBotCard
+          config={config}
+          isLoading={botLoading}
+          onUpgrade={handleUpgrade}
+          t={t}
+        />
+      </SlideInElement>
+
+      <Button
+        title={t('botPractice.challenge')}
+        variant='primary'
+        size='large'
+        icon='bolt'
+        onPress={handleChallenge}
+        loading={isChallenging}
+        disabled={isChallenging || botLoading || !courseId}
+      />
+    </ScrollView>
+  );
+}
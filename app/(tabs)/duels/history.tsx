@@ -39,6 +39,9 @@ import {
   duelHelpers,
   type DuelHistoryItem,
 } from '../../../src/hooks/useDuelsData';
+import { useDuelReplays } from '../../../src/hooks/useDuelReplayData';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import { buildRoute } from '../../../constants/routes';
 import { useAuth } from '../../../stores/appStore';
 import { globalStyles } from '../../../utils/styleUtils';
 
@@ -240,6 +243,22 @@ const styles = StyleSheet.create({
     color: Colors.gray[500],
     fontFamily: 'SecondaryFont-Regular',
   },
+  replayButton: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing[1],
+    marginTop: Spacing[2],
+    paddingVertical: Spacing[1],
+    paddingHorizontal: Spacing[3],
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.vibrant.purple,
+  },
+  replayButtonText: {
+    fontSize: 12,
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
   sectionTitle: {
     marginBottom: Spacing[2],
     fontFamily: 'SecondaryFont-Bold',
@@ -262,6 +281,7 @@ const DuelHistoryScreen = React.memo(() => {
   const router = useRouter();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
+  const { t } = useTranslation();
 
   // 🚀 NEW: Use the simplified auth hook from store
   const { user, isAuthenticated, isLoading: authLoading } = useAuth();
@@ -280,6 +300,9 @@ const DuelHistoryScreen = React.memo(() => {
     historyError,
   } = useDuelHistoryData(50, 10); // 50 total history, 10 recent
 
+  // Round-by-round replays recorded on this device
+  const { replays, hasReplay } = useDuelReplays();
+
   // State management
   const [activeTab, setActiveTab] = useState<HistoryTab>('stats');
   const [refreshing, setRefreshing] = useState(false);
@@ -413,7 +436,7 @@ const DuelHistoryScreen = React.memo(() => {
               <Column style={styles.historyColumn}>
                 <Row style={styles.historyHeader}>
                   <Text style={styles.historyOpponent}>
-                    vs {duel.opponentName || 'Bilinmeyen Rakip'}
+                    vs {duel.opponentName || t('duels.unknownOpponent')}
                   </Text>
                   <Badge
                     text={resultText}
@@ -427,7 +450,7 @@ const DuelHistoryScreen = React.memo(() => {
                 </Row>
                 <Row style={styles.historyDetails}>
                   <Text style={styles.historyInfo}>
-                    📚 {duel.courseName || 'Bilinmeyen Ders'} • 📝{' '}
+                    📚 {duel.courseName || t('duels.unknownCourse')} • 📝{' '}
                     {duel.testName || 'Test'}
                   </Text>
                   <Text style={[styles.historyScore, { color: resultColor }]}>
@@ -437,6 +460,21 @@ const DuelHistoryScreen = React.memo(() => {
                 <Text style={styles.historyDate}>
                   {duel.formattedDate || formattedDate}
                 </Text>
+                {hasReplay(duel.duel_id) && (
+                  <TouchableOpacity
+                    style={styles.replayButton}
+                    onPress={() =>
+                      router.push(
+                        buildRoute('duelReplay', { id: duel.duel_id }),
+                      )
+                    }
+                  >
+                    <FontAwesome name='play' size={10} color={Colors.white} />
+                    <Text style={styles.replayButtonText}>
+                      {t('duelReplay.watchReplay')}
+                    </Text>
+                  </TouchableOpacity>
+                )}
               </Column>
             </Row>
           </Row>
@@ -452,7 +490,7 @@ const DuelHistoryScreen = React.memo(() => {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size='large' color={colors.loading} />
           <Text style={[styles.loadingText, { color: colors.text }]}>
-            İstatistikler yükleniyor...
+            {t('duelHistory.loadingStats')}
           </Text>
         </View>
       );
@@ -468,13 +506,16 @@ const DuelHistoryScreen = React.memo(() => {
                   <PlayfulCard style={styles.overviewCard}>
                     <Column style={styles.overviewColumn}>
                       <Text style={styles.overviewTitle}>
-                        Genel Performans 📊
+                        {t('duelHistory.overallPerformance')}
                       </Text>
                       <Row style={styles.overviewRow}>
                         <ScoreDisplay
                           score={duelStats.wins || 0}
                           maxScore={duelStats.totalDuels || 0}
-                          label={`${duelStats.totalDuels || 0} Düellodan ${duelStats.wins || 0} Galibiyet`}
+                          label={t('duelHistory.winsOfTotal', {
+                            total: duelStats.totalDuels || 0,
+                            wins: duelStats.wins || 0,
+                          })}
                           variant='gradient'
                           size='large'
                         />
@@ -486,7 +527,7 @@ const DuelHistoryScreen = React.memo(() => {
                 <SlideInElement delay={100} key={`${activeTab}-stats-row1`}>
                   <Row style={styles.statsRow}>
                     <StatsCard
-                      title='Toplam Düello'
+                      title={t('duels.totalDuels')}
                       value={duelStats.totalDuels || 0}
                       color={Colors.vibrant.purple}
                       animated
@@ -497,13 +538,13 @@ const DuelHistoryScreen = React.memo(() => {
                 <SlideInElement delay={200} key={`${activeTab}-stats-row2`}>
                   <Row style={styles.statsRow}>
                     <StatsCard
-                      title='Galibiyet'
+                      title={t('duelHistory.wins')}
                       value={duelStats.wins || 0}
                       color={Colors.vibrant.mint}
                       animated
                     />
                     <StatsCard
-                      title='Mağlubiyet'
+                      title={t('duelHistory.losses')}
                       value={duelStats.losses || 0}
                       color={Colors.vibrant.coral}
                       animated
@@ -514,13 +555,13 @@ const DuelHistoryScreen = React.memo(() => {
                 <SlideInElement delay={300} key={`${activeTab}-stats-row3`}>
                   <Row style={styles.statsRow}>
                     <StatsCard
-                      title='Başarı Oranı'
+                      title={t('duelHistory.successRate')}
                       value={
                         duelStats.totalDuels > 0
                           ? `${Math.round(((duelStats.wins || 0) / duelStats.totalDuels) * 100)}%`
                           : '0%'
                       }
-                      subtitle='Kazanma yüzdesi'
+                      subtitle={t('duelHistory.winPercentage')}
                       color={Colors.vibrant.purple}
                       animated
                     />
@@ -543,7 +584,7 @@ const DuelHistoryScreen = React.memo(() => {
                   { color: colors.sectionText },
                 ]}
               >
-                Son Düellolar ({recentDuels.length})
+                {t('duelHistory.recentCount', { count: recentDuels.length })}
               </Text>
             </SlideInElement>
             {recentDuels.map((duel, index) => (
@@ -559,8 +600,8 @@ const DuelHistoryScreen = React.memo(() => {
           <SlideInElement delay={0} key={`${activeTab}-empty`}>
             <EmptyState
               icon='clock-o'
-              title='Henüz Düello Yok'
-              message='İlk düellonu başlat ve burada görüntüle!'
+              title={t('duelHistory.emptyTitle')}
+              message={t('duelHistory.emptyRecentMessage')}
               fontFamily='SecondaryFont-Regular'
               buttonFontFamily='PrimaryFont'
               titleFontFamily='PrimaryFont'
@@ -580,7 +621,7 @@ const DuelHistoryScreen = React.memo(() => {
                   { color: colors.sectionText },
                 ]}
               >
-                Tüm Düellolar ({duelHistory.length})
+                {t('duelHistory.allCount', { count: duelHistory.length })}
               </Text>
             </SlideInElement>
             {duelHistory.map((duel, index) => (
@@ -596,8 +637,8 @@ const DuelHistoryScreen = React.memo(() => {
           <SlideInElement delay={0} key={`${activeTab}-empty`}>
             <EmptyState
               icon='list'
-              title='Henüz Düello Yok'
-              message='İstatistikler sekmesinden genel performansını görebilirsin.'
+              title={t('duelHistory.emptyTitle')}
+              message={t('duelHistory.emptyAllMessage')}
               fontFamily='SecondaryFont-Regular'
               buttonFontFamily='PrimaryFont'
               titleFontFamily='PrimaryFont'
@@ -608,7 +649,16 @@ const DuelHistoryScreen = React.memo(() => {
       default:
         return null;
     }
-  }, [activeTab, isLoading, duelStats, recentDuels, duelHistory, colors]);
+  }, [
+    activeTab,
+    isLoading,
+    duelStats,
+    recentDuels,
+    duelHistory,
+    colors,
+    replays,
+    t,
+  ]);
 
   // Show loading while checking auth
   if (authLoading) {
@@ -621,7 +671,7 @@ const DuelHistoryScreen = React.memo(() => {
             { color: Colors.white, textAlign: 'center' },
           ]}
         >
-          Yükleniyor...
+          {t('common.loading')}
         </Text>
       </Container>
     );
@@ -633,12 +683,12 @@ const DuelHistoryScreen = React.memo(() => {
       <Container style={styles.errorContainer}>
         <Alert
           type='error'
-          title='Giriş Gerekli'
-          message='Düello geçmişini görmek için giriş yapmanız gerekiyor.'
+          title={t('common.loginRequired')}
+          message={t('duelHistory.loginMessage')}
           style={styles.errorAlert}
         />
         <Button
-          title='Giriş Yap'
+          title={t('auth.signIn')}
           variant='primary'
           onPress={() => router.replace('/(auth)/login')}
           icon='sign-in'
@@ -652,18 +702,18 @@ const DuelHistoryScreen = React.memo(() => {
     const errorMessage =
       duelStatsError?.message ||
       historyError?.message ||
-      'Bilinmeyen hata oluştu';
+      t('duelHistory.unknownError');
 
     return (
       <Container style={styles.errorContainer}>
         <Alert
           type='error'
-          title='Hata'
-          message={`İstatistik verileri yüklenirken hata oluştu: ${errorMessage}`}
+          title={t('common.error')}
+          message={t('duelHistory.loadFailed', { error: errorMessage })}
           style={styles.errorAlert}
         />
         <Button
-          title='Yenile'
+          title={t('duelHistory.refresh')}
           variant='primary'
           onPress={handleRetry}
           icon='refresh'
@@ -696,13 +746,13 @@ const DuelHistoryScreen = React.memo(() => {
                   gradient='primary'
                   style={styles.headerTitle}
                 >
-                  Düello Geçmişi 📈
+                  {t('duelHistory.title')}
                 </PlayfulTitle>
                 <Paragraph
                   color={colors.headerText}
                   style={styles.headerSubtitle}
                 >
-                  Performansın ve geçmiş düellolarınız
+                  {t('duelHistory.subtitle')}
                 </Paragraph>
               </Column>
             </Row>
@@ -715,15 +765,19 @@ const DuelHistoryScreen = React.memo(() => {
             <Row style={styles.filterRow}>
               <FilterButton
                 filter='stats'
-                title='İstatistikler'
+                title={t('duelHistory.tabStats')}
                 icon='bar-chart'
               />
               <FilterButton
                 filter='recent'
-                title='Son Düellolar'
+                title={t('duelHistory.tabRecent')}
                 icon='clock-o'
               />
-              <FilterButton filter='all' title='Tüm Geçmiş' icon='list' />
+              <FilterButton
+                filter='all'
+                title={t('duelHistory.tabAll')}
+                icon='list'
+              />
             </Row>
           </View>
         </SlideInElement>
@@ -742,7 +796,7 @@ const DuelHistoryScreen = React.memo(() => {
           (duelStats || duelHistory.length > 0) && (
             <Alert
               type='warning'
-              message='Bazı veriler yenilenirken sorun yaşandı. Çekmek için aşağı kaydırın.'
+              message={t('duels.refreshWarning')}
               style={styles.bottomAlert}
             />
           )}
@@ -4,7 +4,6 @@ import {
   Text,
   View,
   ActivityIndicator,
-  useColorScheme,
   RefreshControl,
   TouchableOpacity,
   StyleSheet,
@@ -13,7 +12,13 @@ import {
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import { useDuelsData } from '../../../src/hooks/useDuelsData';
+import {
+  useAsyncDuelTurns,
+  asyncDuelHelpers,
+} from '../../../src/hooks/useAsyncDuelData';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 import { useAuth, usePreferredCourse } from '../../../stores/appStore';
 import { Duel } from '../../../src/types/models';
 import {
@@ -31,6 +36,7 @@ import {
   ScoreDisplay,
   SlideInElement,
   PlayfulTitle,
+  useThemeColors,
 } from '../../../components/ui';
 import { Colors, Spacing, FontSizes } from '../../../constants/theme';
 
@@ -50,13 +56,17 @@ const DuelCard = React.memo(
     onPress: () => void;
     preferredCourse: any;
   }) => {
+    const { t } = useTranslation();
+
     // Memoize display data to prevent recalculation
     const displayData = useMemo(
       () => ({
         opponentName:
           (duel as any).opponent_username ||
           (duel as any).opponent_name ||
-          (duel.opponent_id ? `Rakip ${duel.opponent_id}` : 'Rakip'),
+          (duel.opponent_id
+            ? t('duels.opponentWithId', { id: duel.opponent_id })
+            : t('duels.opponent')),
         courseName:
           (duel as any).course_name ||
           (duel as any).course_title ||
@@ -64,7 +74,7 @@ const DuelCard = React.memo(
           (duel as any).category ||
           (duel as any).course ||
           (duel as any).topic ||
-          'Tıp Bilgisi Düellosu',
+          t('duels.defaultCourseName'),
         score: (duel as any).your_score,
         maxScore: (duel as any).max_score || 100,
       }),
@@ -77,6 +87,7 @@ const DuelCard = React.memo(
         (duel as any).subject,
         (duel as any).your_score,
         (duel as any).max_score,
+        t,
       ],
     );
 
@@ -120,7 +131,7 @@ const DuelCard = React.memo(
         case 'pending':
           return (
             <Badge
-              text='Bekliyor'
+              text={t('duels.statusPending')}
               variant='info'
               size='md'
               fontFamily='SecondaryFont-Bold'
@@ -129,7 +140,7 @@ const DuelCard = React.memo(
         case 'active':
           return (
             <Badge
-              text='Senin Sıran'
+              text={t('duels.statusYourTurn')}
               variant='warning'
               size='md'
               fontFamily='SecondaryFont-Bold'
@@ -138,7 +149,7 @@ const DuelCard = React.memo(
         case 'completed':
           return (
             <Badge
-              text='Tamamlandı'
+              text={t('duels.statusCompleted')}
               variant='success'
               size='md'
               fontFamily='SecondaryFont-Bold'
@@ -147,7 +158,7 @@ const DuelCard = React.memo(
         default:
           return null;
       }
-    }, [duel.status]);
+    }, [duel.status, t]);
 
     return (
       <TouchableOpacity
@@ -156,7 +167,7 @@ const DuelCard = React.memo(
         style={styles.duelCardContainer}
       >
         <PlayfulCard
-          title={`${displayData.opponentName} ile Düello`}
+          title={t('duels.duelWith', { name: displayData.opponentName })}
           titleFontFamily='PrimaryFont'
           category={preferredCourse?.category}
           style={[styles.duelCard, { backgroundColor: contextColor }]}
@@ -214,6 +225,7 @@ const StatsSection = React.memo(
     duelStats: any;
     contextColor: string;
   }) => {
+    const { t } = useTranslation();
     const stats = useMemo(
       () => ({
         activeCount: activeDuels.length,
@@ -227,7 +239,7 @@ const StatsSection = React.memo(
       <Row style={styles.statsContainer}>
         <StatCard
           icon='trophy'
-          title='Aktif Düellolar'
+          title={t('duels.activeDuels')}
           value={stats.activeCount.toString()}
           color={Colors.white}
           titleFontFamily='SecondaryFont-Bold'
@@ -235,7 +247,7 @@ const StatsSection = React.memo(
         />
         <StatCard
           icon='fire'
-          title='Kazanılan'
+          title={t('duels.won')}
           value={stats.wins.toString()}
           color={Colors.white}
           titleFontFamily='SecondaryFont-Bold'
@@ -243,7 +255,7 @@ const StatsSection = React.memo(
         />
         <StatCard
           icon='hourglass'
-          title='Bekleyen'
+          title={t('duels.pending')}
           value={stats.pendingCount.toString()}
           color={Colors.white}
           titleFontFamily='SecondaryFont-Bold'
@@ -260,6 +272,81 @@ const StatsSection = React.memo(
       nextProps.activeDuels.filter((d) => d.status === 'pending').length,
 );
 
+// Async duels waiting on the user, soonest deadline first
+const YourTurnSection = React.memo(
+  ({
+    duels,
+    contextColor,
+    onOpen,
+  }: {
+    duels: Duel[];
+    contextColor: string;
+    onOpen: (duel: Duel) => void;
+  }) => {
+    const { t } = useTranslation();
+    const { user } = useAuth();
+
+    const sortedDuels = useMemo(
+      () =>
+        [...duels].sort(
+          (a, b) =>
+            asyncDuelHelpers.getExpiresAt(a) - asyncDuelHelpers.getExpiresAt(b),
+        ),
+      [duels],
+    );
+
+    if (sortedDuels.length === 0) return null;
+
+    return (
+      <PlayfulCard
+        title={t('asyncDuel.yourTurnListTitle')}
+        titleFontFamily='PrimaryFont'
+        style={[styles.yourTurnCard, { backgroundColor: contextColor }]}
+        animated={false}
+      >
+        {sortedDuels.map((duel) => {
+          const remaining = asyncDuelHelpers.getTimeRemaining(duel);
+          const opponentName =
+            (duel.initiator_id === user?.userId
+              ? duel.opponent_username
+              : duel.initiator_username) || t('duels.opponent');
+
+          return (
+            <TouchableOpacity
+              key={duel.duel_id}
+              onPress={() => onOpen(duel)}
+              activeOpacity={0.8}
+            >
+              <Row style={styles.yourTurnRow}>
+                <FontAwesome
+                  name='hourglass-half'
+                  size={16}
+                  color={Colors.white}
+                />
+                <Column style={styles.yourTurnInfo}>
+                  <Text style={styles.yourTurnName} numberOfLines={1}>
+                    {t('duels.duelWith', { name: opponentName })}
+                  </Text>
+                  <Text style={styles.yourTurnMeta}>
+                    {remaining
+                      ? t('asyncDuel.timeRemaining', remaining)
+                      : t('asyncDuel.expired')}
+                  </Text>
+                </Column>
+                <FontAwesome
+                  name='chevron-right'
+                  size={14}
+                  color={Colors.white}
+                />
+              </Row>
+            </TouchableOpacity>
+          );
+        })}
+      </PlayfulCard>
+    );
+  },
+);
+
 // Header component for better performance
 const DuelsHeader = React.memo(
   ({
@@ -270,38 +357,42 @@ const DuelsHeader = React.memo(
     contextColor: string;
     dynamicStyles: any;
     onNewDuel: () => void;
-  }) => (
-    <>
-      <SlideInElement delay={0}>
-        <PlayfulCard style={styles.headerCard}>
-          <Row style={styles.headerRow}>
-            <Column style={styles.headerColumn}>
-              <PlayfulTitle
-                level={1}
-                gradient='primary'
-                style={dynamicStyles.headerTitle}
-              >
-                Düellolar ⚔️
-              </PlayfulTitle>
-              <Paragraph style={dynamicStyles.headerSubtitle}>
-                Arkadaşlarınla yarışarak öğren
-              </Paragraph>
-            </Column>
-          </Row>
-        </PlayfulCard>
-      </SlideInElement>
-
-      <PlayfulButton
-        title='Yeni Düello Başlat'
-        onPress={onNewDuel}
-        variant='secondary'
-        gradient='fire'
-        animated={false} // Disabled for performance
-        style={[styles.newDuelButton, { backgroundColor: contextColor }]}
-        icon='plus'
-      />
-    </>
-  ),
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <>
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <Row style={styles.headerRow}>
+              <Column style={styles.headerColumn}>
+                <PlayfulTitle
+                  level={1}
+                  gradient='primary'
+                  style={dynamicStyles.headerTitle}
+                >
+                  {t('duels.title')}
+                </PlayfulTitle>
+                <Paragraph style={dynamicStyles.headerSubtitle}>
+                  {t('duels.subtitle')}
+                </Paragraph>
+              </Column>
+            </Row>
+          </PlayfulCard>
+        </SlideInElement>
+
+        <PlayfulButton
+          title={t('duels.startNewDuel')}
+          onPress={onNewDuel}
+          variant='secondary'
+          gradient='fire'
+          animated={false} // Disabled for performance
+          style={[styles.newDuelButton, { backgroundColor: contextColor }]}
+          icon='plus'
+        />
+      </>
+    );
+  },
 );
 
 // Footer component
@@ -310,52 +401,108 @@ const QuickActions = React.memo(
     contextColor,
     preferredCourse,
     onDuelHistory,
+    onPracticeTests,
+    onReviewDeck,
+    onTournaments,
+    onBotPractice,
   }: {
     contextColor: string;
     preferredCourse: any;
     onDuelHistory: () => void;
-  }) => (
-    <View style={styles.quickActionsContainer}>
-      <PlayfulCard
-        title='Hızlı İşlemler'
-        variant='playful'
-        titleFontFamily='PrimaryFont'
-        category={preferredCourse?.category}
-        style={[styles.quickActionsCard, { backgroundColor: contextColor }]}
-        animated={false} // Disabled for performance
-      >
-        <Row style={styles.quickActionsRow}>
-          <PlayfulButton
-            title='Tüm Düellolar'
-            onPress={onDuelHistory}
-            variant='outline'
-            style={styles.quickActionLeft}
-            icon='list'
-            animated={false}
-            size='xs'
-            fontFamily='PrimaryFont'
-          />
-          <PlayfulButton
-            title='Düello Geçmişi'
-            onPress={onDuelHistory}
-            variant='outline'
-            style={styles.quickActionRight}
-            icon='history'
-            animated={false}
-            size='xs'
-            fontFamily='PrimaryFont'
-          />
-        </Row>
-      </PlayfulCard>
-    </View>
-  ),
+    onPracticeTests: () => void;
+    onReviewDeck: () => void;
+    onTournaments: () => void;
+    onBotPractice: () => void;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <View style={styles.quickActionsContainer}>
+        <PlayfulCard
+          title={t('common.quickActions')}
+          variant='playful'
+          titleFontFamily='PrimaryFont'
+          category={preferredCourse?.category}
+          style={[styles.quickActionsCard, { backgroundColor: contextColor }]}
+          animated={false} // Disabled for performance
+        >
+          <Row style={styles.quickActionsRow}>
+            <PlayfulButton
+              title={t('duels.allDuels')}
+              onPress={onDuelHistory}
+              variant='outline'
+              style={styles.quickActionLeft}
+              icon='list'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+            <PlayfulButton
+              title={t('duels.duelHistory')}
+              onPress={onDuelHistory}
+              variant='outline'
+              style={styles.quickActionRight}
+              icon='history'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+          </Row>
+          <Row style={[styles.quickActionsRow, styles.quickActionsRowSpaced]}>
+            <PlayfulButton
+              title={t('duels.practiceTests')}
+              onPress={onPracticeTests}
+              variant='outline'
+              style={styles.quickActionLeft}
+              icon='pencil-square-o'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+            <PlayfulButton
+              title={t('duels.reviewDeck')}
+              onPress={onReviewDeck}
+              variant='outline'
+              style={styles.quickActionRight}
+              icon='book'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+          </Row>
+          <Row style={[styles.quickActionsRow, styles.quickActionsRowSpaced]}>
+            <PlayfulButton
+              title={t('duels.tournaments')}
+              onPress={onTournaments}
+              variant='outline'
+              style={styles.quickActionLeft}
+              icon='trophy'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+            <PlayfulButton
+              title={t('duels.botPractice')}
+              onPress={onBotPractice}
+              variant='outline'
+              style={styles.quickActionRight}
+              icon='android'
+              animated={false}
+              size='xs'
+              fontFamily='PrimaryFont'
+            />
+          </Row>
+        </PlayfulCard>
+      </View>
+    );
+  },
 );
 
 // Main Duels Screen Component
 export default function DuelsScreen() {
   const router = useRouter();
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { t } = useTranslation();
+  const { colors, isDark } = useThemeColors();
 
   // Store hooks
   const { user, isAuthenticated, refreshSession } = useAuth();
@@ -371,6 +518,8 @@ export default function DuelsScreen() {
     hasError,
     refetchAll,
   } = useDuelsData();
+  const { data: asyncTurns = [], refetch: refetchAsyncTurns } =
+    useAsyncDuelTurns();
 
   // Local state
   const [refreshing, setRefreshing] = useState(false);
@@ -401,29 +550,29 @@ export default function DuelsScreen() {
         },
         headerTitle: {
           fontFamily: 'PrimaryFont',
-          color: Colors.gray[900],
+          color: colors.text,
         },
         headerSubtitle: {
-          color: Colors.gray[700],
+          color: colors.textSecondary,
           fontFamily: 'SecondaryFont-Regular',
         },
         errorTitle: {
           fontSize: 18,
           fontWeight: 'bold',
-          color: Colors.gray[800],
+          color: isDark ? colors.text : Colors.gray[800],
           textAlign: 'center',
           marginBottom: Spacing[2],
           fontFamily: 'SecondaryFont-Bold',
         },
         noDataText: {
-          color: Colors.gray[600],
+          color: colors.icon,
           fontFamily: 'SecondaryFont-Regular',
           textAlign: 'center',
           marginBottom: Spacing[4],
           fontSize: 16,
         },
       }),
-    [isDark],
+    [colors, isDark],
   );
 
   // Optimized handlers with stable references
@@ -432,7 +581,11 @@ export default function DuelsScreen() {
 
     try {
       setRefreshing(true);
-      await Promise.all([refreshSession().catch(console.warn), refetchAll()]);
+      await Promise.all([
+        refreshSession().catch(console.warn),
+        refetchAll(),
+        refetchAsyncTurns(),
+      ]);
     } catch (error) {
       console.error('Refresh failed:', error);
       if (
@@ -445,7 +598,7 @@ export default function DuelsScreen() {
     } finally {
       setRefreshing(false);
     }
-  }, [refreshing, refreshSession, refetchAll, router]);
+  }, [refreshing, refreshSession, refetchAll, refetchAsyncTurns, router]);
 
   const handleRetry = useCallback(async () => {
     try {
@@ -467,13 +620,40 @@ export default function DuelsScreen() {
   }, [refreshSession, refetchAll, router]);
 
   const handleNewDuel = useCallback(() => {
-    router.push('/(tabs)/duels/new' as any);
+    router.push(buildRoute('newDuel'));
   }, [router]);
 
   const handleDuelHistory = useCallback(() => {
-    router.push('/(tabs)/duels/history' as any);
+    router.push(buildRoute('duelHistory'));
+  }, [router]);
+
+  const handlePracticeTests = useCallback(() => {
+    router.push(buildRoute('tests'));
+  }, [router]);
+
+  const handleReviewDeck = useCallback(() => {
+    router.push(buildRoute('review'));
+  }, [router]);
+
+  const handleTournaments = useCallback(() => {
+    router.push(buildRoute('tournaments'));
+  }, [router]);
+
+  const handleBotPractice = useCallback(() => {
+    router.push(buildRoute('botPractice'));
   }, [router]);
 
+  const handleOpenDuel = useCallback(
+    (duel: Duel) => {
+      router.push(
+        buildRoute(asyncDuelHelpers.isAsyncDuel(duel) ? 'asyncDuel' : 'duel', {
+          id: duel.duel_id,
+        }),
+      );
+    },
+    [router],
+  );
+
   const handleLoginRedirect = useCallback(() => {
     router.replace('/(auth)/login');
   }, [router]);
@@ -484,11 +664,11 @@ export default function DuelsScreen() {
       <DuelCard
         duel={duel}
         contextColor={contextColor}
-        onPress={() => router.push(`/(tabs)/duels/${duel.duel_id}` as any)}
+        onPress={() => handleOpenDuel(duel)}
         preferredCourse={preferredCourse}
       />
     ),
-    [contextColor, router, preferredCourse],
+    [contextColor, handleOpenDuel, preferredCourse],
   );
 
   const keyExtractor = useCallback((item: Duel) => item.duel_id.toString(), []);
@@ -512,18 +692,18 @@ export default function DuelsScreen() {
         <EmptyState
           icon='users'
           fontFamily='PrimaryFont'
-          title='Aktif düello yok'
+          title={t('duels.noActiveDuels')}
           buttonFontFamily='PrimaryFont'
-          message='Arkadaşlarını düelloya davet et ve rekabeti başlat.'
+          message={t('duels.noActiveDuelsMessage')}
           actionButton={{
-            title: 'Düello Başlat',
+            title: t('duels.startDuel'),
             onPress: handleNewDuel,
             variant: 'secondary',
           }}
         />
       </PlayfulCard>
     ),
-    [handleNewDuel],
+    [handleNewDuel, t],
   );
 
   const ListHeaderComponent = useCallback(
@@ -542,15 +722,23 @@ export default function DuelsScreen() {
             contextColor={contextColor}
           />
         )}
+
+        <YourTurnSection
+          duels={asyncTurns}
+          contextColor={contextColor}
+          onOpen={handleOpenDuel}
+        />
       </>
     ),
     [
       contextColor,
       dynamicStyles,
       handleNewDuel,
+      handleOpenDuel,
       isLoading,
       activeDuels,
       duelStats,
+      asyncTurns,
     ],
   );
 
@@ -561,13 +749,17 @@ export default function DuelsScreen() {
           contextColor={contextColor}
           preferredCourse={preferredCourse}
           onDuelHistory={handleDuelHistory}
+          onPracticeTests={handlePracticeTests}
+          onReviewDeck={handleReviewDeck}
+          onTournaments={handleTournaments}
+          onBotPractice={handleBotPractice}
         />
 
         {/* Error display */}
         {(activeDuelsError || duelStatsError) && activeDuels.length > 0 && (
           <Alert
             type='warning'
-            message='Veriler yenilenirken sorun yaşandı. Çekmek için aşağı kaydırın.'
+            message={t('duels.refreshWarning')}
             style={styles.bottomAlert}
           />
         )}
@@ -587,10 +779,10 @@ export default function DuelsScreen() {
               style={styles.noDataIcon}
             />
             <Text style={dynamicStyles.noDataText}>
-              Düello verileri yüklenemedi
+              {t('duels.loadFailed')}
             </Text>
             <PlayfulButton
-              title='Tekrar Dene'
+              title={t('common.retry')}
               onPress={handleRetry}
               variant='primary'
               size='medium'
@@ -608,6 +800,10 @@ export default function DuelsScreen() {
       contextColor,
       preferredCourse,
       handleDuelHistory,
+      handlePracticeTests,
+      handleReviewDeck,
+      handleTournaments,
+      handleBotPractice,
       activeDuelsError,
       duelStatsError,
       activeDuels.length,
@@ -615,6 +811,7 @@ export default function DuelsScreen() {
       hasError,
       dynamicStyles,
       handleRetry,
+      t,
     ],
   );
 
@@ -630,7 +827,7 @@ export default function DuelsScreen() {
   const errorMessage =
     activeDuelsError?.message ||
     duelStatsError?.message ||
-    'Veri yüklenirken bir hata oluştu. Lütfen tekrar deneyin.';
+    t('duels.loadError');
 
   if (shouldShowError) {
     return (
@@ -642,7 +839,9 @@ export default function DuelsScreen() {
             color={Colors.vibrant?.orange || Colors.warning}
             style={styles.errorIcon}
           />
-          <Text style={dynamicStyles.errorTitle}>Bir Sorun Oluştu</Text>
+          <Text style={dynamicStyles.errorTitle}>
+            {t('common.somethingWentWrong')}
+          </Text>
           <Alert
             type='error'
             message={errorMessage}
@@ -650,7 +849,7 @@ export default function DuelsScreen() {
           />
           <View style={styles.errorActions}>
             <PlayfulButton
-              title='Yeniden Dene'
+              title={t('common.tryAgain')}
               onPress={handleRetry}
               variant='primary'
               animated={false}
@@ -659,7 +858,7 @@ export default function DuelsScreen() {
               style={[styles.retryButton, { backgroundColor: contextColor }]}
             />
             <PlayfulButton
-              title='Giriş Ekranına Dön'
+              title={t('auth.backToLogin')}
               onPress={handleLoginRedirect}
               variant='outline'
               size='medium'
@@ -677,9 +876,9 @@ export default function DuelsScreen() {
       <View style={styles.container}>
         <View style={styles.loadingContainer}>
           <ActivityIndicator size='large' color={contextColor} />
-          <Text style={dynamicStyles.loadingText}>Düellolar yükleniyor...</Text>
+          <Text style={dynamicStyles.loadingText}>{t('duels.loading')}</Text>
           <Text style={dynamicStyles.loadingSubtext}>
-            Bu birkaç saniye sürebilir
+            {t('duels.loadingHint')}
           </Text>
         </View>
       </View>
@@ -704,7 +903,7 @@ export default function DuelsScreen() {
             onRefresh={handleRefresh}
             tintColor={contextColor}
             colors={[contextColor]}
-            title='Yenileniyor...'
+            title={t('common.refreshing')}
           />
         }
         // Performance optimizations
@@ -755,6 +954,28 @@ const styles = StyleSheet.create({
   statCard: {
     ...OPTIMIZED_SHADOW,
   },
+  yourTurnCard: {
+    marginBottom: Spacing[6],
+    ...OPTIMIZED_SHADOW,
+  },
+  yourTurnRow: {
+    alignItems: 'center',
+    gap: Spacing[3],
+    paddingVertical: Spacing[2],
+  },
+  yourTurnInfo: {
+    flex: 1,
+  },
+  yourTurnName: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+    fontSize: FontSizes.base,
+  },
+  yourTurnMeta: {
+    color: Colors.gray[200],
+    fontFamily: 'SecondaryFont-Regular',
+    fontSize: FontSizes.sm,
+  },
   newDuelButton: {
     marginBottom: Spacing[6],
     ...OPTIMIZED_SHADOW,
@@ -812,6 +1033,9 @@ const styles = StyleSheet.create({
     marginLeft: Spacing[2],
     borderColor: Colors.white,
   },
+  quickActionsRowSpaced: {
+    marginTop: Spacing[3],
+  },
   bottomAlert: {
     marginTop: Spacing[4],
   },
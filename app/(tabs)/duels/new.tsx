@@ -13,6 +13,7 @@ import {
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import {
   Container,
   SlideInElement,
@@ -35,14 +36,28 @@ import {
   Colors,
   Spacing,
   BorderRadius,
+  PremiumGate,
+  TierBadge,
+  LeaderboardCard,
 } from '../../../components/ui';
+import {
+  usePremiumAccess,
+  subscriptionHelpers,
+} from '../../../src/hooks/useSubscriptionData';
 import {
   useNewDuelData,
   useDuelCreation,
   useSocketBotChallenge,
   useUserSearch,
+  useDuelLeaderboard,
   duelHelpers,
 } from '../../../src/hooks/useDuelsData';
+import { useMyRatings, ratingHelpers } from '../../../src/hooks/useRatingData';
+import {
+  useAsyncDuelMutations,
+  ASYNC_DUEL_WINDOW_HOURS,
+} from '../../../src/hooks/useAsyncDuelData';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 import { useAuth, usePreferredCourse } from '../../../stores/appStore';
 import { Test, Course } from '../../../src/types/models';
 import { Bot } from '../../../src/api/botService';
@@ -55,11 +70,15 @@ const OPTIMIZED_SHADOW = {};
 type DuelHubTab = 'find' | 'friends' | 'leaderboard' | 'bots';
 type ChallengeStep = 'selectOpponent' | 'selectCourse' | 'confirm';
 
+type LeaderboardScope = 'overall' | 'course';
+
 interface Opponent {
   id: number;
   username: string;
   winRate?: number;
   totalDuels?: number;
+  rating?: number;
+  ratedGames?: number;
   isBot?: boolean;
 }
 
@@ -125,14 +144,17 @@ const BotListItem = React.memo(
     contextColor,
     isLoading,
     isAuthenticated,
+    isLocked,
     onChallenge,
   }: {
     bot: Bot;
     contextColor: string;
     isLoading: boolean;
     isAuthenticated: boolean;
+    isLocked: boolean;
     onChallenge: (bot: Bot) => void;
   }) => {
+    const { t } = useTranslation();
     const difficultyInfo = useMemo(() => {
       return duelHelpers.getBotDisplayInfo(bot);
     }, [bot.botName, bot.difficultyLevel, bot.accuracyRate]);
@@ -144,16 +166,16 @@ const BotListItem = React.memo(
     const buttonConfig = useMemo(
       () => ({
         title: isLoading
-          ? 'Bağlanıyor...'
+          ? t('newDuel.connecting')
           : !isAuthenticated
-            ? 'Giriş Gerekli'
-            : 'Meydan Oku',
+            ? t('common.loginRequired')
+            : t('newDuel.challenge'),
         backgroundColor: !isAuthenticated
           ? Colors.gray[500]
           : difficultyInfo.color,
         disabled: isLoading || !isAuthenticated,
       }),
-      [isLoading, isAuthenticated, difficultyInfo.color],
+      [isLoading, isAuthenticated, difficultyInfo.color, t],
     );
 
     return (
@@ -164,8 +186,10 @@ const BotListItem = React.memo(
               <Column style={styles.listItemInfo}>
                 <Text style={styles.botName}>{difficultyInfo.name}</Text>
                 <Text style={styles.botStats}>
-                  Doğruluk: {difficultyInfo.accuracy}% • Süre:{' '}
-                  {difficultyInfo.avgTime}s
+                  {t('newDuel.botStats', {
+                    accuracy: difficultyInfo.accuracy,
+                    seconds: difficultyInfo.avgTime,
+                  })}
                 </Text>
                 <Row style={styles.badgeRow}>
                   <Badge
@@ -182,18 +206,21 @@ const BotListItem = React.memo(
                 </Row>
               </Column>
             </Row>
-            <Button
-              title={buttonConfig.title}
-              variant='primary'
-              size='small'
-              onPress={handlePress}
-              disabled={buttonConfig.disabled}
-              style={[
-                styles.challengeButton,
-                { backgroundColor: buttonConfig.backgroundColor },
-              ]}
-              textStyle={styles.challengeButtonText}
-            />
+            {/* Higher difficulty tiers are Premium-only */}
+            <PremiumGate locked={isLocked} compact>
+              <Button
+                title={buttonConfig.title}
+                variant='primary'
+                size='small'
+                onPress={handlePress}
+                disabled={buttonConfig.disabled}
+                style={[
+                  styles.challengeButton,
+                  { backgroundColor: buttonConfig.backgroundColor },
+                ]}
+                textStyle={styles.challengeButtonText}
+              />
+            </PremiumGate>
           </Row>
         </PlayfulCard>
       </View>
@@ -204,6 +231,7 @@ const BotListItem = React.memo(
     prevProps.bot.difficultyLevel === nextProps.bot.difficultyLevel &&
     prevProps.isLoading === nextProps.isLoading &&
     prevProps.isAuthenticated === nextProps.isAuthenticated &&
+    prevProps.isLocked === nextProps.isLocked &&
     prevProps.contextColor === nextProps.contextColor,
 );
 
@@ -218,6 +246,7 @@ const OpponentListItem = React.memo(
     isAuthenticated: boolean;
     onChallenge: (opponent: Opponent) => void;
   }) => {
+    const { t } = useTranslation();
     const handlePress = useCallback(() => {
       onChallenge(opponent);
     }, [opponent, onChallenge]);
@@ -237,15 +266,31 @@ const OpponentListItem = React.memo(
             <Row style={styles.listItemLeft}>
               <Column style={styles.listItemInfo}>
                 <Text style={styles.opponentName}>{opponent.username}</Text>
+                {opponent.rating !== undefined && (
+                  <TierBadge
+                    rating={opponent.rating}
+                    gamesPlayed={opponent.ratedGames}
+                    showRating
+                    style={styles.opponentTier}
+                  />
+                )}
                 <Text style={styles.opponentStats}>
-                  Kazanma Oranı: {opponentStats.winRate}%
+                  {t('newDuel.opponentWinRate', {
+                    winRate: opponentStats.winRate,
+                  })}
                   {opponentStats.totalDuels &&
-                    ` • ${opponentStats.totalDuels} Düello`}
+                    t('newDuel.opponentDuels', {
+                      count: opponentStats.totalDuels,
+                    })}
                 </Text>
               </Column>
             </Row>
             <Button
-              title={isAuthenticated ? 'Meydan Oku' : 'Giriş Gerekli'}
+              title={
+                isAuthenticated
+                  ? t('newDuel.challenge')
+                  : t('common.loginRequired')
+              }
               variant='primary'
               size='small'
               onPress={handlePress}
@@ -269,7 +314,84 @@ const OpponentListItem = React.memo(
     prevProps.opponent.id === nextProps.opponent.id &&
     prevProps.isAuthenticated === nextProps.isAuthenticated &&
     prevProps.opponent.winRate === nextProps.opponent.winRate &&
-    prevProps.opponent.totalDuels === nextProps.opponent.totalDuels,
+    prevProps.opponent.totalDuels === nextProps.opponent.totalDuels &&
+    prevProps.opponent.rating === nextProps.opponent.rating,
+);
+
+// Ranked quick match - the queue pairs players with nearby ratings first
+const RankedQuickMatch = React.memo(
+  ({
+    courseTitle,
+    rating,
+    ratedGames,
+    isSearching,
+    timeInQueue,
+    ratingRange,
+    error,
+    contextColor,
+    isAuthenticated,
+    onJoin,
+    onLeave,
+  }: {
+    courseTitle: string | null;
+    rating: number;
+    ratedGames: number;
+    isSearching: boolean;
+    timeInQueue: number;
+    ratingRange: number | null;
+    error: string | null;
+    contextColor: string;
+    isAuthenticated: boolean;
+    onJoin: () => void;
+    onLeave: () => void;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <Card style={styles.searchCard}>
+        <Row style={styles.rankedHeader}>
+          <Text style={styles.opponentName}>
+            {t('ratings.rankedQuickMatch')}
+          </Text>
+          <TierBadge rating={rating} gamesPlayed={ratedGames} showRating />
+        </Row>
+        <Text style={styles.opponentStats}>
+          {courseTitle
+            ? t('ratings.rankedCourse', { course: courseTitle })
+            : t('ratings.selectCourseFirst')}
+        </Text>
+        {isSearching ? (
+          <>
+            <Text style={[styles.opponentStats, styles.rankedStatus]}>
+              {t('ratings.searching', { seconds: timeInQueue })} ·{' '}
+              {ratingRange !== null
+                ? t('ratings.searchRange', { range: ratingRange })
+                : t('ratings.searchRangeAny')}
+            </Text>
+            <Button
+              title={t('ratings.cancelSearch')}
+              variant='outline'
+              onPress={onLeave}
+              icon='times'
+              style={styles.searchButton}
+            />
+          </>
+        ) : (
+          <Button
+            title={t('ratings.findRankedMatch')}
+            onPress={onJoin}
+            disabled={!isAuthenticated || !courseTitle}
+            icon='bolt'
+            style={[styles.searchButton, { backgroundColor: contextColor }]}
+            textStyle={styles.searchButtonText}
+          />
+        )}
+        {error && (
+          <Alert type='error' message={error} style={styles.searchError} />
+        )}
+      </Card>
+    );
+  },
 );
 
 // Optimized UsernameSearch
@@ -287,6 +409,7 @@ const UsernameSearch = React.memo(
     const [loading, setLoading] = useState(false);
     const [error, setError] = useState<string | null>(null);
     const { searchUser } = useUserSearch();
+    const { t } = useTranslation();
 
     const handleSearch = useCallback(async () => {
       if (!username.trim() || !isAuthenticated) return;
@@ -300,19 +423,19 @@ const UsernameSearch = React.memo(
           onChallenge(opponent);
           setUsername('');
         } else {
-          setError(`'${username}' bulunamadı.`);
+          setError(t('newDuel.userNotFound', { username }));
         }
       } catch (err) {
-        setError('Arama sırasında hata oluştu.');
+        setError(t('newDuel.searchFailed'));
       } finally {
         setLoading(false);
       }
-    }, [username, onChallenge, searchUser, isAuthenticated]);
+    }, [username, onChallenge, searchUser, isAuthenticated, t]);
 
     return (
       <Card style={styles.searchCard}>
         <Input
-          placeholder='Kullanıcı adı ile ara'
+          placeholder={t('newDuel.searchPlaceholder')}
           value={username}
           onChangeText={setUsername}
           autoCapitalize='none'
@@ -320,7 +443,11 @@ const UsernameSearch = React.memo(
           inputStyle={styles.searchInput}
         />
         <Button
-          title={isAuthenticated ? 'Ara ve Meydan Oku' : 'Giriş Gerekli'}
+          title={
+            isAuthenticated
+              ? t('newDuel.searchAndChallenge')
+              : t('common.loginRequired')
+          }
           onPress={handleSearch}
           loading={loading}
           disabled={!isAuthenticated || !username.trim()}
@@ -350,28 +477,32 @@ const NewDuelHeader = React.memo(
   }: {
     dynamicStyles: any;
     isAuthenticated: boolean;
-  }) => (
-    <SlideInElement delay={0}>
-      <PlayfulCard style={styles.headerCard}>
-        <Row style={styles.headerRow}>
-          <Column style={styles.headerColumn}>
-            <PlayfulTitle
-              level={1}
-              gradient='primary'
-              style={dynamicStyles.headerTitle}
-            >
-              Yeni Düello ⚔️
-            </PlayfulTitle>
-            <Paragraph style={dynamicStyles.headerSubtitle}>
-              {isAuthenticated
-                ? 'Rakip seç ve meydan okumaya başla'
-                : 'Meydan okumak için giriş yapın'}
-            </Paragraph>
-          </Column>
-        </Row>
-      </PlayfulCard>
-    </SlideInElement>
-  ),
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <Row style={styles.headerRow}>
+            <Column style={styles.headerColumn}>
+              <PlayfulTitle
+                level={1}
+                gradient='primary'
+                style={dynamicStyles.headerTitle}
+              >
+                {t('newDuel.title')}
+              </PlayfulTitle>
+              <Paragraph style={dynamicStyles.headerSubtitle}>
+                {isAuthenticated
+                  ? t('newDuel.subtitle')
+                  : t('newDuel.subtitleSignedOut')}
+              </Paragraph>
+            </Column>
+          </Row>
+        </PlayfulCard>
+      </SlideInElement>
+    );
+  },
 );
 
 // Filter Buttons Component
@@ -388,48 +519,52 @@ const FilterButtons = React.memo(
     isDark: boolean;
     onTabChange: (tab: DuelHubTab) => void;
     botOpponents: any[];
-  }) => (
-    <SlideInElement delay={100}>
-      <View style={styles.filterContainer}>
-        <Row style={styles.filterRow}>
-          <FilterButton
-            filter='find'
-            title='Rakip Bul'
-            activeTab={activeTab}
-            contextColor={contextColor}
-            isDark={isDark}
-            onPress={onTabChange}
-          />
-          <FilterButton
-            filter='friends'
-            title='Arkadaşlar'
-            activeTab={activeTab}
-            contextColor={contextColor}
-            isDark={isDark}
-            onPress={onTabChange}
-          />
-          {botOpponents.length > 0 && (
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <SlideInElement delay={100}>
+        <View style={styles.filterContainer}>
+          <Row style={styles.filterRow}>
             <FilterButton
-              filter='bots'
-              title='Botlar'
+              filter='find'
+              title={t('newDuel.tabFind')}
               activeTab={activeTab}
               contextColor={contextColor}
               isDark={isDark}
               onPress={onTabChange}
             />
-          )}
-          <FilterButton
-            filter='leaderboard'
-            title='Liderlik'
-            activeTab={activeTab}
-            contextColor={contextColor}
-            isDark={isDark}
-            onPress={onTabChange}
-          />
-        </Row>
-      </View>
-    </SlideInElement>
-  ),
+            <FilterButton
+              filter='friends'
+              title={t('newDuel.tabFriends')}
+              activeTab={activeTab}
+              contextColor={contextColor}
+              isDark={isDark}
+              onPress={onTabChange}
+            />
+            {botOpponents.length > 0 && (
+              <FilterButton
+                filter='bots'
+                title={t('newDuel.tabBots')}
+                activeTab={activeTab}
+                contextColor={contextColor}
+                isDark={isDark}
+                onPress={onTabChange}
+              />
+            )}
+            <FilterButton
+              filter='leaderboard'
+              title={t('newDuel.tabLeaderboard')}
+              activeTab={activeTab}
+              contextColor={contextColor}
+              isDark={isDark}
+              onPress={onTabChange}
+            />
+          </Row>
+        </View>
+      </SlideInElement>
+    );
+  },
 );
 
 // Main Component
@@ -448,11 +583,14 @@ export default function NewDuelScreen() {
     friendOpponents,
     botOpponents,
     courses,
+    quickMatch,
     isLoading: dataLoading,
     refetchAll,
   } = useNewDuelData();
 
+  const { t } = useTranslation();
   const { challengeUser } = useDuelCreation();
+  const { challengeAsync } = useAsyncDuelMutations();
   const {
     challengeBot: socketChallengeBot,
     challengeState,
@@ -461,6 +599,8 @@ export default function NewDuelScreen() {
     reset: resetSocketChallenge,
     isLoading: socketLoading,
   } = useSocketBotChallenge();
+  const { isPremium } = usePremiumAccess();
+  const { data: myRatings = [] } = useMyRatings();
 
   // Memoized context color
   const contextColor = useMemo(() => {
@@ -484,6 +624,24 @@ export default function NewDuelScreen() {
   const [isSubmittingChallenge, setIsSubmittingChallenge] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isBotChallenge, setIsBotChallenge] = useState(false);
+  const [isAsyncChallenge, setIsAsyncChallenge] = useState(false);
+  const [leaderboardScope, setLeaderboardScope] =
+    useState<LeaderboardScope>('overall');
+
+  const preferredCourseId = preferredCourse?.course_id ?? null;
+  const { data: leaderboard = [], isLoading: leaderboardLoading } =
+    useDuelLeaderboard(
+      20,
+      leaderboardScope === 'course' && preferredCourseId
+        ? preferredCourseId
+        : undefined,
+    );
+
+  // Ranked matches use the course rating, falling back to overall
+  const rankedRating = useMemo(() => {
+    const snapshot = ratingHelpers.getSnapshot(myRatings, preferredCourseId);
+    return snapshot.course ?? snapshot.overall;
+  }, [myRatings, preferredCourseId]);
 
   // Memoized styles
   const dynamicStyles = useMemo(
@@ -521,6 +679,7 @@ export default function NewDuelScreen() {
     setSelectedBot(null);
     setSelectedCourse(null);
     setIsBotChallenge(false);
+    setIsAsyncChallenge(false);
     setChallengeStep('selectOpponent');
     setShowWheelForCourse(false);
     setError(null);
@@ -575,7 +734,7 @@ export default function NewDuelScreen() {
   const handleOpenChallengeModal = useCallback(
     (opponent: Opponent) => {
       if (!isAuthenticated) {
-        setError('Meydan okumak için giriş yapmanız gerekiyor.');
+        setError(t('newDuel.loginToChallenge'));
         return;
       }
 
@@ -593,13 +752,22 @@ export default function NewDuelScreen() {
       setModalVisible(true);
       setError(null);
     },
-    [isAuthenticated],
+    [isAuthenticated, t],
   );
 
   const handleOpenBotChallengeModal = useCallback(
     (bot: Bot) => {
       if (!isAuthenticated) {
-        setError('Bot meydan okumak için giriş yapmanız gerekiyor.');
+        setError(t('newDuel.loginToChallengeBot'));
+        return;
+      }
+      if (
+        subscriptionHelpers.isBotDifficultyLocked(
+          bot.difficultyLevel,
+          isPremium,
+        )
+      ) {
+        router.push(buildRoute('subscription'));
         return;
       }
 
@@ -612,7 +780,7 @@ export default function NewDuelScreen() {
       setModalVisible(true);
       setError(null);
     },
-    [isAuthenticated],
+    [isAuthenticated, isPremium, router, t],
   );
 
   const handleCourseSelected = useCallback((course: Course) => {
@@ -634,12 +802,12 @@ export default function NewDuelScreen() {
 
   const handleChallengeSubmit = useCallback(async () => {
     if (!selectedCourse) {
-      setError('Ders seçilmedi.');
+      setError(t('newDuel.noCourseSelected'));
       return;
     }
 
     if (!isAuthenticated || !user) {
-      setError('Oturum süresi dolmuş. Lütfen tekrar giriş yapın.');
+      setError(t('newDuel.sessionExpired'));
       return;
     }
 
@@ -652,6 +820,17 @@ export default function NewDuelScreen() {
           selectedBot.difficultyLevel,
           true,
         );
+      } else if (!isBotChallenge && selectedOpponent && isAsyncChallenge) {
+        setIsSubmittingChallenge(true);
+        const response = await challengeAsync({
+          opponentId: selectedOpponent.id,
+          courseId: selectedCourse.course_id,
+          questionCount: 5,
+        });
+
+        setModalVisible(false);
+        resetChallengeState();
+        router.push(buildRoute('asyncDuel', { id: response.duel.duel_id }));
       } else if (!isBotChallenge && selectedOpponent) {
         setIsSubmittingChallenge(true);
         const response = await challengeUser(
@@ -663,18 +842,13 @@ export default function NewDuelScreen() {
         if (response?.duel) {
           setModalVisible(false);
           resetChallengeState();
-          router.push({
-            pathname: '/(tabs)/duels/[id]' as any,
-            params: { id: response.duel.duel_id.toString() },
-          });
+          router.push(buildRoute('duel', { id: response.duel.duel_id }));
         }
       }
     } catch (err) {
       console.error('Challenge submission failed:', err);
       setError(
-        err instanceof Error
-          ? err.message
-          : 'Meydan okuma gönderilemedi. Lütfen tekrar deneyin.',
+        err instanceof Error ? err.message : t('newDuel.challengeFailed'),
       );
     } finally {
       setIsSubmittingChallenge(false);
@@ -684,23 +858,43 @@ export default function NewDuelScreen() {
     isAuthenticated,
     user,
     isBotChallenge,
+    isAsyncChallenge,
     selectedBot,
     selectedOpponent,
     socketChallengeBot,
     challengeUser,
+    challengeAsync,
     resetChallengeState,
     router,
+    t,
   ]);
 
+  // Ranked quick match
+  const {
+    joinQuickMatch,
+    leaveQuickMatch,
+    resetQuickMatch,
+    matchedDuel: quickMatchDuel,
+  } = quickMatch;
+
+  const handleJoinRanked = useCallback(() => {
+    if (!preferredCourseId) return;
+    joinQuickMatch(preferredCourseId, rankedRating.rating);
+  }, [preferredCourseId, rankedRating.rating, joinQuickMatch]);
+
+  useEffect(() => {
+    if (quickMatchDuel) {
+      resetQuickMatch();
+      router.push(buildRoute('duel', { id: quickMatchDuel.duel_id }));
+    }
+  }, [quickMatchDuel, resetQuickMatch, router]);
+
   // Socket challenge result handling
   useEffect(() => {
     if (challengeState === 'success' && createdDuel) {
       setModalVisible(false);
       resetChallengeState();
-      router.push({
-        pathname: '/(tabs)/duels/[id]' as any,
-        params: { id: createdDuel.duel_id.toString() },
-      });
+      router.push(buildRoute('duel', { id: createdDuel.duel_id }));
     } else if (challengeState === 'error' && socketError) {
       setError(socketError);
     }
@@ -714,10 +908,20 @@ export default function NewDuelScreen() {
         contextColor={contextColor}
         isLoading={socketLoading}
         isAuthenticated={isAuthenticated}
+        isLocked={subscriptionHelpers.isBotDifficultyLocked(
+          item.botInfo!.difficultyLevel,
+          isPremium,
+        )}
         onChallenge={handleOpenBotChallengeModal}
       />
     ),
-    [contextColor, socketLoading, isAuthenticated, handleOpenBotChallengeModal],
+    [
+      contextColor,
+      socketLoading,
+      isAuthenticated,
+      isPremium,
+      handleOpenBotChallengeModal,
+    ],
   );
 
   const renderOpponentItem: ListRenderItem<Opponent> = useCallback(
@@ -749,7 +953,7 @@ export default function NewDuelScreen() {
         <View style={styles.loadingContainer}>
           <ActivityIndicator size='large' color={contextColor} />
           <Text style={dynamicStyles.loadingText}>
-            Düello verileri yükleniyor...
+            {t('newDuel.loadingData')}
           </Text>
         </View>
       );
@@ -759,6 +963,19 @@ export default function NewDuelScreen() {
       case 'find':
         return (
           <View style={styles.tabContentContainer}>
+            <RankedQuickMatch
+              courseTitle={preferredCourse?.title ?? null}
+              rating={rankedRating.rating}
+              ratedGames={rankedRating.gamesPlayed}
+              isSearching={quickMatch.isSearching}
+              timeInQueue={quickMatch.timeInQueue}
+              ratingRange={quickMatch.ratingRange}
+              error={quickMatch.error}
+              contextColor={contextColor}
+              isAuthenticated={isAuthenticated}
+              onJoin={handleJoinRanked}
+              onLeave={leaveQuickMatch}
+            />
             <UsernameSearch
               onChallenge={handleOpenChallengeModal}
               contextColor={contextColor}
@@ -771,7 +988,7 @@ export default function NewDuelScreen() {
                 dynamicStyles.sectionTitle,
               ]}
             >
-              Önerilen Rakipler
+              {t('newDuel.recommendedOpponents')}
             </Text>
             {recommendedOpponents.length > 0 ? (
               <FlatList
@@ -788,7 +1005,7 @@ export default function NewDuelScreen() {
               />
             ) : (
               <Paragraph style={dynamicStyles.emptyText}>
-                Şu an için önerilen rakip bulunmuyor.
+                {t('newDuel.noRecommendedOpponents')}
               </Paragraph>
             )}
           </View>
@@ -810,8 +1027,8 @@ export default function NewDuelScreen() {
         ) : (
           <EmptyState
             icon='users'
-            title='Arkadaş Yok'
-            message='Düello yapmak için önce arkadaş eklemelisin.'
+            title={t('newDuel.noFriendsTitle')}
+            message={t('newDuel.noFriendsMessage')}
             fontFamily='SecondaryFont-Regular'
             buttonFontFamily='PrimaryFont'
             titleFontFamily='PrimaryFont'
@@ -819,11 +1036,48 @@ export default function NewDuelScreen() {
         );
       case 'leaderboard':
         return (
-          <EmptyState
-            icon='trophy'
-            title='Liderlik Tablosu'
-            message='Liderlik tablosu özelliği yakında gelecek!'
-          />
+          <View style={styles.tabContentContainer}>
+            <Row style={styles.leaderboardScopeRow}>
+              {(['overall', 'course'] as const).map((scope) => (
+                <Button
+                  key={scope}
+                  title={
+                    scope === 'overall'
+                      ? t('ratings.leaderboardOverall')
+                      : preferredCourse?.title || t('ratings.leaderboardCourse')
+                  }
+                  variant={leaderboardScope === scope ? 'primary' : 'outline'}
+                  size='small'
+                  onPress={() => setLeaderboardScope(scope)}
+                  disabled={scope === 'course' && !preferredCourseId}
+                  style={styles.leaderboardScopeButton}
+                />
+              ))}
+            </Row>
+            {leaderboardLoading ? (
+              <ActivityIndicator size='large' color={Colors.white} />
+            ) : leaderboard.length > 0 ? (
+              leaderboard.map((entry) => (
+                <LeaderboardCard
+                  key={entry.userId}
+                  rank={entry.rank}
+                  name={entry.username}
+                  score={entry.wins}
+                  rating={entry.rating}
+                  ratedGames={entry.ratedGames}
+                  isCurrentUser={entry.userId === user?.userId}
+                  variant='compact'
+                  animated={false}
+                />
+              ))
+            ) : (
+              <EmptyState
+                icon='trophy'
+                title={t('ratings.leaderboardEmptyTitle')}
+                message={t('ratings.leaderboardEmptyMessage')}
+              />
+            )}
+          </View>
         );
       case 'bots':
         return botOpponents.length > 0 ? (
@@ -842,8 +1096,8 @@ export default function NewDuelScreen() {
         ) : (
           <EmptyState
             icon='gears'
-            title='Bot Yok'
-            message='Şu an kullanılabilir bot bulunmuyor.'
+            title={t('newDuel.noBotsTitle')}
+            message={t('newDuel.noBotsMessage')}
           />
         );
       default:
@@ -864,29 +1118,43 @@ export default function NewDuelScreen() {
     renderBotItem,
     opponentKeyExtractor,
     botKeyExtractor,
+    preferredCourse,
+    preferredCourseId,
+    rankedRating,
+    quickMatch.isSearching,
+    quickMatch.timeInQueue,
+    quickMatch.ratingRange,
+    quickMatch.error,
+    handleJoinRanked,
+    leaveQuickMatch,
+    leaderboard,
+    leaderboardLoading,
+    leaderboardScope,
+    user?.userId,
+    t,
   ]);
 
   // Modal content
   const getModalTitle = useCallback(() => {
     if (isBotChallenge && selectedBot) {
-      return `${selectedBot.botName} ile Düello`;
+      return t('newDuel.duelWithBot', { name: selectedBot.botName });
     }
     switch (challengeStep) {
       case 'selectCourse':
-        return 'Ders Seçin';
+        return t('newDuel.selectCourseTitle');
       case 'confirm':
-        return 'Meydan Okumayı Onayla';
+        return t('newDuel.confirmTitle');
       default:
-        return 'Meydan Okuma';
+        return t('newDuel.challengeTitle');
     }
-  }, [isBotChallenge, selectedBot, challengeStep]);
+  }, [isBotChallenge, selectedBot, challengeStep, t]);
 
   const getOpponentDisplayName = useCallback(() => {
     if (isBotChallenge && selectedBot) {
       return selectedBot.botName;
     }
-    return selectedOpponent?.username || 'Rakip';
-  }, [isBotChallenge, selectedBot, selectedOpponent]);
+    return selectedOpponent?.username || t('newDuel.opponentFallback');
+  }, [isBotChallenge, selectedBot, selectedOpponent, t]);
 
   const renderChallengeModal = useCallback(() => {
     return (
@@ -899,12 +1167,14 @@ export default function NewDuelScreen() {
           {/* Opponent Info */}
           <View style={styles.opponentInfo}>
             <Text style={styles.opponentTitle}>
-              Rakip: {getOpponentDisplayName()}
+              {t('newDuel.opponentLabel', { name: getOpponentDisplayName() })}
             </Text>
             {isBotChallenge && selectedBot && (
               <Text style={styles.botDetails}>
-                Zorluk: Seviye {selectedBot.difficultyLevel} • Doğruluk:{' '}
-                {(selectedBot.accuracyRate * 100).toFixed(0)}%
+                {t('newDuel.botDetails', {
+                  level: selectedBot.difficultyLevel,
+                  accuracy: (selectedBot.accuracyRate * 100).toFixed(0),
+                })}
               </Text>
             )}
           </View>
@@ -913,7 +1183,7 @@ export default function NewDuelScreen() {
           {challengeStep === 'selectCourse' && (
             <>
               <Text style={styles.courseDescription}>
-                Bir ders seçin! Seçilen dersten 5 rastgele soru gelecek.
+                {t('newDuel.courseDescription', { count: 5 })}
               </Text>
 
               {showWheelForCourse ? (
@@ -922,7 +1192,7 @@ export default function NewDuelScreen() {
                     items={courses.map((c) => c.nicknames || c.title)}
                     onSpinEnd={handleCourseSpinComplete}
                     size={280}
-                    spinButtonText='ÇEVİR'
+                    spinButtonText={t('newDuel.spin')}
                     sliceFontFamily='PrimaryFont'
                     winnerFontFamily='PrimaryFont'
                     fontFamily='PrimaryFont'
@@ -938,15 +1208,15 @@ export default function NewDuelScreen() {
                       style={styles.iosCoursePicker}
                       onPress={() => {
                         const options = [
-                          'İptal',
+                          t('common.cancel'),
                           ...courses.map((c) => c.title),
                         ];
                         ActionSheetIOS.showActionSheetWithOptions(
                           {
                             options,
                             cancelButtonIndex: 0,
-                            title: 'Bir Ders Seçin',
-                            message: 'Bu dersten 5 rastgele soru gelecek',
+                            title: t('newDuel.pickCourse'),
+                            message: t('newDuel.pickCourseHint', { count: 5 }),
                           },
                           (buttonIndex) => {
                             if (buttonIndex > 0) {
@@ -960,7 +1230,7 @@ export default function NewDuelScreen() {
                       <Text style={styles.iosPickerText}>
                         {selectedCourse
                           ? selectedCourse.title
-                          : 'Bir Ders Seçin...'}
+                          : t('newDuel.pickCoursePlaceholder')}
                       </Text>
                       <View style={styles.iosPickerChevron}>
                         <FontAwesome
@@ -981,7 +1251,7 @@ export default function NewDuelScreen() {
                         const course = courses.find((c) => c.course_id === val);
                         if (course) handleCourseSelected(course);
                       }}
-                      placeholder='Bir Ders Seçin...'
+                      placeholder={t('newDuel.pickCoursePlaceholder')}
                       enabled={true}
                       forceLight={true}
                       style={styles.androidPicker}
@@ -991,7 +1261,7 @@ export default function NewDuelScreen() {
                   )}
 
                   <Button
-                    title='Ders İçin Çevir'
+                    title={t('newDuel.spinForCourse')}
                     onPress={() => setShowWheelForCourse(true)}
                     variant='secondary'
                     icon='random'
@@ -1008,26 +1278,76 @@ export default function NewDuelScreen() {
             <>
               <View style={styles.confirmationContainer}>
                 <Text style={styles.confirmationTitle}>
-                  {isBotChallenge ? 'Bot Meydan Okuma' : 'Meydan Okuma'} Özeti
+                  {isBotChallenge
+                    ? t('newDuel.botSummaryTitle')
+                    : t('newDuel.summaryTitle')}
                 </Text>
                 <View style={styles.summaryCard}>
                   <Text style={styles.summaryText}>
-                    <Text style={styles.summaryLabel}>Rakip:</Text>{' '}
+                    <Text style={styles.summaryLabel}>
+                      {t('newDuel.summaryOpponent')}
+                    </Text>{' '}
                     {getOpponentDisplayName()}
                   </Text>
                   <Text style={styles.summaryText}>
-                    <Text style={styles.summaryLabel}>Ders:</Text>{' '}
+                    <Text style={styles.summaryLabel}>
+                      {t('newDuel.summaryCourse')}
+                    </Text>{' '}
                     {selectedCourse.title}
                   </Text>
                   <Text style={styles.summaryText}>
-                    <Text style={styles.summaryLabel}>Soru Sayısı:</Text> 5
-                    Rastgele Soru
+                    <Text style={styles.summaryLabel}>
+                      {t('newDuel.summaryQuestionCount')}
+                    </Text>{' '}
+                    {t('newDuel.randomQuestions', { count: 5 })}
                   </Text>
                 </View>
+
+                {/* Live or async - bots only play live */}
+                {!isBotChallenge && (
+                  <>
+                    <Row style={styles.modeRow}>
+                      {[false, true].map((isAsync) => (
+                        <TouchableOpacity
+                          key={isAsync ? 'async' : 'live'}
+                          style={[
+                            styles.modeOption,
+                            isAsyncChallenge === isAsync &&
+                              styles.modeOptionActive,
+                          ]}
+                          onPress={() => setIsAsyncChallenge(isAsync)}
+                          disabled={isSubmittingChallenge}
+                        >
+                          <FontAwesome
+                            name={isAsync ? 'hourglass-half' : 'bolt'}
+                            size={14}
+                            color={Colors.white}
+                          />
+                          <Text style={styles.modeOptionText}>
+                            {isAsync
+                              ? t('asyncDuel.modeAsync')
+                              : t('asyncDuel.modeLive')}
+                          </Text>
+                        </TouchableOpacity>
+                      ))}
+                    </Row>
+                    <Text style={styles.modeHint}>
+                      {isAsyncChallenge
+                        ? t('asyncDuel.modeAsyncHint', {
+                            hours: ASYNC_DUEL_WINDOW_HOURS,
+                          })
+                        : t('asyncDuel.modeLiveHint')}
+                    </Text>
+                  </>
+                )}
               </View>
 
               <Button
-                title={isBotChallenge ? 'Bota Meydan Oku!' : 'Meydan Oku!'}
+                title={
+                  isBotChallenge
+                    ? t('newDuel.challengeBotSubmit')
+                    : t('newDuel.challengeSubmit')
+                }
                 onPress={handleChallengeSubmit}
                 loading={isSubmittingChallenge || socketLoading}
                 disabled={isSubmittingChallenge || socketLoading}
@@ -1036,7 +1356,7 @@ export default function NewDuelScreen() {
               />
 
               <Button
-                title='Geri Dön'
+                title={t('newDuel.back')}
                 onPress={() => setChallengeStep('selectCourse')}
                 variant='outline'
                 disabled={isSubmittingChallenge || socketLoading}
@@ -1062,6 +1382,7 @@ export default function NewDuelScreen() {
     contextColor,
     getOpponentDisplayName,
     isBotChallenge,
+    isAsyncChallenge,
     selectedBot,
     challengeStep,
     showWheelForCourse,
@@ -1073,6 +1394,7 @@ export default function NewDuelScreen() {
     socketLoading,
     handleChallengeSubmit,
     error,
+    t,
   ]);
 
   // Loading state
@@ -1082,7 +1404,9 @@ export default function NewDuelScreen() {
         style={[styles.authLoadingContainer, { backgroundColor: contextColor }]}
       >
         <ActivityIndicator size='large' color={Colors.white} />
-        <Text style={dynamicStyles.loadingText}>Kimlik doğrulanıyor...</Text>
+        <Text style={dynamicStyles.loadingText}>
+          {t('newDuel.authenticating')}
+        </Text>
       </Container>
     );
   }
@@ -1238,6 +1562,24 @@ const styles = StyleSheet.create({
     color: Colors.gray[600],
     fontFamily: 'SecondaryFont-Regular',
   },
+  opponentTier: {
+    marginVertical: Spacing[1],
+  },
+  rankedHeader: {
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing[1],
+  },
+  rankedStatus: {
+    marginTop: Spacing[2],
+  },
+  leaderboardScopeRow: {
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  leaderboardScopeButton: {
+    flex: 1,
+  },
   badgeRow: {
     alignItems: 'center',
     marginTop: 4,
@@ -1368,6 +1710,36 @@ const styles = StyleSheet.create({
   summaryLabel: {
     fontWeight: 'bold',
   },
+  modeRow: {
+    gap: Spacing[2],
+    marginTop: Spacing[3],
+  },
+  modeOption: {
+    flex: 1,
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'center',
+    gap: Spacing[2],
+    paddingVertical: Spacing[2],
+    borderRadius: BorderRadius.md,
+    borderWidth: 1,
+    borderColor: 'rgba(255,255,255,0.3)',
+  },
+  modeOptionActive: {
+    borderColor: Colors.white,
+    backgroundColor: 'rgba(255,255,255,0.2)',
+  },
+  modeOptionText: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  modeHint: {
+    color: Colors.gray[200],
+    fontFamily: 'SecondaryFont-Regular',
+    fontSize: 12,
+    textAlign: 'center',
+    marginTop: Spacing[2],
+  },
   submitButton: {
     minHeight: 48,
     backgroundColor: Colors.vibrant.purple,
@@ -0,0 +1,533 @@
+// app/(tabs)/duels/replay/[id].tsx - Step through a finished duel round by round
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  EmptyState,
+  BookmarkButton,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../../components/ui';
+import QuestionReportModal from '../../../../components/ui/QuestionReportModal';
+import {
+  useDuelReplay,
+  duelReplayHelpers,
+  type DuelReplay,
+  type DuelReplayAnswer,
+  type DuelReplayRound,
+} from '../../../../src/hooks/useDuelReplayData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../../src/hooks/useTranslation';
+import { buildRoute } from '../../../../constants/routes';
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    headerScore: {
+      marginTop: Spacing[2],
+      alignItems: 'center',
+      gap: Spacing[2],
+    },
+    headerScoreText: {
+      fontSize: 20,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    roundHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      marginBottom: Spacing[3],
+    },
+    roundTitle: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    roundDots: {
+      flexWrap: 'wrap',
+      gap: Spacing[2],
+      marginBottom: Spacing[4],
+    },
+    roundDot: {
+      width: 28,
+      height: 28,
+      borderRadius: BorderRadius.full,
+      alignItems: 'center',
+      justifyContent: 'center',
+      borderWidth: 2,
+      borderColor: 'transparent',
+    },
+    roundDotActive: {
+      borderColor: colors.text,
+    },
+    roundDotText: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Bold',
+      color: Colors.white,
+    },
+    questionText: {
+      fontSize: 16,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      lineHeight: 23,
+      marginBottom: Spacing[3],
+    },
+    option: {
+      padding: Spacing[3],
+      borderRadius: BorderRadius.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      marginBottom: Spacing[2],
+    },
+    optionCorrect: {
+      borderColor: Colors.vibrant.green,
+      backgroundColor: 'rgba(16, 185, 129, 0.1)',
+    },
+    optionWrong: {
+      borderColor: Colors.vibrant.coral,
+      backgroundColor: 'rgba(239, 68, 68, 0.08)',
+    },
+    optionRow: {
+      alignItems: 'flex-start',
+      gap: Spacing[2],
+    },
+    optionKey: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    optionText: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+    },
+    pickRow: {
+      marginTop: Spacing[2],
+      gap: Spacing[2],
+    },
+    playersRow: {
+      gap: Spacing[3],
+    },
+    playerColumn: {
+      flex: 1,
+      alignItems: 'center',
+      gap: Spacing[1],
+    },
+    playerName: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    playerDetail: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      textAlign: 'center',
+    },
+    sectionTitle: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      marginBottom: Spacing[2],
+    },
+    bodyText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+      lineHeight: 21,
+    },
+    correctAnswerText: {
+      marginTop: Spacing[2],
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: Colors.vibrant.green,
+    },
+    actionsRow: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+      marginBottom: Spacing[3],
+    },
+    navButton: {
+      flex: 1,
+    },
+    bottomActions: {
+      gap: Spacing[3],
+      paddingBottom: Spacing[8],
+    },
+  });
+
+const getRoundColor = (round: DuelReplayRound): string => {
+  if (!round.userAnswer?.selectedAnswer) return Colors.gray[400];
+  return round.userAnswer.isCorrect
+    ? Colors.vibrant.green
+    : Colors.vibrant.coral;
+};
+
+const PlayerAnswer = memo<{
+  name: string;
+  answer: DuelReplayAnswer | null;
+  t: TFunction;
+}>(({ name, answer, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const hasAnswer = Boolean(answer?.selectedAnswer);
+
+  return (
+    <Column style={styles.playerColumn}>
+      <Text style={styles.playerName} numberOfLines={1}>
+        {name}
+      </Text>
+      <Badge
+        text={
+          !hasAnswer
+            ? t('duelReplay.noAnswer')
+            : answer?.isCorrect
+              ? t('duelReplay.correct')
+              : t('duelReplay.incorrect')
+        }
+        variant={
+          !hasAnswer ? 'warning' : answer?.isCorrect ? 'success' : 'error'
+        }
+      />
+      {hasAnswer && (
+        <Text style={styles.playerDetail}>
+          {t('duelReplay.picked', { answer: answer!.selectedAnswer! })}
+        </Text>
+      )}
+      {answer && (
+        <Text style={styles.playerDetail}>
+          {t('duelReplay.responseTime', {
+            time: duelReplayHelpers.formatResponseTime(answer.timeTaken),
+          })}
+        </Text>
+      )}
+    </Column>
+  );
+});
+
+const RoundView = memo<{
+  replay: DuelReplay;
+  round: DuelReplayRound;
+  opponentName: string;
+  onReport: () => void;
+  t: TFunction;
+}>(({ replay, round, opponentName, onReport, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const userPick = round.userAnswer?.selectedAnswer ?? null;
+  const opponentPick = round.opponentAnswer?.selectedAnswer ?? null;
+
+  return (
+    <>
+      <PlayfulCard style={styles.card} animated={false}>
+        <Row style={styles.roundHeader}>
+          <Text style={styles.roundTitle}>
+            {t('duelReplay.round', {
+              current: round.questionIndex + 1,
+              total: replay.rounds.length,
+            })}
+          </Text>
+          {round.questionId !== null && (
+            <BookmarkButton
+              question={{
+                question_id: round.questionId,
+                question_text: round.questionText,
+                options: round.options,
+                correct_answer: round.correctAnswer,
+                explanation: round.explanation,
+                test_id: replay.testId,
+                course_id: replay.courseId,
+                course_title: replay.courseTitle,
+              }}
+              showLabel
+              size={18}
+            />
+          )}
+        </Row>
+
+        <Text style={styles.questionText}>{round.questionText}</Text>
+
+        {Object.entries(round.options).map(([key, value]) => {
+          const isCorrect = key === round.correctAnswer;
+          const isPicked = key === userPick || key === opponentPick;
+
+          return (
+            <View
+              key={key}
+              style={[
+                styles.option,
+                isCorrect && styles.optionCorrect,
+                !isCorrect && isPicked && styles.optionWrong,
+              ]}
+            >
+              <Row style={styles.optionRow}>
+                <Text style={styles.optionKey}>{key})</Text>
+                <Text style={styles.optionText}>{value}</Text>
+                {isCorrect && (
+                  <FontAwesome
+                    name='check-circle'
+                    size={18}
+                    color={Colors.vibrant.green}
+                  />
+                )}
+              </Row>
+              {isPicked && (
+                <Row style={styles.pickRow}>
+                  {key === userPick && (
+                    <Badge text={t('duelReplay.you')} variant='primary' />
+                  )}
+                  {key === opponentPick && (
+                    <Badge text={opponentName} variant='secondary' />
+                  )}
+                </Row>
+              )}
+            </View>
+          );
+        })}
+      </PlayfulCard>
+
+      <PlayfulCard style={styles.card} animated={false}>
+        <Row style={styles.playersRow}>
+          <PlayerAnswer
+            name={t('duelReplay.you')}
+            answer={round.userAnswer}
+            t={t}
+          />
+          <PlayerAnswer
+            name={opponentName}
+            answer={round.opponentAnswer}
+            t={t}
+          />
+        </Row>
+      </PlayfulCard>
+
+      <PlayfulCard style={styles.card} animated={false}>
+        <Text style={styles.sectionTitle}>{t('duelReplay.explanation')}</Text>
+        {round.explanation ? (
+          <Text style={styles.bodyText}>{round.explanation}</Text>
+        ) : null}
+        <Text style={styles.correctAnswerText}>
+          {t('duelReplay.correctAnswer', {
+            answer: round.options[round.correctAnswer]
+              ? `${round.correctAnswer}) ${round.options[round.correctAnswer]}`
+              : round.correctAnswer,
+          })}
+        </Text>
+      </PlayfulCard>
+
+      {round.questionId !== null && (
+        <Button
+          title={t('duelReplay.reportQuestion')}
+          variant='outline'
+          onPress={onReport}
+          icon='flag'
+          style={{ marginBottom: Spacing[3] }}
+        />
+      )}
+    </>
+  );
+});
+
+export default function DuelReplayScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const duelId = Number(id);
+
+  const { replay, isLoading } = useDuelReplay(duelId);
+  const [roundIndex, setRoundIndex] = useState(0);
+  const [showReportModal, setShowReportModal] = useState(false);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('duelHistory'));
+    }
+  }, [router]);
+
+  if (isLoading) {
+    return (
+      <Container style={styles.centerContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+      </Container>
+    );
+  }
+
+  if (!replay || replay.rounds.length === 0) {
+    return (
+      <Container style={styles.centerContainer}>
+        <EmptyState
+          icon='film'
+          title={t('duelReplay.notFoundTitle')}
+          message={t('duelReplay.notFoundMessage')}
+          actionButton={{
+            title: t('duelReplay.backToHistory'),
+            onPress: handleBack,
+          }}
+        />
+      </Container>
+    );
+  }
+
+  const opponentName = replay.opponentName
+    ? `${replay.opponentName}${replay.isBotOpponent ? ' 🤖' : ''}`
+    : t('duelReplay.unknownOpponent');
+  const safeIndex = Math.min(roundIndex, replay.rounds.length - 1);
+  const round = replay.rounds[safeIndex];
+  const correctCount = replay.rounds.filter(
+    (entry) => entry.userAnswer?.isCorrect,
+  ).length;
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('duelReplay.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('duelReplay.subtitle', { name: opponentName })}
+          </Paragraph>
+          <Row style={styles.headerScore}>
+            <Text style={styles.headerScoreText}>
+              {replay.userScore} - {replay.opponentScore}
+            </Text>
+            <Badge
+              text={t('duelReplay.correctCount', {
+                correct: correctCount,
+                total: replay.rounds.length,
+              })}
+              variant='info'
+            />
+          </Row>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {/* Round picker */}
+      <Row style={styles.roundDots}>
+        {replay.rounds.map((entry, index) => (
+          <TouchableOpacity
+            key={entry.questionIndex}
+            style={[
+              styles.roundDot,
+              { backgroundColor: getRoundColor(entry) },
+              index === safeIndex && styles.roundDotActive,
+            ]}
+            onPress={() => setRoundIndex(index)}
+          >
+            <Text style={styles.roundDotText}>{entry.questionIndex + 1}</Text>
+          </TouchableOpacity>
+        ))}
+      </Row>
+
+      <RoundView
+        replay={replay}
+        round={round}
+        opponentName={opponentName}
+        onReport={() => setShowReportModal(true)}
+        t={t}
+      />
+
+      <View style={styles.bottomActions}>
+        <Row style={styles.actionsRow}>
+          <Button
+            title={t('duelReplay.previous')}
+            variant='secondary'
+            onPress={() => setRoundIndex(safeIndex - 1)}
+            disabled={safeIndex === 0}
+            icon='chevron-left'
+            style={styles.navButton}
+          />
+          <Button
+            title={t('duelReplay.next')}
+            variant='primary'
+            onPress={() => setRoundIndex(safeIndex + 1)}
+            disabled={safeIndex === replay.rounds.length - 1}
+            icon='chevron-right'
+            style={styles.navButton}
+          />
+        </Row>
+        <Button
+          title={t('duelReplay.backToHistory')}
+          variant='outline'
+          onPress={handleBack}
+          icon='arrow-left'
+        />
+      </View>
+
+      {round.questionId !== null && (
+        <QuestionReportModal
+          isVisible={showReportModal}
+          onClose={() => setShowReportModal(false)}
+          questionId={round.questionId}
+          questionText={round.questionText}
+          questionOptions={round.options}
+          correctAnswer={round.correctAnswer}
+          userAnswer={round.userAnswer?.selectedAnswer ?? null}
+          isCorrect={Boolean(round.userAnswer?.isCorrect)}
+        />
+      )}
+    </ScrollView>
+  );
+}
@@ -0,0 +1,657 @@
+// app/(tabs)/duels/tournaments/[id].tsx - Bracket progression and champion celebration
+
+import React, { useState, useEffect, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  CelebrationModal,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../../components/ui';
+import {
+  useTournament,
+  useTournamentMutations,
+  tournamentHelpers,
+} from '../../../../src/hooks/useTournamentData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../../src/hooks/useTranslation';
+import { useAuth } from '../../../../stores/appStore';
+import { buildRoute } from '../../../../constants/routes';
+import type { Tournament, TournamentMatch } from '../../../../src/types/models';
+
+// Height reserved per first-round match; later rounds spread over the same column height
+const MATCH_SLOT_HEIGHT = 112;
+const ROUND_COLUMN_WIDTH = 200;
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    headerMeta: {
+      marginTop: Spacing[2],
+      alignItems: 'center',
+      flexWrap: 'wrap',
+      gap: Spacing[2],
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    participantRow: {
+      alignItems: 'center',
+      gap: Spacing[2],
+      paddingVertical: Spacing[1],
+    },
+    participantName: {
+      flex: 1,
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+    },
+    participantNote: {
+      marginTop: Spacing[2],
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textMuted,
+    },
+    actions: {
+      gap: Spacing[3],
+      marginBottom: Spacing[4],
+    },
+    yourMatchText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+      marginBottom: Spacing[3],
+    },
+    bracketContent: {
+      paddingBottom: Spacing[2],
+    },
+    roundColumn: {
+      width: ROUND_COLUMN_WIDTH,
+      marginRight: Spacing[3],
+    },
+    roundTitle: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+      textAlign: 'center',
+      marginBottom: Spacing[2],
+    },
+    roundMatches: {
+      justifyContent: 'space-around',
+    },
+    matchCard: {
+      borderRadius: BorderRadius.lg,
+      borderWidth: 1,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      overflow: 'hidden',
+    },
+    matchCardOwn: {
+      borderColor: colors.primary,
+      borderWidth: 2,
+    },
+    matchPlayer: {
+      alignItems: 'center',
+      gap: Spacing[2],
+      paddingHorizontal: Spacing[3],
+      paddingVertical: Spacing[2],
+    },
+    matchPlayerDivider: {
+      borderTopWidth: 1,
+      borderTopColor: colors.divider,
+    },
+    matchPlayerWinner: {
+      backgroundColor: 'rgba(0, 214, 143, 0.12)',
+    },
+    matchPlayerName: {
+      flex: 1,
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.text,
+    },
+    matchPlayerNameWinner: {
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+    },
+    matchPlayerNameLoser: {
+      color: colors.placeholder,
+      textDecorationLine: 'line-through',
+    },
+    matchPlayerPending: {
+      color: colors.placeholder,
+      fontStyle: 'italic',
+    },
+    matchPlayButton: {
+      margin: Spacing[2],
+    },
+    championCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+      alignItems: 'center',
+    },
+    championName: {
+      marginTop: Spacing[2],
+      fontSize: 20,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      textAlign: 'center',
+    },
+    championLabel: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.icon,
+      textAlign: 'center',
+    },
+    celebrationText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Regular',
+      color: Colors.white,
+      textAlign: 'center',
+    },
+  });
+
+// Memoized Bracket Match
+const BracketMatch = memo<{
+  tournament: Tournament;
+  match: TournamentMatch;
+  userId?: number;
+  onPlay: (duelId: number) => void;
+  t: TFunction;
+}>(({ tournament, match, userId, onPlay, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const isOwn =
+    !!userId && (match.player1_id === userId || match.player2_id === userId);
+  const canPlay = isOwn && !!match.duel_id && match.status !== 'completed';
+
+  const renderPlayer = (playerId: number | null, isSecond: boolean) => {
+    const name = tournamentHelpers.getParticipantName(tournament, playerId);
+    const isWinner = !!match.winner_id && match.winner_id === playerId;
+    const isLoser = !!match.winner_id && !!playerId && !isWinner;
+
+    return (
+      <Row
+        style={[
+          styles.matchPlayer,
+          isSecond && styles.matchPlayerDivider,
+          isWinner && styles.matchPlayerWinner,
+        ]}
+      >
+        <Text
+          style={[
+            styles.matchPlayerName,
+            !name && styles.matchPlayerPending,
+            isWinner && styles.matchPlayerNameWinner,
+            isLoser && styles.matchPlayerNameLoser,
+          ]}
+          numberOfLines={1}
+        >
+          {name
+            ? `${name}${playerId === userId ? ` (${t('tournaments.you')})` : ''}`
+            : t('tournaments.toBeDecided')}
+        </Text>
+        {isWinner && (
+          <FontAwesome name='check' size={12} color={Colors.vibrant.green} />
+        )}
+      </Row>
+    );
+  };
+
+  return (
+    <View style={[styles.matchCard, isOwn && styles.matchCardOwn]}>
+      {renderPlayer(match.player1_id, false)}
+      {renderPlayer(match.player2_id, true)}
+      {canPlay && (
+        <Button
+          title={t('tournaments.play')}
+          variant='primary'
+          size='small'
+          icon='play'
+          onPress={() => onPlay(match.duel_id as number)}
+          style={styles.matchPlayButton}
+        />
+      )}
+    </View>
+  );
+});
+
+// Memoized Bracket - one column per round, scrolled sideways
+const Bracket = memo<{
+  tournament: Tournament;
+  userId?: number;
+  onPlay: (duelId: number) => void;
+  t: TFunction;
+}>(({ tournament, userId, onPlay, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const rounds = tournamentHelpers.getRounds(tournament);
+  const columnHeight = (tournament.size / 2) * MATCH_SLOT_HEIGHT;
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.bracketContent}
+    >
+      {rounds.map(({ round, matches }) => (
+        <View key={round} style={styles.roundColumn}>
+          <Text style={styles.roundTitle}>
+            {tournamentHelpers.getRoundLabel(round, rounds.length)}
+          </Text>
+          <View style={[styles.roundMatches, { height: columnHeight }]}>
+            {matches.map((match) => (
+              <BracketMatch
+                key={match.match_id}
+                tournament={tournament}
+                match={match}
+                userId={userId}
+                onPlay={onPlay}
+                t={t}
+              />
+            ))}
+          </View>
+        </View>
+      ))}
+    </ScrollView>
+  );
+});
+
+export default function TournamentScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const { id } = useLocalSearchParams<{ id: string }>();
+  const tournamentId = Number(id);
+
+  const {
+    data: tournament,
+    isLoading,
+    refetch,
+    isRefetching,
+  } = useTournament(tournamentId);
+  const { joinTournament, leaveTournament, startTournament, isUpdating } =
+    useTournamentMutations();
+
+  const [error, setError] = useState<string | null>(null);
+  const [showCelebration, setShowCelebration] = useState(false);
+  const [celebratedId, setCelebratedId] = useState<number | null>(null);
+
+  const championId = tournament
+    ? tournamentHelpers.getChampionId(tournament)
+    : null;
+  const championName = useMemo(
+    () =>
+      tournament
+        ? tournamentHelpers.getParticipantName(tournament, championId)
+        : null,
+    [tournament, championId],
+  );
+
+  // Celebrate once per champion, when the final result comes in
+  useEffect(() => {
+    if (championId && championId !== celebratedId) {
+      setCelebratedId(championId);
+      setShowCelebration(true);
+    }
+  }, [championId, celebratedId]);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('tournaments'));
+    }
+  }, [router]);
+
+  const handlePlay = useCallback(
+    (duelId: number) => {
+      router.push(buildRoute('duel', { id: duelId }));
+    },
+    [router],
+  );
+
+  const runAction = useCallback(
+    async (action: () => Promise<unknown>) => {
+      setError(null);
+      try {
+        await action();
+      } catch (actionError) {
+        setError(
+          actionError instanceof Error
+            ? actionError.message
+            : t('tournaments.actionFailed'),
+        );
+      }
+    },
+    [t],
+  );
+
+  if (isLoading) {
+    return (
+      <Container style={styles.centerContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+      </Container>
+    );
+  }
+
+  if (!tournament) {
+    return (
+      <Container style={styles.centerContainer}>
+        <EmptyState
+          icon='trophy'
+          title={t('tournaments.notFoundTitle')}
+          message={t('tournaments.notFoundMessage')}
+          actionButton={{
+            title: t('tournaments.backToList'),
+            onPress: handleBack,
+          }}
+        />
+      </Container>
+    );
+  }
+
+  const userId = user?.userId;
+  const isJoined = tournamentHelpers.isParticipant(tournament, userId);
+  const isOrganizer = !!userId && tournament.organizer_id === userId;
+  const isFull = tournament.participants.length >= tournament.size;
+  const playableMatch = userId
+    ? tournamentHelpers.getPlayableMatch(tournament, userId)
+    : null;
+  const isEliminated =
+    !!userId && tournamentHelpers.isEliminated(tournament, userId);
+  const opponentName = playableMatch
+    ? tournamentHelpers.getParticipantName(
+        tournament,
+        playableMatch.player1_id === userId
+          ? playableMatch.player2_id
+          : playableMatch.player1_id,
+      )
+    : null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {tournament.name}
+            </PlayfulTitle>
+            {tournament.course_title ? (
+              <Paragraph style={styles.headerSubtitle}>
+                {tournament.course_title}
+              </Paragraph>
+            ) : null}
+            <Row style={styles.headerMeta}>
+              <Badge
+                text={t('tournaments.playerCount', {
+                  count: tournament.participants.length,
+                  size: tournament.size,
+                })}
+                variant='info'
+                size='sm'
+              />
+              {isOrganizer && (
+                <Badge
+                  text={t('tournaments.organizer')}
+                  variant='primary'
+                  size='sm'
+                />
+              )}
+              {isEliminated && (
+                <Badge
+                  text={t('tournaments.eliminated')}
+                  variant='error'
+                  size='sm'
+                />
+              )}
+            </Row>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {error && (
+          <Alert
+            type='error'
+            message={error}
+            dismissible
+            onDismiss={() => setError(null)}
+            style={styles.statusAlert}
+          />
+        )}
+
+        {/* Champion */}
+        {championName && (
+          <SlideInElement delay={50}>
+            <PlayfulCard style={styles.championCard} animated={false}>
+              <FontAwesome
+                name='trophy'
+                size={36}
+                color={Colors.vibrant.yellow}
+              />
+              <Text style={styles.championName}>{championName}</Text>
+              <Text style={styles.championLabel}>
+                {t('tournaments.champion')}
+              </Text>
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        {/* Registration */}
+        {tournament.status === 'registering' && (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('tournaments.participants')}
+              </Text>
+              {tournament.participants.map((participant, index) => (
+                <Row key={participant.user_id} style={styles.participantRow}>
+                  <FontAwesome
+                    name='user'
+                    size={14}
+                    color={colors.placeholder}
+                  />
+                  <Text style={styles.participantName} numberOfLines={1}>
+                    {index + 1}. {participant.username}
+                  </Text>
+                  {participant.user_id === tournament.organizer_id && (
+                    <FontAwesome
+                      name='star'
+                      size={12}
+                      color={Colors.vibrant.yellow}
+                    />
+                  )}
+                </Row>
+              ))}
+              <Text style={styles.participantNote}>
+                {isFull
+                  ? isOrganizer
+                    ? t('tournaments.readyToStart')
+                    : t('tournaments.waitingForOrganizer')
+                  : t('tournaments.waitingForPlayers', {
+                      count: tournament.size - tournament.participants.length,
+                    })}
+              </Text>
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        <View style={styles.actions}>
+          {tournament.status === 'registering' && !isJoined && !isFull && (
+            <Button
+              title={t('tournaments.join')}
+              variant='primary'
+              icon='sign-in'
+              onPress={() =>
+                runAction(() => joinTournament(tournament.tournament_id))
+              }
+              loading={isUpdating}
+              disabled={isUpdating}
+            />
+          )}
+          {tournament.status === 'registering' && isOrganizer && (
+            <Button
+              title={t('tournaments.start')}
+              variant='success'
+              icon='play'
+              onPress={() => runAction(() => startTournament(tournament))}
+              loading={isUpdating}
+              disabled={isUpdating || !isFull}
+            />
+          )}
+          {tournament.status === 'registering' && isJoined && !isOrganizer && (
+            <Button
+              title={t('tournaments.leave')}
+              variant='outline'
+              icon='sign-out'
+              onPress={() =>
+                runAction(() => leaveTournament(tournament.tournament_id))
+              }
+              disabled={isUpdating}
+            />
+          )}
+        </View>
+
+        {/* Your next match */}
+        {tournament.status === 'in_progress' && playableMatch && (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('tournaments.yourMatch')}
+              </Text>
+              <Text style={styles.yourMatchText}>
+                {opponentName
+                  ? t('tournaments.yourMatchAgainst', {
+                      round: tournamentHelpers.getRoundLabel(
+                        playableMatch.round,
+                        tournamentHelpers.getRoundCount(tournament.size),
+                      ),
+                      name: opponentName,
+                    })
+                  : t('tournaments.waitingForOpponent')}
+              </Text>
+              {playableMatch.duel_id && (
+                <Button
+                  title={t('tournaments.play')}
+                  variant='primary'
+                  icon='play'
+                  onPress={() => handlePlay(playableMatch.duel_id as number)}
+                />
+              )}
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        {/* Bracket */}
+        {tournament.status !== 'registering' && (
+          <SlideInElement delay={150}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('tournaments.bracket')}
+              </Text>
+              <Bracket
+                tournament={tournament}
+                userId={userId}
+                onPlay={handlePlay}
+                t={t}
+              />
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        <Button
+          title={t('tournaments.backToList')}
+          variant='outline'
+          onPress={handleBack}
+          icon='arrow-left'
+        />
+      </ScrollView>
+
+      {/* Champion Celebration */}
+      {championName && (
+        <CelebrationModal
+          visible={showCelebration}
+          onClose={() => setShowCelebration(false)}
+          title={t('tournaments.championTitle')}
+          celebrationType='victory'
+          achievement={championName}
+          autoClose={6000}
+          animated
+        >
+          <Text style={styles.celebrationText}>
+            {championId === userId
+              ? t('tournaments.championYou')
+              : t('tournaments.championMessage', { name: championName })}
+          </Text>
+        </CelebrationModal>
+      )}
+    </View>
+  );
+}
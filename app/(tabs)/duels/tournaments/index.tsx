@@ -0,0 +1,434 @@
+// app/(tabs)/duels/tournaments/index.tsx - Browse, create and join bracket tournaments
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  Input,
+  Alert,
+  EmptyState,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../../components/ui';
+import {
+  useTournaments,
+  useTournamentMutations,
+  tournamentHelpers,
+  TOURNAMENT_SIZES,
+} from '../../../../src/hooks/useTournamentData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../../src/hooks/useTranslation';
+import { useAuth, usePreferredCourse } from '../../../../stores/appStore';
+import { buildRoute } from '../../../../constants/routes';
+import type {
+  Tournament,
+  TournamentSize,
+  TournamentStatus,
+} from '../../../../src/types/models';
+import type { TranslationKey } from '../../../../localization';
+
+const TOURNAMENT_NAME_MAX_LENGTH = 40;
+
+const STATUS_BADGES: Record<
+  TournamentStatus,
+  { key: TranslationKey; variant: 'info' | 'warning' | 'success' }
+> = {
+  registering: { key: 'tournaments.statusRegistering', variant: 'info' },
+  in_progress: { key: 'tournaments.statusInProgress', variant: 'warning' },
+  completed: { key: 'tournaments.statusCompleted', variant: 'success' },
+};
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      flex: 1,
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[3],
+    },
+    fieldLabel: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+      marginBottom: Spacing[2],
+    },
+    courseText: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      marginBottom: Spacing[3],
+    },
+    sizeRow: {
+      gap: Spacing[2],
+      marginBottom: Spacing[4],
+    },
+    sizeOption: {
+      flex: 1,
+      paddingVertical: Spacing[3],
+      borderRadius: BorderRadius.lg,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+      alignItems: 'center',
+    },
+    sizeOptionActive: {
+      borderColor: colors.primary,
+      backgroundColor: 'rgba(108, 92, 231, 0.08)',
+    },
+    sizeOptionText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    sizeOptionTextActive: {
+      color: colors.primary,
+    },
+    field: {
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    tournamentHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+      marginBottom: Spacing[2],
+    },
+    tournamentName: {
+      flex: 1,
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    tournamentMeta: {
+      alignItems: 'center',
+      gap: Spacing[2],
+      marginBottom: Spacing[3],
+    },
+    tournamentMetaText: {
+      fontSize: 12,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+    },
+    tournamentActions: {
+      gap: Spacing[2],
+    },
+    tournamentAction: {
+      flex: 1,
+    },
+  });
+
+// Memoized Tournament Card
+const TournamentCard = memo<{
+  tournament: Tournament;
+  userId?: number;
+  isUpdating: boolean;
+  onOpen: (tournament: Tournament) => void;
+  onJoin: (tournament: Tournament) => void;
+  t: TFunction;
+}>(({ tournament, userId, isUpdating, onOpen, onJoin, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const status = STATUS_BADGES[tournament.status];
+  const isJoined = tournamentHelpers.isParticipant(tournament, userId);
+  const isFull = tournament.participants.length >= tournament.size;
+  const canJoin = tournament.status === 'registering' && !isJoined && !isFull;
+
+  return (
+    <PlayfulCard style={styles.card} animated={false}>
+      <Row style={styles.tournamentHeader}>
+        <Text style={styles.tournamentName} numberOfLines={1}>
+          {tournament.name}
+        </Text>
+        <Badge text={t(status.key)} variant={status.variant} size='sm' />
+      </Row>
+      <Row style={styles.tournamentMeta}>
+        <FontAwesome name='users' size={12} color={colors.textMuted} />
+        <Text style={styles.tournamentMetaText}>
+          {t('tournaments.playerCount', {
+            count: tournament.participants.length,
+            size: tournament.size,
+          })}
+        </Text>
+        {tournament.course_title ? (
+          <Text style={styles.tournamentMetaText} numberOfLines={1}>
+            · {tournament.course_title}
+          </Text>
+        ) : null}
+        {isJoined && (
+          <Badge text={t('tournaments.joined')} variant='success' size='sm' />
+        )}
+      </Row>
+      <Row style={styles.tournamentActions}>
+        {canJoin && (
+          <Button
+            title={t('tournaments.join')}
+            variant='primary'
+            size='small'
+            icon='sign-in'
+            onPress={() => onJoin(tournament)}
+            disabled={isUpdating}
+            style={styles.tournamentAction}
+          />
+        )}
+        <Button
+          title={t('tournaments.viewBracket')}
+          variant='outline'
+          size='small'
+          icon='sitemap'
+          onPress={() => onOpen(tournament)}
+          style={styles.tournamentAction}
+        />
+      </Row>
+    </PlayfulCard>
+  );
+});
+
+export default function TournamentsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { user } = useAuth();
+  const { preferredCourse } = usePreferredCourse();
+  const courseId = preferredCourse?.course_id;
+
+  const {
+    data: tournaments = [],
+    isLoading,
+    error: loadError,
+    refetch,
+    isRefetching,
+  } = useTournaments(courseId);
+  const { createTournament, joinTournament, isCreating, isUpdating } =
+    useTournamentMutations();
+
+  const [name, setName] = useState('');
+  const [size, setSize] = useState<TournamentSize>(8);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleOpen = useCallback(
+    (tournament: Tournament) => {
+      router.push(buildRoute('tournament', { id: tournament.tournament_id }));
+    },
+    [router],
+  );
+
+  const handleCreate = useCallback(async () => {
+    setError(null);
+    if (!courseId) {
+      setError(t('tournaments.selectCourseFirst'));
+      return;
+    }
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      setError(t('tournaments.nameRequired'));
+      return;
+    }
+
+    try {
+      const tournament = await createTournament({
+        name: trimmedName,
+        courseId,
+        size,
+      });
+      setName('');
+      handleOpen(tournament);
+    } catch (createError) {
+      setError(
+        createError instanceof Error
+          ? createError.message
+          : t('tournaments.createFailed'),
+      );
+    }
+  }, [courseId, name, size, createTournament, handleOpen, t]);
+
+  const handleJoin = useCallback(
+    async (tournament: Tournament) => {
+      setError(null);
+      try {
+        await joinTournament(tournament.tournament_id);
+      } catch (joinError) {
+        setError(
+          joinError instanceof Error
+            ? joinError.message
+            : t('tournaments.joinFailed'),
+        );
+      }
+    },
+    [joinTournament, t],
+  );
+
+  return (
+    <ScrollView
+      style={styles.container}
+      contentContainerStyle={styles.scrollContent}
+      keyboardShouldPersistTaps='handled'
+      refreshControl={
+        <RefreshControl refreshing={isRefetching} onRefresh={refetch} />
+      }
+    >
+      {/* Header */}
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('tournaments.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('tournaments.subtitle')}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {error && (
+        <Alert
+          type='error'
+          message={error}
+          dismissible
+          onDismiss={() => setError(null)}
+          style={styles.statusAlert}
+        />
+      )}
+
+      {/* Create */}
+      <SlideInElement delay={100}>
+        <PlayfulCard style={styles.card} animated={false}>
+          <Text style={styles.sectionTitle}>{t('tournaments.create')}</Text>
+          <Text style={styles.courseText}>
+            {preferredCourse
+              ? t('tournaments.courseLabel', { course: preferredCourse.title })
+              : t('tournaments.selectCourseFirst')}
+          </Text>
+          <View style={styles.field}>
+            <Input
+              label={t('tournaments.nameLabel')}
+              value={name}
+              onChangeText={(value) =>
+                setName(value.slice(0, TOURNAMENT_NAME_MAX_LENGTH))
+              }
+              placeholder={t('tournaments.namePlaceholder')}
+              leftIcon='trophy'
+            />
+          </View>
+          <Text style={styles.fieldLabel}>{t('tournaments.sizeLabel')}</Text>
+          <Row style={styles.sizeRow}>
+            {TOURNAMENT_SIZES.map((option) => (
+              <TouchableOpacity
+                key={option}
+                style={[
+                  styles.sizeOption,
+                  size === option && styles.sizeOptionActive,
+                ]}
+                onPress={() => setSize(option)}
+              >
+                <Text
+                  style={[
+                    styles.sizeOptionText,
+                    size === option && styles.sizeOptionTextActive,
+                  ]}
+                >
+                  {t('tournaments.sizeOption', { count: option })}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </Row>
+          <Button
+            title={t('tournaments.createSubmit')}
+            variant='primary'
+            onPress={handleCreate}
+            loading={isCreating}
+            disabled={isCreating || !courseId}
+            icon='plus'
+          />
+        </PlayfulCard>
+      </SlideInElement>
+
+      {/* List */}
+      <Column>
+        {isLoading ? (
+          <View style={styles.centerContainer}>
+            <ActivityIndicator size='large' color={Colors.white} />
+          </View>
+        ) : loadError ? (
+          <Alert
+            type='error'
+            message={t('tournaments.loadFailed')}
+            style={styles.statusAlert}
+          />
+        ) : tournaments.length === 0 ? (
+          <Container style={styles.centerContainer}>
+            <EmptyState
+              icon='trophy'
+              title={t('tournaments.emptyTitle')}
+              message={t('tournaments.emptyMessage')}
+            />
+          </Container>
+        ) : (
+          tournaments.map((tournament) => (
+            <TournamentCard
+              key={tournament.tournament_id}
+              tournament={tournament}
+              userId={user?.userId}
+              isUpdating={isUpdating}
+              onOpen={handleOpen}
+              onJoin={handleJoin}
+              t={t}
+            />
+          ))
+        )}
+      </Column>
+    </ScrollView>
+  );
+}
@@ -15,6 +15,7 @@ import {
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../constants/routes';
 import {
   PlayfulCard,
   EmptyState,
@@ -27,6 +28,8 @@ import {
   StudyChronometer,
   CourseSelectionModal,
   Button,
+  OfflineBanner,
+  useThemeColors,
 } from '../../components/ui';
 
 // 🚀 USING ZUSTAND STORE (replaces context imports)
@@ -43,10 +46,19 @@ import {
   CourseWithProgress,
   EditingCourseDetails,
 } from '../../src/types/models';
-import { Colors, Spacing } from '../../constants/theme';
+import { Colors, DarkColors, Spacing } from '../../constants/theme';
 import { studyService } from '../../src/api';
+import { isQueuedRequestError } from '../../src/api/apiClient';
 
 import { useAppData, useUserData } from '../../src/hooks/useAppData';
+import { useDailyRecommendations } from '../../src/hooks/useStudyPlanData';
+import { useNoteOfTheDay } from '../../src/hooks/useCoachingData';
+import {
+  useExamPacing,
+  EXAM_SESSION_LABELS,
+} from '../../src/hooks/useExamPlannerData';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import { translate } from '../../localization';
 
 import {
   OptimizedCourseAnalytics,
@@ -109,6 +121,91 @@ const styles = StyleSheet.create({
     width: '100%',
     alignSelf: 'stretch',
   },
+  planShortcut: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    borderRadius: 16,
+    padding: Spacing[3],
+    marginTop: Spacing[3],
+  },
+  planShortcutIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: 18,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing[3],
+  },
+  planShortcutInfo: {
+    flex: 1,
+  },
+  planShortcutTitle: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[900],
+  },
+  planShortcutSubtitle: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginTop: 2,
+  },
+  noteOfDay: {
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    borderRadius: 16,
+    padding: Spacing[3],
+    marginTop: Spacing[3],
+  },
+  noteOfDayHeader: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    marginBottom: Spacing[2],
+  },
+  noteOfDayLabel: {
+    flex: 1,
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+    marginLeft: Spacing[2],
+  },
+  noteOfDayTitle: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[900],
+    marginBottom: 2,
+  },
+  noteOfDayText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    lineHeight: 19,
+  },
+  examPacingSummary: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    marginBottom: Spacing[2],
+  },
+  examPacingRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing[1],
+  },
+  examPacingCourse: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    marginRight: Spacing[2],
+  },
+  examPacingHours: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+  },
+  examPacingWarning: {
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.vibrant.coral,
+    marginLeft: Spacing[2],
+  },
   loadingContainer: {
     alignItems: 'center',
     justifyContent: 'center',
@@ -183,6 +280,9 @@ const styles = StyleSheet.create({
     fontFamily: 'SecondaryFont-Bold',
     marginBottom: Spacing[3],
   },
+  topicChecklistButton: {
+    marginBottom: Spacing[4],
+  },
   toggleButton: {
     padding: Spacing[3],
     borderRadius: 8,
@@ -229,9 +329,9 @@ const styles = StyleSheet.create({
 
 // 🚀 OPTIMIZED: Moved utility functions outside component (prevents recreation)
 const getTextColor = (isDark: boolean): string =>
-  isDark ? Colors.gray[900] : Colors.gray[900];
+  isDark ? DarkColors.text : Colors.gray[900];
 const getSecondaryTextColor = (isDark: boolean): string =>
-  isDark ? Colors.gray[700] : Colors.gray[700];
+  isDark ? DarkColors.textSecondary : Colors.gray[700];
 const getWhiteTextColor = (isDark: boolean): string =>
   isDark ? Colors.white : Colors.white;
 const getTertiaryTextColor = (isDark: boolean): string =>
@@ -266,10 +366,10 @@ const getDifficultyColor = (rating: number): string => {
 };
 
 const getDifficultyText = (rating: number): string => {
-  if (rating >= 4) return 'Çok Zor';
-  if (rating >= 3) return 'Zor';
-  if (rating >= 2) return 'Orta';
-  return 'Kolay';
+  if (rating >= 4) return translate('difficulty.veryHard');
+  if (rating >= 3) return translate('difficulty.hard');
+  if (rating >= 2) return translate('difficulty.medium');
+  return translate('difficulty.easy');
 };
 
 const getIconForCourse = (title: string): string => {
@@ -292,6 +392,260 @@ const getIconForCourse = (title: string): string => {
 const MemoizedPlayfulCard = memo(PlayfulCard);
 const MemoizedStudyChronometer = memo(StudyChronometer);
 
+// 📅 Today's study plan agenda shortcut
+const DailyPlanShortcut = memo(
+  ({ color, onPress }: { color: string; onPress: () => void }) => {
+    const { t } = useTranslation();
+    const { colors } = useThemeColors();
+    const { data: recommendations = [] } = useDailyRecommendations();
+
+    const totalMinutes = recommendations.reduce(
+      (total, item) => total + (item.recommendedMinutes || 0),
+      0,
+    );
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.planShortcut,
+          { backgroundColor: colors.surfaceTranslucent },
+        ]}
+        onPress={onPress}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.planShortcutIcon, { backgroundColor: color }]}>
+          <FontAwesome name='calendar' size={16} color={Colors.white} />
+        </View>
+        <View style={styles.planShortcutInfo}>
+          <Text style={[styles.planShortcutTitle, { color: colors.text }]}>
+            {t('home.todaysPlan')}
+          </Text>
+          <Text
+            style={[styles.planShortcutSubtitle, { color: colors.icon }]}
+            numberOfLines={1}
+          >
+            {recommendations.length > 0
+              ? t('home.planSummary', {
+                  topics: recommendations.length,
+                  minutes: totalMinutes,
+                  topic:
+                    recommendations[0].topicName || t('home.recommendedTopic'),
+                })
+              : t('home.createPlanHint')}
+          </Text>
+        </View>
+        <FontAwesome name='chevron-right' size={14} color={colors.textMuted} />
+      </TouchableOpacity>
+    );
+  },
+);
+
+// 📈 Shortcut to the study analytics dashboard
+const AnalyticsShortcut = memo(
+  ({ color, onPress }: { color: string; onPress: () => void }) => {
+    const { t } = useTranslation();
+    const { colors } = useThemeColors();
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.planShortcut,
+          { backgroundColor: colors.surfaceTranslucent },
+        ]}
+        onPress={onPress}
+        activeOpacity={0.8}
+      >
+        <View style={[styles.planShortcutIcon, { backgroundColor: color }]}>
+          <FontAwesome name='line-chart' size={16} color={Colors.white} />
+        </View>
+        <View style={styles.planShortcutInfo}>
+          <Text style={[styles.planShortcutTitle, { color: colors.text }]}>
+            {t('home.analyticsTitle')}
+          </Text>
+          <Text
+            style={[styles.planShortcutSubtitle, { color: colors.icon }]}
+            numberOfLines={1}
+          >
+            {t('home.analyticsHint')}
+          </Text>
+        </View>
+        <FontAwesome name='chevron-right' size={14} color={colors.textMuted} />
+      </TouchableOpacity>
+    );
+  },
+);
+
+// 🧭 Coaching note (or motivational message) of the day
+const NoteOfTheDayCard = memo(
+  ({ color, onPress }: { color: string; onPress: () => void }) => {
+    const { t } = useTranslation();
+    const { colors } = useThemeColors();
+    const { item } = useNoteOfTheDay();
+
+    if (!item) return null;
+
+    const isNote = item.kind === 'note';
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.noteOfDay,
+          { backgroundColor: colors.surfaceTranslucent },
+        ]}
+        onPress={onPress}
+        activeOpacity={0.8}
+      >
+        <View style={styles.noteOfDayHeader}>
+          <FontAwesome
+            name={isNote ? 'sticky-note' : 'heart'}
+            size={14}
+            color={color}
+          />
+          <Text style={[styles.noteOfDayLabel, { color }]}>
+            {isNote
+              ? t('coaching.noteOfTheDay')
+              : t('coaching.messageOfTheDay')}
+          </Text>
+          <FontAwesome
+            name='chevron-right'
+            size={12}
+            color={colors.textMuted}
+          />
+        </View>
+        {isNote && (
+          <Text
+            style={[styles.noteOfDayTitle, { color: colors.text }]}
+            numberOfLines={1}
+          >
+            {item.note.title}
+          </Text>
+        )}
+        <Text
+          style={[styles.noteOfDayText, { color: colors.textSecondary }]}
+          numberOfLines={3}
+        >
+          {isNote ? item.note.content : item.message.message}
+        </Text>
+      </TouchableOpacity>
+    );
+  },
+);
+
+// Courses listed on the home pacing card, most demanding first
+const EXAM_PACING_PREVIEW_COUNT = 3;
+
+// ⏳ DUS countdown with required weekly hours per course
+const ExamPacingCard = memo(
+  ({ color, onPress }: { color: string; onPress: () => void }) => {
+    const { t } = useTranslation();
+    const { colors } = useThemeColors();
+    const { nextExam, courses, behindCount, totalHoursPerWeek } =
+      useExamPacing();
+
+    if (!nextExam) {
+      return (
+        <TouchableOpacity
+          style={[
+            styles.planShortcut,
+            { backgroundColor: colors.surfaceTranslucent },
+          ]}
+          onPress={onPress}
+          activeOpacity={0.8}
+        >
+          <View style={[styles.planShortcutIcon, { backgroundColor: color }]}>
+            <FontAwesome name='hourglass-half' size={16} color={Colors.white} />
+          </View>
+          <View style={styles.planShortcutInfo}>
+            <Text style={[styles.planShortcutTitle, { color: colors.text }]}>
+              {t('examPlanner.homeTitle')}
+            </Text>
+            <Text
+              style={[styles.planShortcutSubtitle, { color: colors.icon }]}
+              numberOfLines={1}
+            >
+              {t('examPlanner.setDateHint')}
+            </Text>
+          </View>
+          <FontAwesome
+            name='chevron-right'
+            size={14}
+            color={colors.textMuted}
+          />
+        </TouchableOpacity>
+      );
+    }
+
+    const pendingCourses = courses
+      .filter((course) => !course.isCompleted)
+      .slice(0, EXAM_PACING_PREVIEW_COUNT);
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.noteOfDay,
+          { backgroundColor: colors.surfaceTranslucent },
+        ]}
+        onPress={onPress}
+        activeOpacity={0.8}
+      >
+        <View style={styles.noteOfDayHeader}>
+          <FontAwesome name='hourglass-half' size={14} color={color} />
+          <Text style={[styles.noteOfDayLabel, { color }]}>
+            {nextExam.daysRemaining === 0
+              ? t('examPlanner.examTodayTitle', {
+                  session: t(EXAM_SESSION_LABELS[nextExam.session]),
+                })
+              : t('examPlanner.countdown', {
+                  count: nextExam.daysRemaining,
+                  session: t(EXAM_SESSION_LABELS[nextExam.session]),
+                })}
+          </Text>
+          <FontAwesome
+            name='chevron-right'
+            size={12}
+            color={colors.textMuted}
+          />
+        </View>
+        <Text
+          style={[styles.examPacingSummary, { color: colors.textSecondary }]}
+        >
+          {pendingCourses.length === 0
+            ? t('examPlanner.allCoursesDone')
+            : behindCount > 0
+              ? t('examPlanner.summaryBehind', {
+                  hours: totalHoursPerWeek,
+                  count: behindCount,
+                })
+              : t('examPlanner.summaryOnTrack', { hours: totalHoursPerWeek })}
+        </Text>
+        {pendingCourses.map((course) => (
+          <View key={course.courseId} style={styles.examPacingRow}>
+            <Text
+              style={[styles.examPacingCourse, { color: colors.text }]}
+              numberOfLines={1}
+            >
+              {course.courseTitle}
+            </Text>
+            <Text style={[styles.examPacingHours, { color: colors.icon }]}>
+              {t('examPlanner.courseHours', {
+                hours: course.requiredHoursPerWeek,
+                percent: course.completionPercentage,
+              })}
+            </Text>
+            {course.warning && (
+              <Text style={styles.examPacingWarning}>
+                {course.warning === 'pace'
+                  ? t('examPlanner.behind')
+                  : t('examPlanner.inactive')}
+              </Text>
+            )}
+          </View>
+        ))}
+      </TouchableOpacity>
+    );
+  },
+);
+
 // 🚀 MAIN COMPONENT: Home Screen with Fixed Preferred Course Logic
 function HomeScreenContent() {
   const router = useRouter();
@@ -311,6 +665,7 @@ function HomeScreenContent() {
   } = usePreferredCourse();
   const { isDark } = useTheme();
   const { unreadCount } = useNotifications();
+  const { t } = useTranslation();
 
   // 🚀 ACCESS STORE DIRECTLY for modal state
   const showCourseModal = useAppStore((state) => state.showCourseModal);
@@ -435,9 +790,9 @@ function HomeScreenContent() {
       console.log('✅ Refresh complete');
     } catch (error) {
       console.error('❌ Refresh failed:', error);
-      RNAlert.alert('Hata', 'Yenileme başarısız oldu.');
+      RNAlert.alert(t('common.error'), t('common.refreshFailed'));
     }
-  }, [router, refreshCourses, checkAndLoadPreferredCourse, refetchAll]);
+  }, [router, refreshCourses, checkAndLoadPreferredCourse, refetchAll, t]);
 
   // 🚀 OPTIMIZED: Course editing handlers
   const handleEditCourseDetails = useCallback((course: CourseWithProgress) => {
@@ -454,7 +809,6 @@ function HomeScreenContent() {
       difficulty_rating: course.progress?.difficulty_rating || 1,
       notes: course.progress?.notes || '',
       is_completed: course.progress?.is_completed || false,
-      completionPercentage: course.progress?.completion_percentage || 0,
     });
   }, []);
 
@@ -472,20 +826,25 @@ function HomeScreenContent() {
         difficultyRating: editingDetails.difficulty_rating,
         notes: editingDetails.notes || undefined,
         isCompleted: editingDetails.is_completed,
-        completionPercentage: editingDetails.completionPercentage,
       });
 
       await refetchCourses();
       setEditingCourseId(null);
       setEditingDetails({});
-      RNAlert.alert('Başarılı', 'Ders detayları güncellendi!');
+      RNAlert.alert(t('common.success'), t('home.courseDetailsUpdated'));
     } catch (error) {
+      if (isQueuedRequestError(error)) {
+        setEditingCourseId(null);
+        setEditingDetails({});
+        RNAlert.alert(t('offline.queuedTitle'), t('offline.progressQueued'));
+        return;
+      }
       console.error('Error updating course details:', error);
-      RNAlert.alert('Hata', 'Ders detayları güncellenirken bir hata oluştu.');
+      RNAlert.alert(t('common.error'), t('home.courseDetailsUpdateError'));
     } finally {
       setUpdatingCourse(null);
     }
-  }, [editingCourseId, editingDetails, refetchCourses]);
+  }, [editingCourseId, editingDetails, refetchCourses, t]);
 
   const handleCancelEdit = useCallback(() => {
     setEditingCourseId(null);
@@ -522,7 +881,7 @@ function HomeScreenContent() {
       return (
         <View style={styles.courseCardContainer}>
           <MemoizedPlayfulCard
-            title='Çalışmaya Devam Et'
+            title={t('home.continueStudying')}
             style={styles.courseCard}
             titleFontFamily='PrimaryFont'
             variant='elevated'
@@ -591,7 +950,7 @@ function HomeScreenContent() {
                     { color: getWhiteTextColor(isDark) },
                   ]}
                 >
-                  📝 Aktif Çalışma Seansı
+                  {t('home.activeSession')}
                 </Text>
 
                 {course.studySessions?.find(
@@ -612,7 +971,7 @@ function HomeScreenContent() {
                   />
                 ) : (
                   <MemoizedPlayfulCard
-                    title='Yeni Çalışma Seansı Başlat'
+                    title={t('home.startNewSession')}
                     variant='outlined'
                     category={getCourseCategory(preferredCourse?.title || '')}
                     style={[
@@ -633,8 +992,7 @@ function HomeScreenContent() {
                           { color: Colors.gray[600] },
                         ]}
                       >
-                        Bu ders için aktif bir çalışma seansı yok. Yukarıdaki
-                        kronometre ile yeni bir seans başlatabilirsiniz.
+                        {t('home.noActiveSession')}
                       </Text>
                     </View>
                   </MemoizedPlayfulCard>
@@ -649,7 +1007,7 @@ function HomeScreenContent() {
                     { color: getWhiteTextColor(isDark) },
                   ]}
                 >
-                  📚 Son 3 Çalışma Seansı
+                  {t('home.recentSessions')}
                 </Text>
 
                 <FlatList
@@ -677,8 +1035,8 @@ function HomeScreenContent() {
                   ListEmptyComponent={
                     <EmptyState
                       icon='history'
-                      title='Henüz tamamlanmış seans yok'
-                      message='Bu ders için tamamlanmış çalışma seansı bulunmuyor.'
+                      title={t('home.noCompletedSessions')}
+                      message={t('home.noCompletedSessionsMessage')}
                       style={styles.emptyStateContainer}
                     />
                   }
@@ -699,8 +1057,10 @@ function HomeScreenContent() {
                   >
                     <Text style={styles.toggleButtonText}>
                       {isExpanded
-                        ? 'Tüm Seansları Gizle'
-                        : `Tüm Seansları Göster (${(course.studySessions?.length || 0) - 3} tane daha)`}
+                        ? t('home.hideAllSessions')
+                        : t('home.showAllSessions', {
+                            count: (course.studySessions?.length || 0) - 3,
+                          })}
                     </Text>
                   </TouchableOpacity>
 
@@ -712,7 +1072,7 @@ function HomeScreenContent() {
                           { color: getWhiteTextColor(isDark) },
                         ]}
                       >
-                        📋 Tüm Çalışma Seansları
+                        {t('home.allSessions')}
                       </Text>
 
                       <FlatList
@@ -743,6 +1103,19 @@ function HomeScreenContent() {
                 </View>
               )}
 
+              {/* Topic checklist */}
+              <Button
+                title={t('home.topicChecklist')}
+                onPress={() =>
+                  router.push(
+                    buildRoute('courseDetail', { id: course.course_id }),
+                  )
+                }
+                variant='outline'
+                icon='list-ul'
+                style={styles.topicChecklistButton}
+              />
+
               {/* Course Details Form */}
               <View>
                 <Text
@@ -751,7 +1124,7 @@ function HomeScreenContent() {
                     { color: getWhiteTextColor(isDark) },
                   ]}
                 >
-                  ⚙️ Ders Detayları
+                  {t('home.courseDetails')}
                 </Text>
                 <OptimizedCourseDetailsForm
                   course={course}
@@ -790,6 +1163,8 @@ function HomeScreenContent() {
       getWhiteTextColor,
       getTertiaryTextColor,
       getSecondaryTextColor,
+      router,
+      t,
     ],
   );
 
@@ -821,17 +1196,15 @@ function HomeScreenContent() {
             style={styles.errorIcon}
           />
           <Text style={[styles.errorTitle, { color: getTextColor(isDark) }]}>
-            Bir Sorun Oluştu
+            {t('common.somethingWentWrong')}
           </Text>
           <Alert
             type='error'
-            message={
-              coursesError?.message || 'Veriler yüklenirken bir hata oluştu.'
-            }
+            message={coursesError?.message || t('common.dataLoadError')}
             style={styles.errorAlert}
           />
           <Button
-            title='Tekrar Dene'
+            title={t('common.retry')}
             onPress={handleRefresh}
             variant='primary'
           />
@@ -854,7 +1227,7 @@ function HomeScreenContent() {
             colors={[
               getCourseColor(getCourseCategory(preferredCourse?.title || '')),
             ]}
-            title='Yenileniyor...'
+            title={t('common.refreshing')}
             titleColor={getSecondaryTextColor(isDark)}
           />
         }
@@ -865,13 +1238,16 @@ function HomeScreenContent() {
         <View style={styles.headerContainer}>
           <View style={styles.headerContent}>
             <Text style={[styles.welcomeText, { color: getTextColor(isDark) }]}>
-              Merhaba {user?.username || userData?.username || 'Öğrenci'}!
+              {t('home.greeting', {
+                name:
+                  user?.username || userData?.username || t('home.defaultName'),
+              })}
             </Text>
             <Paragraph
               color={getSecondaryTextColor(isDark)}
               style={styles.welcomeSubtext}
             >
-              DUS sınavına hazırlanmaya devam edelim
+              {t('home.subtitle')}
             </Paragraph>
           </View>
 
@@ -887,14 +1263,20 @@ function HomeScreenContent() {
                   <Text
                     style={[styles.streakText, { color: getTextColor(isDark) }]}
                   >
-                    {dashboardAnalytics?.current_streak_days || 0} gün
+                    {t('common.daysCount', {
+                      count: dashboardAnalytics?.current_streak_days || 0,
+                    })}
                   </Text>
                 </View>
               </PulseElement>
             </FloatingElement>
 
             <Avatar
-              name={(user?.username || userData?.username || 'Öğrenci')
+              name={(
+                user?.username ||
+                userData?.username ||
+                t('home.defaultName')
+              )
                 .charAt(0)
                 .toUpperCase()}
               size='lg'
@@ -906,6 +1288,9 @@ function HomeScreenContent() {
             />
           </View>
 
+          {/* Offline state & queued changes */}
+          <OfflineBanner />
+
           {/* Chronometer */}
           {selectedCourse && (
             <MemoizedStudyChronometer
@@ -933,6 +1318,38 @@ function HomeScreenContent() {
               }}
             />
           )}
+
+          {/* Daily plan */}
+          <DailyPlanShortcut
+            color={getCourseColor(
+              getCourseCategory(preferredCourse?.title || ''),
+            )}
+            onPress={() => router.push(buildRoute('plans'))}
+          />
+
+          {/* Coaching note of the day */}
+          <NoteOfTheDayCard
+            color={getCourseColor(
+              getCourseCategory(preferredCourse?.title || ''),
+            )}
+            onPress={() => router.push(buildRoute('coaching'))}
+          />
+
+          {/* Exam countdown & pacing */}
+          <ExamPacingCard
+            color={getCourseColor(
+              getCourseCategory(preferredCourse?.title || ''),
+            )}
+            onPress={() => router.push(buildRoute('examDates'))}
+          />
+
+          {/* Study analytics */}
+          <AnalyticsShortcut
+            color={getCourseColor(
+              getCourseCategory(preferredCourse?.title || ''),
+            )}
+            onPress={() => router.push(buildRoute('analytics'))}
+          />
         </View>
 
         {/* Main Content */}
@@ -947,7 +1364,7 @@ function HomeScreenContent() {
             <Text
               style={[styles.loadingText, { color: getWhiteTextColor(isDark) }]}
             >
-              Ana sayfa yükleniyor...
+              {t('home.loading')}
             </Text>
             {/* 🆕 NEW: Show specific loading message if checking preferred course */}
             {user && !hasCheckedPreferredCourse && (
@@ -957,7 +1374,7 @@ function HomeScreenContent() {
                   { color: getTertiaryTextColor(isDark) },
                 ]}
               >
-                Ders tercihiniz kontrol ediliyor...
+                {t('home.checkingPreferredCourse')}
               </Text>
             )}
           </View>
@@ -1024,7 +1441,7 @@ function HomeScreenContent() {
             ) : (
               <View style={styles.courseCardContainer}>
                 <MemoizedPlayfulCard
-                  title='Çalışmaya Devam Et'
+                  title={t('home.continueStudying')}
                   style={styles.courseCard}
                   titleFontFamily='PrimaryFont'
                   variant='elevated'
@@ -1032,8 +1449,8 @@ function HomeScreenContent() {
                 >
                   <EmptyState
                     icon='book'
-                    title='Henüz ders yok'
-                    message='Dersler sekmesinden ilk dersinizi seçin ve çalışmaya başlayın.'
+                    title={t('home.noCourses')}
+                    message={t('home.noCoursesMessage')}
                     buttonFontFamily='PrimaryFont'
                     style={styles.emptyStateContainer}
                   />
@@ -21,12 +21,14 @@ import {
 import { GestureHandlerRootView } from 'react-native-gesture-handler';
 import { Feather } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import {
   useNotifications,
   usePreferredCourse,
   useAuth,
 } from '../../../stores/appStore';
 import { useNotificationNavigation } from '../../../src/hooks/useNotificationNavigation';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 import { NotificationItem } from '../../../components/ui';
 import { Notification } from '../../../src/types/models';
 import {
@@ -246,6 +248,8 @@ const NotificationsScreen = React.memo(() => {
 
   const { navigateFromNotification } = useNotificationNavigation();
 
+  const { t } = useTranslation();
+
   const router = useRouter();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
@@ -294,9 +298,7 @@ const NotificationsScreen = React.memo(() => {
     } catch (err) {
       if (isMountedRef.current) {
         setError(
-          err instanceof Error
-            ? err.message
-            : 'Bildirimler yüklenirken hata oluştu',
+          err instanceof Error ? err.message : t('notifications.loadError'),
         );
       }
     } finally {
@@ -304,7 +306,7 @@ const NotificationsScreen = React.memo(() => {
         setRefreshing(false);
       }
     }
-  }, [refreshNotifications]);
+  }, [refreshNotifications, t]);
 
   const handleNotificationPress = useCallback(
     (notification: Notification) => {
@@ -318,27 +320,27 @@ const NotificationsScreen = React.memo(() => {
     if (unreadCount === 0) return;
 
     Alert.alert(
-      'Tümünü Okundu İşaretle',
-      `${unreadCount} bildirimi okundu olarak işaretlemek istediğinizden emin misiniz?`,
+      t('notifications.markAllAsRead'),
+      t('notifications.markAllConfirm', { count: unreadCount }),
       [
         {
-          text: 'İptal',
+          text: t('common.cancel'),
           style: 'cancel',
         },
         {
-          text: 'Evet',
+          text: t('common.yes'),
           onPress: () => {
             markAllAsRead().catch((err) => {
-              setError('Bildirimler işaretlenirken hata oluştu');
+              setError(t('notifications.markAllError'));
             });
           },
         },
       ],
     );
-  }, [unreadCount, markAllAsRead]);
+  }, [unreadCount, markAllAsRead, t]);
 
   const handleNavigateToSettings = useCallback(() => {
-    router.push('/(tabs)/notifications/settings' as any);
+    router.push(buildRoute('notificationSettings'));
   }, [router]);
 
   const handleFilterChange = useCallback((filterType: 'all' | 'unread') => {
@@ -350,12 +352,10 @@ const NotificationsScreen = React.memo(() => {
     setError(null);
     loadNotifications().catch((err) => {
       setError(
-        err instanceof Error
-          ? err.message
-          : 'Bildirimler yüklenirken hata oluştu',
+        err instanceof Error ? err.message : t('notifications.loadError'),
       );
     });
-  }, [loadNotifications]);
+  }, [loadNotifications, t]);
 
   // 🚀 SIMPLIFIED: Handle notification actions with store functions
   const handleMarkAsRead = useCallback(
@@ -363,10 +363,10 @@ const NotificationsScreen = React.memo(() => {
       try {
         await markAsRead(notificationId);
       } catch (err) {
-        setError('Bildirim işaretlenirken hata oluştu');
+        setError(t('notifications.markError'));
       }
     },
-    [markAsRead],
+    [markAsRead, t],
   );
 
   // 🚀 NEW: Handle delete notification (if available in store)
@@ -374,12 +374,12 @@ const NotificationsScreen = React.memo(() => {
     async (notificationId: number) => {
       // Since the store doesn't have delete functionality, we'll show a message
       Alert.alert(
-        'Bildirim Sil',
-        'Bildirim silme özelliği henüz mevcut değil.',
-        [{ text: 'Tamam' }],
+        t('notifications.deleteTitle'),
+        t('notifications.deleteUnavailable'),
+        [{ text: t('common.ok') }],
       );
     },
-    [],
+    [t],
   );
 
   // Load more notifications (placeholder - the store would need to support pagination)
@@ -493,19 +493,19 @@ const NotificationsScreen = React.memo(() => {
                 gradient='primary'
                 style={styles.headerTitle}
               >
-                Bildirimler
+                {t('notifications.title')}
               </PlayfulTitle>
               <Paragraph
                 color={colors.headerText}
                 style={styles.headerSubtitle}
               >
-                Tüm bildirimlerinizi yönetin
+                {t('notifications.subtitle')}
               </Paragraph>
               {unreadCount > 0 && (
                 <Row style={styles.unreadRow}>
                   <Feather name='bell' size={16} color={Colors.gray[700]} />
                   <Text style={styles.unreadText}>
-                    {unreadCount} yeni bildirim
+                    {t('notifications.newCount', { count: unreadCount })}
                   </Text>
                 </Row>
               )}
@@ -517,12 +517,12 @@ const NotificationsScreen = React.memo(() => {
             <View style={styles.filterContainer}>
               <FilterButton
                 filterType='all'
-                title='Tümü'
+                title={t('common.all')}
                 isActive={filter === 'all'}
               />
               <FilterButton
                 filterType='unread'
-                title='Okunmamış'
+                title={t('notifications.unread')}
                 isActive={filter === 'unread'}
               />
             </View>
@@ -539,7 +539,7 @@ const NotificationsScreen = React.memo(() => {
           <Row style={styles.actionButtonsRow}>
             {unreadCount > 0 && (
               <PlayfulButton
-                title='Tümünü Okundu İşaretle'
+                title={t('notifications.markAllAsRead')}
                 onPress={handleMarkAllAsRead}
                 variant='secondary'
                 size='medium'
@@ -563,6 +563,7 @@ const NotificationsScreen = React.memo(() => {
       filter,
       handleNavigateToSettings,
       handleMarkAllAsRead,
+      t,
     ],
   );
 
@@ -575,19 +576,21 @@ const NotificationsScreen = React.memo(() => {
         <EmptyState
           icon='bell-o'
           title={
-            filter === 'unread' ? 'Okunmamış bildirim yok' : 'Bildirim yok'
+            filter === 'unread'
+              ? t('notifications.noUnread')
+              : t('notifications.none')
           }
           message={
             filter === 'unread'
-              ? 'Tüm bildirimlerinizi okumuşsunuz!'
-              : 'Henüz bildiriminiz bulunmuyor.'
+              ? t('notifications.allRead')
+              : t('notifications.noneYet')
           }
           fontFamily='SecondaryFont-Regular'
           titleFontFamily='PrimaryFont'
           actionButton={
             filter !== 'unread'
               ? {
-                  title: 'Bildirim Ayarları',
+                  title: t('notifications.settings'),
                   onPress: handleNavigateToSettings,
                   variant: 'primary',
                 }
@@ -598,16 +601,16 @@ const NotificationsScreen = React.memo(() => {
         />
       </SlideInElement>
     );
-  }, [isLoading, filter, handleNavigateToSettings]);
+  }, [isLoading, filter, handleNavigateToSettings, t]);
 
   // Show error alert if there's an error with cleanup
   useEffect(() => {
     let isCancelled = false;
 
     if (error && !isCancelled && isMountedRef.current) {
-      Alert.alert('Hata', error, [
+      Alert.alert(t('common.error'), error, [
         {
-          text: 'Tamam',
+          text: t('common.ok'),
           onPress: clearError,
         },
       ]);
@@ -616,20 +619,18 @@ const NotificationsScreen = React.memo(() => {
     return () => {
       isCancelled = true;
     };
-  }, [error, clearError]);
+  }, [error, clearError, t]);
 
   // Initial load effect
   useEffect(() => {
     if (isAuthenticated && notifications.length === 0 && !isLoading) {
       loadNotifications().catch((err) => {
         setError(
-          err instanceof Error
-            ? err.message
-            : 'Bildirimler yüklenirken hata oluştu',
+          err instanceof Error ? err.message : t('notifications.loadError'),
         );
       });
     }
-  }, [isAuthenticated, notifications.length, isLoading, loadNotifications]);
+  }, [isAuthenticated, notifications.length, isLoading, loadNotifications, t]);
 
   // Cleanup on unmount
   useEffect(() => {
@@ -662,12 +663,12 @@ const NotificationsScreen = React.memo(() => {
             color={Colors.white}
             style={styles.errorIcon}
           />
-          <Text style={styles.errorTitle}>Giriş Gerekli</Text>
+          <Text style={styles.errorTitle}>{t('common.loginRequired')}</Text>
           <Text style={styles.errorMessage}>
-            Bildirimlerinizi görmek için giriş yapmanız gerekiyor.
+            {t('notifications.loginMessage')}
           </Text>
           <PlayfulButton
-            title='Giriş Yap'
+            title={t('auth.signIn')}
             onPress={() => router.replace('/(auth)/login')}
             variant='primary'
             animated
@@ -691,10 +692,12 @@ const NotificationsScreen = React.memo(() => {
               color={Colors.vibrant?.orange || Colors.warning}
               style={styles.errorIcon}
             />
-            <Text style={styles.errorTitle}>Bir Sorun Oluştu</Text>
+            <Text style={styles.errorTitle}>
+              {t('common.somethingWentWrong')}
+            </Text>
             <Text style={styles.errorMessage}>{error}</Text>
             <PlayfulButton
-              title='Yeniden Dene'
+              title={t('common.tryAgain')}
               onPress={handleRetryLoad}
               variant='primary'
               animated
@@ -730,7 +733,7 @@ const NotificationsScreen = React.memo(() => {
         {isLoading && filteredNotifications.length === 0 && (
           <View style={styles.loadingContainer}>
             <ActivityIndicator size='large' color={colors.context} />
-            <Text style={styles.loadingText}>Bildirimler yükleniyor...</Text>
+            <Text style={styles.loadingText}>{t('notifications.loading')}</Text>
           </View>
         )}
 
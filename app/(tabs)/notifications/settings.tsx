@@ -24,6 +24,7 @@ import {
   useNotifications,
   useNotificationPreferences,
 } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 import {
   PlayfulCard,
   PlayfulButton,
@@ -271,6 +272,7 @@ const styles = StyleSheet.create({
 const NotificationSettingsScreen: React.FC = React.memo(() => {
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
+  const { t } = useTranslation();
 
   // 🚀 NEW: Use the enhanced hooks instead of manual state
   const settingsData = useNotificationSettingsData();
@@ -292,49 +294,85 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
   // Memoized constants
   const notificationTypeNames: Record<NotificationType, string> = useMemo(
     () => ({
-      study_reminder: 'Çalışma Hatırlatıcıları',
-      achievement_unlock: 'Başarı Bildirimleri',
-      duel_invitation: 'Düello Davetleri',
-      duel_result: 'Düello Sonuçları',
-      friend_request: 'Arkadaşlık İstekleri',
-      friend_activity: 'Arkadaş Aktiviteleri',
-      content_update: 'İçerik Güncellemeleri',
-      streak_reminder: 'Seri Hatırlatıcıları',
-      plan_reminder: 'Plan Hatırlatıcıları',
-      coaching_note: 'Koçluk Notları',
-      motivational_message: 'Motivasyon Mesajları',
-      system_announcement: 'Sistem Duyuruları',
-      course_reminder: 'Ders Hatırlatmaları',
-      course_completed: 'Ders Tamamlama Bildirimleri',
-      course_progress: 'Ders İlerleme Bildirimleri',
-      course_milestone: 'Ders Kilometre Taşı Bildirimleri',
-      course_study_session: 'Ders Çalışma Seansı Bildirimleri',
+      study_reminder: t('notificationSettings.typeNames.study_reminder'),
+      achievement_unlock: t(
+        'notificationSettings.typeNames.achievement_unlock',
+      ),
+      duel_invitation: t('notificationSettings.typeNames.duel_invitation'),
+      duel_result: t('notificationSettings.typeNames.duel_result'),
+      friend_request: t('notificationSettings.typeNames.friend_request'),
+      friend_activity: t('notificationSettings.typeNames.friend_activity'),
+      content_update: t('notificationSettings.typeNames.content_update'),
+      streak_reminder: t('notificationSettings.typeNames.streak_reminder'),
+      plan_reminder: t('notificationSettings.typeNames.plan_reminder'),
+      coaching_note: t('notificationSettings.typeNames.coaching_note'),
+      motivational_message: t(
+        'notificationSettings.typeNames.motivational_message',
+      ),
+      system_announcement: t(
+        'notificationSettings.typeNames.system_announcement',
+      ),
+      course_reminder: t('notificationSettings.typeNames.course_reminder'),
+      course_completed: t('notificationSettings.typeNames.course_completed'),
+      course_progress: t('notificationSettings.typeNames.course_progress'),
+      course_milestone: t('notificationSettings.typeNames.course_milestone'),
+      course_study_session: t(
+        'notificationSettings.typeNames.course_study_session',
+      ),
     }),
-    [],
+    [t],
   );
 
   const notificationTypeDescriptions: Record<NotificationType, string> =
     useMemo(
       () => ({
-        study_reminder: 'Günlük çalışma hedefleriniz için hatırlatıcılar',
-        achievement_unlock: 'Yeni başarılar kazandığınızda bildirimler',
-        duel_invitation: 'Size düello daveti geldiğinde bildirimler',
-        duel_result: 'Düello sonuçları hakkında bildirimler',
-        friend_request: 'Yeni arkadaşlık istekleri',
-        friend_activity: 'Arkadaşlarınızın aktiviteleri hakkında bildirimler',
-        content_update: 'Yeni içerik ve özellikler hakkında bildirimler',
-        streak_reminder: 'Çalışma serinizi sürdürmeniz için hatırlatıcılar',
-        plan_reminder: 'Çalışma planınızdaki görevler için hatırlatıcılar',
-        coaching_note: 'Kişiselleştirilmiş koçluk önerileri',
-        motivational_message: 'Motivasyon artırıcı mesajlar',
-        system_announcement: 'Önemli sistem duyuruları',
-        course_reminder: 'Ders çalışma zamanları için hatırlatıcılar',
-        course_completed: 'Derslerinizi tamamladığınızda bildirimler',
-        course_progress: 'Ders ilerleme durumunuz hakkında güncellemeler',
-        course_milestone: 'Önemli ders aşamalarını geçtiğinizde bildirimler',
-        course_study_session: 'Çalışma seanslarınız hakkında bildirimler',
+        study_reminder: t(
+          'notificationSettings.typeDescriptions.study_reminder',
+        ),
+        achievement_unlock: t(
+          'notificationSettings.typeDescriptions.achievement_unlock',
+        ),
+        duel_invitation: t(
+          'notificationSettings.typeDescriptions.duel_invitation',
+        ),
+        duel_result: t('notificationSettings.typeDescriptions.duel_result'),
+        friend_request: t(
+          'notificationSettings.typeDescriptions.friend_request',
+        ),
+        friend_activity: t(
+          'notificationSettings.typeDescriptions.friend_activity',
+        ),
+        content_update: t(
+          'notificationSettings.typeDescriptions.content_update',
+        ),
+        streak_reminder: t(
+          'notificationSettings.typeDescriptions.streak_reminder',
+        ),
+        plan_reminder: t('notificationSettings.typeDescriptions.plan_reminder'),
+        coaching_note: t('notificationSettings.typeDescriptions.coaching_note'),
+        motivational_message: t(
+          'notificationSettings.typeDescriptions.motivational_message',
+        ),
+        system_announcement: t(
+          'notificationSettings.typeDescriptions.system_announcement',
+        ),
+        course_reminder: t(
+          'notificationSettings.typeDescriptions.course_reminder',
+        ),
+        course_completed: t(
+          'notificationSettings.typeDescriptions.course_completed',
+        ),
+        course_progress: t(
+          'notificationSettings.typeDescriptions.course_progress',
+        ),
+        course_milestone: t(
+          'notificationSettings.typeDescriptions.course_milestone',
+        ),
+        course_study_session: t(
+          'notificationSettings.typeDescriptions.course_study_session',
+        ),
       }),
-      [],
+      [t],
     );
 
   // 🚀 NEW: Use helper functions for categorization
@@ -374,20 +412,17 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
         // Show success message for important changes
         if (setting === 'push_enabled' && value) {
           Alert.alert(
-            'Push Bildirimleri Açıldı',
-            'Push bildirimleri için cihazınızın bildirim ayarlarını da kontrol edin.',
-            [{ text: 'Tamam' }],
+            t('notificationSettings.pushEnabledTitle'),
+            t('notificationSettings.pushEnabledMessage'),
+            [{ text: t('common.ok') }],
           );
         }
       } catch (err: any) {
         console.error('Error updating preference:', err);
-        Alert.alert(
-          'Hata',
-          'Ayar güncellenirken bir hata oluştu. Lütfen tekrar deneyin.',
-        );
+        Alert.alert(t('common.error'), t('notificationSettings.updateError'));
       }
     },
-    [settingsData.updatePreferencesAsync],
+    [settingsData.updatePreferencesAsync, t],
   );
 
   // 🚀 NEW: Handle frequency updates using the new hooks
@@ -400,10 +435,13 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
         });
       } catch (err: any) {
         console.error('Error updating frequency:', err);
-        Alert.alert('Hata', 'Sıklık ayarı güncellenirken bir hata oluştu.');
+        Alert.alert(
+          t('common.error'),
+          t('notificationSettings.frequencyUpdateError'),
+        );
       }
     },
-    [settingsData.updatePreferencesAsync],
+    [settingsData.updatePreferencesAsync, t],
   );
 
   // Handle frequency change dialog
@@ -412,26 +450,30 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
       const currentPref = getPreference(type);
       const currentFrequency = currentPref?.frequency_hours || 24;
 
-      Alert.alert('Bildirim Sıklığı', 'Bu bildirim türü için sıklık seçin:', [
-        {
-          text: 'Saatte bir (1 saat)',
-          onPress: () => handleFrequencyUpdate(type, 1),
-        },
-        {
-          text: 'Günde bir (24 saat)',
-          onPress: () => handleFrequencyUpdate(type, 24),
-        },
-        {
-          text: 'Haftada bir (168 saat)',
-          onPress: () => handleFrequencyUpdate(type, 168),
-        },
-        {
-          text: 'İptal',
-          style: 'cancel',
-        },
-      ]);
+      Alert.alert(
+        t('notificationSettings.frequencyTitle'),
+        t('notificationSettings.frequencyPrompt'),
+        [
+          {
+            text: t('notificationSettings.hourly'),
+            onPress: () => handleFrequencyUpdate(type, 1),
+          },
+          {
+            text: t('notificationSettings.daily'),
+            onPress: () => handleFrequencyUpdate(type, 24),
+          },
+          {
+            text: t('notificationSettings.weekly'),
+            onPress: () => handleFrequencyUpdate(type, 168),
+          },
+          {
+            text: t('common.cancel'),
+            style: 'cancel',
+          },
+        ],
+      );
     },
-    [getPreference, handleFrequencyUpdate],
+    [getPreference, handleFrequencyUpdate, t],
   );
 
   // 🚀 NEW: Handle test notification using the new hooks
@@ -440,18 +482,15 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
       await settingsData.sendTest(notificationHelpers.createTestRequest());
 
       Alert.alert(
-        'Test Bildirimi Gönderildi',
-        'Test bildirimi başarıyla gönderildi. Birkaç saniye içinde almanız gerekiyor.',
-        [{ text: 'Tamam' }],
+        t('notificationSettings.testSentTitle'),
+        t('notificationSettings.testSentMessage'),
+        [{ text: t('common.ok') }],
       );
     } catch (error: any) {
       console.error('Error sending test notification:', error);
-      Alert.alert(
-        'Hata',
-        'Test bildirimi gönderilemedi. İnternet bağlantınızı kontrol edin.',
-      );
+      Alert.alert(t('common.error'), t('notificationSettings.testFailed'));
     }
-  }, [settingsData.sendTest]);
+  }, [settingsData.sendTest, t]);
 
   // 🚀 NEW: Handle bulk actions using the new approach
   const handleBulkAction = useCallback(
@@ -482,19 +521,25 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
 
         await Promise.all(promises);
 
-        Alert.alert(
-          'Ayarlar Güncellendi',
-          `${selectedFilter === 'all' ? 'Tüm' : 'Seçili'} bildirimler ${
-            enabled ? 'açıldı' : 'kapatıldı'
-          }.`,
-          [{ text: 'Tamam' }],
-        );
+        const resultKey =
+          selectedFilter === 'all'
+            ? enabled
+              ? 'notificationSettings.bulkAllEnabled'
+              : 'notificationSettings.bulkAllDisabled'
+            : enabled
+              ? 'notificationSettings.bulkSelectedEnabled'
+              : 'notificationSettings.bulkSelectedDisabled';
+
+        Alert.alert(t('notificationSettings.updatedTitle'), t(resultKey), [
+          { text: t('common.ok') },
+        ]);
       } catch (error: any) {
         console.error('Error updating bulk preferences:', error);
-        Alert.alert('Hata', 'Toplu işlem sırasında bir hata oluştu.');
+        Alert.alert(t('common.error'), t('notificationSettings.bulkError'));
       }
     },
     [
+      t,
       selectedFilter,
       notificationCategories,
       notificationTypeNames,
@@ -647,7 +692,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                   >
                     <Feather name='smartphone' size={16} color={Colors.white} />
                   </View>
-                  <Text style={styles.settingLabel}>Uygulama İçi</Text>
+                  <Text style={styles.settingLabel}>
+                    {t('notificationSettings.inApp')}
+                  </Text>
                 </Row>
                 <Switch
                   value={pref?.in_app_enabled ?? true}
@@ -675,7 +722,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                   >
                     <Feather name='bell' size={16} color={Colors.white} />
                   </View>
-                  <Text style={styles.settingLabel}>Push Bildirimi</Text>
+                  <Text style={styles.settingLabel}>
+                    {t('notificationSettings.push')}
+                  </Text>
                 </Row>
                 <Switch
                   value={pref?.push_enabled ?? true}
@@ -703,7 +752,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                   >
                     <Feather name='mail' size={16} color={Colors.white} />
                   </View>
-                  <Text style={styles.settingLabel}>E-posta</Text>
+                  <Text style={styles.settingLabel}>
+                    {t('notificationSettings.email')}
+                  </Text>
                 </Row>
                 <Switch
                   value={pref?.email_enabled ?? false}
@@ -736,7 +787,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                     >
                       <Feather name='clock' size={16} color={Colors.white} />
                     </View>
-                    <Text style={styles.frequencyText}>Sıklık</Text>
+                    <Text style={styles.frequencyText}>
+                      {t('notificationSettings.frequency')}
+                    </Text>
                   </Row>
                   <Row style={styles.frequencyInfo}>
                     <Text style={styles.frequencyText}>{frequencyText}</Text>
@@ -762,6 +815,7 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
       switchTrackColors,
       handleToggle,
       handleFrequencyChange,
+      t,
     ],
   );
 
@@ -775,7 +829,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
     return (
       <View style={[styles.container, styles.centerContent]}>
         <ActivityIndicator size='large' color={colors.loading} />
-        <Text style={styles.loadingText}>Bildirim ayarları yükleniyor...</Text>
+        <Text style={styles.loadingText}>
+          {t('notificationSettings.loading')}
+        </Text>
       </View>
     );
   }
@@ -790,10 +846,10 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
           color={Colors.vibrant?.orange}
         />
         <Text style={styles.errorText}>
-          Ayarlar yüklenirken bir hata oluştu. Lütfen tekrar deneyin.
+          {t('notificationSettings.loadError')}
         </Text>
         <PlayfulButton
-          title='Tekrar Dene'
+          title={t('common.retry')}
           onPress={settingsData.refetchAll}
           variant='primary'
           size='medium'
@@ -827,19 +883,19 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                   gradient='primary'
                   style={styles.headerTitle}
                 >
-                  Bildirim Ayarları
+                  {t('notificationSettings.title')}
                 </PlayfulTitle>
                 <Paragraph
                   color={colors.headerText}
                   style={styles.headerSubtitle}
                 >
-                  Hangi bildirimleri almak istediğinizi seçin
+                  {t('notificationSettings.subtitle')}
                 </Paragraph>
 
                 {/* 🚀 NEW: Device token and connection status */}
                 {settingsData.deviceToken?.token && (
                   <Text style={styles.deviceTokenText}>
-                    Push bildirimleri etkin ✓
+                    {t('notificationSettings.pushEnabled')}
                   </Text>
                 )}
                 {!canReceive && (
@@ -849,7 +905,7 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                       { color: Colors.vibrant.orange },
                     ]}
                   >
-                    ⚠️ Push bildirimleri devre dışı
+                    {t('notificationSettings.pushDisabled')}
                   </Text>
                 )}
 
@@ -857,15 +913,21 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                 <View style={styles.statsRow}>
                   <View style={styles.statItem}>
                     <Text style={styles.statNumber}>{unreadCount}</Text>
-                    <Text style={styles.statLabel}>Okunmamış</Text>
+                    <Text style={styles.statLabel}>
+                      {t('notificationSettings.statUnread')}
+                    </Text>
                   </View>
                   <View style={styles.statItem}>
                     <Text style={styles.statNumber}>{courseRelatedCount}</Text>
-                    <Text style={styles.statLabel}>Ders</Text>
+                    <Text style={styles.statLabel}>
+                      {t('notificationSettings.statCourse')}
+                    </Text>
                   </View>
                   <View style={styles.statItem}>
                     <Text style={styles.statNumber}>{preferences.length}</Text>
-                    <Text style={styles.statLabel}>Ayar</Text>
+                    <Text style={styles.statLabel}>
+                      {t('notificationSettings.statSettings')}
+                    </Text>
                   </View>
                 </View>
               </Column>
@@ -877,10 +939,19 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
         <SlideInElement delay={100}>
           <View style={styles.filterContainer}>
             <Row style={styles.filterRow}>
-              <FilterButton filter='all' title='Tümü' />
-              <FilterButton filter='study' title='Çalışma' />
-              <FilterButton filter='social' title='Sosyal' />
-              <FilterButton filter='system' title='Sistem' />
+              <FilterButton filter='all' title={t('common.all')} />
+              <FilterButton
+                filter='study'
+                title={t('notificationSettings.filterStudy')}
+              />
+              <FilterButton
+                filter='social'
+                title={t('notificationSettings.filterSocial')}
+              />
+              <FilterButton
+                filter='system'
+                title={t('notificationSettings.filterSystem')}
+              />
             </Row>
           </View>
         </SlideInElement>
@@ -888,7 +959,7 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
         {/* 🚀 NEW: Enhanced Quick Actions */}
         <SlideInElement delay={200}>
           <PlayfulCard
-            title='Hızlı İşlemler'
+            title={t('common.quickActions')}
             titleFontFamily='PrimaryFont'
             style={styles.quickActionsCard}
             variant='playful'
@@ -896,7 +967,11 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
           >
             <Row style={styles.quickActions}>
               <PlayfulButton
-                title={selectedFilter === 'all' ? 'Tümünü Aç' : 'Seçilileri Aç'}
+                title={
+                  selectedFilter === 'all'
+                    ? t('notificationSettings.enableAll')
+                    : t('notificationSettings.enableSelected')
+                }
                 onPress={() => handleBulkAction(true)}
                 variant='outline'
                 style={styles.quickActionButton}
@@ -908,7 +983,9 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
               />
               <PlayfulButton
                 title={
-                  selectedFilter === 'all' ? 'Tümünü Kapat' : 'Seçilileri Kapat'
+                  selectedFilter === 'all'
+                    ? t('notificationSettings.disableAll')
+                    : t('notificationSettings.disableSelected')
                 }
                 onPress={() => handleBulkAction(false)}
                 variant='outline'
@@ -922,7 +999,7 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
             </Row>
             <Row style={styles.quickActionsRow}>
               <PlayfulButton
-                title='Test Bildirimi'
+                title={t('notificationSettings.testNotification')}
                 onPress={handleTestNotification}
                 variant='outline'
                 style={styles.quickActionButton}
@@ -933,7 +1010,7 @@ const NotificationSettingsScreen: React.FC = React.memo(() => {
                 disabled={settingsData.isSendingTest}
               />
               <PlayfulButton
-                title='Push Yenile'
+                title={t('notificationSettings.refreshPush')}
                 onPress={settingsData.refreshToken}
                 variant='outline'
                 style={styles.quickActionButton}
@@ -0,0 +1,714 @@
+// app/(tabs)/plans/index.tsx - Active study plan, daily agenda and topic progress
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  Alert as RNAlert,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  ProgressBar,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  useStudyPlans,
+  useActiveStudyPlan,
+  useStudyPlanProgress,
+  useDailyRecommendations,
+  useStudyPlanMutations,
+  studyPlanHelpers,
+} from '../../../src/hooks/useStudyPlanData';
+import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import type { DailyRecommendationPayload } from '../../../src/api/studyPlanService';
+import type { StudyPlan } from '../../../src/types/models';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  planTitle: {
+    fontSize: 18,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    marginBottom: Spacing[1],
+  },
+  planDescription: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginBottom: Spacing[3],
+  },
+  metaRow: {
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  statsRow: {
+    justifyContent: 'space-between',
+    marginTop: Spacing[3],
+  },
+  statItem: {
+    alignItems: 'center',
+    flex: 1,
+  },
+  statValue: {
+    fontSize: 18,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  statLabel: {
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginTop: Spacing[1],
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    marginBottom: Spacing[3],
+  },
+  agendaItem: {
+    paddingVertical: Spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray[100],
+  },
+  agendaRow: {
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  agendaIcon: {
+    width: 36,
+    height: 36,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    marginRight: Spacing[3],
+  },
+  agendaInfo: {
+    flex: 1,
+  },
+  agendaTitle: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+  },
+  agendaSubtitle: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginTop: 2,
+  },
+  topicItem: {
+    marginBottom: Spacing[3],
+  },
+  topicHeader: {
+    justifyContent: 'space-between',
+    marginBottom: Spacing[1],
+  },
+  topicName: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginRight: Spacing[2],
+  },
+  topicMeta: {
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginTop: 2,
+  },
+  planListItem: {
+    paddingVertical: Spacing[3],
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray[100],
+  },
+  planListActions: {
+    marginTop: Spacing[2],
+    gap: Spacing[2],
+  },
+  actionButton: {
+    marginTop: Spacing[3],
+  },
+  mutedText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[8],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  errorAlert: {
+    marginBottom: Spacing[4],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// One recommended topic in today's agenda
+const AgendaItem = React.memo(
+  ({
+    item,
+    contextColor,
+  }: {
+    item: DailyRecommendationPayload;
+    contextColor: string;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <View style={styles.agendaItem}>
+        <Row style={styles.agendaRow}>
+          <View style={[styles.agendaIcon, { backgroundColor: contextColor }]}>
+            <FontAwesome name='book' size={16} color={Colors.white} />
+          </View>
+          <Column style={styles.agendaInfo}>
+            <Text style={styles.agendaTitle}>
+              {item.topicName ||
+                t('studyPlans.topicFallback', { id: item.topicId })}
+            </Text>
+            <Text style={styles.agendaSubtitle}>
+              {t('studyPlans.agendaGoals', {
+                minutes: item.recommendedMinutes,
+                questions: item.recommendedQuestions,
+              })}
+              {item.branchName ? ` • ${item.branchName}` : ''}
+            </Text>
+            <Text style={styles.agendaSubtitle}>
+              {item.lastStudied
+                ? t('studyPlans.lastStudied', {
+                    date: studyPlanHelpers.formatPlanDate(item.lastStudied),
+                  })
+                : t('studyPlans.notStudied')}
+            </Text>
+          </Column>
+          {typeof item.accuracy === 'number' && item.accuracy > 0 ? (
+            <Badge
+              text={t('studyPlans.percentage', {
+                value: Math.round(item.accuracy),
+              })}
+              variant={item.accuracy >= 70 ? 'success' : 'warning'}
+              size='sm'
+              fontFamily='SecondaryFont-Bold'
+            />
+          ) : null}
+        </Row>
+      </View>
+    );
+  },
+);
+
+// Row in the "other plans" list
+const PlanListItem = React.memo(
+  ({
+    plan,
+    isUpdating,
+    onActivate,
+    onDelete,
+  }: {
+    plan: StudyPlan;
+    isUpdating: boolean;
+    onActivate: (plan: StudyPlan) => void;
+    onDelete: (plan: StudyPlan) => void;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <View style={styles.planListItem}>
+        <Text style={styles.agendaTitle}>{plan.title}</Text>
+        <Text style={styles.agendaSubtitle}>
+          {studyPlanHelpers.formatPlanDate(plan.start_date)} -{' '}
+          {studyPlanHelpers.formatPlanDate(plan.end_date)}
+        </Text>
+        <Row style={styles.planListActions}>
+          <Button
+            title={t('studyPlans.activate')}
+            icon='check'
+            size='small'
+            variant='success'
+            disabled={isUpdating}
+            onPress={() => onActivate(plan)}
+          />
+          <Button
+            title={t('common.delete')}
+            icon='trash'
+            size='small'
+            variant='error'
+            disabled={isUpdating}
+            onPress={() => onDelete(plan)}
+          />
+        </Row>
+      </View>
+    );
+  },
+);
+
+export default function StudyPlansScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+  const [refreshing, setRefreshing] = useState(false);
+
+  const contextColor = useMemo(
+    () => getCourseColor(getCourseCategory(preferredCourse?.title || '')),
+    [preferredCourse?.title, getCourseColor, getCourseCategory],
+  );
+
+  const {
+    data: activePlan,
+    isLoading: activeLoading,
+    error: activeError,
+    refetch: refetchActive,
+  } = useActiveStudyPlan();
+  const { data: plans = [], refetch: refetchPlans } = useStudyPlans();
+  const { data: progress, refetch: refetchProgress } = useStudyPlanProgress(
+    activePlan?.plan_id,
+  );
+  const {
+    data: recommendations = [],
+    isLoading: recommendationsLoading,
+    refetch: refetchRecommendations,
+  } = useDailyRecommendations();
+  const { activatePlan, deactivatePlan, deletePlan, isUpdating } =
+    useStudyPlanMutations();
+
+  const otherPlans = useMemo(
+    () => plans.filter((plan) => plan.plan_id !== activePlan?.plan_id),
+    [plans, activePlan?.plan_id],
+  );
+
+  const todayTotals = useMemo(
+    () =>
+      recommendations.reduce(
+        (totals, item) => ({
+          minutes: totals.minutes + (item.recommendedMinutes || 0),
+          questions: totals.questions + (item.recommendedQuestions || 0),
+        }),
+        { minutes: 0, questions: 0 },
+      ),
+    [recommendations],
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([
+        refetchActive(),
+        refetchPlans(),
+        refetchRecommendations(),
+        activePlan?.plan_id ? refetchProgress() : Promise.resolve(),
+      ]);
+    } catch (refreshError) {
+      console.error('Error refreshing study plans:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [
+    refetchActive,
+    refetchPlans,
+    refetchRecommendations,
+    refetchProgress,
+    activePlan?.plan_id,
+  ]);
+
+  const handleActivate = useCallback(
+    async (plan: StudyPlan) => {
+      try {
+        await activatePlan(plan.plan_id);
+      } catch (mutationError) {
+        RNAlert.alert(t('common.error'), t('studyPlans.activateFailed'));
+      }
+    },
+    [activatePlan, t],
+  );
+
+  const handleDeactivate = useCallback(() => {
+    if (!activePlan) return;
+    RNAlert.alert(
+      t('studyPlans.pauseTitle'),
+      t('studyPlans.pauseMessage', { title: activePlan.title }),
+      [
+        { text: t('studyPlans.dismiss'), style: 'cancel' },
+        {
+          text: t('studyPlans.pause'),
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await deactivatePlan(activePlan.plan_id);
+            } catch (mutationError) {
+              RNAlert.alert(t('common.error'), t('studyPlans.pauseFailed'));
+            }
+          },
+        },
+      ],
+    );
+  }, [activePlan, deactivatePlan, t]);
+
+  const handleDelete = useCallback(
+    (plan: StudyPlan) => {
+      RNAlert.alert(
+        t('studyPlans.deleteTitle'),
+        t('studyPlans.deleteMessage', { title: plan.title }),
+        [
+          { text: t('studyPlans.dismiss'), style: 'cancel' },
+          {
+            text: t('common.delete'),
+            style: 'destructive',
+            onPress: async () => {
+              try {
+                await deletePlan(plan.plan_id);
+              } catch (mutationError) {
+                RNAlert.alert(t('common.error'), t('studyPlans.deleteFailed'));
+              }
+            },
+          },
+        ],
+      );
+    },
+    [deletePlan, t],
+  );
+
+  const handleCreatePlan = useCallback(() => {
+    router.push(buildRoute('newPlan'));
+  }, [router]);
+
+  if (authLoading) {
+    return (
+      <Container style={styles.errorContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Container style={styles.errorContainer}>
+        <Alert
+          type='error'
+          title={t('common.loginRequired')}
+          message={t('studyPlans.loginMessage')}
+          style={styles.errorAlert}
+        />
+        <Button
+          title={t('auth.signIn')}
+          variant='primary'
+          onPress={() => router.replace('/(auth)/login')}
+          icon='sign-in'
+        />
+      </Container>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={contextColor}
+            colors={[contextColor]}
+          />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('studyPlans.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('studyPlans.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Active plan */}
+        {activeLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size='large' color={contextColor} />
+            <Text style={styles.loadingText}>
+              {t('studyPlans.loadingPlan')}
+            </Text>
+          </View>
+        ) : activeError ? (
+          <Alert
+            type='error'
+            title={t('common.error')}
+            message={t('studyPlans.loadFailed', {
+              message:
+                (activeError as Error).message || t('studyPlans.unknownError'),
+            })}
+            style={styles.errorAlert}
+          />
+        ) : activePlan ? (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.planTitle}>{activePlan.title}</Text>
+              {activePlan.description ? (
+                <Text style={styles.planDescription}>
+                  {activePlan.description}
+                </Text>
+              ) : null}
+              <Row style={styles.metaRow}>
+                <Badge
+                  text={`${studyPlanHelpers.formatPlanDate(
+                    activePlan.start_date,
+                  )} - ${studyPlanHelpers.formatPlanDate(activePlan.end_date)}`}
+                  variant='info'
+                  size='sm'
+                  fontFamily='SecondaryFont-Bold'
+                />
+                {activePlan.daily_goal_minutes ? (
+                  <Badge
+                    text={t('studyPlans.dailyMinutes', {
+                      count: activePlan.daily_goal_minutes,
+                    })}
+                    variant='warning'
+                    size='sm'
+                    fontFamily='SecondaryFont-Bold'
+                  />
+                ) : null}
+                {activePlan.daily_goal_questions ? (
+                  <Badge
+                    text={t('studyPlans.dailyQuestions', {
+                      count: activePlan.daily_goal_questions,
+                    })}
+                    variant='success'
+                    size='sm'
+                    fontFamily='SecondaryFont-Bold'
+                  />
+                ) : null}
+              </Row>
+
+              <ProgressBar
+                progress={Math.round(progress?.completion || 0)}
+                showPercentage
+                progressColor={contextColor}
+                height={10}
+              />
+
+              <Row style={styles.statsRow}>
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {progress?.daysRemaining ?? '-'}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t('studyPlans.daysLeft')}
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {progress?.questionsAnswered ?? 0}/
+                    {progress?.totalQuestions ?? 0}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t('studyPlans.questions')}
+                  </Text>
+                </View>
+                <View style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {t('studyPlans.percentage', {
+                      value: Math.round(progress?.overallAccuracy || 0),
+                    })}
+                  </Text>
+                  <Text style={styles.statLabel}>
+                    {t('studyPlans.accuracy')}
+                  </Text>
+                </View>
+              </Row>
+
+              <Button
+                title={t('studyPlans.pauseTitle')}
+                icon='pause'
+                size='small'
+                variant='outline'
+                disabled={isUpdating}
+                onPress={handleDeactivate}
+                style={styles.actionButton}
+              />
+            </PlayfulCard>
+          </SlideInElement>
+        ) : (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <EmptyState
+                icon='calendar'
+                title={t('studyPlans.noActiveTitle')}
+                message={t('studyPlans.noActiveMessage')}
+                actionButton={{
+                  title: t('studyPlans.createPlan'),
+                  onPress: handleCreatePlan,
+                }}
+                buttonFontFamily='PrimaryFont'
+              />
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        {/* Today's agenda */}
+        <SlideInElement delay={150}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {t('studyPlans.agendaTitle')}
+            </Text>
+            {recommendationsLoading ? (
+              <ActivityIndicator size='small' color={contextColor} />
+            ) : recommendations.length === 0 ? (
+              <Text style={styles.mutedText}>{t('studyPlans.noAgenda')}</Text>
+            ) : (
+              <>
+                <Text style={styles.mutedText}>
+                  {t('studyPlans.agendaTotals', todayTotals)}
+                </Text>
+                {recommendations.map((item) => (
+                  <AgendaItem
+                    key={item.topicId}
+                    item={item}
+                    contextColor={contextColor}
+                  />
+                ))}
+              </>
+            )}
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Topic progress */}
+        {activePlan && progress && progress.topicsProgress.length > 0 && (
+          <SlideInElement delay={200}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('studyPlans.topicProgress')}
+              </Text>
+              {progress.topicsProgress.map((topic) => (
+                <View key={topic.topicId} style={styles.topicItem}>
+                  <Row style={styles.topicHeader}>
+                    <Text style={styles.topicName} numberOfLines={1}>
+                      {topic.topicName ||
+                        t('studyPlans.topicFallback', { id: topic.topicId })}
+                    </Text>
+                    {topic.priority ? (
+                      <Badge
+                        text={studyPlanHelpers.getPriorityText(topic.priority)}
+                        variant={topic.priority === 1 ? 'error' : 'neutral'}
+                        size='sm'
+                        fontFamily='SecondaryFont-Bold'
+                      />
+                    ) : null}
+                  </Row>
+                  <ProgressBar
+                    progress={Math.round(topic.completion || 0)}
+                    progressColor={contextColor}
+                    height={6}
+                  />
+                  <Text style={styles.topicMeta}>
+                    {t('studyPlans.topicMeta', {
+                      answered: topic.questionsAnswered,
+                      total: topic.totalQuestions,
+                      accuracy: Math.round(topic.accuracy || 0),
+                    })}
+                  </Text>
+                </View>
+              ))}
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        {/* Other plans */}
+        <SlideInElement delay={250}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>{t('studyPlans.myPlans')}</Text>
+            {otherPlans.length === 0 ? (
+              <Text style={styles.mutedText}>
+                {t('studyPlans.noOtherPlans')}
+              </Text>
+            ) : (
+              otherPlans.map((plan) => (
+                <PlanListItem
+                  key={plan.plan_id}
+                  plan={plan}
+                  isUpdating={isUpdating}
+                  onActivate={handleActivate}
+                  onDelete={handleDelete}
+                />
+              ))
+            )}
+            <Button
+              title={t('studyPlans.newPlan')}
+              icon='plus'
+              variant='primary'
+              onPress={handleCreatePlan}
+              style={[styles.actionButton, { backgroundColor: contextColor }]}
+            />
+          </PlayfulCard>
+        </SlideInElement>
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,600 @@
+// app/(tabs)/plans/new.tsx - Study plan builder (template or custom)
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  Alert as RNAlert,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  Input,
+  SlideInElement,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  useActiveStudyPlan,
+  useStudyPlanTemplates,
+  useAvailableTopics,
+  useStudyPlanMutations,
+  studyPlanHelpers,
+} from '../../../src/hooks/useStudyPlanData';
+import { usePreferredCourse } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import type { StudyPlanTemplatePayload } from '../../../src/api/studyPlanService';
+import type { StudyPlan } from '../../../src/types/models';
+
+type BuilderMode = 'template' | 'custom';
+
+const DEFAULT_PLAN_DAYS = 90;
+const PRIORITY_CYCLE = [1, 2, 3];
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  modeRow: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.button,
+    padding: Spacing[1],
+    marginBottom: Spacing[4],
+  },
+  modeButton: {
+    flex: 1,
+    paddingVertical: Spacing[2],
+    borderRadius: BorderRadius.button,
+    alignItems: 'center',
+  },
+  modeText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[700],
+  },
+  modeTextActive: {
+    color: Colors.white,
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    marginBottom: Spacing[3],
+  },
+  templateItem: {
+    padding: Spacing[3],
+    borderRadius: BorderRadius.lg,
+    borderWidth: 2,
+    borderColor: Colors.gray[200],
+    marginBottom: Spacing[3],
+  },
+  templateTitle: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[1],
+  },
+  templateDescription: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginBottom: Spacing[2],
+  },
+  metaRow: {
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+  },
+  goalRow: {
+    gap: Spacing[3],
+  },
+  goalInput: {
+    flex: 1,
+  },
+  topicItem: {
+    alignItems: 'center',
+    paddingVertical: Spacing[2],
+    borderBottomWidth: 1,
+    borderBottomColor: Colors.gray[100],
+  },
+  topicInfo: {
+    flex: 1,
+    marginLeft: Spacing[2],
+  },
+  topicName: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+  },
+  priorityButton: {
+    paddingVertical: Spacing[1],
+    paddingHorizontal: Spacing[2],
+  },
+  mutedText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  actionButton: {
+    marginTop: Spacing[2],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// Selectable template card
+const TemplateItem = React.memo(
+  ({
+    template,
+    isSelected,
+    contextColor,
+    onSelect,
+  }: {
+    template: StudyPlanTemplatePayload;
+    isSelected: boolean;
+    contextColor: string;
+    onSelect: (templateId: number) => void;
+  }) => {
+    const { t } = useTranslation();
+
+    return (
+      <TouchableOpacity
+        style={[
+          styles.templateItem,
+          isSelected && { borderColor: contextColor },
+        ]}
+        onPress={() => onSelect(template.id)}
+        activeOpacity={0.8}
+      >
+        <Text style={styles.templateTitle}>{template.name}</Text>
+        {template.description ? (
+          <Text style={styles.templateDescription}>{template.description}</Text>
+        ) : null}
+        <Row style={styles.metaRow}>
+          <Badge
+            text={t('common.daysCount', { count: template.durationDays })}
+            variant='info'
+            size='sm'
+            fontFamily='SecondaryFont-Bold'
+          />
+          <Badge
+            text={t('studyPlans.minutesPerDay', {
+              count: template.dailyGoalMinutes,
+            })}
+            variant='warning'
+            size='sm'
+            fontFamily='SecondaryFont-Bold'
+          />
+          <Badge
+            text={t('studyPlans.questionsPerDay', {
+              count: template.dailyGoalQuestions,
+            })}
+            variant='success'
+            size='sm'
+            fontFamily='SecondaryFont-Bold'
+          />
+          <Badge
+            text={t('studyPlans.topicCount', {
+              count: template.topics.length,
+            })}
+            variant='neutral'
+            size='sm'
+            fontFamily='SecondaryFont-Bold'
+          />
+        </Row>
+      </TouchableOpacity>
+    );
+  },
+);
+
+export default function NewStudyPlanScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+
+  const today = useMemo(
+    () => studyPlanHelpers.toDateInputValue(new Date()),
+    [],
+  );
+
+  const [mode, setMode] = useState<BuilderMode>('template');
+  const [selectedTemplateId, setSelectedTemplateId] = useState<number | null>(
+    null,
+  );
+  const [startDate, setStartDate] = useState(today);
+  const [endDate, setEndDate] = useState(
+    studyPlanHelpers.addDays(today, DEFAULT_PLAN_DAYS),
+  );
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [dailyGoalMinutes, setDailyGoalMinutes] = useState('120');
+  const [dailyGoalQuestions, setDailyGoalQuestions] = useState('50');
+  // topicId -> priority
+  const [selectedTopics, setSelectedTopics] = useState<Record<number, number>>(
+    {},
+  );
+
+  const contextColor = useMemo(
+    () => getCourseColor(getCourseCategory(preferredCourse?.title || '')),
+    [preferredCourse?.title, getCourseColor, getCourseCategory],
+  );
+
+  const { data: activePlan } = useActiveStudyPlan();
+  const { data: templates = [], isLoading: templatesLoading } =
+    useStudyPlanTemplates();
+  const { data: topics = [], isLoading: topicsLoading } = useAvailableTopics(
+    mode === 'custom',
+  );
+  const { createCustomPlan, createFromTemplate, activatePlan, isCreating } =
+    useStudyPlanMutations();
+
+  const selectedTopicCount = Object.keys(selectedTopics).length;
+
+  const handleToggleTopic = useCallback((topicId: number) => {
+    setSelectedTopics((prev) => {
+      const next = { ...prev };
+      if (next[topicId]) {
+        delete next[topicId];
+      } else {
+        next[topicId] = 2;
+      }
+      return next;
+    });
+  }, []);
+
+  const handleCyclePriority = useCallback((topicId: number) => {
+    setSelectedTopics((prev) => {
+      const current = prev[topicId];
+      if (!current) return prev;
+      const nextIndex =
+        (PRIORITY_CYCLE.indexOf(current) + 1) % PRIORITY_CYCLE.length;
+      return { ...prev, [topicId]: PRIORITY_CYCLE[nextIndex] };
+    });
+  }, []);
+
+  const validate = useCallback((): string | null => {
+    if (!studyPlanHelpers.isValidDateInput(startDate)) {
+      return t('studyPlans.startDateInvalid');
+    }
+    if (mode === 'template') {
+      return selectedTemplateId ? null : t('studyPlans.templateRequired');
+    }
+    if (!name.trim()) return t('studyPlans.nameRequired');
+    if (!studyPlanHelpers.isValidDateInput(endDate)) {
+      return t('studyPlans.endDateInvalid');
+    }
+    if (endDate <= startDate) {
+      return t('studyPlans.endBeforeStart');
+    }
+    const minutes = parseInt(dailyGoalMinutes, 10);
+    const questions = parseInt(dailyGoalQuestions, 10);
+    if (isNaN(minutes) || minutes <= 0 || isNaN(questions) || questions < 0) {
+      return t('studyPlans.invalidGoals');
+    }
+    if (selectedTopicCount === 0) return t('studyPlans.topicsRequired');
+    return null;
+  }, [
+    mode,
+    startDate,
+    endDate,
+    name,
+    dailyGoalMinutes,
+    dailyGoalQuestions,
+    selectedTemplateId,
+    selectedTopicCount,
+    t,
+  ]);
+
+  const handleCreate = useCallback(async () => {
+    const validationError = validate();
+    if (validationError) {
+      RNAlert.alert(t('studyPlans.missingInfo'), validationError);
+      return;
+    }
+
+    try {
+      let plan: StudyPlan;
+      if (mode === 'template') {
+        plan = await createFromTemplate({
+          templateId: selectedTemplateId as number,
+          startDate,
+        });
+      } else {
+        plan = await createCustomPlan({
+          name: name.trim(),
+          description: description.trim(),
+          topics: Object.entries(selectedTopics).map(([topicId, priority]) => ({
+            topicId: Number(topicId),
+            priority,
+          })),
+          startDate,
+          endDate,
+          dailyGoalMinutes: parseInt(dailyGoalMinutes, 10),
+          dailyGoalQuestions: parseInt(dailyGoalQuestions, 10),
+        });
+      }
+
+      // First plan becomes the active one right away
+      if (!activePlan && !plan.is_active) {
+        await activatePlan(plan.plan_id);
+      }
+
+      RNAlert.alert(
+        t('studyPlans.createdTitle'),
+        t('studyPlans.createdMessage', { title: plan.title }),
+        [
+          {
+            text: t('common.ok'),
+            onPress: () => router.replace(buildRoute('plans')),
+          },
+        ],
+      );
+    } catch (createError) {
+      RNAlert.alert(
+        t('common.error'),
+        (createError as Error)?.message || t('studyPlans.createFailed'),
+      );
+    }
+  }, [
+    validate,
+    mode,
+    selectedTemplateId,
+    startDate,
+    endDate,
+    name,
+    description,
+    selectedTopics,
+    dailyGoalMinutes,
+    dailyGoalQuestions,
+    activePlan,
+    createFromTemplate,
+    createCustomPlan,
+    activatePlan,
+    router,
+    t,
+  ]);
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps='handled'
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('studyPlans.newTitle')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('studyPlans.newSubtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Mode switch */}
+        <Row style={styles.modeRow}>
+          {(['template', 'custom'] as BuilderMode[]).map((item) => (
+            <TouchableOpacity
+              key={item}
+              style={[
+                styles.modeButton,
+                mode === item && { backgroundColor: contextColor },
+              ]}
+              onPress={() => setMode(item)}
+              activeOpacity={0.8}
+            >
+              <Text
+                style={[
+                  styles.modeText,
+                  mode === item && styles.modeTextActive,
+                ]}
+              >
+                {item === 'template'
+                  ? t('studyPlans.modeTemplate')
+                  : t('studyPlans.modeCustom')}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </Row>
+
+        {mode === 'template' ? (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <Text style={styles.sectionTitle}>
+                {t('studyPlans.chooseTemplate')}
+              </Text>
+              {templatesLoading ? (
+                <ActivityIndicator size='small' color={contextColor} />
+              ) : templates.length === 0 ? (
+                <Text style={styles.mutedText}>
+                  {t('studyPlans.noTemplates')}
+                </Text>
+              ) : (
+                templates.map((template) => (
+                  <TemplateItem
+                    key={template.id}
+                    template={template}
+                    isSelected={selectedTemplateId === template.id}
+                    contextColor={contextColor}
+                    onSelect={setSelectedTemplateId}
+                  />
+                ))
+              )}
+              <Input
+                label={t('studyPlans.startDate')}
+                value={startDate}
+                onChangeText={setStartDate}
+                placeholder={t('examPlanner.datePlaceholder')}
+                leftIcon='calendar'
+              />
+            </PlayfulCard>
+          </SlideInElement>
+        ) : (
+          <>
+            <SlideInElement delay={100}>
+              <PlayfulCard style={styles.card} animated={false}>
+                <Text style={styles.sectionTitle}>
+                  {t('studyPlans.details')}
+                </Text>
+                <Input
+                  label={t('studyPlans.name')}
+                  value={name}
+                  onChangeText={setName}
+                  placeholder={t('studyPlans.namePlaceholder')}
+                />
+                <Input
+                  label={t('studyPlans.description')}
+                  value={description}
+                  onChangeText={setDescription}
+                  placeholder={t('studyPlans.optional')}
+                  multiline
+                  numberOfLines={2}
+                />
+                <Row style={styles.goalRow}>
+                  <Input
+                    label={t('studyPlans.start')}
+                    value={startDate}
+                    onChangeText={setStartDate}
+                    placeholder={t('examPlanner.datePlaceholder')}
+                    containerStyle={styles.goalInput}
+                  />
+                  <Input
+                    label={t('studyPlans.endExam')}
+                    value={endDate}
+                    onChangeText={setEndDate}
+                    placeholder={t('examPlanner.datePlaceholder')}
+                    containerStyle={styles.goalInput}
+                  />
+                </Row>
+                <Row style={styles.goalRow}>
+                  <Input
+                    label={t('studyPlans.dailyMinutesLabel')}
+                    value={dailyGoalMinutes}
+                    onChangeText={setDailyGoalMinutes}
+                    inputMode='numeric'
+                    containerStyle={styles.goalInput}
+                  />
+                  <Input
+                    label={t('studyPlans.dailyQuestionsLabel')}
+                    value={dailyGoalQuestions}
+                    onChangeText={setDailyGoalQuestions}
+                    inputMode='numeric'
+                    containerStyle={styles.goalInput}
+                  />
+                </Row>
+              </PlayfulCard>
+            </SlideInElement>
+
+            <SlideInElement delay={150}>
+              <PlayfulCard style={styles.card} animated={false}>
+                <Text style={styles.sectionTitle}>
+                  {t('studyPlans.topicsSelected', {
+                    count: selectedTopicCount,
+                  })}
+                </Text>
+                {topicsLoading ? (
+                  <ActivityIndicator size='small' color={contextColor} />
+                ) : topics.length === 0 ? (
+                  <Text style={styles.mutedText}>
+                    {t('studyPlans.noTopics')}
+                  </Text>
+                ) : (
+                  topics.map((topic) => {
+                    const priority = selectedTopics[topic.topic_id];
+                    return (
+                      <Row key={topic.topic_id} style={styles.topicItem}>
+                        <TouchableOpacity
+                          onPress={() => handleToggleTopic(topic.topic_id)}
+                        >
+                          <FontAwesome
+                            name={priority ? 'check-square' : 'square-o'}
+                            size={20}
+                            color={priority ? contextColor : Colors.gray[400]}
+                          />
+                        </TouchableOpacity>
+                        <Column style={styles.topicInfo}>
+                          <Text style={styles.topicName}>{topic.title}</Text>
+                        </Column>
+                        {priority ? (
+                          <TouchableOpacity
+                            style={styles.priorityButton}
+                            onPress={() => handleCyclePriority(topic.topic_id)}
+                          >
+                            <Badge
+                              text={studyPlanHelpers.getPriorityText(priority)}
+                              variant={priority === 1 ? 'error' : 'neutral'}
+                              size='sm'
+                              fontFamily='SecondaryFont-Bold'
+                            />
+                          </TouchableOpacity>
+                        ) : null}
+                      </Row>
+                    );
+                  })
+                )}
+              </PlayfulCard>
+            </SlideInElement>
+          </>
+        )}
+
+        <Button
+          title={isCreating ? t('studyPlans.creating') : t('studyPlans.create')}
+          icon='check'
+          variant='primary'
+          size='large'
+          loading={isCreating}
+          disabled={isCreating}
+          onPress={handleCreate}
+          style={[styles.actionButton, { backgroundColor: contextColor }]}
+        />
+        <Button
+          title={t('studyPlans.dismiss')}
+          variant='ghost'
+          onPress={() => router.back()}
+          style={styles.actionButton}
+        />
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -10,6 +10,7 @@ import {
   FlatList,
 } from 'react-native';
 import { useLocalSearchParams, Stack, useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import { FontAwesome } from '@expo/vector-icons';
 import {
   PlayfulCard,
@@ -39,15 +40,16 @@ import {
   type AchievementFilters,
 } from '../../../src/hooks/useAchievementsData';
 import {
-  getTurkishRequirementName,
-  getTurkishRequirementDetail,
-  getTurkishCompletionStatus,
-  getTurkishCategoryName,
-  getTurkishRarityName,
+  getRequirementName,
+  getRequirementDetail,
+  getCompletionStatus,
+  getCategoryName,
+  getRarityName,
   getNextMilestone,
   formatProgressPercentage,
 } from '../../../src/api/achievementService';
 import type { AchievementProgress } from '../../../src/types/models';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 // 🚀 UPDATED: Import from appStore instead of PreferredCourseContext
 import { usePreferredCourse } from '../../../stores/appStore';
 
@@ -69,6 +71,7 @@ const OPTIMIZED_SHADOW = {
 function AchievementScreenContent() {
   const { id } = useLocalSearchParams();
   const router = useRouter();
+  const { t, dateLocale } = useTranslation();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
@@ -229,13 +232,13 @@ function AchievementScreenContent() {
   }, [achievementDetails]);
 
   const handleViewAllAchievements = useCallback(() => {
-    router.push('/(tabs)/profile/achievements' as any);
+    router.push(buildRoute('achievements'));
   }, [router]);
 
   const handleAchievementPress = useCallback(
     (achievementItem: EnhancedAchievement) => {
       router.push(
-        `/(tabs)/profile/achievement/${achievementItem.achievement_id}` as any,
+        buildRoute('achievements', { id: achievementItem.achievement_id }),
       );
     },
     [router],
@@ -248,7 +251,9 @@ function AchievementScreenContent() {
 
       return (
         <Column style={styles.requirementsContainer}>
-          <Text style={styles.requirementsTitle}>Gereksinimler:</Text>
+          <Text style={styles.requirementsTitle}>
+            {t('achievements.requirements')}
+          </Text>
           {requirements.map(
             ([key, req]: [
               string,
@@ -257,7 +262,7 @@ function AchievementScreenContent() {
               <View key={key} style={styles.requirementItem}>
                 <Row style={styles.requirementHeader}>
                   <Text style={styles.requirementLabel}>
-                    {getTurkishRequirementName(key)}
+                    {getRequirementName(key)}
                   </Text>
                 </Row>
                 <ProgressBar
@@ -273,7 +278,7 @@ function AchievementScreenContent() {
                   animated
                 />
                 <Text style={styles.requirementDetail}>
-                  {getTurkishRequirementDetail(key, req)}
+                  {getRequirementDetail(key, req)}
                 </Text>
               </View>
             ),
@@ -281,7 +286,7 @@ function AchievementScreenContent() {
         </Column>
       );
     },
-    [contextColor, getRarityColor],
+    [contextColor, getRarityColor, t],
   );
 
   // 🚀 OPTIMIZED: Achievement list item with improved performance
@@ -317,7 +322,7 @@ function AchievementScreenContent() {
               <Column style={styles.listItemText}>
                 <Text style={styles.listItemTitle}>{item.name}</Text>
                 <Text style={styles.listItemDescription}>
-                  {item.description || 'Açıklama bulunmuyor'}
+                  {item.description || t('achievements.noDescription')}
                 </Text>
 
                 {/* Next milestone for locked achievements */}
@@ -336,7 +341,7 @@ function AchievementScreenContent() {
                     fontFamily='SecondaryFont-Bold'
                   />
                   <Badge
-                    text={item.turkish_rarity}
+                    text={item.rarity_name}
                     variant={getRarityBadgeVariant(item.rarity)}
                     size='sm'
                     fontFamily='SecondaryFont-Bold'
@@ -367,14 +372,15 @@ function AchievementScreenContent() {
       getRarityColor,
       getRarityBadgeVariant,
       safeProgress,
+      t,
     ],
   );
 
   // Get header title - memoized
   const getHeaderTitle = useCallback(() => {
-    if (isListMode) return 'Başarılar';
-    return achievementDetails?.name || 'Başarı';
-  }, [isListMode, achievementDetails]);
+    if (isListMode) return t('achievements.title');
+    return achievementDetails?.name || t('achievements.achievement');
+  }, [isListMode, achievementDetails, t]);
 
   // 🚀 IMPROVED: Determine loading state
   const isLoading = isListMode ? achievementsLoading : detailLoading;
@@ -401,7 +407,9 @@ function AchievementScreenContent() {
             color={colorHelpers.getCoralColor()}
           />
           <Text style={styles.loadingText}>
-            {isListMode ? 'Başarılar' : 'Başarı'} yükleniyor...
+            {isListMode
+              ? t('achievements.loadingList')
+              : t('achievements.loadingDetail')}
           </Text>
         </View>
       </View>
@@ -424,17 +432,21 @@ function AchievementScreenContent() {
         />
         <EmptyState
           icon='exclamation-triangle'
-          title={isListMode ? 'Başarılar Bulunamadı' : 'Başarı Bulunamadı'}
+          title={
+            isListMode
+              ? t('achievements.listNotFoundTitle')
+              : t('achievements.notFoundTitle')
+          }
           message={
             currentError?.message ||
             (isListMode
-              ? 'Henüz başarı bulunmuyor'
-              : 'İstenen başarı bulunamadı')
+              ? t('achievements.listEmptyMessage')
+              : t('achievements.notFoundMessage'))
           }
           fontFamily='SecondaryFont-Regular'
           titleFontFamily='PrimaryFont'
           actionButton={{
-            title: 'Yeniden Dene',
+            title: t('common.tryAgain'),
             onPress: () => refetchAll(),
             variant: 'primary',
           }}
@@ -451,7 +463,7 @@ function AchievementScreenContent() {
       <View style={styles.container}>
         <Stack.Screen
           options={{
-            title: 'Başarılar',
+            title: t('achievements.title'),
             headerStyle: { backgroundColor: colorHelpers.getHeaderColor() },
             headerTintColor: Colors.white || '#ffffff',
             headerTitleStyle: {
@@ -504,7 +516,7 @@ function AchievementScreenContent() {
           {/* Filter Section */}
           <SlideInElement delay={100}>
             <PlayfulCard
-              title='Filtreler'
+              title={t('achievements.filters')}
               variant='playful'
               titleFontFamily='PrimaryFont'
               category={(preferredCourse as any)?.category}
@@ -534,7 +546,7 @@ function AchievementScreenContent() {
                         : dynamicStyles.inactiveFilterText,
                     ]}
                   >
-                    Tümü
+                    {t('common.all')}
                   </Text>
                 </TouchableOpacity>
 
@@ -556,7 +568,7 @@ function AchievementScreenContent() {
                         : dynamicStyles.inactiveFilterText,
                     ]}
                   >
-                    Tamamlanan
+                    {t('achievements.filterUnlocked')}
                   </Text>
                 </TouchableOpacity>
 
@@ -577,7 +589,7 @@ function AchievementScreenContent() {
                         : dynamicStyles.inactiveFilterText,
                     ]}
                   >
-                    Devam Eden
+                    {t('achievements.filterLocked')}
                   </Text>
                 </TouchableOpacity>
               </View>
@@ -595,8 +607,8 @@ function AchievementScreenContent() {
               ListEmptyComponent={
                 <EmptyState
                   icon='trophy'
-                  title='Başarı Bulunamadı'
-                  message='Seçilen filtrelere uygun başarı bulunamadı'
+                  title={t('achievements.notFoundTitle')}
+                  message={t('achievements.noMatchMessage')}
                   fontFamily='SecondaryFont-Regular'
                   titleFontFamily='PrimaryFont'
                 />
@@ -664,7 +676,8 @@ function AchievementScreenContent() {
               </PlayfulTitle>
 
               <Paragraph style={styles.achievementDescription}>
-                {achievementDetails!.description || 'Açıklama bulunmuyor'}
+                {achievementDetails!.description ||
+                  t('achievements.noDescription')}
               </Paragraph>
 
               <Row style={styles.badgeRow}>
@@ -677,7 +690,7 @@ function AchievementScreenContent() {
                   fontFamily='SecondaryFont-Bold'
                 />
                 <Badge
-                  text={achievementDetails!.turkish_rarity}
+                  text={achievementDetails!.rarity_name}
                   variant={getRarityBadgeVariant(achievementDetails!.rarity)}
                   size='md'
                   fontFamily='SecondaryFont-Bold'
@@ -686,7 +699,9 @@ function AchievementScreenContent() {
 
               <View style={styles.pointsContainer}>
                 <Text style={styles.pointsText}>
-                  {achievementDetails!.points} Puan
+                  {t('achievements.points', {
+                    points: achievementDetails!.points,
+                  })}
                 </Text>
               </View>
             </Column>
@@ -696,7 +711,7 @@ function AchievementScreenContent() {
         {/* Progress Section */}
         <SlideInElement delay={200}>
           <PlayfulCard
-            title='İlerleme'
+            title={t('achievements.progress')}
             titleFontFamily='PrimaryFont'
             style={[styles.sectionCard, OPTIMIZED_SHADOW]}
             variant='elevated'
@@ -704,7 +719,9 @@ function AchievementScreenContent() {
           >
             <Column style={styles.progressContent}>
               <Row style={styles.progressHeader}>
-                <Text style={styles.progressText}>Genel İlerleme</Text>
+                <Text style={styles.progressText}>
+                  {t('achievements.overallProgress')}
+                </Text>
               </Row>
 
               <ProgressBar
@@ -729,15 +746,15 @@ function AchievementScreenContent() {
               {/* Date earned */}
               {achievementDetails!.date_earned && (
                 <Text style={styles.dateEarnedText}>
-                  {new Date(achievementDetails!.date_earned).toLocaleDateString(
-                    'tr-TR',
-                    {
+                  {t('achievements.earnedOn', {
+                    date: new Date(
+                      achievementDetails!.date_earned,
+                    ).toLocaleDateString(dateLocale, {
                       year: 'numeric',
                       month: 'long',
                       day: 'numeric',
-                    },
-                  )}{' '}
-                  tarihinde kazanıldı
+                    }),
+                  })}
                 </Text>
               )}
 
@@ -759,14 +776,14 @@ function AchievementScreenContent() {
           <Row style={styles.statsRow}>
             <StatCard
               icon='tag'
-              title='Kategori'
-              value={achievementDetails!.turkish_category}
+              title={t('achievements.category')}
+              value={achievementDetails!.category_name}
               color={getRarityColor(achievementDetails!.rarity)}
               titleFontFamily='SecondaryFont-Bold'
             />
             <StatCard
               icon='calendar'
-              title='Oluşturulma'
+              title={t('achievements.created')}
               value={new Date(achievementDetails!.created_at)
                 .getFullYear()
                 .toString()}
@@ -781,7 +798,7 @@ function AchievementScreenContent() {
         {/* Actions Section */}
         <SlideInElement delay={600}>
           <PlayfulCard
-            title='Hızlı İşlemler'
+            title={t('common.quickActions')}
             titleFontFamily='PrimaryFont'
             style={[styles.sectionCard, OPTIMIZED_SHADOW]}
             variant='playful'
@@ -790,7 +807,7 @@ function AchievementScreenContent() {
             <Row>
               {achievementDetails!.is_unlocked && (
                 <PlayfulButton
-                  title='Başarıyı Paylaş'
+                  title={t('achievements.share')}
                   onPress={handleShareAchievement}
                   variant='outline'
                   style={styles.shareButton}
@@ -801,7 +818,7 @@ function AchievementScreenContent() {
                 />
               )}
               <PlayfulButton
-                title='Tüm Başarıları Gör'
+                title={t('achievements.viewAll')}
                 onPress={handleViewAllAchievements}
                 variant='outline'
                 style={[
@@ -821,7 +838,7 @@ function AchievementScreenContent() {
         {relatedAchievements.length > 0 && (
           <SlideInElement delay={800}>
             <PlayfulCard
-              title='İlgili Başarılar'
+              title={t('achievements.related')}
               titleFontFamily='PrimaryFont'
               style={[styles.sectionCard, OPTIMIZED_SHADOW]}
               variant='glass'
@@ -835,7 +852,9 @@ function AchievementScreenContent() {
                     style={styles.relatedItem}
                     onPress={() =>
                       router.push(
-                        `/(tabs)/profile/achievement/${related.achievement_id}` as any,
+                        buildRoute('achievements', {
+                          id: related.achievement_id,
+                        }),
                       )
                     }
                   >
@@ -855,7 +874,8 @@ function AchievementScreenContent() {
                           {related.name}
                         </Text>
                         <Text style={styles.relatedItemDescription}>
-                          {related.description || 'Açıklama bulunmuyor'}
+                          {related.description ||
+                            t('achievements.noDescription')}
                         </Text>
                         <Badge
                           text={related.completion_status}
@@ -886,7 +906,7 @@ function AchievementScreenContent() {
         <CelebrationModal
           visible={showCelebration}
           onClose={() => setShowCelebration(false)}
-          title='Başarı Kazanıldı!'
+          title={t('achievements.unlocked')}
           celebrationType='achievement'
           achievement={achievementDetails.name}
           score={achievementDetails.points}
@@ -0,0 +1,329 @@
+// app/(tabs)/profile/change-password.tsx - Change the signed-in user's password
+
+import React, { useState, useMemo, useCallback } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Button,
+  Alert,
+  Input,
+  SlideInElement,
+  Colors,
+  Spacing,
+} from '../../../components/ui';
+import { updatePassword } from '../../../src/api/authService';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import { useAuth } from '../../../stores/appStore';
+import { buildRoute } from '../../../constants/routes';
+import type { TranslationKey } from '../../../localization';
+
+const PASSWORD_MIN_LENGTH = 8;
+const PASSWORD_MIN_CRITERIA = 3;
+
+// Same rules as registration: 8+ characters and 3 of 4 character types
+const PASSWORD_CRITERIA: Array<{ key: TranslationKey; test: RegExp }> = [
+  { key: 'auth.passwordCriteria.upperCase', test: /[A-Z]/ },
+  { key: 'auth.passwordCriteria.lowerCase', test: /[a-z]/ },
+  { key: 'auth.passwordCriteria.number', test: /\d/ },
+  { key: 'auth.passwordCriteria.special', test: /[!@#$%^&*(),.?":{}|<>]/ },
+];
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  field: {
+    marginBottom: Spacing[3],
+  },
+  criteriaTitle: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[2],
+  },
+  criterionRow: {
+    alignItems: 'center',
+    gap: Spacing[2],
+    marginBottom: Spacing[1],
+  },
+  criterionText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  criterionMet: {
+    color: Colors.vibrant.green,
+  },
+  criteriaNote: {
+    marginTop: Spacing[1],
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[500],
+  },
+  statusAlert: {
+    marginBottom: Spacing[4],
+  },
+  actions: {
+    gap: Spacing[3],
+  },
+});
+
+export default function ChangePasswordScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { user } = useAuth();
+
+  const [currentPassword, setCurrentPassword] = useState('');
+  const [newPassword, setNewPassword] = useState('');
+  const [confirmPassword, setConfirmPassword] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  const criteria = useMemo(
+    () =>
+      [
+        {
+          key: 'auth.passwordCriteria.minLength' as TranslationKey,
+          met: newPassword.length >= PASSWORD_MIN_LENGTH,
+        },
+      ].concat(
+        PASSWORD_CRITERIA.map(({ key, test }) => ({
+          key,
+          met: test.test(newPassword),
+        })),
+      ),
+    [newPassword],
+  );
+
+  const isStrong =
+    criteria[0].met &&
+    criteria.slice(1).filter((criterion) => criterion.met).length >=
+      PASSWORD_MIN_CRITERIA;
+  const confirmError =
+    confirmPassword && confirmPassword !== newPassword
+      ? t('auth.passwordsDontMatch')
+      : undefined;
+
+  const handleSubmit = useCallback(async () => {
+    setError(null);
+    setSuccess(false);
+
+    if (!currentPassword || !newPassword || !confirmPassword) {
+      setError(t('auth.fillAllFields'));
+      return;
+    }
+    if (!isStrong) {
+      setError(t('auth.passwordRules'));
+      return;
+    }
+    if (newPassword !== confirmPassword) {
+      setError(t('auth.passwordsDontMatchCheck'));
+      return;
+    }
+    if (newPassword === currentPassword) {
+      setError(t('changePassword.samePassword'));
+      return;
+    }
+
+    setIsSaving(true);
+    try {
+      await updatePassword(currentPassword, newPassword);
+      setSuccess(true);
+      setCurrentPassword('');
+      setNewPassword('');
+      setConfirmPassword('');
+    } catch (updateError) {
+      setError(
+        updateError instanceof Error
+          ? updateError.message
+          : t('changePassword.failed'),
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  }, [currentPassword, newPassword, confirmPassword, isStrong, t]);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('profile'));
+    }
+  }, [router]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps='handled'
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('profile.changePassword')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('changePassword.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {success && (
+          <Alert
+            type='success'
+            title={t('changePassword.successTitle')}
+            message={t('changePassword.successMessage')}
+            dismissible
+            onDismiss={() => setSuccess(false)}
+            style={styles.statusAlert}
+          />
+        )}
+        {error && (
+          <Alert
+            type='error'
+            message={error}
+            dismissible
+            onDismiss={() => setError(null)}
+            style={styles.statusAlert}
+          />
+        )}
+
+        {user?.isOAuthUser ? (
+          <Alert
+            type='info'
+            title={t('changePassword.oauthTitle')}
+            message={t('changePassword.oauthMessage', {
+              provider: user.oauthProvider || 'OAuth',
+            })}
+            style={styles.statusAlert}
+          />
+        ) : (
+          <SlideInElement delay={100}>
+            <PlayfulCard style={styles.card} animated={false}>
+              <View style={styles.field}>
+                <Input
+                  label={t('changePassword.currentPassword')}
+                  value={currentPassword}
+                  onChangeText={setCurrentPassword}
+                  placeholder={t('auth.passwordPlaceholder')}
+                  secureTextEntry
+                  autoCapitalize='none'
+                  leftIcon='lock'
+                />
+              </View>
+              <View style={styles.field}>
+                <Input
+                  label={t('changePassword.newPassword')}
+                  value={newPassword}
+                  onChangeText={setNewPassword}
+                  placeholder={t('auth.newPasswordPlaceholder')}
+                  secureTextEntry
+                  autoCapitalize='none'
+                  leftIcon='key'
+                />
+              </View>
+              <View style={styles.field}>
+                <Input
+                  label={t('auth.confirmPassword')}
+                  value={confirmPassword}
+                  onChangeText={setConfirmPassword}
+                  placeholder={t('auth.confirmPasswordPlaceholder')}
+                  secureTextEntry
+                  autoCapitalize='none'
+                  leftIcon='key'
+                  error={confirmError}
+                />
+              </View>
+
+              <Text style={styles.criteriaTitle}>
+                {t('auth.passwordRequirementsTitle')}
+              </Text>
+              {criteria.map((criterion) => (
+                <Row key={criterion.key} style={styles.criterionRow}>
+                  <FontAwesome
+                    name={criterion.met ? 'check-circle' : 'circle-o'}
+                    size={14}
+                    color={
+                      criterion.met ? Colors.vibrant.green : Colors.gray[400]
+                    }
+                  />
+                  <Text
+                    style={[
+                      styles.criterionText,
+                      criterion.met && styles.criterionMet,
+                    ]}
+                  >
+                    {t(criterion.key)}
+                  </Text>
+                </Row>
+              ))}
+              <Text style={styles.criteriaNote}>
+                {t('auth.passwordCriteriaNote')}
+              </Text>
+            </PlayfulCard>
+          </SlideInElement>
+        )}
+
+        <View style={styles.actions}>
+          {!user?.isOAuthUser && (
+            <Button
+              title={t('changePassword.submit')}
+              variant='primary'
+              onPress={handleSubmit}
+              loading={isSaving}
+              disabled={isSaving}
+              icon='check'
+            />
+          )}
+          <Button
+            title={t('navigation.goBack')}
+            variant='outline'
+            onPress={handleBack}
+            icon='arrow-left'
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
@@ -0,0 +1,246 @@
+// app/(tabs)/profile/exam-dates.tsx - Set the target DUS exam sessions
+
+import React, { useState, useEffect, useCallback } from 'react';
+import {
+  View,
+  ScrollView,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Button,
+  Alert,
+  Input,
+  ExamCard,
+  SlideInElement,
+  Colors,
+  Spacing,
+} from '../../../components/ui';
+import {
+  useExamDates,
+  useUpdateExamDates,
+  examPlannerHelpers,
+  EXAM_SESSIONS,
+  EXAM_SESSION_LABELS,
+  type ExamDates,
+  type ExamSession,
+} from '../../../src/hooks/useExamPlannerData';
+import { studyPlanHelpers } from '../../../src/hooks/useStudyPlanData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { buildRoute } from '../../../constants/routes';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  field: {
+    marginBottom: Spacing[3],
+  },
+  examCard: {
+    marginBottom: Spacing[3],
+  },
+  statusAlert: {
+    marginBottom: Spacing[4],
+  },
+  actions: {
+    gap: Spacing[3],
+  },
+});
+
+const getExamStatus = (
+  daysRemaining: number,
+): 'upcoming' | 'active' | 'completed' => {
+  if (daysRemaining > 0) return 'upcoming';
+  if (daysRemaining === 0) return 'active';
+  return 'completed';
+};
+
+const getTimeRemaining = (daysRemaining: number, t: TFunction): string =>
+  daysRemaining === 0
+    ? t('examPlanner.examToday')
+    : t('examPlanner.daysLeft', { count: daysRemaining });
+
+export default function ExamDatesScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const savedDates = useExamDates();
+  const { updateExamDates, isUpdating } = useUpdateExamDates();
+
+  const [dates, setDates] = useState<ExamDates>(savedDates);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState(false);
+
+  // Pick up the profile once it has loaded
+  useEffect(() => {
+    setDates(savedDates);
+  }, [savedDates]);
+
+  const handleChange = useCallback((session: ExamSession, value: string) => {
+    setSuccess(false);
+    setDates((current) => ({ ...current, [session]: value.trim() || null }));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError(null);
+    setSuccess(false);
+
+    const invalidSession = EXAM_SESSIONS.find(
+      (session) =>
+        dates[session] && !studyPlanHelpers.isValidDateInput(dates[session]!),
+    );
+    if (invalidSession) {
+      setError(
+        t('examPlanner.invalidDate', {
+          session: t(EXAM_SESSION_LABELS[invalidSession]),
+        }),
+      );
+      return;
+    }
+
+    try {
+      await updateExamDates(dates);
+      setSuccess(true);
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : t('examPlanner.saveFailed'),
+      );
+    }
+  }, [dates, updateExamDates, t]);
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('profile'));
+    }
+  }, [router]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps='handled'
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('examPlanner.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('examPlanner.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {success && (
+          <Alert
+            type='success'
+            message={t('examPlanner.saved')}
+            dismissible
+            onDismiss={() => setSuccess(false)}
+            style={styles.statusAlert}
+          />
+        )}
+        {error && (
+          <Alert
+            type='error'
+            message={error}
+            dismissible
+            onDismiss={() => setError(null)}
+            style={styles.statusAlert}
+          />
+        )}
+
+        {/* Saved sessions */}
+        {EXAM_SESSIONS.map((session) => {
+          const date = savedDates[session];
+          if (!date) return null;
+          const daysRemaining = examPlannerHelpers.getDaysUntil(date);
+          return (
+            <ExamCard
+              key={session}
+              title={t(EXAM_SESSION_LABELS[session])}
+              date={studyPlanHelpers.formatPlanDate(date)}
+              timeRemaining={getTimeRemaining(daysRemaining, t)}
+              status={getExamStatus(daysRemaining)}
+              style={styles.examCard}
+            />
+          );
+        })}
+
+        {/* Edit */}
+        <SlideInElement delay={100}>
+          <PlayfulCard style={styles.card} animated={false}>
+            {EXAM_SESSIONS.map((session) => (
+              <View key={session} style={styles.field}>
+                <Input
+                  label={t(EXAM_SESSION_LABELS[session])}
+                  value={dates[session] ?? ''}
+                  onChangeText={(value) => handleChange(session, value)}
+                  placeholder={t('examPlanner.datePlaceholder')}
+                  helperText={t('examPlanner.dateHint')}
+                  leftIcon='calendar'
+                />
+              </View>
+            ))}
+          </PlayfulCard>
+        </SlideInElement>
+
+        <View style={styles.actions}>
+          <Button
+            title={t('common.save')}
+            variant='primary'
+            onPress={handleSave}
+            loading={isUpdating}
+            disabled={isUpdating}
+            icon='check'
+          />
+          <Button
+            title={t('navigation.goBack')}
+            variant='outline'
+            onPress={handleBack}
+            icon='arrow-left'
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
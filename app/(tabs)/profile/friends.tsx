@@ -12,6 +12,7 @@ import {
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 import {
   Container,
   SlideInElement,
@@ -41,6 +42,7 @@ import { Friend, FriendRequest, User } from '../../../src/types/models';
 // 🚀 NEW: Import the enhanced hooks
 import { useFriendsData } from '../../../src/hooks/useFriendsData';
 import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 
 // User search result interface
 interface UserSearchResult {
@@ -64,6 +66,7 @@ const OPTIMIZED_SHADOW = {
 // Main Friends Screen Component (wrapped with context)
 function FriendsScreenContent() {
   const router = useRouter();
+  const { t, dateLocale } = useTranslation();
   const colorScheme = useColorScheme();
   const isDark = colorScheme === 'dark';
 
@@ -275,11 +278,11 @@ function FriendsScreenContent() {
           },
         ]);
       } else {
-        setSearchError(`'${searchQuery}' kullanıcısı bulunamadı.`);
+        setSearchError(t('friends.userNotFound', { query: searchQuery }));
       }
     } catch (err) {
       if (isMounted) {
-        setSearchError('Arama sırasında hata oluştu.');
+        setSearchError(t('friends.searchFailed'));
       }
       console.error('Search error:', err);
     } finally {
@@ -291,7 +294,7 @@ function FriendsScreenContent() {
     return () => {
       isMounted = false;
     };
-  }, [searchQuery, isAuthenticated]);
+  }, [searchQuery, isAuthenticated, t]);
 
   // 🚀 UPDATED: Send friend request using the new hook
   const handleSendFriendRequest = useCallback(
@@ -308,20 +311,18 @@ function FriendsScreenContent() {
 
         setSearchResults((prev) => prev.filter((user) => user.id !== userId));
         setSearchError(null);
-        setSuccessMessage(
-          `${username} kullanıcısına arkadaşlık isteği gönderildi.`,
-        );
+        setSuccessMessage(t('friends.requestSent', { username }));
       } catch (err) {
         if (err instanceof ApiError) {
           setSearchError(err.message);
         } else {
-          setSearchError('Arkadaşlık isteği gönderilemedi.');
+          setSearchError(t('friends.requestFailed'));
         }
       } finally {
         setLoadingActions((prev) => ({ ...prev, [userId]: false }));
       }
     },
-    [isAuthenticated, sendFriendRequest],
+    [isAuthenticated, sendFriendRequest, t],
   );
 
   // 🚀 UPDATED: Accept friend request using the new hook
@@ -335,18 +336,18 @@ function FriendsScreenContent() {
 
       try {
         await acceptRequest(friendId);
-        setSuccessMessage(`${username} ile artık arkadaşsınız!`);
+        setSuccessMessage(t('friends.accepted', { username }));
       } catch (err) {
         if (err instanceof ApiError) {
           setError(err.message);
         } else {
-          setError('İstek kabul edilemedi.');
+          setError(t('friends.acceptFailed'));
         }
       } finally {
         setLoadingActions((prev) => ({ ...prev, [friendId]: false }));
       }
     },
-    [isAuthenticated, acceptRequest],
+    [isAuthenticated, acceptRequest, t],
   );
 
   // 🚀 UPDATED: Reject friend request using the new hook
@@ -360,18 +361,18 @@ function FriendsScreenContent() {
 
       try {
         await rejectRequest(friendId);
-        setSuccessMessage(`${username} kullanıcısının isteği reddedildi.`);
+        setSuccessMessage(t('friends.rejected', { username }));
       } catch (err) {
         if (err instanceof ApiError) {
           setError(err.message);
         } else {
-          setError('İstek reddedilemedi.');
+          setError(t('friends.rejectFailed'));
         }
       } finally {
         setLoadingActions((prev) => ({ ...prev, [friendId]: false }));
       }
     },
-    [isAuthenticated, rejectRequest],
+    [isAuthenticated, rejectRequest, t],
   );
 
   // 🚀 UPDATED: Remove friend using the new hook
@@ -380,26 +381,24 @@ function FriendsScreenContent() {
       if (!isAuthenticated) return;
 
       RNAlert.alert(
-        'Arkadaşlığı Sonlandır',
-        `${username} ile arkadaşlığınızı sonlandırmak istediğinizden emin misiniz?`,
+        t('friends.removeTitle'),
+        t('friends.removeMessage', { username }),
         [
-          { text: 'İptal', style: 'cancel' },
+          { text: t('common.cancel'), style: 'cancel' },
           {
-            text: 'Sonlandır',
+            text: t('friends.removeConfirm'),
             style: 'destructive',
             onPress: async () => {
               setLoadingActions((prev) => ({ ...prev, [friendId]: true }));
 
               try {
                 await removeFriend(friendId);
-                setSuccessMessage(
-                  `${username} ile arkadaşlığınız sonlandırıldı.`,
-                );
+                setSuccessMessage(t('friends.removed', { username }));
               } catch (err) {
                 if (err instanceof ApiError) {
                   setError(err.message);
                 } else {
-                  setError('Arkadaşlık sonlandırılamadı.');
+                  setError(t('friends.removeFailed'));
                 }
               } finally {
                 setLoadingActions((prev) => ({ ...prev, [friendId]: false }));
@@ -409,7 +408,7 @@ function FriendsScreenContent() {
         ],
       );
     },
-    [isAuthenticated, removeFriend],
+    [isAuthenticated, removeFriend, t],
   );
 
   // Update loading actions based on hook states
@@ -435,13 +434,13 @@ function FriendsScreenContent() {
   // Update error states from hooks
   useEffect(() => {
     if (sendRequestError) {
-      setError(sendRequestError.message || 'Arkadaşlık isteği gönderilemedi.');
+      setError(sendRequestError.message || t('friends.requestFailed'));
     } else if (acceptRequestError) {
-      setError(acceptRequestError.message || 'İstek kabul edilemedi.');
+      setError(acceptRequestError.message || t('friends.acceptFailed'));
     } else if (rejectRequestError) {
-      setError(rejectRequestError.message || 'İstek reddedilemedi.');
+      setError(rejectRequestError.message || t('friends.rejectFailed'));
     } else if (removeFriendError) {
-      setError(removeFriendError.message || 'Arkadaşlık sonlandırılamadı.');
+      setError(removeFriendError.message || t('friends.removeFailed'));
     } else if (friendsDataHasError && errorMessages.length > 0) {
       setError(errorMessages.join(', '));
     }
@@ -452,6 +451,7 @@ function FriendsScreenContent() {
     removeFriendError,
     friendsDataHasError,
     errorMessages,
+    t,
   ]);
 
   // Filter buttons with context color - memoized component
@@ -521,12 +521,18 @@ function FriendsScreenContent() {
             <Column style={styles.searchResultColumn}>
               <Text style={styles.searchResultUsername}>{user.username}</Text>
               <Text style={styles.searchResultWinRate}>
-                Kazanma Oranı: {((user.winRate || 0) * 100).toFixed(0)}%
+                {t('friends.winRate', {
+                  rate: ((user.winRate || 0) * 100).toFixed(0),
+                })}
               </Text>
             </Column>
           </Row>
           <Button
-            title={loadingActions[user.id] ? 'Gönderiliyor...' : 'İstek Gönder'}
+            title={
+              loadingActions[user.id]
+                ? t('friends.sending')
+                : t('friends.sendRequest')
+            }
             variant='primary'
             size='small'
             onPress={() => handleSendFriendRequest(user.id, user.username)}
@@ -547,36 +553,42 @@ function FriendsScreenContent() {
         <Row style={styles.friendInfo}>
           <Column style={styles.friendColumn}>
             <Text style={styles.friendUsername}>
-              {friend.friend_username || `Kullanıcı #${friend.friend_id}`}
+              {friend.friend_username ||
+                t('friends.userFallback', { id: friend.friend_id })}
             </Text>
             <Text style={styles.friendDate}>
-              Arkadaş olundu:{' '}
-              {new Date(friend.created_at).toLocaleDateString('tr-TR')}
+              {t('friends.friendsSince', {
+                date: new Date(friend.created_at).toLocaleDateString(
+                  dateLocale,
+                ),
+              })}
             </Text>
           </Column>
         </Row>
         <Row style={styles.friendActions}>
           <Button
-            title='Düello'
+            title={t('friends.duel')}
             variant='primary'
             size='small'
             onPress={() => {
-              router.push({
-                pathname: '/(tabs)/duels/new' as any,
-                params: { preselectedFriend: friend.friend_id.toString() },
-              });
+              router.push(
+                buildRoute('newDuel', { preselectedFriend: friend.friend_id }),
+              );
             }}
             style={styles.duelButton}
             textStyle={styles.buttonText}
           />
           <Button
-            title={loadingActions[friend.friend_id] ? '...' : 'Kaldır'}
+            title={
+              loadingActions[friend.friend_id] ? '...' : t('friends.remove')
+            }
             variant='outline'
             size='small'
             onPress={() =>
               handleRemoveFriend(
                 friend.friend_id,
-                friend.friend_username || `Kullanıcı #${friend.friend_id}`,
+                friend.friend_username ||
+                  t('friends.userFallback', { id: friend.friend_id }),
               )
             }
             disabled={loadingActions[friend.friend_id]}
@@ -596,23 +608,28 @@ function FriendsScreenContent() {
           <Row style={styles.pendingInfo}>
             <Column style={styles.pendingColumn}>
               <Text style={styles.pendingUsername}>
-                Kullanıcı #{request.user_id}
+                {t('friends.userFallback', { id: request.user_id })}
               </Text>
               <Text style={styles.pendingDate}>
-                İstek tarihi:{' '}
-                {new Date(request.created_at).toLocaleDateString('tr-TR')}
+                {t('friends.requestedOn', {
+                  date: new Date(request.created_at).toLocaleDateString(
+                    dateLocale,
+                  ),
+                })}
               </Text>
             </Column>
           </Row>
           <Row style={styles.pendingActions}>
             <Button
-              title={loadingActions[request.user_id] ? '...' : 'Kabul Et'}
+              title={
+                loadingActions[request.user_id] ? '...' : t('friends.accept')
+              }
               variant='primary'
               size='small'
               onPress={() =>
                 handleAcceptRequest(
                   request.user_id,
-                  `Kullanıcı #${request.user_id}`,
+                  t('friends.userFallback', { id: request.user_id }),
                 )
               }
               disabled={loadingActions[request.user_id]}
@@ -620,13 +637,15 @@ function FriendsScreenContent() {
               textStyle={styles.buttonText}
             />
             <Button
-              title={loadingActions[request.user_id] ? '...' : 'Reddet'}
+              title={
+                loadingActions[request.user_id] ? '...' : t('friends.reject')
+              }
               variant='outline'
               size='small'
               onPress={() =>
                 handleRejectRequest(
                   request.user_id,
-                  `Kullanıcı #${request.user_id}`,
+                  t('friends.userFallback', { id: request.user_id }),
                 )
               }
               disabled={loadingActions[request.user_id]}
@@ -648,7 +667,7 @@ function FriendsScreenContent() {
       return (
         <View style={styles.loadingContainer}>
           <ActivityIndicator size='large' color={contextColor} />
-          <Text style={styles.loadingText}>Arkadaş verileri yükleniyor...</Text>
+          <Text style={styles.loadingText}>{t('friends.loading')}</Text>
         </View>
       );
     }
@@ -661,7 +680,7 @@ function FriendsScreenContent() {
             <SlideInElement delay={0}>
               <Card style={styles.searchCard}>
                 <Input
-                  placeholder='Kullanıcı adı ile ara'
+                  placeholder={t('friends.searchPlaceholder')}
                   value={searchQuery}
                   onChangeText={setSearchQuery}
                   autoCapitalize='none'
@@ -669,7 +688,9 @@ function FriendsScreenContent() {
                   inputStyle={styles.searchInput}
                 />
                 <Button
-                  title={isSearching ? 'Aranıyor...' : 'Ara'}
+                  title={
+                    isSearching ? t('friends.searching') : t('friends.search')
+                  }
                   onPress={handleSearch}
                   loading={isSearching}
                   disabled={!searchQuery.trim() || isSearching}
@@ -694,7 +715,9 @@ function FriendsScreenContent() {
             {searchResults.length > 0 && (
               <>
                 <SlideInElement delay={100}>
-                  <Text style={styles.searchResultsTitle}>Arama Sonuçları</Text>
+                  <Text style={styles.searchResultsTitle}>
+                    {t('friends.searchResults')}
+                  </Text>
                 </SlideInElement>
                 {searchResults.map((user, index) => (
                   <SlideInElement key={user.id} delay={200 + index * 100}>
@@ -716,8 +739,8 @@ function FriendsScreenContent() {
           <SlideInElement delay={0}>
             <EmptyState
               icon='users'
-              title='Arkadaş Yok'
-              message='Henüz arkadaşınız bulunmuyor. Arkadaş eklemek için "Arkadaş Bul" sekmesini kullanın.'
+              title={t('friends.noFriendsTitle')}
+              message={t('friends.noFriendsMessage')}
               fontFamily='SecondaryFont-Regular'
               titleFontFamily='PrimaryFont'
             />
@@ -734,8 +757,8 @@ function FriendsScreenContent() {
           <SlideInElement delay={0}>
             <EmptyState
               icon='hourglass'
-              title='Bekleyen İstek Yok'
-              message='Şu an bekleyen arkadaşlık isteği bulunmuyor.'
+              title={t('friends.noPendingTitle')}
+              message={t('friends.noPendingMessage')}
               fontFamily='SecondaryFont-Regular'
               titleFontFamily='PrimaryFont'
             />
@@ -757,6 +780,7 @@ function FriendsScreenContent() {
     isSearching,
     searchError,
     dynamicStyles,
+    t,
   ]);
 
   // Show loading while checking auth
@@ -766,7 +790,7 @@ function FriendsScreenContent() {
         style={[styles.authLoadingContainer, dynamicStyles.contextBackground]}
       >
         <ActivityIndicator size='large' color={Colors.white} />
-        <Text style={styles.authLoadingText}>Kimlik doğrulanıyor...</Text>
+        <Text style={styles.authLoadingText}>{t('friends.checkingAuth')}</Text>
       </Container>
     );
   }
@@ -779,14 +803,14 @@ function FriendsScreenContent() {
       >
         <EmptyState
           icon='lock'
-          title='Giriş Gerekli'
-          message='Arkadaş özelliklerini kullanmak için giriş yapmanız gerekiyor.'
+          title={t('common.loginRequired')}
+          message={t('friends.loginMessage')}
           fontFamily='SecondaryFont-Regular'
           titleFontFamily='PrimaryFont'
         />
         <Button
-          title='Giriş Yap'
-          onPress={() => router.push('/auth/login' as any)}
+          title={t('auth.signIn')}
+          onPress={() => router.push(buildRoute('login'))}
           style={styles.loginButton}
         />
       </Container>
@@ -817,13 +841,13 @@ function FriendsScreenContent() {
                   gradient='primary'
                   style={styles.headerTitle}
                 >
-                  Arkadaşlar 👥
+                  {t('friends.title')}
                 </PlayfulTitle>
                 <Paragraph
                   color={Colors.gray[700]}
                   style={styles.headerSubtitle}
                 >
-                  Arkadaş ekleyin, istekleri yönetin ve düello yapın
+                  {t('friends.subtitle')}
                 </Paragraph>
               </Column>
             </Row>
@@ -834,15 +858,15 @@ function FriendsScreenContent() {
         <SlideInElement delay={100}>
           <View style={styles.filtersContainer}>
             <Row style={styles.filtersRow}>
-              <FilterButton filter='find' title='Arkadaş Bul' />
+              <FilterButton filter='find' title={t('friends.tabFind')} />
               <FilterButton
                 filter='friends'
-                title='Arkadaşlarım'
+                title={t('friends.tabFriends')}
                 count={friends.length}
               />
               <FilterButton
                 filter='pending'
-                title='Bekleyen'
+                title={t('friends.tabPending')}
                 count={pendingRequests.length}
               />
             </Row>
@@ -5,18 +5,26 @@ import {
   View,
   ScrollView,
   ActivityIndicator,
-  useColorScheme,
   RefreshControl,
   StyleSheet,
+  TouchableOpacity,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
 
 // ✅ UPDATED: Using new state management hooks
-import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import {
+  useAuth,
+  usePreferredCourse,
+  useTheme,
+  useStudyTimerSettings,
+} from '../../../stores/appStore';
 import { useUserAchievements } from '../../../src/hooks/useAchievementsData';
 import { useDuelsData } from '../../../src/hooks/useDuelsData';
+import { useMyRatings, ratingHelpers } from '../../../src/hooks/useRatingData';
 import { useAppData } from '../../../src/hooks/useAppData';
+import { useTranslation } from '../../../src/hooks/useTranslation';
 
 import {
   PlayfulCard,
@@ -38,9 +46,17 @@ import {
   PlayfulTitle,
   EmptyState,
   CourseSelectionModal,
+  TierBadge,
+  useThemeColors,
 } from '../../../components/ui';
-import { Colors, Spacing, FontSizes } from '../../../constants/theme';
-import { UserAchievement } from '@/src/types/models';
+import {
+  Colors,
+  Spacing,
+  FontSizes,
+  ThemePreference,
+} from '../../../constants/theme';
+import { BackgroundTimeMode, UserAchievement } from '@/src/types/models';
+import type { TranslationKey } from '../../../localization';
 
 interface DuelStats {
   totalDuels: number;
@@ -54,6 +70,26 @@ interface DuelStats {
 // Use the theme constants correctly
 const VIBRANT_COLORS = Colors.vibrant;
 
+const THEME_OPTIONS: Array<{
+  value: ThemePreference;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  label: TranslationKey;
+}> = [
+  { value: 'system', icon: 'mobile', label: 'profile.systemDefault' },
+  { value: 'light', icon: 'sun-o', label: 'profile.lightMode' },
+  { value: 'dark', icon: 'moon-o', label: 'profile.darkMode' },
+];
+
+const BACKGROUND_TIME_OPTIONS: Array<{
+  value: BackgroundTimeMode;
+  icon: React.ComponentProps<typeof FontAwesome>['name'];
+  label: TranslationKey;
+}> = [
+  { value: 'study', icon: 'book', label: 'profile.backgroundAsStudy' },
+  { value: 'break', icon: 'coffee', label: 'profile.backgroundAsBreak' },
+  { value: 'ask', icon: 'question', label: 'profile.backgroundAsk' },
+];
+
 // Optimized shadow style
 const OPTIMIZED_SHADOW = {
   // shadowColor: Colors.gray[900],
@@ -67,8 +103,11 @@ const OPTIMIZED_SHADOW = {
 function ProfileScreenContent() {
   const { user, signOut, refreshSession } = useAuth();
   const router = useRouter();
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
+  const { themePreference, setThemePreference } = useTheme();
+  const { settings: timerSettings, updateSettings: updateTimerSettings } =
+    useStudyTimerSettings();
+  const { t, language, setLanguage, languages } = useTranslation();
 
   // ✅ UPDATED: Use preferred course from new state management
   const {
@@ -92,6 +131,9 @@ function ProfileScreenContent() {
     refetchAll: refetchDuels,
   } = useDuelsData();
 
+  const { data: ratings = [] } = useMyRatings();
+  const overallRating = ratingHelpers.getOverallRating(ratings);
+
   const {
     userData,
     userDataLoading,
@@ -110,11 +152,11 @@ function ProfileScreenContent() {
 
   // ✅ UPDATED: Compute error state from all hooks
   const error = useMemo(() => {
-    if (achievementsError) return 'Başarılar yüklenirken hata oluştu.';
-    if (duelStatsError) return 'Düello istatistikleri yüklenirken hata oluştu.';
-    if (userDataError) return 'Kullanıcı verileri yüklenirken hata oluştu.';
+    if (achievementsError) return t('profile.achievementsError');
+    if (duelStatsError) return t('profile.duelStatsError');
+    if (userDataError) return t('profile.userDataError');
     return null;
-  }, [achievementsError, duelStatsError, userDataError]);
+  }, [achievementsError, duelStatsError, userDataError, t]);
 
   // Get the current context color - memoized to prevent recalculations
   const contextColor = useMemo(() => {
@@ -293,9 +335,13 @@ function ProfileScreenContent() {
   // ✅ UPDATED: Get achievement name - handles nested achievement data
   const getAchievementName = useCallback(
     (userAchievement: UserAchievement): string => {
-      return userAchievement.name || userAchievement.name || 'Başarı';
+      return (
+        userAchievement.name ||
+        userAchievement.name ||
+        t('profile.achievementFallback')
+      );
     },
-    [],
+    [t],
   );
 
   const handleSignOut = useCallback(async () => {
@@ -337,17 +383,17 @@ function ProfileScreenContent() {
           <Text
             style={[
               styles.errorTitle,
-              { color: isDark ? Colors.gray[800] : Colors.gray[800] },
+              { color: isDark ? colors.text : Colors.gray[800] },
             ]}
           >
-            Bir Sorun Oluştu
+            {t('common.somethingWentWrong')}
           </Text>
 
           <Alert type='error' message={error} style={styles.errorAlert} />
 
           <View style={styles.errorButtons}>
             <PlayfulButton
-              title='Yeniden Dene'
+              title={t('common.tryAgain')}
               onPress={handleRetry}
               variant='primary'
               animated
@@ -357,7 +403,7 @@ function ProfileScreenContent() {
             />
 
             <PlayfulButton
-              title='Giriş Ekranına Dön'
+              title={t('auth.backToLogin')}
               onPress={() => router.replace('/(auth)/login')}
               variant='outline'
               size='medium'
@@ -380,8 +426,8 @@ function ProfileScreenContent() {
             onRefresh={handleRefresh}
             tintColor={contextColor}
             colors={[contextColor]}
-            title='Yenileniyor...'
-            titleColor={isDark ? Colors.gray[600] : Colors.gray[600]}
+            title={t('common.refreshing')}
+            titleColor={isDark ? colors.textMuted : Colors.gray[600]}
           />
         }
       >
@@ -400,18 +446,29 @@ function ProfileScreenContent() {
                 style={[styles.avatar, OPTIMIZED_SHADOW]}
               />
               <PlayfulTitle level={1} style={styles.username}>
-                {user?.username || userData?.username || 'Kullanıcı'}
+                {user?.username ||
+                  userData?.username ||
+                  t('profile.defaultUsername')}
               </PlayfulTitle>
               <Text style={styles.email}>
                 {user?.email || 'email@example.com'}
               </Text>
+              {overallRating && (
+                <TierBadge
+                  rating={overallRating.rating}
+                  gamesPlayed={overallRating.games_played}
+                  showRating
+                  size='md'
+                  style={styles.tierBadge}
+                />
+              )}
 
               {/* User level/score display */}
               <View style={[styles.scoreContainer, OPTIMIZED_SHADOW]}>
                 <ScoreDisplay
                   score={duelStats?.wins || 0}
                   maxScore={duelStats?.totalDuels || 1}
-                  label='DÜELLO PUANI'
+                  label={t('profile.duelScore')}
                   variant='celebration'
                   size='medium'
                   scoreFontFamily='SecondaryFont-Bold'
@@ -436,7 +493,7 @@ function ProfileScreenContent() {
                   { color: isDark ? Colors.white : Colors.white },
                 ]}
               >
-                Profil verileri yükleniyor...
+                {t('profile.loading')}
               </Text>
               <Text
                 style={[
@@ -444,7 +501,7 @@ function ProfileScreenContent() {
                   { color: isDark ? Colors.gray[200] : Colors.gray[200] },
                 ]}
               >
-                Bu birkaç saniye sürebilir
+                {t('duels.loadingHint')}
               </Text>
             </View>
           ) : (
@@ -456,7 +513,7 @@ function ProfileScreenContent() {
                     <View style={[styles.statCard, OPTIMIZED_SHADOW]}>
                       <StatCard
                         icon='trophy'
-                        title='Toplam Düello'
+                        title={t('duels.totalDuels')}
                         value={duelStats.totalDuels.toString()}
                         color={Colors.white}
                         size='medium'
@@ -467,7 +524,7 @@ function ProfileScreenContent() {
                     <View style={[styles.statCard, OPTIMIZED_SHADOW]}>
                       <StatCard
                         icon='check-circle'
-                        title='Kazanılan'
+                        title={t('duels.won')}
                         value={duelStats.wins.toString()}
                         color={Colors.white}
                         size='medium'
@@ -478,7 +535,7 @@ function ProfileScreenContent() {
                     <View style={[styles.statCard, OPTIMIZED_SHADOW]}>
                       <StatCard
                         icon='fire'
-                        title='Kazanma Oranı'
+                        title={t('duels.winRate')}
                         value={`${Math.round(duelStats.winRate)}%`}
                         color={Colors.white}
                         size='medium'
@@ -496,7 +553,7 @@ function ProfileScreenContent() {
                   <View style={[styles.cardContainer, OPTIMIZED_SHADOW]}>
                     <PlayfulCard
                       titleFontFamily='PrimaryFont'
-                      title='Detaylı İstatistikler'
+                      title={t('profile.detailedStats')}
                       variant='playful'
                       category={(preferredCourse as any)?.category}
                       style={[
@@ -510,7 +567,9 @@ function ProfileScreenContent() {
                       <Row style={styles.detailedStatsRow}>
                         <View style={styles.detailedStatItem}>
                           <Row style={styles.statItemRow}>
-                            <Text style={styles.statLabel}>Kaybedilen:</Text>
+                            <Text style={styles.statLabel}>
+                              {t('profile.lossesLabel')}
+                            </Text>
                             <AnimatedCounter
                               value={duelStats.losses}
                               fontFamily='SecondaryFont-Bold'
@@ -521,7 +580,9 @@ function ProfileScreenContent() {
                         </View>
                         <View style={styles.detailedStatItem}>
                           <Row style={styles.statItemRow}>
-                            <Text style={styles.statLabel}>En Uzun Seri:</Text>
+                            <Text style={styles.statLabel}>
+                              {t('profile.longestStreakLabel')}
+                            </Text>
                             <AnimatedCounter
                               value={duelStats.longestLosingStreak || 0}
                               fontFamily='SecondaryFont-Bold'
@@ -540,7 +601,7 @@ function ProfileScreenContent() {
               <SlideInElement direction='right' delay={600}>
                 <View style={[styles.cardContainer, OPTIMIZED_SHADOW]}>
                   <PlayfulCard
-                    title='Kazanılan Başarılar'
+                    title={t('profile.earnedAchievements')}
                     titleFontFamily='PrimaryFont'
                     variant='playful'
                     category={(preferredCourse as any)?.category}
@@ -603,9 +664,9 @@ function ProfileScreenContent() {
 
                         <PlayfulButton
                           fontFamily='SecondaryFont-Bold'
-                          title='Tüm Başarılar'
+                          title={t('profile.allAchievements')}
                           onPress={() =>
-                            router.push('/(tabs)/profile/achievements' as any)
+                            router.push(buildRoute('achievements'))
                           }
                           variant='outline'
                           style={styles.allAchievementsButton}
@@ -616,13 +677,13 @@ function ProfileScreenContent() {
                     ) : (
                       <EmptyState
                         icon='trophy'
-                        title='Henüz başarı yok'
+                        title={t('profile.noAchievements')}
                         fontFamily='PrimaryFont'
-                        message='Daha fazla çalışıkça başarılar kazanacaksınız.'
+                        message={t('profile.noAchievementsMessage')}
                         actionButton={{
-                          title: 'Başarıları Keşfet',
+                          title: t('profile.exploreAchievements'),
                           onPress: () =>
-                            router.push('/(tabs)/profile/achievements' as any),
+                            router.push(buildRoute('achievements')),
                           variant: 'secondary',
                         }}
                         buttonFontFamily='PrimaryFont'
@@ -636,7 +697,7 @@ function ProfileScreenContent() {
               <SlideInElement direction='right' delay={800}>
                 <View style={[styles.cardContainer, OPTIMIZED_SHADOW]}>
                   <PlayfulCard
-                    title='Bildirimler'
+                    title={t('profile.notifications')}
                     titleFontFamily='PrimaryFont'
                     variant='playful'
                     category={(preferredCourse as any)?.category}
@@ -650,10 +711,8 @@ function ProfileScreenContent() {
                   >
                     <Column style={styles.buttonColumn}>
                       <PlayfulButton
-                        title='Bildirimleri Gör'
-                        onPress={() =>
-                          router.push('/(tabs)/notifications' as any)
-                        }
+                        title={t('profile.viewNotifications')}
+                        onPress={() => router.push(buildRoute('notifications'))}
                         variant='outline'
                         icon='bell'
                         fontFamily='SecondaryFont-Bold'
@@ -667,7 +726,7 @@ function ProfileScreenContent() {
               <SlideInElement direction='right' delay={1000}>
                 <View style={[styles.cardContainer, OPTIMIZED_SHADOW]}>
                   <PlayfulCard
-                    title='Arkadaşlar'
+                    title={t('profile.friends')}
                     titleFontFamily='PrimaryFont'
                     variant='playful'
                     category={(preferredCourse as any)?.category}
@@ -681,10 +740,8 @@ function ProfileScreenContent() {
                   >
                     <Column style={styles.buttonColumn}>
                       <PlayfulButton
-                        title='Arkadaşlarını Gör'
-                        onPress={() =>
-                          router.push('/(tabs)/profile/friends' as any)
-                        }
+                        title={t('profile.viewFriends')}
+                        onPress={() => router.push(buildRoute('friends'))}
                         variant='outline'
                         icon='users'
                         fontFamily='SecondaryFont-Bold'
@@ -699,7 +756,7 @@ function ProfileScreenContent() {
               <SlideInElement direction='left' delay={1200}>
                 <View style={[styles.cardContainer, OPTIMIZED_SHADOW]}>
                   <PlayfulCard
-                    title='Hesap Ayarları'
+                    title={t('profile.accountSettings')}
                     variant='playful'
                     gradient='sky'
                     titleFontFamily='PrimaryFont'
@@ -714,7 +771,7 @@ function ProfileScreenContent() {
                   >
                     <Column style={styles.buttonColumn}>
                       <PlayfulButton
-                        title='Profil Düzenle'
+                        title={t('profile.editProfile')}
                         onPress={handleShowCourseModal}
                         variant='outline'
                         icon='user'
@@ -723,8 +780,10 @@ function ProfileScreenContent() {
                       />
 
                       <PlayfulButton
-                        title='Şifre Değiştir'
-                        onPress={() => router.push('/change-password' as any)}
+                        title={t('profile.changePassword')}
+                        onPress={() =>
+                          router.push(buildRoute('changePassword'))
+                        }
                         variant='outline'
                         icon='lock'
                         fontFamily='SecondaryFont-Bold'
@@ -732,13 +791,164 @@ function ProfileScreenContent() {
                       />
 
                       <PlayfulButton
-                        title='Bildirim Ayarları'
-                        onPress={() => router.push('/notifications' as any)}
+                        title={t('profile.examDates')}
+                        onPress={() => router.push(buildRoute('examDates'))}
+                        variant='outline'
+                        icon='hourglass-half'
+                        fontFamily='SecondaryFont-Bold'
+                        animated
+                      />
+
+                      <PlayfulButton
+                        title={t('profile.studySessions')}
+                        onPress={() => router.push(buildRoute('studySessions'))}
+                        variant='outline'
+                        icon='clock-o'
+                        fontFamily='SecondaryFont-Bold'
+                        animated
+                      />
+
+                      <PlayfulButton
+                        title={t('subscription.manage')}
+                        onPress={() => router.push(buildRoute('subscription'))}
+                        variant='outline'
+                        icon='diamond'
+                        fontFamily='SecondaryFont-Bold'
+                        animated
+                      />
+
+                      <PlayfulButton
+                        title={t('notifications.settings')}
+                        onPress={() =>
+                          router.push(buildRoute('notificationSettings'))
+                        }
                         variant='outline'
                         icon='gear'
                         fontFamily='SecondaryFont-Bold'
                         animated
                       />
+
+                      {/* Theme switch */}
+                      <View style={styles.preferenceSection}>
+                        <Text style={styles.preferenceLabel}>
+                          🎨 {t('profile.theme')}
+                        </Text>
+                        <Row style={styles.preferenceRow}>
+                          {THEME_OPTIONS.map((option) => {
+                            const isActive = option.value === themePreference;
+                            return (
+                              <TouchableOpacity
+                                key={option.value}
+                                style={[
+                                  styles.preferenceOption,
+                                  isActive && styles.preferenceOptionActive,
+                                ]}
+                                onPress={() => setThemePreference(option.value)}
+                                activeOpacity={0.8}
+                                accessibilityRole='button'
+                                accessibilityState={{ selected: isActive }}
+                              >
+                                <FontAwesome
+                                  name={option.icon}
+                                  size={14}
+                                  color={isActive ? contextColor : Colors.white}
+                                />
+                                <Text
+                                  style={[
+                                    styles.preferenceOptionText,
+                                    isActive && { color: contextColor },
+                                  ]}
+                                  numberOfLines={1}
+                                >
+                                  {t(option.label)}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </Row>
+                      </View>
+
+                      {/* Language switch */}
+                      <View style={styles.preferenceSection}>
+                        <Text style={styles.preferenceLabel}>
+                          🌐 {t('profile.language')}
+                        </Text>
+                        <Row style={styles.preferenceRow}>
+                          {languages.map((option) => {
+                            const isActive = option.code === language;
+                            return (
+                              <TouchableOpacity
+                                key={option.code}
+                                style={[
+                                  styles.preferenceOption,
+                                  isActive && styles.preferenceOptionActive,
+                                ]}
+                                onPress={() => setLanguage(option.code)}
+                                activeOpacity={0.8}
+                                accessibilityRole='button'
+                                accessibilityState={{ selected: isActive }}
+                              >
+                                <Text
+                                  style={[
+                                    styles.preferenceOptionText,
+                                    isActive && { color: contextColor },
+                                  ]}
+                                >
+                                  {option.flag} {option.label}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </Row>
+                      </View>
+
+                      {/* Background time while the chronometer runs */}
+                      <View style={styles.preferenceSection}>
+                        <Text style={styles.preferenceLabel}>
+                          ⏱️ {t('profile.backgroundTime')}
+                        </Text>
+                        <Row style={styles.preferenceRow}>
+                          {BACKGROUND_TIME_OPTIONS.map((option) => {
+                            const isActive =
+                              option.value === timerSettings.backgroundTimeMode;
+                            return (
+                              <TouchableOpacity
+                                key={option.value}
+                                style={[
+                                  styles.preferenceOption,
+                                  isActive && styles.preferenceOptionActive,
+                                ]}
+                                onPress={() =>
+                                  updateTimerSettings({
+                                    backgroundTimeMode: option.value,
+                                  })
+                                }
+                                activeOpacity={0.8}
+                                accessibilityRole='button'
+                                accessibilityState={{ selected: isActive }}
+                              >
+                                <FontAwesome
+                                  name={option.icon}
+                                  size={14}
+                                  color={isActive ? contextColor : Colors.white}
+                                />
+                                <Text
+                                  style={[
+                                    styles.preferenceOptionText,
+                                    isActive && { color: contextColor },
+                                  ]}
+                                  numberOfLines={1}
+                                >
+                                  {t(option.label)}
+                                </Text>
+                              </TouchableOpacity>
+                            );
+                          })}
+                        </Row>
+                        <Text style={styles.preferenceHint}>
+                          {t('profile.backgroundTimeHint')}
+                        </Text>
+                      </View>
                     </Column>
                   </PlayfulCard>
                 </View>
@@ -762,10 +972,10 @@ function ProfileScreenContent() {
                           },
                         ]}
                       >
-                        Versiyon: 1.0.0
+                        {t('profile.versionLabel', { version: '1.0.0' })}
                       </Text>
                       <Badge
-                        text='Güncel'
+                        text={t('profile.upToDate')}
                         variant='success'
                         size='md'
                         fontFamily='SecondaryFont-Bold'
@@ -774,7 +984,7 @@ function ProfileScreenContent() {
                     </Row>
 
                     <PlayfulButton
-                      title='Çıkış Yap'
+                      title={t('profile.logout')}
                       onPress={handleSignOut}
                       variant='vibrant'
                       gradient='fire'
@@ -794,7 +1004,7 @@ function ProfileScreenContent() {
                 (userAchievements.length > 0 || duelStats) && (
                   <Alert
                     type='warning'
-                    message='Veriler yenilenirken sorun yaşandı. Çekmek için aşağı kaydırın.'
+                    message={t('duels.refreshWarning')}
                     style={styles.bottomAlert}
                   />
                 )}
@@ -819,13 +1029,17 @@ function ProfileScreenContent() {
                     <Text
                       style={[
                         styles.retryText,
-                        { color: isDark ? Colors.gray[600] : Colors.gray[600] },
+                        {
+                          color: isDark
+                            ? colors.textSecondary
+                            : Colors.gray[600],
+                        },
                       ]}
                     >
-                      Profil verileri yüklenemedi
+                      {t('profile.loadFailed')}
                     </Text>
                     <PlayfulButton
-                      title='Tekrar Dene'
+                      title={t('common.retry')}
                       onPress={handleRetry}
                       variant='primary'
                       size='medium'
@@ -918,6 +1132,10 @@ const styles = StyleSheet.create({
     textAlign: 'center',
     fontFamily: 'PrimaryFont',
   },
+  tierBadge: {
+    alignSelf: 'center',
+    marginTop: Spacing[2],
+  },
   scoreContainer: {
     marginTop: Spacing[4],
   },
@@ -1026,6 +1244,43 @@ const styles = StyleSheet.create({
   appInfoCard: {
     marginBottom: Spacing[6],
   },
+  preferenceSection: {
+    marginTop: Spacing[2],
+  },
+  preferenceLabel: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.white,
+    marginBottom: Spacing[2],
+  },
+  preferenceRow: {
+    gap: Spacing[2],
+  },
+  preferenceOption: {
+    flex: 1,
+    alignItems: 'center',
+    gap: Spacing[1],
+    paddingVertical: Spacing[2],
+    borderRadius: 12,
+    borderWidth: 2,
+    borderColor: 'rgba(255,255,255,0.6)',
+  },
+  preferenceOptionActive: {
+    backgroundColor: Colors.white,
+    borderColor: Colors.white,
+  },
+  preferenceOptionText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.white,
+  },
+  preferenceHint: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+    opacity: 0.8,
+    marginTop: Spacing[2],
+  },
   versionRow: {
     justifyContent: 'space-between',
     alignItems: 'center',
@@ -0,0 +1,645 @@
+// app/(tabs)/profile/study-sessions.tsx - Log past study sessions, edit or delete recorded ones
+
+import React, { useState, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  KeyboardAvoidingView,
+  Platform,
+  StyleSheet,
+  Alert as RNAlert,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  Input,
+  EmptyState,
+  SlideInElement,
+  Spacing,
+  BorderRadius,
+  useThemeColors,
+  type ThemeColors,
+} from '../../../components/ui';
+import {
+  useStudySessionLog,
+  useSaveStudySession,
+  useDeleteStudySession,
+  studySessionLogHelpers,
+  type StudySessionForm,
+} from '../../../src/hooks/useStudySessionLogData';
+import { useCoursesOverview } from '../../../src/hooks/useExamPlannerData';
+import {
+  formatSessionDuration,
+  type CourseStudySession,
+  type UserCourseOverview,
+} from '../../../src/api/studyService';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { usePreferredCourse } from '../../../stores/appStore';
+import { buildRoute } from '../../../constants/routes';
+
+const createStyles = (colors: ThemeColors) =>
+  StyleSheet.create({
+    container: {
+      flex: 1,
+    },
+    scrollContent: {
+      padding: Spacing[4],
+    },
+    centerContainer: {
+      alignItems: 'center',
+      justifyContent: 'center',
+      padding: Spacing[4],
+    },
+    headerCard: {
+      marginBottom: Spacing[4],
+      backgroundColor: 'transparent',
+    },
+    headerTitle: {
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+    },
+    headerSubtitle: {
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.textSecondary,
+    },
+    card: {
+      marginBottom: Spacing[4],
+      backgroundColor: colors.surfaceTranslucent,
+    },
+    sectionTitle: {
+      fontSize: 16,
+      fontFamily: 'PrimaryFont',
+      color: colors.text,
+      marginBottom: Spacing[3],
+    },
+    statusAlert: {
+      marginBottom: Spacing[4],
+    },
+    fieldLabel: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+      marginBottom: Spacing[2],
+    },
+    courseList: {
+      gap: Spacing[2],
+      marginBottom: Spacing[3],
+    },
+    courseChip: {
+      paddingVertical: Spacing[2],
+      paddingHorizontal: Spacing[3],
+      borderRadius: BorderRadius.full,
+      borderWidth: 2,
+      borderColor: colors.border,
+      backgroundColor: colors.surface,
+    },
+    courseChipActive: {
+      borderColor: colors.primary,
+      backgroundColor: 'rgba(108, 92, 231, 0.08)',
+    },
+    courseChipText: {
+      fontSize: 14,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.textSecondary,
+    },
+    courseChipTextActive: {
+      color: colors.primary,
+    },
+    field: {
+      marginBottom: Spacing[3],
+    },
+    timeRow: {
+      gap: Spacing[3],
+    },
+    timeField: {
+      flex: 1,
+    },
+    fieldHint: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      marginTop: -Spacing[1],
+      marginBottom: Spacing[3],
+    },
+    formActions: {
+      gap: Spacing[3],
+    },
+    sessionRow: {
+      paddingVertical: Spacing[3],
+      borderBottomWidth: 1,
+      borderBottomColor: colors.divider,
+    },
+    sessionRowLast: {
+      borderBottomWidth: 0,
+    },
+    sessionRowEditing: {
+      backgroundColor: 'rgba(108, 92, 231, 0.06)',
+      borderRadius: BorderRadius.lg,
+      paddingHorizontal: Spacing[2],
+    },
+    sessionHeader: {
+      alignItems: 'center',
+      justifyContent: 'space-between',
+      gap: Spacing[2],
+    },
+    sessionCourse: {
+      flex: 1,
+      fontSize: 15,
+      fontFamily: 'SecondaryFont-Bold',
+      color: colors.text,
+    },
+    sessionMeta: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      color: colors.icon,
+      marginTop: Spacing[1],
+    },
+    sessionNotes: {
+      fontSize: 13,
+      fontFamily: 'SecondaryFont-Regular',
+      fontStyle: 'italic',
+      color: colors.textMuted,
+      marginTop: Spacing[1],
+    },
+    sessionActions: {
+      gap: Spacing[1],
+    },
+    iconButton: {
+      padding: Spacing[2],
+    },
+    actions: {
+      gap: Spacing[3],
+    },
+  });
+
+const {
+  createSessionForm,
+  sessionToForm,
+  validateSessionForm,
+  getSessionRange,
+  toTimeInputValue,
+} = studySessionLogHelpers;
+
+const formatSessionTimes = (
+  session: CourseStudySession,
+  dateLocale: string,
+): string => {
+  const start = new Date(session.startTime);
+  const date = start.toLocaleDateString(dateLocale, {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+  const endDate = session.endTime ? new Date(session.endTime) : null;
+  // "+1" marks a session that ran past midnight
+  const end = endDate
+    ? `${toTimeInputValue(endDate)}${
+        endDate.toDateString() !== start.toDateString() ? ' (+1)' : ''
+      }`
+    : '…';
+  return `${date} • ${toTimeInputValue(start)} – ${end}`;
+};
+
+// Memoized Course Picker
+const CoursePicker = memo<{
+  courses: UserCourseOverview[];
+  selectedCourseId: number | null;
+  onSelect: (courseId: number) => void;
+}>(({ courses, selectedCourseId, onSelect }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+
+  return (
+    <ScrollView
+      horizontal
+      showsHorizontalScrollIndicator={false}
+      contentContainerStyle={styles.courseList}
+      keyboardShouldPersistTaps='handled'
+    >
+      {courses.map((course) => {
+        const isActive = course.courseId === selectedCourseId;
+        return (
+          <TouchableOpacity
+            key={course.courseId}
+            style={[styles.courseChip, isActive && styles.courseChipActive]}
+            onPress={() => onSelect(course.courseId)}
+            accessibilityRole='button'
+            accessibilityState={{ selected: isActive }}
+          >
+            <Text
+              style={[
+                styles.courseChipText,
+                isActive && styles.courseChipTextActive,
+              ]}
+              numberOfLines={1}
+            >
+              {course.courseTitle}
+            </Text>
+          </TouchableOpacity>
+        );
+      })}
+    </ScrollView>
+  );
+});
+
+// Memoized Session Row
+const SessionRow = memo<{
+  session: CourseStudySession;
+  isLast: boolean;
+  isEditing: boolean;
+  dateLocale: string;
+  onEdit: (session: CourseStudySession) => void;
+  onDelete: (session: CourseStudySession) => void;
+  t: TFunction;
+}>(({ session, isLast, isEditing, dateLocale, onEdit, onDelete, t }) => {
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const isActive = session.sessionStatus === 'active';
+  return (
+    <View
+      style={[
+        styles.sessionRow,
+        isLast && styles.sessionRowLast,
+        isEditing && styles.sessionRowEditing,
+      ]}
+    >
+      <Row style={styles.sessionHeader}>
+        <Text style={styles.sessionCourse} numberOfLines={1}>
+          {session.courseTitle ??
+            t('studySessions.courseFallback', { id: session.courseId })}
+        </Text>
+        {isActive ? (
+          <Badge text={t('studySessions.active')} variant='success' size='sm' />
+        ) : (
+          <Row style={styles.sessionActions}>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onEdit(session)}
+              accessibilityRole='button'
+              accessibilityLabel={t('common.edit')}
+            >
+              <FontAwesome name='pencil' size={16} color={colors.primary} />
+            </TouchableOpacity>
+            <TouchableOpacity
+              style={styles.iconButton}
+              onPress={() => onDelete(session)}
+              accessibilityRole='button'
+              accessibilityLabel={t('common.delete')}
+            >
+              <FontAwesome name='trash' size={16} color={colors.error} />
+            </TouchableOpacity>
+          </Row>
+        )}
+      </Row>
+      <Text style={styles.sessionMeta}>
+        {formatSessionTimes(session, dateLocale)}
+      </Text>
+      {!isActive && (
+        <Text style={styles.sessionMeta}>
+          {t('studySessions.durations', {
+            study: formatSessionDuration(session.studyDurationSeconds)
+              .formatted,
+            break: formatSessionDuration(session.breakDurationSeconds)
+              .formatted,
+          })}
+        </Text>
+      )}
+      {session.notes ? (
+        <Text style={styles.sessionNotes} numberOfLines={2}>
+          {session.notes}
+        </Text>
+      ) : null}
+    </View>
+  );
+});
+
+export default function StudySessionsScreen() {
+  const router = useRouter();
+  const { t, dateLocale } = useTranslation();
+  const { colors } = useThemeColors();
+  const styles = useMemo(() => createStyles(colors), [colors]);
+  const { preferredCourse } = usePreferredCourse();
+  const { data: sessions = [], isLoading: sessionsLoading } =
+    useStudySessionLog();
+  const { data: courses = [] } = useCoursesOverview();
+  const { saveSession, isSaving } = useSaveStudySession();
+  const { deleteSession, isDeleting } = useDeleteStudySession();
+
+  const [form, setForm] = useState<StudySessionForm>(() =>
+    createSessionForm(preferredCourse?.course_id ?? null),
+  );
+  const [editingSessionId, setEditingSessionId] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+
+  const formRange = getSessionRange(form);
+  const endsNextDay =
+    !!formRange &&
+    formRange.end.toDateString() !== formRange.start.toDateString();
+
+  const updateForm = useCallback(
+    <K extends keyof StudySessionForm>(key: K, value: StudySessionForm[K]) => {
+      setSuccess(null);
+      setForm((current) => ({ ...current, [key]: value }));
+    },
+    [],
+  );
+
+  const handleCourseSelect = useCallback(
+    (courseId: number) => updateForm('courseId', courseId),
+    [updateForm],
+  );
+
+  const resetForm = useCallback(() => {
+    setEditingSessionId(null);
+    setForm(createSessionForm(preferredCourse?.course_id ?? null));
+  }, [preferredCourse?.course_id]);
+
+  const handleEdit = useCallback((session: CourseStudySession) => {
+    setError(null);
+    setSuccess(null);
+    setEditingSessionId(session.sessionId);
+    setForm(sessionToForm(session));
+  }, []);
+
+  const handleSave = useCallback(async () => {
+    setError(null);
+    setSuccess(null);
+
+    const validation = validateSessionForm(form, sessions, editingSessionId);
+    if (!validation.isValid) {
+      setError(
+        validation.conflict
+          ? t(validation.error, {
+              session: formatSessionTimes(validation.conflict, dateLocale),
+            })
+          : t(validation.error),
+      );
+      return;
+    }
+
+    try {
+      await saveSession({
+        sessionId: editingSessionId,
+        request: validation.request,
+      });
+      setSuccess(
+        editingSessionId
+          ? t('studySessions.updated')
+          : t('studySessions.added'),
+      );
+      resetForm();
+    } catch (saveError) {
+      setError(
+        saveError instanceof Error
+          ? saveError.message
+          : t('studySessions.saveFailed'),
+      );
+    }
+  }, [form, sessions, editingSessionId, saveSession, resetForm, t, dateLocale]);
+
+  const handleDelete = useCallback(
+    (session: CourseStudySession) => {
+      RNAlert.alert(
+        t('studySessions.deleteTitle'),
+        t('studySessions.deleteMessage', {
+          session: formatSessionTimes(session, dateLocale),
+        }),
+        [
+          { text: t('common.cancel'), style: 'cancel' },
+          {
+            text: t('common.delete'),
+            style: 'destructive',
+            onPress: async () => {
+              setError(null);
+              setSuccess(null);
+              try {
+                await deleteSession(session);
+                if (session.sessionId === editingSessionId) resetForm();
+                setSuccess(t('studySessions.deleted'));
+              } catch (deleteError) {
+                setError(
+                  deleteError instanceof Error
+                    ? deleteError.message
+                    : t('studySessions.deleteFailed'),
+                );
+              }
+            },
+          },
+        ],
+      );
+    },
+    [deleteSession, editingSessionId, resetForm, t, dateLocale],
+  );
+
+  const handleBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      router.replace(buildRoute('profile'));
+    }
+  }, [router]);
+
+  return (
+    <KeyboardAvoidingView
+      style={styles.container}
+      behavior={Platform.OS === 'ios' ? 'padding' : undefined}
+    >
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps='handled'
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('studySessions.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('studySessions.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {success && (
+          <Alert
+            type='success'
+            message={success}
+            dismissible
+            onDismiss={() => setSuccess(null)}
+            style={styles.statusAlert}
+          />
+        )}
+        {error && (
+          <Alert
+            type='error'
+            message={error}
+            dismissible
+            onDismiss={() => setError(null)}
+            style={styles.statusAlert}
+          />
+        )}
+
+        {/* Add / edit */}
+        <SlideInElement delay={100}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {editingSessionId
+                ? t('studySessions.editTitle')
+                : t('studySessions.addTitle')}
+            </Text>
+
+            <Text style={styles.fieldLabel}>{t('studySessions.course')}</Text>
+            <CoursePicker
+              courses={courses}
+              selectedCourseId={form.courseId}
+              onSelect={handleCourseSelect}
+            />
+
+            <View style={styles.field}>
+              <Input
+                label={t('studySessions.date')}
+                value={form.date}
+                onChangeText={(value) => updateForm('date', value.trim())}
+                placeholder={t('examPlanner.datePlaceholder')}
+                leftIcon='calendar'
+              />
+            </View>
+
+            <Row style={[styles.field, styles.timeRow]}>
+              <View style={styles.timeField}>
+                <Input
+                  label={t('studySessions.startTime')}
+                  value={form.startTime}
+                  onChangeText={(value) =>
+                    updateForm('startTime', value.trim())
+                  }
+                  placeholder={t('studySessions.timePlaceholder')}
+                  leftIcon='clock-o'
+                />
+              </View>
+              <View style={styles.timeField}>
+                <Input
+                  label={t('studySessions.endTime')}
+                  value={form.endTime}
+                  onChangeText={(value) => updateForm('endTime', value.trim())}
+                  placeholder={t('studySessions.timePlaceholder')}
+                  leftIcon='clock-o'
+                />
+              </View>
+            </Row>
+            {endsNextDay && (
+              <Text style={styles.fieldHint}>
+                {t('studySessions.endsNextDay')}
+              </Text>
+            )}
+
+            <View style={styles.field}>
+              <Input
+                label={t('studySessions.breakMinutes')}
+                value={form.breakMinutes}
+                onChangeText={(value) => updateForm('breakMinutes', value)}
+                inputMode='numeric'
+                leftIcon='coffee'
+              />
+            </View>
+
+            <View style={styles.field}>
+              <Input
+                label={t('studySessions.notes')}
+                value={form.notes}
+                onChangeText={(value) => updateForm('notes', value)}
+                placeholder={t('studySessions.notesPlaceholder')}
+                multiline
+                numberOfLines={3}
+              />
+            </View>
+
+            <View style={styles.formActions}>
+              <Button
+                title={
+                  editingSessionId
+                    ? t('common.save')
+                    : t('studySessions.addButton')
+                }
+                variant='primary'
+                onPress={handleSave}
+                loading={isSaving}
+                disabled={isSaving}
+                icon='check'
+              />
+              {editingSessionId !== null && (
+                <Button
+                  title={t('common.cancel')}
+                  variant='outline'
+                  onPress={resetForm}
+                  icon='times'
+                />
+              )}
+            </View>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Recorded sessions */}
+        <SlideInElement delay={200}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {t('studySessions.listTitle')}
+            </Text>
+            {sessionsLoading || isDeleting ? (
+              <View style={styles.centerContainer}>
+                <ActivityIndicator color={colors.primary} />
+              </View>
+            ) : sessions.length === 0 ? (
+              <EmptyState
+                icon='clock-o'
+                title={t('studySessions.emptyTitle')}
+                message={t('studySessions.emptyMessage')}
+              />
+            ) : (
+              sessions.map((session, index) => (
+                <SessionRow
+                  key={session.sessionId}
+                  session={session}
+                  isLast={index === sessions.length - 1}
+                  isEditing={session.sessionId === editingSessionId}
+                  dateLocale={dateLocale}
+                  onEdit={handleEdit}
+                  onDelete={handleDelete}
+                  t={t}
+                />
+              ))
+            )}
+          </PlayfulCard>
+        </SlideInElement>
+
+        <View style={styles.actions}>
+          <Button
+            title={t('navigation.goBack')}
+            variant='outline'
+            onPress={handleBack}
+            icon='arrow-left'
+          />
+        </View>
+      </ScrollView>
+    </KeyboardAvoidingView>
+  );
+}
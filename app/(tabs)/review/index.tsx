@@ -0,0 +1,768 @@
+// app/(tabs)/review/index.tsx - Wrong-answer review deck (spaced repetition)
+
+import React, { useState, useRef, useCallback, useMemo, memo } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { useRouter } from 'expo-router';
+import { FontAwesome } from '@expo/vector-icons';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  EmptyState,
+  ProgressBar,
+  SlideInElement,
+  Alert as UIAlert,
+} from '../../../components/ui';
+import { Colors, Spacing, BorderRadius } from '../../../constants/theme';
+import {
+  useReviewDeck,
+  useReviewGrading,
+  useReviewSessionSync,
+  reviewDeckHelpers,
+  type ReviewCard,
+  type ReviewGrade,
+  type ReviewAttempt,
+} from '../../../src/hooks/useReviewDeckData';
+import { practiceTestHelpers } from '../../../src/hooks/usePracticeTestsData';
+import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import type { TranslationKey } from '../../../localization';
+
+type ReviewPhase = 'overview' | 'review' | 'done';
+
+const SESSION_SIZE = 20;
+
+const GRADE_OPTIONS: Array<{ grade: ReviewGrade; labelKey: TranslationKey }> = [
+  { grade: 3, labelKey: 'reviewDeck.gradeHard' },
+  { grade: 4, labelKey: 'reviewDeck.gradeGood' },
+  { grade: 5, labelKey: 'reviewDeck.gradeEasy' },
+];
+
+const styles = StyleSheet.create({
+  mainContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+    paddingBottom: Spacing[12],
+  },
+  centerContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  statsRow: {
+    justifyContent: 'space-between',
+  },
+  statItem: {
+    flex: 1,
+    alignItems: 'center',
+  },
+  statValue: {
+    fontSize: 22,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  statLabel: {
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginTop: Spacing[1],
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[2],
+  },
+  chipScroll: {
+    marginBottom: Spacing[4],
+  },
+  chip: {
+    paddingVertical: Spacing[2],
+    paddingHorizontal: Spacing[3],
+    borderRadius: BorderRadius.button,
+    backgroundColor: Colors.white,
+    marginRight: Spacing[2],
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  chipTextActive: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  progressHeader: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing[2],
+  },
+  progressText: {
+    color: Colors.white,
+    fontFamily: 'PrimaryFont',
+    fontSize: 16,
+  },
+  progressBar: {
+    marginBottom: Spacing[4],
+  },
+  questionCard: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.card,
+    padding: Spacing[4],
+    marginBottom: Spacing[4],
+  },
+  metaRow: {
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  questionText: {
+    fontSize: 16,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[900],
+    marginBottom: Spacing[4],
+    lineHeight: 22,
+  },
+  optionButton: {
+    borderWidth: 2,
+    borderColor: Colors.gray[200],
+    borderRadius: BorderRadius.button,
+    padding: Spacing[3],
+    marginBottom: Spacing[2],
+    backgroundColor: Colors.gray[50],
+  },
+  correctOption: {
+    borderColor: Colors.vibrant.green,
+    backgroundColor: Colors.vibrant.greenLight,
+  },
+  wrongOption: {
+    borderColor: Colors.vibrant.coral,
+    backgroundColor: Colors.vibrant.pinkLight,
+  },
+  optionText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+  },
+  explanationCard: {
+    backgroundColor: Colors.gray[50],
+    borderRadius: BorderRadius.lg,
+    padding: Spacing[3],
+    marginTop: Spacing[2],
+  },
+  explanationTitle: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[1],
+  },
+  explanationText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    lineHeight: 19,
+  },
+  gradeRow: {
+    gap: Spacing[2],
+  },
+  gradeButton: {
+    flex: 1,
+  },
+  resultIcon: {
+    alignItems: 'center',
+    marginBottom: Spacing[3],
+  },
+  mutedText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    textAlign: 'center',
+  },
+  actionButton: {
+    marginTop: Spacing[3],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+});
+
+// Selectable filter chip
+const FilterChip = memo<{
+  label: string;
+  isActive: boolean;
+  activeColor: string;
+  onPress: () => void;
+}>(({ label, isActive, activeColor, onPress }) => (
+  <TouchableOpacity
+    style={[styles.chip, isActive && { backgroundColor: activeColor }]}
+    onPress={onPress}
+    activeOpacity={0.8}
+  >
+    <Text
+      style={[styles.chipText, isActive && styles.chipTextActive]}
+      numberOfLines={1}
+    >
+      {label}
+    </Text>
+  </TouchableOpacity>
+));
+
+// Option row; colors are revealed once the user has answered
+const ReviewOption = memo<{
+  optionKey: string;
+  value: any;
+  isRevealed: boolean;
+  isCorrectOption: boolean;
+  isSelected: boolean;
+  onPress: (optionKey: string) => void;
+}>(({ optionKey, value, isRevealed, isCorrectOption, isSelected, onPress }) => (
+  <TouchableOpacity
+    style={[
+      styles.optionButton,
+      isRevealed && isCorrectOption && styles.correctOption,
+      isRevealed && isSelected && !isCorrectOption && styles.wrongOption,
+    ]}
+    onPress={() => onPress(optionKey)}
+    disabled={isRevealed}
+    activeOpacity={0.8}
+  >
+    <Text style={styles.optionText}>
+      {optionKey}) {String(value)}
+    </Text>
+  </TouchableOpacity>
+));
+
+export default function ReviewDeckScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isAuthenticated } = useAuth();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+
+  const [phase, setPhase] = useState<ReviewPhase>('overview');
+  const [courseId, setCourseId] = useState<number | null>(null);
+  const [topicId, setTopicId] = useState<number | null>(null);
+  const [sessionCards, setSessionCards] = useState<ReviewCard[]>([]);
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selectedAnswer, setSelectedAnswer] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<ReviewAttempt[]>([]);
+  const [refreshing, setRefreshing] = useState(false);
+  const questionStartRef = useRef<number>(Date.now());
+
+  const contextColor = useMemo(
+    () => getCourseColor(getCourseCategory(preferredCourse?.title || '')),
+    [preferredCourse?.title, getCourseColor, getCourseCategory],
+  );
+
+  const {
+    cards,
+    dueCards,
+    courseOptions,
+    topicOptions,
+    isLoading,
+    error,
+    refetch,
+  } = useReviewDeck({ courseId, topicId });
+  const { gradeCard, isGrading } = useReviewGrading();
+  const { syncSession, isSyncing, syncError, savedCount } =
+    useReviewSessionSync();
+
+  const currentCard = sessionCards[currentIndex];
+  const correctKey = useMemo(
+    () =>
+      currentCard
+        ? practiceTestHelpers.resolveCorrectOptionKey(currentCard)
+        : null,
+    [currentCard],
+  );
+  const isRevealed = selectedAnswer !== null;
+  const isCorrect = isRevealed && selectedAnswer === correctKey;
+  const correctCount = attempts.filter((a) => a.isCorrect).length;
+
+  const handleSelectCourse = useCallback((id: number | null) => {
+    setCourseId(id);
+    setTopicId(null);
+  }, []);
+
+  const startSession = useCallback((deck: ReviewCard[]) => {
+    setSessionCards(deck.slice(0, SESSION_SIZE));
+    setCurrentIndex(0);
+    setSelectedAnswer(null);
+    setAttempts([]);
+    questionStartRef.current = Date.now();
+    setPhase('review');
+  }, []);
+
+  const finishSession = useCallback(
+    (finalAttempts: ReviewAttempt[]) => {
+      setPhase('done');
+      if (finalAttempts.length > 0) {
+        syncSession(finalAttempts).catch(() => {
+          // Surfaced through syncError on the summary screen
+        });
+      }
+    },
+    [syncSession],
+  );
+
+  const handleAnswer = useCallback(
+    (optionKey: string) => {
+      if (!isRevealed) setSelectedAnswer(optionKey);
+    },
+    [isRevealed],
+  );
+
+  const handleGrade = useCallback(
+    async (grade: ReviewGrade) => {
+      if (!currentCard || selectedAnswer === null) return;
+
+      const attempt: ReviewAttempt = {
+        card: currentCard,
+        selectedAnswer,
+        isCorrect,
+        grade,
+        timeSpent: Math.round((Date.now() - questionStartRef.current) / 1000),
+      };
+      const nextAttempts = [...attempts, attempt];
+
+      try {
+        await gradeCard(currentCard.question_id, grade);
+      } catch (gradeError) {
+        // Schedule is local; a failed write just keeps the card due
+      }
+
+      setAttempts(nextAttempts);
+      if (currentIndex + 1 >= sessionCards.length) {
+        finishSession(nextAttempts);
+        return;
+      }
+      setCurrentIndex((prev) => prev + 1);
+      setSelectedAnswer(null);
+      questionStartRef.current = Date.now();
+    },
+    [
+      currentCard,
+      selectedAnswer,
+      isCorrect,
+      attempts,
+      gradeCard,
+      currentIndex,
+      sessionCards.length,
+      finishSession,
+    ],
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } catch (refreshError) {
+      console.error('Error refreshing review deck:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetch]);
+
+  if (!isAuthenticated) {
+    return (
+      <View style={styles.centerContainer}>
+        <EmptyState
+          icon='lock'
+          title={t('common.loginRequired')}
+          message={t('reviewDeck.loginMessage')}
+          actionButton={{
+            title: t('auth.signIn'),
+            onPress: () => router.replace('/(auth)/login'),
+          }}
+        />
+      </View>
+    );
+  }
+
+  // ===============================
+  // REVIEW PHASE
+  // ===============================
+  if (phase === 'review' && currentCard) {
+    const options = currentCard.options || {};
+
+    return (
+      <ScrollView
+        style={styles.mainContainer}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <Row style={styles.progressHeader}>
+          <Text style={styles.progressText}>
+            {currentIndex + 1}/{sessionCards.length}
+          </Text>
+          <Button
+            title={t('reviewDeck.finish')}
+            size='small'
+            variant='ghost'
+            onPress={() => finishSession(attempts)}
+          />
+        </Row>
+        <ProgressBar
+          progress={Math.round((currentIndex / sessionCards.length) * 100)}
+          progressColor={contextColor}
+          height={6}
+          style={styles.progressBar}
+        />
+
+        <View style={styles.questionCard}>
+          <Row style={styles.metaRow}>
+            <Badge
+              text={currentCard.course_title}
+              variant='info'
+              size='sm'
+              fontFamily='SecondaryFont-Bold'
+            />
+            {currentCard.topic_title ? (
+              <Badge
+                text={currentCard.topic_title}
+                variant='secondary'
+                size='sm'
+                fontFamily='SecondaryFont-Bold'
+              />
+            ) : null}
+            <Badge
+              text={t('reviewDeck.mistakeCount', {
+                count: currentCard.mistake_count,
+              })}
+              variant='error'
+              size='sm'
+              fontFamily='SecondaryFont-Bold'
+            />
+          </Row>
+
+          <Text style={styles.questionText}>{currentCard.question_text}</Text>
+
+          {Object.entries(options).map(([key, value]) => (
+            <ReviewOption
+              key={key}
+              optionKey={key}
+              value={value}
+              isRevealed={isRevealed}
+              isCorrectOption={key === correctKey}
+              isSelected={key === selectedAnswer}
+              onPress={handleAnswer}
+            />
+          ))}
+
+          {isRevealed && (
+            <View style={styles.explanationCard}>
+              <Text style={styles.explanationTitle}>
+                {isCorrect
+                  ? t('reviewDeck.resultCorrect')
+                  : t('reviewDeck.resultWrong')}{' '}
+                • {t('reviewDeck.explanation')}
+              </Text>
+              <Text style={styles.explanationText}>
+                {currentCard.explanation || t('reviewDeck.noExplanation')}
+              </Text>
+            </View>
+          )}
+        </View>
+
+        {isRevealed &&
+          (isCorrect ? (
+            <Row style={styles.gradeRow}>
+              {GRADE_OPTIONS.map((option) => (
+                <Button
+                  key={option.grade}
+                  title={t(option.labelKey)}
+                  size='small'
+                  variant={option.grade === 5 ? 'success' : 'outline'}
+                  disabled={isGrading}
+                  onPress={() => handleGrade(option.grade)}
+                  style={styles.gradeButton}
+                />
+              ))}
+            </Row>
+          ) : (
+            <Button
+              title={t('reviewDeck.continue')}
+              icon='arrow-right'
+              variant='primary'
+              disabled={isGrading}
+              onPress={() => handleGrade(1)}
+              style={{ backgroundColor: contextColor }}
+            />
+          ))}
+      </ScrollView>
+    );
+  }
+
+  // ===============================
+  // DONE PHASE
+  // ===============================
+  if (phase === 'done') {
+    return (
+      <ScrollView
+        style={styles.mainContainer}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <PlayfulCard style={styles.card} animated={false}>
+          <View style={styles.resultIcon}>
+            <FontAwesome name='check-circle' size={48} color={contextColor} />
+          </View>
+          <Row style={styles.statsRow}>
+            <Column style={styles.statItem}>
+              <Text style={styles.statValue}>{attempts.length}</Text>
+              <Text style={styles.statLabel}>{t('reviewDeck.reviewed')}</Text>
+            </Column>
+            <Column style={styles.statItem}>
+              <Text style={styles.statValue}>{correctCount}</Text>
+              <Text style={styles.statLabel}>{t('reviewDeck.correct')}</Text>
+            </Column>
+            <Column style={styles.statItem}>
+              <Text style={styles.statValue}>
+                {attempts.length - correctCount}
+              </Text>
+              <Text style={styles.statLabel}>{t('reviewDeck.wrong')}</Text>
+            </Column>
+          </Row>
+        </PlayfulCard>
+
+        {attempts.length > 0 &&
+          (isSyncing ? (
+            <ActivityIndicator size='small' color={Colors.white} />
+          ) : syncError ? (
+            <>
+              <UIAlert
+                type='warning'
+                title={t('reviewDeck.saveFailedTitle')}
+                message={t('reviewDeck.saveFailedMessage')}
+              />
+              <Button
+                title={t('reviewDeck.saveAgain')}
+                icon='refresh'
+                variant='outline'
+                onPress={() => syncSession(attempts).catch(() => {})}
+                style={styles.actionButton}
+              />
+            </>
+          ) : savedCount !== null ? (
+            <UIAlert
+              type='success'
+              title={t('reviewDeck.savedTitle')}
+              message={t('reviewDeck.savedMessage', { count: savedCount })}
+            />
+          ) : null)}
+
+        <Button
+          title={t('reviewDeck.backToDeck')}
+          icon='book'
+          variant='primary'
+          onPress={() => setPhase('overview')}
+          style={[styles.actionButton, { backgroundColor: contextColor }]}
+        />
+      </ScrollView>
+    );
+  }
+
+  // ===============================
+  // OVERVIEW PHASE
+  // ===============================
+  return (
+    <ScrollView
+      style={styles.mainContainer}
+      contentContainerStyle={styles.scrollContent}
+      refreshControl={
+        <RefreshControl
+          refreshing={refreshing}
+          onRefresh={handleRefresh}
+          tintColor={contextColor}
+          colors={[contextColor]}
+        />
+      }
+    >
+      <SlideInElement delay={0}>
+        <PlayfulCard style={styles.headerCard}>
+          <PlayfulTitle level={1} gradient='primary' style={styles.headerTitle}>
+            {t('reviewDeck.title')}
+          </PlayfulTitle>
+          <Paragraph style={styles.headerSubtitle}>
+            {t('reviewDeck.subtitle')}
+          </Paragraph>
+        </PlayfulCard>
+      </SlideInElement>
+
+      {isLoading ? (
+        <View style={styles.centerContainer}>
+          <ActivityIndicator size='large' color={contextColor} />
+          <Text style={styles.loadingText}>{t('reviewDeck.loading')}</Text>
+        </View>
+      ) : error ? (
+        <UIAlert
+          type='error'
+          title={t('common.error')}
+          message={t('reviewDeck.loadFailed', {
+            message: (error as Error).message || t('reviewDeck.unknownError'),
+          })}
+        />
+      ) : (
+        <>
+          {/* Course filter */}
+          {courseOptions.length > 1 && (
+            <>
+              <Text style={styles.sectionLabel}>{t('reviewDeck.course')}</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.chipScroll}
+              >
+                <FilterChip
+                  label={t('common.all')}
+                  isActive={courseId === null}
+                  activeColor={contextColor}
+                  onPress={() => handleSelectCourse(null)}
+                />
+                {courseOptions.map((course) => (
+                  <FilterChip
+                    key={course.id}
+                    label={course.title}
+                    isActive={courseId === course.id}
+                    activeColor={contextColor}
+                    onPress={() => handleSelectCourse(course.id)}
+                  />
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          {/* Topic filter */}
+          {topicOptions.length > 0 && (
+            <>
+              <Text style={styles.sectionLabel}>{t('reviewDeck.topic')}</Text>
+              <ScrollView
+                horizontal
+                showsHorizontalScrollIndicator={false}
+                style={styles.chipScroll}
+              >
+                <FilterChip
+                  label={t('reviewDeck.allTopics')}
+                  isActive={topicId === null}
+                  activeColor={contextColor}
+                  onPress={() => setTopicId(null)}
+                />
+                {topicOptions.map((topic) => (
+                  <FilterChip
+                    key={topic.id}
+                    label={topic.title}
+                    isActive={topicId === topic.id}
+                    activeColor={contextColor}
+                    onPress={() => setTopicId(topic.id)}
+                  />
+                ))}
+              </ScrollView>
+            </>
+          )}
+
+          {cards.length === 0 ? (
+            <EmptyState
+              icon='smile-o'
+              title={t('reviewDeck.emptyTitle')}
+              message={t('reviewDeck.emptyMessage')}
+              buttonFontFamily='PrimaryFont'
+            />
+          ) : (
+            <PlayfulCard style={styles.card} animated={false}>
+              <Row style={styles.statsRow}>
+                <Column style={styles.statItem}>
+                  <Text style={styles.statValue}>{dueCards.length}</Text>
+                  <Text style={styles.statLabel}>
+                    {t('reviewDeck.dueToday')}
+                  </Text>
+                </Column>
+                <Column style={styles.statItem}>
+                  <Text style={styles.statValue}>{cards.length}</Text>
+                  <Text style={styles.statLabel}>
+                    {t('reviewDeck.totalQuestions')}
+                  </Text>
+                </Column>
+                <Column style={styles.statItem}>
+                  <Text style={styles.statValue}>
+                    {cards.filter((card) => !card.schedule).length}
+                  </Text>
+                  <Text style={styles.statLabel}>{t('reviewDeck.new')}</Text>
+                </Column>
+              </Row>
+
+              {dueCards.length > 0 ? (
+                <Button
+                  title={t('reviewDeck.startReview', {
+                    count: Math.min(dueCards.length, SESSION_SIZE),
+                  })}
+                  icon='play'
+                  variant='primary'
+                  onPress={() => startSession(dueCards)}
+                  style={[
+                    styles.actionButton,
+                    { backgroundColor: contextColor },
+                  ]}
+                />
+              ) : (
+                <>
+                  <Text style={[styles.mutedText, styles.actionButton]}>
+                    {t('reviewDeck.doneForToday', {
+                      next: reviewDeckHelpers.getNextReviewText(
+                        cards
+                          .map((card) => card.schedule)
+                          .filter(Boolean)
+                          .sort(
+                            (a, b) =>
+                              new Date(a!.dueAt).getTime() -
+                              new Date(b!.dueAt).getTime(),
+                          )[0] || null,
+                      ),
+                    })}
+                  </Text>
+                  <Button
+                    title={t('reviewDeck.studyAnyway')}
+                    icon='repeat'
+                    variant='outline'
+                    onPress={() => startSession(cards)}
+                    style={styles.actionButton}
+                  />
+                </>
+              )}
+            </PlayfulCard>
+          )}
+        </>
+      )}
+    </ScrollView>
+  );
+}
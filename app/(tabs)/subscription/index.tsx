@@ -0,0 +1,681 @@
+// app/(tabs)/subscription/index.tsx - Premium plans, promo codes, checkout and usage
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  Input,
+  ProgressBar,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  useActiveSubscription,
+  useSubscriptionPlans,
+  useSubscriptionUsage,
+  usePromoCode,
+  useSubscriptionCheckout,
+  usePremiumAccess,
+  subscriptionHelpers,
+  type PromoDiscount,
+  type FeatureUsageItem,
+} from '../../../src/hooks/useSubscriptionData';
+import {
+  useTranslation,
+  type TFunction,
+} from '../../../src/hooks/useTranslation';
+import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import type {
+  SubscriptionPlanPayload,
+  SubscriptionUsagePayload,
+} from '../../../src/api/subscriptionService';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  card: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  sectionTitle: {
+    fontSize: 16,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    marginBottom: Spacing[3],
+  },
+  statusRow: {
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing[3],
+  },
+  statusTitle: {
+    fontSize: 18,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  mutedText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  usageItem: {
+    marginTop: Spacing[3],
+  },
+  usageHeader: {
+    justifyContent: 'space-between',
+    marginBottom: Spacing[1],
+  },
+  usageLabel: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginRight: Spacing[2],
+  },
+  usageValue: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  planCard: {
+    marginBottom: Spacing[3],
+    padding: Spacing[4],
+    borderRadius: BorderRadius.xl,
+    borderWidth: 1,
+    borderColor: Colors.gray[200],
+    backgroundColor: Colors.white,
+  },
+  planCardPopular: {
+    borderWidth: 2,
+  },
+  planHeader: {
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginBottom: Spacing[1],
+  },
+  planName: {
+    flex: 1,
+    fontSize: 17,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    marginRight: Spacing[2],
+  },
+  planDescription: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginBottom: Spacing[3],
+  },
+  priceRow: {
+    alignItems: 'flex-end',
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  price: {
+    fontSize: 24,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  originalPrice: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[500],
+    textDecorationLine: 'line-through',
+    marginBottom: 3,
+  },
+  duration: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginBottom: 4,
+  },
+  featureRow: {
+    alignItems: 'center',
+    marginBottom: Spacing[2],
+  },
+  featureText: {
+    flex: 1,
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    marginLeft: Spacing[2],
+  },
+  buyButton: {
+    marginTop: Spacing[2],
+  },
+  promoRow: {
+    alignItems: 'flex-start',
+    gap: Spacing[2],
+  },
+  promoInput: {
+    flex: 1,
+  },
+  promoButton: {
+    marginTop: 2,
+  },
+  statusAlert: {
+    marginBottom: Spacing[4],
+  },
+  verifyingRow: {
+    alignItems: 'center',
+    gap: Spacing[2],
+    marginBottom: Spacing[4],
+  },
+  verifyingText: {
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.white,
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[8],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  errorAlert: {
+    marginBottom: Spacing[4],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// Usage meter for the active subscription
+const UsageMeter = React.memo(
+  ({
+    usage,
+    items,
+    contextColor,
+    t,
+    dateLocale,
+  }: {
+    usage: SubscriptionUsagePayload;
+    items: FeatureUsageItem[];
+    contextColor: string;
+    t: TFunction;
+    dateLocale: string;
+  }) => (
+    <View>
+      <Text style={styles.mutedText}>
+        {t('subscription.daysRemaining', { count: usage.daysRemaining })} •{' '}
+        {t('subscription.expiresOn', {
+          date: new Date(usage.expiresAt).toLocaleDateString(dateLocale, {
+            day: 'numeric',
+            month: 'long',
+            year: 'numeric',
+          }),
+        })}
+      </Text>
+      <View style={styles.usageItem}>
+        <ProgressBar
+          progress={Math.round(usage.percentUsed)}
+          progressColor={contextColor}
+          height={8}
+        />
+      </View>
+
+      {items.map((item) => (
+        <View key={item.key} style={styles.usageItem}>
+          <Row style={styles.usageHeader}>
+            <Text style={styles.usageLabel}>{item.label}</Text>
+            <Text style={styles.usageValue}>
+              {item.limit === null
+                ? t('subscription.usedUnlimited', { used: item.used })
+                : t('subscription.usageValue', {
+                    used: item.used,
+                    limit: item.limit,
+                  })}
+            </Text>
+          </Row>
+          {item.limit !== null && (
+            <ProgressBar
+              progress={item.percentUsed}
+              progressColor={
+                item.percentUsed >= 90 ? Colors.vibrant.coral : contextColor
+              }
+              height={6}
+            />
+          )}
+        </View>
+      ))}
+    </View>
+  ),
+);
+
+// Single plan with discounted price and checkout button
+const PlanCard = React.memo(
+  ({
+    plan,
+    discount,
+    contextColor,
+    isProcessing,
+    disabled,
+    onPurchase,
+    t,
+    dateLocale,
+  }: {
+    plan: SubscriptionPlanPayload;
+    discount: PromoDiscount | null;
+    contextColor: string;
+    isProcessing: boolean;
+    disabled: boolean;
+    onPurchase: (planId: number) => void;
+    t: TFunction;
+    dateLocale: string;
+  }) => {
+    const finalPrice = subscriptionHelpers.applyDiscount(plan.price, discount);
+    const hasDiscount = finalPrice < plan.price;
+
+    return (
+      <View
+        style={[
+          styles.planCard,
+          plan.isPopular && [
+            styles.planCardPopular,
+            { borderColor: contextColor },
+          ],
+        ]}
+      >
+        <Row style={styles.planHeader}>
+          <Text style={styles.planName}>{plan.name}</Text>
+          {plan.isPopular && (
+            <Badge
+              text={t('subscription.popular')}
+              variant='warning'
+              size='sm'
+              fontFamily='SecondaryFont-Bold'
+            />
+          )}
+        </Row>
+        {plan.description ? (
+          <Text style={styles.planDescription}>{plan.description}</Text>
+        ) : null}
+
+        <Row style={styles.priceRow}>
+          <Text style={styles.price}>
+            {subscriptionHelpers.formatPrice(finalPrice, dateLocale)}
+          </Text>
+          {hasDiscount && (
+            <Text style={styles.originalPrice}>
+              {subscriptionHelpers.formatPrice(plan.price, dateLocale)}
+            </Text>
+          )}
+          <Text style={styles.duration}>
+            / {t('subscription.perDays', { count: plan.durationDays })}
+          </Text>
+        </Row>
+
+        {plan.features.map((feature) => (
+          <Row key={feature} style={styles.featureRow}>
+            <FontAwesome
+              name='check-circle'
+              size={14}
+              color={Colors.vibrant.green}
+            />
+            <Text style={styles.featureText}>{feature}</Text>
+          </Row>
+        ))}
+
+        <Button
+          title={
+            isProcessing ? t('subscription.processing') : t('subscription.buy')
+          }
+          variant='primary'
+          icon='credit-card'
+          onPress={() => onPurchase(plan.id)}
+          disabled={disabled}
+          loading={isProcessing}
+          style={[styles.buyButton, { backgroundColor: contextColor }]}
+        />
+      </View>
+    );
+  },
+);
+
+export default function SubscriptionScreen() {
+  const router = useRouter();
+  const { paymentId } = useLocalSearchParams<{ paymentId?: string }>();
+  const { t, dateLocale } = useTranslation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { preferredCourse, getCourseColor, getCourseCategory } =
+    usePreferredCourse();
+  const [refreshing, setRefreshing] = useState(false);
+  const [promoInput, setPromoInput] = useState('');
+  const [promoError, setPromoError] = useState<string | null>(null);
+
+  const contextColor = useMemo(
+    () => getCourseColor(getCourseCategory(preferredCourse?.title || '')),
+    [preferredCourse?.title, getCourseColor, getCourseCategory],
+  );
+
+  const { isPremium, subscription } = usePremiumAccess();
+  const { refetch: refetchActive } = useActiveSubscription();
+  const {
+    data: plans = [],
+    isLoading: plansLoading,
+    error: plansError,
+    refetch: refetchPlans,
+  } = useSubscriptionPlans();
+  const { data: usage, refetch: refetchUsage } =
+    useSubscriptionUsage(isPremium);
+  const { applyPromoCode, clearPromoCode, discount, isApplying } =
+    usePromoCode();
+  const checkout = useSubscriptionCheckout();
+  const { verifyReturnedPayment } = checkout;
+
+  const usageItems = useMemo(
+    () => subscriptionHelpers.getFeatureUsage(usage),
+    [usage],
+  );
+
+  // Returning from the payment page through the dus-app://subscription link
+  useEffect(() => {
+    if (isAuthenticated && typeof paymentId === 'string' && paymentId) {
+      verifyReturnedPayment(paymentId);
+    }
+  }, [isAuthenticated, paymentId, verifyReturnedPayment]);
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await Promise.all([
+        refetchActive(),
+        refetchPlans(),
+        isPremium ? refetchUsage() : Promise.resolve(),
+      ]);
+    } catch (refreshError) {
+      console.error('Error refreshing subscription:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetchActive, refetchPlans, refetchUsage, isPremium]);
+
+  const handleApplyPromo = useCallback(async () => {
+    const code = promoInput.trim().toUpperCase();
+    if (!code) return;
+
+    setPromoError(null);
+    try {
+      const result = await applyPromoCode(code);
+      if (!result.valid) {
+        setPromoError(result.message || t('subscription.promoInvalid'));
+      }
+    } catch (promoApplyError) {
+      setPromoError(t('subscription.promoInvalid'));
+    }
+  }, [promoInput, applyPromoCode, t]);
+
+  const handleRemovePromo = useCallback(() => {
+    clearPromoCode();
+    setPromoInput('');
+    setPromoError(null);
+  }, [clearPromoCode]);
+
+  const handlePurchase = useCallback(
+    (planId: number) => {
+      // Pay the price shown: the accepted promo code goes with the checkout
+      checkout.startCheckout(planId, discount?.code);
+    },
+    [checkout.startCheckout, discount?.code],
+  );
+
+  if (authLoading) {
+    return (
+      <Container style={styles.errorContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Container style={styles.errorContainer}>
+        <Alert
+          type='error'
+          title={t('common.loginRequired')}
+          message={t('subscription.loginRequired')}
+          style={styles.errorAlert}
+        />
+        <Button
+          title={t('auth.signIn')}
+          variant='primary'
+          onPress={() => router.replace('/(auth)/login')}
+          icon='sign-in'
+        />
+      </Container>
+    );
+  }
+
+  const discountLabel = discount?.discountPercent
+    ? t('subscription.discountPercent', { percent: discount.discountPercent })
+    : discount?.discountAmount
+      ? t('subscription.discountAmount', {
+          amount: subscriptionHelpers.formatPrice(
+            discount.discountAmount,
+            dateLocale,
+          ),
+        })
+      : null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        keyboardShouldPersistTaps='handled'
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={contextColor}
+            colors={[contextColor]}
+          />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('subscription.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('subscription.subtitle')}
+            </Paragraph>
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Checkout status */}
+        {checkout.status === 'verifying' && (
+          <Row style={styles.verifyingRow}>
+            <ActivityIndicator size='small' color={Colors.white} />
+            <Text style={styles.verifyingText}>
+              {t('subscription.verifying')}
+            </Text>
+          </Row>
+        )}
+        {(checkout.status === 'success' ||
+          checkout.status === 'failed' ||
+          checkout.status === 'cancelled') &&
+          checkout.message && (
+            <Alert
+              type={
+                checkout.status === 'success'
+                  ? 'success'
+                  : checkout.status === 'failed'
+                    ? 'error'
+                    : 'warning'
+              }
+              message={checkout.message}
+              dismissible
+              onDismiss={checkout.reset}
+              style={styles.statusAlert}
+            />
+          )}
+
+        {/* Current status & usage */}
+        <SlideInElement delay={100}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Row style={styles.statusRow}>
+              <Text style={styles.statusTitle}>
+                {isPremium
+                  ? t('subscription.premiumActive')
+                  : t('subscription.freePlan')}
+              </Text>
+              {subscription?.subscription_type ? (
+                <Badge
+                  text={subscription.subscription_type}
+                  variant='success'
+                  size='sm'
+                  fontFamily='SecondaryFont-Bold'
+                />
+              ) : null}
+            </Row>
+            {isPremium && usage ? (
+              <UsageMeter
+                usage={usage}
+                items={usageItems}
+                contextColor={contextColor}
+                t={t}
+                dateLocale={dateLocale}
+              />
+            ) : (
+              <Text style={styles.mutedText}>
+                {t('subscription.freePlanMessage')}
+              </Text>
+            )}
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Promo code */}
+        <SlideInElement delay={150}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {t('subscription.promoTitle')}
+            </Text>
+            {discount ? (
+              <Alert
+                type='success'
+                title={t('subscription.promoApplied', { code: discount.code })}
+                message={discountLabel || discount.message}
+                dismissible
+                onDismiss={handleRemovePromo}
+              />
+            ) : (
+              <Row style={styles.promoRow}>
+                <View style={styles.promoInput}>
+                  <Input
+                    value={promoInput}
+                    onChangeText={setPromoInput}
+                    placeholder={t('subscription.promoPlaceholder')}
+                    autoCapitalize='characters'
+                    error={promoError || undefined}
+                  />
+                </View>
+                <Button
+                  title={t('subscription.promoApply')}
+                  variant='outline'
+                  size='small'
+                  onPress={handleApplyPromo}
+                  disabled={!promoInput.trim() || isApplying}
+                  loading={isApplying}
+                  style={styles.promoButton}
+                />
+              </Row>
+            )}
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Plans */}
+        <SlideInElement delay={200}>
+          <PlayfulCard style={styles.card} animated={false}>
+            <Text style={styles.sectionTitle}>
+              {t('subscription.plansTitle')}
+            </Text>
+            {plansLoading ? (
+              <View style={styles.loadingContainer}>
+                <ActivityIndicator size='large' color={contextColor} />
+              </View>
+            ) : plansError ? (
+              <Alert
+                type='error'
+                message={t('subscription.plansError')}
+                style={styles.errorAlert}
+              />
+            ) : plans.length === 0 ? (
+              <EmptyState
+                icon='diamond'
+                title={t('subscription.noPlans')}
+                message={t('subscription.noPlansMessage')}
+              />
+            ) : (
+              plans.map((plan) => (
+                <PlanCard
+                  key={plan.id}
+                  plan={plan}
+                  discount={discount}
+                  contextColor={contextColor}
+                  isProcessing={checkout.isBusy && checkout.planId === plan.id}
+                  disabled={checkout.isBusy}
+                  onPurchase={handlePurchase}
+                  t={t}
+                  dateLocale={dateLocale}
+                />
+              ))
+            )}
+          </PlayfulCard>
+        </SlideInElement>
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
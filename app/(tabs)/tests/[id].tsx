@@ -0,0 +1,861 @@
+// app/(tabs)/tests/[id].tsx - Solo practice test player and result summary
+
+import React, {
+  useState,
+  useEffect,
+  useRef,
+  useCallback,
+  useMemo,
+  memo,
+} from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  TouchableOpacity,
+  ActivityIndicator,
+  Alert,
+  BackHandler,
+  StyleSheet,
+} from 'react-native';
+import { useRouter, useLocalSearchParams } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
+import { FontAwesome } from '@expo/vector-icons';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  EmptyState,
+  ProgressBar,
+  ScoreDisplay,
+  Alert as UIAlert,
+} from '../../../components/ui';
+import { Colors, Spacing, BorderRadius } from '../../../constants/theme';
+import {
+  usePracticeTest,
+  usePracticeTestSubmission,
+  useBookmarkPracticeSet,
+  practiceTestHelpers,
+  BOOKMARK_PRACTICE_SET_ID,
+  type PracticeTestSummary,
+} from '../../../src/hooks/usePracticeTestsData';
+import { Question } from '../../../src/types/models';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+
+type PlayerPhase = 'intro' | 'question' | 'summary';
+
+const styles = StyleSheet.create({
+  mainContainer: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+    paddingBottom: Spacing[12],
+  },
+  centerContainer: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[4],
+  },
+  lightText: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Regular',
+    textAlign: 'center',
+  },
+  introCard: {
+    marginBottom: Spacing[4],
+  },
+  introTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    textAlign: 'center',
+  },
+  introDescription: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    textAlign: 'center',
+    marginBottom: Spacing[4],
+  },
+  introMetaRow: {
+    justifyContent: 'center',
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+    marginBottom: Spacing[4],
+  },
+  headerContainer: {
+    backgroundColor: 'rgba(255,255,255,0.15)',
+    borderRadius: BorderRadius.card,
+    padding: Spacing[3],
+    marginBottom: Spacing[4],
+  },
+  headerRow: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  questionCounter: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+    fontSize: 14,
+  },
+  timer: {
+    color: Colors.white,
+    fontFamily: 'PrimaryFont',
+    fontSize: 20,
+  },
+  timerDanger: {
+    color: Colors.vibrant.coral,
+  },
+  questionCard: {
+    backgroundColor: Colors.white,
+    borderRadius: BorderRadius.card,
+    padding: Spacing[4],
+    marginBottom: Spacing[4],
+  },
+  questionText: {
+    fontSize: 16,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[900],
+    marginBottom: Spacing[4],
+    lineHeight: 22,
+  },
+  optionButton: {
+    borderWidth: 2,
+    borderColor: Colors.gray[200],
+    borderRadius: BorderRadius.button,
+    padding: Spacing[3],
+    marginBottom: Spacing[2],
+    backgroundColor: Colors.gray[50],
+  },
+  selectedOption: {
+    borderColor: Colors.vibrant.purple,
+    backgroundColor: Colors.vibrant.purpleLight,
+  },
+  optionText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[800],
+  },
+  selectedOptionText: {
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  navigationRow: {
+    justifyContent: 'space-between',
+    gap: Spacing[3],
+  },
+  navigationButton: {
+    flex: 1,
+  },
+  summaryCard: {
+    marginBottom: Spacing[4],
+    alignItems: 'center',
+  },
+  summaryMessage: {
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    textAlign: 'center',
+    marginVertical: Spacing[3],
+  },
+  summaryStatsRow: {
+    justifyContent: 'space-around',
+    width: '100%',
+    marginBottom: Spacing[3],
+  },
+  summaryStat: {
+    alignItems: 'center',
+  },
+  summaryStatValue: {
+    fontSize: 22,
+    fontFamily: 'PrimaryFont',
+  },
+  summaryStatLabel: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+  },
+  submissionStatus: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    textAlign: 'center',
+  },
+  reviewTitle: {
+    fontSize: 16,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.white,
+    marginBottom: Spacing[3],
+  },
+  reviewCard: {
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    borderRadius: BorderRadius.card,
+    padding: Spacing[3],
+    marginBottom: Spacing[3],
+  },
+  reviewHeader: {
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: Spacing[2],
+  },
+  reviewQuestionText: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[2],
+  },
+  reviewAnswerText: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+    marginBottom: 2,
+  },
+  explanationContainer: {
+    marginTop: Spacing[2],
+    padding: Spacing[2],
+    borderRadius: BorderRadius.md,
+    backgroundColor: Colors.vibrant.yellowLight,
+  },
+  explanationTitle: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: 2,
+  },
+  explanationText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  summaryActions: {
+    gap: Spacing[3],
+  },
+});
+
+// Memoized option row for the active question
+const PracticeOption = memo<{
+  optionKey: string;
+  value: string;
+  isSelected: boolean;
+  onPress: (key: string) => void;
+}>(({ optionKey, value, isSelected, onPress }) => (
+  <TouchableOpacity
+    style={[styles.optionButton, isSelected && styles.selectedOption]}
+    onPress={() => onPress(optionKey)}
+    activeOpacity={0.8}
+  >
+    <Text style={[styles.optionText, isSelected && styles.selectedOptionText]}>
+      {optionKey}) {value}
+    </Text>
+  </TouchableOpacity>
+));
+
+// Memoized review card for the summary list
+const ReviewItem = memo<{
+  index: number;
+  question: Question;
+  selectedAnswer: string | null;
+  isCorrect: boolean;
+}>(({ index, question, selectedAnswer, isCorrect }) => {
+  const { t } = useTranslation();
+  const correctKey = practiceTestHelpers.resolveCorrectOptionKey(question);
+  const options = question.options || {};
+
+  return (
+    <View style={styles.reviewCard}>
+      <Row style={styles.reviewHeader}>
+        <Text style={styles.reviewAnswerText}>
+          {t('practiceTests.questionLabel', { number: index + 1 })}
+        </Text>
+        <Badge
+          text={
+            selectedAnswer === null
+              ? t('practiceTests.blank')
+              : isCorrect
+                ? t('practiceTests.correctMark')
+                : t('practiceTests.wrongMark')
+          }
+          variant={
+            selectedAnswer === null
+              ? 'neutral'
+              : isCorrect
+                ? 'success'
+                : 'error'
+          }
+          size='sm'
+          fontFamily='SecondaryFont-Bold'
+        />
+      </Row>
+      <Text style={styles.reviewQuestionText}>{question.question_text}</Text>
+      {selectedAnswer !== null && (
+        <Text style={styles.reviewAnswerText}>
+          {t('practiceTests.yourAnswer', {
+            answer: `${selectedAnswer}) ${String(options[selectedAnswer] ?? '')}`,
+          })}
+        </Text>
+      )}
+      <Text style={styles.reviewAnswerText}>
+        {t('practiceTests.correctAnswer', {
+          answer: `${correctKey ?? question.correct_answer}${
+            correctKey ? `) ${String(options[correctKey] ?? '')}` : ''
+          }`,
+        })}
+      </Text>
+      {question.explanation ? (
+        <View style={styles.explanationContainer}>
+          <Text style={styles.explanationTitle}>
+            {t('practiceTests.explanation')}
+          </Text>
+          <Text style={styles.explanationText}>{question.explanation}</Text>
+        </View>
+      ) : null}
+    </View>
+  );
+});
+
+export default function PracticeTestPlayerScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { id, courseId } = useLocalSearchParams();
+  // Bookmarked questions are played locally and never submitted as a test result
+  const isBookmarkSet = id === BOOKMARK_PRACTICE_SET_ID;
+  const testId = isBookmarkSet ? NaN : parseInt(id as string);
+
+  const {
+    data: fetchedTest,
+    isLoading,
+    error,
+    refetch,
+  } = usePracticeTest(testId);
+  const bookmarkSet = useBookmarkPracticeSet(
+    courseId ? parseInt(courseId as string) : null,
+  );
+  const test = isBookmarkSet ? bookmarkSet : fetchedTest;
+  const { submit, isSubmitting, submitError, submission, reset } =
+    usePracticeTestSubmission();
+
+  const [phase, setPhase] = useState<PlayerPhase>('intro');
+  const [currentIndex, setCurrentIndex] = useState(0);
+  const [selections, setSelections] = useState<Record<number, string | null>>(
+    {},
+  );
+  const [remainingSeconds, setRemainingSeconds] = useState(0);
+  const [summary, setSummary] = useState<PracticeTestSummary | null>(null);
+
+  // Timing refs - wall clock based so the timer survives re-renders
+  const startedAt = useRef<number>(0);
+  const questionShownAt = useRef<number>(0);
+  const timeSpent = useRef<Record<number, number>>({});
+
+  const questions = useMemo(() => test?.questions || [], [test?.questions]);
+  const timeLimitSeconds = useMemo(
+    () => practiceTestHelpers.getTimeLimitSeconds(test),
+    [test],
+  );
+  const currentQuestion = questions[currentIndex] || null;
+
+  const recordQuestionTime = useCallback(() => {
+    if (!currentQuestion || !questionShownAt.current) return;
+    const elapsed = (Date.now() - questionShownAt.current) / 1000;
+    timeSpent.current[currentQuestion.question_id] =
+      (timeSpent.current[currentQuestion.question_id] || 0) + elapsed;
+    questionShownAt.current = Date.now();
+  }, [currentQuestion]);
+
+  const handleStart = useCallback(() => {
+    reset();
+    setSelections({});
+    setSummary(null);
+    setCurrentIndex(0);
+    timeSpent.current = {};
+    startedAt.current = Date.now();
+    questionShownAt.current = Date.now();
+    setRemainingSeconds(timeLimitSeconds);
+    setPhase('question');
+  }, [reset, timeLimitSeconds]);
+
+  const handleFinish = useCallback(async () => {
+    if (!test) return;
+    recordQuestionTime();
+
+    const totalTime = (Date.now() - startedAt.current) / 1000;
+    const result = practiceTestHelpers.buildSummary(
+      test.test_id,
+      questions,
+      selections,
+      timeSpent.current,
+      timeLimitSeconds > 0 ? Math.min(totalTime, timeLimitSeconds) : totalTime,
+    );
+
+    setSummary(result);
+    setPhase('summary');
+    if (isBookmarkSet) return;
+
+    try {
+      await submit(result);
+    } catch (submitErr) {
+      // Error is surfaced through submitError in the summary card
+      console.warn('Practice test result could not be saved:', submitErr);
+    }
+  }, [
+    test,
+    questions,
+    selections,
+    timeLimitSeconds,
+    recordQuestionTime,
+    submit,
+    isBookmarkSet,
+  ]);
+
+  const confirmFinish = useCallback(() => {
+    const unanswered = questions.filter(
+      (q) => selections[q.question_id] == null,
+    ).length;
+
+    Alert.alert(
+      t('practiceTests.finishTitle'),
+      unanswered > 0
+        ? t('practiceTests.finishUnanswered', { count: unanswered })
+        : t('practiceTests.finishConfirm'),
+      [
+        { text: t('common.cancel'), style: 'cancel' },
+        {
+          text: t('practiceTests.finish'),
+          style: 'destructive',
+          onPress: handleFinish,
+        },
+      ],
+    );
+  }, [questions, selections, handleFinish, t]);
+
+  const handleSelect = useCallback(
+    (optionKey: string) => {
+      if (!currentQuestion) return;
+      setSelections((prev) => ({
+        ...prev,
+        [currentQuestion.question_id]: optionKey,
+      }));
+    },
+    [currentQuestion],
+  );
+
+  const goToQuestion = useCallback(
+    (index: number) => {
+      if (index < 0 || index >= questions.length) return;
+      recordQuestionTime();
+      setCurrentIndex(index);
+    },
+    [questions.length, recordQuestionTime],
+  );
+
+  const handleExit = useCallback(() => {
+    if (phase !== 'question') {
+      router.back();
+      return;
+    }
+    Alert.alert(t('practiceTests.exitTitle'), t('practiceTests.exitMessage'), [
+      { text: t('common.cancel'), style: 'cancel' },
+      {
+        text: t('practiceTests.exit'),
+        style: 'destructive',
+        onPress: () => router.back(),
+      },
+    ]);
+  }, [phase, router, t]);
+
+  // Countdown - only for timed tests while answering
+  useEffect(() => {
+    if (phase !== 'question' || timeLimitSeconds <= 0) return;
+
+    const interval: ReturnType<typeof setInterval> = setInterval(() => {
+      const elapsed = (Date.now() - startedAt.current) / 1000;
+      const remaining = Math.max(0, timeLimitSeconds - elapsed);
+      setRemainingSeconds(remaining);
+    }, 1000);
+
+    return () => clearInterval(interval);
+  }, [phase, timeLimitSeconds]);
+
+  // Auto-finish when the time limit runs out
+  useEffect(() => {
+    if (
+      phase === 'question' &&
+      timeLimitSeconds > 0 &&
+      remainingSeconds <= 0 &&
+      startedAt.current > 0
+    ) {
+      console.log('⏰ Practice test time is up, finishing automatically');
+      handleFinish();
+    }
+  }, [phase, timeLimitSeconds, remainingSeconds, handleFinish]);
+
+  // Hardware back button asks before leaving an active test
+  useEffect(() => {
+    const backHandler = BackHandler.addEventListener(
+      'hardwareBackPress',
+      () => {
+        handleExit();
+        return true;
+      },
+    );
+    return () => backHandler.remove();
+  }, [handleExit]);
+
+  if (isLoading) {
+    return (
+      <View style={styles.centerContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={[styles.lightText, { marginTop: Spacing[3] }]}>
+          {t('practiceTests.loadingTest')}
+        </Text>
+      </View>
+    );
+  }
+
+  if (error || !test) {
+    return (
+      <View style={styles.centerContainer}>
+        <UIAlert
+          type='error'
+          title={t('common.error')}
+          message={
+            error
+              ? t('practiceTests.loadTestFailed', {
+                  message: (error as Error).message,
+                })
+              : isBookmarkSet
+                ? t('practiceTests.noBookmarks')
+                : t('practiceTests.notFound')
+          }
+          style={{ marginBottom: Spacing[4] }}
+        />
+        <Button
+          title={t('common.tryAgain')}
+          variant='primary'
+          icon='refresh'
+          onPress={() => refetch()}
+        />
+      </View>
+    );
+  }
+
+  if (questions.length === 0) {
+    return (
+      <View style={styles.centerContainer}>
+        <EmptyState
+          icon='question-circle'
+          title={t('practiceTests.noQuestionsTitle')}
+          message={t('practiceTests.noQuestionsMessage')}
+          actionButton={{
+            title: t('practiceTests.backToTests'),
+            onPress: () => router.back(),
+            variant: 'secondary',
+          }}
+          buttonFontFamily='PrimaryFont'
+        />
+      </View>
+    );
+  }
+
+  // INTRO
+  if (phase === 'intro') {
+    return (
+      <ScrollView
+        style={styles.mainContainer}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <PlayfulCard style={styles.introCard}>
+          <PlayfulTitle level={2} style={styles.introTitle}>
+            {test.title}
+          </PlayfulTitle>
+          {test.description ? (
+            <Paragraph style={styles.introDescription}>
+              {test.description}
+            </Paragraph>
+          ) : null}
+          <Row style={styles.introMetaRow}>
+            <Badge
+              text={t('practiceTests.questionCount', {
+                count: questions.length,
+              })}
+              variant='info'
+              fontFamily='SecondaryFont-Bold'
+            />
+            <Badge
+              text={
+                timeLimitSeconds > 0
+                  ? t('practiceTests.minutes', {
+                      count: Math.round(timeLimitSeconds / 60),
+                    })
+                  : t('practiceTests.untimed')
+              }
+              variant={timeLimitSeconds > 0 ? 'warning' : 'success'}
+              fontFamily='SecondaryFont-Bold'
+            />
+            <Badge
+              text={practiceTestHelpers.getDifficultyText(
+                test.difficulty_level,
+              )}
+              variant='neutral'
+              fontFamily='SecondaryFont-Bold'
+            />
+          </Row>
+          <Button
+            title={t('practiceTests.startTest')}
+            icon='play'
+            variant='primary'
+            onPress={handleStart}
+          />
+        </PlayfulCard>
+        <Button
+          title={t('navigation.goBack')}
+          icon='arrow-left'
+          variant='outline'
+          onPress={() => router.back()}
+        />
+      </ScrollView>
+    );
+  }
+
+  // SUMMARY
+  if (phase === 'summary' && summary) {
+    return (
+      <ScrollView
+        style={styles.mainContainer}
+        contentContainerStyle={styles.scrollContent}
+      >
+        <PlayfulCard style={styles.summaryCard}>
+          <Column style={{ alignItems: 'center' }}>
+            <PlayfulTitle level={2} style={styles.introTitle}>
+              {t('practiceTests.completed')}
+            </PlayfulTitle>
+            <ScoreDisplay
+              score={summary.correctCount}
+              maxScore={summary.totalQuestions}
+              label={t('practiceTests.scoreLabel', { score: summary.score })}
+              variant='gradient'
+              size='large'
+            />
+            <Text style={styles.summaryMessage}>
+              {practiceTestHelpers.getScoreMessage(summary.score)}
+            </Text>
+            <Row style={styles.summaryStatsRow}>
+              <Column style={styles.summaryStat}>
+                <Text
+                  style={[
+                    styles.summaryStatValue,
+                    { color: Colors.vibrant.mint },
+                  ]}
+                >
+                  {summary.correctCount}
+                </Text>
+                <Text style={styles.summaryStatLabel}>
+                  {t('practiceTests.correct')}
+                </Text>
+              </Column>
+              <Column style={styles.summaryStat}>
+                <Text
+                  style={[
+                    styles.summaryStatValue,
+                    { color: Colors.vibrant.coral },
+                  ]}
+                >
+                  {summary.incorrectCount}
+                </Text>
+                <Text style={styles.summaryStatLabel}>
+                  {t('practiceTests.wrong')}
+                </Text>
+              </Column>
+              <Column style={styles.summaryStat}>
+                <Text
+                  style={[styles.summaryStatValue, { color: Colors.gray[500] }]}
+                >
+                  {summary.unansweredCount}
+                </Text>
+                <Text style={styles.summaryStatLabel}>
+                  {t('practiceTests.blank')}
+                </Text>
+              </Column>
+              <Column style={styles.summaryStat}>
+                <Text
+                  style={[
+                    styles.summaryStatValue,
+                    { color: Colors.vibrant.purple },
+                  ]}
+                >
+                  {practiceTestHelpers.formatClock(summary.timeTaken)}
+                </Text>
+                <Text style={styles.summaryStatLabel}>
+                  {t('practiceTests.duration')}
+                </Text>
+              </Column>
+            </Row>
+            <Text style={styles.submissionStatus}>
+              {isBookmarkSet
+                ? t('practiceTests.bookmarkNotSaved')
+                : isSubmitting
+                  ? t('practiceTests.saving')
+                  : submission
+                    ? t('practiceTests.saved')
+                    : submitError
+                      ? t('practiceTests.saveFailed')
+                      : ''}
+            </Text>
+            {submitError && !isSubmitting && (
+              <Button
+                title={t('practiceTests.saveAgain')}
+                icon='refresh'
+                size='small'
+                variant='outline'
+                onPress={() => submit(summary).catch(() => undefined)}
+                style={{ marginTop: Spacing[2] }}
+              />
+            )}
+          </Column>
+        </PlayfulCard>
+
+        <Text style={styles.reviewTitle}>
+          {t('practiceTests.answerSummary')}
+        </Text>
+        {questions.map((question, index) => {
+          const answer = summary.answers[index];
+          return (
+            <ReviewItem
+              key={question.question_id}
+              index={index}
+              question={question}
+              selectedAnswer={answer?.selectedAnswer ?? null}
+              isCorrect={answer?.isCorrect || false}
+            />
+          );
+        })}
+
+        <Column style={styles.summaryActions}>
+          <Button
+            title={t('practiceTests.retake')}
+            icon='repeat'
+            variant='primary'
+            onPress={handleStart}
+            disabled={isSubmitting}
+          />
+          <Button
+            title={
+              isBookmarkSet
+                ? t('practiceTests.backToBookmarks')
+                : t('practiceTests.backToTests')
+            }
+            icon='list'
+            variant='outline'
+            onPress={() =>
+              router.replace(buildRoute(isBookmarkSet ? 'bookmarks' : 'tests'))
+            }
+          />
+        </Column>
+      </ScrollView>
+    );
+  }
+
+  // QUESTION
+  const selectedAnswer = currentQuestion
+    ? (selections[currentQuestion.question_id] ?? null)
+    : null;
+  const answeredCount = Object.values(selections).filter(
+    (v) => v != null,
+  ).length;
+  const isLastQuestion = currentIndex === questions.length - 1;
+
+  return (
+    <ScrollView
+      style={styles.mainContainer}
+      contentContainerStyle={styles.scrollContent}
+    >
+      <View style={styles.headerContainer}>
+        <Row style={styles.headerRow}>
+          <Column>
+            <Text style={styles.questionCounter}>
+              {t('practiceTests.questionProgress', {
+                current: currentIndex + 1,
+                total: questions.length,
+              })}
+            </Text>
+            <ProgressBar
+              progress={Math.round((answeredCount / questions.length) * 100)}
+              progressColor={Colors.vibrant.mint}
+              style={{ width: 140, marginTop: Spacing[1] }}
+            />
+          </Column>
+          <Row style={{ alignItems: 'center' }}>
+            <TouchableOpacity
+              onPress={handleExit}
+              style={{ marginRight: Spacing[3] }}
+            >
+              <FontAwesome name='times' size={20} color={Colors.white} />
+            </TouchableOpacity>
+            <Text
+              style={[
+                styles.timer,
+                timeLimitSeconds > 0 &&
+                  remainingSeconds <= 60 &&
+                  styles.timerDanger,
+              ]}
+            >
+              {timeLimitSeconds > 0
+                ? `⏱ ${practiceTestHelpers.formatClock(remainingSeconds)}`
+                : '∞'}
+            </Text>
+          </Row>
+        </Row>
+      </View>
+
+      {currentQuestion && (
+        <View style={styles.questionCard}>
+          <Text style={styles.questionText}>
+            {currentQuestion.question_text}
+          </Text>
+          {Object.entries(currentQuestion.options || {}).map(([key, value]) => (
+            <PracticeOption
+              key={key}
+              optionKey={key}
+              value={String(value)}
+              isSelected={selectedAnswer === key}
+              onPress={handleSelect}
+            />
+          ))}
+        </View>
+      )}
+
+      <Row style={styles.navigationRow}>
+        <Button
+          title={t('practiceTests.previous')}
+          icon='chevron-left'
+          variant='outline'
+          size='small'
+          disabled={currentIndex === 0}
+          onPress={() => goToQuestion(currentIndex - 1)}
+          style={styles.navigationButton}
+        />
+        {isLastQuestion ? (
+          <Button
+            title={t('practiceTests.finishTitle')}
+            icon='flag-checkered'
+            variant='success'
+            size='small'
+            onPress={confirmFinish}
+            style={styles.navigationButton}
+          />
+        ) : (
+          <Button
+            title={t('practiceTests.next')}
+            icon='chevron-right'
+            variant='primary'
+            size='small'
+            onPress={() => goToQuestion(currentIndex + 1)}
+            style={styles.navigationButton}
+          />
+        )}
+      </Row>
+    </ScrollView>
+  );
+}
@@ -0,0 +1,484 @@
+// app/(tabs)/tests/index.tsx - Practice test browser (by course / topic)
+
+import React, { useState, useMemo, useCallback, useEffect } from 'react';
+import {
+  View,
+  Text,
+  ScrollView,
+  ActivityIndicator,
+  TouchableOpacity,
+  RefreshControl,
+  StyleSheet,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { buildRoute } from '../../../constants/routes';
+import {
+  PlayfulCard,
+  PlayfulTitle,
+  Paragraph,
+  Row,
+  Column,
+  Badge,
+  Button,
+  Alert,
+  EmptyState,
+  SlideInElement,
+  Container,
+  Colors,
+  Spacing,
+  BorderRadius,
+} from '../../../components/ui';
+import {
+  usePracticeTests,
+  useCourseTopics,
+  practiceTestHelpers,
+} from '../../../src/hooks/usePracticeTestsData';
+import { useAuth, usePreferredCourse } from '../../../stores/appStore';
+import { Test } from '../../../src/types/models';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+  },
+  scrollContent: {
+    padding: Spacing[4],
+  },
+  headerCard: {
+    marginBottom: Spacing[4],
+    backgroundColor: 'transparent',
+  },
+  headerTitle: {
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+  },
+  headerSubtitle: {
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  bookmarksButton: {
+    alignSelf: 'flex-start',
+    marginTop: Spacing[3],
+  },
+  sectionLabel: {
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[2],
+  },
+  chipScroll: {
+    marginBottom: Spacing[4],
+  },
+  chip: {
+    paddingVertical: Spacing[2],
+    paddingHorizontal: Spacing[3],
+    borderRadius: BorderRadius.button,
+    backgroundColor: Colors.white,
+    marginRight: Spacing[2],
+  },
+  chipText: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[700],
+  },
+  chipTextActive: {
+    color: Colors.white,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  testCard: {
+    marginBottom: Spacing[3],
+    backgroundColor: 'rgba(255,255,255,0.95)',
+  },
+  testRow: {
+    alignItems: 'center',
+    justifyContent: 'space-between',
+  },
+  testInfo: {
+    flex: 1,
+    marginRight: Spacing[3],
+  },
+  testTitle: {
+    fontSize: 15,
+    fontFamily: 'SecondaryFont-Bold',
+    color: Colors.gray[800],
+    marginBottom: Spacing[1],
+  },
+  testDescription: {
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    marginBottom: Spacing[2],
+  },
+  testMetaRow: {
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+  },
+  loadingContainer: {
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: Spacing[8],
+  },
+  loadingText: {
+    marginTop: Spacing[3],
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.white,
+  },
+  errorContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  errorAlert: {
+    marginBottom: Spacing[4],
+  },
+  bottomSpacing: {
+    height: Spacing[8],
+  },
+});
+
+// Selectable filter chip
+const FilterChip = React.memo(
+  ({
+    label,
+    isActive,
+    activeColor,
+    onPress,
+  }: {
+    label: string;
+    isActive: boolean;
+    activeColor: string;
+    onPress: () => void;
+  }) => (
+    <TouchableOpacity
+      style={[styles.chip, isActive && { backgroundColor: activeColor }]}
+      onPress={onPress}
+      activeOpacity={0.8}
+    >
+      <Text
+        style={[styles.chipText, isActive && styles.chipTextActive]}
+        numberOfLines={1}
+      >
+        {label}
+      </Text>
+    </TouchableOpacity>
+  ),
+);
+
+// Single test entry in the list
+const PracticeTestCard = React.memo(
+  ({
+    test,
+    contextColor,
+    onStart,
+  }: {
+    test: Test;
+    contextColor: string;
+    onStart: (testId: number) => void;
+  }) => {
+    const { t } = useTranslation();
+    const timeLimitSeconds = practiceTestHelpers.getTimeLimitSeconds(test);
+
+    return (
+      <PlayfulCard style={styles.testCard} animated={false}>
+        <Row style={styles.testRow}>
+          <Column style={styles.testInfo}>
+            <Text style={styles.testTitle}>{test.title}</Text>
+            {test.description ? (
+              <Text style={styles.testDescription} numberOfLines={2}>
+                {test.description}
+              </Text>
+            ) : null}
+            <Row style={styles.testMetaRow}>
+              <Badge
+                text={t('practiceTests.questionCount', {
+                  count: test.question_count || 0,
+                })}
+                variant='info'
+                size='sm'
+                fontFamily='SecondaryFont-Bold'
+              />
+              <Badge
+                text={
+                  timeLimitSeconds > 0
+                    ? t('practiceTests.minutesShort', {
+                        count: Math.round(timeLimitSeconds / 60),
+                      })
+                    : t('practiceTests.untimed')
+                }
+                variant={timeLimitSeconds > 0 ? 'warning' : 'success'}
+                size='sm'
+                fontFamily='SecondaryFont-Bold'
+              />
+              <Badge
+                text={practiceTestHelpers.getDifficultyText(
+                  test.difficulty_level,
+                )}
+                variant='neutral'
+                size='sm'
+                fontFamily='SecondaryFont-Bold'
+              />
+              {test.topics?.title ? (
+                <Badge
+                  text={test.topics.title}
+                  variant='secondary'
+                  size='sm'
+                  fontFamily='SecondaryFont-Bold'
+                />
+              ) : null}
+            </Row>
+          </Column>
+          <Button
+            title={t('practiceTests.start')}
+            icon='play'
+            size='small'
+            variant='primary'
+            onPress={() => onStart(test.test_id)}
+            style={{ backgroundColor: contextColor }}
+          />
+        </Row>
+      </PlayfulCard>
+    );
+  },
+);
+
+export default function PracticeTestsScreen() {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const {
+    preferredCourse,
+    availableCourses,
+    refreshCourses,
+    getCourseColor,
+    getCourseCategory,
+  } = usePreferredCourse();
+
+  const [selectedCourseId, setSelectedCourseId] = useState<number | null>(
+    preferredCourse?.course_id ?? null,
+  );
+  const [selectedTopicId, setSelectedTopicId] = useState<number | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Make sure the course list is available for the filter chips
+  useEffect(() => {
+    if (isAuthenticated && availableCourses.length === 0) {
+      refreshCourses();
+    }
+  }, [isAuthenticated, availableCourses.length, refreshCourses]);
+
+  const {
+    data: tests = [],
+    isLoading,
+    error,
+    refetch,
+  } = usePracticeTests({
+    courseId: selectedCourseId ?? undefined,
+    topicId: selectedTopicId ?? undefined,
+  });
+  const { data: topics = [] } = useCourseTopics(selectedCourseId);
+
+  const contextColor = useMemo(() => {
+    const selectedCourse = availableCourses.find(
+      (c) => c.course_id === selectedCourseId,
+    );
+    const title = selectedCourse?.title || preferredCourse?.title || '';
+    return getCourseColor(getCourseCategory(title));
+  }, [
+    availableCourses,
+    selectedCourseId,
+    preferredCourse?.title,
+    getCourseColor,
+    getCourseCategory,
+  ]);
+
+  const handleSelectCourse = useCallback((courseId: number | null) => {
+    setSelectedCourseId(courseId);
+    setSelectedTopicId(null);
+  }, []);
+
+  const handleStartTest = useCallback(
+    (testId: number) => {
+      router.push(buildRoute('test', { id: testId }));
+    },
+    [router],
+  );
+
+  const handleRefresh = useCallback(async () => {
+    setRefreshing(true);
+    try {
+      await refetch();
+    } catch (refreshError) {
+      console.error('Error refreshing practice tests:', refreshError);
+    } finally {
+      setRefreshing(false);
+    }
+  }, [refetch]);
+
+  if (authLoading) {
+    return (
+      <Container style={styles.errorContainer}>
+        <ActivityIndicator size='large' color={Colors.white} />
+        <Text style={styles.loadingText}>{t('common.loading')}</Text>
+      </Container>
+    );
+  }
+
+  if (!isAuthenticated) {
+    return (
+      <Container style={styles.errorContainer}>
+        <Alert
+          type='error'
+          title={t('common.loginRequired')}
+          message={t('practiceTests.loginMessage')}
+          style={styles.errorAlert}
+        />
+        <Button
+          title={t('auth.signIn')}
+          variant='primary'
+          onPress={() => router.replace('/(auth)/login')}
+          icon='sign-in'
+        />
+      </Container>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView
+        style={styles.container}
+        contentContainerStyle={styles.scrollContent}
+        refreshControl={
+          <RefreshControl
+            refreshing={refreshing}
+            onRefresh={handleRefresh}
+            tintColor={contextColor}
+            colors={[contextColor]}
+          />
+        }
+      >
+        {/* Header */}
+        <SlideInElement delay={0}>
+          <PlayfulCard style={styles.headerCard}>
+            <PlayfulTitle
+              level={1}
+              gradient='primary'
+              style={styles.headerTitle}
+            >
+              {t('practiceTests.title')}
+            </PlayfulTitle>
+            <Paragraph style={styles.headerSubtitle}>
+              {t('practiceTests.subtitle')}
+            </Paragraph>
+            <Button
+              title={t('practiceTests.bookmarks')}
+              icon='bookmark'
+              size='small'
+              variant='outline'
+              onPress={() => router.push(buildRoute('bookmarks'))}
+              style={styles.bookmarksButton}
+            />
+          </PlayfulCard>
+        </SlideInElement>
+
+        {/* Course filter */}
+        <SlideInElement delay={100}>
+          <Text style={styles.sectionLabel}>
+            {t('practiceTests.courseLabel')}
+          </Text>
+          <ScrollView
+            horizontal
+            showsHorizontalScrollIndicator={false}
+            style={styles.chipScroll}
+          >
+            <FilterChip
+              label={t('common.all')}
+              isActive={selectedCourseId === null}
+              activeColor={contextColor}
+              onPress={() => handleSelectCourse(null)}
+            />
+            {availableCourses.map((course) => (
+              <FilterChip
+                key={course.course_id}
+                label={course.title}
+                isActive={selectedCourseId === course.course_id}
+                activeColor={contextColor}
+                onPress={() => handleSelectCourse(course.course_id)}
+              />
+            ))}
+          </ScrollView>
+        </SlideInElement>
+
+        {/* Topic filter */}
+        {selectedCourseId !== null && topics.length > 0 && (
+          <SlideInElement delay={150}>
+            <Text style={styles.sectionLabel}>
+              {t('practiceTests.topicLabel')}
+            </Text>
+            <ScrollView
+              horizontal
+              showsHorizontalScrollIndicator={false}
+              style={styles.chipScroll}
+            >
+              <FilterChip
+                label={t('practiceTests.allTopics')}
+                isActive={selectedTopicId === null}
+                activeColor={contextColor}
+                onPress={() => setSelectedTopicId(null)}
+              />
+              {topics.map((topic) => (
+                <FilterChip
+                  key={topic.topic_id}
+                  label={topic.title}
+                  isActive={selectedTopicId === topic.topic_id}
+                  activeColor={contextColor}
+                  onPress={() => setSelectedTopicId(topic.topic_id)}
+                />
+              ))}
+            </ScrollView>
+          </SlideInElement>
+        )}
+
+        {/* Test list */}
+        {isLoading ? (
+          <View style={styles.loadingContainer}>
+            <ActivityIndicator size='large' color={contextColor} />
+            <Text style={styles.loadingText}>
+              {t('practiceTests.loadingTests')}
+            </Text>
+          </View>
+        ) : error ? (
+          <Alert
+            type='error'
+            title={t('common.error')}
+            message={t('practiceTests.loadTestsFailed', {
+              message:
+                (error as Error).message || t('practiceTests.unknownError'),
+            })}
+            style={styles.errorAlert}
+          />
+        ) : tests.length === 0 ? (
+          <EmptyState
+            icon='file-text-o'
+            title={t('practiceTests.emptyTitle')}
+            message={t('practiceTests.emptyMessage')}
+            buttonFontFamily='PrimaryFont'
+          />
+        ) : (
+          tests.map((test, index) => (
+            <SlideInElement key={test.test_id} delay={200 + index * 40}>
+              <PracticeTestCard
+                test={test}
+                contextColor={contextColor}
+                onStart={handleStartTest}
+              />
+            </SlideInElement>
+          ))
+        )}
+
+        <View style={styles.bottomSpacing} />
+      </ScrollView>
+    </View>
+  );
+}
@@ -0,0 +1,36 @@
+// app/+native-intent.tsx - Rewrite incoming deep links onto registered screens
+
+import { resolveRoute } from '../constants/routes';
+
+const OAUTH_CALLBACK_PATH = 'oauth-callback';
+
+/**
+ * Links from push notifications, emails and older app versions may still
+ * use retired paths (/study, /courses, /coaching/12). Known paths are mapped
+ * through the route registry; anything else lands on +not-found.
+ */
+export function redirectSystemPath({
+  path,
+  initial,
+}: {
+  path: string;
+  initial: boolean;
+}): string {
+  try {
+    // The OAuth callback is consumed by DeepLinkListener, which navigates
+    // once the session is stored
+    if (path.includes(OAUTH_CALLBACK_PATH)) {
+      return '/';
+    }
+
+    const resolved = resolveRoute(path);
+    if (resolved) {
+      return resolved.path;
+    }
+    console.warn('🔗 Deep link does not match any screen:', path, { initial });
+    return path;
+  } catch (error) {
+    console.error('❌ Error rewriting deep link:', error);
+    return path;
+  }
+}
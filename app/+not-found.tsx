@@ -0,0 +1,75 @@
+// app/+not-found.tsx - Fallback for links that don't match any screen
+
+import React, { useCallback, useEffect } from 'react';
+import { Text, StyleSheet } from 'react-native';
+import { usePathname, useRouter } from 'expo-router';
+import {
+  EmptyState,
+  Container,
+  Spacing,
+  useThemeColors,
+} from '../components/ui';
+import { useTranslation } from '../src/hooks/useTranslation';
+import { buildRoute } from '../constants/routes';
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+    padding: Spacing[4],
+  },
+  pathText: {
+    marginTop: Spacing[3],
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Regular',
+    textAlign: 'center',
+  },
+});
+
+export default function NotFoundScreen() {
+  const router = useRouter();
+  const pathname = usePathname();
+  const { t } = useTranslation();
+  const { colors } = useThemeColors();
+
+  useEffect(() => {
+    console.warn('🧭 Unmatched route opened:', pathname);
+  }, [pathname]);
+
+  const handleGoHome = useCallback(() => {
+    router.replace(buildRoute('home'));
+  }, [router]);
+
+  const handleGoBack = useCallback(() => {
+    if (router.canGoBack()) {
+      router.back();
+    } else {
+      handleGoHome();
+    }
+  }, [router, handleGoHome]);
+
+  return (
+    <Container style={styles.container}>
+      <EmptyState
+        icon='map-signs'
+        title={t('navigation.notFoundTitle')}
+        message={t('navigation.notFoundMessage')}
+        actionButton={{
+          title: t('navigation.goHome'),
+          onPress: handleGoHome,
+        }}
+        secondaryButton={{
+          title: t('navigation.goBack'),
+          onPress: handleGoBack,
+          variant: 'outline',
+        }}
+      />
+      {pathname ? (
+        <Text style={[styles.pathText, { color: colors.textMuted }]}>
+          {pathname}
+        </Text>
+      ) : null}
+    </Container>
+  );
+}
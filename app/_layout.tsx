@@ -5,13 +5,7 @@ import React, {
   useCallback,
   useRef,
 } from 'react';
-import {
-  View,
-  useColorScheme,
-  StyleSheet,
-  Text,
-  ActivityIndicator,
-} from 'react-native';
+import { View, StyleSheet, Text, ActivityIndicator } from 'react-native';
 import { SplashScreen } from 'expo-router';
 import { useFonts } from 'expo-font';
 import FontAwesome from '@expo/vector-icons/FontAwesome';
@@ -27,11 +21,13 @@ import {
   useAuth,
   useTheme as useAppTheme,
   useNetwork,
+  useOfflineQueue,
 } from '../stores/appStore';
 import { SafeAreaProvider } from 'react-native-safe-area-context';
 import * as ErrorReporting from '../services/errorReporting';
 import { AssetProvider, preloadAssets } from '../services/assetManager';
 import AppBackground from '@/components/AppBackground';
+import { ThemePalettes } from '../constants/theme';
 import NetInfo from '@react-native-community/netinfo';
 import * as Linking from 'expo-linking';
 import { handleDeepLink } from '../utils/oauthDeepLinkHandler';
@@ -113,6 +109,19 @@ function AppInitializer() {
   return null;
 }
 
+// Refetch screens once changes queued offline have reached the server
+function OfflineQueueSync() {
+  const { lastReplayAt } = useOfflineQueue();
+
+  useEffect(() => {
+    if (lastReplayAt) {
+      queryClient.invalidateQueries();
+    }
+  }, [lastReplayAt]);
+
+  return null;
+}
+
 // ROBUST NAVIGATION GUARD
 function NavigationGuard() {
   const { isAuthenticated, isLoading } = useAuth();
@@ -369,6 +378,7 @@ export default function RootLayout() {
         <QueryClientProvider client={queryClient}>
           <AssetProvider>
             <AppInitializer />
+            <OfflineQueueSync />
             <NavigationGuard />
             <NotificationSetup />
             <RootLayoutNav />
@@ -380,9 +390,8 @@ export default function RootLayout() {
 }
 
 function RootLayoutNav() {
-  const colorScheme = useColorScheme();
-  const { theme: storeTheme } = useAppTheme();
-  const theme = storeTheme || (colorScheme === 'dark' ? 'dark' : 'light');
+  // Resolved from the user's preference, which defaults to the device scheme
+  const { theme } = useAppTheme();
 
   const customNavigationTheme = useMemo(() => {
     const navigationTheme = theme === 'dark' ? DarkTheme : DefaultTheme;
@@ -393,7 +402,7 @@ function RootLayoutNav() {
         primary: '#722ea5',
         background: 'transparent',
         card: 'transparent',
-        text: theme === 'dark' ? '#ffffff' : '#1f2937',
+        text: ThemePalettes[theme].text,
       },
     };
   }, [theme]);
@@ -1,6 +1,7 @@
 // components/AppBackground.tsx
 import React from 'react';
 import { ImageBackground, StyleSheet, StatusBar, View } from 'react-native';
+import { useThemeColors } from './ui/hooks/useThemeColors';
 
 const backgroundImage = require('../assets/images/background.jpg');
 
@@ -9,6 +10,8 @@ interface AppBackgroundProps {
 }
 
 const AppBackground: React.FC<AppBackgroundProps> = ({ children }) => {
+  const { colors, isDark } = useThemeColors();
+
   return (
     // This View now correctly fills the entire screen area
     <View style={styles.container}>
@@ -28,6 +31,16 @@ const AppBackground: React.FC<AppBackgroundProps> = ({ children }) => {
         resizeMode='cover'
         style={styles.imageBackground} // No internal padding here anymore
       >
+        {/* Dims the artwork so dark surfaces and light text stay readable */}
+        {isDark && (
+          <View
+            pointerEvents='none'
+            style={[
+              StyleSheet.absoluteFill,
+              { backgroundColor: colors.backgroundOverlay },
+            ]}
+          />
+        )}
         {children}
       </ImageBackground>
     </View>
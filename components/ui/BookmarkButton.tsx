@@ -0,0 +1,106 @@
+// components/ui/BookmarkButton.tsx
+
+import React, { useCallback } from 'react';
+import {
+  TouchableOpacity,
+  Text,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius } from '../../constants/theme';
+import { useBookmarks } from '../../stores/appStore';
+import type { BookmarkedQuestion } from '../../src/types/models';
+
+export interface BookmarkButtonProps {
+  /**
+   * Question to save; bookmarked_at is filled in by the store
+   */
+  question: Omit<BookmarkedQuestion, 'bookmarked_at'>;
+
+  /**
+   * Show the "Kaydet" / "Kaydedildi" label next to the icon
+   */
+  showLabel?: boolean;
+
+  /**
+   * Icon size
+   */
+  size?: number;
+
+  /**
+   * Icon and label color
+   */
+  color?: string;
+
+  /**
+   * Custom style for the button container
+   */
+  style?: StyleProp<ViewStyle>;
+
+  /**
+   * Test ID for testing
+   */
+  testID?: string;
+}
+
+/**
+ * BookmarkButton toggles a question in the locally persisted bookmark list.
+ * Changes are synced to the backend by the app store when online.
+ */
+const BookmarkButton: React.FC<BookmarkButtonProps> = ({
+  question,
+  showLabel = false,
+  size = 20,
+  color = Colors.white,
+  style,
+  testID,
+}) => {
+  const { isBookmarked, toggleBookmark } = useBookmarks();
+  const saved = isBookmarked(question.question_id);
+
+  const handlePress = useCallback(() => {
+    toggleBookmark(question);
+  }, [question, toggleBookmark]);
+
+  return (
+    <TouchableOpacity
+      style={[styles.button, style]}
+      onPress={handlePress}
+      activeOpacity={0.7}
+      hitSlop={{ top: 8, bottom: 8, left: 8, right: 8 }}
+      accessibilityRole='button'
+      accessibilityLabel={saved ? 'Favorilerden çıkar' : 'Favorilere ekle'}
+      testID={testID}
+    >
+      <FontAwesome
+        name={saved ? 'bookmark' : 'bookmark-o'}
+        size={size}
+        color={saved ? Colors.vibrant.yellow : color}
+      />
+      {showLabel && (
+        <Text style={[styles.label, { color }]}>
+          {saved ? 'Kaydedildi' : 'Kaydet'}
+        </Text>
+      )}
+    </TouchableOpacity>
+  );
+};
+
+const styles = StyleSheet.create({
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingHorizontal: Spacing[2],
+    paddingVertical: Spacing[1],
+    borderRadius: BorderRadius.lg,
+  },
+  label: {
+    marginLeft: Spacing[2],
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+});
+
+export default BookmarkButton;
@@ -11,7 +11,13 @@ import {
   ActivityIndicator,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
-import { Colors, Spacing, BorderRadius } from '../../constants/theme';
+import {
+  Colors,
+  DarkColors,
+  Spacing,
+  BorderRadius,
+} from '../../constants/theme';
+import { useThemeColors } from './hooks/useThemeColors';
 
 export interface ButtonProps {
   /**
@@ -87,6 +93,7 @@ const Button: React.FC<ButtonProps> = ({
   testID,
   accessibilityLabel,
 }) => {
+  const { colors, isDark } = useThemeColors();
   let buttonStyle;
   let labelStyle;
 
@@ -109,8 +116,8 @@ const Button: React.FC<ButtonProps> = ({
       labelStyle = styles.btnTextError;
       break;
     case 'outline':
-      buttonStyle = styles.btnOutline;
-      labelStyle = styles.btnTextOutline;
+      buttonStyle = isDark ? styles.btnOutlineDark : styles.btnOutline;
+      labelStyle = isDark ? styles.btnTextOutlineDark : styles.btnTextOutline;
       break;
     case 'ghost':
       buttonStyle = styles.btnGhost;
@@ -160,7 +167,9 @@ const Button: React.FC<ButtonProps> = ({
           size='small'
           color={
             variant === 'outline' || variant === 'ghost'
-              ? Colors.primary.DEFAULT
+              ? isDark
+                ? colors.primary
+                : Colors.primary.DEFAULT
               : Colors.white
           }
           style={styles.loadingIndicator}
@@ -173,7 +182,9 @@ const Button: React.FC<ButtonProps> = ({
               size={iconSize}
               color={
                 variant === 'outline' || variant === 'ghost'
-                  ? Colors.primary.DEFAULT
+                  ? isDark
+                    ? colors.primary
+                    : Colors.primary.DEFAULT
                   : Colors.white
               }
               style={styles.icon}
@@ -265,6 +276,15 @@ const styles = StyleSheet.create({
     color: Colors.primary.DEFAULT,
     fontWeight: '500',
   },
+  btnOutlineDark: {
+    backgroundColor: 'transparent',
+    borderWidth: 1,
+    borderColor: DarkColors.primary,
+  },
+  btnTextOutlineDark: {
+    color: DarkColors.primary,
+    fontWeight: '500',
+  },
   btnGhost: {
     backgroundColor: Colors.vibrant.orangeLight,
   },
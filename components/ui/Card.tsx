@@ -1,8 +1,13 @@
 // components/ui/Card.tsx
 import React from 'react';
 import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
-import { Colors, Spacing, BorderRadius } from '../../constants/theme';
-import { useColorScheme } from 'react-native';
+import {
+  Colors,
+  DarkColors,
+  Spacing,
+  BorderRadius,
+} from '../../constants/theme';
+import { useThemeColors } from './hooks/useThemeColors';
 
 interface CardProps {
   title?: string;
@@ -11,16 +16,15 @@ interface CardProps {
 }
 
 export const Card: React.FC<CardProps> = ({ title, children, style }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { isDark } = useThemeColors();
 
   return (
     <View
-      style={[styles.card, isDark ? styles.cardLight : styles.cardLight, style]}
+      style={[styles.card, isDark ? styles.cardDark : styles.cardLight, style]}
     >
       {title && (
         <Text
-          style={[styles.title, isDark ? styles.titleLight : styles.titleLight]}
+          style={[styles.title, isDark ? styles.titleDark : styles.titleLight]}
         >
           {title}
         </Text>
@@ -45,7 +49,7 @@ const styles = StyleSheet.create({
     elevation: 2,
   },
   cardDark: {
-    backgroundColor: Colors.gray[800],
+    backgroundColor: DarkColors.surface,
     shadowColor: Colors.black,
     shadowOffset: { width: 0, height: 2 },
     shadowOpacity: 0.3,
@@ -61,7 +65,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[800],
   },
   titleDark: {
-    color: Colors.white,
+    color: DarkColors.text,
   },
 });
 
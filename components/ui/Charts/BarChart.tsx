@@ -0,0 +1,146 @@
+// components/ui/Charts/BarChart.tsx
+
+import React from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, { Rect, Line, Text as SvgText } from 'react-native-svg';
+import { BarChartProps } from '../types';
+import { Colors, FontSizes } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { useLayoutWidth } from '../hooks/useLayoutWidth';
+import {
+  CHART_PADDING,
+  defaultFormatValue,
+  getLabelIndexes,
+  getNiceMax,
+} from './chartUtils';
+
+const GRID_LINES = 3;
+const MAX_X_LABELS = 8;
+
+// Share of each slot taken by its bar; the rest is the gap
+const BAR_FILL_RATIO = 0.6;
+
+/**
+ * BarChart draws one vertical bar per datum, e.g. study hours per week.
+ */
+const BarChart: React.FC<BarChartProps> = ({
+  data,
+  width: fixedWidth,
+  height = 180,
+  color = Colors.vibrant.green,
+  showValues = false,
+  formatValue = defaultFormatValue,
+  style,
+  testID,
+}) => {
+  const { colors } = useThemeColors();
+  const { width, onLayout } = useLayoutWidth(fixedWidth);
+
+  const innerWidth = Math.max(
+    0,
+    width - CHART_PADDING.left - CHART_PADDING.right,
+  );
+  const innerHeight = Math.max(
+    0,
+    height - CHART_PADDING.top - CHART_PADDING.bottom,
+  );
+  const maxValue = getNiceMax(Math.max(0, ...data.map((datum) => datum.value)));
+  const slotWidth = data.length > 0 ? innerWidth / data.length : 0;
+  const barWidth = slotWidth * BAR_FILL_RATIO;
+  const labelIndexes = new Set(getLabelIndexes(data.length, MAX_X_LABELS));
+
+  const gridValues = Array.from(
+    { length: GRID_LINES },
+    (_, index) => (maxValue / (GRID_LINES - 1)) * index,
+  );
+
+  return (
+    <View
+      style={[styles.container, { height }, style]}
+      onLayout={onLayout}
+      testID={testID}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          {/* Grid and y labels */}
+          {gridValues.map((value) => {
+            const y = CHART_PADDING.top + innerHeight * (1 - value / maxValue);
+            return (
+              <React.Fragment key={value}>
+                <Line
+                  x1={CHART_PADDING.left}
+                  x2={width - CHART_PADDING.right}
+                  y1={y}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeDasharray='4 4'
+                />
+                <SvgText
+                  x={CHART_PADDING.left - 6}
+                  y={y + 4}
+                  fontSize={FontSizes.xs - 2}
+                  fill={colors.textMuted}
+                  textAnchor='end'
+                >
+                  {formatValue(value)}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+
+          {data.map((datum, index) => {
+            const barHeight =
+              innerHeight * (Math.max(0, datum.value) / maxValue);
+            const x =
+              CHART_PADDING.left +
+              slotWidth * index +
+              (slotWidth - barWidth) / 2;
+            const y = CHART_PADDING.top + innerHeight - barHeight;
+            return (
+              <React.Fragment key={`${datum.label}-${index}`}>
+                <Rect
+                  x={x}
+                  y={y}
+                  width={barWidth}
+                  height={barHeight}
+                  rx={Math.min(4, barWidth / 2)}
+                  fill={datum.color ?? color}
+                />
+                {showValues && datum.value > 0 && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={y - 4}
+                    fontSize={FontSizes.xs - 2}
+                    fill={colors.textSecondary}
+                    textAnchor='middle'
+                  >
+                    {formatValue(datum.value)}
+                  </SvgText>
+                )}
+                {labelIndexes.has(index) && (
+                  <SvgText
+                    x={x + barWidth / 2}
+                    y={height - 6}
+                    fontSize={FontSizes.xs - 2}
+                    fill={colors.textMuted}
+                    textAnchor='middle'
+                  >
+                    {datum.label}
+                  </SvgText>
+                )}
+              </React.Fragment>
+            );
+          })}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+export default BarChart;
@@ -0,0 +1,254 @@
+// components/ui/Charts/CalendarHeatmap.tsx
+
+import React, { useMemo } from 'react';
+import { View, Text, ScrollView, StyleSheet } from 'react-native';
+import Svg, { Rect, G, Text as SvgText } from 'react-native-svg';
+import { CalendarHeatmapProps, HeatmapDatum } from '../types';
+import {
+  Colors,
+  Spacing,
+  FontSizes,
+  BorderRadius,
+} from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { useLayoutWidth } from '../hooks/useLayoutWidth';
+import { useTranslation } from '../../../src/hooks/useTranslation';
+import { parseDateKey, toDateKey } from './chartUtils';
+
+const CELL_GAP = 3;
+const MIN_CELL_SIZE = 10;
+const MAX_CELL_SIZE = 18;
+const DAY_LABEL_WIDTH = 28;
+const MONTH_LABEL_HEIGHT = 16;
+
+// Fill opacity per activity level; level 0 uses the empty cell color
+const LEVEL_OPACITY = [0, 0.3, 0.5, 0.75, 1];
+
+// Rows are Monday..Sunday; only these rows get a weekday label
+const LABELED_WEEKDAYS = [0, 2, 4];
+
+type HeatmapCell = HeatmapDatum & { week: number; weekday: number };
+
+// Monday = 0 ... Sunday = 6
+const getWeekday = (date: Date): number => (date.getDay() + 6) % 7;
+
+const getLevel = (value: number, maxValue: number): number => {
+  if (value <= 0 || maxValue <= 0) return 0;
+  return Math.min(4, Math.max(1, Math.ceil((value / maxValue) * 4)));
+};
+
+/**
+ * CalendarHeatmap shows one cell per day, one column per week, shaded by
+ * how much happened that day (GitHub contribution style).
+ */
+const CalendarHeatmap: React.FC<CalendarHeatmapProps> = ({
+  data,
+  startDate,
+  endDate,
+  width: fixedWidth,
+  color = Colors.vibrant.green,
+  formatValue,
+  onDayPress,
+  style,
+  testID,
+}) => {
+  const { colors } = useThemeColors();
+  const { t, dateLocale } = useTranslation();
+  const { width, onLayout } = useLayoutWidth(fixedWidth);
+
+  const { cells, weekCount, monthLabels, maxValue } = useMemo(() => {
+    const values = new Map<string, number>();
+    data.forEach((datum) => {
+      const key = datum.date.slice(0, 10);
+      values.set(key, (values.get(key) ?? 0) + datum.value);
+    });
+
+    const start = parseDateKey(startDate);
+    const end = parseDateKey(endDate);
+    const firstWeekStart = new Date(start);
+    firstWeekStart.setDate(start.getDate() - getWeekday(start));
+
+    const dayCells: HeatmapCell[] = [];
+    const labels: Array<{ week: number; label: string }> = [];
+    for (
+      const day = new Date(start);
+      day.getTime() <= end.getTime();
+      day.setDate(day.getDate() + 1)
+    ) {
+      const week = Math.floor(
+        Math.round((day.getTime() - firstWeekStart.getTime()) / 86400000) / 7,
+      );
+      if (day.getDate() === 1 || dayCells.length === 0) {
+        labels.push({
+          week,
+          label: day.toLocaleDateString(dateLocale, { month: 'short' }),
+        });
+      }
+      const date = toDateKey(day);
+      dayCells.push({
+        date,
+        value: values.get(date) ?? 0,
+        week,
+        weekday: getWeekday(day),
+      });
+    }
+
+    return {
+      cells: dayCells,
+      weekCount:
+        dayCells.length > 0 ? dayCells[dayCells.length - 1].week + 1 : 0,
+      // Drop a label that would collide with the next month's
+      monthLabels: labels.filter(
+        (label, index) =>
+          index === labels.length - 1 ||
+          labels[index + 1].week - label.week > 1,
+      ),
+      maxValue: Math.max(0, ...dayCells.map((cell) => cell.value)),
+    };
+  }, [data, startDate, endDate, dateLocale]);
+
+  const weekdayLabels = useMemo(
+    () =>
+      // 2024-01-01 was a Monday
+      Array.from({ length: 7 }, (_, index) =>
+        new Date(2024, 0, 1 + index).toLocaleDateString(dateLocale, {
+          weekday: 'short',
+        }),
+      ),
+    [dateLocale],
+  );
+
+  const fittedCellSize =
+    weekCount > 0
+      ? Math.floor((width - DAY_LABEL_WIDTH) / weekCount) - CELL_GAP
+      : MAX_CELL_SIZE;
+  const cellSize = Math.min(
+    MAX_CELL_SIZE,
+    Math.max(MIN_CELL_SIZE, fittedCellSize),
+  );
+  const svgWidth = DAY_LABEL_WIDTH + weekCount * (cellSize + CELL_GAP);
+  const svgHeight = MONTH_LABEL_HEIGHT + 7 * (cellSize + CELL_GAP);
+
+  const getCellStyle = (value: number) => {
+    const level = getLevel(value, maxValue);
+    return level === 0
+      ? { fill: colors.border, fillOpacity: 1 }
+      : { fill: color, fillOpacity: LEVEL_OPACITY[level] };
+  };
+
+  return (
+    <View style={[styles.container, style]} onLayout={onLayout} testID={testID}>
+      {width > 0 && (
+        <ScrollView
+          horizontal
+          showsHorizontalScrollIndicator={false}
+          scrollEnabled={svgWidth > width}
+        >
+          <Svg width={svgWidth} height={svgHeight}>
+            {monthLabels.map((month) => (
+              <SvgText
+                key={`${month.week}-${month.label}`}
+                x={DAY_LABEL_WIDTH + month.week * (cellSize + CELL_GAP)}
+                y={MONTH_LABEL_HEIGHT - 5}
+                fontSize={FontSizes.xs - 2}
+                fill={colors.textMuted}
+              >
+                {month.label}
+              </SvgText>
+            ))}
+            {LABELED_WEEKDAYS.map((weekday) => (
+              <SvgText
+                key={weekday}
+                x={0}
+                y={
+                  MONTH_LABEL_HEIGHT +
+                  weekday * (cellSize + CELL_GAP) +
+                  cellSize -
+                  2
+                }
+                fontSize={FontSizes.xs - 3}
+                fill={colors.textMuted}
+              >
+                {weekdayLabels[weekday]}
+              </SvgText>
+            ))}
+            <G x={DAY_LABEL_WIDTH} y={MONTH_LABEL_HEIGHT}>
+              {cells.map((cell) => (
+                <Rect
+                  key={cell.date}
+                  x={cell.week * (cellSize + CELL_GAP)}
+                  y={cell.weekday * (cellSize + CELL_GAP)}
+                  width={cellSize}
+                  height={cellSize}
+                  rx={3}
+                  {...getCellStyle(cell.value)}
+                  onPress={
+                    onDayPress
+                      ? () => onDayPress({ date: cell.date, value: cell.value })
+                      : undefined
+                  }
+                />
+              ))}
+            </G>
+          </Svg>
+        </ScrollView>
+      )}
+
+      {/* Legend */}
+      <View style={styles.legend}>
+        <Text style={[styles.legendText, { color: colors.textMuted }]}>
+          {t('charts.less')}
+        </Text>
+        {LEVEL_OPACITY.map((opacity, level) => (
+          <View
+            key={level}
+            style={[
+              styles.legendCell,
+              level === 0
+                ? { backgroundColor: colors.border }
+                : { backgroundColor: color, opacity },
+            ]}
+          />
+        ))}
+        <Text style={[styles.legendText, { color: colors.textMuted }]}>
+          {t('charts.more')}
+        </Text>
+        {formatValue && maxValue > 0 ? (
+          <Text style={[styles.legendMax, { color: colors.textMuted }]}>
+            {t('charts.max', { value: formatValue(maxValue) })}
+          </Text>
+        ) : null}
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+  legend: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'flex-end',
+    gap: 3,
+    marginTop: Spacing[2],
+  },
+  legendCell: {
+    width: 10,
+    height: 10,
+    borderRadius: BorderRadius.sm,
+  },
+  legendText: {
+    fontSize: FontSizes.xs - 2,
+    fontFamily: 'SecondaryFont-Regular',
+    marginHorizontal: Spacing[1],
+  },
+  legendMax: {
+    fontSize: FontSizes.xs - 2,
+    fontFamily: 'SecondaryFont-Regular',
+    marginLeft: Spacing[2],
+  },
+});
+
+export default CalendarHeatmap;
@@ -0,0 +1,154 @@
+// components/ui/Charts/DonutChart.tsx
+
+import React, { useMemo } from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import Svg, { G, Path, Circle } from 'react-native-svg';
+import { arc, pie, type PieArcDatum } from 'd3-shape';
+import { ChartDatum, DonutChartProps } from '../types';
+import { Spacing, FontSizes, BorderRadius } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { defaultFormatValue, getChartColor } from './chartUtils';
+
+/**
+ * DonutChart shows how a total splits across categories, e.g. study time
+ * per course, with an optional legend underneath.
+ */
+const DonutChart: React.FC<DonutChartProps> = ({
+  data,
+  size = 160,
+  thickness = 22,
+  centerValue,
+  centerLabel,
+  showLegend = true,
+  formatValue = defaultFormatValue,
+  style,
+  testID,
+}) => {
+  const { colors } = useThemeColors();
+  const radius = size / 2;
+  const total = data.reduce((sum, datum) => sum + Math.max(0, datum.value), 0);
+
+  const slices = useMemo(() => {
+    const arcs = pie<ChartDatum>()
+      .value((datum) => Math.max(0, datum.value))
+      .sort(null)(data);
+    const arcPath = arc<PieArcDatum<ChartDatum>>()
+      .innerRadius(radius - thickness)
+      .outerRadius(radius)
+      .padAngle(data.length > 1 ? 0.02 : 0)
+      .cornerRadius(3);
+
+    return arcs.map((slice, index) => ({
+      path: arcPath(slice) ?? '',
+      color: getChartColor(index, slice.data.color),
+    }));
+  }, [data, radius, thickness]);
+
+  return (
+    <View style={[styles.container, style]} testID={testID}>
+      <View style={{ width: size, height: size }}>
+        <Svg width={size} height={size}>
+          <G x={radius} y={radius}>
+            {total > 0 ? (
+              slices.map((slice, index) => (
+                <Path key={index} d={slice.path} fill={slice.color} />
+              ))
+            ) : (
+              <Circle
+                r={radius - thickness / 2}
+                stroke={colors.border}
+                strokeWidth={thickness}
+                fill='none'
+              />
+            )}
+          </G>
+        </Svg>
+        {(centerValue || centerLabel) && (
+          <View style={styles.center} pointerEvents='none'>
+            {centerValue ? (
+              <Text style={[styles.centerValue, { color: colors.text }]}>
+                {centerValue}
+              </Text>
+            ) : null}
+            {centerLabel ? (
+              <Text style={[styles.centerLabel, { color: colors.textMuted }]}>
+                {centerLabel}
+              </Text>
+            ) : null}
+          </View>
+        )}
+      </View>
+
+      {showLegend && total > 0 && (
+        <View style={styles.legend}>
+          {data.map((datum, index) => (
+            <View key={`${datum.label}-${index}`} style={styles.legendItem}>
+              <View
+                style={[
+                  styles.legendDot,
+                  { backgroundColor: getChartColor(index, datum.color) },
+                ]}
+              />
+              <Text
+                style={[styles.legendLabel, { color: colors.text }]}
+                numberOfLines={1}
+              >
+                {datum.label}
+              </Text>
+              <Text style={[styles.legendValue, { color: colors.textMuted }]}>
+                {formatValue(datum.value)} ·{' '}
+                {Math.round((Math.max(0, datum.value) / total) * 100)}%
+              </Text>
+            </View>
+          ))}
+        </View>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    alignItems: 'center',
+  },
+  center: {
+    ...StyleSheet.absoluteFillObject,
+    alignItems: 'center',
+    justifyContent: 'center',
+  },
+  centerValue: {
+    fontSize: FontSizes.lg,
+    fontFamily: 'PrimaryFont',
+  },
+  centerLabel: {
+    fontSize: FontSizes.xs,
+    fontFamily: 'SecondaryFont-Regular',
+  },
+  legend: {
+    alignSelf: 'stretch',
+    marginTop: Spacing[3],
+  },
+  legendItem: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    paddingVertical: Spacing[1],
+  },
+  legendDot: {
+    width: 10,
+    height: 10,
+    borderRadius: BorderRadius.full,
+    marginRight: Spacing[2],
+  },
+  legendLabel: {
+    flex: 1,
+    fontSize: FontSizes.sm,
+    fontFamily: 'SecondaryFont-Regular',
+    marginRight: Spacing[2],
+  },
+  legendValue: {
+    fontSize: FontSizes.xs,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+});
+
+export default DonutChart;
@@ -0,0 +1,186 @@
+// components/ui/Charts/LineChart.tsx
+
+import React, { useId, useMemo } from 'react';
+import { View, StyleSheet } from 'react-native';
+import Svg, {
+  Path,
+  Circle,
+  Line,
+  Text as SvgText,
+  Defs,
+  LinearGradient,
+  Stop,
+} from 'react-native-svg';
+import { line, area, curveMonotoneX } from 'd3-shape';
+import { LineChartProps } from '../types';
+import { Colors, FontSizes } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
+import { useLayoutWidth } from '../hooks/useLayoutWidth';
+import {
+  CHART_PADDING,
+  defaultFormatValue,
+  getLabelIndexes,
+  getNiceMax,
+} from './chartUtils';
+
+type Point = { x: number; y: number };
+
+const GRID_LINES = 3;
+const MAX_X_LABELS = 6;
+
+/**
+ * LineChart draws a single series as a smoothed line with an optional
+ * gradient area underneath.
+ */
+const LineChart: React.FC<LineChartProps> = ({
+  data,
+  width: fixedWidth,
+  height = 180,
+  color = Colors.vibrant.purple,
+  showArea = true,
+  showDots,
+  formatValue = defaultFormatValue,
+  style,
+  testID,
+}) => {
+  const { colors } = useThemeColors();
+  const { width, onLayout } = useLayoutWidth(fixedWidth);
+  // SVG ids are document-wide on web; keep each chart's gradient separate
+  const gradientId = `lineChartArea${useId().replace(/:/g, '')}`;
+
+  const innerWidth = Math.max(
+    0,
+    width - CHART_PADDING.left - CHART_PADDING.right,
+  );
+  const innerHeight = Math.max(
+    0,
+    height - CHART_PADDING.top - CHART_PADDING.bottom,
+  );
+  const maxValue = getNiceMax(Math.max(0, ...data.map((datum) => datum.value)));
+  const drawDots = showDots ?? data.length <= 31;
+
+  const points = useMemo<Point[]>(
+    () =>
+      data.map((datum, index) => ({
+        x:
+          CHART_PADDING.left +
+          (data.length > 1
+            ? (index / (data.length - 1)) * innerWidth
+            : innerWidth / 2),
+        y:
+          CHART_PADDING.top +
+          innerHeight * (1 - Math.max(0, datum.value) / maxValue),
+      })),
+    [data, innerWidth, innerHeight, maxValue],
+  );
+
+  const linePath = useMemo(
+    () =>
+      line<Point>()
+        .x((point) => point.x)
+        .y((point) => point.y)
+        .curve(curveMonotoneX)(points) ?? '',
+    [points],
+  );
+
+  const areaPath = useMemo(
+    () =>
+      area<Point>()
+        .x((point) => point.x)
+        .y0(CHART_PADDING.top + innerHeight)
+        .y1((point) => point.y)
+        .curve(curveMonotoneX)(points) ?? '',
+    [points, innerHeight],
+  );
+
+  const gridValues = Array.from(
+    { length: GRID_LINES },
+    (_, index) => (maxValue / (GRID_LINES - 1)) * index,
+  );
+
+  return (
+    <View
+      style={[styles.container, { height }, style]}
+      onLayout={onLayout}
+      testID={testID}
+    >
+      {width > 0 && (
+        <Svg width={width} height={height}>
+          <Defs>
+            <LinearGradient id={gradientId} x1='0' y1='0' x2='0' y2='1'>
+              <Stop offset='0' stopColor={color} stopOpacity={0.35} />
+              <Stop offset='1' stopColor={color} stopOpacity={0.02} />
+            </LinearGradient>
+          </Defs>
+
+          {/* Grid and y labels */}
+          {gridValues.map((value) => {
+            const y = CHART_PADDING.top + innerHeight * (1 - value / maxValue);
+            return (
+              <React.Fragment key={value}>
+                <Line
+                  x1={CHART_PADDING.left}
+                  x2={width - CHART_PADDING.right}
+                  y1={y}
+                  y2={y}
+                  stroke={colors.border}
+                  strokeDasharray='4 4'
+                />
+                <SvgText
+                  x={CHART_PADDING.left - 6}
+                  y={y + 4}
+                  fontSize={FontSizes.xs - 2}
+                  fill={colors.textMuted}
+                  textAnchor='end'
+                >
+                  {formatValue(value)}
+                </SvgText>
+              </React.Fragment>
+            );
+          })}
+
+          {showArea && points.length > 1 && (
+            <Path d={areaPath} fill={`url(#${gradientId})`} />
+          )}
+          {points.length > 1 && (
+            <Path d={linePath} stroke={color} strokeWidth={2.5} fill='none' />
+          )}
+          {drawDots &&
+            points.map((point, index) => (
+              <Circle
+                key={index}
+                cx={point.x}
+                cy={point.y}
+                r={3}
+                fill={Colors.white}
+                stroke={color}
+                strokeWidth={2}
+              />
+            ))}
+
+          {/* X labels */}
+          {getLabelIndexes(data.length, MAX_X_LABELS).map((index) => (
+            <SvgText
+              key={index}
+              x={points[index].x}
+              y={height - 6}
+              fontSize={FontSizes.xs - 2}
+              fill={colors.textMuted}
+              textAnchor='middle'
+            >
+              {data[index].label}
+            </SvgText>
+          ))}
+        </Svg>
+      )}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    width: '100%',
+  },
+});
+
+export default LineChart;
@@ -0,0 +1,68 @@
+// components/ui/Charts/chartUtils.ts
+import { Colors } from '../../../constants/theme';
+
+// Slice / series colors, used in order when a datum has no color of its own
+export const CHART_PALETTE = [
+  Colors.vibrant.purple,
+  Colors.vibrant.green,
+  Colors.vibrant.orange,
+  Colors.vibrant.yellow,
+  Colors.vibrant.blue,
+  Colors.vibrant.pinkLight,
+  Colors.vibrant.coral,
+  Colors.vibrant.purpleLight,
+];
+
+export const CHART_PADDING = {
+  top: 12,
+  right: 12,
+  bottom: 24,
+  left: 36,
+};
+
+export const defaultFormatValue = (value: number): string =>
+  Number.isInteger(value) ? value.toString() : value.toFixed(1);
+
+// Rounds the axis maximum up to 1, 2 or 5 times a power of ten so grid
+// labels stay readable
+export const getNiceMax = (value: number): number => {
+  if (value <= 0) return 1;
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const normalized = value / magnitude;
+  const step =
+    normalized <= 1 ? 1 : normalized <= 2 ? 2 : normalized <= 5 ? 5 : 10;
+  return step * magnitude;
+};
+
+// Indexes of the labels to draw so at most `maxLabels` fit under the axis
+export const getLabelIndexes = (count: number, maxLabels: number): number[] => {
+  if (count === 0) return [];
+  const step = Math.max(1, Math.ceil(count / maxLabels));
+  const indexes: number[] = [];
+  for (let index = 0; index < count; index += step) {
+    indexes.push(index);
+  }
+  if (indexes[indexes.length - 1] !== count - 1 && count > 1) {
+    indexes[indexes.length - 1] = count - 1;
+  }
+  return indexes;
+};
+
+export const getChartColor = (index: number, color?: string): string =>
+  color ?? CHART_PALETTE[index % CHART_PALETTE.length];
+
+// Local-time YYYY-MM-DD helpers shared by the heatmap and the range picker
+export const parseDateKey = (value: string): Date =>
+  new Date(`${value.slice(0, 10)}T00:00:00`);
+
+export const toDateKey = (date: Date): string => {
+  const month = `${date.getMonth() + 1}`.padStart(2, '0');
+  const day = `${date.getDate()}`.padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+export const addDaysToKey = (value: string, days: number): string => {
+  const date = parseDateKey(value);
+  date.setDate(date.getDate() + days);
+  return toDateKey(date);
+};
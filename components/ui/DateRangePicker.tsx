@@ -0,0 +1,158 @@
+// components/ui/DateRangePicker.tsx
+
+import React, { useMemo } from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { DateRangePickerProps } from './types';
+import {
+  Colors,
+  Spacing,
+  FontSizes,
+  BorderRadius,
+} from '../../constants/theme';
+import { useThemeColors } from './hooks/useThemeColors';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import { addDaysToKey, parseDateKey, toDateKey } from './Charts/chartUtils';
+
+const getRangeLength = (startDate: string, endDate: string): number =>
+  Math.round(
+    (parseDateKey(endDate).getTime() - parseDateKey(startDate).getTime()) /
+      86400000,
+  ) + 1;
+
+/**
+ * DateRangePicker selects a window of whole days: presets pick the length,
+ * the arrows step the window back and forth without passing `maxDate`.
+ */
+const DateRangePicker: React.FC<DateRangePickerProps> = ({
+  value,
+  onChange,
+  presets,
+  maxDate,
+  color = Colors.vibrant.purple,
+  style,
+  testID,
+}) => {
+  const { colors } = useThemeColors();
+  const { dateLocale } = useTranslation();
+  const lastDate = maxDate ?? toDateKey(new Date());
+  const rangeLength = getRangeLength(value.startDate, value.endDate);
+  const canGoForward = value.endDate < lastDate;
+
+  const rangeLabel = useMemo(() => {
+    const format = (date: string) =>
+      parseDateKey(date).toLocaleDateString(dateLocale, {
+        day: 'numeric',
+        month: 'short',
+      });
+    return `${format(value.startDate)} – ${format(value.endDate)}`;
+  }, [value.startDate, value.endDate, dateLocale]);
+
+  const handlePresetPress = (days: number) => {
+    onChange({
+      startDate: addDaysToKey(lastDate, -(days - 1)),
+      endDate: lastDate,
+    });
+  };
+
+  const handleShift = (direction: -1 | 1) => {
+    const endDate = addDaysToKey(value.endDate, direction * rangeLength);
+    const cappedEnd = endDate > lastDate ? lastDate : endDate;
+    onChange({
+      startDate: addDaysToKey(cappedEnd, -(rangeLength - 1)),
+      endDate: cappedEnd,
+    });
+  };
+
+  return (
+    <View style={style} testID={testID}>
+      <View style={styles.presets}>
+        {presets.map((preset) => {
+          const isActive = preset.days === rangeLength;
+          return (
+            <TouchableOpacity
+              key={preset.key}
+              style={[
+                styles.preset,
+                { borderColor: colors.border },
+                isActive && {
+                  borderColor: color,
+                  backgroundColor: `${color}14`,
+                },
+              ]}
+              onPress={() => handlePresetPress(preset.days)}
+              accessibilityRole='button'
+              accessibilityState={{ selected: isActive }}
+            >
+              <Text
+                style={[
+                  styles.presetText,
+                  { color: isActive ? color : colors.textSecondary },
+                ]}
+              >
+                {preset.label}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      <View style={styles.navigator}>
+        <TouchableOpacity
+          style={styles.arrow}
+          onPress={() => handleShift(-1)}
+          accessibilityRole='button'
+        >
+          <FontAwesome name='chevron-left' size={14} color={color} />
+        </TouchableOpacity>
+        <Text style={[styles.rangeLabel, { color: colors.text }]}>
+          {rangeLabel}
+        </Text>
+        <TouchableOpacity
+          style={[styles.arrow, !canGoForward && styles.arrowDisabled]}
+          onPress={() => handleShift(1)}
+          disabled={!canGoForward}
+          accessibilityRole='button'
+        >
+          <FontAwesome name='chevron-right' size={14} color={color} />
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  presets: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    gap: Spacing[2],
+  },
+  preset: {
+    paddingVertical: Spacing[1],
+    paddingHorizontal: Spacing[3],
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  presetText: {
+    fontSize: FontSizes.sm,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  navigator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    justifyContent: 'space-between',
+    marginTop: Spacing[3],
+  },
+  arrow: {
+    padding: Spacing[2],
+  },
+  arrowDisabled: {
+    opacity: 0.3,
+  },
+  rangeLabel: {
+    fontSize: FontSizes.base,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+});
+
+export default DateRangePicker;
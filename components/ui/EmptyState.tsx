@@ -8,16 +8,17 @@ import {
   StyleProp,
   ViewStyle,
   TextStyle,
-  useColorScheme,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import {
   Colors,
+  DarkColors,
   Spacing,
   FontSizes,
   BorderRadius,
 } from '../../constants/theme';
 import Button from './Button';
+import { useThemeColors } from './hooks/useThemeColors';
 
 export interface EmptyStateProps {
   icon: React.ComponentProps<typeof FontAwesome>['name'];
@@ -76,11 +77,10 @@ const EmptyState: React.FC<EmptyStateProps> = ({
   colorful,
   gradient,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   const iconColorValue =
-    iconColor || (isDark ? Colors.gray[400] : Colors.gray[400]);
+    iconColor || (isDark ? colors.textMuted : Colors.gray[400]);
 
   const primaryButtonStyle = [
     styles.primaryButton,
@@ -94,7 +94,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({
     <View
       style={[
         styles.container,
-        isDark ? styles.containerLight : styles.containerLight,
+        isDark ? styles.containerDark : styles.containerLight,
         style,
       ]}
       testID={testID}
@@ -109,7 +109,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({
       <Text
         style={[
           styles.title,
-          isDark ? styles.titleLight : styles.titleLight,
+          isDark ? styles.titleDark : styles.titleLight,
           titleFont && { fontFamily: titleFont },
           titleStyle,
         ]}
@@ -120,7 +120,7 @@ const EmptyState: React.FC<EmptyStateProps> = ({
       <Text
         style={[
           styles.message,
-          isDark ? styles.messageLight : styles.messageLight,
+          isDark ? styles.messageDark : styles.messageLight,
           messageFont && { fontFamily: messageFont },
           messageStyle,
         ]}
@@ -175,7 +175,7 @@ const styles = StyleSheet.create({
     elevation: 2,
   },
   containerDark: {
-    backgroundColor: Colors.gray[800],
+    backgroundColor: DarkColors.surface,
     shadowColor: Colors.black,
     shadowOffset: { width: 0, height: 4 },
     shadowOpacity: 0.3,
@@ -192,7 +192,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[800],
   },
   titleDark: {
-    color: Colors.white,
+    color: DarkColors.text,
   },
   message: {
     fontSize: FontSizes.base,
@@ -203,7 +203,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[600],
   },
   messageDark: {
-    color: Colors.gray[200],
+    color: DarkColors.textSecondary,
   },
   primaryButton: {
     minWidth: 200,
@@ -1,13 +1,7 @@
 // components/ui/Feedback/Alert.tsx
 
 import React from 'react';
-import {
-  View,
-  Text,
-  TouchableOpacity,
-  StyleSheet,
-  useColorScheme,
-} from 'react-native';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import {
   Colors,
@@ -15,6 +9,7 @@ import {
   BorderRadius,
   FontSizes,
 } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 export interface AlertProps {
   /**
@@ -71,8 +66,7 @@ const Alert: React.FC<AlertProps> = ({
   style,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   // Get appropriate colors based on type
   let backgroundColor: string;
@@ -84,35 +78,31 @@ const Alert: React.FC<AlertProps> = ({
   switch (type) {
     case 'success':
       backgroundColor = isDark
-        ? 'rgba(33, 185, 88, 0.1)'
+        ? colors.successSurface
         : 'rgba(33, 185, 88, 0.1)';
       borderColor = Colors.success;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = icon || 'check-circle';
       break;
     case 'warning':
       backgroundColor = isDark
-        ? 'rgba(251, 208, 0, 0.1)'
+        ? colors.warningSurface
         : 'rgba(251, 208, 0, 0.1)';
       borderColor = Colors.warning;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = icon || 'exclamation-triangle';
       break;
     case 'error':
-      backgroundColor = isDark
-        ? 'rgba(236, 28, 36, 0.1)'
-        : 'rgba(236, 28, 36, 0.1)';
+      backgroundColor = isDark ? colors.errorSurface : 'rgba(236, 28, 36, 0.1)';
       borderColor = Colors.error;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = icon || 'exclamation-circle';
       break;
     case 'info':
     default:
-      backgroundColor = isDark
-        ? 'rgba(0, 183, 239, 0.1)'
-        : 'rgba(0, 183, 239, 0.1)';
+      backgroundColor = isDark ? colors.infoSurface : 'rgba(0, 183, 239, 0.1)';
       borderColor = Colors.info;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = icon || 'info-circle';
   }
 
@@ -148,7 +138,7 @@ const Alert: React.FC<AlertProps> = ({
           <FontAwesome
             name='times'
             size={16}
-            color={isDark ? Colors.gray[600] : Colors.gray[600]}
+            color={isDark ? colors.icon : Colors.gray[600]}
           />
         </TouchableOpacity>
       )}
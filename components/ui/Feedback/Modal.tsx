@@ -9,7 +9,6 @@ import {
   TouchableOpacity,
   TouchableWithoutFeedback,
   Dimensions,
-  useColorScheme,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import {
@@ -20,6 +19,7 @@ import {
   CommonStyles,
 } from '../../../constants/theme';
 import { globalStyles, applyDarkMode } from '../../../utils/styleUtils';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 export interface ModalProps {
   /**
@@ -124,8 +124,7 @@ const Modal: React.FC<ModalProps> = ({
   footerStyle,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
   const screenWidth = Dimensions.get('window').width;
   const screenHeight = Dimensions.get('window').height;
 
@@ -154,14 +153,19 @@ const Modal: React.FC<ModalProps> = ({
       testID={testID}
     >
       <TouchableWithoutFeedback onPress={handleBackdropPress}>
-        <View style={styles.overlay}>
+        <View
+          style={[
+            styles.overlay,
+            isDark && { backgroundColor: colors.overlay },
+          ]}
+        >
           <TouchableWithoutFeedback onPress={handleContentPress}>
             <View
               style={[
                 styles.modalContainer,
                 applyDarkMode(
                   isDark,
-                  { backgroundColor: Colors.gray[800] },
+                  { backgroundColor: colors.surface },
                   { backgroundColor: Colors.gray[800] },
                 ),
                 { width: modalWidth, height: defaultHeight },
@@ -170,7 +174,15 @@ const Modal: React.FC<ModalProps> = ({
             >
               {/* Modal Header */}
               {title && (
-                <View style={styles.header}>
+                <View
+                  style={[
+                    styles.header,
+                    isDark && {
+                      backgroundColor: Colors.vibrant.purpleDark,
+                      borderBottomColor: colors.divider,
+                    },
+                  ]}
+                >
                   <Text
                     style={[
                       styles.title,
@@ -194,7 +206,7 @@ const Modal: React.FC<ModalProps> = ({
                     <FontAwesome
                       name='times'
                       size={20}
-                      color={isDark ? Colors.gray[200] : Colors.gray[200]}
+                      color={isDark ? colors.textSecondary : Colors.gray[200]}
                     />
                   </TouchableOpacity>
                 </View>
@@ -207,6 +219,7 @@ const Modal: React.FC<ModalProps> = ({
                   {
                     fontFamily: contentFontFamily,
                   },
+                  isDark && { backgroundColor: colors.surface },
                   contentStyle,
                 ]}
               >
@@ -221,6 +234,10 @@ const Modal: React.FC<ModalProps> = ({
                     {
                       fontFamily: footerFontFamily,
                     },
+                    isDark && {
+                      backgroundColor: colors.surface,
+                      borderTopColor: colors.divider,
+                    },
                     footerStyle,
                   ]}
                 >
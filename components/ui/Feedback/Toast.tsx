@@ -7,7 +7,6 @@ import {
   StyleSheet,
   Animated,
   TouchableOpacity,
-  useColorScheme,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import {
@@ -16,6 +15,7 @@ import {
   BorderRadius,
   FontSizes,
 } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
 import { globalStyles, applyDarkMode } from '../../../utils/styleUtils';
 
 export interface ToastProps {
@@ -67,8 +67,7 @@ const Toast: React.FC<ToastProps> = ({
   style,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
   const [visible, setVisible] = useState(true);
   const fadeAnim = useRef(new Animated.Value(0)).current;
   const translateYAnim = useRef(
@@ -85,35 +84,33 @@ const Toast: React.FC<ToastProps> = ({
   switch (type) {
     case 'success':
       backgroundColor = isDark
-        ? 'rgba(33, 185, 88, 0.15)'
+        ? colors.successSurface
         : 'rgba(33, 185, 88, 0.15)';
       borderColor = Colors.success;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = 'check-circle';
       break;
     case 'warning':
       backgroundColor = isDark
-        ? 'rgba(251, 208, 0, 0.15)'
+        ? colors.warningSurface
         : 'rgba(251, 208, 0, 0.15)';
       borderColor = Colors.warning;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = 'exclamation-triangle';
       break;
     case 'error':
       backgroundColor = isDark
-        ? 'rgba(236, 28, 36, 0.15)'
+        ? colors.errorSurface
         : 'rgba(236, 28, 36, 0.15)';
       borderColor = Colors.error;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = 'exclamation-circle';
       break;
     case 'info':
     default:
-      backgroundColor = isDark
-        ? 'rgba(0, 183, 239, 0.15)'
-        : 'rgba(0, 183, 239, 0.15)';
+      backgroundColor = isDark ? colors.infoSurface : 'rgba(0, 183, 239, 0.15)';
       borderColor = Colors.info;
-      textColor = isDark ? Colors.gray[900] : Colors.gray[900];
+      textColor = isDark ? colors.text : Colors.gray[900];
       iconName = 'info-circle';
   }
 
@@ -192,7 +189,7 @@ const Toast: React.FC<ToastProps> = ({
         <FontAwesome
           name='times'
           size={16}
-          color={isDark ? Colors.gray[600] : Colors.gray[600]}
+          color={isDark ? colors.icon : Colors.gray[600]}
         />
       </TouchableOpacity>
     </Animated.View>
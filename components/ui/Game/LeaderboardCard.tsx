@@ -22,6 +22,7 @@ import {
 import { createPlayfulShadow } from '../../../utils/styleUtils';
 import { toAnimatedStyle } from '../../../utils/styleTypes';
 import AnimatedCounter from '../AnimatedCounter';
+import TierBadge from '../TierBadge';
 
 // Helper type to ensure gradient colors are properly typed
 type GradientColors = readonly [ColorValue, ColorValue, ...ColorValue[]];
@@ -30,6 +31,8 @@ const LeaderboardCard: React.FC<LeaderboardCardProps> = ({
   rank,
   name,
   score,
+  rating,
+  ratedGames,
   avatar,
   isCurrentUser = false,
   variant = 'default',
@@ -329,7 +332,7 @@ const LeaderboardCard: React.FC<LeaderboardCardProps> = ({
 
           <View style={styles.scoreContainer}>
             <AnimatedCounter
-              value={score}
+              value={rating ?? score}
               style={[
                 styles.userScore,
                 {
@@ -340,8 +343,15 @@ const LeaderboardCard: React.FC<LeaderboardCardProps> = ({
               ]}
               size={variant === 'compact' ? 'small' : 'medium'}
               animateOnMount={animated}
-              suffix=' pts'
+              suffix={rating !== undefined ? '' : ' pts'}
             />
+            {rating !== undefined && (
+              <TierBadge
+                rating={rating}
+                gamesPlayed={ratedGames}
+                style={styles.tierBadge}
+              />
+            )}
           </View>
         </View>
 
@@ -437,6 +447,9 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     alignItems: 'center',
   },
+  tierBadge: {
+    marginLeft: Spacing[2],
+  },
   userScore: {
     fontSize: FontSizes.lg,
     fontWeight: FontWeights.bold as any,
@@ -11,9 +11,11 @@ import {
   BorderRadius,
 } from '../../constants/theme';
 import { toAnimatedStyle } from '../../utils/styleTypes';
+import { useThemeColors } from './hooks/useThemeColors';
 
 interface GlassCardProps extends CardProps {
   blurIntensity?: number;
+  // Follows the active color scheme when omitted
   tint?: 'light' | 'dark' | 'default';
   shimmerEffect?: boolean;
   borderGlow?: boolean;
@@ -28,7 +30,7 @@ const GlassCard: React.FC<GlassCardProps> = ({
   padding = 'medium',
   testID,
   blurIntensity = 20,
-  tint = 'light',
+  tint,
   shimmerEffect = false,
   borderGlow = false,
   glowColor,
@@ -36,6 +38,8 @@ const GlassCard: React.FC<GlassCardProps> = ({
   floatingAnimation = false,
   ...props
 }) => {
+  const { colors, isDark } = useThemeColors();
+  const activeTint = tint ?? (isDark ? 'dark' : 'light');
   const floatAnimation = useRef(new Animated.Value(0)).current;
   const shimmerAnimation = useRef(new Animated.Value(0)).current;
   const glowAnimation = useRef(new Animated.Value(0)).current;
@@ -176,7 +180,7 @@ const GlassCard: React.FC<GlassCardProps> = ({
   };
 
   const getTintStyles = () => {
-    switch (tint) {
+    switch (activeTint) {
       case 'light':
         return {
           backgroundColor: 'rgba(255, 255, 255, 0.15)',
@@ -186,10 +190,10 @@ const GlassCard: React.FC<GlassCardProps> = ({
         };
       case 'dark':
         return {
-          backgroundColor: 'rgba(0, 0, 0, 0.15)',
-          borderColor: 'rgba(255, 255, 255, 0.2)',
-          textColor: Colors.white,
-          titleColor: Colors.white,
+          backgroundColor: isDark ? colors.glass : 'rgba(0, 0, 0, 0.15)',
+          borderColor: isDark ? colors.glassBorder : 'rgba(255, 255, 255, 0.2)',
+          textColor: isDark ? colors.textSecondary : Colors.white,
+          titleColor: isDark ? colors.text : Colors.white,
         };
       default:
         return {
@@ -255,7 +259,7 @@ const GlassCard: React.FC<GlassCardProps> = ({
       {/* Glass Background with Blur */}
       <BlurView
         intensity={blurIntensity}
-        tint={tint}
+        tint={activeTint}
         style={styles.blurContainer}
       >
         <View
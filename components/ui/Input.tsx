@@ -10,17 +10,18 @@ import {
   ViewStyle,
   TextStyle,
   TouchableOpacity,
-  useColorScheme,
   Platform,
 } from 'react-native';
 import { FontAwesome } from '@expo/vector-icons';
 import {
   Colors,
+  DarkColors,
   Spacing,
   BorderRadius,
   FontSizes,
 } from '../../constants/theme';
 import { mergeStyles } from '../../utils/styleTypes';
+import { useThemeColors } from './hooks/useThemeColors';
 
 export interface InputProps {
   /**
@@ -157,8 +158,7 @@ const Input: React.FC<InputProps> = ({
   testID,
   accessibilityLabel,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   // State for password visibility toggle
   const [isPasswordVisible, setIsPasswordVisible] = useState(false);
@@ -192,13 +192,13 @@ const Input: React.FC<InputProps> = ({
   const baseInputContainerStyle = hasCustomContainer
     ? {} // Don't apply default styles if custom container is provided
     : isDark
-    ? styles.inputContainerLight
+    ? styles.inputContainerDark
     : styles.inputContainerLight;
 
   const baseLabelStyle = hasCustomContainer
     ? {} // Don't apply default label styles if custom styling is used
     : isDark
-    ? styles.labelLight
+    ? styles.labelDark
     : styles.labelLight;
 
   // Merge styles safely
@@ -232,7 +232,7 @@ const Input: React.FC<InputProps> = ({
 
   const finalInputStyle = mergeStyles(
     styles.input,
-    hasCustomContainer ? {} : isDark ? styles.inputLight : styles.inputLight,
+    hasCustomContainer ? {} : isDark ? styles.inputDark : styles.inputLight,
     getInputPadding(),
     leftIcon ? styles.inputWithLeftIcon : null,
     displayRightIcon ? styles.inputWithRightIcon : null,
@@ -246,7 +246,7 @@ const Input: React.FC<InputProps> = ({
   const placeholderTextColor = hasCustomContainer
     ? Colors.gray[400]
     : isDark
-    ? Colors.gray[400]
+    ? colors.placeholder
     : Colors.gray[400];
 
   return (
@@ -263,7 +263,7 @@ const Input: React.FC<InputProps> = ({
                 hasCustomContainer
                   ? Colors.gray[500]
                   : isDark
-                  ? Colors.gray[500]
+                  ? colors.icon
                   : Colors.gray[500]
               }
             />
@@ -309,7 +309,7 @@ const Input: React.FC<InputProps> = ({
                 hasCustomContainer
                   ? Colors.gray[500]
                   : isDark
-                  ? Colors.gray[500]
+                  ? colors.icon
                   : Colors.gray[500]
               }
             />
@@ -324,7 +324,7 @@ const Input: React.FC<InputProps> = ({
             error
               ? styles.errorText
               : isDark
-              ? styles.helperTextLight
+              ? styles.helperTextDark
               : styles.helperTextLight,
           ]}
         >
@@ -349,7 +349,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[700],
   },
   labelDark: {
-    color: Colors.gray[300],
+    color: DarkColors.textSecondary,
   },
   inputContainer: {
     flexDirection: 'row',
@@ -363,9 +363,9 @@ const styles = StyleSheet.create({
     borderColor: Colors.gray[300],
   },
   inputContainerDark: {
-    backgroundColor: Colors.gray[700],
+    backgroundColor: DarkColors.surfaceMuted,
     borderWidth: 1,
-    borderColor: Colors.gray[600],
+    borderColor: DarkColors.border,
   },
   inputError: {
     borderColor: Colors.error,
@@ -400,7 +400,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[900],
   },
   inputDark: {
-    color: Colors.white,
+    color: DarkColors.text,
   },
   inputWithLeftIcon: {
     paddingLeft: 0,
@@ -436,7 +436,7 @@ const styles = StyleSheet.create({
     color: Colors.gray[600],
   },
   helperTextDark: {
-    color: Colors.gray[400],
+    color: DarkColors.textMuted,
   },
   errorText: {
     color: Colors.error,
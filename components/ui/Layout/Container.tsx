@@ -1,9 +1,10 @@
 // components/ui/Layout/Container.tsx
 
 import React from 'react';
-import { View, StyleSheet, useColorScheme } from 'react-native';
+import { View, StyleSheet } from 'react-native';
 import { ContainerProps } from '../types';
-import { Colors, Spacing } from '../../../constants/theme';
+import { Colors, DarkColors, Spacing } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 /**
  * Container component for wrapping content with consistent padding and styling
@@ -15,8 +16,7 @@ const Container: React.FC<ContainerProps> = ({
   center = false,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { isDark } = useThemeColors();
 
   // Determine padding based on the prop
   let paddingStyle;
@@ -38,7 +38,7 @@ const Container: React.FC<ContainerProps> = ({
     <View
       style={[
         styles.container,
-        isDark ? styles.containerLight : styles.containerLight,
+        isDark ? styles.containerDark : styles.containerLight,
         paddingStyle,
         center && styles.center,
         style,
@@ -58,7 +58,7 @@ const styles = StyleSheet.create({
     backgroundColor: Colors.gray[50],
   },
   containerDark: {
-    backgroundColor: Colors.gray[900],
+    backgroundColor: DarkColors.background,
   },
   paddingNone: {
     padding: 0,
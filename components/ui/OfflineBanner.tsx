@@ -0,0 +1,130 @@
+// components/ui/OfflineBanner.tsx
+
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import Alert from './Feedback/Alert';
+import { Colors, Spacing, BorderRadius } from '../../constants/theme';
+import { useOfflineQueue } from '../../stores/appStore';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import type { TranslationKey } from '../../localization';
+
+export interface OfflineBannerProps {
+  /**
+   * Custom style for the banner container
+   */
+  style?: StyleProp<ViewStyle>;
+
+  /**
+   * Test ID for testing
+   */
+  testID?: string;
+}
+
+/**
+ * OfflineBanner shows connectivity state, changes waiting in the apiClient
+ * request queue and any queued changes the server rejected on replay.
+ * Renders nothing while online with an empty queue.
+ */
+const OfflineBanner: React.FC<OfflineBannerProps> = ({ style, testID }) => {
+  const { t, dateLocale } = useTranslation();
+  const {
+    isOnline,
+    pendingCount,
+    conflicts,
+    isFlushing,
+    flush,
+    dismissConflict,
+  } = useOfflineQueue();
+
+  if (isOnline && pendingCount === 0 && conflicts.length === 0) {
+    return null;
+  }
+
+  return (
+    <View style={[styles.container, style]} testID={testID}>
+      {!isOnline && (
+        <Alert
+          type='warning'
+          icon='wifi'
+          title={t('offline.offlineTitle')}
+          message={
+            pendingCount > 0
+              ? `${t('offline.offlineMessage')}\n${t('offline.pendingChanges', {
+                  count: pendingCount,
+                })}`
+              : t('offline.offlineMessage')
+          }
+        />
+      )}
+
+      {isOnline && pendingCount > 0 && (
+        <View>
+          <Alert
+            type='info'
+            icon='cloud-upload'
+            message={
+              isFlushing
+                ? t('offline.syncing')
+                : t('offline.pendingChanges', { count: pendingCount })
+            }
+          />
+          {!isFlushing && (
+            <TouchableOpacity
+              style={styles.syncButton}
+              onPress={() => flush()}
+              activeOpacity={0.7}
+            >
+              <Text style={styles.syncButtonText}>{t('offline.syncNow')}</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+      )}
+
+      {conflicts.map((conflict) => (
+        <Alert
+          key={conflict.id}
+          type='error'
+          title={t('offline.conflictTitle')}
+          message={t('offline.conflictItem', {
+            action: t(conflict.request.label as TranslationKey),
+            date: new Date(conflict.request.queuedAt).toLocaleString(
+              dateLocale,
+            ),
+            message: conflict.message,
+          })}
+          dismissible
+          onDismiss={() => dismissConflict(conflict.id)}
+        />
+      ))}
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  container: {
+    gap: Spacing[2],
+    marginBottom: Spacing[3],
+  },
+  syncButton: {
+    alignSelf: 'flex-end',
+    marginTop: Spacing[1],
+    paddingHorizontal: Spacing[3],
+    paddingVertical: Spacing[1],
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.primary.DEFAULT,
+  },
+  syncButtonText: {
+    color: Colors.white,
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+});
+
+export default OfflineBanner;
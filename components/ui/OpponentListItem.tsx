@@ -13,6 +13,7 @@ import {
 // --- Imports for components we KNOW exist and work ---
 import Avatar from './Avatar';
 import Button from './Button';
+import TierBadge from './TierBadge';
 import { OpponentListItemProps } from './types';
 import { Colors, Spacing } from '../../constants/theme';
 
@@ -54,6 +55,15 @@ export default function OpponentListItem({
           {user.username}
         </Text>
 
+        {typeof user.rating === 'number' && (
+          <TierBadge
+            rating={user.rating}
+            gamesPlayed={user.ratedGames}
+            showRating
+            style={styles.tier}
+          />
+        )}
+
         {typeof user.winRate === 'number' && (
           // Using a basic <Text> component instead of <Paragraph>
           <Text
@@ -111,6 +121,9 @@ const styles = StyleSheet.create({
     fontSize: 12,
     marginTop: Spacing[1],
   },
+  tier: {
+    marginTop: Spacing[1],
+  },
   statsLight: {
     color: Colors.gray[400],
   },
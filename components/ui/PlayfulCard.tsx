@@ -7,7 +7,6 @@ import {
   Animated,
   Easing,
   ColorValue,
-  useColorScheme,
   TouchableOpacity,
   LayoutAnimation,
   Platform,
@@ -25,6 +24,7 @@ import {
 } from '../../constants/theme';
 import { createPlayfulShadow } from '../../utils/styleUtils';
 import { toAnimatedStyle } from '../../utils/styleTypes';
+import { useThemeColors } from './hooks/useThemeColors';
 
 // Enable LayoutAnimation on Android
 if (
@@ -115,8 +115,7 @@ const PlayfulCard: React.FC<CardProps> = ({
   expandIcon = 'chevron-up',
   ...props
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   // Animation refs
   const floatAnimation = useRef(new Animated.Value(0)).current;
@@ -318,15 +317,13 @@ const PlayfulCard: React.FC<CardProps> = ({
       categoryColors?.background ||
       (isDark ? Colors.vibrant?.purpleDark : Colors.vibrant?.purpleDark);
     const baseBorderColor =
-      categoryColors?.border || (isDark ? Colors.gray[200] : Colors.gray[200]);
+      categoryColors?.border || (isDark ? colors.border : Colors.gray[200]);
     const baseTextColor =
       categoryColors?.text || (isDark ? Colors.white : Colors.white);
 
-    const glassBg = isDark
-      ? 'rgba(255, 255, 255, 0.15)'
-      : 'rgba(255, 255, 255, 0.15)';
+    const glassBg = isDark ? colors.glass : 'rgba(255, 255, 255, 0.15)';
     const glassBorder = isDark
-      ? 'rgba(255, 255, 255, 0.3)'
+      ? colors.glassBorder
       : 'rgba(255, 255, 255, 0.3)';
 
     switch (variant) {
@@ -0,0 +1,186 @@
+// components/ui/PremiumGate.tsx
+
+import React, { useCallback } from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  StyleSheet,
+  StyleProp,
+  ViewStyle,
+} from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { useRouter } from 'expo-router';
+import { buildRoute } from '../../constants/routes';
+import { Colors, Spacing, BorderRadius } from '../../constants/theme';
+import { usePremiumAccess } from '../../src/hooks/useSubscriptionData';
+import { useTranslation } from '../../src/hooks/useTranslation';
+
+export interface PremiumGateProps {
+  /**
+   * Premium-only content, rendered as-is for subscribers
+   */
+  children?: React.ReactNode;
+
+  /**
+   * Override the lock state (defaults to the user's subscription status)
+   */
+  locked?: boolean;
+
+  /**
+   * Name of the locked feature shown in the prompt
+   */
+  feature?: string;
+
+  /**
+   * Custom prompt message
+   */
+  message?: string;
+
+  /**
+   * Render a small "Premium" pill instead of the full prompt card
+   */
+  compact?: boolean;
+
+  /**
+   * Custom style for the locked container
+   */
+  style?: StyleProp<ViewStyle>;
+
+  /**
+   * Test ID for testing
+   */
+  testID?: string;
+}
+
+/**
+ * PremiumGate renders its children for subscribers and an upgrade prompt
+ * linking to the subscription screen for everyone else.
+ */
+const PremiumGate: React.FC<PremiumGateProps> = ({
+  children,
+  locked,
+  feature,
+  message,
+  compact = false,
+  style,
+  testID,
+}) => {
+  const router = useRouter();
+  const { t } = useTranslation();
+  const { isPremium } = usePremiumAccess();
+  const isLocked = locked ?? !isPremium;
+
+  const handleUpgrade = useCallback(() => {
+    router.push(buildRoute('subscription'));
+  }, [router]);
+
+  if (!isLocked) {
+    return <>{children}</>;
+  }
+
+  if (compact) {
+    return (
+      <TouchableOpacity
+        style={[styles.pill, style]}
+        onPress={handleUpgrade}
+        activeOpacity={0.7}
+        accessibilityRole='button'
+        accessibilityLabel={t('subscription.gate.unlock')}
+        testID={testID}
+      >
+        <FontAwesome name='lock' size={12} color={Colors.white} />
+        <Text style={styles.pillText}>{t('subscription.gate.badge')}</Text>
+      </TouchableOpacity>
+    );
+  }
+
+  return (
+    <View style={[styles.card, style]} testID={testID}>
+      <View style={styles.iconCircle}>
+        <FontAwesome name='lock' size={20} color={Colors.vibrant.purple} />
+      </View>
+      <Text style={styles.title}>
+        {feature
+          ? t('subscription.gate.featureTitle', { feature })
+          : t('subscription.gate.title')}
+      </Text>
+      <Text style={styles.message}>
+        {message || t('subscription.gate.message')}
+      </Text>
+      <TouchableOpacity
+        style={styles.button}
+        onPress={handleUpgrade}
+        activeOpacity={0.8}
+        accessibilityRole='button'
+      >
+        <FontAwesome name='star' size={14} color={Colors.white} />
+        <Text style={styles.buttonText}>{t('subscription.gate.unlock')}</Text>
+      </TouchableOpacity>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  pill: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing[1],
+    paddingHorizontal: Spacing[3],
+    paddingVertical: Spacing[2],
+    borderRadius: BorderRadius.full,
+    backgroundColor: Colors.vibrant.purple,
+  },
+  pillText: {
+    color: Colors.white,
+    fontSize: 12,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  card: {
+    alignItems: 'center',
+    padding: Spacing[4],
+    borderRadius: BorderRadius.xl,
+    backgroundColor: 'rgba(255,255,255,0.95)',
+    borderWidth: 1,
+    borderColor: Colors.gray[200],
+  },
+  iconCircle: {
+    width: 44,
+    height: 44,
+    borderRadius: BorderRadius.full,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: Colors.gray[100],
+    marginBottom: Spacing[2],
+  },
+  title: {
+    fontSize: 16,
+    fontFamily: 'PrimaryFont',
+    color: Colors.gray[900],
+    textAlign: 'center',
+  },
+  message: {
+    fontSize: 13,
+    fontFamily: 'SecondaryFont-Regular',
+    color: Colors.gray[600],
+    textAlign: 'center',
+    marginTop: Spacing[1],
+    marginBottom: Spacing[3],
+  },
+  button: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing[2],
+    paddingHorizontal: Spacing[4],
+    paddingVertical: Spacing[2],
+    borderRadius: BorderRadius.lg,
+    backgroundColor: Colors.vibrant.purple,
+  },
+  buttonText: {
+    color: Colors.white,
+    fontSize: 14,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+});
+
+export default PremiumGate;
@@ -17,6 +17,7 @@ import {
   FontSizes,
 } from '../../constants/theme';
 import { globalStyles, applyDarkMode } from '../../utils/styleUtils';
+import TierBadge from './TierBadge';
 
 export interface ProfileHeaderProps {
   /**
@@ -29,6 +30,16 @@ export interface ProfileHeaderProps {
    */
   avatar?: string;
 
+  /**
+   * Optional overall rating; shows the ranked tier under the name
+   */
+  rating?: number;
+
+  /**
+   * Rated duels played, used to mark provisional tiers
+   */
+  ratedGames?: number;
+
   /**
    * Optional array of stats to display
    */
@@ -61,6 +72,8 @@ export interface ProfileHeaderProps {
 const ProfileHeader: React.FC<ProfileHeaderProps> = ({
   name,
   avatar,
+  rating,
+  ratedGames,
   stats,
   onAvatarPress,
   onEditPress,
@@ -105,6 +118,16 @@ const ProfileHeader: React.FC<ProfileHeaderProps> = ({
         <View style={styles.userInfo}>
           <Text style={[styles.name, { color: textColor }]}>{name}</Text>
 
+          {typeof rating === 'number' && (
+            <TierBadge
+              rating={rating}
+              gamesPlayed={ratedGames}
+              showRating
+              size='md'
+              style={styles.tier}
+            />
+          )}
+
           {/* Edit Button */}
           {onEditPress && (
             <TouchableOpacity style={styles.editButton} onPress={onEditPress}>
@@ -200,6 +223,9 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     marginBottom: Spacing[1],
   },
+  tier: {
+    marginBottom: Spacing[2],
+  },
   editButton: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -21,7 +21,32 @@ import {
   getActiveStudySession,
   addBreakTime,
   formatSessionDuration,
+  getStudyIntervalPlan,
+  getIntervalBreakMinutes,
+  getUpcomingIntervalTransitions,
+  STUDY_INTERVAL_MODES,
+  CUSTOM_INTERVAL_LIMITS,
 } from '../../src/api/studyService';
+import {
+  scheduleStudyIntervalNotifications,
+  cancelStudyIntervalNotifications,
+  showStudySessionNotification,
+  dismissStudySessionNotification,
+} from '../../src/api/notificationService';
+import {
+  loadStudySessionSnapshot,
+  saveStudySessionSnapshot,
+  clearStudySessionSnapshot,
+} from '../../src/api/offlineStorage';
+import { isQueuedRequestError } from '../../src/api/apiClient';
+import { translate } from '../../localization';
+import { useStudyTimerSettings } from '../../stores/appStore';
+import type {
+  StudyIntervalPhase,
+  StudyIntervalPlan,
+  StudySessionEvent,
+  StudySessionSnapshot,
+} from '../../src/types/models';
 import {
   Colors,
   FontSizes,
@@ -89,6 +114,12 @@ const CATEGORY_COLORS = {
 // Timer states
 type TimerState = 'idle' | 'running' | 'paused' | 'loading';
 
+// Phase switches kept scheduled as local notifications at any time
+const SCHEDULED_INTERVAL_REMINDERS = 6;
+
+// Shorter trips to the background always count as study time
+const MIN_BACKGROUND_CREDIT_MS = 60 * 1000;
+
 // Course interface for the selected course prop
 interface Course {
   course_id: number;
@@ -157,10 +188,36 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     useState<Date | null>(null);
   const [totalBreakTimeSeconds, setTotalBreakTimeSeconds] = useState(0);
 
+  // Interval mode tracking - the plan is fixed when the session starts
+  const { settings: timerSettings, updateSettings: updateTimerSettings } =
+    useStudyTimerSettings();
+  const [intervalPlan, setIntervalPlan] = useState<StudyIntervalPlan | null>(
+    null,
+  );
+  const [intervalPhase, setIntervalPhase] = useState<StudyIntervalPhase | null>(
+    null,
+  );
+  const [phaseEndsAt, setPhaseEndsAt] = useState<Date | null>(null);
+  // Work time left when the work phase was paused by hand
+  const [phaseRemainingMs, setPhaseRemainingMs] = useState<number | null>(null);
+  const [completedCycles, setCompletedCycles] = useState(0);
+
+  // Session timeline and background tracking, mirrored to local storage so
+  // the session survives the app being killed
+  const [timeline, setTimeline] = useState<StudySessionEvent[]>([]);
+  // Finished breaks the server has confirmed
+  const [recordedBreakSeconds, setRecordedBreakSeconds] = useState(0);
+  const [backgroundedAt, setBackgroundedAt] = useState<Date | null>(null);
+
   // Refs
   const updateTimerRef = useRef<ReturnType<typeof setInterval> | null>(null);
   const appStateRef = useRef(AppState.currentState);
   const isActiveRef = useRef(true);
+  // Nothing is persisted until the saved snapshot has been reconciled
+  const hasRestoredRef = useRef(false);
+  const appStateHandlerRef = useRef<(nextAppState: AppStateStatus) => void>(
+    () => undefined,
+  );
 
   // Calculate elapsed time based on start time, current time, and paused duration
   const calculateElapsedTime = useCallback((): number => {
@@ -204,6 +261,94 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     }
   }, [currentTime, timerState, calculateElapsedTime, onTimeUpdate]);
 
+  // Switch interval phases on the same one-second tick
+  useEffect(() => {
+    advanceIntervalPhases();
+  }, [currentTime]);
+
+  // Keep the next phase switches scheduled as local notifications so they
+  // still fire while the app is in the background
+  const isIntervalFrozen = intervalPhase === 'work' && timerState !== 'running';
+  useEffect(() => {
+    if (!intervalPlan || !intervalPhase || !phaseEndsAt || isIntervalFrozen) {
+      cancelStudyIntervalNotifications();
+      return;
+    }
+    scheduleStudyIntervalNotifications(
+      getUpcomingIntervalTransitions(
+        intervalPlan,
+        intervalPhase,
+        phaseEndsAt,
+        completedCycles,
+        SCHEDULED_INTERVAL_REMINDERS,
+      ),
+      activeSession?.courseTitle,
+    );
+  }, [
+    intervalPlan,
+    intervalPhase,
+    phaseEndsAt,
+    completedCycles,
+    isIntervalFrozen,
+  ]);
+
+  // Save the running session locally after every change
+  useEffect(() => {
+    if (!hasRestoredRef.current || !activeSession || !sessionStartTime) return;
+    saveStudySessionSnapshot({
+      sessionId: activeSession.sessionId,
+      courseId: activeSession.courseId,
+      courseTitle: activeSession.courseTitle,
+      startTime: sessionStartTime.toISOString(),
+      timeline,
+      pausedDurationMs: pausedDuration,
+      pauseStartTime: pauseStartTime?.toISOString() ?? null,
+      breakStartTime: currentBreakStartTime?.toISOString() ?? null,
+      totalBreakSeconds: totalBreakTimeSeconds,
+      recordedBreakSeconds,
+      backgroundedAt: backgroundedAt?.toISOString() ?? null,
+      interval:
+        intervalPlan && intervalPhase
+          ? {
+              plan: intervalPlan,
+              phase: intervalPhase,
+              phaseEndsAt: phaseEndsAt?.toISOString() ?? null,
+              phaseRemainingMs,
+              completedCycles,
+            }
+          : null,
+      updatedAt: new Date().toISOString(),
+    });
+  }, [
+    activeSession,
+    sessionStartTime,
+    timeline,
+    pausedDuration,
+    pauseStartTime,
+    currentBreakStartTime,
+    totalBreakTimeSeconds,
+    recordedBreakSeconds,
+    backgroundedAt,
+    intervalPlan,
+    intervalPhase,
+    phaseEndsAt,
+    phaseRemainingMs,
+    completedCycles,
+  ]);
+
+  // Keep the ongoing session notification's elapsed time current: it is
+  // re-posted on pause/resume and each time another minute has been studied
+  const elapsedMinutes = Math.floor(calculateElapsedTime() / 60);
+  useEffect(() => {
+    if (!activeSession) return;
+    if (timerState !== 'running' && timerState !== 'paused') return;
+    showStudySessionNotification({
+      courseTitle: activeSession.courseTitle,
+      elapsedSeconds: elapsedMinutes * 60,
+      isPaused: timerState === 'paused',
+    });
+  }, [activeSession, timerState, elapsedMinutes]);
+
   // FIXED: Check for existing session on mount ONLY - not when selectedCourse changes
   useEffect(() => {
     checkExistingSession();
@@ -216,33 +361,61 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     }
   }, [autoStart]); // Only depend on autoStart, not selectedCourse
 
-  // Handle app state changes
+  // Handle app state changes - through a ref so the listener sees current state
   useEffect(() => {
-    const subscription = AppState.addEventListener(
-      'change',
-      handleAppStateChange,
+    const subscription = AppState.addEventListener('change', (nextAppState) =>
+      appStateHandlerRef.current(nextAppState),
     );
     return () => subscription?.remove();
   }, []);
 
-  // FIXED: Check for existing active session - independent of selectedCourse
+  // FIXED: Check for existing active session - independent of selectedCourse.
+  // The server decides whether a session is running; the local snapshot
+  // supplies its pauses and breaks, or the whole session while offline.
   const checkExistingSession = async () => {
-    try {
-      setTimerState('loading');
-      console.log('Checking for any existing active session...');
+    setTimerState('loading');
+    console.log('Checking for any existing active session...');
+    const snapshot = await loadStudySessionSnapshot();
 
-      const activeSessionData = await getActiveStudySession();
+    try {
+      const activeSessionData = await getActiveStudySession({
+        skipCache: true,
+      });
       console.log('Active session response:', activeSessionData);
 
-      if (activeSessionData?.sessionId) {
+      if (
+        activeSessionData?.sessionId &&
+        snapshot?.sessionId === activeSessionData.sessionId
+      ) {
+        restoreSnapshot(snapshot);
+
+        // Send breaks that never reached the server before the app closed
+        const serverBreakSeconds = activeSessionData.breakDurationSeconds || 0;
+        const confirmedBreakSeconds = Math.max(
+          snapshot.recordedBreakSeconds,
+          serverBreakSeconds,
+        );
+        setRecordedBreakSeconds(confirmedBreakSeconds);
+        recordBreak(
+          snapshot.totalBreakSeconds - confirmedBreakSeconds,
+          snapshot.sessionId,
+        );
+        console.log(
+          'Restored session from local snapshot:',
+          snapshot.sessionId,
+        );
+      } else if (activeSessionData?.sessionId) {
         console.log('Found active session:', activeSessionData);
 
         // Set up the chronometer state
+        const startTime = new Date(activeSessionData.startTime);
         setSessionId(activeSessionData.sessionId);
-        setSessionStartTime(new Date(activeSessionData.startTime));
+        setSessionStartTime(startTime);
         setPausedDuration(0);
         setPauseStartTime(null);
         setTotalBreakTimeSeconds(activeSessionData.breakDurationSeconds || 0);
+        setRecordedBreakSeconds(activeSessionData.breakDurationSeconds || 0);
+        setTimeline([{ type: 'start', at: startTime.toISOString() }]);
         setTimerState('running');
 
         // Store active session info
@@ -252,7 +425,7 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
           courseTitle:
             activeSessionData.courseTitle ||
             `Course ${activeSessionData.courseId}`,
-          startTime: new Date(activeSessionData.startTime),
+          startTime,
         });
 
         console.log('Resumed existing session:', activeSessionData.sessionId);
@@ -263,8 +436,63 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       }
     } catch (error) {
       console.error('Error checking existing session:', error);
-      setTimerState('idle');
-      resetSessionState();
+      if (snapshot) {
+        // Offline - trust the local copy until the server can be reached
+        restoreSnapshot(snapshot);
+      } else {
+        setTimerState('idle');
+        resetSessionState();
+      }
+    } finally {
+      hasRestoredRef.current = true;
+    }
+  };
+
+  // Rebuild the chronometer from a saved snapshot
+  const restoreSnapshot = (snapshot: StudySessionSnapshot) => {
+    const startTime = new Date(snapshot.startTime);
+    const isPaused = snapshot.pauseStartTime !== null;
+
+    setSessionId(snapshot.sessionId);
+    setSessionStartTime(startTime);
+    setPausedDuration(snapshot.pausedDurationMs);
+    setPauseStartTime(
+      snapshot.pauseStartTime ? new Date(snapshot.pauseStartTime) : null,
+    );
+    setCurrentBreakStartTime(
+      snapshot.breakStartTime ? new Date(snapshot.breakStartTime) : null,
+    );
+    setTotalBreakTimeSeconds(snapshot.totalBreakSeconds);
+    setRecordedBreakSeconds(snapshot.recordedBreakSeconds);
+    setTimeline(snapshot.timeline);
+    setBackgroundedAt(null);
+
+    setIntervalPlan(snapshot.interval?.plan ?? null);
+    setIntervalPhase(snapshot.interval?.phase ?? null);
+    setPhaseEndsAt(
+      snapshot.interval?.phaseEndsAt
+        ? new Date(snapshot.interval.phaseEndsAt)
+        : null,
+    );
+    setPhaseRemainingMs(snapshot.interval?.phaseRemainingMs ?? null);
+    setCompletedCycles(snapshot.interval?.completedCycles ?? 0);
+
+    setActiveSession({
+      sessionId: snapshot.sessionId,
+      courseId: snapshot.courseId,
+      courseTitle: snapshot.courseTitle,
+      startTime,
+    });
+    setTimerState(isPaused ? 'paused' : 'running');
+
+    // The app was closed from the background - credit that time now.
+    // Interval sessions catch up through their own phase switches.
+    if (snapshot.backgroundedAt && !isPaused && !snapshot.interval) {
+      handleBackgroundTime(
+        new Date(snapshot.backgroundedAt),
+        new Date(),
+        snapshot.sessionId,
+      );
     }
   };
 
@@ -276,7 +504,21 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     setPauseStartTime(null);
     setCurrentBreakStartTime(null);
     setTotalBreakTimeSeconds(0);
+    setRecordedBreakSeconds(0);
+    setTimeline([]);
+    setBackgroundedAt(null);
     setActiveSession(null);
+    resetIntervalState();
+    clearStudySessionSnapshot();
+    dismissStudySessionNotification();
+  };
+
+  const resetIntervalState = () => {
+    setIntervalPlan(null);
+    setIntervalPhase(null);
+    setPhaseEndsAt(null);
+    setPhaseRemainingMs(null);
+    setCompletedCycles(0);
   };
 
   // Handle app state changes - improved logic
@@ -292,9 +534,16 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       // App came to foreground
       console.log('App came to foreground, timer state:', timerState);
       isActiveRef.current = true;
+      const now = new Date();
+
+      // Interval sessions already split background time into phases
+      if (backgroundedAt && timerState === 'running' && !intervalPlan) {
+        handleBackgroundTime(backgroundedAt, now);
+      }
+      setBackgroundedAt(null);
 
       // Update current time to trigger recalculation
-      setCurrentTime(new Date());
+      setCurrentTime(now);
     } else if (
       nextAppState.match(/inactive|background/) &&
       isActiveRef.current
@@ -302,10 +551,78 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       // App went to background
       console.log('App went to background, timer state:', timerState);
       isActiveRef.current = false;
+
+      if (
+        activeSession &&
+        (timerState === 'running' || timerState === 'paused')
+      ) {
+        setBackgroundedAt(new Date());
+      }
     }
 
     appStateRef.current = nextAppState;
   };
+  appStateHandlerRef.current = handleAppStateChange;
+
+  // Credit time spent away from the app as the background time setting says
+  const handleBackgroundTime = (
+    from: Date,
+    to: Date,
+    targetSessionId: number | null = sessionId,
+  ) => {
+    const awayMs = to.getTime() - from.getTime();
+    if (awayMs < MIN_BACKGROUND_CREDIT_MS) return;
+
+    switch (timerSettings.backgroundTimeMode) {
+      case 'break':
+        applyBackgroundBreak(from, to, targetSessionId);
+        break;
+      case 'ask':
+        Alert.alert(
+          translate('chronometer.backgroundTitle'),
+          translate('chronometer.backgroundMessage', {
+            minutes: Math.round(awayMs / 60000),
+          }),
+          [
+            { text: translate('chronometer.countAsStudy'), style: 'cancel' },
+            {
+              text: translate('chronometer.countAsBreak'),
+              onPress: () => applyBackgroundBreak(from, to, targetSessionId),
+            },
+          ],
+        );
+        break;
+      default:
+        // 'study' - the timer kept running while the app was away
+        break;
+    }
+  };
+
+  // Turn a background stretch into a break after the fact
+  const applyBackgroundBreak = (
+    from: Date,
+    to: Date,
+    targetSessionId: number | null,
+  ) => {
+    const breakMs = to.getTime() - from.getTime();
+    const breakSeconds = Math.floor(breakMs / 1000);
+
+    setPausedDuration((prev) => prev + breakMs);
+    setTotalBreakTimeSeconds((prev) => prev + breakSeconds);
+    addTimelineEvents([
+      { type: 'pause', at: from.toISOString() },
+      { type: 'resume', at: to.toISOString() },
+    ]);
+    recordBreak(breakSeconds, targetSessionId);
+  };
+
+  // Events may be added late (background breaks), so keep them in time order
+  const addTimelineEvents = (events: StudySessionEvent[]) => {
+    if (events.length === 0) return;
+    setTimeline((prev) =>
+      [...prev, ...events].sort((a, b) => a.at.localeCompare(b.at)),
+    );
+  };
 
   // FIXED: Handle start timer - check for conflicts HERE, not in effects
   const handleStartTimer = async () => {
@@ -314,15 +631,18 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     // Check if there's an active session for a different course
     if (activeSession && activeSession.courseId !== selectedCourse.course_id) {
       Alert.alert(
-        'Aktif Seans Var',
-        `"${activeSession.courseTitle}" kursu için aktif bir çalışma seansınız var. Bu seansı sonlandırıp "${selectedCourse.title}" için yeni seans başlatmak istiyor musunuz?`,
+        translate('chronometer.activeSessionTitle'),
+        translate('chronometer.activeSessionMessage', {
+          current: activeSession.courseTitle,
+          next: selectedCourse.title,
+        }),
         [
           {
-            text: 'İptal',
+            text: translate('common.cancel'),
             style: 'cancel',
           },
           {
-            text: 'Seansı Sonlandır',
+            text: translate('chronometer.endActiveSession'),
             style: 'destructive',
             onPress: () => {
               // End current session and start new one
@@ -366,7 +686,21 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       setPauseStartTime(null);
       setCurrentBreakStartTime(null);
       setTotalBreakTimeSeconds(0);
+      setRecordedBreakSeconds(0);
+      setTimeline([{ type: 'start', at: startTime.toISOString() }]);
+      setBackgroundedAt(null);
       setTimerState('running');
+      hasRestoredRef.current = true;
+
+      const plan = getStudyIntervalPlan(timerSettings);
+      resetIntervalState();
+      if (plan) {
+        setIntervalPlan(plan);
+        setIntervalPhase('work');
+        setPhaseEndsAt(
+          new Date(startTime.getTime() + plan.workMinutes * 60 * 1000),
+        );
+      }
 
       // Store active session info
       setActiveSession({
@@ -385,6 +719,19 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     }
   };
 
+  // Send a finished break to the server so endStudySession credits it
+  const recordBreak = (
+    breakSeconds: number,
+    targetSessionId: number | null = sessionId,
+  ) => {
+    if (!targetSessionId || breakSeconds <= 0) return;
+    addBreakTime(targetSessionId, breakSeconds)
+      .then(() => setRecordedBreakSeconds((prev) => prev + breakSeconds))
+      .catch((breakError) =>
+        console.error('Error adding break time:', breakError),
+      );
+  };
+
   // Handle pause/resume timer
   const handlePauseTimer = () => {
     const now = new Date();
@@ -394,6 +741,12 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       setPauseStartTime(now);
       setCurrentBreakStartTime(now);
       setTimerState('paused');
+      addTimelineEvents([{ type: 'pause', at: now.toISOString() }]);
+
+      // Freeze the work countdown until the user resumes
+      if (intervalPhase === 'work' && phaseEndsAt) {
+        setPhaseRemainingMs(Math.max(0, phaseEndsAt.getTime() - now.getTime()));
+      }
     } else if (
       timerState === 'paused' &&
       pauseStartTime &&
@@ -401,12 +754,83 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     ) {
       console.log('Resuming timer');
       const pauseDuration = now.getTime() - pauseStartTime.getTime();
-      const breakDuration = now.getTime() - currentBreakStartTime.getTime();
+      const breakSeconds = Math.floor(
+        (now.getTime() - currentBreakStartTime.getTime()) / 1000,
+      );
 
       setPausedDuration((prev) => prev + pauseDuration);
-      setTotalBreakTimeSeconds(
-        (prev) => prev + Math.floor(breakDuration / 1000),
-      );
+      setTotalBreakTimeSeconds((prev) => prev + breakSeconds);
+      setPauseStartTime(null);
+      setCurrentBreakStartTime(null);
+      setTimerState('running');
+      addTimelineEvents([{ type: 'resume', at: now.toISOString() }]);
+      recordBreak(breakSeconds);
+
+      if (intervalPlan && intervalPhase === 'break') {
+        // Break ended early - start the next work phase now
+        setIntervalPhase('work');
+        setPhaseEndsAt(
+          new Date(now.getTime() + intervalPlan.workMinutes * 60 * 1000),
+        );
+      } else if (intervalPhase === 'work' && phaseRemainingMs !== null) {
+        setPhaseEndsAt(new Date(now.getTime() + phaseRemainingMs));
+        setPhaseRemainingMs(null);
+      }
+    }
+  };
+
+  // Switch work/break phases whose end time has passed. Catches up on
+  // several phases at once when the app comes back from the background.
+  const advanceIntervalPhases = () => {
+    if (!intervalPlan || !intervalPhase || !phaseEndsAt || !sessionId) return;
+    // A hand-paused work phase is frozen
+    if (intervalPhase === 'work' && timerState !== 'running') return;
+    if (intervalPhase === 'break' && timerState !== 'paused') return;
+
+    const now = Date.now();
+    if (phaseEndsAt.getTime() > now) return;
+
+    let phase = intervalPhase;
+    let endsAt = phaseEndsAt.getTime();
+    let cycles = completedCycles;
+    let breakStartedAt =
+      phase === 'break' ? (currentBreakStartTime?.getTime() ?? endsAt) : 0;
+    let addedPauseMs = 0;
+    const finishedBreaks: number[] = [];
+    const events: StudySessionEvent[] = [];
+
+    while (endsAt <= now) {
+      if (phase === 'work') {
+        cycles += 1;
+        phase = 'break';
+        breakStartedAt = endsAt;
+        events.push({ type: 'pause', at: new Date(endsAt).toISOString() });
+        endsAt += getIntervalBreakMinutes(intervalPlan, cycles) * 60 * 1000;
+      } else {
+        addedPauseMs += endsAt - breakStartedAt;
+        finishedBreaks.push(Math.floor((endsAt - breakStartedAt) / 1000));
+        events.push({ type: 'resume', at: new Date(endsAt).toISOString() });
+        phase = 'work';
+        endsAt += intervalPlan.workMinutes * 60 * 1000;
+      }
+    }
+
+    console.log('Interval phase switched to', phase, 'after cycle', cycles);
+    setCompletedCycles(cycles);
+    setIntervalPhase(phase);
+    setPhaseEndsAt(new Date(endsAt));
+    setPausedDuration((prev) => prev + addedPauseMs);
+    setTotalBreakTimeSeconds(
+      (prev) => prev + finishedBreaks.reduce((sum, value) => sum + value, 0),
+    );
+    addTimelineEvents(events);
+    finishedBreaks.forEach((breakSeconds) => recordBreak(breakSeconds));
+
+    if (phase === 'break') {
+      setPauseStartTime(new Date(breakStartedAt));
+      setCurrentBreakStartTime(new Date(breakStartedAt));
+      setTimerState('paused');
+    } else {
       setPauseStartTime(null);
       setCurrentBreakStartTime(null);
       setTimerState('running');
@@ -421,12 +845,12 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
     const formattedTime = formatTime(elapsed);
 
     Alert.alert(
-      'Çalışma Seansını Bitir',
-      `${formattedTime} süre çalıştınız. Bu seansı sonlandırmak istiyor musunuz?`,
+      translate('chronometer.endTitle'),
+      translate('chronometer.endMessage', { time: formattedTime }),
       [
-        { text: 'İptal', style: 'cancel' },
+        { text: translate('common.cancel'), style: 'cancel' },
         {
-          text: 'Seansı Bitir',
+          text: translate('chronometer.endSession'),
           style: 'destructive',
           onPress: () => confirmStopTimer(),
         },
@@ -446,19 +870,15 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       // If currently paused, add the current break time to total break time
       let finalBreakTimeSeconds = totalBreakTimeSeconds;
       if (timerState === 'paused' && currentBreakStartTime) {
-        const currentBreakTime = calculateCurrentBreakTime();
-        finalBreakTimeSeconds += currentBreakTime;
-
-        // Add the break time to the session before ending
-        try {
-          await addBreakTime(sessionId, currentBreakTime);
-          console.log('Added final break time:', currentBreakTime);
-        } catch (breakError) {
-          console.error('Error adding final break time:', breakError);
-        }
+        finalBreakTimeSeconds += calculateCurrentBreakTime();
       }
 
-      const response = await endStudySession(sessionId, notes || undefined);
+      // The total covers breaks that never reached the server as well, so
+      // nothing is lost when the local state is reset below
+      const response = await endStudySession(sessionId, notes || undefined, {
+        endedAt: new Date().toISOString(),
+        breakDurationSeconds: finalBreakTimeSeconds,
+      });
       console.log('Study session ended:', response);
 
       // Reset all state
@@ -471,6 +891,17 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
       // Call completion callback if provided
       onComplete?.();
     } catch (error: any) {
+      if (isQueuedRequestError(error)) {
+        // Ended offline - the request is replayed once the device reconnects
+        resetSessionState();
+        setTimerState('idle');
+        Alert.alert(
+          translate('offline.queuedTitle'),
+          translate('offline.sessionQueued'),
+        );
+        onComplete?.();
+        return;
+      }
       console.error('Error ending study session:', error);
       setError(error.message || 'Failed to end study session');
       setTimerState('running');
@@ -573,12 +1004,114 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
   const elapsedTime = calculateElapsedTime();
   const currentBreakTime = calculateCurrentBreakTime();
   const totalBreakDisplay = totalBreakTimeSeconds + currentBreakTime;
+  const phaseRemainingSeconds = isIntervalFrozen
+    ? Math.floor((phaseRemainingMs ?? 0) / 1000)
+    : phaseEndsAt
+      ? Math.max(
+          0,
+          Math.ceil((phaseEndsAt.getTime() - currentTime.getTime()) / 1000),
+        )
+      : 0;
 
   // Check if tracking different course
   const isTrackingDifferentCourse =
     activeSession !== null &&
     selectedCourse?.course_id !== activeSession.courseId;
 
+  const adjustCustomMinutes = (
+    field: 'customWorkMinutes' | 'customBreakMinutes',
+    direction: -1 | 1,
+  ) => {
+    const limits =
+      field === 'customWorkMinutes'
+        ? CUSTOM_INTERVAL_LIMITS.work
+        : CUSTOM_INTERVAL_LIMITS.break;
+    const next = timerSettings[field] + direction * limits.step;
+    updateTimerSettings({
+      [field]: Math.min(limits.max, Math.max(limits.min, next)),
+    });
+  };
+
+  // Interval mode chips (and custom lengths) shown before a session starts
+  const renderIntervalModePicker = () => (
+    <View style={styles.modePicker}>
+      <View style={styles.modeRow}>
+        {STUDY_INTERVAL_MODES.map((mode) => {
+          const isSelected = timerSettings.intervalMode === mode;
+          return (
+            <TouchableOpacity
+              key={mode}
+              style={[
+                styles.modeChip,
+                { borderColor: variantStyles.iconColor },
+                isSelected && { backgroundColor: variantStyles.iconColor },
+              ]}
+              onPress={() => updateTimerSettings({ intervalMode: mode })}
+              testID={`${testID}-mode-${mode}`}
+            >
+              <Text
+                style={[
+                  styles.modeChipText,
+                  {
+                    color: isSelected
+                      ? Colors.gray[900]
+                      : variantStyles.textColor,
+                  },
+                ]}
+              >
+                {translate(`chronometer.modes.${mode}`)}
+              </Text>
+            </TouchableOpacity>
+          );
+        })}
+      </View>
+
+      {timerSettings.intervalMode === 'custom' && (
+        <View style={styles.customRow}>
+          {(['customWorkMinutes', 'customBreakMinutes'] as const).map(
+            (field) => (
+              <View key={field} style={styles.customField}>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => adjustCustomMinutes(field, -1)}
+                >
+                  <FontAwesome
+                    name='minus'
+                    size={10}
+                    color={variantStyles.iconColor}
+                  />
+                </TouchableOpacity>
+                <Text
+                  style={[
+                    styles.customText,
+                    { color: variantStyles.textColor },
+                  ]}
+                >
+                  {translate(
+                    field === 'customWorkMinutes'
+                      ? 'chronometer.customWork'
+                      : 'chronometer.customBreak',
+                    { minutes: timerSettings[field] },
+                  )}
+                </Text>
+                <TouchableOpacity
+                  style={styles.stepButton}
+                  onPress={() => adjustCustomMinutes(field, 1)}
+                >
+                  <FontAwesome
+                    name='plus'
+                    size={10}
+                    color={variantStyles.iconColor}
+                  />
+                </TouchableOpacity>
+              </View>
+            ),
+          )}
+        </View>
+      )}
+    </View>
+  );
+
   // Main render function
   const renderContent = () => (
     <View style={[styles.container, { maxWidth: maxWidth as DimensionValue }]}>
@@ -636,6 +1169,23 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
           </Text>
         )}
 
+        {/* Interval Phase Display */}
+        {intervalPlan && intervalPhase && (
+          <Text
+            style={[styles.phaseDisplay, { color: variantStyles.textColor }]}
+          >
+            {translate('chronometer.phaseRemaining', {
+              phase: translate(
+                intervalPhase === 'work'
+                  ? 'chronometer.workPhase'
+                  : 'chronometer.breakPhase',
+              ),
+              time: formatTime(phaseRemainingSeconds),
+              cycle: completedCycles + (intervalPhase === 'work' ? 1 : 0),
+            })}
+          </Text>
+        )}
+
         <View style={styles.statusRow}>
           {timerState === 'loading' ? (
             <ActivityIndicator size='small' color={variantStyles.iconColor} />
@@ -670,23 +1220,26 @@ const StudyChronometer: React.FC<StudyChronometerProps> = ({
             </Text>
           </View>
         ) : timerState === 'idle' ? (
-          <TouchableOpacity
-            style={[
-              styles.primaryButton,
-              {
-                backgroundColor: variantStyles.iconColor,
-                opacity: selectedCourse ? 1 : 0.5,
-              },
-            ]}
-            onPress={handleStartTimer}
-            disabled={disabled || timerState !== 'idle' || !selectedCourse}
-            testID={`${testID}-start-button`}
-          >
-            <FontAwesome name='play' size={16} color={Colors.gray[900]} />
-            <Text style={[styles.buttonText, { color: Colors.gray[900] }]}>
-              {isTrackingDifferentCourse ? 'Farklı Kurs Başlat' : 'Başlat'}
-            </Text>
-          </TouchableOpacity>
+          <>
+            {renderIntervalModePicker()}
+            <TouchableOpacity
+              style={[
+                styles.primaryButton,
+                {
+                  backgroundColor: variantStyles.iconColor,
+                  opacity: selectedCourse ? 1 : 0.5,
+                },
+              ]}
+              onPress={handleStartTimer}
+              disabled={disabled || timerState !== 'idle' || !selectedCourse}
+              testID={`${testID}-start-button`}
+            >
+              <FontAwesome name='play' size={16} color={Colors.gray[900]} />
+              <Text style={[styles.buttonText, { color: Colors.gray[900] }]}>
+                {isTrackingDifferentCourse ? 'Farklı Kurs Başlat' : 'Başlat'}
+              </Text>
+            </TouchableOpacity>
+          </>
         ) : (
           <View style={styles.activeControls}>
             <TouchableOpacity
@@ -825,6 +1378,12 @@ const styles = StyleSheet.create({
     opacity: 0.8,
     marginTop: Spacing[1],
   },
+  phaseDisplay: {
+    fontSize: FontSizes.sm,
+    fontFamily: 'SecondaryFont-Bold',
+    textAlign: 'center',
+    marginTop: Spacing[1],
+  },
   statusRow: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -840,6 +1399,49 @@ const styles = StyleSheet.create({
   },
   // Controls
   controls: {},
+  modePicker: {
+    marginBottom: Spacing[3],
+  },
+  modeRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing[2],
+  },
+  modeChip: {
+    paddingHorizontal: Spacing[3],
+    paddingVertical: Spacing[1],
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  modeChipText: {
+    fontSize: FontSizes.xs,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  customRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'center',
+    gap: Spacing[3],
+    marginTop: Spacing[2],
+  },
+  customField: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    gap: Spacing[1],
+  },
+  customText: {
+    fontSize: FontSizes.xs,
+    fontFamily: 'SecondaryFont-Regular',
+  },
+  stepButton: {
+    width: 24,
+    height: 24,
+    borderRadius: 12,
+    alignItems: 'center',
+    justifyContent: 'center',
+    backgroundColor: 'rgba(255, 255, 255, 0.15)',
+  },
   noCourseContainer: {
     alignItems: 'center',
     padding: Spacing[4],
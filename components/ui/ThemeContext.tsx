@@ -2,7 +2,7 @@
 
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import { useColorScheme } from 'react-native';
-import { Colors } from '../../constants/theme';
+import { Colors, ThemePalettes } from '../../constants/theme';
 
 type ThemeType = 'light' | 'dark';
 
@@ -111,13 +111,14 @@ export const ThemeProvider: React.FC<ThemeProviderProps> = ({
   };
 
   // Define colors based on current theme
+  const palette = ThemePalettes[theme];
   const colors = {
-    background: isDark ? Colors.white : Colors.white,
-    text: isDark ? Colors.gray[900] : Colors.gray[900],
+    background: palette.background,
+    text: palette.text,
     primary: Colors.primary.DEFAULT,
     secondary: Colors.secondary.DEFAULT,
-    border: isDark ? Colors.gray[200] : Colors.gray[200],
-    card: isDark ? Colors.white : Colors.white,
+    border: palette.border,
+    card: palette.surface,
     error: Colors.error,
     success: Colors.success,
     warning: Colors.warning,
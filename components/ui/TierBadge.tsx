@@ -0,0 +1,117 @@
+// components/ui/TierBadge.tsx
+
+import React from 'react';
+import { View, Text, StyleSheet, StyleProp, ViewStyle } from 'react-native';
+import { FontAwesome } from '@expo/vector-icons';
+import { Colors, Spacing, BorderRadius } from '../../constants/theme';
+import { useTranslation } from '../../src/hooks/useTranslation';
+import { ratingHelpers } from '../../src/hooks/useRatingData';
+import type { RankedTier } from '../../src/types/models';
+
+export interface TierBadgeProps {
+  /**
+   * Elo rating the tier is derived from
+   */
+  rating: number;
+
+  /**
+   * Rated duels played; below the provisional threshold the tier is
+   * marked as provisional
+   */
+  gamesPlayed?: number;
+
+  /**
+   * Show the rating number next to the tier name
+   */
+  showRating?: boolean;
+
+  /**
+   * Size of the badge
+   */
+  size?: 'sm' | 'md';
+
+  /**
+   * Custom style for the badge container
+   */
+  style?: StyleProp<ViewStyle>;
+
+  /**
+   * Test ID for testing
+   */
+  testID?: string;
+}
+
+const TIER_COLORS: Record<RankedTier, string> = {
+  bronze: '#CD7F32',
+  silver: '#A0AEC0',
+  gold: '#F5B700',
+  platinum: '#38B2AC',
+  diamond: '#4299E1',
+  master: Colors.vibrant.purple,
+};
+
+/**
+ * TierBadge shows the ranked tier (and optionally the rating) for a player.
+ */
+const TierBadge: React.FC<TierBadgeProps> = ({
+  rating,
+  gamesPlayed,
+  showRating = false,
+  size = 'sm',
+  style,
+  testID,
+}) => {
+  const { t } = useTranslation();
+  const tierInfo = ratingHelpers.getTier(rating);
+  const color = TIER_COLORS[tierInfo.tier];
+  const isProvisional =
+    gamesPlayed !== undefined && ratingHelpers.isProvisional(gamesPlayed);
+
+  return (
+    <View
+      style={[
+        styles.badge,
+        size === 'md' && styles.badgeMd,
+        { borderColor: color, backgroundColor: `${color}22` },
+        style,
+      ]}
+      testID={testID}
+    >
+      <FontAwesome name='shield' size={size === 'md' ? 14 : 11} color={color} />
+      <Text
+        style={[styles.text, size === 'md' && styles.textMd, { color }]}
+        numberOfLines={1}
+      >
+        {t(tierInfo.labelKey)}
+        {isProvisional ? '?' : ''}
+        {showRating ? ` · ${rating}` : ''}
+      </Text>
+    </View>
+  );
+};
+
+const styles = StyleSheet.create({
+  badge: {
+    flexDirection: 'row',
+    alignItems: 'center',
+    alignSelf: 'flex-start',
+    gap: Spacing[1],
+    paddingHorizontal: Spacing[2],
+    paddingVertical: 2,
+    borderRadius: BorderRadius.full,
+    borderWidth: 1,
+  },
+  badgeMd: {
+    paddingHorizontal: Spacing[3],
+    paddingVertical: Spacing[1],
+  },
+  text: {
+    fontSize: 11,
+    fontFamily: 'SecondaryFont-Bold',
+  },
+  textMd: {
+    fontSize: 13,
+  },
+});
+
+export default TierBadge;
@@ -1,15 +1,10 @@
 // components/ui/Typography/Paragraph.tsx
 
 import React from 'react';
-import {
-  Text,
-  StyleSheet,
-  useColorScheme,
-  StyleProp,
-  TextStyle,
-} from 'react-native';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
 import { ParagraphProps } from '../types';
 import { Colors, FontSizes } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 /**
  * Paragraph component for text content
@@ -23,8 +18,7 @@ const Paragraph: React.FC<ParagraphProps> = ({
   numberOfLines,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   // Determine font size based on size prop
   let fontSize: number;
@@ -45,7 +39,7 @@ const Paragraph: React.FC<ParagraphProps> = ({
     {
       fontSize,
       textAlign: align,
-      color: color || (isDark ? Colors.gray[700] : Colors.gray[700]),
+      color: color || (isDark ? colors.textSecondary : Colors.gray[700]),
     },
     style,
   ];
@@ -1,15 +1,10 @@
 // components/ui/Typography/PlayfulTitle.tsx
 import React, { useRef, useEffect } from 'react';
-import {
-  Text,
-  StyleSheet,
-  Animated,
-  Easing,
-  useColorScheme,
-} from 'react-native';
+import { Text, StyleSheet, Animated, Easing } from 'react-native';
 import { PlayfulTitleProps } from '../types';
 import { Colors, FontSizes, FontWeights } from '../../../constants/theme';
 import { toAnimatedStyle } from '../../../utils/styleTypes';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
   children,
@@ -29,8 +24,7 @@ const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
   fontFamily,
   ...props
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
   const bounceAnimation = useRef(new Animated.Value(0)).current;
   const wiggleAnimation = useRef(new Animated.Value(0)).current;
   const fadeAnimation = useRef(new Animated.Value(0)).current;
@@ -142,8 +136,7 @@ const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
 
   const getVariantStyles = () => {
     // Default color based on theme if not provided
-    const defaultColor =
-      color || (isDark ? Colors.gray[800] : Colors.gray[800]);
+    const defaultColor = color || (isDark ? colors.text : Colors.gray[800]);
 
     switch (variant) {
       case 'bouncy':
@@ -156,10 +149,10 @@ const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
       case 'gradient':
         return {
           color: isDark
-            ? Colors.vibrant?.blue || Colors.primary.DEFAULT
+            ? Colors.vibrant?.blueLight || Colors.primary.light
             : Colors.vibrant?.blue || Colors.primary.DEFAULT,
           textShadowColor: isDark
-            ? 'rgba(55, 66, 250, 0.3)'
+            ? 'rgba(83, 82, 237, 0.45)'
             : 'rgba(55, 66, 250, 0.3)',
           textShadowOffset: { width: 0, height: 2 },
           textShadowRadius: 6,
@@ -169,7 +162,7 @@ const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
           color: defaultColor,
           textShadowColor:
             shadowColor ||
-            (isDark ? 'rgba(0, 0, 0, 0.3)' : 'rgba(0, 0, 0, 0.3)'),
+            (isDark ? 'rgba(0, 0, 0, 0.6)' : 'rgba(0, 0, 0, 0.3)'),
           textShadowOffset: { width: 2, height: 2 },
           textShadowRadius: 4,
         };
@@ -177,14 +170,14 @@ const PlayfulTitle: React.FC<PlayfulTitleProps> = ({
         return {
           color: defaultColor,
           textShadowColor:
-            outlineColor || (isDark ? Colors.white : Colors.white),
+            outlineColor || (isDark ? colors.background : Colors.white),
           textShadowOffset: { width: 1, height: 1 },
           textShadowRadius: 0,
         };
       case 'playful':
         return {
           color: isDark
-            ? Colors.vibrant?.orange || Colors.secondary.DEFAULT
+            ? Colors.vibrant?.orangeLight || Colors.secondary.light
             : Colors.vibrant?.orange || Colors.secondary.DEFAULT,
           textShadowColor: 'rgba(255, 107, 107, 0.4)',
           textShadowOffset: { width: 0, height: 3 },
@@ -1,15 +1,10 @@
 // components/ui/Typography/Title.tsx
 
 import React from 'react';
-import {
-  Text,
-  StyleSheet,
-  useColorScheme,
-  StyleProp,
-  TextStyle,
-} from 'react-native';
+import { Text, StyleSheet, StyleProp, TextStyle } from 'react-native';
 import { TitleProps } from '../types';
 import { Colors, FontSizes } from '../../../constants/theme';
+import { useThemeColors } from '../hooks/useThemeColors';
 
 /**
  * Title component for headings with different levels (h1-h6)
@@ -23,8 +18,7 @@ const Title: React.FC<TitleProps> = ({
   numberOfLines,
   testID,
 }) => {
-  const colorScheme = useColorScheme();
-  const isDark = colorScheme === 'dark';
+  const { colors, isDark } = useThemeColors();
 
   // Determine font size based on heading level
   let fontSize: number;
@@ -71,7 +65,7 @@ const Title: React.FC<TitleProps> = ({
       fontWeight,
       marginBottom,
       textAlign: align,
-      color: color || (isDark ? Colors.gray[900] : Colors.gray[900]),
+      color: color || (isDark ? colors.text : Colors.gray[900]),
     },
     style,
   ];
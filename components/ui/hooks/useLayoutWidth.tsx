@@ -0,0 +1,27 @@
+// components/ui/hooks/useLayoutWidth.ts
+import { useCallback, useState } from 'react';
+import { LayoutChangeEvent } from 'react-native';
+
+// Width of a view once it has been laid out; charts size their SVG from it
+// unless an explicit width is passed in
+export const useLayoutWidth = (fixedWidth?: number) => {
+  const [measuredWidth, setMeasuredWidth] = useState(0);
+
+  const onLayout = useCallback(
+    (event: LayoutChangeEvent) => {
+      if (fixedWidth !== undefined) return;
+      const nextWidth = Math.floor(event.nativeEvent.layout.width);
+      setMeasuredWidth((current) =>
+        current === nextWidth ? current : nextWidth,
+      );
+    },
+    [fixedWidth],
+  );
+
+  return {
+    width: fixedWidth ?? measuredWidth,
+    onLayout,
+  };
+};
+
+export default useLayoutWidth;
@@ -0,0 +1,20 @@
+// components/ui/hooks/useThemeColors.ts
+import { useMemo } from 'react';
+import { useAppStore } from '../../../stores/appStore';
+import { ThemePalettes } from '../../../constants/theme';
+
+// Semantic colors for the active scheme (the user's choice or the device's)
+export const useThemeColors = () => {
+  const scheme = useAppStore((state) => state.theme);
+
+  return useMemo(
+    () => ({
+      colors: ThemePalettes[scheme],
+      isDark: scheme === 'dark',
+      scheme,
+    }),
+    [scheme],
+  );
+};
+
+export default useThemeColors;
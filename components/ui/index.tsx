@@ -47,6 +47,13 @@ export { default as AnimatedCounter } from './AnimatedCounter';
 export { default as Input } from './Input';
 export { default as Checkbox } from './Checkbox';
 export { default as Picker } from './Picker';
+export { default as DateRangePicker } from './DateRangePicker';
+
+// Chart Components
+export { default as LineChart } from './Charts/LineChart';
+export { default as BarChart } from './Charts/BarChart';
+export { default as DonutChart } from './Charts/DonutChart';
+export { default as CalendarHeatmap } from './Charts/CalendarHeatmap';
 
 // Typography Components
 export { default as Title } from './Typography/Title';
@@ -98,6 +105,10 @@ export { default as NotificationItem } from './NotificationItem';
 
 export { default as StudyChronometer } from './StudyChronometer';
 export { default as CourseSelectionModal } from './CourseSelectionModal';
+export { default as BookmarkButton } from './BookmarkButton';
+export { default as OfflineBanner } from './OfflineBanner';
+export { default as PremiumGate } from './PremiumGate';
+export { default as TierBadge } from './TierBadge';
 
 // NEW: Game-Specific Components
 export { default as QuestionDisplay } from './Game/QuestionDisplay';
@@ -122,6 +133,14 @@ export {
   AnimationConfig,
   CommonStyles,
   StyleHelpers,
+  LightColors,
+  DarkColors,
+  ThemePalettes,
+} from '../../constants/theme';
+export type {
+  ThemeColors,
+  ColorScheme,
+  ThemePreference,
 } from '../../constants/theme';
 
 // NEW: Gradient Component Wrapper
@@ -132,6 +151,8 @@ export { useAnimatedValue } from './hooks/useAnimatedValue';
 export { useSpringAnimation } from './hooks/useSpringAnimation';
 export { usePulseAnimation } from './hooks/usePulseAnimation';
 export { useSlideAnimation } from './hooks/useSlideAnimation';
+export { useThemeColors } from './hooks/useThemeColors';
+export { useLayoutWidth } from './hooks/useLayoutWidth';
 
 // Type definitions for component props
 export type {
@@ -209,6 +230,17 @@ export type {
   PlayfulTitleProps,
   GradientTextProps,
   SpinningWheelProps,
+
+  // Chart types
+  ChartDatum,
+  HeatmapDatum,
+  LineChartProps,
+  BarChartProps,
+  DonutChartProps,
+  CalendarHeatmapProps,
+  DateRange,
+  DateRangePreset,
+  DateRangePickerProps,
 } from './types';
 
 // NEW: Utility function exports
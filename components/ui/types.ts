@@ -575,6 +575,8 @@ export interface ExamCardProps {
 export interface ProfileHeaderProps {
   name: string;
   avatar?: string;
+  rating?: number;
+  ratedGames?: number;
   stats?: Array<{ label: string; value: string | number }>;
   onAvatarPress?: () => void;
   onEditPress?: () => void;
@@ -618,6 +620,8 @@ export interface Opponent {
   wins?: number;
   losses?: number;
   winRate?: number;
+  rating?: number;
+  ratedGames?: number;
 }
 
 // Enhanced OpponentListItem component props
@@ -761,6 +765,9 @@ export interface LeaderboardCardProps {
   rank: number;
   name: string;
   score: number;
+  // When set, score is shown as a rating with the player's ranked tier
+  rating?: number;
+  ratedGames?: number;
   avatar?: string;
   isCurrentUser?: boolean;
   variant?: 'default' | 'podium' | 'compact';
@@ -869,3 +876,83 @@ export interface NotificationItemProps {
   onDelete?: (notificationId: number) => void;
   style?: ViewStyle;
 }
+
+// Chart types
+export interface ChartDatum {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+export interface HeatmapDatum {
+  date: string; // YYYY-MM-DD
+  value: number;
+}
+
+export interface LineChartProps {
+  data: ChartDatum[];
+  width?: number; // defaults to the container width
+  height?: number;
+  color?: string;
+  showArea?: boolean;
+  showDots?: boolean;
+  formatValue?: (value: number) => string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+export interface BarChartProps {
+  data: ChartDatum[];
+  width?: number; // defaults to the container width
+  height?: number;
+  color?: string;
+  showValues?: boolean;
+  formatValue?: (value: number) => string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+export interface DonutChartProps {
+  data: ChartDatum[];
+  size?: number;
+  thickness?: number;
+  centerValue?: string;
+  centerLabel?: string;
+  showLegend?: boolean;
+  formatValue?: (value: number) => string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+export interface CalendarHeatmapProps {
+  data: HeatmapDatum[];
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  width?: number; // defaults to the container width
+  color?: string;
+  formatValue?: (value: number) => string;
+  onDayPress?: (day: HeatmapDatum) => void;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
+
+export interface DateRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+export interface DateRangePreset {
+  key: string;
+  label: string;
+  days: number;
+}
+
+export interface DateRangePickerProps {
+  value: DateRange;
+  onChange: (range: DateRange) => void;
+  presets: DateRangePreset[];
+  maxDate?: string; // YYYY-MM-DD, defaults to today
+  color?: string;
+  style?: StyleProp<ViewStyle>;
+  testID?: string;
+}
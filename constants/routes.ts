@@ -0,0 +1,258 @@
+// constants/routes.ts - Typed registry of every screen under app/
+import type { Href } from 'expo-router';
+
+/**
+ * Every navigable screen, keyed by name. Patterns mirror the file layout
+ * under app/; `[param]` segments are filled in by buildRoute.
+ */
+export const ROUTE_TABLE = {
+  home: '/(tabs)',
+  courseDetail: '/(tabs)/courses/[id]',
+  login: '/(auth)/login',
+  register: '/(auth)/register',
+  forgotPassword: '/(auth)/forgot-password',
+  duels: '/(tabs)/duels',
+  newDuel: '/(tabs)/duels/new',
+  duelHistory: '/(tabs)/duels/history',
+  duel: '/(tabs)/duels/[id]',
+  duelReplay: '/(tabs)/duels/replay/[id]',
+  asyncDuel: '/(tabs)/duels/async/[id]',
+  tournaments: '/(tabs)/duels/tournaments',
+  tournament: '/(tabs)/duels/tournaments/[id]',
+  botPractice: '/(tabs)/duels/bots',
+  tests: '/(tabs)/tests',
+  test: '/(tabs)/tests/[id]',
+  plans: '/(tabs)/plans',
+  newPlan: '/(tabs)/plans/new',
+  review: '/(tabs)/review',
+  bookmarks: '/(tabs)/bookmarks',
+  subscription: '/(tabs)/subscription',
+  coaching: '/(tabs)/coaching',
+  analytics: '/(tabs)/analytics',
+  notifications: '/(tabs)/notifications',
+  notificationSettings: '/(tabs)/notifications/settings',
+  profile: '/(tabs)/profile',
+  achievements: '/(tabs)/profile/achievements',
+  friends: '/(tabs)/profile/friends',
+  changePassword: '/(tabs)/profile/change-password',
+  examDates: '/(tabs)/profile/exam-dates',
+  studySessions: '/(tabs)/profile/study-sessions',
+} as const;
+
+export type RouteName = keyof typeof ROUTE_TABLE;
+
+type ParamsOf<Pattern extends string> =
+  Pattern extends `${string}[${infer Key}]${infer Rest}`
+    ? { [K in Key]: string | number } & ParamsOf<Rest>
+    : {};
+
+export type RouteParams<N extends RouteName> = ParamsOf<
+  (typeof ROUTE_TABLE)[N]
+>;
+
+export type RouteQuery = Record<
+  string,
+  string | number | boolean | null | undefined
+>;
+
+// Routes with `[param]` segments require their params; the rest only take a query
+type RouteArgs<N extends RouteName> = keyof RouteParams<N> extends never
+  ? [query?: RouteQuery]
+  : [params: RouteParams<N>, query?: RouteQuery];
+
+export interface ResolvedRoute {
+  name: RouteName;
+  params: Record<string, string>;
+  query: Record<string, string>;
+  href: Href;
+  // URL form without route groups, as used by deep links
+  path: string;
+}
+
+/**
+ * Paths the backend (notification action_url values) and older app versions
+ * still send, mapped onto the screen that replaced them
+ */
+const LEGACY_ROUTE_ALIASES: Array<{
+  pattern: string;
+  resolve: (params: Record<string, string>) => {
+    name: RouteName;
+    params?: Record<string, string>;
+    query?: Record<string, string>;
+  };
+}> = [
+  { pattern: '/achievements', resolve: () => ({ name: 'achievements' }) },
+  { pattern: '/friends', resolve: () => ({ name: 'friends' }) },
+  {
+    pattern: '/profile/achievement/[id]',
+    resolve: ({ id }) => ({ name: 'achievements', query: { id } }),
+  },
+  { pattern: '/profile/friends/[id]', resolve: () => ({ name: 'friends' }) },
+  { pattern: '/courses', resolve: () => ({ name: 'home' }) },
+  { pattern: '/study', resolve: () => ({ name: 'home' }) },
+  { pattern: '/study/plan', resolve: () => ({ name: 'plans' }) },
+  { pattern: '/study/plan/[id]', resolve: () => ({ name: 'plans' }) },
+  { pattern: '/content/[id]', resolve: () => ({ name: 'tests' }) },
+  { pattern: '/settings', resolve: () => ({ name: 'profile' }) },
+  { pattern: '/profile/settings', resolve: () => ({ name: 'profile' }) },
+  { pattern: '/change-password', resolve: () => ({ name: 'changePassword' }) },
+  {
+    pattern: '/duels/[id]/result',
+    resolve: ({ id }) => ({ name: 'duel', params: { id } }),
+  },
+  {
+    pattern: '/coaching/[id]',
+    resolve: ({ id }) => ({ name: 'coaching', query: { noteId: id } }),
+  },
+];
+
+const encodeQuery = (query?: RouteQuery): string => {
+  if (!query) return '';
+  const pairs = Object.entries(query)
+    .filter(([, value]) => value !== undefined && value !== null)
+    .map(
+      ([key, value]) =>
+        `${encodeURIComponent(key)}=${encodeURIComponent(String(value))}`,
+    );
+  return pairs.length > 0 ? `?${pairs.join('&')}` : '';
+};
+
+const fillPattern = (
+  pattern: string,
+  params: Record<string, string | number> = {},
+): string =>
+  pattern.replace(/\[(\w+)\]/g, (_match, key) =>
+    encodeURIComponent(String(params[key])),
+  );
+
+/**
+ * Build a registered route, e.g. buildRoute('duel', { id: 12 }) or
+ * buildRoute('coaching', { tab: 'messages' })
+ */
+export function buildRoute<N extends RouteName>(
+  name: N,
+  ...args: RouteArgs<N>
+): Href {
+  const pattern: string = ROUTE_TABLE[name];
+  const hasParams = pattern.includes('[');
+  const params = (hasParams ? args[0] : undefined) as
+    Record<string, string | number> | undefined;
+  const query = (hasParams ? args[1] : args[0]) as RouteQuery | undefined;
+
+  return `${fillPattern(pattern, params)}${encodeQuery(query)}` as Href;
+}
+
+// Route groups like (tabs) never appear in URLs, so patterns are compared
+// without them
+const toSegments = (path: string): string[] =>
+  path.split('/').filter((segment) => segment && !/^\(.*\)$/.test(segment));
+
+const matchPattern = (
+  pattern: string,
+  segments: string[],
+): Record<string, string> | null => {
+  const patternSegments = toSegments(pattern);
+  if (patternSegments.length !== segments.length) return null;
+
+  const params: Record<string, string> = {};
+  for (let i = 0; i < patternSegments.length; i++) {
+    const dynamic = patternSegments[i].match(/^\[(\w+)\]$/);
+    if (dynamic) {
+      params[dynamic[1]] = decodeURIComponent(segments[i]);
+    } else if (patternSegments[i] !== segments[i]) {
+      return null;
+    }
+  }
+  return params;
+};
+
+// Static patterns win over dynamic ones (duels/new before duels/[id])
+const ROUTE_ENTRIES = (Object.keys(ROUTE_TABLE) as RouteName[]).sort(
+  (a, b) =>
+    (ROUTE_TABLE[a].match(/\[/g)?.length ?? 0) -
+    (ROUTE_TABLE[b].match(/\[/g)?.length ?? 0),
+);
+
+const parseUrl = (
+  url: string,
+): { segments: string[]; query: Record<string, string> } => {
+  // Drop scheme and host from full links (dus-app://duels/5, https://.../duels/5)
+  let path = url.trim();
+  const schemeMatch = path.match(/^([a-z][a-z0-9+.-]*):\/\/(.*)$/i);
+  if (schemeMatch) {
+    path = schemeMatch[2];
+    if (/^https?$/i.test(schemeMatch[1])) {
+      const slashIndex = path.indexOf('/');
+      path = slashIndex >= 0 ? path.slice(slashIndex) : '/';
+    }
+    path = `/${path.replace(/^\/+/, '')}`;
+  }
+  // Expo dev client links carry the route after `/--/`
+  const devIndex = path.indexOf('/--/');
+  if (devIndex >= 0) path = path.slice(devIndex + 3);
+
+  const [pathPart, queryPart = ''] = path.split('#')[0].split('?');
+  const query: Record<string, string> = {};
+  queryPart
+    .split('&')
+    .filter(Boolean)
+    .forEach((pair) => {
+      const [key, value = ''] = pair.split('=');
+      query[decodeURIComponent(key)] = decodeURIComponent(value);
+    });
+
+  return { segments: toSegments(pathPart), query };
+};
+
+const toResolvedRoute = (
+  name: RouteName,
+  params: Record<string, string>,
+  query: Record<string, string>,
+): ResolvedRoute => {
+  const filled = fillPattern(ROUTE_TABLE[name], params);
+  const search = encodeQuery(query);
+  return {
+    name,
+    params,
+    query,
+    href: `${filled}${search}` as Href,
+    path: `/${toSegments(filled).join('/')}${search}`,
+  };
+};
+
+/**
+ * Validate an arbitrary path or deep link against the registry. Returns the
+ * matching screen, or null when nothing under app/ can render it.
+ */
+export function resolveRoute(
+  url: string | null | undefined,
+): ResolvedRoute | null {
+  if (!url) return null;
+
+  try {
+    const { segments, query } = parseUrl(url);
+
+    for (const name of ROUTE_ENTRIES) {
+      const params = matchPattern(ROUTE_TABLE[name], segments);
+      if (params) return toResolvedRoute(name, params, query);
+    }
+
+    for (const alias of LEGACY_ROUTE_ALIASES) {
+      const aliasParams = matchPattern(alias.pattern, segments);
+      if (aliasParams) {
+        const target = alias.resolve(aliasParams);
+        return toResolvedRoute(target.name, target.params ?? {}, {
+          ...query,
+          ...target.query,
+        });
+      }
+    }
+  } catch (error) {
+    console.warn('Failed to resolve route:', url, error);
+  }
+
+  return null;
+}
+
+export const isKnownRoute = (url: string | null | undefined): boolean =>
+  resolveRoute(url) !== null;
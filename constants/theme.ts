@@ -111,6 +111,131 @@ export const Colors = {
   transparent: 'transparent',
 };
 
+// Semantic color tokens resolved per color scheme. Components read these
+// through useThemeColors() instead of hard-coding light values.
+export type ColorScheme = 'light' | 'dark';
+export type ThemePreference = 'system' | ColorScheme;
+
+export interface ThemeColors {
+  // Surfaces
+  background: string;
+  backgroundOverlay: string;
+  surface: string;
+  surfaceTranslucent: string;
+  surfaceMuted: string;
+  glass: string;
+  glassBorder: string;
+  border: string;
+  divider: string;
+  overlay: string;
+  shadow: string;
+
+  // Text and icons
+  text: string;
+  textSecondary: string;
+  textMuted: string;
+  textInverse: string;
+  placeholder: string;
+  icon: string;
+
+  // Brand and status
+  primary: string;
+  primaryMuted: string;
+  secondary: string;
+  success: string;
+  successSurface: string;
+  error: string;
+  errorSurface: string;
+  warning: string;
+  warningSurface: string;
+  info: string;
+  infoSurface: string;
+
+  // Navigation
+  tabBar: string;
+  tabBarBorder: string;
+  tabIconInactive: string;
+}
+
+export const LightColors: ThemeColors = {
+  background: Colors.gray[50],
+  backgroundOverlay: 'transparent',
+  surface: Colors.white,
+  surfaceTranslucent: 'rgba(255,255,255,0.95)',
+  surfaceMuted: Colors.gray[100],
+  glass: 'rgba(255, 255, 255, 0.15)',
+  glassBorder: 'rgba(255, 255, 255, 0.3)',
+  border: Colors.gray[200],
+  divider: Colors.gray[100],
+  overlay: 'rgba(0, 0, 0, 0.5)',
+  shadow: Colors.black,
+
+  text: Colors.gray[900],
+  textSecondary: Colors.gray[700],
+  textMuted: Colors.gray[500],
+  textInverse: Colors.white,
+  placeholder: Colors.gray[400],
+  icon: Colors.gray[600],
+
+  primary: Colors.vibrant.purple,
+  primaryMuted: Colors.vibrant.purpleLight,
+  secondary: Colors.vibrant.orange,
+  success: Colors.vibrant.green,
+  successSurface: 'rgba(33, 185, 88, 0.1)',
+  error: Colors.semantic.error,
+  errorSurface: 'rgba(236, 28, 36, 0.1)',
+  warning: Colors.vibrant.yellow,
+  warningSurface: 'rgba(251, 208, 0, 0.1)',
+  info: Colors.vibrant.blue,
+  infoSurface: 'rgba(0, 183, 239, 0.1)',
+
+  tabBar: Colors.white,
+  tabBarBorder: Colors.white,
+  tabIconInactive: Colors.gray[500],
+};
+
+export const DarkColors: ThemeColors = {
+  background: '#0F1021',
+  backgroundOverlay: 'rgba(8, 8, 20, 0.55)',
+  surface: '#1C1D33',
+  surfaceTranslucent: 'rgba(28, 29, 51, 0.95)',
+  surfaceMuted: '#26283F',
+  glass: 'rgba(255, 255, 255, 0.08)',
+  glassBorder: 'rgba(255, 255, 255, 0.18)',
+  border: '#34364F',
+  divider: '#2A2C44',
+  overlay: 'rgba(0, 0, 0, 0.7)',
+  shadow: Colors.black,
+
+  text: Colors.gray[50],
+  textSecondary: Colors.gray[300],
+  textMuted: Colors.gray[400],
+  textInverse: Colors.gray[900],
+  placeholder: Colors.gray[500],
+  icon: Colors.gray[300],
+
+  primary: Colors.vibrant.purpleLight,
+  primaryMuted: Colors.vibrant.purpleDark,
+  secondary: Colors.vibrant.orangeLight,
+  success: Colors.vibrant.greenLight,
+  successSurface: 'rgba(0, 214, 143, 0.16)',
+  error: Colors.vibrant.orangeLight,
+  errorSurface: 'rgba(255, 56, 56, 0.16)',
+  warning: Colors.vibrant.yellowLight,
+  warningSurface: 'rgba(255, 217, 61, 0.16)',
+  info: Colors.vibrant.purpleLight,
+  infoSurface: 'rgba(83, 82, 237, 0.18)',
+
+  tabBar: '#15162A',
+  tabBarBorder: '#2A2C44',
+  tabIconInactive: Colors.gray[400],
+};
+
+export const ThemePalettes: Record<ColorScheme, ThemeColors> = {
+  light: LightColors,
+  dark: DarkColors,
+};
+
 export const FontSizes = {
   xs: 12,
   sm: 14,
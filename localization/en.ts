@@ -1,5 +1,7 @@
 // localization/en.ts
-export default {
+import type { Translations } from '.';
+
+const en: Translations = {
   common: {
     loading: 'Loading...',
     error: 'Error',
@@ -9,6 +11,18 @@ export default {
     delete: 'Delete',
     edit: 'Edit',
     submit: 'Submit',
+    success: 'Success',
+    refreshing: 'Refreshing...',
+    refreshFailed: 'Refresh failed.',
+    somethingWentWrong: 'Something Went Wrong',
+    dataLoadError: 'An error occurred while loading data.',
+    daysCount: '%{count} days',
+    tryAgain: 'Try Again',
+    yes: 'Yes',
+    ok: 'OK',
+    all: 'All',
+    loginRequired: 'Sign In Required',
+    quickActions: 'Quick Actions',
   },
   auth: {
     login: 'Login',
@@ -35,6 +49,86 @@ export default {
     loginError: 'Failed to login',
     registerError: 'Failed to register',
     logoutError: 'Failed to logout',
+    appTagline: 'Pass your dentistry exams with confidence',
+    quickLogin: 'Quick Sign In',
+    quickSignUp: 'Quick Sign Up',
+    signingIn: 'Signing in...',
+    signingUp: 'Signing up...',
+    orContinueWithEmail: 'or continue with email',
+    orSignUpWithEmail: 'or create an account with email',
+    emailPlaceholder: 'Enter your email address',
+    passwordPlaceholder: 'Enter your password',
+    usernamePlaceholder: 'Enter your username (at least 3 characters)',
+    newPasswordPlaceholder: 'Create a strong password',
+    confirmPassword: 'Confirm Password',
+    confirmPasswordPlaceholder: 'Re-enter your password',
+    forgotPasswordLink: 'Forgot my password?',
+    signInWithEmail: 'Sign in with Email',
+    joinTitle: 'Join Exam Prep with DUSPORT',
+    joinSubtitle: 'Start your journey to dentistry exam success',
+    createAccount: 'Create Account',
+    creatingAccount: 'Creating Account...',
+    enterEmailAndPassword: 'Please enter your email and password.',
+    fillAllFields: 'Please fill in all fields.',
+    usernameMinLength: 'Username must be at least 3 characters',
+    confirmPasswordRequired: 'Password confirmation is required',
+    passwordsDontMatch: 'Passwords do not match',
+    passwordsDontMatchCheck: 'Passwords do not match. Please check them.',
+    passwordCharacterTypes:
+      'Password must contain at least 3 character types (uppercase, lowercase, number, special character)',
+    passwordRules:
+      'Password must be at least 8 characters and contain 3 character types.',
+    registerWelcome: 'Your account has been created! Welcome!',
+    autoLoginFailed:
+      'Your account was created but automatic sign-in failed. Please sign in manually.',
+    oauthLoginFailed: 'Could not sign in with %{provider}. Please try again.',
+    oauthRegisterFailed:
+      'Could not sign up with %{provider}. Please try again.',
+    resetSubtitle: 'Enter your email address to receive a password reset link',
+    sending: 'Sending...',
+    sendResetLink: 'Send Reset Link',
+    backToLogin: 'Back to Sign In',
+    resetSuccessTitle: 'Success!',
+    resetEmailSent:
+      'If your email address is registered, you will shortly receive a password reset link. Please check your inbox.',
+    resetRequestFailed: 'Password reset request failed',
+    needHelp: 'Having trouble?',
+    getSupport: 'Get Support',
+    passwordRequirementsTitle: 'Password Requirements:',
+    passwordCriteriaNote: '* At least 3 criteria must be met',
+    passwordCriteria: {
+      minLength: 'At least 8 characters',
+      upperCase: 'Uppercase letter (A-Z)',
+      lowerCase: 'Lowercase letter (a-z)',
+      number: 'Number (0-9)',
+      special: 'Special character (!@#$...)',
+    },
+    passwordStrength: {
+      veryWeak: 'Very Weak',
+      weak: 'Weak',
+      medium: 'Medium',
+      strong: 'Strong',
+    },
+    errors: {
+      invalidCredentials:
+        'Incorrect email or password. Please check and try again.',
+      tooManyLoginAttempts:
+        'Too many sign-in attempts. Please wait a moment and try again.',
+      tooManyRegisterAttempts:
+        'Too many sign-up attempts. Please wait a moment and try again.',
+      network:
+        'Internet connection problem. Check your connection and try again.',
+      emailNotConfirmed: 'Please verify your email address. Check your inbox.',
+      userNotFound: 'No account found with this email address.',
+      weakPassword: 'Your password is too weak. Choose a stronger password.',
+      weakPasswordRegister: 'Password is too weak. Create a stronger password.',
+      emailTaken: 'This email address is already registered. Try signing in.',
+      invalidEmail: 'Invalid email address. Please use a valid format.',
+      usernameTaken: 'This username is taken. Try a different one.',
+      emailFormat: 'Invalid email format. Example: name@email.com',
+      loginFailed: 'An error occurred while signing in. Please try again.',
+      registerFailed: 'An error occurred while signing up. Please try again.',
+    },
   },
   home: {
     welcome: 'Welcome to DUS Exam Prep',
@@ -48,6 +142,37 @@ export default {
     completedTopics: 'Completed Topics',
     achievements: 'Achievements',
     viewAll: 'View All',
+    greeting: 'Hello %{name}!',
+    defaultName: 'Student',
+    subtitle: "Let's keep preparing for the DUS exam",
+    loading: 'Loading home...',
+    checkingPreferredCourse: 'Checking your course preference...',
+    todaysPlan: "Today's Plan",
+    planSummary: '%{topics} topics • %{minutes} min • %{topic}',
+    recommendedTopic: 'Recommended topic',
+    createPlanHint: 'Create a study plan and see your daily agenda',
+    continueStudying: 'Continue Studying',
+    activeSession: '📝 Active Study Session',
+    startNewSession: 'Start a New Study Session',
+    noActiveSession:
+      'There is no active study session for this course. Start a new one with the chronometer above.',
+    recentSessions: '📚 Last 3 Study Sessions',
+    noCompletedSessions: 'No completed sessions yet',
+    noCompletedSessionsMessage:
+      'There are no completed study sessions for this course.',
+    hideAllSessions: 'Hide All Sessions',
+    showAllSessions: 'Show All Sessions (%{count} more)',
+    allSessions: '📋 All Study Sessions',
+    courseDetails: '⚙️ Course Details',
+    courseDetailsUpdated: 'Course details updated!',
+    courseDetailsUpdateError:
+      'An error occurred while updating course details.',
+    noCourses: 'No courses yet',
+    noCoursesMessage:
+      'Pick your first course from the courses tab and start studying.',
+    analyticsTitle: 'Study Analytics',
+    analyticsHint: 'Charts, course split and activity calendar',
+    topicChecklist: 'Topic Checklist & Progress',
   },
   courses: {
     myCourses: 'My Courses',
@@ -139,6 +264,44 @@ export default {
     randomOpponent: 'Random Opponent',
     waitingForOpponent: 'Waiting for Opponent',
     opponentFound: 'Opponent Found',
+    title: 'Duels ⚔️',
+    subtitle: 'Learn by competing with your friends',
+    startNewDuel: 'Start New Duel',
+    startDuel: 'Start Duel',
+    opponent: 'Opponent',
+    opponentWithId: 'Opponent %{id}',
+    duelWith: 'Duel with %{name}',
+    defaultCourseName: 'Medical Knowledge Duel',
+    statusPending: 'Pending',
+    statusYourTurn: 'Your Turn',
+    statusCompleted: 'Completed',
+    activeDuels: 'Active Duels',
+    pending: 'Pending',
+    allDuels: 'All Duels',
+    practiceTests: 'Practice Tests',
+    reviewDeck: 'Mistake Notebook',
+    noActiveDuels: 'No active duels',
+    noActiveDuelsMessage: 'Invite your friends to a duel and start competing.',
+    refreshWarning:
+      'There was a problem refreshing data. Pull down to try again.',
+    loadFailed: 'Could not load duel data',
+    loadError: 'An error occurred while loading data. Please try again.',
+    loading: 'Loading duels...',
+    loadingHint: 'This may take a few seconds',
+    reconnectingTitle: 'Connection lost',
+    reconnectingMessage:
+      'Trying to get you back into the duel. Time left: %{seconds}s',
+    reconnectRetry: 'Retry now',
+    reconnectLeave: 'Leave duel',
+    reconnectFailed: 'Could not reconnect in time, the duel has ended.',
+    tournaments: 'Tournaments',
+    botPractice: 'Bot Practice',
+    resultWon: 'Won',
+    resultLost: 'Lost',
+    unknown: 'Unknown',
+    unknownOpponent: 'Unknown Opponent',
+    unknownCourse: 'Unknown Course',
+    unknownUser: 'Unknown User',
   },
   profile: {
     myProfile: 'My Profile',
@@ -161,6 +324,34 @@ export default {
     darkMode: 'Dark Mode',
     lightMode: 'Light Mode',
     systemDefault: 'System Default',
+    defaultUsername: 'User',
+    duelScore: 'DUEL SCORE',
+    loading: 'Loading profile data...',
+    loadFailed: 'Could not load profile data',
+    achievementsError: 'An error occurred while loading achievements.',
+    duelStatsError: 'An error occurred while loading duel statistics.',
+    userDataError: 'An error occurred while loading user data.',
+    achievementFallback: 'Achievement',
+    detailedStats: 'Detailed Statistics',
+    lossesLabel: 'Lost:',
+    longestStreakLabel: 'Longest Streak:',
+    earnedAchievements: 'Earned Achievements',
+    allAchievements: 'All Achievements',
+    noAchievements: 'No achievements yet',
+    noAchievementsMessage: "You'll earn achievements as you study more.",
+    exploreAchievements: 'Explore Achievements',
+    viewNotifications: 'View Notifications',
+    viewFriends: 'View Friends',
+    versionLabel: 'Version: %{version}',
+    upToDate: 'Up to date',
+    examDates: 'My Exam Dates',
+    backgroundTime: 'Time in Background',
+    backgroundAsStudy: 'Study',
+    backgroundAsBreak: 'Break',
+    backgroundAsk: 'Ask',
+    backgroundTimeHint:
+      'How time away from the app counts while the chronometer runs.',
+    studySessions: 'My Study Sessions',
   },
   settings: {
     appSettings: 'App Settings',
@@ -196,4 +387,1120 @@ export default {
     tryAgain: 'Try Again',
     contactSupport: 'Contact Support',
   },
+  notificationTypes: {
+    study_reminder: 'Study Reminder',
+    achievement_unlock: 'Achievement Unlocked',
+    duel_invitation: 'Duel Invitation',
+    duel_result: 'Duel Result',
+    friend_request: 'Friend Request',
+    friend_activity: 'Friend Activity',
+    content_update: 'Content Update',
+    streak_reminder: 'Streak Reminder',
+    plan_reminder: 'Plan Reminder',
+    coaching_note: 'Coaching Note',
+    motivational_message: 'Motivational Message',
+    system_announcement: 'System Announcement',
+    course_reminder: 'Course Reminder',
+    course_completed: 'Course Completed',
+    course_progress: 'Course Progress',
+    course_milestone: 'Course Milestone',
+    course_study_session: 'Course Study Session',
+  },
+  relativeTime: {
+    justNow: 'Just now',
+    minutesAgo: '%{count} min ago',
+    hoursAgo: '%{count} h ago',
+    daysAgo: '%{count} d ago',
+  },
+  achievementRarity: {
+    common: 'Common',
+    uncommon: 'Uncommon',
+    rare: 'Rare',
+    epic: 'Epic',
+    legendary: 'Legendary',
+  },
+  achievementCategories: {
+    general: 'General',
+    learning: 'Learning',
+    social: 'Social',
+    progress: 'Progress',
+    special: 'Special',
+    achievement: 'Achievement',
+    study: 'Study',
+    duel: 'Duel',
+    streak: 'Streak',
+    time: 'Time',
+    mastery: 'Mastery',
+    community: 'Community',
+    milestone: 'Milestone',
+    course: 'Course',
+  },
+  difficulty: {
+    veryHard: 'Very Hard',
+    hard: 'Hard',
+    medium: 'Medium',
+    easy: 'Easy',
+    unspecified: 'Not specified',
+  },
+  notifications: {
+    title: 'Notifications',
+    subtitle: 'Manage all your notifications',
+    newCount: '%{count} new notifications',
+    unread: 'Unread',
+    markAllAsRead: 'Mark All as Read',
+    markAllConfirm:
+      'Are you sure you want to mark %{count} notifications as read?',
+    loadError: 'An error occurred while loading notifications',
+    markAllError: 'An error occurred while marking notifications',
+    markError: 'An error occurred while marking the notification',
+    deleteTitle: 'Delete Notification',
+    deleteUnavailable: 'Deleting notifications is not available yet.',
+    noUnread: 'No unread notifications',
+    none: 'No notifications',
+    allRead: "You've read all your notifications!",
+    noneYet: "You don't have any notifications yet.",
+    settings: 'Notification Settings',
+    loginMessage: 'You need to sign in to see your notifications.',
+    loading: 'Loading notifications...',
+  },
+  notificationSettings: {
+    title: 'Notification Settings',
+    subtitle: 'Choose which notifications you want to receive',
+    pushEnabled: 'Push notifications enabled ✓',
+    pushDisabled: '⚠️ Push notifications disabled',
+    statUnread: 'Unread',
+    statCourse: 'Course',
+    statSettings: 'Settings',
+    filterStudy: 'Study',
+    filterSocial: 'Social',
+    filterSystem: 'System',
+    enableAll: 'Enable All',
+    enableSelected: 'Enable Selected',
+    disableAll: 'Disable All',
+    disableSelected: 'Disable Selected',
+    testNotification: 'Test Notification',
+    refreshPush: 'Refresh Push',
+    inApp: 'In-App',
+    push: 'Push Notification',
+    email: 'Email',
+    frequency: 'Frequency',
+    loading: 'Loading notification settings...',
+    loadError: 'An error occurred while loading settings. Please try again.',
+    pushEnabledTitle: 'Push Notifications Enabled',
+    pushEnabledMessage:
+      "Also check your device's notification settings for push notifications.",
+    updateError:
+      'An error occurred while updating the setting. Please try again.',
+    frequencyUpdateError: 'An error occurred while updating the frequency.',
+    frequencyTitle: 'Notification Frequency',
+    frequencyPrompt: 'Choose a frequency for this notification type:',
+    hourly: 'Hourly (1 hour)',
+    daily: 'Daily (24 hours)',
+    weekly: 'Weekly (168 hours)',
+    testSentTitle: 'Test Notification Sent',
+    testSentMessage:
+      'The test notification was sent. You should receive it within a few seconds.',
+    testFailed:
+      'Could not send the test notification. Check your internet connection.',
+    updatedTitle: 'Settings Updated',
+    bulkAllEnabled: 'All notifications enabled.',
+    bulkAllDisabled: 'All notifications disabled.',
+    bulkSelectedEnabled: 'Selected notifications enabled.',
+    bulkSelectedDisabled: 'Selected notifications disabled.',
+    bulkError: 'An error occurred during the bulk update.',
+    typeNames: {
+      study_reminder: 'Study Reminders',
+      achievement_unlock: 'Achievement Notifications',
+      duel_invitation: 'Duel Invitations',
+      duel_result: 'Duel Results',
+      friend_request: 'Friend Requests',
+      friend_activity: 'Friend Activity',
+      content_update: 'Content Updates',
+      streak_reminder: 'Streak Reminders',
+      plan_reminder: 'Plan Reminders',
+      coaching_note: 'Coaching Notes',
+      motivational_message: 'Motivational Messages',
+      system_announcement: 'System Announcements',
+      course_reminder: 'Course Reminders',
+      course_completed: 'Course Completion Notifications',
+      course_progress: 'Course Progress Notifications',
+      course_milestone: 'Course Milestone Notifications',
+      course_study_session: 'Course Study Session Notifications',
+    },
+    typeDescriptions: {
+      study_reminder: 'Reminders for your daily study goals',
+      achievement_unlock: 'Notifications when you earn new achievements',
+      duel_invitation: 'Notifications when you receive a duel invitation',
+      duel_result: 'Notifications about duel results',
+      friend_request: 'New friend requests',
+      friend_activity: "Notifications about your friends' activity",
+      content_update: 'Notifications about new content and features',
+      streak_reminder: 'Reminders to keep your study streak going',
+      plan_reminder: 'Reminders for tasks in your study plan',
+      coaching_note: 'Personalized coaching tips',
+      motivational_message: 'Motivating messages',
+      system_announcement: 'Important system announcements',
+      course_reminder: 'Reminders for course study times',
+      course_completed: 'Notifications when you complete courses',
+      course_progress: 'Updates about your course progress',
+      course_milestone: 'Notifications when you pass key course milestones',
+      course_study_session: 'Notifications about your study sessions',
+    },
+    everyHour: 'Hourly',
+    everyDay: 'Daily',
+    everyWeek: 'Weekly',
+    everyHours: 'Every %{hours} hours',
+  },
+  offline: {
+    offlineTitle: "You're offline 📴",
+    offlineMessage:
+      'Showing saved data. Your changes will be sent when you reconnect.',
+    pendingChanges: '%{count} change(s) waiting to be sent',
+    syncing: 'Sending changes...',
+    syncNow: 'Send Now',
+    conflictTitle: "Some changes couldn't be saved ⚠️",
+    conflictItem: '%{action} (%{date}): %{message}',
+    dismiss: 'Dismiss',
+    queuedTitle: 'Saved offline 📥',
+    sessionQueued: 'Your study session will be saved when you reconnect.',
+    progressQueued: 'Your course progress will be saved when you reconnect.',
+    actions: {
+      endStudySession: 'Ending study session',
+      updateCourseProgress: 'Updating course progress',
+      markNotificationRead: 'Marking notification as read',
+    },
+  },
+  subscription: {
+    title: 'Premium Membership 💎',
+    subtitle: 'Unlock every feature and speed up your DUS prep',
+    premiumActive: 'Premium active ✨',
+    freePlan: 'Free Plan',
+    freePlanMessage:
+      'Go Premium to challenge hard bots, practice without limits and unlock detailed analytics.',
+    daysRemaining: '%{count} days left',
+    expiresOn: 'Ends: %{date}',
+    usageValue: '%{used} / %{limit}',
+    usedUnlimited: '%{used} used • Unlimited',
+    plansTitle: 'Plans 🚀',
+    popular: 'Most Popular',
+    perDays: '%{count} days',
+    buy: 'Buy',
+    processing: 'Processing...',
+    verifying: 'Verifying payment...',
+    noPlans: 'No plans available',
+    noPlansMessage:
+      'There are no plans to purchase right now. Check back later.',
+    plansError: "Plans couldn't be loaded. Please try again.",
+    promoTitle: 'Promo Code 🎟️',
+    promoPlaceholder: 'Enter your code',
+    promoApply: 'Apply',
+    promoApplied: '%{code} applied',
+    promoInvalid: 'Invalid or expired code.',
+    discountPercent: '%{percent}% off',
+    discountAmount: '%{amount} off',
+    paymentSuccess: 'Payment successful! Premium features unlocked 🎉',
+    paymentFailed: "Payment couldn't be verified.",
+    paymentCancelled: 'Payment was not completed.',
+    verifyError:
+      'Something went wrong while verifying your payment. Please try again.',
+    checkoutError: "Couldn't start the payment. Please try again.",
+    loginRequired: 'You need to sign in to go Premium.',
+    manage: 'Premium Membership',
+    gate: {
+      badge: 'Premium',
+      title: 'Premium Feature 🔒',
+      featureTitle: '%{feature} is for Premium members 🔒',
+      message: 'Upgrade to Premium to use this feature.',
+      unlock: 'Go Premium',
+      hardBots: 'Hard bots',
+    },
+    features: {
+      tests: 'Practice Tests',
+      duels: 'Duels',
+      bot_duels: 'Bot Duels',
+      study_plans: 'Study Plans',
+      analytics: 'Analytics',
+    },
+  },
+  coaching: {
+    title: 'Coaching',
+    subtitle: 'Weekly notes, motivational messages and strategy videos',
+    loginRequired: 'You need to sign in to see coaching content.',
+    tabs: {
+      notes: 'Notes',
+      messages: 'Motivation',
+      videos: 'Videos',
+    },
+    week: 'Week %{week}',
+    readMore: 'Read More',
+    showLess: 'Show Less',
+    notesError: 'Coaching notes could not be loaded.',
+    noNotes: 'No coaching notes yet',
+    noNotesMessage: 'New weekly notes will appear here once published.',
+    messagesError: 'Motivational messages could not be loaded.',
+    noMessages: 'No messages yet',
+    noMessagesMessage: 'Motivational messages will be here soon.',
+    videosError: 'Strategy videos could not be loaded.',
+    noVideos: 'No videos yet',
+    noVideosMessage: 'Strategy videos will be listed here once added.',
+    premiumVideos: 'Premium strategy videos',
+    premiumVideosMessage: 'Upgrade to Premium to watch every strategy video.',
+    playVideo: 'Play video',
+    videoError:
+      'The video could not be played. Check your connection and try again.',
+    noteOfTheDay: 'Note of the Day',
+    messageOfTheDay: "Today's Motivation",
+  },
+  navigation: {
+    notFoundTitle: 'Page not found',
+    notFoundMessage:
+      'The page you tried to open has moved or no longer exists.',
+    goHome: 'Go to Home',
+    goBack: 'Go Back',
+  },
+  changePassword: {
+    subtitle: 'Choose a strong, unique password to keep your account safe',
+    currentPassword: 'Current Password',
+    newPassword: 'New Password',
+    submit: 'Update Password',
+    samePassword: 'The new password must be different from your current one.',
+    failed: 'The password could not be updated. Please try again.',
+    successTitle: 'Password updated',
+    successMessage: 'Use your new password the next time you sign in.',
+    oauthTitle: 'No password needed',
+    oauthMessage:
+      'Your account signs in with %{provider}. Manage your password from your %{provider} account.',
+  },
+  duelReplay: {
+    title: 'Duel Replay',
+    subtitle: 'Review your duel with %{name} round by round',
+    unknownOpponent: 'Opponent',
+    round: 'Round %{current} of %{total}',
+    correctCount: '%{correct}/%{total} correct',
+    you: 'You',
+    correct: 'Correct',
+    incorrect: 'Wrong',
+    noAnswer: 'No answer',
+    picked: 'Picked: %{answer}',
+    responseTime: 'Response time: %{time}',
+    correctAnswer: 'Correct answer: %{answer}',
+    explanation: 'Explanation',
+    previous: 'Previous',
+    next: 'Next',
+    reportQuestion: 'Report Question',
+    notFoundTitle: 'Replay not available',
+    notFoundMessage: "This duel's rounds were not recorded on this device.",
+    backToHistory: 'Back to History',
+    watchReplay: 'Watch Replay',
+  },
+  powerUps: {
+    title: 'Power-ups',
+    hint: 'Hint',
+    hintDescription: 'Removes two wrong options',
+    skip: 'Skip',
+    skipDescription: 'Skips this question without losing points',
+    freeze: 'Freeze',
+    freezeDescription: 'Stops your clock for a few seconds',
+    double: 'Double',
+    doubleDescription: 'A correct answer scores two points this round',
+    extraTime: 'Extra Time',
+    extraTimeDescription: 'Adds time to this question',
+    opponentUsed: 'Opponent used %{powerUp}',
+    doubleActive: 'Double points active',
+    timerFrozen: 'Clock frozen',
+    skipped: 'Question Skipped',
+    failed: 'Could not use the power-up',
+  },
+  tournaments: {
+    title: 'Tournaments',
+    subtitle: 'Run a knockout tournament with your study group',
+    create: 'Create a Tournament',
+    courseLabel: 'Course: %{course}',
+    selectCourseFirst: 'Pick a course first to create a tournament',
+    nameLabel: 'Tournament name',
+    namePlaceholder: 'e.g. Friday Night Cup',
+    nameRequired: 'Tournament name is required',
+    sizeLabel: 'Players',
+    sizeOption: '%{count} players',
+    createSubmit: 'Create',
+    createFailed: 'Could not create the tournament',
+    joinFailed: 'Could not join the tournament',
+    actionFailed: 'Could not complete the action',
+    loadFailed: 'Could not load tournaments',
+    emptyTitle: 'No tournaments yet',
+    emptyMessage: 'Be the first to create one for this course',
+    statusRegistering: 'Registering',
+    statusInProgress: 'In progress',
+    statusCompleted: 'Completed',
+    playerCount: '%{count}/%{size} players',
+    joined: 'Joined',
+    join: 'Join',
+    leave: 'Leave',
+    start: 'Start Tournament',
+    viewBracket: 'View Bracket',
+    organizer: 'Organizer',
+    eliminated: 'Eliminated',
+    participants: 'Participants',
+    readyToStart: 'The bracket is full, you can start the tournament',
+    waitingForOrganizer:
+      'The bracket is full, waiting for the organizer to start',
+    waitingForPlayers: 'Waiting for %{count} more players',
+    yourMatch: 'Your Next Match',
+    yourMatchAgainst: '%{round}: you face %{name}',
+    waitingForOpponent: 'Your opponent is decided by a match still in play',
+    play: 'Play',
+    bracket: 'Bracket',
+    you: 'you',
+    toBeDecided: 'TBD',
+    final: 'Final',
+    semiFinal: 'Semi-final',
+    quarterFinal: 'Quarter-final',
+    roundOf: 'Round of %{count}',
+    champion: 'Champion',
+    championTitle: 'We Have a Champion!',
+    championYou: 'Congratulations, you won the tournament!',
+    championMessage: '%{name} won the tournament',
+    notFoundTitle: 'Tournament not found',
+    notFoundMessage: 'It may have been deleted or never existed',
+    backToList: 'Back to Tournaments',
+  },
+  asyncDuel: {
+    title: 'Async Duel',
+    subtitle: 'Play against %{name} on your own time',
+    opponent: 'Opponent',
+    modeLive: 'Live',
+    modeAsync: 'Async',
+    modeLiveHint: 'You both play at the same time, in real time.',
+    modeAsyncHint: 'You play now and your opponent has %{hours} hours to play.',
+    yourTurn: 'Your turn',
+    yourTurnListTitle: 'Your Turn',
+    questionCount: '%{count} questions',
+    timeRemaining: '%{hours}h %{minutes}m left',
+    expired: 'Expired',
+    expiredTitle: 'Time is up',
+    expiredMessage: 'The time to play this duel has run out.',
+    rules:
+      'You have %{seconds} seconds per question. Once you start you cannot pause.',
+    start: 'Start',
+    questionCounter: 'Question %{current}/%{total}',
+    submitting: 'Submitting your answers...',
+    submitFailed: 'Your answers could not be submitted. Please try again.',
+    unsentTitle: 'Answers not sent',
+    unsentMessage:
+      'You finished your turn but the answers were not sent. Try again.',
+    retrySubmit: 'Send Again',
+    waitingTitle: 'Waiting for your opponent',
+    waitingMessage:
+      '%{name} has not played yet (%{remaining}). You will be notified when the result is in.',
+    opponentExpired: '%{name} did not play in time.',
+    yourScore: 'Your score (out of %{total})',
+    you: 'You',
+    youWon: 'You won! 🎉',
+    youLost: 'You lost',
+    draw: 'Draw',
+    review: 'Your Answers',
+    yourAnswer: 'Your answer: %{answer}',
+    noAnswer: 'No answer',
+    correctAnswer: 'Correct: %{answer}',
+    notFoundTitle: 'Duel not found',
+    notFoundMessage: 'This duel could not be loaded or no longer exists.',
+  },
+  ratings: {
+    tierBronze: 'Bronze',
+    tierSilver: 'Silver',
+    tierGold: 'Gold',
+    tierPlatinum: 'Platinum',
+    tierDiamond: 'Diamond',
+    tierMaster: 'Master',
+    rankedQuickMatch: 'Ranked Quick Match',
+    rankedCourse: 'Course: %{course}',
+    selectCourseFirst: 'Pick a course first to play ranked.',
+    findRankedMatch: 'Find Opponent',
+    cancelSearch: 'Cancel Search',
+    searching: 'Searching for %{seconds}s',
+    searchRange: '±%{range} rating',
+    searchRangeAny: 'any opponent',
+    leaderboardOverall: 'Overall',
+    leaderboardCourse: 'Course',
+    leaderboardEmptyTitle: 'No rankings yet',
+    leaderboardEmptyMessage:
+      'The leaderboard fills up as ranked duels are played.',
+  },
+  botPractice: {
+    title: 'Bot Practice',
+    subtitle:
+      'Practice against a bot that adapts to your level. Pick a topic and question count.',
+    selectCourseFirst: 'Select a course first.',
+    courseLabel: 'Course: %{course}',
+    topicLabel: 'Topic',
+    allTopics: 'All Topics',
+    questionCountLabel: 'Question Count',
+    questionCountOption: '%{count} Questions',
+    botName: 'Adaptive Bot',
+    targetAccuracy: 'Target accuracy: %{accuracy}%',
+    basedOnTopic:
+      'Based on your accuracy in this topic (%{accuracy}%, %{count} questions).',
+    basedOnCourse:
+      'Based on your accuracy in this course (%{accuracy}%, %{count} questions).',
+    basedOnDefault:
+      'Not enough history yet; the bot will adapt as you answer more questions.',
+    cappedNotice:
+      'Bot difficulty is limited on the free plan. Upgrade to Premium for full adaptation.',
+    challenge: 'Challenge Bot',
+    difficulty1: 'Easy',
+    difficulty2: 'Medium',
+    difficulty3: 'Hard',
+    difficulty4: 'Expert',
+    difficulty5: 'Legendary',
+  },
+  examPlanner: {
+    title: 'My Exam Dates',
+    subtitle:
+      'Enter the DUS sessions you are aiming for to get a countdown and weekly study pace on the home screen.',
+    springSession: 'Spring DUS',
+    autumnSession: 'Autumn DUS',
+    datePlaceholder: 'YYYY-MM-DD',
+    dateHint: 'Leave empty to skip this session.',
+    invalidDate: '%{session} date must be in YYYY-MM-DD format.',
+    saved: 'Your exam dates have been saved.',
+    saveFailed: 'Could not save exam dates.',
+    daysLeft: '%{count} days left',
+    examToday: 'Exam is today!',
+    homeTitle: 'DUS Countdown',
+    setDateHint: 'Set your exam date to plan your study pace.',
+    countdown: '%{count} days to %{session}',
+    examTodayTitle: '%{session} is today!',
+    summaryOnTrack: 'About %{hours} hours a week keeps you on track.',
+    summaryBehind:
+      'About %{hours} hours a week needed • %{count} courses behind',
+    allCoursesDone: 'All courses completed. Time to review!',
+    courseHours: '%{hours} h/week • %{percent}%',
+    behind: 'Behind',
+    inactive: 'Inactive',
+  },
+  charts: {
+    less: 'Less',
+    more: 'More',
+    max: 'Max: %{value}',
+  },
+  analytics: {
+    title: 'Study Analytics',
+    subtitle:
+      'Track your study time, how it splits across courses and how consistent you are.',
+    preset: {
+      week: '7 days',
+      month: '30 days',
+      quarter: '90 days',
+    },
+    totalHours: 'Total hours',
+    sessions: 'Sessions',
+    activeDays: 'Active days',
+    trendPercent: '%{value}%',
+    trendFlat: 'No change',
+    dailyTitle: 'Daily Study Time',
+    dailyHint: 'Minutes studied each day in the selected range',
+    weeklyTitle: 'Weekly Hours',
+    weeklyHint: 'Total hours per week, starting Monday',
+    distributionTitle: 'Course Distribution',
+    distributionHint: 'All-time study time per course',
+    heatmapTitle: 'Activity Calendar',
+    heatmapHint: 'You studied on %{count} days in the last 6 months',
+    selectedDay: '%{date}: %{minutes} min',
+    hoursShort: '%{value}h',
+    minutesShort: '%{value}m',
+    total: 'Total',
+    otherCourses: 'Other courses',
+    emptyPeriod: 'No study sessions in this range.',
+    emptyDistribution: 'No per-course study data yet.',
+    loadFailed: 'Could not load analytics.',
+  },
+  chronometer: {
+    modes: {
+      free: 'Free',
+      pomodoro: 'Pomodoro',
+      fiftyTen: '50/10',
+      custom: 'Custom',
+    },
+    workPhase: 'Study',
+    breakPhase: 'Break',
+    phaseRemaining: '%{phase} • %{time} left • cycle %{cycle}',
+    customWork: 'Study %{minutes} min',
+    customBreak: 'Break %{minutes} min',
+    course: 'Course',
+    breakStartTitle: '☕ Break time',
+    breakStartBody:
+      'Study block for %{course} is done. Take a %{minutes} minute break.',
+    workStartTitle: '📚 Back to studying',
+    workStartBody:
+      'Break is over. A new %{minutes} minute block for %{course} has started.',
+    ongoingTitle: '📚 Studying %{course}',
+    ongoingBody: '%{elapsed} studied',
+    ongoingPausedBody: 'On a break • %{elapsed} studied',
+    elapsedMinutes: '%{minutes} min',
+    elapsedHours: '%{hours} h %{minutes} min',
+    backgroundTitle: 'Welcome back',
+    backgroundMessage:
+      'You were away from the app for %{minutes} minutes during this session. How should that time count?',
+    countAsStudy: 'Study',
+    countAsBreak: 'Break',
+    activeSessionTitle: 'Session In Progress',
+    activeSessionMessage:
+      'You have a study session running for "%{current}". End it and start a new session for "%{next}"?',
+    endActiveSession: 'End Session',
+    endTitle: 'End Study Session',
+    endMessage: 'You studied for %{time}. Do you want to end this session?',
+    endSession: 'End Session',
+  },
+  studySessions: {
+    title: 'Study Sessions',
+    subtitle:
+      'Add time you studied without the chronometer, fix or delete recorded sessions.',
+    addTitle: 'Add a Past Session',
+    editTitle: 'Edit Session',
+    addButton: 'Add Session',
+    course: 'Course',
+    courseFallback: 'Course %{id}',
+    date: 'Date',
+    startTime: 'Start',
+    endTime: 'End',
+    timePlaceholder: 'HH:MM',
+    breakMinutes: 'Break (minutes)',
+    notes: 'Notes',
+    notesPlaceholder: 'e.g. topic review at the library',
+    listTitle: 'Recorded Sessions',
+    active: 'In progress',
+    durations: 'Study %{study} • Break %{break}',
+    emptyTitle: 'No sessions yet',
+    emptyMessage:
+      'Sessions from the chronometer or added here are listed here.',
+    added: 'Session added.',
+    updated: 'Session updated.',
+    deleted: 'Session deleted.',
+    saveFailed: 'Could not save the session.',
+    deleteFailed: 'Could not delete the session.',
+    deleteTitle: 'Delete Session',
+    deleteMessage:
+      'Delete the session on %{session}? Its study time will be removed from your stats.',
+    courseRequired: 'Choose a course.',
+    invalidDate: 'Enter the date as YYYY-MM-DD.',
+    invalidTime: 'Enter the times as HH:MM.',
+    endBeforeStart: 'The end time cannot be the same as the start time.',
+    inFuture: 'A session cannot end in the future.',
+    tooLong: 'A session cannot be longer than 16 hours.',
+    invalidBreak: 'Enter the break as whole minutes.',
+    breakTooLong: 'The break must be shorter than the whole session.',
+    overlap: 'This session overlaps the one on %{session}.',
+    endsNextDay: 'Ends the next day.',
+  },
+  courseChecklist: {
+    title: 'Course Detail',
+    subtitle:
+      'Tick the subtopics you have finished and track how many times you revised each topic.',
+    completion: 'Course Progress',
+    percentage: '%{percentage}%',
+    completionHint: '%{completed} of %{total} subtopics completed',
+    subtopicCount: '%{completed}/%{total}',
+    repetitions: 'Repetitions',
+    increaseRepetitions: 'Increase repetitions',
+    decreaseRepetitions: 'Decrease repetitions',
+    noSubtopics: 'This topic has no subtopics.',
+    emptyTitle: 'No topics found',
+    emptyMessage: 'No topics have been added to this course yet.',
+    updateFailed: 'Could not update progress. Please try again.',
+  },
+  reviewDeck: {
+    new: 'New',
+    today: 'Today',
+    tomorrow: 'Tomorrow',
+    inDays: 'In %{days} days',
+    topicFallback: 'Topic #%{id}',
+    gradeHard: 'Hard',
+    gradeGood: 'Good',
+    gradeEasy: 'Easy',
+    title: 'Mistake Notebook 📒',
+    subtitle: 'Review the questions you got wrong at the right time',
+    loginMessage: 'You need to sign in to see your mistake notebook.',
+    finish: 'Finish',
+    mistakeCount: 'Wrong %{count} times',
+    resultCorrect: '✅ Correct!',
+    resultWrong: '❌ Wrong',
+    explanation: 'Explanation',
+    noExplanation: 'No explanation has been added for this question yet.',
+    continue: 'Continue',
+    reviewed: 'Reviewed',
+    correct: 'Correct',
+    wrong: 'Wrong',
+    saveFailedTitle: 'Could Not Save',
+    saveFailedMessage:
+      'Your review results could not be sent to the server. Your review schedule is saved on this device.',
+    saveAgain: 'Save Again',
+    savedTitle: 'Saved',
+    savedMessage: '%{count} answers were added to your history.',
+    backToDeck: 'Back to Mistake Notebook',
+    loading: 'Loading mistake notebook...',
+    loadFailed: 'Could not load the questions: %{message}',
+    unknownError: 'Unknown error',
+    course: '📚 Course',
+    topic: '🧩 Topic',
+    allTopics: 'All Topics',
+    emptyTitle: 'Your Mistake Notebook Is Empty',
+    emptyMessage:
+      'Questions you get wrong will collect here. Start by playing a duel or taking a practice test.',
+    dueToday: 'Due Today',
+    totalQuestions: 'Total Questions',
+    startReview: 'Start Review (%{count})',
+    doneForToday: "You're done for today 🎉 Next: %{next}",
+    studyAnyway: 'Study Anyway',
+  },
+  duelHistory: {
+    title: 'Duel History 📈',
+    subtitle: 'Your performance and past duels',
+    tabStats: 'Stats',
+    tabRecent: 'Recent Duels',
+    tabAll: 'All History',
+    loadingStats: 'Loading stats...',
+    overallPerformance: 'Overall Performance 📊',
+    winsOfTotal: '%{wins} wins out of %{total} duels',
+    wins: 'Wins',
+    losses: 'Losses',
+    successRate: 'Success Rate',
+    winPercentage: 'Win percentage',
+    recentCount: 'Recent Duels (%{count})',
+    allCount: 'All Duels (%{count})',
+    emptyTitle: 'No Duels Yet',
+    emptyRecentMessage: 'Start your first duel and see it here!',
+    emptyAllMessage: 'You can see your overall performance in the Stats tab.',
+    loginMessage: 'You need to sign in to see your duel history.',
+    unknownError: 'An unknown error occurred',
+    loadFailed: 'Could not load stats: %{error}',
+    refresh: 'Refresh',
+  },
+  newDuel: {
+    title: 'New Duel ⚔️',
+    subtitle: 'Pick an opponent and start a challenge',
+    subtitleSignedOut: 'Sign in to challenge someone',
+    tabFind: 'Find Opponent',
+    tabFriends: 'Friends',
+    tabBots: 'Bots',
+    tabLeaderboard: 'Leaderboard',
+    connecting: 'Connecting...',
+    challenge: 'Challenge',
+    botStats: 'Accuracy: %{accuracy}% • Time: %{seconds}s',
+    opponentWinRate: 'Win rate: %{winRate}%',
+    opponentDuels: ' • %{count} duels',
+    searchPlaceholder: 'Search by username',
+    searchAndChallenge: 'Search and Challenge',
+    userNotFound: "'%{username}' was not found.",
+    searchFailed: 'Something went wrong while searching.',
+    loginToChallenge: 'You need to sign in to challenge someone.',
+    loginToChallengeBot: 'You need to sign in to challenge a bot.',
+    noCourseSelected: 'No course selected.',
+    sessionExpired: 'Your session has expired. Please sign in again.',
+    challengeFailed: 'Could not send the challenge. Please try again.',
+    loadingData: 'Loading duel data...',
+    recommendedOpponents: 'Recommended Opponents',
+    noRecommendedOpponents: 'No recommended opponents right now.',
+    noFriendsTitle: 'No Friends',
+    noFriendsMessage: 'Add some friends first to duel with them.',
+    noBotsTitle: 'No Bots',
+    noBotsMessage: 'No bots are available right now.',
+    duelWithBot: 'Duel with %{name}',
+    selectCourseTitle: 'Select a Course',
+    confirmTitle: 'Confirm Challenge',
+    challengeTitle: 'Challenge',
+    opponentFallback: 'Opponent',
+    opponentLabel: 'Opponent: %{name}',
+    botDetails: 'Difficulty: Level %{level} • Accuracy: %{accuracy}%',
+    courseDescription:
+      'Pick a course! You will get %{count} random questions from it.',
+    spin: 'SPIN',
+    pickCourse: 'Pick a Course',
+    pickCourseHint: 'You will get %{count} random questions from this course',
+    pickCoursePlaceholder: 'Pick a course...',
+    spinForCourse: 'Spin for a Course',
+    botSummaryTitle: 'Bot Challenge Summary',
+    summaryTitle: 'Challenge Summary',
+    summaryOpponent: 'Opponent:',
+    summaryCourse: 'Course:',
+    summaryQuestionCount: 'Questions:',
+    randomQuestions: '%{count} random questions',
+    challengeBotSubmit: 'Challenge the Bot!',
+    challengeSubmit: 'Challenge!',
+    back: 'Go Back',
+    authenticating: 'Authenticating...',
+  },
+  liveDuel: {
+    loadingInfo: 'Loading duel details...',
+    botLevel: '%{name} (Level %{level})',
+    savingResults: 'Saving results...',
+    questionCounter: 'Question %{current} / %{total}',
+    bot: 'Bot',
+    opponent: 'Opponent',
+    you: 'You',
+    opponentDone: '%{name}: Done ✓',
+    botCalculating: '%{name}: Calculating...',
+    opponentThinking: '%{name}: Thinking...',
+    yourChoice: ' (Your choice)',
+    connecting: 'Connecting to the duel...',
+    versus: 'VS',
+    lobbyTitle: 'Duel Lobby',
+    startingWith: 'Starting the duel with %{name}...',
+    waitingForPlayers: 'Waiting for both players to be ready...',
+    botInfoTitle: 'Bot Details',
+    botDifficulty: 'Difficulty: Level %{level} • Accuracy: %{accuracy}%',
+    botAvgTime: 'Average response time: %{seconds}s',
+    ready: 'Ready ✓',
+    botReady: 'Bot Ready ✓',
+    waiting: 'Waiting...',
+    getReady: 'Get Ready!',
+    loadingQuestion: 'Loading question...',
+    answerSubmitted: 'Answer Submitted ✓',
+    botCalculatingStatus: 'The bot is calculating...',
+    waitingForOpponent: 'Waiting for the opponent...',
+    correctAnswer: 'Correct answer: %{answer}',
+    explanation: 'Explanation',
+    roundResults: 'Round %{round} Results',
+    correct: 'Correct ✓',
+    wrong: 'Wrong ✗',
+    picked: 'Picked: %{answer}',
+    yourScore: 'Your Score',
+    reportTitle: 'Something wrong with this question?',
+    reportDescription:
+      'Let us know about a wrong answer, a typo or anything unclear',
+    reportQuestion: 'Report Question',
+    nextQuestion: 'Next question in %{seconds} seconds...',
+    victory: 'VICTORY!',
+    beatBot: 'You beat the %{name} bot!',
+    defeat: 'Defeat',
+    lostToBot: 'The %{name} bot beat you!',
+    drawTitle: 'Draw!',
+    summaryTitle: 'Duel Summary',
+    unknownTest: 'Unknown Test',
+    summaryBotDifficulty: 'Difficulty Level %{level} • %{accuracy}% Accuracy',
+    questionsAnswered: '%{count} questions answered',
+    resultsSaved: 'Results Saved ✓',
+    accuracy: 'Accuracy: %{accuracy}%',
+    avgTime: 'Avg. time: %{seconds}s',
+    correctCount: 'Correct: %{count}',
+    wrongCount: 'Wrong: %{count}',
+    newDuel: 'New Duel',
+    exit: 'Exit',
+    connectionError: 'Connection Error',
+    somethingWentWrong: 'Something went wrong',
+    exitTitle: 'Leave Duel',
+    exitMessage: 'Are you sure you want to leave? This will count as a loss.',
+    preparing: 'Preparing...',
+  },
+  achievementRequirements: {
+    total_duels: 'Total Duels',
+    duels_won: 'Duels Won',
+    duels_lost: 'Duels Lost',
+    distinct_study_days: 'Distinct Study Days',
+    total_study_time_minutes: 'Total Study Time',
+    current_study_streak: 'Current Study Streak',
+    longest_study_streak: 'Longest Study Streak',
+    weekly_champion_count: 'Weekly Championships',
+    user_registration: 'Registration',
+    courses_studied: 'Courses Studied',
+    courses_completed: 'Courses Completed',
+    total_course_study_time_seconds: 'Total Course Study Time',
+    total_course_study_time_minutes: 'Total Course Study Minutes',
+    total_course_sessions: 'Total Course Sessions',
+    study_sessions_completed: 'Study Sessions Completed',
+    total_points_earned: 'Total Points Earned',
+    consecutive_daily_logins: 'Consecutive Daily Logins',
+    subjects_mastered: 'Subjects Mastered',
+    questions_answered: 'Questions Answered',
+    perfect_scores: 'Perfect Scores',
+    help_requests_sent: 'Help Requests Sent',
+    help_provided: 'Help Provided',
+    forum_posts: 'Forum Posts',
+    comments_made: 'Comments Made',
+    likes_received: 'Likes Received',
+  },
+  achievementUnits: {
+    total_duels: 'duels',
+    duels_won: 'wins',
+    duels_lost: 'losses',
+    distinct_study_days: 'days',
+    total_study_time_minutes: 'minutes',
+    current_study_streak: 'days',
+    longest_study_streak: 'days',
+    weekly_champion_count: 'times',
+    courses_studied: 'courses',
+    courses_completed: 'courses',
+    total_course_study_time_seconds: 'seconds',
+    total_course_study_time_minutes: 'minutes',
+    total_course_sessions: 'sessions',
+    study_sessions_completed: 'sessions',
+    total_points_earned: 'points',
+    consecutive_daily_logins: 'days',
+    subjects_mastered: 'subjects',
+    questions_answered: 'questions',
+    perfect_scores: 'perfect scores',
+    help_requests_sent: 'help requests',
+    help_provided: 'helps',
+    forum_posts: 'posts',
+    comments_made: 'comments',
+    likes_received: 'likes',
+  },
+  achievementProgress: {
+    completed: 'Completed',
+    notCompleted: 'Not completed yet',
+    notStarted: 'Not Started',
+    justStarted: 'Just Started',
+    inProgress: 'In Progress',
+    overHalf: 'Over Halfway',
+    almostDone: 'Almost Done',
+    nextMilestone: '%{remaining} more %{unit} needed for %{requirement}',
+    nextMilestoneToggle: '%{requirement} needs to be completed',
+    percentage: '%{percentage}%',
+  },
+  achievements: {
+    title: 'Achievements',
+    achievement: 'Achievement',
+    loadingList: 'Loading achievements...',
+    loadingDetail: 'Loading achievement...',
+    listNotFoundTitle: 'Achievements Not Found',
+    notFoundTitle: 'Achievement Not Found',
+    listEmptyMessage: 'There are no achievements yet',
+    notFoundMessage: 'The requested achievement could not be found',
+    noMatchMessage: 'No achievements match the selected filters',
+    noDescription: 'No description',
+    requirements: 'Requirements:',
+    filters: 'Filters',
+    filterUnlocked: 'Completed',
+    filterLocked: 'In Progress',
+    points: '%{points} Points',
+    progress: 'Progress',
+    overallProgress: 'Overall Progress',
+    earnedOn: 'Earned on %{date}',
+    category: 'Category',
+    created: 'Created',
+    share: 'Share Achievement',
+    viewAll: 'View All Achievements',
+    related: 'Related Achievements',
+    unlocked: 'Achievement Unlocked!',
+  },
+  friends: {
+    title: 'Friends 👥',
+    subtitle: 'Add friends, manage requests and duel',
+    tabFind: 'Find Friends',
+    tabFriends: 'My Friends',
+    tabPending: 'Pending',
+    userFallback: 'User #%{id}',
+    userNotFound: "No user named '%{query}' was found.",
+    searchFailed: 'Something went wrong while searching.',
+    requestSent: 'Friend request sent to %{username}.',
+    requestFailed: 'Could not send the friend request.',
+    accepted: 'You and %{username} are now friends!',
+    acceptFailed: 'Could not accept the request.',
+    rejected: "%{username}'s request was declined.",
+    rejectFailed: 'Could not decline the request.',
+    removeTitle: 'Remove Friend',
+    removeMessage:
+      'Are you sure you want to remove %{username} from your friends?',
+    removeConfirm: 'Remove',
+    removed: '%{username} was removed from your friends.',
+    removeFailed: 'Could not remove the friend.',
+    winRate: 'Win rate: %{rate}%',
+    sending: 'Sending...',
+    sendRequest: 'Send Request',
+    friendsSince: 'Friends since: %{date}',
+    duel: 'Duel',
+    remove: 'Remove',
+    requestedOn: 'Requested on: %{date}',
+    accept: 'Accept',
+    reject: 'Decline',
+    loading: 'Loading friends...',
+    searchPlaceholder: 'Search by username',
+    searching: 'Searching...',
+    search: 'Search',
+    searchResults: 'Search Results',
+    noFriendsTitle: 'No Friends',
+    noFriendsMessage:
+      'You have no friends yet. Use the "Find Friends" tab to add some.',
+    noPendingTitle: 'No Pending Requests',
+    noPendingMessage: 'There are no pending friend requests right now.',
+    checkingAuth: 'Checking your session...',
+    loginMessage: 'You need to sign in to use friend features.',
+  },
+  practiceTests: {
+    title: 'Practice Tests 📝',
+    subtitle: 'Solve questions at your own pace, no opponent needed',
+    bookmarks: 'My Bookmarked Questions',
+    courseLabel: '📚 Course',
+    topicLabel: '🧩 Topic',
+    allTopics: 'All Topics',
+    questionCount: '%{count} questions',
+    minutesShort: '%{count} min',
+    minutes: '%{count} minutes',
+    untimed: 'Untimed',
+    start: 'Start',
+    loginMessage: 'You need to sign in to take practice tests.',
+    loadingTests: 'Loading tests...',
+    loadTestsFailed: 'Could not load tests: %{message}',
+    unknownError: 'Unknown error',
+    emptyTitle: 'No Tests Found',
+    emptyMessage:
+      'There are no practice tests for this course or topic yet. Try another filter.',
+    questionLabel: 'Question %{number}',
+    blank: 'Blank',
+    correctMark: 'Correct ✓',
+    wrongMark: 'Wrong ✗',
+    yourAnswer: 'Your answer: %{answer}',
+    correctAnswer: 'Correct answer: %{answer}',
+    explanation: '💡 Explanation',
+    finishTitle: 'Finish Test',
+    finishUnanswered: '%{count} questions are unanswered. Finish anyway?',
+    finishConfirm: 'Your answers will be submitted. Are you sure?',
+    finish: 'Finish',
+    exitTitle: 'Leave Test',
+    exitMessage:
+      'Your progress will not be saved. Are you sure you want to leave?',
+    exit: 'Leave',
+    loadingTest: 'Loading test...',
+    loadTestFailed: 'Could not load the test: %{message}',
+    noBookmarks: 'No saved questions match this filter.',
+    notFound: 'Test not found.',
+    noQuestionsTitle: 'No Questions',
+    noQuestionsMessage: 'This test has no questions yet.',
+    backToTests: 'Back to Tests',
+    backToBookmarks: 'Back to Bookmarks',
+    startTest: 'Start Test',
+    completed: 'Test Complete 🎯',
+    scoreLabel: '%{score}% score',
+    correct: 'Correct',
+    wrong: 'Wrong',
+    duration: 'Time',
+    bookmarkNotSaved: 'Results of the bookmark set are not saved.',
+    saving: 'Saving results...',
+    saved: 'Your results were saved ✓',
+    saveFailed: 'Could not save the results.',
+    saveAgain: 'Save Again',
+    answerSummary: '📋 Answer Summary',
+    retake: 'Retake',
+    questionProgress: 'Question %{current} / %{total}',
+    previous: 'Previous',
+    next: 'Next',
+    bookmarkSetCourse: 'Questions you saved from %{course}',
+    bookmarkSetAll: 'A practice set of the questions you saved',
+    scoreExcellent: 'Amazing! You are ready for the DUS 🏆',
+    scoreGreat: 'You are doing great! 🎉',
+    scoreOk: 'Not bad, a bit more revision 💪',
+    scoreLow: 'Go over your mistakes and try again 📚',
+  },
+  studyPlans: {
+    title: 'My Study Plan 📅',
+    subtitle: 'Track your daily goals on the way to the DUS',
+    topicFallback: 'Topic #%{id}',
+    agendaGoals: '%{minutes} min • %{questions} questions',
+    lastStudied: 'Last studied: %{date}',
+    notStudied: 'Not studied yet',
+    percentage: '%{value}%',
+    activate: 'Activate',
+    activateFailed: 'Could not activate the plan. Please try again.',
+    dismiss: 'Cancel',
+    pauseTitle: 'Pause Plan',
+    pauseMessage: 'Are you sure you want to pause "%{title}"?',
+    pause: 'Pause',
+    pauseFailed: 'Could not pause the plan.',
+    deleteTitle: 'Delete Plan',
+    deleteMessage: '"%{title}" will be deleted permanently.',
+    deleteFailed: 'Could not delete the plan.',
+    loginMessage: 'You need to sign in to create a study plan.',
+    loadingPlan: 'Loading plan...',
+    loadFailed: 'Could not load the plan: %{message}',
+    unknownError: 'Unknown error',
+    dailyMinutes: '%{count} min daily',
+    dailyQuestions: '%{count} questions daily',
+    daysLeft: 'Days Left',
+    questions: 'Questions',
+    accuracy: 'Accuracy',
+    noActiveTitle: 'No Active Plan',
+    noActiveMessage:
+      'Pick a ready-made template or build your own plan around your exam date.',
+    createPlan: 'Create Plan',
+    agendaTitle: "🎯 Today's Agenda",
+    noAgenda:
+      'No topics are recommended for today. Recommendations show up here once you have an active plan.',
+    agendaTotals: 'Total %{minutes} min • %{questions} questions',
+    topicProgress: '📊 Topic Progress',
+    topicMeta: '%{answered}/%{total} questions • %{accuracy}% accuracy',
+    myPlans: '🗂️ My Plans',
+    noOtherPlans: 'No other saved plans.',
+    newPlan: 'Create New Plan',
+    priorityHigh: 'High',
+    priorityMedium: 'Medium',
+    priorityLow: 'Low',
+    newTitle: 'New Plan ✏️',
+    newSubtitle: 'Start from a template or build your plan yourself',
+    minutesPerDay: '%{count} min/day',
+    questionsPerDay: '%{count} questions/day',
+    topicCount: '%{count} topics',
+    startDateInvalid: 'The start date must be in YYYY-MM-DD format.',
+    templateRequired: 'Please choose a template.',
+    nameRequired: 'The plan name cannot be empty.',
+    endDateInvalid: 'The end date must be in YYYY-MM-DD format.',
+    endBeforeStart: 'The end date must be after the start date.',
+    invalidGoals: 'Daily goals must be valid numbers.',
+    topicsRequired: 'Select at least one topic.',
+    missingInfo: 'Missing Information',
+    createdTitle: 'Plan Ready 🎉',
+    createdMessage: '"%{title}" was created.',
+    createFailed: 'Could not create the plan.',
+    modeTemplate: '📋 Template',
+    modeCustom: '🛠️ Custom Plan',
+    chooseTemplate: 'Choose a Template',
+    noTemplates:
+      'There are no templates right now. You can create a custom plan.',
+    startDate: 'Start Date',
+    details: 'Plan Details',
+    name: 'Plan Name',
+    namePlaceholder: 'e.g. DUS 2025 Autumn',
+    description: 'Description',
+    optional: 'Optional',
+    start: 'Start',
+    endExam: 'End (Exam)',
+    dailyMinutesLabel: 'Daily Minutes',
+    dailyQuestionsLabel: 'Daily Questions',
+    topicsSelected: 'Topics (%{count} selected)',
+    noTopics: 'The topic list is empty.',
+    creating: 'Creating...',
+    create: 'Create Plan',
+  },
+  bookmarks: {
+    correctAnswer: '✅ Correct answer: %{answer}',
+    hideAnswer: 'Hide Answer',
+    showAnswer: 'Show Answer',
+    courseFallback: 'Course',
+    loginMessage: 'You need to sign in to see your bookmarked questions.',
+    title: 'My Bookmarked Questions 🔖',
+    subtitle: 'Review and practice the questions you saved',
+    syncing: 'Syncing',
+    pendingChanges: 'Pending changes',
+    pendingOnline: 'Sending %{count} changes to the server.',
+    pendingOffline: '%{count} changes will be sent when you are back online.',
+    course: '📚 Course',
+    loading: 'Loading bookmarks...',
+    emptyTitle: 'No Bookmarked Questions',
+    emptyMessage:
+      'Tap the 🔖 icon in duel or test results to save questions here.',
+    goToTests: 'Go to Practice Tests',
+    practice: 'Practice (%{count} questions)',
+  },
+  quickMatch: {
+    searching: 'Searching for a match...',
+    found: 'Match found! Opponent: %{username}',
+    botStarted: 'No match found, a duel against a bot was started',
+    matchError: 'A matchmaking error occurred',
+    cancelled: 'Matchmaking cancelled',
+    setupFailed: 'Could not set up matchmaking listeners',
+    noConnection: 'No socket connection. Please try again.',
+    joining: 'Joining the match queue...',
+    joinFailed: 'Could not join the match queue',
+    leaveFailed: 'Could not leave the queue',
+  },
 };
+
+export default en;
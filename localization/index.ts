@@ -0,0 +1,70 @@
+// localization/index.ts - i18n instance and typed translation keys
+import { I18n, TranslateOptions } from 'i18n-js';
+import { getLocales } from 'expo-localization';
+import tr from './tr';
+import en from './en';
+
+export type Language = 'tr' | 'en';
+
+export type Translations = typeof tr;
+
+// "auth.signIn" style dot paths derived from the Turkish dictionary
+type NestedKeys<T> = {
+  [K in keyof T & string]: T[K] extends string ? K : `${K}.${NestedKeys<T[K]>}`;
+}[keyof T & string];
+
+export type TranslationKey = NestedKeys<Translations>;
+
+export const DEFAULT_LANGUAGE: Language = 'tr';
+
+export const SUPPORTED_LANGUAGES: {
+  code: Language;
+  label: string;
+  flag: string;
+}[] = [
+  { code: 'tr', label: 'Türkçe', flag: '🇹🇷' },
+  { code: 'en', label: 'English', flag: '🇬🇧' },
+];
+
+const i18n = new I18n({ tr, en });
+i18n.defaultLocale = DEFAULT_LANGUAGE;
+i18n.enableFallback = true;
+i18n.locale = DEFAULT_LANGUAGE;
+
+export const isSupportedLanguage = (value: unknown): value is Language =>
+  SUPPORTED_LANGUAGES.some((lang) => lang.code === value);
+
+// First supported device language, Turkish otherwise
+export const getDeviceLanguage = (): Language => {
+  try {
+    const match = getLocales().find((locale) =>
+      isSupportedLanguage(locale.languageCode),
+    );
+    return (match?.languageCode as Language) || DEFAULT_LANGUAGE;
+  } catch {
+    return DEFAULT_LANGUAGE;
+  }
+};
+
+export const setI18nLanguage = (language: Language) => {
+  i18n.locale = language;
+};
+
+export const getI18nLanguage = (): Language =>
+  isSupportedLanguage(i18n.locale) ? i18n.locale : DEFAULT_LANGUAGE;
+
+// BCP 47 tag for Intl / toLocale* formatting
+export const getDateLocale = (language: Language = getI18nLanguage()) =>
+  language === 'en' ? 'en-US' : 'tr-TR';
+
+/**
+ * Translate outside of React (services, helpers). Screens should use the
+ * useTranslation hook so they re-render on language changes.
+ * Interpolation uses i18n-js placeholders, e.g. "%{count} soru".
+ */
+export const translate = (
+  key: TranslationKey,
+  options?: TranslateOptions,
+): string => i18n.t(key, options);
+
+export default i18n;
@@ -9,6 +9,18 @@ export default {
     delete: 'Sil',
     edit: 'Düzenle',
     submit: 'Gönder',
+    success: 'Başarılı',
+    refreshing: 'Yenileniyor...',
+    refreshFailed: 'Yenileme başarısız oldu.',
+    somethingWentWrong: 'Bir Sorun Oluştu',
+    dataLoadError: 'Veriler yüklenirken bir hata oluştu.',
+    daysCount: '%{count} gün',
+    tryAgain: 'Yeniden Dene',
+    yes: 'Evet',
+    ok: 'Tamam',
+    all: 'Tümü',
+    loginRequired: 'Giriş Gerekli',
+    quickActions: 'Hızlı İşlemler',
   },
   auth: {
     login: 'Giriş',
@@ -35,6 +47,90 @@ export default {
     loginError: 'Giriş yapılamadı',
     registerError: 'Kayıt olunamadı',
     logoutError: 'Çıkış yapılamadı',
+    appTagline: 'Diş hekimliği sınavlarınızda güvenle başarılı olun',
+    quickLogin: 'Hızlı Giriş',
+    quickSignUp: 'Hızlı Kayıt',
+    signingIn: 'Giriş yapılıyor...',
+    signingUp: 'Kayıt oluyor...',
+    orContinueWithEmail: 'veya e-posta ile devam et',
+    orSignUpWithEmail: 'veya e-posta ile hesap oluştur',
+    emailPlaceholder: 'E-posta adresinizi girin',
+    passwordPlaceholder: 'Şifrenizi girin',
+    usernamePlaceholder: 'Kullanıcı adınızı girin (en az 3 karakter)',
+    newPasswordPlaceholder: 'Güçlü bir şifre oluşturun',
+    confirmPassword: 'Şifre Tekrarı',
+    confirmPasswordPlaceholder: 'Şifrenizi tekrar girin',
+    forgotPasswordLink: 'Şifremi unuttum?',
+    signInWithEmail: 'E-posta ile Giriş Yap',
+    joinTitle: 'DUSPORT ile Sınav Hazırlığına Katıl',
+    joinSubtitle: 'Diş hekimliği sınav başarınıza giden yolculuğa başlayın',
+    createAccount: 'Hesap Oluştur',
+    creatingAccount: 'Hesap Oluşturuluyor...',
+    enterEmailAndPassword: 'Lütfen e-posta ve şifrenizi girin.',
+    fillAllFields: 'Lütfen tüm alanları doldurun.',
+    usernameMinLength: 'Kullanıcı adı en az 3 karakter olmalıdır',
+    confirmPasswordRequired: 'Şifre tekrarı gereklidir',
+    passwordsDontMatch: 'Şifreler eşleşmiyor',
+    passwordsDontMatchCheck: 'Şifreler eşleşmiyor. Lütfen kontrol edin.',
+    passwordCharacterTypes:
+      'Şifre en az 3 farklı karakter türü içermelidir (büyük harf, küçük harf, rakam, özel karakter)',
+    passwordRules:
+      'Şifre en az 8 karakter ve 3 farklı karakter türü içermelidir.',
+    registerWelcome: 'Hesabınız başarıyla oluşturuldu! Hoş geldiniz!',
+    autoLoginFailed:
+      'Hesabınız oluşturuldu ancak otomatik giriş yapılamadı. Lütfen manuel olarak giriş yapın.',
+    oauthLoginFailed:
+      '%{provider} ile giriş yapılamadı. Lütfen tekrar deneyin.',
+    oauthRegisterFailed:
+      '%{provider} ile kayıt oluşturulamadı. Lütfen tekrar deneyin.',
+    resetSubtitle:
+      'Şifre sıfırlama bağlantısı almak için e-posta adresinizi girin',
+    sending: 'Gönderiliyor...',
+    sendResetLink: 'Sıfırlama Bağlantısı Gönder',
+    backToLogin: 'Giriş Ekranına Dön',
+    resetSuccessTitle: 'Başarılı!',
+    resetEmailSent:
+      'E-posta adresiniz sistemimizde kayıtlıysa, kısa süre içinde şifre sıfırlama bağlantısı alacaksınız. Lütfen gelen kutunuzu kontrol edin.',
+    resetRequestFailed: 'Şifre sıfırlama talebi başarısız oldu',
+    needHelp: 'Sorun mu yaşıyorsun?',
+    getSupport: 'Destek Al',
+    passwordRequirementsTitle: 'Şifre Gereksinimleri:',
+    passwordCriteriaNote: '* En az 3 kriter karşılanmalıdır',
+    passwordCriteria: {
+      minLength: 'En az 8 karakter',
+      upperCase: 'Büyük harf (A-Z)',
+      lowerCase: 'Küçük harf (a-z)',
+      number: 'Rakam (0-9)',
+      special: 'Özel karakter (!@#$...)',
+    },
+    passwordStrength: {
+      veryWeak: 'Çok Zayıf',
+      weak: 'Zayıf',
+      medium: 'Orta',
+      strong: 'Güçlü',
+    },
+    errors: {
+      invalidCredentials:
+        'E-posta veya şifre hatalı. Lütfen kontrol edip tekrar deneyin.',
+      tooManyLoginAttempts:
+        'Çok fazla giriş denemesi yaptınız. Lütfen biraz bekleyin ve tekrar deneyin.',
+      tooManyRegisterAttempts:
+        'Çok fazla kayıt denemesi. Lütfen biraz bekleyin ve tekrar deneyin.',
+      network:
+        'İnternet bağlantısı sorunu. Bağlantınızı kontrol edip tekrar deneyin.',
+      emailNotConfirmed:
+        'E-posta adresinizi doğrulayın. Gelen kutunuzu kontrol edin.',
+      userNotFound: 'Bu e-posta adresi ile kayıtlı hesap bulunamadı.',
+      weakPassword: 'Şifreniz çok zayıf. Daha güçlü bir şifre seçin.',
+      weakPasswordRegister: 'Şifre çok zayıf. Daha güçlü bir şifre oluşturun.',
+      emailTaken: 'Bu e-posta adresi zaten kayıtlı. Giriş yapmayı deneyin.',
+      invalidEmail: 'Geçersiz e-posta adresi. Lütfen doğru formatta girin.',
+      usernameTaken:
+        'Bu kullanıcı adı alınmış. Farklı bir kullanıcı adı deneyin.',
+      emailFormat: 'E-posta adresi formatı hatalı. Örnek: ornek@email.com',
+      loginFailed: 'Giriş sırasında bir hata oluştu. Lütfen tekrar deneyin.',
+      registerFailed: 'Kayıt sırasında bir hata oluştu. Lütfen tekrar deneyin.',
+    },
   },
   home: {
     welcome: 'DUS Sınav Hazırlığına Hoş Geldiniz',
@@ -48,6 +144,36 @@ export default {
     completedTopics: 'Tamamlanan Konular',
     achievements: 'Başarılar',
     viewAll: 'Tümünü Gör',
+    greeting: 'Merhaba %{name}!',
+    defaultName: 'Öğrenci',
+    subtitle: 'DUS sınavına hazırlanmaya devam edelim',
+    loading: 'Ana sayfa yükleniyor...',
+    checkingPreferredCourse: 'Ders tercihiniz kontrol ediliyor...',
+    todaysPlan: 'Bugünün Planı',
+    planSummary: '%{topics} konu • %{minutes} dk • %{topic}',
+    recommendedTopic: 'Önerilen konu',
+    createPlanHint: 'Çalışma planı oluştur, günlük ajandanı gör',
+    continueStudying: 'Çalışmaya Devam Et',
+    activeSession: '📝 Aktif Çalışma Seansı',
+    startNewSession: 'Yeni Çalışma Seansı Başlat',
+    noActiveSession:
+      'Bu ders için aktif bir çalışma seansı yok. Yukarıdaki kronometre ile yeni bir seans başlatabilirsiniz.',
+    recentSessions: '📚 Son 3 Çalışma Seansı',
+    noCompletedSessions: 'Henüz tamamlanmış seans yok',
+    noCompletedSessionsMessage:
+      'Bu ders için tamamlanmış çalışma seansı bulunmuyor.',
+    hideAllSessions: 'Tüm Seansları Gizle',
+    showAllSessions: 'Tüm Seansları Göster (%{count} tane daha)',
+    allSessions: '📋 Tüm Çalışma Seansları',
+    courseDetails: '⚙️ Ders Detayları',
+    courseDetailsUpdated: 'Ders detayları güncellendi!',
+    courseDetailsUpdateError: 'Ders detayları güncellenirken bir hata oluştu.',
+    noCourses: 'Henüz ders yok',
+    noCoursesMessage:
+      'Dersler sekmesinden ilk dersinizi seçin ve çalışmaya başlayın.',
+    analyticsTitle: 'Çalışma Analizi',
+    analyticsHint: 'Grafikler, ders dağılımı ve aktivite takvimi',
+    topicChecklist: 'Konu Listesi ve İlerleme',
   },
   courses: {
     myCourses: 'Kurslarım',
@@ -139,6 +265,44 @@ export default {
     randomOpponent: 'Rastgele Rakip',
     waitingForOpponent: 'Rakip Bekleniyor',
     opponentFound: 'Rakip Bulundu',
+    title: 'Düellolar ⚔️',
+    subtitle: 'Arkadaşlarınla yarışarak öğren',
+    startNewDuel: 'Yeni Düello Başlat',
+    startDuel: 'Düello Başlat',
+    opponent: 'Rakip',
+    opponentWithId: 'Rakip %{id}',
+    duelWith: '%{name} ile Düello',
+    defaultCourseName: 'Tıp Bilgisi Düellosu',
+    statusPending: 'Bekliyor',
+    statusYourTurn: 'Senin Sıran',
+    statusCompleted: 'Tamamlandı',
+    activeDuels: 'Aktif Düellolar',
+    pending: 'Bekleyen',
+    allDuels: 'Tüm Düellolar',
+    practiceTests: 'Pratik Testler',
+    reviewDeck: 'Hata Defteri',
+    noActiveDuels: 'Aktif düello yok',
+    noActiveDuelsMessage: 'Arkadaşlarını düelloya davet et ve rekabeti başlat.',
+    refreshWarning:
+      'Veriler yenilenirken sorun yaşandı. Çekmek için aşağı kaydırın.',
+    loadFailed: 'Düello verileri yüklenemedi',
+    loadError: 'Veri yüklenirken bir hata oluştu. Lütfen tekrar deneyin.',
+    loading: 'Düellolar yükleniyor...',
+    loadingHint: 'Bu birkaç saniye sürebilir',
+    reconnectingTitle: 'Bağlantı koptu',
+    reconnectingMessage:
+      'Düelloya geri dönmeye çalışıyoruz. Kalan süre: %{seconds} sn',
+    reconnectRetry: 'Şimdi Dene',
+    reconnectLeave: 'Düellodan Çık',
+    reconnectFailed: 'Bağlantı zamanında kurulamadı, düello sona erdi.',
+    tournaments: 'Turnuvalar',
+    botPractice: 'Bot Antrenmanı',
+    resultWon: 'Kazandı',
+    resultLost: 'Kaybetti',
+    unknown: 'Bilinmeyen',
+    unknownOpponent: 'Bilinmeyen Rakip',
+    unknownCourse: 'Bilinmeyen Ders',
+    unknownUser: 'Bilinmeyen Kullanıcı',
   },
   profile: {
     myProfile: 'Profilim',
@@ -161,6 +325,34 @@ export default {
     darkMode: 'Karanlık Mod',
     lightMode: 'Aydınlık Mod',
     systemDefault: 'Sistem Varsayılanı',
+    defaultUsername: 'Kullanıcı',
+    duelScore: 'DÜELLO PUANI',
+    loading: 'Profil verileri yükleniyor...',
+    loadFailed: 'Profil verileri yüklenemedi',
+    achievementsError: 'Başarılar yüklenirken hata oluştu.',
+    duelStatsError: 'Düello istatistikleri yüklenirken hata oluştu.',
+    userDataError: 'Kullanıcı verileri yüklenirken hata oluştu.',
+    achievementFallback: 'Başarı',
+    detailedStats: 'Detaylı İstatistikler',
+    lossesLabel: 'Kaybedilen:',
+    longestStreakLabel: 'En Uzun Seri:',
+    earnedAchievements: 'Kazanılan Başarılar',
+    allAchievements: 'Tüm Başarılar',
+    noAchievements: 'Henüz başarı yok',
+    noAchievementsMessage: 'Daha fazla çalışıkça başarılar kazanacaksınız.',
+    exploreAchievements: 'Başarıları Keşfet',
+    viewNotifications: 'Bildirimleri Gör',
+    viewFriends: 'Arkadaşlarını Gör',
+    versionLabel: 'Versiyon: %{version}',
+    upToDate: 'Güncel',
+    examDates: 'Sınav Tarihlerim',
+    backgroundTime: 'Arka Planda Geçen Süre',
+    backgroundAsStudy: 'Çalışma',
+    backgroundAsBreak: 'Mola',
+    backgroundAsk: 'Sor',
+    backgroundTimeHint:
+      'Kronometre çalışırken uygulamadan ayrıldığın süre bu şekilde sayılır.',
+    studySessions: 'Çalışma Seanslarım',
   },
   settings: {
     appSettings: 'Uygulama Ayarları',
@@ -197,4 +389,1118 @@ export default {
     tryAgain: 'Tekrar Dene',
     contactSupport: 'Destek Ekibi ile İletişime Geç',
   },
+  notificationTypes: {
+    study_reminder: 'Çalışma Hatırlatması',
+    achievement_unlock: 'Başarı Açıldı',
+    duel_invitation: 'Düello Daveti',
+    duel_result: 'Düello Sonucu',
+    friend_request: 'Arkadaşlık İsteği',
+    friend_activity: 'Arkadaş Etkinliği',
+    content_update: 'İçerik Güncellemesi',
+    streak_reminder: 'Seri Hatırlatması',
+    plan_reminder: 'Plan Hatırlatması',
+    coaching_note: 'Koçluk Notu',
+    motivational_message: 'Motivasyon Mesajı',
+    system_announcement: 'Sistem Duyurusu',
+    course_reminder: 'Ders Hatırlatması',
+    course_completed: 'Ders Tamamlandı',
+    course_progress: 'Ders İlerlemesi',
+    course_milestone: 'Ders Kilometre Taşı',
+    course_study_session: 'Ders Çalışma Seansı',
+  },
+  relativeTime: {
+    justNow: 'Az önce',
+    minutesAgo: '%{count} dakika önce',
+    hoursAgo: '%{count} saat önce',
+    daysAgo: '%{count} gün önce',
+  },
+  achievementRarity: {
+    common: 'Yaygın',
+    uncommon: 'Nadir',
+    rare: 'Ender',
+    epic: 'Efsanevi',
+    legendary: 'Efsane',
+  },
+  achievementCategories: {
+    general: 'Genel',
+    learning: 'Öğrenme',
+    social: 'Sosyal',
+    progress: 'İlerleme',
+    special: 'Özel',
+    achievement: 'Başarı',
+    study: 'Çalışma',
+    duel: 'Düello',
+    streak: 'Seri',
+    time: 'Zaman',
+    mastery: 'Uzmanlaşma',
+    community: 'Topluluk',
+    milestone: 'Kilometre Taşı',
+    course: 'Ders',
+  },
+  difficulty: {
+    veryHard: 'Çok Zor',
+    hard: 'Zor',
+    medium: 'Orta',
+    easy: 'Kolay',
+    unspecified: 'Belirtilmemiş',
+  },
+  notifications: {
+    title: 'Bildirimler',
+    subtitle: 'Tüm bildirimlerinizi yönetin',
+    newCount: '%{count} yeni bildirim',
+    unread: 'Okunmamış',
+    markAllAsRead: 'Tümünü Okundu İşaretle',
+    markAllConfirm:
+      '%{count} bildirimi okundu olarak işaretlemek istediğinizden emin misiniz?',
+    loadError: 'Bildirimler yüklenirken hata oluştu',
+    markAllError: 'Bildirimler işaretlenirken hata oluştu',
+    markError: 'Bildirim işaretlenirken hata oluştu',
+    deleteTitle: 'Bildirim Sil',
+    deleteUnavailable: 'Bildirim silme özelliği henüz mevcut değil.',
+    noUnread: 'Okunmamış bildirim yok',
+    none: 'Bildirim yok',
+    allRead: 'Tüm bildirimlerinizi okumuşsunuz!',
+    noneYet: 'Henüz bildiriminiz bulunmuyor.',
+    settings: 'Bildirim Ayarları',
+    loginMessage: 'Bildirimlerinizi görmek için giriş yapmanız gerekiyor.',
+    loading: 'Bildirimler yükleniyor...',
+  },
+  notificationSettings: {
+    title: 'Bildirim Ayarları',
+    subtitle: 'Hangi bildirimleri almak istediğinizi seçin',
+    pushEnabled: 'Push bildirimleri etkin ✓',
+    pushDisabled: '⚠️ Push bildirimleri devre dışı',
+    statUnread: 'Okunmamış',
+    statCourse: 'Ders',
+    statSettings: 'Ayar',
+    filterStudy: 'Çalışma',
+    filterSocial: 'Sosyal',
+    filterSystem: 'Sistem',
+    enableAll: 'Tümünü Aç',
+    enableSelected: 'Seçilileri Aç',
+    disableAll: 'Tümünü Kapat',
+    disableSelected: 'Seçilileri Kapat',
+    testNotification: 'Test Bildirimi',
+    refreshPush: 'Push Yenile',
+    inApp: 'Uygulama İçi',
+    push: 'Push Bildirimi',
+    email: 'E-posta',
+    frequency: 'Sıklık',
+    loading: 'Bildirim ayarları yükleniyor...',
+    loadError: 'Ayarlar yüklenirken bir hata oluştu. Lütfen tekrar deneyin.',
+    pushEnabledTitle: 'Push Bildirimleri Açıldı',
+    pushEnabledMessage:
+      'Push bildirimleri için cihazınızın bildirim ayarlarını da kontrol edin.',
+    updateError: 'Ayar güncellenirken bir hata oluştu. Lütfen tekrar deneyin.',
+    frequencyUpdateError: 'Sıklık ayarı güncellenirken bir hata oluştu.',
+    frequencyTitle: 'Bildirim Sıklığı',
+    frequencyPrompt: 'Bu bildirim türü için sıklık seçin:',
+    hourly: 'Saatte bir (1 saat)',
+    daily: 'Günde bir (24 saat)',
+    weekly: 'Haftada bir (168 saat)',
+    testSentTitle: 'Test Bildirimi Gönderildi',
+    testSentMessage:
+      'Test bildirimi başarıyla gönderildi. Birkaç saniye içinde almanız gerekiyor.',
+    testFailed:
+      'Test bildirimi gönderilemedi. İnternet bağlantınızı kontrol edin.',
+    updatedTitle: 'Ayarlar Güncellendi',
+    bulkAllEnabled: 'Tüm bildirimler açıldı.',
+    bulkAllDisabled: 'Tüm bildirimler kapatıldı.',
+    bulkSelectedEnabled: 'Seçili bildirimler açıldı.',
+    bulkSelectedDisabled: 'Seçili bildirimler kapatıldı.',
+    bulkError: 'Toplu işlem sırasında bir hata oluştu.',
+    typeNames: {
+      study_reminder: 'Çalışma Hatırlatıcıları',
+      achievement_unlock: 'Başarı Bildirimleri',
+      duel_invitation: 'Düello Davetleri',
+      duel_result: 'Düello Sonuçları',
+      friend_request: 'Arkadaşlık İstekleri',
+      friend_activity: 'Arkadaş Aktiviteleri',
+      content_update: 'İçerik Güncellemeleri',
+      streak_reminder: 'Seri Hatırlatıcıları',
+      plan_reminder: 'Plan Hatırlatıcıları',
+      coaching_note: 'Koçluk Notları',
+      motivational_message: 'Motivasyon Mesajları',
+      system_announcement: 'Sistem Duyuruları',
+      course_reminder: 'Ders Hatırlatmaları',
+      course_completed: 'Ders Tamamlama Bildirimleri',
+      course_progress: 'Ders İlerleme Bildirimleri',
+      course_milestone: 'Ders Kilometre Taşı Bildirimleri',
+      course_study_session: 'Ders Çalışma Seansı Bildirimleri',
+    },
+    typeDescriptions: {
+      study_reminder: 'Günlük çalışma hedefleriniz için hatırlatıcılar',
+      achievement_unlock: 'Yeni başarılar kazandığınızda bildirimler',
+      duel_invitation: 'Size düello daveti geldiğinde bildirimler',
+      duel_result: 'Düello sonuçları hakkında bildirimler',
+      friend_request: 'Yeni arkadaşlık istekleri',
+      friend_activity: 'Arkadaşlarınızın aktiviteleri hakkında bildirimler',
+      content_update: 'Yeni içerik ve özellikler hakkında bildirimler',
+      streak_reminder: 'Çalışma serinizi sürdürmeniz için hatırlatıcılar',
+      plan_reminder: 'Çalışma planınızdaki görevler için hatırlatıcılar',
+      coaching_note: 'Kişiselleştirilmiş koçluk önerileri',
+      motivational_message: 'Motivasyon artırıcı mesajlar',
+      system_announcement: 'Önemli sistem duyuruları',
+      course_reminder: 'Ders çalışma zamanları için hatırlatıcılar',
+      course_completed: 'Derslerinizi tamamladığınızda bildirimler',
+      course_progress: 'Ders ilerleme durumunuz hakkında güncellemeler',
+      course_milestone: 'Önemli ders aşamalarını geçtiğinizde bildirimler',
+      course_study_session: 'Çalışma seanslarınız hakkında bildirimler',
+    },
+    everyHour: 'Saatte bir',
+    everyDay: 'Günde bir',
+    everyWeek: 'Haftada bir',
+    everyHours: '%{hours} saatte bir',
+  },
+  offline: {
+    offlineTitle: 'Çevrimdışısın 📴',
+    offlineMessage:
+      'Kayıtlı veriler gösteriliyor. Değişikliklerin bağlantı geldiğinde gönderilecek.',
+    pendingChanges: '%{count} değişiklik gönderilmeyi bekliyor',
+    syncing: 'Değişiklikler gönderiliyor...',
+    syncNow: 'Şimdi Gönder',
+    conflictTitle: 'Bazı değişiklikler kaydedilemedi ⚠️',
+    conflictItem: '%{action} (%{date}): %{message}',
+    dismiss: 'Kapat',
+    queuedTitle: 'Çevrimdışı kaydedildi 📥',
+    sessionQueued: 'Çalışma seansın bağlantı geldiğinde kaydedilecek.',
+    progressQueued: 'Ders ilerlemen bağlantı geldiğinde kaydedilecek.',
+    actions: {
+      endStudySession: 'Çalışma seansını bitirme',
+      updateCourseProgress: 'Ders ilerlemesini güncelleme',
+      markNotificationRead: 'Bildirimi okundu işaretleme',
+    },
+  },
+  subscription: {
+    title: 'Premium Üyelik 💎',
+    subtitle: 'Tüm özelliklerin kilidini aç, DUS hazırlığını hızlandır',
+    premiumActive: 'Premium aktif ✨',
+    freePlan: 'Ücretsiz Plan',
+    freePlanMessage:
+      'Premium ile zor botlara meydan oku, sınırsız pratik yap ve detaylı analizlere eriş.',
+    daysRemaining: '%{count} gün kaldı',
+    expiresOn: 'Bitiş: %{date}',
+    usageValue: '%{used} / %{limit}',
+    usedUnlimited: '%{used} kullanıldı • Sınırsız',
+    plansTitle: 'Planlar 🚀',
+    popular: 'En Popüler',
+    perDays: '%{count} gün',
+    buy: 'Satın Al',
+    processing: 'İşleniyor...',
+    verifying: 'Ödeme doğrulanıyor...',
+    noPlans: 'Plan bulunamadı',
+    noPlansMessage:
+      'Şu anda satın alınabilecek bir plan yok. Daha sonra tekrar kontrol et.',
+    plansError: 'Planlar yüklenemedi. Lütfen tekrar dene.',
+    promoTitle: 'Promosyon Kodu 🎟️',
+    promoPlaceholder: 'Kodunu gir',
+    promoApply: 'Uygula',
+    promoApplied: '%{code} uygulandı',
+    promoInvalid: 'Geçersiz veya süresi dolmuş kod.',
+    discountPercent: '%%{percent} indirim',
+    discountAmount: '%{amount} indirim',
+    paymentSuccess: 'Ödeme başarılı! Premium özellikler açıldı 🎉',
+    paymentFailed: 'Ödeme doğrulanamadı.',
+    paymentCancelled: 'Ödeme tamamlanmadı.',
+    verifyError: 'Ödeme doğrulanırken bir hata oluştu. Lütfen tekrar dene.',
+    checkoutError: 'Ödeme başlatılamadı. Lütfen tekrar dene.',
+    loginRequired: 'Premium üyelik için giriş yapman gerekiyor.',
+    manage: 'Premium Üyelik',
+    gate: {
+      badge: 'Premium',
+      title: 'Premium Özellik 🔒',
+      featureTitle: '%{feature} Premium üyelere özel 🔒',
+      message: 'Bu özelliği kullanmak için Premium üyeliğe geç.',
+      unlock: "Premium'a Geç",
+      hardBots: 'Zor botlar',
+    },
+    features: {
+      tests: 'Pratik Testler',
+      duels: 'Düellolar',
+      bot_duels: 'Bot Düelloları',
+      study_plans: 'Çalışma Planları',
+      analytics: 'Analizler',
+    },
+  },
+  coaching: {
+    title: 'Koçluk',
+    subtitle: 'Haftalık notlar, motivasyon mesajları ve strateji videoları',
+    loginRequired: 'Koçluk içeriklerini görmek için giriş yapmalısınız.',
+    tabs: {
+      notes: 'Notlar',
+      messages: 'Motivasyon',
+      videos: 'Videolar',
+    },
+    week: '%{week}. Hafta',
+    readMore: 'Devamını Oku',
+    showLess: 'Daha Az Göster',
+    notesError: 'Koçluk notları yüklenemedi.',
+    noNotes: 'Henüz koçluk notu yok',
+    noNotesMessage: 'Yeni haftalık notlar yayınlandığında burada göreceksiniz.',
+    messagesError: 'Motivasyon mesajları yüklenemedi.',
+    noMessages: 'Henüz mesaj yok',
+    noMessagesMessage: 'Motivasyon mesajları yakında burada olacak.',
+    videosError: 'Strateji videoları yüklenemedi.',
+    noVideos: 'Henüz video yok',
+    noVideosMessage: 'Strateji videoları eklendiğinde burada listelenecek.',
+    premiumVideos: 'Premium strateji videoları',
+    premiumVideosMessage:
+      'Tüm strateji videolarını izlemek için Premium üyeliğe geçin.',
+    playVideo: 'Videoyu oynat',
+    videoError: 'Video oynatılamadı. Bağlantınızı kontrol edip tekrar deneyin.',
+    noteOfTheDay: 'Günün Notu',
+    messageOfTheDay: 'Günün Motivasyonu',
+  },
+  navigation: {
+    notFoundTitle: 'Sayfa bulunamadı',
+    notFoundMessage:
+      'Açmaya çalıştığınız sayfa taşınmış veya artık mevcut değil.',
+    goHome: 'Ana Sayfaya Dön',
+    goBack: 'Geri Dön',
+  },
+  changePassword: {
+    subtitle: 'Hesabınızın güvenliği için güçlü ve benzersiz bir şifre seçin',
+    currentPassword: 'Mevcut Şifre',
+    newPassword: 'Yeni Şifre',
+    submit: 'Şifreyi Güncelle',
+    samePassword: 'Yeni şifre mevcut şifrenizle aynı olamaz.',
+    failed: 'Şifre güncellenemedi. Lütfen tekrar deneyin.',
+    successTitle: 'Şifre güncellendi',
+    successMessage: 'Bir sonraki girişinizde yeni şifrenizi kullanın.',
+    oauthTitle: 'Şifre gerekmiyor',
+    oauthMessage:
+      'Hesabınız %{provider} ile giriş yapıyor. Şifrenizi %{provider} hesabınızdan yönetebilirsiniz.',
+  },
+  duelReplay: {
+    title: 'Düello Tekrarı',
+    subtitle: '%{name} ile düellonu tur tur incele',
+    unknownOpponent: 'Rakip',
+    round: 'Tur %{current} / %{total}',
+    correctCount: '%{correct}/%{total} doğru',
+    you: 'Sen',
+    correct: 'Doğru',
+    incorrect: 'Yanlış',
+    noAnswer: 'Cevap yok',
+    picked: 'Seçim: %{answer}',
+    responseTime: 'Yanıt süresi: %{time}',
+    correctAnswer: 'Doğru cevap: %{answer}',
+    explanation: 'Açıklama',
+    previous: 'Önceki',
+    next: 'Sonraki',
+    reportQuestion: 'Soruyu Bildir',
+    notFoundTitle: 'Tekrar bulunamadı',
+    notFoundMessage: 'Bu düellonun turları bu cihazda kaydedilmemiş.',
+    backToHistory: 'Geçmişe Dön',
+    watchReplay: 'Tekrarı İzle',
+  },
+  powerUps: {
+    title: 'Güçlendiriciler',
+    hint: 'İpucu',
+    hintDescription: 'İki yanlış şıkkı kaldırır',
+    skip: 'Geç',
+    skipDescription: 'Bu soruyu puan kaybetmeden geçer',
+    freeze: 'Dondur',
+    freezeDescription: 'Süreyi kısa bir süre durdurur',
+    double: 'Çift Puan',
+    doubleDescription: 'Doğru cevap bu turda iki puan getirir',
+    extraTime: 'Ek Süre',
+    extraTimeDescription: 'Bu soruya ek süre kazandırır',
+    opponentUsed: 'Rakip %{powerUp} kullandı',
+    doubleActive: 'Çift puan aktif',
+    timerFrozen: 'Süre donduruldu',
+    skipped: 'Soru Geçildi',
+    failed: 'Güçlendirici kullanılamadı',
+  },
+  tournaments: {
+    title: 'Turnuvalar',
+    subtitle: 'Çalışma grubunla eleme usulü turnuva düzenle',
+    create: 'Turnuva Oluştur',
+    courseLabel: 'Ders: %{course}',
+    selectCourseFirst: 'Turnuva oluşturmak için önce bir ders seç',
+    nameLabel: 'Turnuva adı',
+    namePlaceholder: 'Örn. Cuma Akşamı Kupası',
+    nameRequired: 'Turnuva adı gerekli',
+    sizeLabel: 'Oyuncu sayısı',
+    sizeOption: '%{count} oyuncu',
+    createSubmit: 'Oluştur',
+    createFailed: 'Turnuva oluşturulamadı',
+    joinFailed: 'Turnuvaya katılınamadı',
+    actionFailed: 'İşlem tamamlanamadı',
+    loadFailed: 'Turnuvalar yüklenemedi',
+    emptyTitle: 'Henüz turnuva yok',
+    emptyMessage: 'Bu ders için ilk turnuvayı sen oluştur',
+    statusRegistering: 'Kayıt açık',
+    statusInProgress: 'Devam ediyor',
+    statusCompleted: 'Tamamlandı',
+    playerCount: '%{count}/%{size} oyuncu',
+    joined: 'Katıldın',
+    join: 'Katıl',
+    leave: 'Ayrıl',
+    start: 'Turnuvayı Başlat',
+    viewBracket: 'Tabloyu Gör',
+    organizer: 'Düzenleyen',
+    eliminated: 'Elendin',
+    participants: 'Katılımcılar',
+    readyToStart: 'Kadro tamam, turnuvayı başlatabilirsin',
+    waitingForOrganizer: 'Kadro tamam, düzenleyenin başlatması bekleniyor',
+    waitingForPlayers: '%{count} oyuncu daha bekleniyor',
+    yourMatch: 'Sıradaki Maçın',
+    yourMatchAgainst: '%{round}: %{name} ile eşleştin',
+    waitingForOpponent: 'Rakibin diğer maçın bitmesini bekliyor',
+    play: 'Oyna',
+    bracket: 'Turnuva Tablosu',
+    you: 'sen',
+    toBeDecided: 'Belli değil',
+    final: 'Final',
+    semiFinal: 'Yarı Final',
+    quarterFinal: 'Çeyrek Final',
+    roundOf: 'Son %{count}',
+    champion: 'Şampiyon',
+    championTitle: 'Şampiyon Belli Oldu!',
+    championYou: 'Tebrikler, turnuvayı kazandın!',
+    championMessage: '%{name} turnuvayı kazandı',
+    notFoundTitle: 'Turnuva bulunamadı',
+    notFoundMessage: 'Bu turnuva silinmiş ya da hiç var olmamış olabilir',
+    backToList: 'Turnuvalara Dön',
+  },
+  asyncDuel: {
+    title: 'Sıralı Düello',
+    subtitle: '%{name} ile kendi zamanında oyna',
+    opponent: 'Rakip',
+    modeLive: 'Canlı',
+    modeAsync: 'Sırayla',
+    modeLiveHint: 'İkiniz aynı anda, gerçek zamanlı oynarsınız.',
+    modeAsyncHint:
+      'Sen şimdi oynarsın, rakibinin oynamak için %{hours} saati olur.',
+    yourTurn: 'Sıra sende',
+    yourTurnListTitle: 'Sıra Sende',
+    questionCount: '%{count} soru',
+    timeRemaining: '%{hours} sa %{minutes} dk kaldı',
+    expired: 'Süre doldu',
+    expiredTitle: 'Süre doldu',
+    expiredMessage: 'Bu düellonun oynama süresi doldu.',
+    rules:
+      'Her soru için %{seconds} saniyen var. Başladıktan sonra duraklatamazsın.',
+    start: 'Başla',
+    questionCounter: 'Soru %{current}/%{total}',
+    submitting: 'Cevapların gönderiliyor...',
+    submitFailed: 'Cevaplar gönderilemedi. Lütfen tekrar deneyin.',
+    unsentTitle: 'Cevaplar gönderilmedi',
+    unsentMessage: 'Turunu tamamladın ama cevaplar gönderilemedi. Tekrar dene.',
+    retrySubmit: 'Tekrar Gönder',
+    waitingTitle: 'Rakibin bekleniyor',
+    waitingMessage:
+      '%{name} henüz oynamadı (%{remaining}). Sonuç gelince bildirim alacaksın.',
+    opponentExpired: '%{name} süresi içinde oynamadı.',
+    yourScore: 'Skorun (%{total} soruda)',
+    you: 'Sen',
+    youWon: 'Kazandın! 🎉',
+    youLost: 'Kaybettin',
+    draw: 'Berabere',
+    review: 'Cevapların',
+    yourAnswer: 'Cevabın: %{answer}',
+    noAnswer: 'Cevap yok',
+    correctAnswer: 'Doğru: %{answer}',
+    notFoundTitle: 'Düello bulunamadı',
+    notFoundMessage: 'Bu düello yüklenemedi ya da artık mevcut değil.',
+  },
+  ratings: {
+    tierBronze: 'Bronz',
+    tierSilver: 'Gümüş',
+    tierGold: 'Altın',
+    tierPlatinum: 'Platin',
+    tierDiamond: 'Elmas',
+    tierMaster: 'Usta',
+    rankedQuickMatch: 'Dereceli Hızlı Eşleşme',
+    rankedCourse: 'Ders: %{course}',
+    selectCourseFirst: 'Dereceli oynamak için önce bir ders seç.',
+    findRankedMatch: 'Rakip Bul',
+    cancelSearch: 'Aramayı İptal Et',
+    searching: '%{seconds} sn aranıyor',
+    searchRange: '±%{range} puan',
+    searchRangeAny: 'tüm rakipler',
+    leaderboardOverall: 'Genel',
+    leaderboardCourse: 'Ders',
+    leaderboardEmptyTitle: 'Henüz sıralama yok',
+    leaderboardEmptyMessage:
+      'Dereceli düellolar oynandıkça liderlik tablosu dolacak.',
+  },
+  botPractice: {
+    title: 'Bot Antrenmanı',
+    subtitle:
+      'Seviyene uyum sağlayan bir bota karşı konu ve soru sayısını seçerek pratik yap.',
+    selectCourseFirst: 'Önce bir ders seçmelisin.',
+    courseLabel: 'Ders: %{course}',
+    topicLabel: 'Konu',
+    allTopics: 'Tüm Konular',
+    questionCountLabel: 'Soru Sayısı',
+    questionCountOption: '%{count} Soru',
+    botName: 'Uyarlanabilir Bot',
+    targetAccuracy: 'Hedef doğruluk: %%{accuracy}',
+    basedOnTopic:
+      'Bu konudaki doğruluğun (%%{accuracy}, %{count} soru) baz alındı.',
+    basedOnCourse:
+      'Bu dersteki doğruluğun (%%{accuracy}, %{count} soru) baz alındı.',
+    basedOnDefault:
+      'Henüz yeterli veri yok; bot soru çözdükçe seviyene uyum sağlayacak.',
+    cappedNotice:
+      "Ücretsiz planda bot zorluğu sınırlı. Tam uyum için Premium'a geç.",
+    challenge: 'Bota Meydan Oku',
+    difficulty1: 'Kolay',
+    difficulty2: 'Orta',
+    difficulty3: 'Zor',
+    difficulty4: 'Uzman',
+    difficulty5: 'Efsane',
+  },
+  examPlanner: {
+    title: 'Sınav Tarihlerim',
+    subtitle:
+      'Hedeflediğin DUS oturumlarını gir; ana sayfada geri sayım ve haftalık çalışma temposu görünsün.',
+    springSession: 'İlkbahar DUS',
+    autumnSession: 'Sonbahar DUS',
+    datePlaceholder: 'YYYY-AA-GG',
+    dateHint: 'Boş bırakırsan bu oturum planlamaya dahil edilmez.',
+    invalidDate: '%{session} tarihi YYYY-AA-GG formatında olmalı.',
+    saved: 'Sınav tarihlerin kaydedildi.',
+    saveFailed: 'Sınav tarihleri kaydedilemedi.',
+    daysLeft: '%{count} gün kaldı',
+    examToday: 'Sınav bugün!',
+    homeTitle: 'DUS Geri Sayımı',
+    setDateHint: 'Sınav tarihini gir, çalışma temponu planlayalım.',
+    countdown: '%{session} için %{count} gün',
+    examTodayTitle: '%{session} bugün!',
+    summaryOnTrack: 'Haftada yaklaşık %{hours} saat çalışarak yetişebilirsin.',
+    summaryBehind:
+      'Haftada yaklaşık %{hours} saat gerekli • %{count} ders geride',
+    allCoursesDone: 'Tüm dersleri tamamladın, şimdi tekrar zamanı!',
+    courseHours: '%{hours} sa/hafta • %%{percent}',
+    behind: 'Geride',
+    inactive: 'Ara verildi',
+  },
+  charts: {
+    less: 'Az',
+    more: 'Çok',
+    max: 'En yüksek: %{value}',
+  },
+  analytics: {
+    title: 'Çalışma Analizi',
+    subtitle:
+      'Çalışma sürelerini, derslere dağılımını ve istikrarını takip et.',
+    preset: {
+      week: '7 gün',
+      month: '30 gün',
+      quarter: '90 gün',
+    },
+    totalHours: 'Toplam saat',
+    sessions: 'Seans',
+    activeDays: 'Aktif gün',
+    trendPercent: '%%{value}',
+    trendFlat: 'Değişim yok',
+    dailyTitle: 'Günlük Çalışma Süresi',
+    dailyHint: 'Seçilen aralıkta her gün çalışılan dakika',
+    weeklyTitle: 'Haftalık Saatler',
+    weeklyHint: 'Pazartesiden başlayan haftalara göre toplam saat',
+    distributionTitle: 'Ders Dağılımı',
+    distributionHint: 'Tüm zamanlarda derslere ayrılan çalışma süresi',
+    heatmapTitle: 'Aktivite Takvimi',
+    heatmapHint: 'Son 6 ayda %{count} gün çalıştın',
+    selectedDay: '%{date}: %{minutes} dk',
+    hoursShort: '%{value} sa',
+    minutesShort: '%{value} dk',
+    total: 'Toplam',
+    otherCourses: 'Diğer dersler',
+    emptyPeriod: 'Bu aralıkta çalışma kaydı yok.',
+    emptyDistribution: 'Henüz ders bazında çalışma verisi yok.',
+    loadFailed: 'Analiz verileri yüklenemedi.',
+  },
+  chronometer: {
+    modes: {
+      free: 'Serbest',
+      pomodoro: 'Pomodoro',
+      fiftyTen: '50/10',
+      custom: 'Özel',
+    },
+    workPhase: 'Çalışma',
+    breakPhase: 'Mola',
+    phaseRemaining: '%{phase} • %{time} kaldı • %{cycle}. döngü',
+    customWork: 'Çalışma %{minutes} dk',
+    customBreak: 'Mola %{minutes} dk',
+    course: 'Ders',
+    breakStartTitle: '☕ Mola zamanı',
+    breakStartBody:
+      '%{course} için çalışma bloğu bitti. %{minutes} dakika mola ver.',
+    workStartTitle: '📚 Çalışmaya dönüş',
+    workStartBody:
+      'Mola bitti. %{course} için %{minutes} dakikalık yeni blok başladı.',
+    ongoingTitle: '📚 %{course} çalışılıyor',
+    ongoingBody: '%{elapsed} çalışıldı',
+    ongoingPausedBody: 'Molada • %{elapsed} çalışıldı',
+    elapsedMinutes: '%{minutes} dk',
+    elapsedHours: '%{hours} sa %{minutes} dk',
+    backgroundTitle: 'Tekrar hoş geldin',
+    backgroundMessage:
+      'Seans sürerken %{minutes} dakika uygulamadan uzaktaydın. Bu süre nasıl sayılsın?',
+    countAsStudy: 'Çalışma',
+    countAsBreak: 'Mola',
+    activeSessionTitle: 'Aktif Seans Var',
+    activeSessionMessage:
+      '"%{current}" kursu için aktif bir çalışma seansınız var. Bu seansı sonlandırıp "%{next}" için yeni seans başlatmak istiyor musunuz?',
+    endActiveSession: 'Seansı Sonlandır',
+    endTitle: 'Çalışma Seansını Bitir',
+    endMessage:
+      '%{time} süre çalıştınız. Bu seansı sonlandırmak istiyor musunuz?',
+    endSession: 'Seansı Bitir',
+  },
+  studySessions: {
+    title: 'Çalışma Seansları',
+    subtitle:
+      'Kronometresiz çalıştığın zamanları ekle, kayıtlı seansları düzelt veya sil.',
+    addTitle: 'Geçmiş Seans Ekle',
+    editTitle: 'Seansı Düzenle',
+    addButton: 'Seansı Ekle',
+    course: 'Ders',
+    courseFallback: 'Ders %{id}',
+    date: 'Tarih',
+    startTime: 'Başlangıç',
+    endTime: 'Bitiş',
+    timePlaceholder: 'SS:DD',
+    breakMinutes: 'Mola (dakika)',
+    notes: 'Notlar',
+    notesPlaceholder: 'Örn. kütüphanede konu tekrarı',
+    listTitle: 'Kayıtlı Seanslar',
+    active: 'Devam ediyor',
+    durations: 'Çalışma %{study} • Mola %{break}',
+    emptyTitle: 'Henüz seans yok',
+    emptyMessage:
+      'Kronometreyle veya bu ekrandan eklediğin seanslar burada listelenir.',
+    added: 'Seans eklendi.',
+    updated: 'Seans güncellendi.',
+    deleted: 'Seans silindi.',
+    saveFailed: 'Seans kaydedilemedi.',
+    deleteFailed: 'Seans silinemedi.',
+    deleteTitle: 'Seansı Sil',
+    deleteMessage:
+      '%{session} seansı silinsin mi? Çalışma süren istatistiklerinden düşülecek.',
+    courseRequired: 'Bir ders seç.',
+    invalidDate: 'Tarihi YYYY-AA-GG biçiminde gir.',
+    invalidTime: 'Saatleri SS:DD biçiminde gir.',
+    endBeforeStart: 'Bitiş saati başlangıç saatiyle aynı olamaz.',
+    inFuture: 'Seans gelecekte bitemez.',
+    tooLong: 'Bir seans 16 saatten uzun olamaz.',
+    invalidBreak: 'Mola süresini tam dakika olarak gir.',
+    breakTooLong: 'Mola seansın tamamından kısa olmalı.',
+    overlap: 'Bu seans %{session} seansıyla çakışıyor.',
+    endsNextDay: 'Oturum ertesi gün bitiyor.',
+  },
+  courseChecklist: {
+    title: 'Ders Detayı',
+    subtitle:
+      'Tamamladığın alt konuları işaretle, her konuyu kaç kez tekrar ettiğini takip et.',
+    completion: 'Ders İlerlemesi',
+    percentage: '%%{percentage}',
+    completionHint: '%{total} alt konunun %{completed} tanesi tamamlandı',
+    subtopicCount: '%{completed}/%{total}',
+    repetitions: 'Tekrar sayısı',
+    increaseRepetitions: 'Tekrar sayısını artır',
+    decreaseRepetitions: 'Tekrar sayısını azalt',
+    noSubtopics: 'Bu konuda alt konu yok.',
+    emptyTitle: 'Konu bulunamadı',
+    emptyMessage: 'Bu ders için henüz konu eklenmemiş.',
+    updateFailed: 'İlerleme güncellenemedi. Lütfen tekrar dene.',
+  },
+  reviewDeck: {
+    new: 'Yeni',
+    today: 'Bugün',
+    tomorrow: 'Yarın',
+    inDays: '%{days} gün sonra',
+    topicFallback: 'Konu #%{id}',
+    gradeHard: 'Zor',
+    gradeGood: 'İyi',
+    gradeEasy: 'Kolay',
+    title: 'Hata Defteri 📒',
+    subtitle: 'Yanlış yaptığın soruları doğru zamanda tekrar et',
+    loginMessage: 'Hata defterini görmek için giriş yapmalısınız.',
+    finish: 'Bitir',
+    mistakeCount: '%{count} kez yanlış',
+    resultCorrect: '✅ Doğru!',
+    resultWrong: '❌ Yanlış',
+    explanation: 'Açıklama',
+    noExplanation: 'Bu soru için henüz açıklama eklenmemiş.',
+    continue: 'Devam',
+    reviewed: 'Tekrar',
+    correct: 'Doğru',
+    wrong: 'Yanlış',
+    saveFailedTitle: 'Kaydedilemedi',
+    saveFailedMessage:
+      'Tekrar sonuçların sunucuya gönderilemedi. Tekrar planın cihazında kayıtlı.',
+    saveAgain: 'Tekrar Kaydet',
+    savedTitle: 'Kaydedildi',
+    savedMessage: '%{count} cevap geçmişine eklendi.',
+    backToDeck: 'Hata Defterine Dön',
+    loading: 'Hata defteri yükleniyor...',
+    loadFailed: 'Sorular yüklenemedi: %{message}',
+    unknownError: 'Bilinmeyen hata',
+    course: '📚 Ders',
+    topic: '🧩 Konu',
+    allTopics: 'Tüm Konular',
+    emptyTitle: 'Hata Defterin Boş',
+    emptyMessage:
+      'Yanlış yaptığın sorular burada birikecek. Düello ya da pratik test çözerek başla.',
+    dueToday: 'Bugün Tekrar',
+    totalQuestions: 'Toplam Soru',
+    startReview: 'Tekrara Başla (%{count})',
+    doneForToday: 'Bugünlük tekrarın bitti 🎉 Sıradaki: %{next}',
+    studyAnyway: 'Yine de Çalış',
+  },
+  duelHistory: {
+    title: 'Düello Geçmişi 📈',
+    subtitle: 'Performansın ve geçmiş düellolarınız',
+    tabStats: 'İstatistikler',
+    tabRecent: 'Son Düellolar',
+    tabAll: 'Tüm Geçmiş',
+    loadingStats: 'İstatistikler yükleniyor...',
+    overallPerformance: 'Genel Performans 📊',
+    winsOfTotal: '%{total} Düellodan %{wins} Galibiyet',
+    wins: 'Galibiyet',
+    losses: 'Mağlubiyet',
+    successRate: 'Başarı Oranı',
+    winPercentage: 'Kazanma yüzdesi',
+    recentCount: 'Son Düellolar (%{count})',
+    allCount: 'Tüm Düellolar (%{count})',
+    emptyTitle: 'Henüz Düello Yok',
+    emptyRecentMessage: 'İlk düellonu başlat ve burada görüntüle!',
+    emptyAllMessage:
+      'İstatistikler sekmesinden genel performansını görebilirsin.',
+    loginMessage: 'Düello geçmişini görmek için giriş yapmanız gerekiyor.',
+    unknownError: 'Bilinmeyen hata oluştu',
+    loadFailed: 'İstatistik verileri yüklenirken hata oluştu: %{error}',
+    refresh: 'Yenile',
+  },
+  newDuel: {
+    title: 'Yeni Düello ⚔️',
+    subtitle: 'Rakip seç ve meydan okumaya başla',
+    subtitleSignedOut: 'Meydan okumak için giriş yapın',
+    tabFind: 'Rakip Bul',
+    tabFriends: 'Arkadaşlar',
+    tabBots: 'Botlar',
+    tabLeaderboard: 'Liderlik',
+    connecting: 'Bağlanıyor...',
+    challenge: 'Meydan Oku',
+    botStats: 'Doğruluk: %{accuracy}% • Süre: %{seconds}s',
+    opponentWinRate: 'Kazanma Oranı: %{winRate}%',
+    opponentDuels: ' • %{count} Düello',
+    searchPlaceholder: 'Kullanıcı adı ile ara',
+    searchAndChallenge: 'Ara ve Meydan Oku',
+    userNotFound: "'%{username}' bulunamadı.",
+    searchFailed: 'Arama sırasında hata oluştu.',
+    loginToChallenge: 'Meydan okumak için giriş yapmanız gerekiyor.',
+    loginToChallengeBot: 'Bot meydan okumak için giriş yapmanız gerekiyor.',
+    noCourseSelected: 'Ders seçilmedi.',
+    sessionExpired: 'Oturum süresi dolmuş. Lütfen tekrar giriş yapın.',
+    challengeFailed: 'Meydan okuma gönderilemedi. Lütfen tekrar deneyin.',
+    loadingData: 'Düello verileri yükleniyor...',
+    recommendedOpponents: 'Önerilen Rakipler',
+    noRecommendedOpponents: 'Şu an için önerilen rakip bulunmuyor.',
+    noFriendsTitle: 'Arkadaş Yok',
+    noFriendsMessage: 'Düello yapmak için önce arkadaş eklemelisin.',
+    noBotsTitle: 'Bot Yok',
+    noBotsMessage: 'Şu an kullanılabilir bot bulunmuyor.',
+    duelWithBot: '%{name} ile Düello',
+    selectCourseTitle: 'Ders Seçin',
+    confirmTitle: 'Meydan Okumayı Onayla',
+    challengeTitle: 'Meydan Okuma',
+    opponentFallback: 'Rakip',
+    opponentLabel: 'Rakip: %{name}',
+    botDetails: 'Zorluk: Seviye %{level} • Doğruluk: %{accuracy}%',
+    courseDescription:
+      'Bir ders seçin! Seçilen dersten %{count} rastgele soru gelecek.',
+    spin: 'ÇEVİR',
+    pickCourse: 'Bir Ders Seçin',
+    pickCourseHint: 'Bu dersten %{count} rastgele soru gelecek',
+    pickCoursePlaceholder: 'Bir Ders Seçin...',
+    spinForCourse: 'Ders İçin Çevir',
+    botSummaryTitle: 'Bot Meydan Okuma Özeti',
+    summaryTitle: 'Meydan Okuma Özeti',
+    summaryOpponent: 'Rakip:',
+    summaryCourse: 'Ders:',
+    summaryQuestionCount: 'Soru Sayısı:',
+    randomQuestions: '%{count} Rastgele Soru',
+    challengeBotSubmit: 'Bota Meydan Oku!',
+    challengeSubmit: 'Meydan Oku!',
+    back: 'Geri Dön',
+    authenticating: 'Kimlik doğrulanıyor...',
+  },
+  liveDuel: {
+    loadingInfo: 'Düello bilgileri yükleniyor...',
+    botLevel: '%{name} (Seviye %{level})',
+    savingResults: 'Sonuçlar kaydediliyor...',
+    questionCounter: 'Soru %{current} / %{total}',
+    bot: 'Bot',
+    opponent: 'Rakip',
+    you: 'Sen',
+    opponentDone: '%{name}: Tamamladı ✓',
+    botCalculating: '%{name}: Hesaplıyor...',
+    opponentThinking: '%{name}: Düşünüyor...',
+    yourChoice: ' (Seçiminiz)',
+    connecting: 'Düelloya Bağlanıyor...',
+    versus: 'KARŞI',
+    lobbyTitle: 'Düello Lobisi',
+    startingWith: '%{name} ile düello başlıyor...',
+    waitingForPlayers: 'Her iki oyuncunun hazır olması bekleniyor...',
+    botInfoTitle: 'Bot Bilgileri',
+    botDifficulty: 'Zorluk: Seviye %{level} • Doğruluk: %{accuracy}%',
+    botAvgTime: 'Ortalama Yanıt Süresi: %{seconds}s',
+    ready: 'Hazır ✓',
+    botReady: 'Bot Hazır ✓',
+    waiting: 'Bekliyor...',
+    getReady: 'Hazır Olun!',
+    loadingQuestion: 'Soru yükleniyor...',
+    answerSubmitted: 'Cevap Gönderildi ✓',
+    botCalculatingStatus: 'Bot hesaplıyor...',
+    waitingForOpponent: 'Rakip bekleniyor...',
+    correctAnswer: 'Doğru Cevap: %{answer}',
+    explanation: 'Açıklama',
+    roundResults: '%{round}. Tur Sonuçları',
+    correct: 'Doğru ✓',
+    wrong: 'Yanlış ✗',
+    picked: 'Seçim: %{answer}',
+    yourScore: 'Puanınız',
+    reportTitle: 'Soruyla ilgili bir sorun mu var?',
+    reportDescription:
+      'Yanlış cevap, yazım hatası veya belirsizlik varsa bize bildirin',
+    reportQuestion: 'Soruyu Bildir',
+    nextQuestion: 'Sonraki soru %{seconds} saniye içinde...',
+    victory: 'ZAFER!',
+    beatBot: '%{name} botu yendiniz!',
+    defeat: 'Yenilgi',
+    lostToBot: '%{name} botu sizi yendi!',
+    drawTitle: 'Beraberlik!',
+    summaryTitle: 'Düello Özeti',
+    unknownTest: 'Bilinmeyen Test',
+    summaryBotDifficulty: 'Zorluk Seviye %{level} • %%{accuracy} Doğruluk',
+    questionsAnswered: '%{count} soru yanıtlandı',
+    resultsSaved: 'Sonuçlar Kaydedildi ✓',
+    accuracy: 'Doğruluk: %%{accuracy}',
+    avgTime: 'Ort. Süre: %{seconds}s',
+    correctCount: 'Doğru: %{count}',
+    wrongCount: 'Yanlış: %{count}',
+    newDuel: 'Yeni Düello',
+    exit: 'Çık',
+    connectionError: 'Bağlantı Hatası',
+    somethingWentWrong: 'Bir şeyler ters gitti',
+    exitTitle: 'Düellodan Çık',
+    exitMessage: 'Ayrılmak istediğinizden emin misiniz? Bu yenilgi sayılacak.',
+    preparing: 'Hazırlanıyor...',
+  },
+  achievementRequirements: {
+    total_duels: 'Toplam Düello',
+    duels_won: 'Kazanılan Düello',
+    duels_lost: 'Kaybedilen Düello',
+    distinct_study_days: 'Farklı Çalışma Günü',
+    total_study_time_minutes: 'Toplam Çalışma Süresi',
+    current_study_streak: 'Mevcut Çalışma Serisi',
+    longest_study_streak: 'En Uzun Çalışma Serisi',
+    weekly_champion_count: 'Haftalık Şampiyonluk',
+    user_registration: 'Kullanıcı Kaydı',
+    courses_studied: 'Çalışılan Ders',
+    courses_completed: 'Tamamlanan Ders',
+    total_course_study_time_seconds: 'Toplam Ders Çalışma Süresi',
+    total_course_study_time_minutes: 'Toplam Ders Çalışma Dakikası',
+    total_course_sessions: 'Toplam Ders Seansı',
+    study_sessions_completed: 'Tamamlanan Çalışma Seansı',
+    total_points_earned: 'Kazanılan Toplam Puan',
+    consecutive_daily_logins: 'Ardışık Günlük Giriş',
+    subjects_mastered: 'Uzmanlaşılan Konu',
+    questions_answered: 'Cevaplanan Soru',
+    perfect_scores: 'Mükemmel Skor',
+    help_requests_sent: 'Gönderilen Yardım İsteği',
+    help_provided: 'Sağlanan Yardım',
+    forum_posts: 'Forum Gönderisi',
+    comments_made: 'Yapılan Yorum',
+    likes_received: 'Alınan Beğeni',
+  },
+  achievementUnits: {
+    total_duels: 'düello',
+    duels_won: 'galibiyet',
+    duels_lost: 'mağlubiyet',
+    distinct_study_days: 'gün',
+    total_study_time_minutes: 'dakika',
+    current_study_streak: 'gün',
+    longest_study_streak: 'gün',
+    weekly_champion_count: 'kez',
+    courses_studied: 'ders',
+    courses_completed: 'ders',
+    total_course_study_time_seconds: 'saniye',
+    total_course_study_time_minutes: 'dakika',
+    total_course_sessions: 'seans',
+    study_sessions_completed: 'seans',
+    total_points_earned: 'puan',
+    consecutive_daily_logins: 'gün',
+    subjects_mastered: 'konu',
+    questions_answered: 'soru',
+    perfect_scores: 'mükemmel skor',
+    help_requests_sent: 'yardım isteği',
+    help_provided: 'yardım',
+    forum_posts: 'gönderi',
+    comments_made: 'yorum',
+    likes_received: 'beğeni',
+  },
+  achievementProgress: {
+    completed: 'Tamamlandı',
+    notCompleted: 'Henüz tamamlanmadı',
+    notStarted: 'Başlanmadı',
+    justStarted: 'Yeni Başlandı',
+    inProgress: 'Devam Ediyor',
+    overHalf: 'Yarıdan Fazla',
+    almostDone: 'Neredeyse Bitti',
+    nextMilestone: '%{requirement} için %{remaining} %{unit} daha gerekli',
+    nextMilestoneToggle: '%{requirement} tamamlanması gerekiyor',
+    percentage: '%%{percentage}',
+  },
+  achievements: {
+    title: 'Başarılar',
+    achievement: 'Başarı',
+    loadingList: 'Başarılar yükleniyor...',
+    loadingDetail: 'Başarı yükleniyor...',
+    listNotFoundTitle: 'Başarılar Bulunamadı',
+    notFoundTitle: 'Başarı Bulunamadı',
+    listEmptyMessage: 'Henüz başarı bulunmuyor',
+    notFoundMessage: 'İstenen başarı bulunamadı',
+    noMatchMessage: 'Seçilen filtrelere uygun başarı bulunamadı',
+    noDescription: 'Açıklama bulunmuyor',
+    requirements: 'Gereksinimler:',
+    filters: 'Filtreler',
+    filterUnlocked: 'Tamamlanan',
+    filterLocked: 'Devam Eden',
+    points: '%{points} Puan',
+    progress: 'İlerleme',
+    overallProgress: 'Genel İlerleme',
+    earnedOn: '%{date} tarihinde kazanıldı',
+    category: 'Kategori',
+    created: 'Oluşturulma',
+    share: 'Başarıyı Paylaş',
+    viewAll: 'Tüm Başarıları Gör',
+    related: 'İlgili Başarılar',
+    unlocked: 'Başarı Kazanıldı!',
+  },
+  friends: {
+    title: 'Arkadaşlar 👥',
+    subtitle: 'Arkadaş ekleyin, istekleri yönetin ve düello yapın',
+    tabFind: 'Arkadaş Bul',
+    tabFriends: 'Arkadaşlarım',
+    tabPending: 'Bekleyen',
+    userFallback: 'Kullanıcı #%{id}',
+    userNotFound: "'%{query}' kullanıcısı bulunamadı.",
+    searchFailed: 'Arama sırasında hata oluştu.',
+    requestSent: '%{username} kullanıcısına arkadaşlık isteği gönderildi.',
+    requestFailed: 'Arkadaşlık isteği gönderilemedi.',
+    accepted: '%{username} ile artık arkadaşsınız!',
+    acceptFailed: 'İstek kabul edilemedi.',
+    rejected: '%{username} kullanıcısının isteği reddedildi.',
+    rejectFailed: 'İstek reddedilemedi.',
+    removeTitle: 'Arkadaşlığı Sonlandır',
+    removeMessage:
+      '%{username} ile arkadaşlığınızı sonlandırmak istediğinizden emin misiniz?',
+    removeConfirm: 'Sonlandır',
+    removed: '%{username} ile arkadaşlığınız sonlandırıldı.',
+    removeFailed: 'Arkadaşlık sonlandırılamadı.',
+    winRate: 'Kazanma Oranı: %%{rate}',
+    sending: 'Gönderiliyor...',
+    sendRequest: 'İstek Gönder',
+    friendsSince: 'Arkadaş olundu: %{date}',
+    duel: 'Düello',
+    remove: 'Kaldır',
+    requestedOn: 'İstek tarihi: %{date}',
+    accept: 'Kabul Et',
+    reject: 'Reddet',
+    loading: 'Arkadaş verileri yükleniyor...',
+    searchPlaceholder: 'Kullanıcı adı ile ara',
+    searching: 'Aranıyor...',
+    search: 'Ara',
+    searchResults: 'Arama Sonuçları',
+    noFriendsTitle: 'Arkadaş Yok',
+    noFriendsMessage:
+      'Henüz arkadaşınız bulunmuyor. Arkadaş eklemek için "Arkadaş Bul" sekmesini kullanın.',
+    noPendingTitle: 'Bekleyen İstek Yok',
+    noPendingMessage: 'Şu an bekleyen arkadaşlık isteği bulunmuyor.',
+    checkingAuth: 'Kimlik doğrulanıyor...',
+    loginMessage:
+      'Arkadaş özelliklerini kullanmak için giriş yapmanız gerekiyor.',
+  },
+  practiceTests: {
+    title: 'Pratik Testler 📝',
+    subtitle: 'Rakip beklemeden kendi hızında soru çöz',
+    bookmarks: 'Favori Sorularım',
+    courseLabel: '📚 Ders',
+    topicLabel: '🧩 Konu',
+    allTopics: 'Tüm Konular',
+    questionCount: '%{count} soru',
+    minutesShort: '%{count} dk',
+    minutes: '%{count} dakika',
+    untimed: 'Süresiz',
+    start: 'Başla',
+    loginMessage: 'Pratik testleri çözmek için giriş yapmanız gerekiyor.',
+    loadingTests: 'Testler yükleniyor...',
+    loadTestsFailed: 'Testler yüklenirken hata oluştu: %{message}',
+    unknownError: 'Bilinmeyen hata',
+    emptyTitle: 'Test Bulunamadı',
+    emptyMessage:
+      'Bu ders veya konu için henüz pratik test yok. Başka bir filtre dene.',
+    questionLabel: 'Soru %{number}',
+    blank: 'Boş',
+    correctMark: 'Doğru ✓',
+    wrongMark: 'Yanlış ✗',
+    yourAnswer: 'Seçiminiz: %{answer}',
+    correctAnswer: 'Doğru Cevap: %{answer}',
+    explanation: '💡 Açıklama',
+    finishTitle: 'Testi Bitir',
+    finishUnanswered:
+      '%{count} soru boş kaldı. Yine de bitirmek istiyor musunuz?',
+    finishConfirm: 'Cevaplarınız gönderilecek. Emin misiniz?',
+    finish: 'Bitir',
+    exitTitle: 'Testten Çık',
+    exitMessage:
+      'İlerlemeniz kaydedilmeyecek. Çıkmak istediğinizden emin misiniz?',
+    exit: 'Çık',
+    loadingTest: 'Test yükleniyor...',
+    loadTestFailed: 'Test yüklenirken hata oluştu: %{message}',
+    noBookmarks: 'Bu filtrede kayıtlı soru bulunamadı.',
+    notFound: 'Test bulunamadı.',
+    noQuestionsTitle: 'Soru Yok',
+    noQuestionsMessage: 'Bu testte henüz soru bulunmuyor.',
+    backToTests: 'Testlere Dön',
+    backToBookmarks: 'Favorilere Dön',
+    startTest: 'Teste Başla',
+    completed: 'Test Tamamlandı 🎯',
+    scoreLabel: '%%{score} başarı',
+    correct: 'Doğru',
+    wrong: 'Yanlış',
+    duration: 'Süre',
+    bookmarkNotSaved: 'Favori setinin sonuçları kaydedilmez.',
+    saving: 'Sonuçlar kaydediliyor...',
+    saved: 'Sonuçların kaydedildi ✓',
+    saveFailed: 'Sonuçlar kaydedilemedi.',
+    saveAgain: 'Tekrar Kaydet',
+    answerSummary: '📋 Cevap Özeti',
+    retake: 'Tekrar Çöz',
+    questionProgress: 'Soru %{current} / %{total}',
+    previous: 'Önceki',
+    next: 'Sonraki',
+    bookmarkSetCourse: '%{course} dersinden kaydettiğin sorular',
+    bookmarkSetAll: 'Kaydettiğin sorulardan oluşan pratik seti',
+    scoreExcellent: 'Muhteşem! DUS’a hazırsın 🏆',
+    scoreGreat: 'Çok iyi gidiyorsun! 🎉',
+    scoreOk: 'Fena değil, biraz daha tekrar 💪',
+    scoreLow: 'Yanlışlarını gözden geçirip tekrar dene 📚',
+  },
+  studyPlans: {
+    title: 'Çalışma Planım 📅',
+    subtitle: "DUS'a giden yolda günlük hedeflerini takip et",
+    topicFallback: 'Konu #%{id}',
+    agendaGoals: '%{minutes} dk • %{questions} soru',
+    lastStudied: 'Son çalışma: %{date}',
+    notStudied: 'Henüz çalışılmadı',
+    percentage: '%%{value}',
+    activate: 'Aktifleştir',
+    activateFailed: 'Plan aktifleştirilemedi. Lütfen tekrar deneyin.',
+    dismiss: 'Vazgeç',
+    pauseTitle: 'Planı Durdur',
+    pauseMessage: '"%{title}" planını durdurmak istediğinize emin misiniz?',
+    pause: 'Durdur',
+    pauseFailed: 'Plan durdurulamadı.',
+    deleteTitle: 'Planı Sil',
+    deleteMessage: '"%{title}" planı kalıcı olarak silinecek.',
+    deleteFailed: 'Plan silinemedi.',
+    loginMessage: 'Çalışma planı oluşturmak için giriş yapmanız gerekiyor.',
+    loadingPlan: 'Plan yükleniyor...',
+    loadFailed: 'Plan yüklenirken hata oluştu: %{message}',
+    unknownError: 'Bilinmeyen hata',
+    dailyMinutes: 'Günlük %{count} dk',
+    dailyQuestions: 'Günlük %{count} soru',
+    daysLeft: 'Kalan Gün',
+    questions: 'Soru',
+    accuracy: 'Başarı',
+    noActiveTitle: 'Aktif Plan Yok',
+    noActiveMessage:
+      'Hazır bir şablon seç ya da sınav tarihine göre kendi planını oluştur.',
+    createPlan: 'Plan Oluştur',
+    agendaTitle: '🎯 Bugünün Ajandası',
+    noAgenda:
+      'Bugün için önerilen konu yok. Aktif bir plan oluşturunca öneriler burada görünür.',
+    agendaTotals: 'Toplam %{minutes} dk • %{questions} soru',
+    topicProgress: '📊 Konu İlerlemesi',
+    topicMeta: '%{answered}/%{total} soru • %%{accuracy} doğruluk',
+    myPlans: '🗂️ Planlarım',
+    noOtherPlans: 'Başka kayıtlı plan yok.',
+    newPlan: 'Yeni Plan Oluştur',
+    priorityHigh: 'Yüksek',
+    priorityMedium: 'Orta',
+    priorityLow: 'Düşük',
+    newTitle: 'Yeni Plan ✏️',
+    newSubtitle: 'Hazır şablonla başla ya da planını kendin kur',
+    minutesPerDay: '%{count} dk/gün',
+    questionsPerDay: '%{count} soru/gün',
+    topicCount: '%{count} konu',
+    startDateInvalid: 'Başlangıç tarihi YYYY-AA-GG formatında olmalı.',
+    templateRequired: 'Lütfen bir şablon seçin.',
+    nameRequired: 'Plan adı boş olamaz.',
+    endDateInvalid: 'Bitiş tarihi YYYY-AA-GG formatında olmalı.',
+    endBeforeStart: 'Bitiş tarihi başlangıç tarihinden sonra olmalı.',
+    invalidGoals: 'Günlük hedefler geçerli sayılar olmalı.',
+    topicsRequired: 'En az bir konu seçin.',
+    missingInfo: 'Eksik Bilgi',
+    createdTitle: 'Plan Hazır 🎉',
+    createdMessage: '"%{title}" oluşturuldu.',
+    createFailed: 'Plan oluşturulamadı.',
+    modeTemplate: '📋 Şablon',
+    modeCustom: '🛠️ Özel Plan',
+    chooseTemplate: 'Şablon Seç',
+    noTemplates: 'Şu anda hazır şablon yok. Özel plan oluşturabilirsin.',
+    startDate: 'Başlangıç Tarihi',
+    details: 'Plan Bilgileri',
+    name: 'Plan Adı',
+    namePlaceholder: 'Örn. DUS 2025 Sonbahar',
+    description: 'Açıklama',
+    optional: 'İsteğe bağlı',
+    start: 'Başlangıç',
+    endExam: 'Bitiş (Sınav)',
+    dailyMinutesLabel: 'Günlük Dakika',
+    dailyQuestionsLabel: 'Günlük Soru',
+    topicsSelected: 'Konular (%{count} seçili)',
+    noTopics: 'Konu listesi boş.',
+    creating: 'Oluşturuluyor...',
+    create: 'Planı Oluştur',
+  },
+  bookmarks: {
+    correctAnswer: '✅ Doğru cevap: %{answer}',
+    hideAnswer: 'Cevabı Gizle',
+    showAnswer: 'Cevabı Göster',
+    courseFallback: 'Ders',
+    loginMessage: 'Favori sorularını görmek için giriş yapmanız gerekiyor.',
+    title: 'Favori Sorularım 🔖',
+    subtitle: 'Kaydettiğin soruları tekrar et ve pratik yap',
+    syncing: 'Senkronize ediliyor',
+    pendingChanges: 'Bekleyen değişiklikler',
+    pendingOnline: '%{count} değişiklik sunucuya gönderiliyor.',
+    pendingOffline: '%{count} değişiklik çevrimiçi olduğunda gönderilecek.',
+    course: '📚 Ders',
+    loading: 'Favoriler yükleniyor...',
+    emptyTitle: 'Favori Soru Yok',
+    emptyMessage:
+      'Düello veya test sonuçlarında 🔖 simgesine dokunarak soruları buraya kaydedebilirsin.',
+    goToTests: 'Pratik Testlere Git',
+    practice: 'Pratik Yap (%{count} soru)',
+  },
+  quickMatch: {
+    searching: 'Eşleşme aranıyor...',
+    found: 'Eşleşme bulundu! Rakip: %{username}',
+    botStarted: 'Eşleşme bulunamadı, bot ile düello başlatıldı',
+    matchError: 'Eşleşme hatası oluştu',
+    cancelled: 'Eşleşme iptal edildi',
+    setupFailed: 'Eşleşme dinleyicileri kurulamadı',
+    noConnection: 'Socket bağlantısı yok. Lütfen tekrar deneyin.',
+    joining: 'Eşleşme kuyruğuna katılıyor...',
+    joinFailed: 'Eşleşme kuyruğuna katılım başarısız',
+    leaveFailed: 'Kuyruktan çıkış başarısız',
+  },
 };
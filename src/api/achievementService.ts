@@ -1,4 +1,5 @@
 import apiRequest from './apiClient';
+import { translate, TranslationKey } from '../../localization';
 import {
   Achievement,
   UserAchievement,
@@ -21,88 +22,21 @@ import {
   AchievementActionType,
 } from '../types/models';
 
-// --- TURKISH TRANSLATION FUNCTIONS ---
-
-// UPDATED: Turkish requirement name translations with course-based terms
-const getTurkishRequirementName = (key: string): string => {
-  const translations: Record<string, string> = {
-    // Existing translations
-    total_duels: 'Toplam Düello',
-    duels_won: 'Kazanılan Düello',
-    duels_lost: 'Kaybedilen Düello',
-    distinct_study_days: 'Farklı Çalışma Günü',
-    total_study_time_minutes: 'Toplam Çalışma Süresi',
-    current_study_streak: 'Mevcut Çalışma Serisi',
-    longest_study_streak: 'En Uzun Çalışma Serisi',
-    weekly_champion_count: 'Haftalık Şampiyonluk',
-    user_registration: 'Kullanıcı Kaydı',
-
-    // ✅ NEW: Course-based translations
-    courses_studied: 'Çalışılan Ders',
-    courses_completed: 'Tamamlanan Ders',
-    total_course_study_time_seconds: 'Toplam Ders Çalışma Süresi',
-    total_course_study_time_minutes: 'Toplam Ders Çalışma Dakikası',
-    total_course_sessions: 'Toplam Ders Seansı',
-
-    // Legacy compatibility
-    study_sessions_completed: 'Tamamlanan Çalışma Seansı',
-    total_points_earned: 'Kazanılan Toplam Puan',
-    consecutive_daily_logins: 'Ardışık Günlük Giriş',
-    subjects_mastered: 'Uzmanlaşılan Konu',
-    questions_answered: 'Cevaplanan Soru',
-    perfect_scores: 'Mükemmel Skor',
-    help_requests_sent: 'Gönderilen Yardım İsteği',
-    help_provided: 'Sağlanan Yardım',
-    forum_posts: 'Forum Gönderisi',
-    comments_made: 'Yapılan Yorum',
-    likes_received: 'Alınan Beğeni',
-  };
-
-  return (
-    translations[key] ||
-    key.replace(/_/g, ' ').replace(/\b\w/g, (l) => l.toUpperCase())
-  );
-};
-
-// UPDATED: Turkish unit translations with course-based units
-const getTurkishUnit = (key: string, count: number): string => {
-  const units: Record<string, { singular: string; plural: string }> = {
-    // Existing units
-    total_duels: { singular: 'düello', plural: 'düello' },
-    duels_won: { singular: 'galibiyet', plural: 'galibiyet' },
-    duels_lost: { singular: 'mağlubiyet', plural: 'mağlubiyet' },
-    distinct_study_days: { singular: 'gün', plural: 'gün' },
-    total_study_time_minutes: { singular: 'dakika', plural: 'dakika' },
-    current_study_streak: { singular: 'gün', plural: 'gün' },
-    longest_study_streak: { singular: 'gün', plural: 'gün' },
-    weekly_champion_count: { singular: 'kez', plural: 'kez' },
-
-    // ✅ NEW: Course-based units
-    courses_studied: { singular: 'ders', plural: 'ders' },
-    courses_completed: { singular: 'ders', plural: 'ders' },
-    total_course_study_time_seconds: { singular: 'saniye', plural: 'saniye' },
-    total_course_study_time_minutes: { singular: 'dakika', plural: 'dakika' },
-    total_course_sessions: { singular: 'seans', plural: 'seans' },
-
-    // Legacy units
-    study_sessions_completed: { singular: 'seans', plural: 'seans' },
-    total_points_earned: { singular: 'puan', plural: 'puan' },
-    consecutive_daily_logins: { singular: 'gün', plural: 'gün' },
-    subjects_mastered: { singular: 'konu', plural: 'konu' },
-    questions_answered: { singular: 'soru', plural: 'soru' },
-    perfect_scores: { singular: 'mükemmel skor', plural: 'mükemmel skor' },
-    help_requests_sent: { singular: 'yardım isteği', plural: 'yardım isteği' },
-    help_provided: { singular: 'yardım', plural: 'yardım' },
-    forum_posts: { singular: 'gönderi', plural: 'gönderi' },
-    comments_made: { singular: 'yorum', plural: 'yorum' },
-    likes_received: { singular: 'beğeni', plural: 'beğeni' },
-  };
+// --- TRANSLATION FUNCTIONS ---
 
-  const unit = units[key];
-  if (!unit) return '';
+// Requirement names in the active app language, with course-based terms
+const getRequirementName = (key: string): string =>
+  translate(`achievementRequirements.${key}` as TranslationKey, {
+    defaultValue: key
+      .replace(/_/g, ' ')
+      .replace(/\b\w/g, (l) => l.toUpperCase()),
+  });
 
-  return unit.singular; // Turkish doesn't have plural forms like English
-};
+// Unit counted by a requirement ("gün", "days"); empty when there is none
+const getRequirementUnit = (key: string): string =>
+  translate(`achievementUnits.${key}` as TranslationKey, {
+    defaultValue: '',
+  });
 
 // --- CORE SERVICE FUNCTIONS ---
 
@@ -521,11 +455,13 @@ export const getUserStatsByUserId = async (
   }
 };
 
-// --- UTILITY FUNCTIONS WITH TURKISH SUPPORT ---
+// --- UTILITY FUNCTIONS ---
 
-// ✅ UPDATED: Format achievement progress percentage with Turkish
+// ✅ UPDATED: Format achievement progress percentage for the active language
 export const formatProgressPercentage = (progress: number): string => {
-  return `%${Math.round(progress)}`;
+  return translate('achievementProgress.percentage', {
+    percentage: Math.round(progress),
+  });
 };
 
 // ✅ NEW: Check if achievement is completed
@@ -535,7 +471,7 @@ export const isAchievementCompleted = (
   return progress.overall_progress >= 100;
 };
 
-// ✅ UPDATED: Get next milestone for achievement with Turkish descriptions
+// ✅ UPDATED: Get next milestone for achievement in the active app language
 export const getNextMilestone = (
   progress: AchievementProgress,
 ): string | null => {
@@ -563,66 +499,66 @@ export const getNextMilestone = (
     return null;
   }
 
+  const requirement = getRequirementName(closestRequirement.key);
+
   if (typeof closestRequirement.required === 'boolean') {
-    return `${getTurkishRequirementName(
-      closestRequirement.key,
-    )} tamamlanması gerekiyor`;
+    return translate('achievementProgress.nextMilestoneToggle', {
+      requirement,
+    });
   }
 
-  const remaining = closestRequirement.required - closestRequirement.current;
-  const requirementName = getTurkishRequirementName(closestRequirement.key);
-  const unit = getTurkishUnit(closestRequirement.key, remaining);
-
-  if (remaining === 1) {
-    return `${requirementName} için ${remaining} ${unit} daha gerekli`;
-  } else {
-    return `${requirementName} için ${remaining} ${unit} daha gerekli`;
-  }
+  return translate('achievementProgress.nextMilestone', {
+    requirement,
+    remaining: closestRequirement.required - closestRequirement.current,
+    unit: getRequirementUnit(closestRequirement.key),
+  }).trim();
 };
 
-// ✅ NEW: Get Turkish requirement detail
-export const getTurkishRequirementDetail = (key: string, req: any): string => {
+// ✅ NEW: Get requirement detail in the active app language
+export const getRequirementDetail = (key: string, req: any): string => {
   if (typeof req.required === 'boolean') {
-    return req.current ? 'Tamamlandı' : 'Henüz tamamlanmadı';
+    return req.current
+      ? translate('achievementProgress.completed')
+      : translate('achievementProgress.notCompleted');
   }
 
-  const unit = getTurkishUnit(key, req.required);
+  const unit = getRequirementUnit(key);
   return `${req.current} / ${req.required} ${unit}`.trim();
 };
 
-// Export the Turkish requirement name function for use in components
-export { getTurkishRequirementName };
+// Export the requirement name function for use in components
+export { getRequirementName };
 
-// ✅ NEW: Get Turkish completion status
-export const getTurkishCompletionStatus = (
+// ✅ NEW: Get completion status in the active app language
+export const getCompletionStatus = (
   isCompleted: boolean,
   progress: number,
 ): string => {
   if (isCompleted) {
-    return 'Tamamlandı';
+    return translate('achievementProgress.completed');
   }
 
   if (progress === 0) {
-    return 'Başlanmadı';
+    return translate('achievementProgress.notStarted');
   }
 
   if (progress < 25) {
-    return 'Yeni Başlandı';
+    return translate('achievementProgress.justStarted');
   }
 
   if (progress < 50) {
-    return 'Devam Ediyor';
+    return translate('achievementProgress.inProgress');
   }
 
   if (progress < 75) {
-    return 'Yarıdan Fazla';
+    return translate('achievementProgress.overHalf');
   }
 
   if (progress < 100) {
-    return 'Neredeyse Bitti';
+    return translate('achievementProgress.almostDone');
   }
 
-  return 'Tamamlandı';
+  return translate('achievementProgress.completed');
 };
 
 // ✅ NEW: Get Turkish difficulty level
@@ -652,40 +588,17 @@ export const getTurkishDifficultyLevel = (
   }
 };
 
-// ✅ NEW: Get Turkish category names
-export const getTurkishCategoryName = (category: string): string => {
-  const categoryTranslations: Record<string, string> = {
-    general: 'Genel',
-    learning: 'Öğrenme',
-    social: 'Sosyal',
-    progress: 'İlerleme',
-    special: 'Özel',
-    achievement: 'Başarı',
-    study: 'Çalışma',
-    duel: 'Düello',
-    streak: 'Seri',
-    time: 'Zaman',
-    mastery: 'Uzmanlaşma',
-    community: 'Topluluk',
-    milestone: 'Kilometre Taşı',
-    course: 'Ders', // ✅ NEW: Course category
-  };
-
-  return categoryTranslations[category] || category;
-};
-
-// ✅ NEW: Get Turkish rarity names
-export const getTurkishRarityName = (rarity: string): string => {
-  const rarityTranslations: Record<string, string> = {
-    common: 'Yaygın',
-    uncommon: 'Nadir',
-    rare: 'Ender',
-    epic: 'Efsanevi',
-    legendary: 'Efsane',
-  };
+// ✅ Get category names in the active app language
+export const getCategoryName = (category: string): string =>
+  translate(`achievementCategories.${category}` as TranslationKey, {
+    defaultValue: category,
+  });
 
-  return rarityTranslations[rarity] || rarity;
-};
+// ✅ Get rarity names in the active app language
+export const getRarityName = (rarity: string): string =>
+  translate(`achievementRarity.${rarity}` as TranslationKey, {
+    defaultValue: rarity,
+  });
 
 // ✅ NEW: Calculate overall user achievement completion
 export const calculateUserAchievementCompletion = async (): Promise<{
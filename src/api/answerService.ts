@@ -108,7 +108,7 @@ export interface AnswerExplanationStatsPayload {
 
 // --- Service Input DTOs (updated with answerDefinition) ---
 export interface CreateAnswerInput {
-  resultId: number; // This should be part of the data sent to the backend
+  resultId?: number; // Omitted for answers given outside a test (review deck)
   questionId: number;
   userAnswer: string;
   isCorrect: boolean;
@@ -1,11 +1,48 @@
 import API_URL from '../config/api.config';
 import AsyncStorage from '@react-native-async-storage/async-storage';
-import { ApiResponse } from '../types/api';
+import { ApiResponse, QueuedRequest, RequestConflict } from '../types/api';
 import { Platform } from 'react-native';
 import * as Linking from 'expo-linking';
 import Constants from 'expo-constants';
+import type { TranslationKey } from '../../localization';
+import {
+  getCacheKey,
+  readCachedResponse,
+  writeCachedResponse,
+  loadRequestQueue,
+  saveRequestQueue,
+  loadRequestConflicts,
+  saveRequestConflicts,
+  clearOfflineStorage,
+} from './offlineStorage';
 
 type HttpMethod = 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+type MutatingMethod = Exclude<HttpMethod, 'GET'>;
+
+export interface ApiRequestOptions {
+  /**
+   * Bypass the offline GET cache (auth flows, one-off lookups)
+   */
+  skipCache?: boolean;
+
+  /**
+   * Queue this mutating request when offline and replay it once the device
+   * reconnects. Callers receive a QueuedRequestError instead of a response.
+   */
+  offlineQueue?: {
+    label: TranslationKey;
+    // Requests sharing a key replace each other, so partial updates need a
+    // key per set of fields they send
+    dedupeKey?: string;
+  };
+}
+
+export interface RequestQueueSnapshot {
+  pending: QueuedRequest[];
+  conflicts: RequestConflict[];
+  isFlushing: boolean;
+  lastReplayAt: string | null;
+}
 
 export class ApiError extends Error {
   status: number;
@@ -16,6 +53,23 @@ export class ApiError extends Error {
   }
 }
 
+/**
+ * Thrown when a mutating request was stored in the offline queue instead of
+ * being sent. The change will be replayed when connectivity returns.
+ */
+export class QueuedRequestError extends ApiError {
+  request: QueuedRequest;
+  constructor(request: QueuedRequest) {
+    super('Request queued until the device is back online', 0);
+    this.name = 'QueuedRequestError';
+    this.request = request;
+  }
+}
+
+export const isQueuedRequestError = (
+  error: unknown,
+): error is QueuedRequestError => error instanceof QueuedRequestError;
+
 const getBuildType = (): 'expo-go' | 'eas-build' => {
   if (Constants.appOwnership === 'expo') {
     return 'expo-go';
@@ -37,13 +91,147 @@ const getAppScheme = (): string => {
   return Platform.OS === 'ios' ? 'com.dortac.dusfrontend://' : 'dus-app://';
 };
 
-const apiRequest = async <TData>(
+// ===============================
+// TOKEN REFRESH
+// ===============================
+
+const REFRESH_TOKEN_ENDPOINT = '/auth/refresh-token';
+
+// Endpoints whose 401 means bad credentials rather than an expired token
+const NO_REFRESH_ENDPOINTS = [
+  '/auth/login',
+  '/auth/register',
+  '/auth/signout',
+  '/auth/apple',
+  '/auth/oauth/',
+  REFRESH_TOKEN_ENDPOINT,
+];
+
+const SESSION_STORAGE_KEYS = [
+  'userToken',
+  'refreshToken',
+  'userData',
+  'authToken',
+];
+
+let refreshPromise: Promise<string> | null = null;
+const tokenRefreshListeners = new Set<(token: string) => void>();
+const sessionExpiredListeners = new Set<() => void>();
+const requestReplayedListeners = new Set<
+  (request: QueuedRequest, response: ApiResponse<any>) => void
+>();
+
+const shouldRefreshOn401 = (endpoint: string) =>
+  !NO_REFRESH_ENDPOINTS.some((path) => endpoint.startsWith(path));
+
+const performTokenRefresh = async (): Promise<string> => {
+  const refreshToken = await AsyncStorage.getItem('refreshToken');
+  if (!refreshToken) {
+    throw new ApiError('Session expired. Please login again.', 401);
+  }
+
+  console.log('🔄 Refreshing access token...');
+  const response = await performRequest<{
+    session?: { access_token: string; refresh_token?: string };
+  }>(REFRESH_TOKEN_ENDPOINT, 'POST', { refreshToken });
+
+  const session = response.data?.session;
+  if (!session?.access_token) {
+    await AsyncStorage.multiRemove(SESSION_STORAGE_KEYS);
+    throw new ApiError('Invalid token refresh response', 401);
+  }
+
+  await AsyncStorage.multiSet([
+    ['userToken', session.access_token],
+    ['authToken', session.access_token],
+  ]);
+  if (session.refresh_token) {
+    await AsyncStorage.setItem('refreshToken', session.refresh_token);
+  }
+
+  console.log('✅ Access token refreshed');
+  tokenRefreshListeners.forEach((listener) => listener(session.access_token));
+  return session.access_token;
+};
+
+/**
+ * Single-flight token refresh: concurrent callers share one request to
+ * /auth/refresh-token and all receive the new access token
+ */
+export const refreshAccessToken = (): Promise<string> => {
+  if (!refreshPromise) {
+    refreshPromise = performTokenRefresh().finally(() => {
+      refreshPromise = null;
+    });
+  }
+  return refreshPromise;
+};
+
+/**
+ * Token to replay a 401'd request with, or null when the session is over.
+ * Network failures are rethrown so being offline never logs the user out.
+ */
+const getReplayToken = async (staleToken: string): Promise<string | null> => {
+  // Another request refreshed while this one was in flight
+  const currentToken = await AsyncStorage.getItem('userToken');
+  if (currentToken && currentToken !== staleToken) {
+    return currentToken;
+  }
+
+  try {
+    return await refreshAccessToken();
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 0) {
+      throw error;
+    }
+    console.warn('Token refresh failed:', (error as Error).message);
+    return null;
+  }
+};
+
+export const isRefreshingToken = (): boolean => refreshPromise !== null;
+
+export const onAuthTokenRefreshed = (
+  listener: (token: string) => void,
+): (() => void) => {
+  tokenRefreshListeners.add(listener);
+  return () => {
+    tokenRefreshListeners.delete(listener);
+  };
+};
+
+export const onSessionExpired = (listener: () => void): (() => void) => {
+  sessionExpiredListeners.add(listener);
+  return () => {
+    sessionExpiredListeners.delete(listener);
+  };
+};
+
+// Follow-up work for a queued request once it finally reaches the server,
+// e.g. the achievement check after an end-session request sent offline
+export const onRequestReplayed = (
+  listener: (request: QueuedRequest, response: ApiResponse<any>) => void,
+): (() => void) => {
+  requestReplayedListeners.add(listener);
+  return () => {
+    requestReplayedListeners.delete(listener);
+  };
+};
+
+const performRequest = async <TData>(
   endpoint: string,
   method: HttpMethod = 'GET',
   body: any = null,
+  isReplay = false,
 ): Promise<ApiResponse<TData>> => {
   try {
     console.log(`Making ${method} request to ${endpoint}`);
+
+    // Don't send a token we already know is being replaced
+    if (refreshPromise && endpoint !== REFRESH_TOKEN_ENDPOINT) {
+      await refreshPromise.catch(() => undefined);
+    }
+
     let token = await AsyncStorage.getItem('userToken');
     const buildType = getBuildType();
     const appScheme = getAppScheme();
@@ -107,16 +295,23 @@ const apiRequest = async <TData>(
       responseDataPreview: JSON.stringify(responseData).substring(0, 250),
     });
 
-    // SIMPLIFIED: For Supabase tokens, 401 means user needs to re-login
-    // Don't try to refresh automatically - just clear session
+    // Expired access token: refresh once and replay. Only a failed refresh
+    // (or a replay that still gets 401) ends the session.
     if (response.status === 401) {
-      console.log('Received 401 - token expired, clearing session');
-      await AsyncStorage.multiRemove([
-        'userToken',
-        'refreshToken',
-        'userData',
-        'authToken',
-      ]);
+      const canRefresh = shouldRefreshOn401(endpoint);
+      if (canRefresh && token && !isReplay) {
+        const replayToken = await getReplayToken(token);
+        if (replayToken) {
+          console.log(`Received 401 - replaying ${endpoint} with new token`);
+          return performRequest<TData>(endpoint, method, body, true);
+        }
+      }
+
+      console.log('Received 401 - session expired, clearing session');
+      await AsyncStorage.multiRemove(SESSION_STORAGE_KEYS);
+      if (canRefresh) {
+        sessionExpiredListeners.forEach((listener) => listener());
+      }
       throw new ApiError('Session expired. Please login again.', 401);
     }
 
@@ -150,6 +345,304 @@ const apiRequest = async <TData>(
   }
 };
 
+// ===============================
+// OFFLINE CACHE & REQUEST QUEUE
+// ===============================
+
+// Mirrors appStore.isOnline, fed from NetInfo through setApiNetworkStatus
+let isNetworkOnline = true;
+
+// How long a cached GET waits for the network before serving the cached copy
+const REVALIDATE_TIMEOUT_MS = 4000;
+
+let requestQueue: QueuedRequest[] = [];
+let requestConflicts: RequestConflict[] = [];
+let isFlushingQueue = false;
+let lastReplayAt: string | null = null;
+const queueListeners = new Set<(snapshot: RequestQueueSnapshot) => void>();
+
+const getQueueSnapshot = (): RequestQueueSnapshot => ({
+  pending: requestQueue,
+  conflicts: requestConflicts,
+  isFlushing: isFlushingQueue,
+  lastReplayAt,
+});
+
+const notifyQueueListeners = () => {
+  const snapshot = getQueueSnapshot();
+  queueListeners.forEach((listener) => listener(snapshot));
+};
+
+const queueReady = Promise.all([
+  loadRequestQueue(),
+  loadRequestConflicts(),
+]).then(([queue, conflicts]) => {
+  requestQueue = queue;
+  requestConflicts = conflicts;
+  notifyQueueListeners();
+});
+
+const withCacheInfo = <TData>(cached: {
+  response: ApiResponse<any>;
+  cachedAt: string;
+}): ApiResponse<TData> => ({
+  ...cached.response,
+  fromCache: true,
+  cachedAt: cached.cachedAt,
+});
+
+/**
+ * Stale-while-revalidate GET: offline requests are answered from the cache,
+ * slow ones fall back to the cached copy while the network request keeps
+ * running in the background and refreshes the cache when it lands.
+ */
+const cachedGetRequest = async <TData>(
+  endpoint: string,
+): Promise<ApiResponse<TData>> => {
+  const cacheKey = getCacheKey(endpoint);
+  const cached = await readCachedResponse(cacheKey);
+
+  if (!isNetworkOnline) {
+    if (cached) return withCacheInfo<TData>(cached);
+    throw new ApiError('No internet connection', 0);
+  }
+
+  const network = performRequest<TData>(endpoint, 'GET').then(
+    async (response) => {
+      await writeCachedResponse(cacheKey, response);
+      return response;
+    },
+  );
+
+  if (!cached) return network;
+
+  // The background revalidation may fail after we've already answered
+  network.catch(() => undefined);
+
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<null>((resolve) => {
+    timeoutId = setTimeout(() => resolve(null), REVALIDATE_TIMEOUT_MS);
+  });
+
+  try {
+    const fresh = await Promise.race([network, timeout]);
+    return fresh ?? withCacheInfo<TData>(cached);
+  } catch (error) {
+    if (error instanceof ApiError && error.status === 0) {
+      return withCacheInfo<TData>(cached);
+    }
+    throw error;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+};
+
+const enqueueRequest = async (
+  endpoint: string,
+  method: MutatingMethod,
+  body: any,
+  { label, dedupeKey }: NonNullable<ApiRequestOptions['offlineQueue']>,
+): Promise<QueuedRequest> => {
+  await queueReady;
+
+  const request: QueuedRequest = {
+    id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    endpoint,
+    method,
+    body,
+    label,
+    dedupeKey,
+    queuedAt: new Date().toISOString(),
+    attempts: 0,
+  };
+
+  // A newer change to the same resource replaces the one still waiting
+  requestQueue = [
+    ...requestQueue.filter(
+      (queued) => !dedupeKey || queued.dedupeKey !== dedupeKey,
+    ),
+    request,
+  ];
+  await saveRequestQueue(requestQueue);
+  notifyQueueListeners();
+
+  console.log(`📥 Queued ${method} ${endpoint} until back online`);
+  return request;
+};
+
+const removeQueuedRequests = async (
+  predicate: (request: QueuedRequest) => boolean,
+) => {
+  await queueReady;
+  const remaining = requestQueue.filter((request) => !predicate(request));
+  if (remaining.length === requestQueue.length) return;
+  requestQueue = remaining;
+  await saveRequestQueue(requestQueue);
+  notifyQueueListeners();
+};
+
+/**
+ * Replay queued requests in order. Network, auth and server errors pause the
+ * flush so it can resume later; any other rejection is recorded as a conflict
+ * for the user to review and the request is dropped.
+ */
+export const flushRequestQueue = async (): Promise<void> => {
+  await queueReady;
+  if (!isNetworkOnline || isFlushingQueue || requestQueue.length === 0) {
+    return;
+  }
+
+  isFlushingQueue = true;
+  notifyQueueListeners();
+  let replayed = 0;
+
+  try {
+    for (const request of [...requestQueue]) {
+      try {
+        const response = await performRequest(
+          request.endpoint,
+          request.method,
+          request.body,
+        );
+        replayed += 1;
+        // A failing follow-up must not turn the delivered request into a conflict
+        requestReplayedListeners.forEach((listener) => {
+          try {
+            listener(request, response);
+          } catch (listenerError) {
+            console.warn('Replayed request listener failed:', listenerError);
+          }
+        });
+      } catch (error) {
+        const status = error instanceof ApiError ? error.status : 0;
+        if (
+          !status ||
+          status === 401 ||
+          status === 408 ||
+          status === 429 ||
+          status >= 500
+        ) {
+          requestQueue = requestQueue.map((queued) =>
+            queued.id === request.id
+              ? { ...queued, attempts: queued.attempts + 1 }
+              : queued,
+          );
+          await saveRequestQueue(requestQueue);
+          console.warn('Request queue flush paused:', (error as Error).message);
+          break;
+        }
+
+        console.warn(
+          `Queued ${request.method} ${request.endpoint} was rejected:`,
+          (error as Error).message,
+        );
+        requestConflicts = [
+          ...requestConflicts,
+          {
+            id: request.id,
+            request,
+            status,
+            message: (error as Error).message,
+            detectedAt: new Date().toISOString(),
+          },
+        ];
+        await saveRequestConflicts(requestConflicts);
+      }
+
+      await removeQueuedRequests((queued) => queued.id === request.id);
+    }
+  } finally {
+    isFlushingQueue = false;
+    if (replayed > 0) {
+      lastReplayAt = new Date().toISOString();
+      console.log(`✅ Replayed ${replayed} queued request(s)`);
+    }
+    notifyQueueListeners();
+  }
+};
+
+export const setApiNetworkStatus = (isOnline: boolean) => {
+  const cameOnline = isOnline && !isNetworkOnline;
+  isNetworkOnline = isOnline;
+  if (cameOnline) {
+    flushRequestQueue();
+  }
+};
+
+export const subscribeToRequestQueue = (
+  listener: (snapshot: RequestQueueSnapshot) => void,
+): (() => void) => {
+  queueListeners.add(listener);
+  listener(getQueueSnapshot());
+  return () => {
+    queueListeners.delete(listener);
+  };
+};
+
+export const dismissRequestConflict = async (conflictId: string) => {
+  await queueReady;
+  requestConflicts = requestConflicts.filter(
+    (conflict) => conflict.id !== conflictId,
+  );
+  await saveRequestConflicts(requestConflicts);
+  notifyQueueListeners();
+};
+
+/**
+ * Drop cached responses, queued requests and conflicts (sign out)
+ */
+export const clearOfflineData = async () => {
+  await queueReady;
+  requestQueue = [];
+  requestConflicts = [];
+  lastReplayAt = null;
+  await clearOfflineStorage();
+  notifyQueueListeners();
+};
+
+const apiRequest = async <TData>(
+  endpoint: string,
+  method: HttpMethod = 'GET',
+  body: any = null,
+  options: ApiRequestOptions = {},
+): Promise<ApiResponse<TData>> => {
+  if (method === 'GET') {
+    return options.skipCache || endpoint.includes('/auth/')
+      ? performRequest<TData>(endpoint, method, body)
+      : cachedGetRequest<TData>(endpoint);
+  }
+
+  const { offlineQueue } = options;
+  if (!offlineQueue) {
+    return performRequest<TData>(endpoint, method, body);
+  }
+
+  if (!isNetworkOnline) {
+    throw new QueuedRequestError(
+      await enqueueRequest(endpoint, method, body, offlineQueue),
+    );
+  }
+
+  try {
+    const response = await performRequest<TData>(endpoint, method, body);
+    // Sent directly, so an older queued copy must not overwrite it later
+    if (offlineQueue.dedupeKey) {
+      await removeQueuedRequests(
+        (queued) => queued.dedupeKey === offlineQueue.dedupeKey,
+      );
+    }
+    return response;
+  } catch (error) {
+    // Connection dropped mid-request - keep the change instead of losing it
+    if (error instanceof ApiError && error.status === 0) {
+      throw new QueuedRequestError(
+        await enqueueRequest(endpoint, method, body, offlineQueue),
+      );
+    }
+    throw error;
+  }
+};
+
 export const oauthAPI = {
   async startOAuth(
     provider: 'google' | 'apple' | 'facebook',
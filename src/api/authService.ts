@@ -1,6 +1,10 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import * as WebBrowser from 'expo-web-browser';
-import apiRequest, { ApiError } from './apiClient';
+import apiRequest, {
+  ApiError,
+  refreshAccessToken,
+  isRefreshingToken,
+} from './apiClient';
 import { ApiResponse } from '../types/api';
 import { User, AuthResponse } from '../types/models';
 import Constants from 'expo-constants';
@@ -15,10 +19,6 @@ import useAppStore from '@/stores/appStore';
 // FIXED: Complete auth session setup
 WebBrowser.maybeCompleteAuthSession();
 
-// Add token refresh flag to prevent multiple simultaneous refresh attempts
-let isRefreshing = false;
-let refreshPromise: Promise<any> | null = null;
-
 interface AuthApiPayload {
   message?: string;
   user?: any;
@@ -290,9 +290,6 @@ export async function logout(): Promise<void> {
       );
     }
   } finally {
-    isRefreshing = false;
-    refreshPromise = null;
-
     await AsyncStorage.multiRemove([
       'userToken',
       'refreshToken',
@@ -583,82 +580,48 @@ export async function requestPasswordReset(
   }
 }
 
-// Enhanced token refresh via backend API with concurrency protection
-export async function refreshAuthToken(): Promise<{
-  token: string;
-  refreshToken: string | null;
-}> {
-  // Prevent multiple concurrent refresh attempts
-  if (isRefreshing && refreshPromise) {
-    console.log('Token refresh already in progress, waiting...');
-    return refreshPromise;
-  }
-
-  isRefreshing = true;
-  refreshPromise = performTokenRefresh();
-
+// Password change for the signed-in user via backend API
+export async function updatePassword(
+  currentPassword: string,
+  newPassword: string,
+): Promise<ApiResponse<any>> {
   try {
-    const result = await refreshPromise;
-    return result;
-  } finally {
-    isRefreshing = false;
-    refreshPromise = null;
+    return await apiRequest<any>('/auth/update-password', 'POST', {
+      currentPassword,
+      newPassword,
+    });
+  } catch (error) {
+    console.error('Password update service error:', error);
+    if (error instanceof ApiError) {
+      if (error.status === 400 || error.status === 403) {
+        throw new Error('Mevcut şifreniz hatalı.');
+      } else if (error.status === 422) {
+        throw new Error('Yeni şifre güvenlik gereksinimlerini karşılamıyor.');
+      } else if (error.status === 429) {
+        throw new Error(
+          'Çok fazla deneme yaptınız. Lütfen daha sonra tekrar deneyin.',
+        );
+      }
+      throw error;
+    }
+    throw new Error(
+      error instanceof Error ? error.message : 'Şifre güncellenemedi.',
+    );
   }
 }
 
-async function performTokenRefresh(): Promise<{
+// Token refresh via backend API - single-flight in apiClient, so explicit
+// refreshes and automatic 401 replays share one request
+export async function refreshAuthToken(): Promise<{
   token: string;
   refreshToken: string | null;
 }> {
   try {
-    const currentRefreshToken = await AsyncStorage.getItem('refreshToken');
-    if (!currentRefreshToken) {
-      console.error('No refresh token available for refresh.');
-      throw new Error('Oturum süresi doldu. Lütfen tekrar giriş yapın.');
-    }
-
-    console.log('Attempting to refresh token via backend...');
-    const response = await apiRequest<AuthApiPayload>(
-      '/auth/refresh-token',
-      'POST',
-      {
-        refreshToken: currentRefreshToken,
-      },
-    );
-
-    const apiData = response.data;
-
-    if (
-      !apiData ||
-      typeof apiData !== 'object' ||
-      !apiData.session ||
-      !apiData.session.access_token
-    ) {
-      console.error('Invalid refresh token response structure:', apiData);
-      throw new Error(
-        'Geçersiz token yenileme yanıtı. Lütfen tekrar giriş yapın.',
-      );
-    }
-
-    await AsyncStorage.setItem('userToken', apiData.session.access_token);
-    await AsyncStorage.setItem('authToken', apiData.session.access_token);
-    if (apiData.session.refresh_token) {
-      await AsyncStorage.setItem('refreshToken', apiData.session.refresh_token);
-    }
-
-    console.log('Token refreshed successfully via backend');
-    return {
-      token: apiData.session.access_token,
-      refreshToken: apiData.session.refresh_token || null,
-    };
+    const token = await refreshAccessToken();
+    const refreshToken = await AsyncStorage.getItem('refreshToken');
+    return { token, refreshToken };
   } catch (error) {
     console.error('Token refresh failed:', error);
-    await AsyncStorage.multiRemove([
-      'userToken',
-      'refreshToken',
-      'userData',
-      'authToken',
-    ]);
 
     if (error instanceof ApiError) {
       if (error.status === 401 || error.status === 403) {
@@ -867,7 +830,7 @@ export async function debugAuthState(): Promise<void> {
       console.log('User:', user ? `${user.username} (${user.email})` : 'None');
       console.log('Token exists:', !!token);
       console.log('Token valid:', tokenValid);
-      console.log('Is refreshing:', isRefreshing);
+      console.log('Is refreshing:', isRefreshingToken());
       console.log('App scheme:', getAppScheme());
       console.log('Build type:', getBuildType());
 
@@ -13,6 +13,15 @@ export interface Bot {
   avatar: string;
 }
 
+// Per-duel overrides for a course bot challenge. The adaptive practice mode
+// tunes the bot to the player instead of using the fixed difficulty presets.
+export interface BotChallengeOptions {
+  questionCount?: number;
+  topicId?: number;
+  targetAccuracy?: number; // 0..1
+  avgResponseTime?: number; // ms
+}
+
 interface BotDuelPayload {
   success: boolean;
   duel: {
@@ -91,6 +100,7 @@ export const getBotByDifficulty = async (
 export const challengeBotWithCourse = async (
   courseId: number,
   difficulty: number = 1,
+  options: BotChallengeOptions = {},
 ): Promise<{
   success: boolean;
   duel?: any;
@@ -104,6 +114,7 @@ export const challengeBotWithCourse = async (
     }>('/bots/challenge-course', 'POST', {
       courseId,
       difficulty,
+      ...options,
     });
 
     return response.data || { success: false, message: 'No response data' };
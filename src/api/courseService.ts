@@ -71,6 +71,24 @@ export interface CourseProgressData {
   activeSessionId?: number | null;
 }
 
+// For GET /courses/:courseId/topic-progress
+export interface TopicProgress {
+  topicId: number;
+  repetitionCount: number;
+  completedSubtopicIds: number[];
+}
+
+interface CourseTopicProgressResponse {
+  courseId: number;
+  topics: TopicProgress[];
+}
+
+// For POST /courses/subtopic/complete and PUT /courses/topics/:topicId/progress
+interface TopicProgressPayload {
+  message: string;
+  progress: TopicProgress;
+}
+
 // For course progress response
 interface CourseProgressResponse {
   course: {
@@ -617,43 +635,63 @@ export const getSubtopicById = async (
 };
 
 // ===============================
-// DEPRECATED FUNCTIONS (Topic-based progress tracking)
+// TOPIC/SUBTOPIC PROGRESS FUNCTIONS (checklist inside a course)
 // ===============================
 
-/**
- * @deprecated This function is deprecated. Use course-based progress tracking instead.
- */
-export const markSubtopicCompleted = async (
-  subtopicId: number,
-): Promise<MessagePayload> => {
-  console.warn(
-    'markSubtopicCompleted is deprecated. Use course-based progress tracking instead.',
-  );
-
+export const getCourseTopicProgress = async (
+  courseId: number,
+): Promise<TopicProgress[]> => {
   try {
-    const response = await apiRequest<MessagePayload>(
-      '/courses/subtopic/complete',
-      'POST',
-      { subtopicId },
+    const response = await apiRequest<CourseTopicProgressResponse>(
+      `/courses/${courseId}/topic-progress`,
     );
-    if (!response.data || !response.data.message) {
-      return {
-        message:
-          'This endpoint is deprecated. Use course-based progress tracking.',
-      };
-    }
-    return response.data;
+    return response.data?.topics || [];
   } catch (error: any) {
-    if (error.status === 410) {
-      return {
-        message:
-          'This endpoint is deprecated. Use course-based progress tracking instead.',
-      };
+    if (error.status === 404) {
+      return [];
     }
+    console.error(
+      `Error fetching topic progress for course ${courseId}:`,
+      error,
+    );
     throw error;
   }
 };
 
+export const markSubtopicCompleted = async (
+  subtopicId: number,
+  isCompleted: boolean = true,
+): Promise<TopicProgressPayload> => {
+  const response = await apiRequest<TopicProgressPayload>(
+    '/courses/subtopic/complete',
+    'POST',
+    { subtopicId, isCompleted },
+  );
+  if (!response.data) {
+    throw new Error('Failed to update subtopic: No data returned.');
+  }
+  return response.data;
+};
+
+export const updateTopicRepetitionCount = async (
+  topicId: number,
+  repetitionCount: number,
+): Promise<TopicProgressPayload> => {
+  const response = await apiRequest<TopicProgressPayload>(
+    `/courses/topics/${topicId}/progress`,
+    'PUT',
+    { repetitionCount },
+  );
+  if (!response.data) {
+    throw new Error('Failed to update topic repetitions: No data returned.');
+  }
+  return response.data;
+};
+
+// ===============================
+// DEPRECATED FUNCTIONS (Topic-based progress tracking)
+// ===============================
+
 /**
  * @deprecated Use getCourseProgress instead
  */
@@ -1,5 +1,11 @@
 import apiRequest from './apiClient';
-import { Duel, DuelResult, User } from '../types/models'; // Assuming User might be needed or for consistency
+import {
+  Duel,
+  DuelResult,
+  User,
+  AsyncDuelQuestion,
+  AsyncDuelRun,
+} from '../types/models'; // Assuming User might be needed or for consistency
 // ApiResponse is implicitly handled by apiRequest's return type, no need to import it here for defining service return types
 
 // Define interfaces for the *actual data payloads* returned by backend endpoints
@@ -60,6 +66,8 @@ interface DuelLeaderboardPayload {
     losses: number;
     winRate: number;
     totalDuels: number;
+    rating?: number; // Overall, or the course's rating when filtered by course
+    ratedGames?: number;
   }>;
   total: number;
 }
@@ -67,12 +75,21 @@ interface DuelLeaderboardPayload {
 interface RecommendedOpponentsPayload {
   userId: number;
   username: string;
+  rating?: number;
+  ratedGames?: number;
   skillLevel: number;
   winRate: number;
   totalDuels: number;
   compatibility: number;
 }
 
+// For GET /duels/:duelId/async and POST /duels/:duelId/async/run
+export interface AsyncDuelPayload {
+  duel: Duel;
+  questions: AsyncDuelQuestion[];
+  runs: AsyncDuelRun[]; // Opponent's run is only included once ours is in
+}
+
 // ✅ NEW: Quick Match Related Payloads
 interface QuickMatchDuelPayload {
   message: string;
@@ -85,6 +102,7 @@ export const createQuickMatchDuel = async (
   user2Id: number,
   courseId: number,
   questionCount: number = 5,
+  tournamentId?: number, // NEW: Set for tournament bracket matches
 ): Promise<QuickMatchDuelPayload> => {
   const response = await apiRequest<QuickMatchDuelPayload>(
     '/duels/quick-match',
@@ -94,6 +112,7 @@ export const createQuickMatchDuel = async (
       user2Id,
       courseId,
       questionCount,
+      ...(tournamentId ? { tournamentId } : {}),
     },
   );
 
@@ -170,6 +189,61 @@ export const challengeUserWithCourse = async (
   );
 };
 
+// ✅ NEW: Async (turn-based) challenge - the initiator plays right away and the
+// opponent has until duel.expires_at to play the same questions
+export const createAsyncChallenge = async (
+  opponentId: number,
+  courseId: number,
+  questionCount: number = 5,
+): Promise<ChallengeDuelPayload> => {
+  const response = await apiRequest<ChallengeDuelPayload>(
+    '/duels/async',
+    'POST',
+    {
+      opponentId,
+      courseId,
+      questionCount,
+    },
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to create async duel: No data received');
+  }
+  return response.data;
+};
+
+export const getAsyncDuel = async (
+  duelId: number,
+): Promise<AsyncDuelPayload> => {
+  const response = await apiRequest<AsyncDuelPayload>(`/duels/${duelId}/async`);
+  if (!response.data) {
+    throw new Error(`Async duel with ID ${duelId} not found: No data received`);
+  }
+  return response.data;
+};
+
+// Answers are scored by the backend; the response carries the scored run
+export const submitAsyncRun = async (
+  duelId: number,
+  answers: Array<{
+    questionId: number;
+    selectedAnswer: string | null;
+    timeTaken: number; // ms
+  }>,
+): Promise<AsyncDuelPayload> => {
+  const response = await apiRequest<AsyncDuelPayload>(
+    `/duels/${duelId}/async/run`,
+    'POST',
+    { answers },
+  );
+  if (!response.data) {
+    throw new Error(
+      `Failed to submit answers for duel with ID ${duelId}: No data received`,
+    );
+  }
+  return response.data;
+};
+
 export const getPendingChallenges = async (): Promise<DuelsArrayPayload> => {
   const response = await apiRequest<DuelsArrayPayload>('/duels/pending');
   return response.data || []; // response.data is DuelsArrayPayload or TData could be undefined if backend sends empty 200
@@ -288,12 +362,15 @@ export const getDuelUserStats = async (): Promise<DuelUserStatsPayload> => {
   };
 };
 
+// Ranked by rating; pass a course for that course's ladder
 export const getDuelLeaderboard = async (
   limit: number = 10,
   offset: number = 0,
+  courseId?: number,
 ): Promise<DuelLeaderboardPayload> => {
+  const courseQuery = courseId ? `&courseId=${courseId}` : '';
   const response = await apiRequest<DuelLeaderboardPayload>(
-    `/duels/leaderboard?limit=${limit}&offset=${offset}`,
+    `/duels/leaderboard?limit=${limit}&offset=${offset}&sortBy=rating${courseQuery}`,
   );
   if (!response.data) {
     return { leaderboard: [], total: 0 };
@@ -17,3 +17,5 @@ export * as socketService from './socketService';
 export * as userQuestionHistoryService from './userQuestionHistoryService';
 export * as botService from './botService';
 export * as reportService from './reportService';
+export * as tournamentService from './tournamentService';
+export * as ratingService from './ratingService';
@@ -4,6 +4,7 @@ import * as Notifications from 'expo-notifications';
 import Constants from 'expo-constants';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import apiRequest from './apiClient';
+import { translate, getDateLocale, TranslationKey } from '../../localization';
 import {
   Notification,
   NotificationResponse,
@@ -16,6 +17,7 @@ import {
   CourseNotificationData,
   CourseStudySessionData,
   CourseCompletionData,
+  StudyIntervalTransition,
 } from '../types/models';
 
 /**
@@ -38,15 +40,23 @@ console.log('🚀 Notification Environment (SDK 53+ with Course Support):', {
   sdkVersion: Constants.expoConfig?.sdkVersion || 'unknown',
 });
 
+// Fixed id so the ongoing study session notification is replaced, not stacked
+const STUDY_SESSION_NOTIFICATION_ID = 'study-session-ongoing';
+
 // UPDATED: Configure notification behavior for newer expo-notifications
 Notifications.setNotificationHandler({
-  handleNotification: async () => ({
-    shouldShowAlert: true,
-    shouldPlaySound: true,
-    shouldSetBadge: true,
-    shouldShowBanner: true,
-    shouldShowList: true,
-  }),
+  handleNotification: async (notification) => {
+    // The ongoing session notification only lives in the tray
+    const isOngoingSession =
+      notification.request.identifier === STUDY_SESSION_NOTIFICATION_ID;
+    return {
+      shouldShowAlert: !isOngoingSession,
+      shouldPlaySound: !isOngoingSession,
+      shouldSetBadge: !isOngoingSession,
+      shouldShowBanner: !isOngoingSession,
+      shouldShowList: true,
+    };
+  },
 });
 
 // Storage keys for token management
@@ -526,6 +536,13 @@ export async function markAsRead(
     const response = await apiRequest<Notification>(
       `/notifications/${notificationId}/read`,
       'POST',
+      null,
+      {
+        offlineQueue: {
+          label: 'offline.actions.markNotificationRead',
+          dedupeKey: `notification-read-${notificationId}`,
+        },
+      },
     );
 
     if (!response.data) {
@@ -1094,6 +1111,169 @@ export async function sendCourseCompletionNotification(
   }
 }
 
+// ✅ NEW: Tell the other player an async duel has been decided
+export async function sendDuelResultNotification(resultData: {
+  duelId: number;
+  recipientId: number;
+  initiatorScore: number;
+  opponentScore: number;
+  winnerId: number | null;
+}): Promise<{ message: string; notification: Notification } | null> {
+  try {
+    console.log('⚔️ Sending duel result notification...', resultData);
+
+    const response = await apiRequest<{
+      message: string;
+      notification: Notification;
+    }>('/notifications/duel/result', 'POST', {
+      notification_type: 'duel_result',
+      recipient_id: resultData.recipientId,
+      duel_id: resultData.duelId,
+      initiator_score: resultData.initiatorScore,
+      opponent_score: resultData.opponentScore,
+      winner_id: resultData.winnerId,
+      mode: 'async',
+    });
+
+    if (!response.data) {
+      throw new Error('No data received from duel result notification API');
+    }
+
+    console.log('✅ Duel result notification sent successfully');
+    return response.data;
+  } catch (error) {
+    console.error('❌ Error sending duel result notification:', error);
+    return null;
+  }
+}
+
+// ===============================
+// STUDY INTERVAL REMINDERS (local, fire while backgrounded)
+// ===============================
+
+// Tag on every interval reminder so they can be cancelled without stored ids
+const STUDY_INTERVAL_NOTIFICATION_KIND = 'study_interval';
+
+// ✅ NEW: Cancel every pending work/break reminder
+export async function cancelStudyIntervalNotifications(): Promise<void> {
+  try {
+    const scheduled = await Notifications.getAllScheduledNotificationsAsync();
+    await Promise.all(
+      scheduled
+        .filter(
+          (request) =>
+            request.content.data?.kind === STUDY_INTERVAL_NOTIFICATION_KIND,
+        )
+        .map((request) =>
+          Notifications.cancelScheduledNotificationAsync(request.identifier),
+        ),
+    );
+  } catch (error) {
+    console.error('❌ Error cancelling study interval notifications:', error);
+  }
+}
+
+// ✅ NEW: Replace pending reminders with one per upcoming phase switch
+export async function scheduleStudyIntervalNotifications(
+  transitions: StudyIntervalTransition[],
+  courseTitle?: string,
+): Promise<void> {
+  await cancelStudyIntervalNotifications();
+
+  const upcoming = transitions.filter(
+    (transition) => transition.at.getTime() > Date.now(),
+  );
+
+  try {
+    await Promise.all(
+      upcoming.map((transition) =>
+        Notifications.scheduleNotificationAsync({
+          content: {
+            title:
+              transition.phase === 'break'
+                ? translate('chronometer.breakStartTitle')
+                : translate('chronometer.workStartTitle'),
+            body: translate(
+              transition.phase === 'break'
+                ? 'chronometer.breakStartBody'
+                : 'chronometer.workStartBody',
+              {
+                minutes: transition.minutes,
+                course: courseTitle || translate('chronometer.course'),
+              },
+            ),
+            sound: true,
+            data: {
+              kind: STUDY_INTERVAL_NOTIFICATION_KIND,
+              phase: transition.phase,
+            },
+          },
+          trigger: {
+            type: Notifications.SchedulableTriggerInputTypes.DATE,
+            date: transition.at,
+          },
+        }),
+      ),
+    );
+    console.log(`⏰ Scheduled ${upcoming.length} study interval reminders`);
+  } catch (error) {
+    console.error('❌ Error scheduling study interval notifications:', error);
+  }
+}
+
+// ===============================
+// ONGOING STUDY SESSION (local, sticky while the chronometer runs)
+// ===============================
+
+// ✅ NEW: Post or refresh the ongoing session notification with elapsed time
+export async function showStudySessionNotification(session: {
+  courseTitle?: string;
+  elapsedSeconds: number;
+  isPaused: boolean;
+}): Promise<void> {
+  try {
+    const minutes = Math.floor(session.elapsedSeconds / 60);
+    const elapsed =
+      minutes >= 60
+        ? translate('chronometer.elapsedHours', {
+            hours: Math.floor(minutes / 60),
+            minutes: minutes % 60,
+          })
+        : translate('chronometer.elapsedMinutes', { minutes });
+
+    await Notifications.scheduleNotificationAsync({
+      identifier: STUDY_SESSION_NOTIFICATION_ID,
+      content: {
+        title: translate('chronometer.ongoingTitle', {
+          course: session.courseTitle || translate('chronometer.course'),
+        }),
+        body: translate(
+          session.isPaused
+            ? 'chronometer.ongoingPausedBody'
+            : 'chronometer.ongoingBody',
+          { elapsed },
+        ),
+        sticky: true,
+        autoDismiss: false,
+        priority: Notifications.AndroidNotificationPriority.LOW,
+        data: { kind: 'study_session' },
+      },
+      trigger: null,
+    });
+  } catch (error) {
+    console.error('❌ Error showing study session notification:', error);
+  }
+}
+
+// ✅ NEW: Remove the ongoing session notification
+export async function dismissStudySessionNotification(): Promise<void> {
+  try {
+    await Notifications.dismissNotificationAsync(STUDY_SESSION_NOTIFICATION_ID);
+  } catch (error) {
+    console.error('❌ Error dismissing study session notification:', error);
+  }
+}
+
 // ===============================
 // UTILITY FUNCTIONS (Enhanced with course support)
 // ===============================
@@ -1153,16 +1333,19 @@ export function formatNotificationTime(dateString: string): string {
     (now.getTime() - date.getTime()) / (1000 * 60),
   );
 
-  if (diffInMinutes < 1) return 'Az önce';
-  if (diffInMinutes < 60) return `${diffInMinutes} dakika önce`;
+  if (diffInMinutes < 1) return translate('relativeTime.justNow');
+  if (diffInMinutes < 60)
+    return translate('relativeTime.minutesAgo', { count: diffInMinutes });
 
   const diffInHours = Math.floor(diffInMinutes / 60);
-  if (diffInHours < 24) return `${diffInHours} saat önce`;
+  if (diffInHours < 24)
+    return translate('relativeTime.hoursAgo', { count: diffInHours });
 
   const diffInDays = Math.floor(diffInHours / 24);
-  if (diffInDays < 7) return `${diffInDays} gün önce`;
+  if (diffInDays < 7)
+    return translate('relativeTime.daysAgo', { count: diffInDays });
 
-  return date.toLocaleDateString('tr-TR', {
+  return date.toLocaleDateString(getDateLocale(), {
     day: 'numeric',
     month: 'short',
     year: date.getFullYear() !== now.getFullYear() ? 'numeric' : undefined,
@@ -1217,30 +1400,11 @@ export function getNotificationColor(type: NotificationType): string {
   return colorMap[type] || '#6B7280';
 }
 
-// ✅ NEW: Get Turkish notification type name
-export function getTurkishNotificationTypeName(type: NotificationType): string {
-  const typeNames: Record<NotificationType, string> = {
-    study_reminder: 'Çalışma Hatırlatması',
-    achievement_unlock: 'Başarı Açıldı',
-    duel_invitation: 'Düello Daveti',
-    duel_result: 'Düello Sonucu',
-    friend_request: 'Arkadaşlık İsteği',
-    friend_activity: 'Arkadaş Etkinliği',
-    content_update: 'İçerik Güncellemesi',
-    streak_reminder: 'Seri Hatırlatması',
-    plan_reminder: 'Plan Hatırlatması',
-    coaching_note: 'Koçluk Notu',
-    motivational_message: 'Motivasyon Mesajı',
-    system_announcement: 'Sistem Duyurusu',
-    // ✅ NEW: Course-specific Turkish names
-    course_reminder: 'Ders Hatırlatması',
-    course_completed: 'Ders Tamamlandı',
-    course_progress: 'Ders İlerlemesi',
-    course_milestone: 'Ders Kilometre Taşı',
-    course_study_session: 'Ders Çalışma Seansı',
-  };
-
-  return typeNames[type] || type;
+// ✅ Get notification type name in the active app language
+export function getNotificationTypeName(type: NotificationType): string {
+  return translate(`notificationTypes.${type}` as TranslationKey, {
+    defaultValue: type,
+  });
 }
 
 // ✅ NEW: Test all course notification functionality
@@ -0,0 +1,202 @@
+// src/api/offlineStorage.ts - AsyncStorage persistence for the offline GET cache, request queue, running study session and review schedule
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { ApiResponse, QueuedRequest, RequestConflict } from '../types/api';
+import { ReviewSchedule, StudySessionSnapshot } from '../types/models';
+
+const CACHE_PREFIX = 'apiCache:';
+const CACHE_INDEX_KEY = 'apiCacheIndex';
+const QUEUE_KEY = 'apiRequestQueue';
+const CONFLICTS_KEY = 'apiRequestConflicts';
+const STUDY_SESSION_KEY = 'activeStudySessionSnapshot';
+const REVIEW_SCHEDULE_PREFIX = 'reviewDeckSchedule:';
+
+// Oldest entries are evicted past this many cached GET responses
+const MAX_CACHE_ENTRIES = 150;
+
+export interface CachedResponse {
+  response: ApiResponse<any>;
+  cachedAt: string;
+}
+
+let cacheIndex: string[] | null = null;
+
+/**
+ * Cache key for a GET endpoint: the cache-busting `_t` param is dropped so
+ * repeated requests for the same resource share one entry
+ */
+export const getCacheKey = (endpoint: string): string =>
+  endpoint.replace(/([?&])_t=\d+(&|$)/, (_match, sep, next) =>
+    next ? sep : '',
+  );
+
+const loadCacheIndex = async (): Promise<string[]> => {
+  if (cacheIndex) return cacheIndex;
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_INDEX_KEY);
+    cacheIndex = stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Failed to load API cache index:', error);
+    cacheIndex = [];
+  }
+  return cacheIndex!;
+};
+
+export const readCachedResponse = async (
+  cacheKey: string,
+): Promise<CachedResponse | null> => {
+  try {
+    const stored = await AsyncStorage.getItem(CACHE_PREFIX + cacheKey);
+    return stored ? (JSON.parse(stored) as CachedResponse) : null;
+  } catch (error) {
+    console.warn(`Failed to read cached response for ${cacheKey}:`, error);
+    return null;
+  }
+};
+
+export const writeCachedResponse = async (
+  cacheKey: string,
+  response: ApiResponse<any>,
+): Promise<void> => {
+  try {
+    const entry: CachedResponse = {
+      response,
+      cachedAt: new Date().toISOString(),
+    };
+    const index = (await loadCacheIndex()).filter((key) => key !== cacheKey);
+    index.push(cacheKey);
+    const evicted = index.splice(
+      0,
+      Math.max(0, index.length - MAX_CACHE_ENTRIES),
+    );
+    cacheIndex = index;
+
+    await AsyncStorage.setItem(CACHE_PREFIX + cacheKey, JSON.stringify(entry));
+    await AsyncStorage.setItem(CACHE_INDEX_KEY, JSON.stringify(index));
+    if (evicted.length > 0) {
+      await AsyncStorage.multiRemove(evicted.map((key) => CACHE_PREFIX + key));
+    }
+  } catch (error) {
+    console.warn(`Failed to cache response for ${cacheKey}:`, error);
+  }
+};
+
+export const loadRequestQueue = async (): Promise<QueuedRequest[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(QUEUE_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Failed to load request queue:', error);
+    return [];
+  }
+};
+
+export const saveRequestQueue = async (
+  queue: QueuedRequest[],
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+  } catch (error) {
+    console.warn('Failed to save request queue:', error);
+  }
+};
+
+export const loadRequestConflicts = async (): Promise<RequestConflict[]> => {
+  try {
+    const stored = await AsyncStorage.getItem(CONFLICTS_KEY);
+    return stored ? JSON.parse(stored) : [];
+  } catch (error) {
+    console.warn('Failed to load request conflicts:', error);
+    return [];
+  }
+};
+
+export const saveRequestConflicts = async (
+  conflicts: RequestConflict[],
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(CONFLICTS_KEY, JSON.stringify(conflicts));
+  } catch (error) {
+    console.warn('Failed to save request conflicts:', error);
+  }
+};
+
+export const loadStudySessionSnapshot =
+  async (): Promise<StudySessionSnapshot | null> => {
+    try {
+      const stored = await AsyncStorage.getItem(STUDY_SESSION_KEY);
+      return stored ? JSON.parse(stored) : null;
+    } catch (error) {
+      console.warn('Failed to load study session snapshot:', error);
+      return null;
+    }
+  };
+
+export const saveStudySessionSnapshot = async (
+  snapshot: StudySessionSnapshot,
+): Promise<void> => {
+  try {
+    await AsyncStorage.setItem(STUDY_SESSION_KEY, JSON.stringify(snapshot));
+  } catch (error) {
+    console.warn('Failed to save study session snapshot:', error);
+  }
+};
+
+export const clearStudySessionSnapshot = async (): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(STUDY_SESSION_KEY);
+  } catch (error) {
+    console.warn('Failed to clear study session snapshot:', error);
+  }
+};
+
+// The review schedule is kept per user, so an account switch starts clean
+export const loadReviewSchedule = async (
+  userId: number,
+): Promise<ReviewSchedule> => {
+  try {
+    const stored = await AsyncStorage.getItem(REVIEW_SCHEDULE_PREFIX + userId);
+    return stored ? (JSON.parse(stored) as ReviewSchedule) : {};
+  } catch (error) {
+    console.warn('Failed to load review schedule:', error);
+    return {};
+  }
+};
+
+export const saveReviewSchedule = async (
+  userId: number,
+  schedule: ReviewSchedule,
+): Promise<void> => {
+  await AsyncStorage.setItem(
+    REVIEW_SCHEDULE_PREFIX + userId,
+    JSON.stringify(schedule),
+  );
+};
+
+export const clearReviewSchedule = async (userId: number): Promise<void> => {
+  try {
+    await AsyncStorage.removeItem(REVIEW_SCHEDULE_PREFIX + userId);
+  } catch (error) {
+    console.warn('Failed to clear review schedule:', error);
+  }
+};
+
+/**
+ * Remove every cached response, queued request, conflict and study session
+ * snapshot - used on sign out so the next user never sees (or replays)
+ * someone else's data
+ */
+export const clearOfflineStorage = async (): Promise<void> => {
+  try {
+    const index = await loadCacheIndex();
+    await AsyncStorage.multiRemove([
+      ...index.map((key) => CACHE_PREFIX + key),
+      CACHE_INDEX_KEY,
+      QUEUE_KEY,
+      CONFLICTS_KEY,
+      STUDY_SESSION_KEY,
+    ]);
+    cacheIndex = [];
+  } catch (error) {
+    console.warn('Failed to clear offline storage:', error);
+  }
+};
@@ -0,0 +1,27 @@
+// src/api/ratingService.ts
+import apiRequest from './apiClient';
+import { PlayerRating } from '../types/models';
+// ApiResponse is implicitly handled by apiRequest
+
+// --- Define interfaces for the *actual data payloads* your backend sends ---
+// --- These will be the TData in apiRequest<TData> ---
+
+// For GET /ratings/me and /ratings/users/:userId - overall plus one per course
+type PlayerRatingsPayload = PlayerRating[];
+
+// --- Service Functions ---
+// Read only: the backend updates both players' ratings when a duel completes
+
+export const getMyRatings = async (): Promise<PlayerRatingsPayload> => {
+  const response = await apiRequest<PlayerRatingsPayload>('/ratings/me');
+  return response.data || [];
+};
+
+export const getUserRatings = async (
+  userId: number,
+): Promise<PlayerRatingsPayload> => {
+  const response = await apiRequest<PlayerRatingsPayload>(
+    `/ratings/users/${userId}`,
+  );
+  return response.data || [];
+};
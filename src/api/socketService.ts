@@ -2,8 +2,10 @@ import { io, Socket } from 'socket.io-client';
 import AsyncStorage from '@react-native-async-storage/async-storage';
 import { useEffect, useRef, useState } from 'react';
 import { SOCKET_URL } from '../config/api.config';
+import { onAuthTokenRefreshed, refreshAccessToken } from './apiClient';
 
 // ✅ UPDATED: Socket event interfaces with new timer events
+// Server-to-client events (plus the few raised locally by this service)
 interface SocketEvents {
   // Connection events
   connect: () => void;
@@ -14,7 +16,7 @@ interface SocketEvents {
   quick_match_searching: (data: { message: string }) => void;
   quick_match_found: (data: {
     duel: any;
-    opponent: { username: string; userId?: number };
+    opponent: { username: string; userId?: number; rating?: number };
   }) => void;
   quick_match_timeout: (data: { duel: any; message: string }) => void;
   quick_match_error: (data: { message: string }) => void;
@@ -69,13 +71,109 @@ interface SocketEvents {
     serverTime: number; // Server timestamp when time expired
   }) => void;
 
+  // Duel lifecycle errors
+  duel_error: (data: { message: string; duelId?: number }) => void;
+  duel_cancelled: (data: { reason?: string; duelId?: number }) => void;
+  connection_lost: () => void;
+
+  // Resume after a dropped connection: the server answers resume_duel_room
+  // with the room's current state. reconnect_failed is raised locally once
+  // the reconnect attempts are used up.
+  duel_state_snapshot: (data: DuelStateSnapshot) => void;
+  reconnect_failed: () => void;
+
+  // Power-ups: the server validates use_power_up against the player's
+  // inventory and broadcasts the effect to both players
+  power_up_applied: (data: PowerUpApplied) => void;
+  power_up_error: (data: { message: string; powerUp?: PowerUpType }) => void;
+
   // Bot events
   bot_challenge_created: (data: { duel: any }) => void;
   bot_challenge_error: (data: { message: string }) => void;
   auto_join_duel: (data: { duelId: number }) => void;
 }
 
+// Client-to-server events, matching the backend's socket handlers
+interface ClientToServerEvents {
+  join_quick_match: (data: {
+    courseId: number;
+    rating?: number;
+    ratingRange?: number | null;
+  }) => void;
+  update_quick_match_range: (data: { ratingRange: number | null }) => void;
+  leave_quick_match: () => void;
+  join_duel_room: (data: { duelId: number }) => void;
+  resume_duel_room: (data: {
+    duelId: number;
+    sessionId: string | null;
+    lastQuestionIndex: number;
+  }) => void;
+  leave_duel_room: () => void;
+  ready_for_duel: () => void;
+  submit_answer: (data: {
+    questionId: number;
+    selectedAnswer: string | null;
+    timeTaken: number;
+  }) => void;
+  use_power_up: (data: {
+    duelId: number;
+    questionIndex: number;
+    powerUp: PowerUpType;
+  }) => void;
+  challenge_bot: (data: {
+    difficulty: number;
+    testId?: number;
+    courseId?: number;
+  }) => void;
+  challenge_bot_course: (
+    data: {
+      courseId: number;
+      difficulty: number;
+    } & BotChallengeOptions,
+  ) => void;
+  heartbeat: () => void;
+}
+
+type SocketEventName = keyof SocketEvents;
+type ClientEventName = keyof ClientToServerEvents;
+
+// Removes exactly the listener it was returned for
+type Unsubscribe = () => void;
+
+// Stored listeners are untyped; on/off keep the public surface typed
+type SocketListener = (...args: any[]) => void;
+
+// Groups a hook's subscriptions so its cleanup only touches its own listeners
+interface SocketSubscriptionScope {
+  on: <E extends SocketEventName>(event: E, callback: SocketEvents[E]) => void;
+  dispose: () => void;
+}
+
 // Data interfaces matching backend
+type PowerUpType = 'hint' | 'skip' | 'freeze' | 'double' | 'extra-time';
+
+// Optional per-duel bot tuning (mirrors botService.BotChallengeOptions)
+interface BotChallengeOptions {
+  questionCount?: number;
+  topicId?: number;
+  targetAccuracy?: number; // 0..1
+  avgResponseTime?: number; // ms
+}
+
+// Remaining uses per power-up for one player in one duel
+type PowerUpInventory = Record<PowerUpType, number>;
+
+interface PowerUpApplied {
+  duelId: number;
+  userId: number; // Player who used it
+  powerUp: PowerUpType;
+  questionIndex: number;
+  inventory: PowerUpInventory; // That player's remaining uses
+  removedOptions?: string[]; // hint: wrong options taken off the board
+  timeBonus?: number; // extra-time / freeze: seconds added to the player's clock
+  multiplier?: number; // double: points multiplier for this question
+}
+
 interface DuelSession {
   sessionId: string;
   duelId: number;
@@ -84,6 +182,8 @@ interface DuelSession {
     username: string;
     ready: boolean;
   }>;
+  // Starting power-up inventories keyed by userId, when the server sends them
+  powerUps?: Record<number, PowerUpInventory>;
 }
 
 interface RoundResult {
@@ -117,6 +217,28 @@ interface FinalResult {
   };
 }
 
+// Room state sent back after resume_duel_room
+interface DuelStateSnapshot {
+  duelId: number;
+  sessionId: string;
+  status: DuelSession['status'];
+  questionIndex: number;
+  totalQuestions: number;
+  // Present while a question is open
+  question: {
+    id: number;
+    text: string;
+    options: Record<string, string>;
+  } | null;
+  serverTime: number;
+  serverEndTime: number | null;
+  scores: Array<{ userId: number; score: number }>;
+  answeredUserIds: number[];
+  // Set between rounds and once the duel has finished
+  lastRoundResult: RoundResult | null;
+  finalResult: FinalResult | null;
+}
+
 // Socket connection configuration
 interface SocketConfig {
   socketUrl: string;
@@ -136,8 +258,11 @@ interface ConnectionState {
 }
 
 // Internal socket instance and state
-let socketInstance: Socket | null = null;
-let eventListeners = new Map<string, ((...args: any[]) => void)[]>();
+let socketInstance: Socket<
+  Record<string, SocketListener>,
+  ClientToServerEvents
+> | null = null;
+let eventListeners = new Map<SocketEventName, SocketListener[]>();
 let connectionState: ConnectionState = {
   connected: false,
   connecting: false,
@@ -150,6 +275,17 @@ let connectionState: ConnectionState = {
 // Connection promises to handle concurrent connection attempts
 let connectionPromise: Promise<void> | null = null;
 
+// Keep the live socket's handshake token current so automatic reconnects
+// after a token refresh don't present the expired one
+onAuthTokenRefreshed((token) => {
+  if (socketInstance) {
+    socketInstance.auth = { ...(socketInstance.auth as object), token };
+  }
+});
+
+const isAuthConnectError = (error: Error): boolean =>
+  /auth|token|jwt|unauthori[sz]ed|expired/i.test(error?.message || '');
+
 // FIXED: Use dedicated SOCKET_URL instead of parsing API_URL
 const getSocketConfig = (): SocketConfig => ({
   socketUrl: SOCKET_URL || 'http://localhost:3001',
@@ -426,7 +562,8 @@ export const disconnect = (): void => {
     socketInstance = null;
   }
 
-  eventListeners.clear();
+  // Listeners stay registered: they belong to their subscribers, which remove
+  // them through their disposers, and are re-attached on the next connect
   connectionState = {
     connected: false,
     connecting: false,
@@ -450,21 +587,38 @@ export const getConnectionState = (): ConnectionState => {
 };
 
 // ✅ NEW: Generic emit function for Quick Match and other events
-export const emit = (event: string, data?: any): void => {
+export const emit = <E extends ClientEventName>(
+  event: E,
+  ...args: Parameters<ClientToServerEvents[E]>
+): void => {
   if (!socketInstance || !socketInstance.connected) {
     throw new Error('Socket not connected');
   }
-  console.log(`🔧 Socket Action: Emitting ${event}:`, data);
-  socketInstance.emit(event, data);
+  console.log(`🔧 Socket Action: Emitting ${event}:`, ...args);
+  socketInstance.emit(event, ...args);
 };
 
 // ✅ NEW: Quick Match Socket Functions
-export const joinQuickMatch = (courseId: number): void => {
+// With a rating the server only pairs players within ratingRange of it
+// (null = anyone)
+export const joinQuickMatch = (
+  courseId: number,
+  ranked?: { rating: number; ratingRange: number | null },
+): void => {
   if (!socketInstance || !socketInstance.connected) {
     throw new Error('Socket not connected');
   }
   console.log('🚀 Socket Action: Joining quick match for course:', courseId);
-  socketInstance.emit('join_quick_match', { courseId });
+  socketInstance.emit('join_quick_match', { courseId, ...ranked });
+};
+
+export const updateQuickMatchRange = (ratingRange: number | null): void => {
+  if (!socketInstance || !socketInstance.connected) {
+    console.warn('Socket not connected, cannot update quick match range');
+    return;
+  }
+  console.log('🎯 Socket Action: Widening quick match range to:', ratingRange);
+  socketInstance.emit('update_quick_match_range', { ratingRange });
 };
 
 export const leaveQuickMatch = (): void => {
@@ -478,27 +632,24 @@ export const leaveQuickMatch = (): void => {
 
 // ✅ NEW: Quick Match Event Listeners
 export const onQuickMatchSearching = (
-  callback: (data: { message: string }) => void,
-): void => on('quick_match_searching', callback);
+  callback: SocketEvents['quick_match_searching'],
+): Unsubscribe => on('quick_match_searching', callback);
 
 export const onQuickMatchFound = (
-  callback: (data: {
-    duel: any;
-    opponent: { username: string; userId?: number };
-  }) => void,
-): void => on('quick_match_found', callback);
+  callback: SocketEvents['quick_match_found'],
+): Unsubscribe => on('quick_match_found', callback);
 
 export const onQuickMatchTimeout = (
-  callback: (data: { duel: any; message: string }) => void,
-): void => on('quick_match_timeout', callback);
+  callback: SocketEvents['quick_match_timeout'],
+): Unsubscribe => on('quick_match_timeout', callback);
 
 export const onQuickMatchError = (
-  callback: (data: { message: string }) => void,
-): void => on('quick_match_error', callback);
+  callback: SocketEvents['quick_match_error'],
+): Unsubscribe => on('quick_match_error', callback);
 
 export const onQuickMatchCancelled = (
-  callback: (data: { message: string }) => void,
-): void => on('quick_match_cancelled', callback);
+  callback: SocketEvents['quick_match_cancelled'],
+): Unsubscribe => on('quick_match_cancelled', callback);
 
 // Enhanced event listener management
 const setupEventListeners = (): void => {
@@ -529,6 +680,16 @@ const setupEventListeners = (): void => {
   socketInstance.on('connect_error', (error) => {
     console.error('🔧 Socket Events: Connection error:', error);
     connectionState.error = error?.message || 'Connection error';
+
+    // Expired token: refresh first so the reconnect reads the new one
+    if (isAuthConnectError(error)) {
+      refreshAccessToken()
+        .catch((refreshError) =>
+          console.warn('🔧 Socket Events: Token refresh failed:', refreshError),
+        )
+        .finally(() => handleReconnection());
+      return;
+    }
     handleReconnection();
   });
 
@@ -545,6 +706,7 @@ const handleReconnection = async (): Promise<void> => {
     connectionState.reconnectAttempts >= connectionState.maxReconnectAttempts
   ) {
     console.log('🔧 Socket Reconnect: Max reconnection attempts reached');
+    emitToListeners('reconnect_failed');
     return;
   }
 
@@ -564,118 +726,138 @@ const handleReconnection = async (): Promise<void> => {
   }, delay);
 };
 
-export const on = (event: string, callback: (...args: any[]) => void): void => {
+// Subscribe to a server event; the returned disposer removes only this callback
+export const on = <E extends SocketEventName>(
+  event: E,
+  callback: SocketEvents[E],
+): Unsubscribe => {
   if (!eventListeners.has(event)) {
     eventListeners.set(event, []);
   }
   eventListeners.get(event)!.push(callback);
 
   if (socketInstance) {
-    socketInstance.on(event, callback);
+    socketInstance.on(event as SocketEventName, callback as SocketListener);
   }
+
+  return () => off(event, callback);
 };
 
-export const off = (
-  event: string,
-  callback?: (...args: any[]) => void,
+// Always takes the callback: removing every listener of an event would also
+// drop the ones other screens registered
+export const off = <E extends SocketEventName>(
+  event: E,
+  callback: SocketEvents[E],
 ): void => {
-  if (callback) {
-    const listeners = eventListeners.get(event) || [];
-    const index = listeners.indexOf(callback);
-    if (index > -1) {
-      listeners.splice(index, 1);
-    }
-
-    if (socketInstance) {
-      socketInstance.off(event, callback);
-    }
-  } else {
+  const listeners = eventListeners.get(event) || [];
+  const index = listeners.indexOf(callback);
+  if (index > -1) {
+    listeners.splice(index, 1);
+  }
+  if (listeners.length === 0) {
     eventListeners.delete(event);
-    if (socketInstance) {
-      socketInstance.off(event);
-    }
+  }
+
+  if (socketInstance) {
+    socketInstance.off(event as SocketEventName, callback as SocketListener);
   }
 };
 
+export const createSubscriptionScope = (): SocketSubscriptionScope => {
+  let disposers: Unsubscribe[] = [];
+
+  return {
+    on: (event, callback) => {
+      disposers.push(on(event, callback));
+    },
+    dispose: () => {
+      const pending = disposers;
+      disposers = [];
+      pending.forEach((dispose) => dispose());
+    },
+  };
+};
+
 // ✅ UPDATED: Type-safe event listener helpers with new timer events
-export const onConnect = (callback: () => void): void =>
+export const onConnect = (callback: SocketEvents['connect']): Unsubscribe =>
   on('connect', callback);
-export const onDisconnect = (callback: () => void): void =>
-  on('disconnect', callback);
+export const onDisconnect = (
+  callback: SocketEvents['disconnect'],
+): Unsubscribe => on('disconnect', callback);
 export const onRoomJoined = (
-  callback: (data: { session: DuelSession }) => void,
-): void => on('room_joined', callback);
+  callback: SocketEvents['room_joined'],
+): Unsubscribe => on('room_joined', callback);
 export const onRoomError = (
-  callback: (data: { message: string }) => void,
-): void => on('room_error', callback);
+  callback: SocketEvents['room_error'],
+): Unsubscribe => on('room_error', callback);
 export const onOpponentJoined = (
-  callback: (data: { username: string; isBot?: boolean }) => void,
-): void => on('opponent_joined', callback);
+  callback: SocketEvents['opponent_joined'],
+): Unsubscribe => on('opponent_joined', callback);
 export const onOpponentDisconnected = (
-  callback: (data: { userId: number; username: string }) => void,
-): void => on('opponent_disconnected', callback);
-export const onBothPlayersConnected = (callback: () => void): void =>
-  on('both_players_connected', callback);
+  callback: SocketEvents['opponent_disconnected'],
+): Unsubscribe => on('opponent_disconnected', callback);
+export const onBothPlayersConnected = (
+  callback: SocketEvents['both_players_connected'],
+): Unsubscribe => on('both_players_connected', callback);
 export const onPlayerReady = (
-  callback: (data: {
-    userId: number;
-    username: string;
-    isBot?: boolean;
-  }) => void,
-): void => on('player_ready', callback);
+  callback: SocketEvents['player_ready'],
+): Unsubscribe => on('player_ready', callback);
 export const onDuelStarting = (
-  callback: (data: { countdown: number }) => void,
-): void => on('duel_starting', callback);
+  callback: SocketEvents['duel_starting'],
+): Unsubscribe => on('duel_starting', callback);
 
 // ✅ UPDATED: onQuestionPresented now includes server timing
 export const onQuestionPresented = (
-  callback: (data: {
-    questionIndex: number;
-    totalQuestions: number;
-    question: { id: number; text: string; options: Record<string, string> };
-    timeLimit: number; // Will be 60000
-    serverStartTime: number; // NEW
-    serverEndTime: number; // NEW
-  }) => void,
-): void => on('question_presented', callback);
+  callback: SocketEvents['question_presented'],
+): Unsubscribe => on('question_presented', callback);
 
 export const onOpponentAnswered = (
-  callback: (data: {
-    userId: number;
-    username: string;
-    isBot?: boolean;
-  }) => void,
-): void => on('opponent_answered', callback);
-export const onRoundResult = (callback: (data: RoundResult) => void): void =>
-  on('round_result', callback);
-export const onDuelCompleted = (callback: (data: FinalResult) => void): void =>
-  on('duel_completed', callback);
+  callback: SocketEvents['opponent_answered'],
+): Unsubscribe => on('opponent_answered', callback);
+export const onRoundResult = (
+  callback: SocketEvents['round_result'],
+): Unsubscribe => on('round_result', callback);
+export const onDuelCompleted = (
+  callback: SocketEvents['duel_completed'],
+): Unsubscribe => on('duel_completed', callback);
 
 // ✅ NEW: Timer event listeners
 export const onTimerUpdate = (
-  callback: (data: {
-    timeRemaining: number;
-    serverTime: number;
-    questionIndex: number;
-  }) => void,
-): void => on('timer_update', callback);
+  callback: SocketEvents['timer_update'],
+): Unsubscribe => on('timer_update', callback);
 
 export const onQuestionTimeUp = (
-  callback: (data: { questionIndex: number; serverTime: number }) => void,
-): void => on('question_time_up', callback);
+  callback: SocketEvents['question_time_up'],
+): Unsubscribe => on('question_time_up', callback);
 
 export const onBotChallengeCreated = (
-  callback: (data: { duel: any }) => void,
-): void => on('bot_challenge_created', callback);
+  callback: SocketEvents['bot_challenge_created'],
+): Unsubscribe => on('bot_challenge_created', callback);
 export const onBotChallengeError = (
-  callback: (data: { message: string }) => void,
-): void => on('bot_challenge_error', callback);
+  callback: SocketEvents['bot_challenge_error'],
+): Unsubscribe => on('bot_challenge_error', callback);
 export const onAutoJoinDuel = (
-  callback: (data: { duelId: number }) => void,
-): void => on('auto_join_duel', callback);
-
-const emitToListeners = (event: string, ...args: any[]): void => {
-  const listeners = eventListeners.get(event) || [];
+  callback: SocketEvents['auto_join_duel'],
+): Unsubscribe => on('auto_join_duel', callback);
+export const onDuelStateSnapshot = (
+  callback: SocketEvents['duel_state_snapshot'],
+): Unsubscribe => on('duel_state_snapshot', callback);
+export const onReconnectFailed = (
+  callback: SocketEvents['reconnect_failed'],
+): Unsubscribe => on('reconnect_failed', callback);
+export const onPowerUpApplied = (
+  callback: SocketEvents['power_up_applied'],
+): Unsubscribe => on('power_up_applied', callback);
+export const onPowerUpError = (
+  callback: SocketEvents['power_up_error'],
+): Unsubscribe => on('power_up_error', callback);
+
+const emitToListeners = <E extends SocketEventName>(
+  event: E,
+  ...args: Parameters<SocketEvents[E]>
+): void => {
+  // Copy first: a listener may dispose itself while we iterate
+  const listeners = [...(eventListeners.get(event) || [])];
   listeners.forEach((callback) => {
     try {
       callback(...args);
@@ -694,6 +876,27 @@ export const joinDuelRoom = (duelId: number): void => {
   socketInstance.emit('join_duel_room', { duelId });
 };
 
+// Rejoin a room after a reconnect; the server replies with duel_state_snapshot
+export const resumeDuelRoom = (
+  duelId: number,
+  sessionId: string | null,
+  lastQuestionIndex: number,
+): void => {
+  if (!socketInstance || !socketInstance.connected) {
+    throw new Error('Socket not connected');
+  }
+  console.log('🔧 Socket Action: Resuming duel room:', {
+    duelId,
+    sessionId,
+    lastQuestionIndex,
+  });
+  socketInstance.emit('resume_duel_room', {
+    duelId,
+    sessionId,
+    lastQuestionIndex,
+  });
+};
+
 export const leaveDuelRoom = (): void => {
   if (socketInstance && socketInstance.connected) {
     console.log('🔧 Socket Action: Leaving duel room');
@@ -729,6 +932,23 @@ export const submitAnswer = (
   });
 };
 
+// The server answers with power_up_applied (or power_up_error)
+export const requestPowerUp = (
+  duelId: number,
+  questionIndex: number,
+  powerUp: PowerUpType,
+): void => {
+  if (!socketInstance || !socketInstance.connected) {
+    throw new Error('Socket not connected');
+  }
+  console.log('🔧 Socket Action: Using power-up:', {
+    duelId,
+    questionIndex,
+    powerUp,
+  });
+  socketInstance.emit('use_power_up', { duelId, questionIndex, powerUp });
+};
+
 // Enhanced challengeBot with connection check and auto-connect
 export const challengeBot = async (
   testIdOrCourseId: number,
@@ -787,10 +1007,12 @@ export const challengeBot = async (
 export const challengeBotWithCourse = async (
   courseId: number,
   difficulty: number = 1,
+  options: BotChallengeOptions = {},
 ): Promise<void> => {
   console.log('🔧 Socket Bot: Starting course-based bot challenge...', {
     courseId,
     difficulty,
+    options,
   });
 
   // First ensure we have authentication
@@ -829,6 +1051,7 @@ export const challengeBotWithCourse = async (
   socketInstance.emit('challenge_bot_course', {
     courseId,
     difficulty,
+    ...options,
   });
 };
 
@@ -888,8 +1111,8 @@ export const useSocket = () => {
       setConnectionInfo(getConnectionState());
     };
 
-    onConnect(handleConnect);
-    onDisconnect(handleDisconnect);
+    const disposeConnect = onConnect(handleConnect);
+    const disposeDisconnect = onDisconnect(handleDisconnect);
 
     // Auto-initialize if not connected
     if (!connected) {
@@ -897,8 +1120,8 @@ export const useSocket = () => {
     }
 
     return () => {
-      off('connect', handleConnect);
-      off('disconnect', handleDisconnect);
+      disposeConnect();
+      disposeDisconnect();
     };
   }, []);
 
@@ -909,7 +1132,7 @@ export const useSocket = () => {
     disconnect,
     isConnected,
     on,
-    off,
+    createSubscriptionScope,
     initializeSocket,
   };
 };
@@ -948,12 +1171,12 @@ export const useDuelSocket = (duelId: number | null) => {
       setError(data.message);
     };
 
-    onRoomJoined(handleRoomJoined);
-    onRoomError(handleRoomError);
+    const subscriptions = createSubscriptionScope();
+    subscriptions.on('room_joined', handleRoomJoined);
+    subscriptions.on('room_error', handleRoomError);
 
     return () => {
-      off('room_joined', handleRoomJoined);
-      off('room_error', handleRoomError);
+      subscriptions.dispose();
       leaveRoom.current?.();
     };
   }, [connected, duelId]);
@@ -973,8 +1196,16 @@ export const useDuelSocket = (duelId: number | null) => {
 // Export types for use in components
 export type {
   SocketEvents,
+  ClientToServerEvents,
+  SocketEventName,
+  Unsubscribe,
+  SocketSubscriptionScope,
   DuelSession,
   RoundResult,
   FinalResult,
+  DuelStateSnapshot,
+  PowerUpType,
+  PowerUpInventory,
+  PowerUpApplied,
   ConnectionState,
 };
@@ -49,7 +49,7 @@ export interface StudyPlanProgressPayload {
 }
 
 // For GET /studyPlans/daily-recommendations
-interface DailyRecommendationPayload {
+export interface DailyRecommendationPayload {
   topicId: number;
   topicName?: string;
   branchId?: number;
@@ -72,7 +72,7 @@ interface StudyPlanSessionsPayload {
 }
 
 // For GET /studyPlans/templates
-interface StudyPlanTemplatePayload {
+export interface StudyPlanTemplatePayload {
   id: number; // Template ID
   name: string;
   description: string;
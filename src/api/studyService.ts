@@ -1,16 +1,29 @@
 import apiRequest from './apiClient';
-import { handleStudySessionCompleted } from './achievementService'; // Achievement integration
+import type { ApiResponse, QueuedRequest } from '../types/api';
+import {
+  handleStudySessionCompleted,
+  handleCourseStudySessionCompleted,
+} from './achievementService'; // Achievement integration
 import {
   Question,
   Course,
   PreferredCourse,
   StudyStatistics,
+  BookmarkedQuestion,
+  StudyIntervalMode,
+  StudyIntervalPhase,
+  StudyIntervalPlan,
+  StudyIntervalTransition,
+  StudyTimerSettings,
 } from '../types/models';
 
 // ===============================
 // COURSE-BASED STUDY TRACKING TYPES
 // ===============================
 
+// Shared by queued end-session requests so replays can be recognized
+const END_SESSION_DEDUPE_PREFIX = 'end-session-';
+
 // For chronometer functionality (course-based)
 interface StartStudySessionRequest {
   courseId: number;
@@ -95,6 +108,20 @@ interface StudySessionsResponse {
   };
 }
 
+// For sessions logged or corrected by hand instead of the chronometer
+export interface ManualStudySessionRequest {
+  courseId: number;
+  startTime: string; // ISO timestamp
+  endTime: string; // ISO timestamp
+  breakDurationSeconds: number;
+  notes?: string;
+}
+
+interface ManualStudySessionResponse {
+  message: string;
+  session: CourseStudySession;
+}
+
 // For course progress management
 interface UpdateCourseProgressRequest {
   courseId: number;
@@ -231,6 +258,12 @@ interface MessagePayload {
   message: string;
 }
 
+// For GET /study/bookmarks
+interface BookmarkedQuestionsPayload {
+  questions: BookmarkedQuestion[];
+  total: number;
+}
+
 // Legacy study types (for backward compatibility)
 type DifficultyLevel = 'easy' | 'medium' | 'hard';
 
@@ -288,35 +321,64 @@ export const startStudySession = async (
 };
 
 /**
- * End a study session - ENHANCED with achievement checking
+ * End a study session - ENHANCED with achievement checking. The end time and
+ * total break time come from the device, so a request queued offline and
+ * replayed hours later still closes the session when the user stopped it.
  */
 export const endStudySession = async (
   sessionId: number,
   notes?: string,
+  {
+    endedAt = new Date().toISOString(),
+    breakDurationSeconds,
+  }: { endedAt?: string; breakDurationSeconds?: number } = {},
 ): Promise<EndStudySessionResponse & { achievementCheck?: any }> => {
   const response = await apiRequest<EndStudySessionResponse>(
     `/study/sessions/${sessionId}/end`,
     'POST',
-    { notes },
+    { notes, endedAt, breakDurationSeconds },
+    {
+      offlineQueue: {
+        label: 'offline.actions.endStudySession',
+        dedupeKey: `${END_SESSION_DEDUPE_PREFIX}${sessionId}`,
+      },
+    },
   );
 
   if (!response.data) {
     throw new Error('Failed to end study session: No data returned.');
   }
 
-  // Trigger achievement check after successful study session completion
-  let achievementCheck = null;
+  return {
+    ...response.data,
+    achievementCheck: await checkEndedSessionAchievements(
+      response.data.session,
+    ),
+  };
+};
+
+// Queued end-session requests skip the check above; run it once apiClient
+// replays them
+export const handleReplayedStudyRequest = async (
+  request: QueuedRequest,
+  response: ApiResponse<EndStudySessionResponse>,
+): Promise<void> => {
+  if (!request.dedupeKey?.startsWith(END_SESSION_DEDUPE_PREFIX)) return;
+  if (!response.data?.session) return;
+  await checkEndedSessionAchievements(response.data.session);
+};
+
+// Trigger achievement check after successful study session completion
+const checkEndedSessionAchievements = async (
+  session: EndStudySessionResponse['session'],
+) => {
   try {
-    achievementCheck = await handleStudySessionCompleted(response.data.session);
+    return await handleStudySessionCompleted(session);
   } catch (error) {
     console.error('Achievement check failed after study session:', error);
     // Don't throw - achievement check failure shouldn't break study session
+    return null;
   }
-
-  return {
-    ...response.data,
-    achievementCheck,
-  };
 };
 
 /**
@@ -340,9 +402,12 @@ export const addBreakTime = async (
 };
 
 /**
- * Get active study session for current user
+ * Get active study session for current user. Pass `skipCache` when a stale
+ * cached answer would be wrong, e.g. reconciling the chronometer on launch.
  */
-export const getActiveStudySession = async (): Promise<{
+export const getActiveStudySession = async ({
+  skipCache = false,
+}: { skipCache?: boolean } = {}): Promise<{
   sessionId: number;
   courseId: number;
   courseTitle: string;
@@ -359,6 +424,9 @@ export const getActiveStudySession = async (): Promise<{
   try {
     const response = await apiRequest<ActiveStudySessionResponse>(
       '/study/sessions/active',
+      'GET',
+      null,
+      { skipCache },
     );
     return response.data?.activeSession || null;
   } catch (error: any) {
@@ -399,10 +467,111 @@ export const getUserStudySessions = async (
   return response.data;
 };
 
+/**
+ * Log a past study session by hand - ENHANCED with achievement checking
+ */
+export const logStudySession = async (
+  details: ManualStudySessionRequest,
+): Promise<ManualStudySessionResponse & { achievementCheck?: any }> => {
+  const response = await apiRequest<ManualStudySessionResponse>(
+    '/study/sessions/manual',
+    'POST',
+    details,
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to log study session: No data returned.');
+  }
+
+  return {
+    ...response.data,
+    achievementCheck: await checkSessionAchievements(response.data.session),
+  };
+};
+
+/**
+ * Edit a finished study session - ENHANCED with achievement checking
+ */
+export const updateStudySession = async (
+  sessionId: number,
+  details: ManualStudySessionRequest,
+): Promise<ManualStudySessionResponse & { achievementCheck?: any }> => {
+  const response = await apiRequest<ManualStudySessionResponse>(
+    `/study/sessions/${sessionId}`,
+    'PUT',
+    details,
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to update study session: No data returned.');
+  }
+
+  return {
+    ...response.data,
+    achievementCheck: await checkSessionAchievements(response.data.session),
+  };
+};
+
+/**
+ * Delete a study session - ENHANCED with achievement checking
+ */
+export const deleteStudySession = async (
+  session: CourseStudySession,
+): Promise<{ message: string; achievementCheck?: any }> => {
+  const response = await apiRequest<{ message: string }>(
+    `/study/sessions/${session.sessionId}`,
+    'DELETE',
+  );
+
+  if (!response.data) {
+    throw new Error('Failed to delete study session: No data returned.');
+  }
+
+  return {
+    ...response.data,
+    // The deleted session no longer contributes any study time
+    achievementCheck: await checkSessionAchievements({
+      ...session,
+      studyDurationSeconds: 0,
+      breakDurationSeconds: 0,
+      totalDurationSeconds: 0,
+    }),
+  };
+};
+
+// Re-run the course session achievement check after a session was changed
+// by hand (the handler never throws)
+const checkSessionAchievements = (session: CourseStudySession) =>
+  handleCourseStudySessionCompleted({
+    courseId: session.courseId,
+    courseTitle: session.courseTitle,
+    studyDurationSeconds: session.studyDurationSeconds ?? 0,
+    breakDurationSeconds: session.breakDurationSeconds ?? 0,
+    totalDurationSeconds: session.totalDurationSeconds,
+    sessionDate: session.sessionDate,
+    sessionId: session.sessionId,
+    notes: session.notes,
+  });
+
 // ===============================
 // COURSE PROGRESS MANAGEMENT
 // ===============================
 
+// /study/progress is a partial update, so only a change to the same fields can
+// replace a queued one; e.g. a checklist percentage must not drop queued notes
+const getCourseProgressDedupeKey = (
+  details: UpdateCourseProgressRequest,
+): string => {
+  const fields = Object.keys(details)
+    .filter(
+      (field) =>
+        field !== 'courseId' &&
+        details[field as keyof UpdateCourseProgressRequest] !== undefined,
+    )
+    .sort();
+  return `course-progress-${details.courseId}-${fields.join(',')}`;
+};
+
 /**
  * Update user course progress - ENHANCED with achievement checking
  */
@@ -413,6 +582,12 @@ export const updateUserCourseProgress = async (
     '/study/progress',
     'POST',
     details,
+    {
+      offlineQueue: {
+        label: 'offline.actions.updateCourseProgress',
+        dedupeKey: getCourseProgressDedupeKey(details),
+      },
+    },
   );
 
   if (!response.data) {
@@ -633,6 +808,109 @@ export const calculateCourseCompletion = (
   return Math.round((studiedSessions / totalExpectedSessions) * 100);
 };
 
+// ===============================
+// STUDY INTERVAL HELPERS (Pomodoro & custom cycles)
+// ===============================
+
+export const STUDY_INTERVAL_MODES: StudyIntervalMode[] = [
+  'free',
+  'pomodoro',
+  'fiftyTen',
+  'custom',
+];
+
+export const STUDY_INTERVAL_PRESETS: Record<
+  Exclude<StudyIntervalMode, 'free' | 'custom'>,
+  StudyIntervalPlan
+> = {
+  pomodoro: {
+    workMinutes: 25,
+    breakMinutes: 5,
+    longBreakMinutes: 15,
+    cyclesBeforeLongBreak: 4,
+  },
+  fiftyTen: { workMinutes: 50, breakMinutes: 10 },
+};
+
+export const CUSTOM_INTERVAL_LIMITS = {
+  work: { min: 5, max: 180, step: 5 },
+  break: { min: 1, max: 60, step: 1 },
+} as const;
+
+export const DEFAULT_STUDY_TIMER_SETTINGS: StudyTimerSettings = {
+  intervalMode: 'free',
+  customWorkMinutes: 45,
+  customBreakMinutes: 15,
+  backgroundTimeMode: 'study',
+};
+
+/**
+ * Work/break plan for the selected mode, or null for the free stopwatch
+ */
+export const getStudyIntervalPlan = (
+  settings: StudyTimerSettings,
+): StudyIntervalPlan | null => {
+  switch (settings.intervalMode) {
+    case 'pomodoro':
+    case 'fiftyTen':
+      return STUDY_INTERVAL_PRESETS[settings.intervalMode];
+    case 'custom':
+      return {
+        workMinutes: settings.customWorkMinutes,
+        breakMinutes: settings.customBreakMinutes,
+      };
+    default:
+      return null;
+  }
+};
+
+/**
+ * Length of the break that follows the given (1-based) work cycle
+ */
+export const getIntervalBreakMinutes = (
+  plan: StudyIntervalPlan,
+  completedCycles: number,
+): number =>
+  plan.longBreakMinutes &&
+  plan.cyclesBeforeLongBreak &&
+  completedCycles % plan.cyclesBeforeLongBreak === 0
+    ? plan.longBreakMinutes
+    : plan.breakMinutes;
+
+/**
+ * Phase switches still ahead of the current phase, in order. Used to
+ * schedule local notifications that fire while the app is backgrounded.
+ */
+export const getUpcomingIntervalTransitions = (
+  plan: StudyIntervalPlan,
+  currentPhase: StudyIntervalPhase,
+  phaseEndsAt: Date,
+  completedCycles: number,
+  count: number,
+): StudyIntervalTransition[] => {
+  const transitions: StudyIntervalTransition[] = [];
+  let phase = currentPhase;
+  let at = phaseEndsAt.getTime();
+  let cycles = completedCycles;
+
+  while (transitions.length < count) {
+    if (phase === 'work') {
+      cycles += 1;
+      phase = 'break';
+    } else {
+      phase = 'work';
+    }
+    const minutes =
+      phase === 'break'
+        ? getIntervalBreakMinutes(plan, cycles)
+        : plan.workMinutes;
+    transitions.push({ phase, at: new Date(at), minutes });
+    at += minutes * 60 * 1000;
+  }
+
+  return transitions;
+};
+
 /**
  * Get comprehensive course study data
  */
@@ -943,23 +1221,52 @@ export const flagQuestion = async (
 };
 
 export const bookmarkQuestion = async (
+  question: BookmarkedQuestion,
+): Promise<MessagePayload> => {
+  const response = await apiRequest<MessagePayload>(
+    `/study/questions/${question.question_id}/bookmark`,
+    'POST',
+    {
+      courseId: question.course_id ?? undefined,
+      testId: question.test_id ?? undefined,
+      bookmarkedAt: question.bookmarked_at,
+    },
+  );
+  return response.data || { message: 'Question bookmarked successfully.' };
+};
+
+export const removeQuestionBookmark = async (
   questionId: number,
 ): Promise<MessagePayload> => {
-  console.warn('bookmarkQuestion is deprecated in course-based study system.');
-  return {
-    message:
-      'Question bookmarking is not available in course-based study system.',
-  };
+  try {
+    const response = await apiRequest<MessagePayload>(
+      `/study/questions/${questionId}/bookmark`,
+      'DELETE',
+    );
+    return response.data || { message: 'Bookmark removed successfully.' };
+  } catch (error: any) {
+    // Already gone on the server - nothing left to remove
+    if (error.status === 404) {
+      return { message: 'Bookmark not found.' };
+    }
+    throw error;
+  }
 };
 
 export const getBookmarkedQuestions = async (
   page: number = 1,
   limit: number = 20,
-): Promise<{ questions: any[]; total: number }> => {
-  console.warn(
-    'getBookmarkedQuestions is deprecated in course-based study system.',
+): Promise<BookmarkedQuestionsPayload> => {
+  const response = await apiRequest<BookmarkedQuestionsPayload>(
+    `/study/bookmarks?page=${page}&limit=${limit}`,
   );
-  return { questions: [], total: 0 };
+  if (!response.data || typeof response.data !== 'object') {
+    return { questions: [], total: 0 };
+  }
+  return {
+    questions: response.data.questions || [],
+    total: response.data.total || 0,
+  };
 };
 
 export const getStudyStats = async (): Promise<any> => {
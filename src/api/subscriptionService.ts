@@ -172,14 +172,17 @@ export const getSubscriptionPlans =
     return response.data || [];
   };
 
+// promoCode is the code accepted by applyPromoCode; the backend prices the
+// payment with it
 export const initiatePayment = async (
   planId: number,
   paymentMethod: string,
+  promoCode?: string,
 ): Promise<InitiatePaymentPayload> => {
   const response = await apiRequest<InitiatePaymentPayload>(
     '/subscriptions/initiate-payment',
     'POST',
-    { planId, paymentMethod },
+    { planId, paymentMethod, promoCode },
   );
   if (!response.data)
     throw new Error(
@@ -113,12 +113,19 @@ export interface UpdateTestRequest {
   topicId?: number; // NEW: Optional topic relationship for updates (can be null to remove association)
 }
 
+// Shape of a single answer sent along with a test submission
+export interface SubmittedAnswer {
+  questionId: number;
+  userAnswer: string;
+  isCorrect: boolean;
+}
+
 export interface SubmitTestRequest {
   // This is more of an input for the API, not a response type
   testId: number;
   score: number;
   timeTaken?: number; // In seconds or minutes
-  answers: Answer[]; // Array of Answer objects { questionId, userAnswer, isCorrect }
+  answers: SubmittedAnswer[]; // { questionId, userAnswer, isCorrect }
 }
 
 // --- Service Functions ---
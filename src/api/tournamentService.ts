@@ -0,0 +1,130 @@
+// src/api/tournamentService.ts
+import apiRequest from './apiClient';
+import { Tournament, TournamentSize } from '../types/models';
+// ApiResponse is implicitly handled by apiRequest
+
+// --- Define interfaces for the *actual data payloads* your backend sends ---
+// --- These will be the TData in apiRequest<TData> ---
+
+// For GET /tournaments
+type TournamentsPayload = Tournament[];
+
+// For GET /tournaments/:id, POST /tournaments and every action below.
+// Actions return the whole updated tournament so the bracket can be redrawn.
+interface TournamentPayload {
+  message?: string;
+  tournament: Tournament;
+}
+
+// --- Service Input DTOs ---
+
+export interface CreateTournamentInput {
+  name: string;
+  courseId: number;
+  size: TournamentSize;
+  questionCount?: number;
+}
+
+// --- Service Functions ---
+
+export const getTournaments = async (
+  courseId?: number,
+): Promise<TournamentsPayload> => {
+  const query = courseId ? `?courseId=${courseId}` : '';
+  const response = await apiRequest<TournamentsPayload>(`/tournaments${query}`);
+  return response.data || [];
+};
+
+export const getTournament = async (
+  tournamentId: number,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>(
+    `/tournaments/${tournamentId}`,
+  );
+  if (!response.data) {
+    throw new Error(
+      `Tournament with ID ${tournamentId} not found: No data received`,
+    );
+  }
+  return response.data.tournament;
+};
+
+export const createTournament = async (
+  input: CreateTournamentInput,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>('/tournaments', 'POST', {
+    name: input.name,
+    courseId: input.courseId,
+    size: input.size,
+    questionCount: input.questionCount ?? 5,
+  });
+  if (!response.data) {
+    throw new Error('Failed to create tournament: No data received');
+  }
+  return response.data.tournament;
+};
+
+export const joinTournament = async (
+  tournamentId: number,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>(
+    `/tournaments/${tournamentId}/join`,
+    'POST',
+  );
+  if (!response.data) {
+    throw new Error(
+      `Failed to join tournament with ID ${tournamentId}: No data received`,
+    );
+  }
+  return response.data.tournament;
+};
+
+export const leaveTournament = async (
+  tournamentId: number,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>(
+    `/tournaments/${tournamentId}/leave`,
+    'POST',
+  );
+  if (!response.data) {
+    throw new Error(
+      `Failed to leave tournament with ID ${tournamentId}: No data received`,
+    );
+  }
+  return response.data.tournament;
+};
+
+// Organizer only - closes registration; the backend seeds the bracket and
+// creates the first-round duels
+export const startTournament = async (
+  tournamentId: number,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>(
+    `/tournaments/${tournamentId}/start`,
+    'POST',
+  );
+  if (!response.data) {
+    throw new Error(
+      `Failed to start tournament with ID ${tournamentId}: No data received`,
+    );
+  }
+  return response.data.tournament;
+};
+
+// Has the backend advance the winner of every match whose duel has finished
+// and create the duels that became playable. Safe to call again, so any
+// participant can ask for it.
+export const syncTournament = async (
+  tournamentId: number,
+): Promise<Tournament> => {
+  const response = await apiRequest<TournamentPayload>(
+    `/tournaments/${tournamentId}/sync`,
+    'POST',
+  );
+  if (!response.data) {
+    throw new Error(
+      `Failed to sync tournament with ID ${tournamentId}: No data received`,
+    );
+  }
+  return response.data.tournament;
+};
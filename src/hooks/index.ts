@@ -6,3 +6,4 @@ export { useBatchedAPI } from './useBatchedAPI';
 export { useMemoryOptimizer } from './useMemoryOptimizer2';
 export { usePerformanceMonitor } from './usePerformanceMonitor';
 export { useOptimizedState } from './useOptimizedState';
+export { useTranslation } from './useTranslation';
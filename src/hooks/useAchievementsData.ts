@@ -20,16 +20,17 @@ import {
   formatProgressPercentage,
   isAchievementCompleted,
   getNextMilestone,
-  getTurkishRequirementName,
-  getTurkishRequirementDetail,
-  getTurkishCompletionStatus,
-  getTurkishCategoryName,
-  getTurkishRarityName,
+  getRequirementName,
+  getRequirementDetail,
+  getCompletionStatus,
+  getCategoryName,
+  getRarityName,
   triggerAchievementCheck,
   handleCourseStudySessionCompleted,
   handleCourseCompleted,
   handleDuelCompleted,
 } from '../api/achievementService';
+import { useLanguage } from '../../stores/appStore';
 
 // ✅ USING YOUR EXACT MODEL TYPES
 import type {
@@ -59,8 +60,8 @@ export interface EnhancedAchievement extends Achievement {
   overall_progress: number;
   next_milestone?: string | null;
   completion_status: string;
-  turkish_category: string;
-  turkish_rarity: string;
+  category_name: string;
+  rarity_name: string;
   difficulty_level: 'Kolay' | 'Orta' | 'Zor' | 'Çok Zor';
 }
 
@@ -345,8 +346,10 @@ export function useAchievementLeaderboard(limit: number = 20) {
 
 // 🚀 SPECIFIC ACHIEVEMENT DETAILS HOOK
 export function useAchievementDetails(achievementId: number) {
+  const { language } = useLanguage();
+
   return useQuery({
-    queryKey: ['achievement-details', achievementId],
+    queryKey: ['achievement-details', achievementId, language],
     queryFn: async (): Promise<EnhancedAchievement | null> => {
       console.log(`🔍 Fetching achievement details for ${achievementId}...`);
       try {
@@ -409,9 +412,11 @@ export function useEnhancedAchievements() {
   const allAchievementsQuery = useAllAchievements();
   const userAchievementsQuery = useUserAchievements();
   const progressQuery = useAchievementProgress();
+  // Category and rarity names are localized while enhancing
+  const { language } = useLanguage();
 
   return useQuery({
-    queryKey: ['enhanced-achievements'],
+    queryKey: ['enhanced-achievements', language],
     queryFn: async (): Promise<EnhancedAchievement[]> => {
       console.log('🚀 Creating enhanced achievements...');
 
@@ -894,14 +899,9 @@ export const enhanceAchievement = (
     is_unlocked: !!userAchievement,
     overall_progress,
     next_milestone: progressData ? getNextMilestone(progressData) : null,
-    completion_status: getTurkishCompletionStatus(
-      !!userAchievement,
-      overall_progress,
-    ),
-    turkish_category: getTurkishCategoryName(
-      baseAchievement.category || 'general',
-    ),
-    turkish_rarity: getTurkishRarityName(rarity),
+    completion_status: getCompletionStatus(!!userAchievement, overall_progress),
+    category_name: getCategoryName(baseAchievement.category || 'general'),
+    rarity_name: getRarityName(rarity),
     difficulty_level: determineDifficultyLevel(baseAchievement.requirements),
   };
 };
@@ -946,11 +946,11 @@ export const achievementHelpers = {
   formatProgressPercentage,
   isAchievementCompleted,
   getNextMilestone,
-  getTurkishRequirementName,
-  getTurkishRequirementDetail,
-  getTurkishCompletionStatus,
-  getTurkishCategoryName,
-  getTurkishRarityName,
+  getRequirementName,
+  getRequirementDetail,
+  getCompletionStatus,
+  getCategoryName,
+  getRarityName,
 };
 
 // ✅ COMBINED EXPORT FOR COMPREHENSIVE ACHIEVEMENT MANAGEMENT
@@ -0,0 +1,276 @@
+// src/hooks/useAnalyticsDashboardData.ts - Study time charts, course distribution and activity heatmap
+import { useMemo } from 'react';
+import { useQuery, keepPreviousData } from '@tanstack/react-query';
+import {
+  getAnalyticsForPeriod,
+  getUserDailyProgress,
+  getUserTopCourses,
+  calculateImprovementTrends,
+} from '../api/analyticsService';
+import { useAuth } from '../../stores/appStore';
+import { studyPlanHelpers } from './useStudyPlanData';
+import type { DailyProgress, TopCourse } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface AnalyticsRange {
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+}
+
+export interface DailyStudyPoint {
+  date: string; // YYYY-MM-DD
+  minutes: number;
+  sessions: number;
+}
+
+export interface WeeklyStudyPoint {
+  weekStart: string; // YYYY-MM-DD, Monday (or the range start)
+  hours: number;
+}
+
+export interface CourseShare {
+  courseId: number | null; // null for the grouped remainder
+  courseTitle: string;
+  hours: number;
+}
+
+export const ANALYTICS_RANGE_PRESETS = [
+  { key: 'week', days: 7 },
+  { key: 'month', days: 30 },
+  { key: 'quarter', days: 90 },
+] as const;
+
+export const DEFAULT_ANALYTICS_RANGE_DAYS = 30;
+
+// Trailing window shown in the activity heatmap, independent of the range
+export const HEATMAP_DAYS = 182;
+
+// Courses shown as their own donut slice; the rest are grouped together
+const DONUT_COURSE_LIMIT = 5;
+const TOP_COURSES_FETCH_LIMIT = 20;
+
+const ANALYTICS_KEYS = {
+  period: (userId: number | undefined, range: AnalyticsRange) =>
+    ['analytics-period', userId, range.startDate, range.endDate] as const,
+  heatmap: (userId?: number) => ['analytics-heatmap', userId] as const,
+  topCourses: (userId?: number) => ['analytics-top-courses', userId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 PERIOD ANALYTICS HOOK - daily and weekly study time for the selected range
+export function useAnalyticsPeriod(range: AnalyticsRange) {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const query = useQuery({
+    queryKey: ANALYTICS_KEYS.period(user?.userId, range),
+    queryFn: () => getAnalyticsForPeriod(range.startDate, range.endDate),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    // Keep the previous range on screen while the next one loads
+    placeholderData: keepPreviousData,
+    retry: 1,
+  });
+
+  const daily = useMemo(
+    () => fillDailyProgress(query.data?.dailyProgress ?? [], range),
+    [query.data, range],
+  );
+
+  const weekly = useMemo(() => groupByWeek(daily), [daily]);
+
+  const totals = useMemo(() => getPeriodTotals(daily), [daily]);
+
+  // Compare against the zero-filled days so idle days count as idle
+  const trends = useMemo(
+    () =>
+      calculateImprovementTrends(
+        daily.map((day) => ({
+          study_date: day.date,
+          daily_study_minutes: day.minutes,
+          daily_break_minutes: 0,
+          daily_sessions: day.sessions,
+          daily_courses_studied: 0,
+        })),
+      ),
+    [daily],
+  );
+
+  return {
+    daily,
+    weekly,
+    totals,
+    trends,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+// 🚀 STUDY HEATMAP HOOK - minutes per day for the trailing heatmap window
+export function useStudyHeatmap() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const range = useMemo(() => getTrailingRange(HEATMAP_DAYS), []);
+
+  const query = useQuery({
+    queryKey: ANALYTICS_KEYS.heatmap(user?.userId),
+    queryFn: async (): Promise<DailyProgress[]> => {
+      const response = await getUserDailyProgress(
+        range.startDate,
+        range.endDate,
+      );
+      return response.dailyProgress;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+
+  const days = useMemo(
+    () => fillDailyProgress(query.data ?? [], range),
+    [query.data, range],
+  );
+
+  return {
+    range,
+    days,
+    activeDays: days.filter((day) => day.minutes > 0).length,
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+// 🚀 COURSE DISTRIBUTION HOOK - share of total study time per course
+export function useCourseDistribution() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const query = useQuery({
+    queryKey: ANALYTICS_KEYS.topCourses(user?.userId),
+    queryFn: () => getUserTopCourses(TOP_COURSES_FETCH_LIMIT),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+
+  const shares = useMemo(() => getCourseShares(query.data ?? []), [query.data]);
+
+  return {
+    shares,
+    totalHours: roundHours(shares.reduce((sum, share) => sum + share.hours, 0)),
+    isLoading: query.isLoading,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const { toDateInputValue, addDays } = studyPlanHelpers;
+
+const roundHours = (hours: number): number => Math.round(hours * 10) / 10;
+
+// Range of `days` whole days ending today
+const getTrailingRange = (
+  days: number,
+  now: Date = new Date(),
+): AnalyticsRange => {
+  const endDate = toDateInputValue(now);
+  return { startDate: addDays(endDate, -(days - 1)), endDate };
+};
+
+// One point per day of the range; days without sessions come back as zero
+const fillDailyProgress = (
+  progress: DailyProgress[],
+  range: AnalyticsRange,
+): DailyStudyPoint[] => {
+  const byDate = new Map<string, DailyProgress>();
+  progress.forEach((day) => byDate.set(day.study_date.slice(0, 10), day));
+
+  const points: DailyStudyPoint[] = [];
+  for (
+    let date = range.startDate;
+    date <= range.endDate;
+    date = addDays(date, 1)
+  ) {
+    const day = byDate.get(date);
+    points.push({
+      date,
+      minutes: Math.round(Number(day?.daily_study_minutes) || 0),
+      sessions: Number(day?.daily_sessions) || 0,
+    });
+  }
+  return points;
+};
+
+// Buckets days into Monday-based weeks, clipped to the range
+const groupByWeek = (days: DailyStudyPoint[]): WeeklyStudyPoint[] => {
+  const weeks: WeeklyStudyPoint[] = [];
+  days.forEach((day, index) => {
+    const isMonday = new Date(`${day.date}T00:00:00`).getDay() === 1;
+    if (index === 0 || isMonday) {
+      weeks.push({ weekStart: day.date, hours: 0 });
+    }
+    weeks[weeks.length - 1].hours += day.minutes / 60;
+  });
+  return weeks.map((week) => ({ ...week, hours: roundHours(week.hours) }));
+};
+
+const getPeriodTotals = (days: DailyStudyPoint[]) => {
+  const minutes = days.reduce((sum, day) => sum + day.minutes, 0);
+  const activeDays = days.filter((day) => day.minutes > 0).length;
+  return {
+    hours: roundHours(minutes / 60),
+    sessions: days.reduce((sum, day) => sum + day.sessions, 0),
+    activeDays,
+    averageMinutesPerActiveDay:
+      activeDays > 0 ? Math.round(minutes / activeDays) : 0,
+  };
+};
+
+const getCourseShares = (courses: TopCourse[]): CourseShare[] => {
+  const sorted = courses
+    .map((course) => ({
+      courseId: course.course_id,
+      courseTitle: course.course_title,
+      hours: Number(course.study_session_hours) || 0,
+    }))
+    .filter((course) => course.hours > 0)
+    .sort((a, b) => b.hours - a.hours);
+
+  const shown = sorted.slice(0, DONUT_COURSE_LIMIT);
+  const rest = sorted.slice(DONUT_COURSE_LIMIT);
+  const shares: CourseShare[] = shown.map((course) => ({
+    ...course,
+    hours: roundHours(course.hours),
+  }));
+
+  if (rest.length > 0) {
+    shares.push({
+      courseId: null,
+      courseTitle: '',
+      hours: roundHours(rest.reduce((sum, course) => sum + course.hours, 0)),
+    });
+  }
+  return shares;
+};
+
+export const analyticsDashboardHelpers = {
+  getTrailingRange,
+  fillDailyProgress,
+  groupByWeek,
+  getPeriodTotals,
+  getCourseShares,
+};
@@ -0,0 +1,336 @@
+// src/hooks/useAsyncDuelData.ts - Turn-based duels played by each side on their own time
+import { useEffect, useMemo, useRef } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  createAsyncChallenge,
+  getAsyncDuel,
+  submitAsyncRun,
+  submitDuelResult,
+  getPendingChallenges,
+  getActiveDuels,
+  type AsyncDuelPayload,
+} from '../api/duelService';
+import { sendDuelResultNotification } from '../api/notificationService';
+import { useAuth } from '../../stores/appStore';
+import type { AsyncDuelRun, Duel } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface AsyncRunAnswerInput {
+  questionId: number;
+  selectedAnswer: string | null;
+  timeTaken: number; // ms
+}
+
+export interface SubmitAsyncRunInput {
+  duelId: number;
+  answers: AsyncRunAnswerInput[];
+}
+
+// How long the opponent has to play, when the backend doesn't send expires_at
+export const ASYNC_DUEL_WINDOW_HOURS = 24;
+
+// Per-question limit while playing a turn
+export const ASYNC_QUESTION_TIME_LIMIT_S = 60;
+
+const ASYNC_DUEL_KEYS = {
+  all: ['async-duels'] as const,
+  turns: ['async-duels', 'turns'] as const,
+  detail: (duelId: number) => ['async-duels', 'detail', duelId] as const,
+};
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 YOUR TURN HOOK - async duels waiting on the signed-in user
+export function useAsyncDuelTurns() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const userId = user?.userId;
+  const { mutate: reconcile } = useReconcileAsyncDuel();
+  const attemptedRef = useRef(new Set<number>());
+
+  const query = useQuery({
+    queryKey: [...ASYNC_DUEL_KEYS.turns, userId],
+    queryFn: async (): Promise<Duel[]> => {
+      const [pending, active] = await Promise.all([
+        getPendingChallenges(),
+        getActiveDuels(),
+      ]);
+      const seen = new Set<number>();
+      return [...pending, ...active].filter((duel) => {
+        if (seen.has(duel.duel_id)) return false;
+        seen.add(duel.duel_id);
+        return true;
+      });
+    },
+    enabled: isAuthenticated && !authLoading && !!userId,
+    staleTime: 60 * 1000, // 1 minute
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+  });
+
+  // Duels we played that expired without the opponent's run are closed out
+  // from here, once per duel while the list is mounted
+  useEffect(() => {
+    if (!userId || !query.data) return;
+    query.data
+      .filter(
+        (duel) =>
+          isAsyncDuel(duel) &&
+          isExpired(duel) &&
+          hasFinished(duel, userId) &&
+          !attemptedRef.current.has(duel.duel_id),
+      )
+      .forEach((duel) => {
+        attemptedRef.current.add(duel.duel_id);
+        reconcile({ duelId: duel.duel_id });
+      });
+  }, [query.data, userId, reconcile]);
+
+  const turns = useMemo(
+    () =>
+      (query.data ?? []).filter(
+        (duel) => !!userId && isMyTurn(duel, userId) && !isExpired(duel),
+      ),
+    [query.data, userId],
+  );
+
+  return { ...query, data: turns };
+}
+
+// 🚀 ASYNC DUEL HOOK - questions plus whichever runs are already in
+export function useAsyncDuel(duelId: number) {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+  const userId = user?.userId;
+  const { mutate: reconcile } = useReconcileAsyncDuel();
+  const attemptedRef = useRef<number | null>(null);
+
+  const query = useQuery({
+    queryKey: ASYNC_DUEL_KEYS.detail(duelId),
+    queryFn: async (): Promise<AsyncDuelPayload> => getAsyncDuel(duelId),
+    enabled: isAuthenticated && !authLoading && !!duelId,
+    staleTime: 30 * 1000, // 30 seconds
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+
+  // Whichever player opens the duel first once it can be settled records it,
+  // once per visit to the screen
+  const payload = query.data;
+  useEffect(() => {
+    if (!userId || !payload || attemptedRef.current === duelId) return;
+    if (needsResult(payload, userId)) {
+      attemptedRef.current = duelId;
+      reconcile({ duelId, payload });
+    }
+  }, [duelId, payload, userId, reconcile]);
+
+  return query;
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// A duel is ready for its result once both runs are in, or once it has
+// expired and we played (the opponent's run is hidden until ours is in, so
+// only the player who played can score a forfeit)
+const needsResult = (payload: AsyncDuelPayload, userId: number): boolean => {
+  const { duel, runs } = payload;
+  if (duel.status === 'completed') return false;
+  const bothPlayed =
+    !!getRun(runs, duel.initiator_id) && !!getRun(runs, duel.opponent_id);
+  return bothPlayed || (isExpired(duel) && !!getRun(runs, userId));
+};
+
+// Records the duel result, a missing run counting as 0, and lets the other
+// player know. Never throws: an unsettled duel is simply tried again the next
+// time it is opened.
+const reconcileResult = async (
+  payload: AsyncDuelPayload,
+  currentUserId: number,
+): Promise<AsyncDuelPayload> => {
+  if (!needsResult(payload, currentUserId)) return payload;
+
+  const { duel, runs } = payload;
+  const initiatorScore = getRun(runs, duel.initiator_id)?.score ?? 0;
+  const opponentScore = getRun(runs, duel.opponent_id)?.score ?? 0;
+
+  let winnerId: number | null;
+  try {
+    const { result } = await submitDuelResult(
+      duel.duel_id,
+      initiatorScore,
+      opponentScore,
+    );
+    winnerId = result.winner_id ?? null;
+  } catch (error) {
+    console.warn('⚠️ Could not record async duel result:', duel.duel_id, error);
+    return payload;
+  }
+
+  try {
+    await sendDuelResultNotification({
+      duelId: duel.duel_id,
+      recipientId: getOpponentId(duel, currentUserId),
+      initiatorScore,
+      opponentScore,
+      winnerId,
+    });
+  } catch (error) {
+    console.warn('⚠️ Duel result notification failed:', error);
+  }
+
+  return { ...payload, duel: { ...duel, status: 'completed' } };
+};
+
+// 🚀 RECONCILE HOOK - settles a duel outside of any query function, so
+// refetches never write to the backend or send notifications
+function useReconcileAsyncDuel() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  return useMutation({
+    mutationFn: async ({
+      duelId,
+      payload,
+    }: {
+      duelId: number;
+      payload?: AsyncDuelPayload;
+    }): Promise<AsyncDuelPayload> => {
+      const current = payload ?? (await getAsyncDuel(duelId));
+      return user?.userId ? reconcileResult(current, user.userId) : current;
+    },
+    onSuccess: (payload) => {
+      if (payload.duel.status !== 'completed') return;
+      queryClient.setQueryData(
+        ASYNC_DUEL_KEYS.detail(payload.duel.duel_id),
+        payload,
+      );
+      queryClient.invalidateQueries({ queryKey: ['active-duels'] });
+      queryClient.invalidateQueries({ queryKey: ['duel-history'] });
+    },
+    onError: (error) => {
+      console.error('❌ Error reconciling async duel:', error);
+    },
+  });
+}
+
+// 🚀 ASYNC MUTATIONS - challenge / submit a turn
+export function useAsyncDuelMutations() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const challengeMutation = useMutation({
+    mutationFn: ({
+      opponentId,
+      courseId,
+      questionCount = 5,
+    }: {
+      opponentId: number;
+      courseId: number;
+      questionCount?: number;
+    }) => createAsyncChallenge(opponentId, courseId, questionCount),
+    onSuccess: (response) => {
+      console.log('✅ Async duel created:', response.duel.duel_id);
+      queryClient.invalidateQueries({ queryKey: ASYNC_DUEL_KEYS.turns });
+    },
+    onError: (error) => {
+      console.error('❌ Error creating async duel:', error);
+    },
+  });
+
+  const submitRunMutation = useMutation({
+    mutationFn: async ({
+      duelId,
+      answers,
+    }: SubmitAsyncRunInput): Promise<AsyncDuelPayload> => {
+      const payload = await submitAsyncRun(duelId, answers);
+      return user?.userId ? reconcileResult(payload, user.userId) : payload;
+    },
+    onSuccess: (payload) => {
+      console.log('✅ Async duel turn submitted:', payload.duel.duel_id);
+      queryClient.setQueryData(
+        ASYNC_DUEL_KEYS.detail(payload.duel.duel_id),
+        payload,
+      );
+      queryClient.invalidateQueries({ queryKey: ASYNC_DUEL_KEYS.turns });
+      queryClient.invalidateQueries({ queryKey: ['active-duels'] });
+      queryClient.invalidateQueries({ queryKey: ['duel-history'] });
+    },
+    onError: (error) => {
+      console.error('❌ Error submitting async duel turn:', error);
+    },
+  });
+
+  return {
+    challengeAsync: challengeMutation.mutateAsync,
+    submitRun: submitRunMutation.mutateAsync,
+
+    isChallenging: challengeMutation.isPending,
+    isSubmitting: submitRunMutation.isPending,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const isAsyncDuel = (duel?: Pick<Duel, 'mode'> | null): boolean =>
+  duel?.mode === 'async';
+
+const getRun = (runs: AsyncDuelRun[], userId: number): AsyncDuelRun | null =>
+  runs.find((run) => run.user_id === userId) ?? null;
+
+const getOpponentId = (duel: Duel, userId: number): number =>
+  duel.initiator_id === userId ? duel.opponent_id : duel.initiator_id;
+
+const hasFinished = (duel: Duel, userId: number): boolean =>
+  duel.initiator_id === userId
+    ? !!duel.initiator_finished_at
+    : !!duel.opponent_finished_at;
+
+const isMyTurn = (duel: Duel, userId: number): boolean =>
+  isAsyncDuel(duel) &&
+  duel.status !== 'completed' &&
+  !hasFinished(duel, userId);
+
+const getExpiresAt = (duel: Duel): number => {
+  if (duel.expires_at) return new Date(duel.expires_at).getTime();
+  return (
+    new Date(duel.created_at).getTime() + ASYNC_DUEL_WINDOW_HOURS * HOUR_MS
+  );
+};
+
+const isExpired = (duel: Duel, now: number = Date.now()): boolean =>
+  duel.status !== 'completed' && getExpiresAt(duel) <= now;
+
+// "5 sa 20 dk" style remaining time; null once the window has closed
+const getTimeRemaining = (
+  duel: Duel,
+  now: number = Date.now(),
+): { hours: number; minutes: number } | null => {
+  const remainingMs = getExpiresAt(duel) - now;
+  if (remainingMs <= 0) return null;
+  const totalMinutes = Math.ceil(remainingMs / (60 * 1000));
+  return {
+    hours: Math.floor(totalMinutes / 60),
+    minutes: totalMinutes % 60,
+  };
+};
+
+export const asyncDuelHelpers = {
+  isAsyncDuel,
+  getRun,
+  getOpponentId,
+  hasFinished,
+  isMyTurn,
+  getExpiresAt,
+  isExpired,
+  getTimeRemaining,
+};
@@ -0,0 +1,213 @@
+// src/hooks/useBotPracticeData.ts - Adaptive bot opponents tuned to the player's accuracy
+import { useMemo } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { getPerformanceSummary } from '../api/userQuestionHistoryService';
+import type { BotChallengeOptions } from '../api/botService';
+import { useAuth } from '../../stores/appStore';
+import {
+  usePremiumAccess,
+  FREE_BOT_MAX_DIFFICULTY,
+} from './useSubscriptionData';
+import type { UserPerformanceSummary } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+// Where the player accuracy used for the bot came from
+export type AdaptiveAccuracySource = 'topic' | 'course' | 'default';
+
+export interface AdaptiveBotConfig {
+  difficulty: number; // 1-5, closest fixed bot preset
+  targetAccuracy: number; // 0..1
+  playerAccuracy: number | null; // 0..1, null when there is no history yet
+  source: AdaptiveAccuracySource;
+  questionsAnswered: number;
+  isCapped: boolean; // lowered to the free plan's bot difficulty
+}
+
+export interface BotPracticeInput {
+  courseId: number | null;
+  topicId?: number | null;
+  questionCount: number;
+}
+
+export const BOT_PRACTICE_QUESTION_COUNTS = [5, 10, 15] as const;
+export const DEFAULT_BOT_PRACTICE_QUESTION_COUNT = 10;
+
+// Fewer answers than this are too noisy to tune the bot on
+const MIN_ANSWERS_FOR_ADAPTATION = 20;
+
+// Used until the player has enough history in the course
+const DEFAULT_TARGET_ACCURACY = 0.6;
+
+// Keep bots beatable and not trivially easy
+const MIN_TARGET_ACCURACY = 0.35;
+const MAX_TARGET_ACCURACY = 0.95;
+
+// Upper accuracy bound of each fixed difficulty preset, easiest first
+const DIFFICULTY_ACCURACY_CEILINGS = [0.5, 0.65, 0.75, 0.85, 1];
+
+const BOT_PRACTICE_KEYS = {
+  performanceSummary: (userId?: number) =>
+    ['performance-summary', userId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 PERFORMANCE SUMMARY HOOK - per course and per topic accuracy
+export function usePerformanceSummary() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: BOT_PRACTICE_KEYS.performanceSummary(user?.userId),
+    queryFn: async (): Promise<UserPerformanceSummary | null> =>
+      getPerformanceSummary(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes - changes only after answering questions
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 ADAPTIVE BOT HOOK - bot tuned to the player's accuracy in the course
+// (or topic), so bot duels stay close to a coin flip
+export function useAdaptiveBot(
+  courseId: number | null,
+  topicId?: number | null,
+) {
+  const summaryQuery = usePerformanceSummary();
+  const { isPremium } = usePremiumAccess();
+
+  const config = useMemo(
+    () =>
+      getAdaptiveBotConfig(
+        summaryQuery.data ?? null,
+        courseId,
+        topicId ?? null,
+        isPremium,
+      ),
+    [summaryQuery.data, courseId, topicId, isPremium],
+  );
+
+  return {
+    config,
+    isLoading: summaryQuery.isLoading,
+    error: summaryQuery.error,
+    refetch: summaryQuery.refetch,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+// Summary accuracies are percentages (0-100)
+const toRatio = (percentage: number): number =>
+  Math.min(1, Math.max(0, percentage / 100));
+
+// Topic accuracy when the player has enough answers there, then the course
+const getPlayerAccuracy = (
+  summary: UserPerformanceSummary | null,
+  courseId: number | null,
+  topicId: number | null,
+): {
+  accuracy: number | null;
+  source: AdaptiveAccuracySource;
+  questionsAnswered: number;
+} => {
+  const topic = topicId
+    ? summary?.topics_progress.find((entry) => entry.topic_id === topicId)
+    : undefined;
+  if (topic && topic.questions_answered >= MIN_ANSWERS_FOR_ADAPTATION) {
+    return {
+      accuracy: toRatio(topic.accuracy),
+      source: 'topic',
+      questionsAnswered: topic.questions_answered,
+    };
+  }
+
+  const course = courseId
+    ? summary?.courses_progress.find((entry) => entry.course_id === courseId)
+    : undefined;
+  if (course && course.questions_answered >= MIN_ANSWERS_FOR_ADAPTATION) {
+    return {
+      accuracy: toRatio(course.accuracy),
+      source: 'course',
+      questionsAnswered: course.questions_answered,
+    };
+  }
+
+  return {
+    accuracy: null,
+    source: 'default',
+    questionsAnswered:
+      topic?.questions_answered ?? course?.questions_answered ?? 0,
+  };
+};
+
+// A bot answering as accurately as the player wins about half the duels
+const getTargetAccuracy = (playerAccuracy: number | null): number =>
+  Math.min(
+    MAX_TARGET_ACCURACY,
+    Math.max(MIN_TARGET_ACCURACY, playerAccuracy ?? DEFAULT_TARGET_ACCURACY),
+  );
+
+const getDifficultyForAccuracy = (accuracy: number): number =>
+  DIFFICULTY_ACCURACY_CEILINGS.findIndex((ceiling) => accuracy <= ceiling) + 1;
+
+const getAdaptiveBotConfig = (
+  summary: UserPerformanceSummary | null,
+  courseId: number | null,
+  topicId: number | null,
+  isPremium: boolean,
+): AdaptiveBotConfig => {
+  const { accuracy, source, questionsAnswered } = getPlayerAccuracy(
+    summary,
+    courseId,
+    topicId,
+  );
+  const targetAccuracy = getTargetAccuracy(accuracy);
+  const difficulty = getDifficultyForAccuracy(targetAccuracy);
+
+  // Free accounts keep the adaptive bot, capped at their highest preset
+  if (!isPremium && difficulty > FREE_BOT_MAX_DIFFICULTY) {
+    return {
+      difficulty: FREE_BOT_MAX_DIFFICULTY,
+      targetAccuracy: DIFFICULTY_ACCURACY_CEILINGS[FREE_BOT_MAX_DIFFICULTY - 1],
+      playerAccuracy: accuracy,
+      source,
+      questionsAnswered,
+      isCapped: true,
+    };
+  }
+
+  return {
+    difficulty,
+    targetAccuracy,
+    playerAccuracy: accuracy,
+    source,
+    questionsAnswered,
+    isCapped: false,
+  };
+};
+
+const getChallengeOptions = (
+  config: AdaptiveBotConfig,
+  { topicId, questionCount }: BotPracticeInput,
+): BotChallengeOptions => ({
+  questionCount,
+  targetAccuracy: Number(config.targetAccuracy.toFixed(2)),
+  ...(topicId ? { topicId } : {}),
+});
+
+export const botPracticeHelpers = {
+  toRatio,
+  getPlayerAccuracy,
+  getTargetAccuracy,
+  getDifficultyForAccuracy,
+  getAdaptiveBotConfig,
+  getChallengeOptions,
+};
@@ -0,0 +1,175 @@
+// src/hooks/useCoachingData.ts - Coaching notes, motivational messages and strategy videos
+import { useQuery } from '@tanstack/react-query';
+import {
+  getCoachingNotes,
+  getLatestNote,
+  getMotivationalMessages,
+  getStrategyVideos,
+} from '../api/coachingService';
+import { useAuth } from '../../stores/appStore';
+import { usePremiumAccess } from './useSubscriptionData';
+import type {
+  CoachingNote,
+  MotivationalMessage,
+  StrategyVideo,
+} from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export type CoachingTab = 'notes' | 'messages' | 'videos';
+
+export type DailyCoachingItem =
+  | { kind: 'note'; note: CoachingNote }
+  | { kind: 'message'; message: MotivationalMessage };
+
+const COACHING_KEYS = {
+  all: ['coaching'] as const,
+  notes: ['coaching', 'notes'] as const,
+  latest: ['coaching', 'notes', 'latest'] as const,
+  messages: ['coaching', 'messages'] as const,
+  videos: (isPremium: boolean) => ['coaching', 'videos', isPremium] as const,
+};
+
+// A weekly note stays "note of the day" for this long after publishing,
+// after which the daily motivational message takes over
+const NOTE_OF_THE_DAY_MAX_AGE_DAYS = 7;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 NOTES HOOK
+export function useCoachingNotes() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: COACHING_KEYS.notes,
+    queryFn: async (): Promise<CoachingNote[]> => {
+      console.log('🧭 Fetching coaching notes...');
+      const notes = await getCoachingNotes();
+      console.log('✅ Coaching notes fetched:', notes.length);
+      return coachingHelpers.sortNotes(notes);
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 15 * 60 * 1000, // 15 minutes - notes are published weekly
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 LATEST NOTE HOOK
+export function useLatestCoachingNote() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: COACHING_KEYS.latest,
+    queryFn: async (): Promise<CoachingNote | null> => getLatestNote(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 MOTIVATIONAL MESSAGES HOOK
+export function useMotivationalMessages() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: COACHING_KEYS.messages,
+    queryFn: async (): Promise<MotivationalMessage[]> =>
+      getMotivationalMessages(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 2,
+  });
+}
+
+// 🚀 STRATEGY VIDEOS HOOK - premium videos are only listed for subscribers
+export function useStrategyVideos() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { isPremium, isLoading: premiumLoading } = usePremiumAccess();
+
+  return useQuery({
+    queryKey: COACHING_KEYS.videos(isPremium),
+    queryFn: async (): Promise<StrategyVideo[]> => {
+      console.log('🎬 Fetching strategy videos (premium:', isPremium, ')');
+      return getStrategyVideos(isPremium);
+    },
+    enabled: isAuthenticated && !authLoading && !premiumLoading,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 2,
+  });
+}
+
+// 🚀 NOTE OF THE DAY HOOK - latest weekly note, else today's message
+export function useNoteOfTheDay() {
+  const { data: latestNote, isLoading: noteLoading } = useLatestCoachingNote();
+  const { data: messages = [], isLoading: messagesLoading } =
+    useMotivationalMessages();
+
+  return {
+    item: coachingHelpers.getDailyItem(latestNote ?? null, messages),
+    isLoading: noteLoading || messagesLoading,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const sortNotes = (notes: CoachingNote[]): CoachingNote[] =>
+  [...notes].sort(
+    (a, b) =>
+      new Date(b.publish_date).getTime() - new Date(a.publish_date).getTime(),
+  );
+
+// Same message for the whole day, rotating through the list day by day
+const pickForDay = <T>(items: T[], date: Date = new Date()): T | null => {
+  if (items.length === 0) return null;
+  const dayIndex = Math.floor(
+    (date.getTime() - date.getTimezoneOffset() * 60 * 1000) / DAY_MS,
+  );
+  return items[dayIndex % items.length];
+};
+
+const isNoteFresh = (note: CoachingNote, now: Date = new Date()): boolean => {
+  const publishedAt = new Date(note.publish_date).getTime();
+  if (Number.isNaN(publishedAt)) return false;
+  const ageDays = (now.getTime() - publishedAt) / DAY_MS;
+  return ageDays >= 0 && ageDays <= NOTE_OF_THE_DAY_MAX_AGE_DAYS;
+};
+
+const getDailyItem = (
+  latestNote: CoachingNote | null,
+  messages: MotivationalMessage[],
+  now: Date = new Date(),
+): DailyCoachingItem | null => {
+  if (latestNote && isNoteFresh(latestNote, now)) {
+    return { kind: 'note', note: latestNote };
+  }
+  const message = pickForDay(messages, now);
+  if (message) return { kind: 'message', message };
+  return latestNote ? { kind: 'note', note: latestNote } : null;
+};
+
+const formatDuration = (seconds?: number | null): string | null => {
+  if (!seconds || seconds <= 0) return null;
+  const minutes = Math.floor(seconds / 60);
+  const remaining = Math.floor(seconds % 60);
+  return `${minutes}:${remaining.toString().padStart(2, '0')}`;
+};
+
+export const coachingHelpers = {
+  sortNotes,
+  pickForDay,
+  isNoteFresh,
+  getDailyItem,
+  formatDuration,
+};
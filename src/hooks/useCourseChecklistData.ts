@@ -0,0 +1,263 @@
+// src/hooks/useCourseChecklistData.ts - Topic/subtopic checklist, per topic repetitions and computed course completion
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getTopicsByCourse,
+  getSubtopicsByTopic,
+  getCourseTopicProgress,
+  markSubtopicCompleted,
+  updateTopicRepetitionCount,
+} from '../api/courseService';
+import type { TopicProgress } from '../api/courseService';
+import { updateUserCourseProgress } from '../api/studyService';
+import { isQueuedRequestError } from '../api/apiClient';
+import { useAuth } from '../../stores/appStore';
+import type { Subtopic, Topic } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface ChecklistTopic {
+  topic: Topic;
+  subtopics: Subtopic[];
+  completedSubtopicIds: number[];
+  repetitionCount: number;
+}
+
+export interface CourseChecklist {
+  courseTitle: string;
+  topics: ChecklistTopic[];
+}
+
+export interface ChecklistCompletion {
+  completed: number;
+  total: number;
+  percentage: number; // 0-100, rounded
+}
+
+const CHECKLIST_KEYS = {
+  checklist: (userId: number | undefined, courseId: number | null) =>
+    ['course-checklist', userId, courseId] as const,
+};
+
+// Course level data that shows the synced completion percentage
+const COURSE_PROGRESS_QUERY_KEYS = [
+  ['courses-with-data'],
+  ['courses-overview'],
+  ['course-details'],
+];
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 COURSE CHECKLIST HOOK - topics with their subtopics and the user's ticks
+export function useCourseChecklist(courseId: number | null) {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  const query = useQuery({
+    queryKey: CHECKLIST_KEYS.checklist(user?.userId, courseId),
+    queryFn: async (): Promise<CourseChecklist> => {
+      if (!courseId) return { courseTitle: '', topics: [] };
+
+      const [topicsResponse, progress] = await Promise.all([
+        getTopicsByCourse(courseId),
+        getCourseTopicProgress(courseId),
+      ]);
+      const topics = [...topicsResponse.topics].sort(byOrderIndex);
+      const subtopicsByTopic = await Promise.all(
+        topics.map((topic) => getSubtopicsByTopic(topic.topic_id)),
+      );
+
+      return {
+        courseTitle: topicsResponse.course.title,
+        topics: topics.map((topic, index) =>
+          toChecklistTopic(
+            topic,
+            [...subtopicsByTopic[index]].sort(byOrderIndex),
+            progress.find((item) => item.topicId === topic.topic_id),
+          ),
+        ),
+      };
+    },
+    enabled: isAuthenticated && !authLoading && !!courseId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+
+  const completion = useMemo(
+    () => getCourseCompletion(query.data?.topics ?? []),
+    [query.data],
+  );
+
+  return {
+    checklist: query.data,
+    completion,
+    isLoading: query.isLoading,
+    isFetching: query.isFetching,
+    error: query.error,
+    refetch: query.refetch,
+  };
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 TOGGLE SUBTOPIC MUTATION - ticks or unticks a subtopic and pushes the
+// recomputed completion to the course progress
+export function useToggleSubtopic(courseId: number | null) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      subtopicId,
+      isCompleted,
+    }: {
+      subtopicId: number;
+      isCompleted: boolean;
+    }) => markSubtopicCompleted(subtopicId, isCompleted),
+    onSuccess: async (response, { subtopicId, isCompleted }) => {
+      console.log('✅ Subtopic updated:', subtopicId, isCompleted);
+      const checklist = queryClient.setQueryData<CourseChecklist>(
+        CHECKLIST_KEYS.checklist(user?.userId, courseId),
+        (current) =>
+          current ? applyTopicProgress(current, response.progress) : current,
+      );
+      if (courseId && checklist) {
+        await syncCourseCompletion(
+          courseId,
+          getCourseCompletion(checklist.topics).percentage,
+        );
+        COURSE_PROGRESS_QUERY_KEYS.forEach((queryKey) =>
+          queryClient.invalidateQueries({ queryKey }),
+        );
+      }
+    },
+    onError: (error) => {
+      console.error('❌ Error updating subtopic:', error);
+    },
+  });
+
+  return {
+    toggleSubtopic: mutation.mutateAsync,
+    isToggling: mutation.isPending,
+    pendingSubtopicId: mutation.isPending
+      ? mutation.variables?.subtopicId
+      : undefined,
+  };
+}
+
+// 🚀 TOPIC REPETITIONS MUTATION - how many times a topic has been revised
+export function useUpdateTopicRepetitions(courseId: number | null) {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      topicId,
+      repetitionCount,
+    }: {
+      topicId: number;
+      repetitionCount: number;
+    }) => updateTopicRepetitionCount(topicId, Math.max(0, repetitionCount)),
+    onSuccess: (response) => {
+      console.log('✅ Topic repetitions updated:', response.progress);
+      queryClient.setQueryData<CourseChecklist>(
+        CHECKLIST_KEYS.checklist(user?.userId, courseId),
+        (current) =>
+          current ? applyTopicProgress(current, response.progress) : current,
+      );
+    },
+    onError: (error) => {
+      console.error('❌ Error updating topic repetitions:', error);
+    },
+  });
+
+  return {
+    updateRepetitions: mutation.mutateAsync,
+    isUpdatingRepetitions: mutation.isPending,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const byOrderIndex = (
+  a: { order_index: number },
+  b: { order_index: number },
+): number => (a.order_index || 0) - (b.order_index || 0);
+
+const toChecklistTopic = (
+  topic: Topic,
+  subtopics: Subtopic[],
+  progress?: TopicProgress,
+): ChecklistTopic => {
+  // Ignore ticks on subtopics that no longer exist
+  const subtopicIds = new Set(subtopics.map((item) => item.subtopic_id));
+  return {
+    topic,
+    subtopics,
+    completedSubtopicIds: (progress?.completedSubtopicIds ?? []).filter((id) =>
+      subtopicIds.has(id),
+    ),
+    repetitionCount: progress?.repetitionCount ?? 0,
+  };
+};
+
+const applyTopicProgress = (
+  checklist: CourseChecklist,
+  progress: TopicProgress,
+): CourseChecklist => ({
+  ...checklist,
+  topics: checklist.topics.map((item) =>
+    item.topic.topic_id === progress.topicId
+      ? toChecklistTopic(item.topic, item.subtopics, progress)
+      : item,
+  ),
+});
+
+const toCompletion = (
+  completed: number,
+  total: number,
+): ChecklistCompletion => ({
+  completed,
+  total,
+  percentage: total > 0 ? Math.round((completed / total) * 100) : 0,
+});
+
+const getTopicCompletion = (topic: ChecklistTopic): ChecklistCompletion =>
+  toCompletion(topic.completedSubtopicIds.length, topic.subtopics.length);
+
+// Every subtopic weighs the same, so large topics move the course more
+const getCourseCompletion = (topics: ChecklistTopic[]): ChecklistCompletion =>
+  toCompletion(
+    topics.reduce((sum, topic) => sum + topic.completedSubtopicIds.length, 0),
+    topics.reduce((sum, topic) => sum + topic.subtopics.length, 0),
+  );
+
+// The course level percentage mirrors the checklist so home, pacing and
+// analytics keep working from a single number
+const syncCourseCompletion = async (
+  courseId: number,
+  completionPercentage: number,
+): Promise<void> => {
+  try {
+    await updateUserCourseProgress({ courseId, completionPercentage });
+  } catch (error) {
+    // Replayed once the device is back online
+    if (isQueuedRequestError(error)) return;
+    console.error('❌ Error syncing course completion:', error);
+  }
+};
+
+export const courseChecklistHelpers = {
+  toChecklistTopic,
+  applyTopicProgress,
+  getTopicCompletion,
+  getCourseCompletion,
+};
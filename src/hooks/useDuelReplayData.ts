@@ -0,0 +1,199 @@
+// src/hooks/useDuelReplayData.ts - Round-by-round replays of finished duels, stored on the device
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useMemo } from 'react';
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { useAuth } from '../../stores/appStore';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface DuelReplayAnswer {
+  selectedAnswer: string | null;
+  isCorrect: boolean;
+  timeTaken: number; // ms
+}
+
+export interface DuelReplayRound {
+  questionIndex: number;
+  questionId: number | null;
+  questionText: string;
+  options: Record<string, string>;
+  correctAnswer: string;
+  explanation: string | null;
+  userAnswer: DuelReplayAnswer | null;
+  opponentAnswer: DuelReplayAnswer | null;
+}
+
+export interface DuelReplay {
+  duelId: number;
+  userId: number;
+  opponentName: string | null;
+  isBotOpponent: boolean;
+  courseId: number | null;
+  courseTitle: string | null;
+  testId: number | null;
+  userScore: number;
+  opponentScore: number;
+  winnerId: number | null;
+  rounds: DuelReplayRound[];
+  completedAt: string; // ISO date
+}
+
+// Replays keyed by duel_id
+export type DuelReplayStore = Record<number, DuelReplay>;
+
+// Shape of a round_result payload, as far as the replay needs it
+interface RoundResultPayload {
+  questionIndex: number;
+  question: {
+    id?: number;
+    text: string;
+    options: Record<string, string>;
+    correctAnswer: string;
+    explanation?: string;
+  };
+  answers: Array<{
+    userId: number;
+    selectedAnswer: string | null;
+    isCorrect: boolean;
+    timeTaken: number;
+  } | null>;
+}
+
+const DUEL_REPLAY_STORAGE_KEY = 'duelReplays';
+// Oldest replays are dropped once this many are stored
+const DUEL_REPLAY_LIMIT = 50;
+
+const DUEL_REPLAY_KEYS = {
+  all: ['duel-replays'] as const,
+};
+
+// ===============================
+// LOCAL REPLAY STORAGE
+// ===============================
+
+const loadReplays = async (): Promise<DuelReplayStore> => {
+  try {
+    const stored = await AsyncStorage.getItem(DUEL_REPLAY_STORAGE_KEY);
+    return stored ? (JSON.parse(stored) as DuelReplayStore) : {};
+  } catch (error) {
+    console.error('❌ Error loading duel replays:', error);
+    return {};
+  }
+};
+
+const saveReplay = async (replay: DuelReplay): Promise<DuelReplayStore> => {
+  const replays = await loadReplays();
+  replays[replay.duelId] = replay;
+
+  const kept = Object.values(replays)
+    .sort((a, b) => b.completedAt.localeCompare(a.completedAt))
+    .slice(0, DUEL_REPLAY_LIMIT);
+  const next: DuelReplayStore = {};
+  kept.forEach((entry) => {
+    next[entry.duelId] = entry;
+  });
+
+  await AsyncStorage.setItem(DUEL_REPLAY_STORAGE_KEY, JSON.stringify(next));
+  return next;
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 LOCAL REPLAYS HOOK - only the signed-in user's replays
+export function useDuelReplays() {
+  const { user } = useAuth();
+  const replaysQuery = useQuery({
+    queryKey: DUEL_REPLAY_KEYS.all,
+    queryFn: loadReplays,
+    staleTime: Infinity, // Only changes through this module
+    gcTime: Infinity,
+  });
+
+  const replays = useMemo(() => {
+    const own: DuelReplayStore = {};
+    Object.values(replaysQuery.data ?? {}).forEach((replay) => {
+      if (replay.userId === user?.userId) {
+        own[replay.duelId] = replay;
+      }
+    });
+    return own;
+  }, [replaysQuery.data, user?.userId]);
+
+  return {
+    replays,
+    hasReplay: (duelId: number) => Boolean(replays[duelId]),
+    isLoading: replaysQuery.isLoading,
+  };
+}
+
+export function useDuelReplay(duelId: number) {
+  const { replays, isLoading } = useDuelReplays();
+
+  return {
+    replay: replays[duelId] ?? null,
+    isLoading,
+  };
+}
+
+// 🚀 RECORD MUTATION - called by the duel room once duel_completed arrives
+export function useRecordDuelReplay() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: saveReplay,
+    onSuccess: (replays) => {
+      queryClient.setQueryData(DUEL_REPLAY_KEYS.all, replays);
+    },
+    onError: (error) => {
+      console.error('❌ Error saving duel replay:', error);
+    },
+  });
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const toReplayAnswer = (
+  answer: RoundResultPayload['answers'][number] | undefined,
+): DuelReplayAnswer | null =>
+  answer
+    ? {
+        selectedAnswer: answer.selectedAnswer || null,
+        isCorrect: Boolean(answer.isCorrect),
+        timeTaken: answer.timeTaken || 0,
+      }
+    : null;
+
+// round_result doesn't always carry the question id; the presented question's
+// id is passed in as a fallback
+const toReplayRound = (
+  result: RoundResultPayload,
+  currentUserId: number,
+  fallbackQuestionId: number | null = null,
+): DuelReplayRound => ({
+  questionIndex: result.questionIndex,
+  questionId: result.question.id ?? fallbackQuestionId,
+  questionText: result.question.text,
+  options: result.question.options || {},
+  correctAnswer: result.question.correctAnswer,
+  explanation: result.question.explanation || null,
+  userAnswer: toReplayAnswer(
+    result.answers.find((answer) => answer?.userId === currentUserId),
+  ),
+  opponentAnswer: toReplayAnswer(
+    result.answers.find((answer) => answer && answer.userId !== currentUserId),
+  ),
+});
+
+const formatResponseTime = (timeTaken: number): string =>
+  `${(Math.floor(timeTaken / 100) / 10).toFixed(1)}s`;
+
+export const duelReplayHelpers = {
+  toReplayRound,
+  formatResponseTime,
+};
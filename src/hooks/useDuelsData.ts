@@ -20,9 +20,22 @@ import {
   testService,
 } from '../api';
 import * as socketService from '../api/socketService';
+import { onAuthTokenRefreshed } from '../api/apiClient';
+import { translate, getDateLocale } from '../../localization';
+import {
+  useRecordDuelReplay,
+  duelReplayHelpers,
+  type DuelReplayRound,
+} from './useDuelReplayData';
+import { useSyncTournament } from './useTournamentData';
+import {
+  useRefreshRatings,
+  ratingHelpers,
+  DEFAULT_RATING,
+} from './useRatingData';
 import type { Duel, User, Course, Test, DuelResult } from '../types/models';
 import type { UserDuelStatsPayload } from '../api/duelResultService';
-import type { Bot } from '../api/botService';
+import type { Bot, BotChallengeOptions } from '../api/botService';
 
 // Enhanced types for duels data
 export interface DuelOpponent {
@@ -32,6 +45,8 @@ export interface DuelOpponent {
   totalDuels?: number;
   isBot?: boolean;
   botInfo?: Bot;
+  rating?: number;
+  ratedGames?: number;
   skillLevel?: number;
   compatibility?: number;
 }
@@ -51,6 +66,8 @@ export interface LeaderboardEntry {
   winRate: number;
   totalDuels: number;
   wins: number;
+  rating: number;
+  ratedGames: number;
   rank: number;
 }
 
@@ -96,9 +113,13 @@ export interface QuickMatchState {
   opponent: {
     username: string;
     userId?: number;
+    rating?: number;
   } | null;
   searchStartTime: number | null;
   timeInQueue: number;
+  // Ranked queue only: our rating and the current +/- search window
+  rating: number | null;
+  ratingRange: number | null;
 }
 
 // 🚀 PERFORMANCE FIX 1: Single State Object with useReducer
@@ -135,6 +156,18 @@ interface DuelRoomState {
   gameError: string | null;
   roundResult: RoundResult | null;
   finalResults: FinalResults | null;
+
+  // Resume state - set while a dropped socket is inside its grace window
+  isReconnecting: boolean;
+  reconnectDeadline: number | null;
+
+  // Power-ups - inventory lasts the whole duel, the rest resets per question
+  powerUps: socketService.PowerUpInventory;
+  usedPowerUps: socketService.PowerUpType[];
+  pendingPowerUp: socketService.PowerUpType | null;
+  removedOptions: string[];
+  opponentPowerUp: socketService.PowerUpType | null;
+  powerUpError: string | null;
 }
 
 // 🚀 PERFORMANCE FIX 2: Action Types for Reducer
@@ -175,8 +208,29 @@ type DuelRoomAction =
       >;
     }
   | { type: 'BATCH_UPDATE'; payload: Partial<DuelRoomState> }
+  | {
+      type: 'POWER_UP_APPLIED';
+      payload: Pick<socketService.PowerUpApplied, 'powerUp' | 'inventory'> & {
+        removedOptions: string[];
+      };
+    }
   | { type: 'RESET_GAME' };
 
+// Starting inventory when the server doesn't send one with the session
+const DEFAULT_POWER_UP_INVENTORY: socketService.PowerUpInventory = {
+  hint: 1,
+  skip: 1,
+  freeze: 1,
+  double: 1,
+  'extra-time': 1,
+};
+
+const MAX_POWER_UPS_PER_QUESTION = 1;
+
+// Fallback effect sizes (seconds) when power_up_applied carries no timeBonus
+const EXTRA_TIME_SECONDS = 10;
+const FREEZE_SECONDS = 5;
+
 // 🚀 PERFORMANCE FIX 3: Optimized Reducer
 const initialDuelRoomState: DuelRoomState = {
   isConnected: false,
@@ -199,6 +253,14 @@ const initialDuelRoomState: DuelRoomState = {
   gameError: null,
   roundResult: null,
   finalResults: null,
+  isReconnecting: false,
+  reconnectDeadline: null,
+  powerUps: DEFAULT_POWER_UP_INVENTORY,
+  usedPowerUps: [],
+  pendingPowerUp: null,
+  removedOptions: [],
+  opponentPowerUp: null,
+  powerUpError: null,
 };
 
 const duelRoomReducer = (
@@ -214,6 +276,20 @@ const duelRoomReducer = (
       return { ...state, ...action.payload };
     case 'BATCH_UPDATE':
       return { ...state, ...action.payload };
+    case 'POWER_UP_APPLIED':
+      return {
+        ...state,
+        powerUps: action.payload.inventory,
+        usedPowerUps: [...state.usedPowerUps, action.payload.powerUp],
+        removedOptions: [
+          ...state.removedOptions,
+          ...action.payload.removedOptions,
+        ],
+        pendingPowerUp: null,
+        powerUpError: null,
+        // A skipped question can't be answered any more
+        hasAnswered: state.hasAnswered || action.payload.powerUp === 'skip',
+      };
     case 'RESET_GAME':
       return { ...initialDuelRoomState, phase: 'connecting' };
     default:
@@ -221,6 +297,75 @@ const duelRoomReducer = (
   }
 };
 
+// How long a dropped player may take to come back before the duel is lost.
+// Matches the socket's own backoff (1+2+4+8+16s) plus a little slack.
+const DUEL_RECONNECT_GRACE_MS = 35 * 1000;
+
+// Phases worth resuming - before the lobby there is nothing to lose
+const RESUMABLE_PHASES: DuelRoomState['phase'][] = [
+  'lobby',
+  'countdown',
+  'question',
+  'results',
+];
+
+// Map the server's room snapshot onto the reducer state
+const snapshotToRoomState = (
+  snapshot: socketService.DuelStateSnapshot,
+  currentUserId: number | null,
+): Partial<DuelRoomState> => {
+  const userScore =
+    snapshot.scores.find((entry) => entry.userId === currentUserId)?.score ?? 0;
+  const opponentScore =
+    snapshot.scores.find((entry) => entry.userId !== currentUserId)?.score ?? 0;
+
+  const base: Partial<DuelRoomState> = {
+    questionIndex: snapshot.questionIndex,
+    totalQuestions: snapshot.totalQuestions,
+    userScore,
+    opponentScore,
+    gameError: null,
+  };
+
+  if (snapshot.status === 'completed' && snapshot.finalResult) {
+    return { ...base, phase: 'final', finalResults: snapshot.finalResult };
+  }
+
+  if (snapshot.status === 'waiting') {
+    return { ...base, phase: 'lobby' };
+  }
+
+  if (snapshot.status === 'starting') {
+    return { ...base, phase: 'countdown' };
+  }
+
+  if (snapshot.question) {
+    const remainingMs = snapshot.serverEndTime
+      ? snapshot.serverEndTime - snapshot.serverTime
+      : 0;
+    return {
+      ...base,
+      phase: 'question',
+      currentQuestion: snapshot.question,
+      timeLeft: Math.max(0, Math.ceil(remainingMs / 1000)),
+      hasAnswered: snapshot.answeredUserIds.includes(currentUserId ?? -1),
+      opponentAnswered: snapshot.answeredUserIds.some(
+        (userId) => userId !== currentUserId,
+      ),
+    };
+  }
+
+  // Between rounds
+  return {
+    ...base,
+    phase: 'results',
+    roundResult: snapshot.lastRoundResult,
+    timeLeft: 0,
+    hasAnswered: false,
+    opponentAnswered: false,
+  };
+};
+
 // 🚀 PERFORMANCE FIX 4: Memoized User ID Cache
 const userIdCache = { value: null as number | null, timestamp: 0 };
 const USER_ID_CACHE_DURATION = 5 * 60 * 1000; // 5 minutes
@@ -257,6 +402,12 @@ const getCachedUserId = async (): Promise<number | null> => {
 const authTokenCache = { value: null as string | null, timestamp: 0 };
 const AUTH_TOKEN_CACHE_DURATION = 10 * 60 * 1000; // 10 minutes
 
+// Never hand the socket a token the API client has already replaced
+onAuthTokenRefreshed((token) => {
+  authTokenCache.value = token;
+  authTokenCache.timestamp = Date.now();
+});
+
 const getCachedAuthToken = async (): Promise<string | null> => {
   const now = Date.now();
 
@@ -295,6 +446,8 @@ export function useQuickMatch() {
     opponent: null,
     searchStartTime: null,
     timeInQueue: 0,
+    rating: null,
+    ratingRange: null,
   });
 
   const [eventListenersSetup, setEventListenersSetup] = useState(false);
@@ -319,8 +472,6 @@ export function useQuickMatch() {
 
     try {
       const {
-        on,
-        off,
         onQuickMatchSearching,
         onQuickMatchFound,
         onQuickMatchTimeout,
@@ -328,13 +479,6 @@ export function useQuickMatch() {
         onQuickMatchCancelled,
       } = socketService;
 
-      // Clear any existing listeners first
-      off('quick_match_searching');
-      off('quick_match_found');
-      off('quick_match_timeout');
-      off('quick_match_error');
-      off('quick_match_cancelled');
-
       console.log('🎯 Setting up quick match event listeners');
 
       // Handle search started
@@ -343,7 +487,7 @@ export function useQuickMatch() {
         setQuickMatchState((prev) => ({
           ...prev,
           status: 'searching',
-          message: data.message || 'Eşleşme aranıyor...',
+          message: data.message || translate('quickMatch.searching'),
           error: null,
           searchStartTime: Date.now(),
         }));
@@ -352,13 +496,15 @@ export function useQuickMatch() {
       // Handle match found
       const handleQuickMatchFound = (data: {
         duel: Duel;
-        opponent: { username: string; userId?: number };
+        opponent: { username: string; userId?: number; rating?: number };
       }) => {
         console.log('✅ Quick match found:', data);
         setQuickMatchState((prev) => ({
           ...prev,
           status: 'found',
-          message: `Eşleşme bulundu! Rakip: ${data.opponent.username}`,
+          message: translate('quickMatch.found', {
+            username: data.opponent.username,
+          }),
           matchedDuel: data.duel,
           opponent: data.opponent,
           error: null,
@@ -379,8 +525,7 @@ export function useQuickMatch() {
         setQuickMatchState((prev) => ({
           ...prev,
           status: 'timeout',
-          message:
-            data.message || 'Eşleşme bulunamadı, bot ile düello başlatıldı',
+          message: data.message || translate('quickMatch.botStarted'),
           matchedDuel: data.duel,
           opponent: { username: 'Dr. Bot', userId: data.duel.opponent_id },
           error: null,
@@ -399,7 +544,7 @@ export function useQuickMatch() {
           ...prev,
           status: 'error',
           message: '',
-          error: data.message || 'Eşleşme hatası oluştu',
+          error: data.message || translate('quickMatch.matchError'),
           matchedDuel: null,
           opponent: null,
         }));
@@ -416,12 +561,14 @@ export function useQuickMatch() {
         setQuickMatchState((prev) => ({
           ...prev,
           status: 'cancelled',
-          message: data.message || 'Eşleşme iptal edildi',
+          message: data.message || translate('quickMatch.cancelled'),
           error: null,
           matchedDuel: null,
           opponent: null,
           searchStartTime: null,
           timeInQueue: 0,
+          rating: null,
+          ratingRange: null,
         }));
 
         if (timerRef.current) {
@@ -430,20 +577,14 @@ export function useQuickMatch() {
         }
       };
 
-      // Register event listeners using the typed functions
-      onQuickMatchSearching(handleQuickMatchSearching);
-      onQuickMatchFound(handleQuickMatchFound);
-      onQuickMatchTimeout(handleQuickMatchTimeout);
-      onQuickMatchError(handleQuickMatchError);
-      onQuickMatchCancelled(handleQuickMatchCancelled);
-
-      // Store cleanup functions
+      // Register event listeners using the typed functions and keep their
+      // disposers, so cleanup only removes this hook's listeners
       cleanupFunctionsRef.current = [
-        () => off('quick_match_searching', handleQuickMatchSearching),
-        () => off('quick_match_found', handleQuickMatchFound),
-        () => off('quick_match_timeout', handleQuickMatchTimeout),
-        () => off('quick_match_error', handleQuickMatchError),
-        () => off('quick_match_cancelled', handleQuickMatchCancelled),
+        onQuickMatchSearching(handleQuickMatchSearching),
+        onQuickMatchFound(handleQuickMatchFound),
+        onQuickMatchTimeout(handleQuickMatchTimeout),
+        onQuickMatchError(handleQuickMatchError),
+        onQuickMatchCancelled(handleQuickMatchCancelled),
       ];
 
       setEventListenersSetup(true);
@@ -453,38 +594,46 @@ export function useQuickMatch() {
       setQuickMatchState((prev) => ({
         ...prev,
         status: 'error',
-        error: 'Failed to setup quick match listeners',
+        error: translate('quickMatch.setupFailed'),
       }));
     }
   }, [eventListenersSetup]);
 
-  // 🎯 Join Quick Match Queue
+  // 🎯 Join Quick Match Queue - pass the player's rating for a ranked match
   const joinQuickMatch = useCallback(
-    async (courseId: number) => {
+    async (courseId: number, rating?: number) => {
       try {
         console.log(`🚀 Joining quick match queue for course ${courseId}`);
 
         if (!socketService.isConnected()) {
-          throw new Error('Socket bağlantısı yok. Lütfen tekrar deneyin.');
+          throw new Error(translate('quickMatch.noConnection'));
         }
 
         if (!eventListenersSetup) {
           await setupQuickMatchListeners();
         }
 
+        const ratingRange =
+          rating !== undefined ? ratingHelpers.getQueueRatingRange(0) : null;
+
         setQuickMatchState((prev) => ({
           ...prev,
           status: 'searching',
           courseId,
-          message: 'Eşleşme kuyruğuna katılıyor...',
+          message: translate('quickMatch.joining'),
           error: null,
           matchedDuel: null,
           opponent: null,
           searchStartTime: Date.now(),
           timeInQueue: 0,
+          rating: rating ?? null,
+          ratingRange,
         }));
 
-        socketService.joinQuickMatch(courseId);
+        socketService.joinQuickMatch(
+          courseId,
+          rating !== undefined ? { rating, ratingRange } : undefined,
+        );
 
         timerRef.current = setInterval(() => {
           setQuickMatchState((prev) => {
@@ -507,7 +656,7 @@ export function useQuickMatch() {
           error:
             error instanceof Error
               ? error.message
-              : 'Eşleşme kuyruğuna katılım başarısız',
+              : translate('quickMatch.joinFailed'),
         }));
       }
     },
@@ -539,6 +688,8 @@ export function useQuickMatch() {
         opponent: null,
         searchStartTime: null,
         timeInQueue: 0,
+        rating: null,
+        ratingRange: null,
       });
 
       console.log('✅ Left quick match queue');
@@ -548,7 +699,9 @@ export function useQuickMatch() {
         ...prev,
         status: 'error',
         error:
-          error instanceof Error ? error.message : 'Kuyruktan çıkış başarısız',
+          error instanceof Error
+            ? error.message
+            : translate('quickMatch.leaveFailed'),
       }));
     }
   }, []);
@@ -571,9 +724,35 @@ export function useQuickMatch() {
       opponent: null,
       searchStartTime: null,
       timeInQueue: 0,
+      rating: null,
+      ratingRange: null,
     });
   }, []);
 
+  // 📈 Widen the ranked search window the longer the player waits
+  useEffect(() => {
+    if (
+      quickMatchState.status !== 'searching' ||
+      quickMatchState.rating === null ||
+      quickMatchState.ratingRange === null
+    ) {
+      return;
+    }
+
+    const ratingRange = ratingHelpers.getQueueRatingRange(
+      quickMatchState.timeInQueue,
+    );
+    if (ratingRange !== quickMatchState.ratingRange) {
+      socketService.updateQuickMatchRange(ratingRange);
+      setQuickMatchState((prev) => ({ ...prev, ratingRange }));
+    }
+  }, [
+    quickMatchState.status,
+    quickMatchState.rating,
+    quickMatchState.ratingRange,
+    quickMatchState.timeInQueue,
+  ]);
+
   // 🧹 Cleanup on unmount
   useEffect(() => {
     return () => {
@@ -635,6 +814,8 @@ export function useQuickMatch() {
     canJoinQueue: quickMatchState.status === 'idle',
     canLeaveQueue: quickMatchState.status === 'searching',
     timeInQueue: quickMatchState.timeInQueue,
+    ratingRange: quickMatchState.ratingRange,
+    isRanked: quickMatchState.rating !== null,
     matchedDuel: quickMatchState.matchedDuel,
     opponent: quickMatchState.opponent,
     error: quickMatchState.error,
@@ -703,6 +884,8 @@ export function useDuelOpponents() {
               username: opponent.username,
               winRate: opponent.winRate || 0,
               totalDuels: opponent.totalDuels || 0,
+              rating: opponent.rating,
+              ratedGames: opponent.ratedGames,
               skillLevel: opponent.skillLevel || 0,
               compatibility: opponent.compatibility || 0,
               isBot: false,
@@ -721,9 +904,12 @@ export function useDuelOpponents() {
             const friends = await friendService.getUserFriends();
             return friends.map((friend: any) => ({
               id: friend.friend_id,
-              username: friend.friend_username || 'Bilinmeyen Kullanıcı',
+              username:
+                friend.friend_username || translate('duels.unknownUser'),
               winRate: friend.winRate || 0,
               totalDuels: friend.totalDuels || 0,
+              rating: friend.rating,
+              ratedGames: friend.ratedGames,
               isBot: false,
             }));
           } catch (error) {
@@ -757,22 +943,29 @@ export function useDuelOpponents() {
   });
 }
 
-// 🚀 DUEL LEADERBOARD HOOK
-export function useDuelLeaderboard(limit: number = 20) {
+// 🚀 DUEL LEADERBOARD HOOK - ranked by rating, overall or per course
+export function useDuelLeaderboard(limit: number = 20, courseId?: number) {
   return useQuery({
-    queryKey: ['duel-leaderboard', limit],
+    queryKey: ['duel-leaderboard', limit, courseId ?? 'overall'],
     queryFn: async (): Promise<LeaderboardEntry[]> => {
       console.log('🏆 Fetching duel leaderboard...');
       try {
-        const leaderboardResponse = await duelService.getDuelLeaderboard(limit);
+        const leaderboardResponse = await duelService.getDuelLeaderboard(
+          limit,
+          0,
+          courseId,
+        );
         const leaderboard = leaderboardResponse.leaderboard || [];
 
-        return leaderboard.map((entry: any, index: number) => ({
+        // Already ordered by rating on the backend
+        return leaderboard.map((entry, index) => ({
           userId: entry.userId,
           username: entry.username,
           winRate: entry.winRate || 0,
           totalDuels: entry.totalDuels || 0,
           wins: entry.wins || 0,
+          rating: entry.rating ?? DEFAULT_RATING,
+          ratedGames: entry.ratedGames || 0,
           rank: index + 1,
         }));
       } catch (error) {
@@ -835,7 +1028,7 @@ export function useDuelHistory(limit: number = 50) {
                   ? duel.opponent_id
                   : duel.initiator_id;
 
-              let opponentName = 'Bilinmeyen Rakip';
+              let opponentName = translate('duels.unknownOpponent');
               if (
                 duel.opponent?.username &&
                 duel.opponent.user_id === opponentId
@@ -851,7 +1044,7 @@ export function useDuelHistory(limit: number = 50) {
               }
 
               // Get course name
-              let courseName = 'Bilinmeyen Ders';
+              let courseName = translate('duels.unknownCourse');
               if (duel.course?.title) {
                 courseName = duel.course.title;
               } else if (duel.course_title) {
@@ -860,7 +1053,7 @@ export function useDuelHistory(limit: number = 50) {
 
               const formattedDate = new Date(
                 duelResult.created_at,
-              ).toLocaleDateString('tr-TR', {
+              ).toLocaleDateString(getDateLocale(), {
                 day: '2-digit',
                 month: '2-digit',
                 year: 'numeric',
@@ -975,6 +1168,9 @@ export function useDuelRoomManagement(duelId: number) {
   const duelDetailsQuery = useDuelDetails(duelId);
   const opponentId = duelDetailsQuery.data?.duel?.opponent_id;
   const botInfoQuery = useBotInfo(opponentId);
+  const { mutate: recordReplay } = useRecordDuelReplay();
+  const { mutate: syncTournament } = useSyncTournament();
+  const refreshRatings = useRefreshRatings();
 
   // 🚀 PERFORMANCE FIX 7: Memoized dispatch functions
   const dispatchActions = useMemo(
@@ -1028,6 +1224,16 @@ export function useDuelRoomManagement(duelId: number) {
           dispatch({ type: 'BATCH_UPDATE', payload });
         });
       },
+      applyPowerUp: (
+        payload: Extract<
+          DuelRoomAction,
+          { type: 'POWER_UP_APPLIED' }
+        >['payload'],
+      ) => {
+        unstable_batchedUpdates(() => {
+          dispatch({ type: 'POWER_UP_APPLIED', payload });
+        });
+      },
       resetGame: () => {
         unstable_batchedUpdates(() => {
           dispatch({ type: 'RESET_GAME' });
@@ -1049,8 +1255,47 @@ export function useDuelRoomManagement(duelId: number) {
     retryCount: 0,
     maxRetries: 3,
     currentDuelId: duelId, // Track current duel ID
+    // Resume bookkeeping (read from socket handlers, so kept out of state)
+    sessionId: null as string | null,
+    phase: initialDuelRoomState.phase as DuelRoomState['phase'],
+    questionIndex: 0,
+    graceTimeout: null as ReturnType<typeof setTimeout> | null,
+    isResuming: false,
+    // Replay bookkeeping, saved locally once the duel completes
+    replayRounds: [] as DuelReplayRound[],
+    questionId: null as number | null,
+    duelInfo: undefined as Duel | undefined,
+    isBotOpponent: false,
+    // Scores and double-points multipliers (keyed by question index) for
+    // round scoring
+    userScore: 0,
+    opponentScore: 0,
+    pointMultipliers: {
+      user: {} as Record<number, number>,
+      opponent: {} as Record<number, number>,
+    },
   });
 
+  // Socket handlers are created once; mirror what they need to read
+  useEffect(() => {
+    stableRefs.current.phase = state.phase;
+    stableRefs.current.questionIndex = state.questionIndex;
+    stableRefs.current.questionId = state.currentQuestion?.id ?? null;
+    stableRefs.current.userScore = state.userScore;
+    stableRefs.current.opponentScore = state.opponentScore;
+  }, [
+    state.phase,
+    state.questionIndex,
+    state.currentQuestion,
+    state.userScore,
+    state.opponentScore,
+  ]);
+
+  useEffect(() => {
+    stableRefs.current.duelInfo = duelDetailsQuery.data?.duel;
+    stableRefs.current.isBotOpponent = botInfoQuery.data?.isBot || false;
+  }, [duelDetailsQuery.data?.duel, botInfoQuery.data]);
+
   // 🔧 CRITICAL FIX: Reset state when duel ID changes
   useEffect(() => {
     const refs = stableRefs.current;
@@ -1071,6 +1316,14 @@ export function useDuelRoomManagement(duelId: number) {
       refs.retryCount = 0;
       refs.isCleaningUp = false;
       refs.connectionAttempt = null;
+      refs.sessionId = null;
+      refs.isResuming = false;
+      refs.replayRounds = [];
+      refs.pointMultipliers = { user: {}, opponent: {} };
+      if (refs.graceTimeout) {
+        clearTimeout(refs.graceTimeout);
+        refs.graceTimeout = null;
+      }
 
       // CRITICAL: Force cleanup of old event listeners
       if (refs.eventListenersSetup) {
@@ -1128,6 +1381,18 @@ export function useDuelRoomManagement(duelId: number) {
 
       handleRoomJoined: (data: { session: any }) => {
         console.log('🚪 ROOM JOINED SUCCESS for duel:', duelId);
+        stableRefs.current.sessionId =
+          data.session?.sessionId ?? stableRefs.current.sessionId;
+
+        // A resumed room keeps its phase; the snapshot restores it
+        if (stableRefs.current.isResuming) {
+          debouncedDispatch({
+            type: 'SET_ROOM',
+            payload: { isInRoom: true, roomError: null, session: data.session },
+          });
+          return;
+        }
+
         debouncedDispatch({
           type: 'BATCH_UPDATE',
           payload: {
@@ -1185,41 +1450,6 @@ export function useDuelRoomManagement(duelId: number) {
     );
     refs.eventListenersSetup = true;
 
-    // AGGRESSIVE cleanup of ALL potential event listeners
-    const cleanupAllExisting = () => {
-      const eventNames = [
-        'connect',
-        'disconnect',
-        'room_joined',
-        'room_error',
-        'duel_starting',
-        'question_presented',
-        'timer_update',
-        'opponent_answered',
-        'round_result',
-        'duel_completed',
-        'duel_error',
-        'question_time_up',
-        // Additional potential events that might exist
-        'duel_cancelled',
-        'connection_lost',
-        'reconnect_attempt',
-        'user_disconnected',
-      ];
-
-      eventNames.forEach((eventName) => {
-        try {
-          socketService.off(eventName);
-        } catch (error) {
-          // Ignore cleanup errors but log them for debugging
-          console.debug(`Cleanup warning for event ${eventName}:`, error);
-        }
-      });
-    };
-
-    // Perform aggressive cleanup before setting up new listeners
-    cleanupAllExisting();
-
     // 🚀 ENHANCED EVENT HANDLERS with duel ID validation and improved error handling
     const handleRoomError = (data: { message: string; duelId?: number }) => {
       try {
@@ -1302,6 +1532,11 @@ export function useDuelRoomManagement(duelId: number) {
           hasAnswered: false,
           opponentAnswered: false,
           gameError: null, // Clear any previous errors
+          usedPowerUps: [],
+          pendingPowerUp: null,
+          removedOptions: [],
+          opponentPowerUp: null,
+          powerUpError: null,
         });
       } catch (error) {
         console.error('Error handling question presented:', error);
@@ -1394,6 +1629,12 @@ export function useDuelRoomManagement(duelId: number) {
           return;
         }
 
+        refs.replayRounds[data.questionIndex] = duelReplayHelpers.toReplayRound(
+          data,
+          currentUserId,
+          refs.questionId,
+        );
+
         // Calculate score updates
         const userAnswer = data.answers.find(
           (a: any) => a && a.userId === currentUserId,
@@ -1403,9 +1644,8 @@ export function useDuelRoomManagement(duelId: number) {
         );
 
         // Get current scores at execution time (not from closure)
-        const currentState = state; // Access current state
-        const currentUserScore = currentState.userScore || 0;
-        const currentOpponentScore = currentState.opponentScore || 0;
+        const currentUserScore = refs.userScore || 0;
+        const currentOpponentScore = refs.opponentScore || 0;
 
         console.log('Score calculation for duel:', duelId, {
           currentUserId,
@@ -1422,10 +1662,18 @@ export function useDuelRoomManagement(duelId: number) {
             : null,
         });
 
-        // Calculate new scores
-        const newUserScore = currentUserScore + (userAnswer?.isCorrect ? 1 : 0);
+        // Calculate new scores (a double power-up multiplies this round)
+        const questionIndex = data.questionIndex || 0;
+        const newUserScore =
+          currentUserScore +
+          (userAnswer?.isCorrect
+            ? (refs.pointMultipliers.user[questionIndex] ?? 1)
+            : 0);
         const newOpponentScore =
-          currentOpponentScore + (opponentAnswer?.isCorrect ? 1 : 0);
+          currentOpponentScore +
+          (opponentAnswer?.isCorrect
+            ? (refs.pointMultipliers.opponent[questionIndex] ?? 1)
+            : 0);
 
         // IMMEDIATE phase switch - no delays
         console.log(
@@ -1475,6 +1723,61 @@ export function useDuelRoomManagement(duelId: number) {
       }
     };
 
+    // Keep the rounds for the replay screen; nothing to store if every round
+    // was missed (e.g. the duel was resumed right at the end)
+    const saveReplay = async (finalResults: FinalResults) => {
+      const rounds = refs.replayRounds.filter(Boolean);
+      if (rounds.length === 0) return;
+
+      const currentUserId = await getCachedUserId();
+      if (!currentUserId) return;
+
+      const duel = refs.duelInfo;
+      const isInitiator = duel?.initiator_id === currentUserId;
+      const userResult =
+        finalResults.user1.userId === currentUserId
+          ? finalResults.user1
+          : finalResults.user2;
+      const opponentResult =
+        userResult === finalResults.user1
+          ? finalResults.user2
+          : finalResults.user1;
+
+      recordReplay({
+        duelId,
+        userId: currentUserId,
+        opponentName:
+          (isInitiator ? duel?.opponent_username : duel?.initiator_username) ??
+          null,
+        isBotOpponent: refs.isBotOpponent,
+        courseId: duel?.course?.course_id ?? duel?.test?.course_id ?? null,
+        courseTitle: duel?.course?.title ?? duel?.course_title ?? null,
+        testId: duel?.test?.test_id ?? duel?.test_id ?? null,
+        userScore: userResult.score,
+        opponentScore: opponentResult.score,
+        winnerId: finalResults.winnerId,
+        rounds,
+        completedAt: new Date().toISOString(),
+      });
+      refs.replayRounds = [];
+    };
+
+    // Bracket duels move the winner on; the backend decides who advances, so
+    // either player's device can ask and the second request changes nothing
+    const advanceTournament = () => {
+      const tournamentId = refs.duelInfo?.tournament_id;
+      if (!tournamentId) return;
+
+      syncTournament(tournamentId);
+    };
+
+    // The backend rates both players when the duel completes; bot duels
+    // are unrated
+    const updateRatings = () => {
+      if (refs.isBotOpponent) return;
+      refreshRatings();
+    };
+
     // 🔧 CRITICAL: Enhanced duel completed handler with comprehensive validation
     const handleDuelCompleted = (data: any) => {
       try {
@@ -1531,6 +1834,9 @@ export function useDuelRoomManagement(duelId: number) {
         });
 
         console.log('✅ Duel completion processed for duel:', duelId);
+        saveReplay(finalResults);
+        advanceTournament();
+        updateRatings();
       } catch (error) {
         console.error(
           'Error handling duel completion for duel:',
@@ -1608,23 +1914,194 @@ export function useDuelRoomManagement(duelId: number) {
       }
     };
 
+    // ⚡ POWER-UPS: effects are confirmed by the server for both players
+    const handleRoomPowerUps = async (data: {
+      session: socketService.DuelSession;
+    }) => {
+      const inventories = data.session?.powerUps;
+      if (!inventories) return;
+
+      const currentUserId = await getCachedUserId();
+      const inventory = currentUserId ? inventories[currentUserId] : undefined;
+      if (inventory) {
+        dispatchActions.batchUpdate({ powerUps: inventory });
+      }
+    };
+
+    const handlePowerUpApplied = async (data: socketService.PowerUpApplied) => {
+      try {
+        if (data.duelId !== duelId) {
+          console.warn('Ignoring power-up for different duel:', data.duelId);
+          return;
+        }
+
+        const currentUserId = await getCachedUserId();
+        const isOwn = data.userId === currentUserId;
+        console.log('⚡ Power-up applied for duel:', duelId, {
+          powerUp: data.powerUp,
+          isOwn,
+        });
+
+        if (data.multiplier) {
+          refs.pointMultipliers[isOwn ? 'user' : 'opponent'][
+            data.questionIndex
+          ] = data.multiplier;
+        }
+
+        if (isOwn) {
+          dispatchActions.applyPowerUp({
+            powerUp: data.powerUp,
+            inventory: data.inventory,
+            removedOptions: data.removedOptions ?? [],
+          });
+        } else {
+          dispatchActions.batchUpdate({ opponentPowerUp: data.powerUp });
+        }
+      } catch (error) {
+        console.error('Error applying power-up:', error);
+      }
+    };
+
+    const handlePowerUpError = (data: { message: string }) => {
+      console.warn('⚡ Power-up rejected for duel:', duelId, data.message);
+      dispatchActions.batchUpdate({
+        pendingPowerUp: null,
+        powerUpError: data.message || translate('powerUps.failed'),
+      });
+    };
+
+    // 🔌 RESUME: keep the duel alive across short connection drops
+    const clearGraceTimeout = () => {
+      if (refs.graceTimeout) {
+        clearTimeout(refs.graceTimeout);
+        refs.graceTimeout = null;
+      }
+    };
+
+    const expireGracePeriod = () => {
+      clearGraceTimeout();
+      refs.isResuming = false;
+      console.log('⌛ Reconnect grace period expired for duel:', duelId);
+      dispatchActions.batchUpdate({
+        isReconnecting: false,
+        reconnectDeadline: null,
+        phase: 'error',
+        gameError: translate('duels.reconnectFailed'),
+      });
+    };
+
+    // Fires for both the socket event and the service's own re-broadcast
+    const handleConnectionDropped = () => {
+      if (
+        refs.isCleaningUp ||
+        refs.graceTimeout ||
+        !RESUMABLE_PHASES.includes(refs.phase)
+      ) {
+        return;
+      }
+
+      console.log('🔌 Connection dropped mid-duel, waiting to resume:', duelId);
+      refs.graceTimeout = setTimeout(
+        expireGracePeriod,
+        DUEL_RECONNECT_GRACE_MS,
+      );
+      dispatchActions.batchUpdate({
+        isReconnecting: true,
+        reconnectDeadline: Date.now() + DUEL_RECONNECT_GRACE_MS,
+      });
+    };
+
+    const handleReconnected = () => {
+      if (!refs.graceTimeout || refs.isResuming) return;
+
+      refs.isResuming = true;
+      try {
+        console.log('🔁 Reconnected, resuming duel room:', duelId);
+        socketService.resumeDuelRoom(
+          duelId,
+          refs.sessionId,
+          refs.questionIndex,
+        );
+      } catch (error) {
+        console.error('❌ Failed to resume duel room:', duelId, error);
+        refs.isResuming = false;
+      }
+    };
+
+    const handleStateSnapshot = async (
+      snapshot: socketService.DuelStateSnapshot,
+    ) => {
+      try {
+        if (snapshot.duelId !== duelId) {
+          console.warn(
+            'Ignoring state snapshot for different duel:',
+            snapshot.duelId,
+          );
+          return;
+        }
+
+        const currentUserId = await getCachedUserId();
+        clearGraceTimeout();
+        refs.isResuming = false;
+        refs.sessionId = snapshot.sessionId;
+
+        console.log('✅ Duel resumed from snapshot:', duelId, {
+          status: snapshot.status,
+          questionIndex: snapshot.questionIndex,
+        });
+        dispatchActions.batchUpdate({
+          ...snapshotToRoomState(snapshot, currentUserId),
+          isConnected: true,
+          isInRoom: true,
+          connectionError: null,
+          roomError: null,
+          isReconnecting: false,
+          reconnectDeadline: null,
+        });
+      } catch (error) {
+        console.error('Error applying duel state snapshot:', error);
+      }
+    };
+
+    // The service gave up reconnecting; no point waiting out the grace period
+    const handleReconnectFailed = () => {
+      if (refs.graceTimeout) {
+        expireGracePeriod();
+      }
+    };
+
+    // Scoped so cleanup only removes this room's listeners, never another
+    // screen's (e.g. quick match or the connection indicator)
+    const subscriptions = socketService.createSubscriptionScope();
+
     // Register all event listeners with enhanced error handling
     try {
-      socketService.on('connect', debouncedEventHandlers.handleConnect);
-      socketService.on('disconnect', debouncedEventHandlers.handleDisconnect);
-      socketService.on('room_joined', debouncedEventHandlers.handleRoomJoined);
-      socketService.on('room_error', handleRoomError);
-      socketService.on('duel_starting', handleDuelStarting);
-      socketService.on('question_presented', handleQuestionPresented);
-      socketService.on('timer_update', handleTimerUpdate);
-      socketService.on('opponent_answered', handleOpponentAnswered);
-      socketService.on('round_result', handleRoundResult);
-      socketService.on('duel_completed', handleDuelCompleted);
-      socketService.on('duel_error', handleGameError);
+      subscriptions.on('connect', debouncedEventHandlers.handleConnect);
+      subscriptions.on('disconnect', debouncedEventHandlers.handleDisconnect);
+      subscriptions.on('room_joined', debouncedEventHandlers.handleRoomJoined);
+      subscriptions.on('room_error', handleRoomError);
+      subscriptions.on('duel_starting', handleDuelStarting);
+      subscriptions.on('question_presented', handleQuestionPresented);
+      subscriptions.on('timer_update', handleTimerUpdate);
+      subscriptions.on('opponent_answered', handleOpponentAnswered);
+      subscriptions.on('round_result', handleRoundResult);
+      subscriptions.on('duel_completed', handleDuelCompleted);
+      subscriptions.on('duel_error', handleGameError);
 
       // Additional event listeners for better error handling
-      socketService.on('connection_lost', handleConnectionLost);
-      socketService.on('duel_cancelled', handleDuelCancelled);
+      subscriptions.on('connection_lost', handleConnectionLost);
+      subscriptions.on('duel_cancelled', handleDuelCancelled);
+
+      // Power-up listeners
+      subscriptions.on('room_joined', handleRoomPowerUps);
+      subscriptions.on('power_up_applied', handlePowerUpApplied);
+      subscriptions.on('power_up_error', handlePowerUpError);
+
+      // Resume listeners
+      subscriptions.on('disconnect', handleConnectionDropped);
+      subscriptions.on('connect', handleReconnected);
+      subscriptions.on('duel_state_snapshot', handleStateSnapshot);
+      subscriptions.on('reconnect_failed', handleReconnectFailed);
 
       console.log('✅ All event listeners registered for duel:', duelId);
     } catch (error) {
@@ -1633,6 +2110,7 @@ export function useDuelRoomManagement(duelId: number) {
         duelId,
         error,
       );
+      subscriptions.dispose();
       dispatchActions.setGame({
         phase: 'error',
         gameError: 'Failed to set up event listeners',
@@ -1644,108 +2122,12 @@ export function useDuelRoomManagement(duelId: number) {
     const cleanupFunctions = [
       () => {
         try {
-          socketService.off('connect', debouncedEventHandlers.handleConnect);
-        } catch (e) {
-          console.debug('Cleanup error for connect:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off(
-            'disconnect',
-            debouncedEventHandlers.handleDisconnect,
-          );
-        } catch (e) {
-          console.debug('Cleanup error for disconnect:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off(
-            'room_joined',
-            debouncedEventHandlers.handleRoomJoined,
-          );
-        } catch (e) {
-          console.debug('Cleanup error for room_joined:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('room_error', handleRoomError);
-        } catch (e) {
-          console.debug('Cleanup error for room_error:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('duel_starting', handleDuelStarting);
-        } catch (e) {
-          console.debug('Cleanup error for duel_starting:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('question_presented', handleQuestionPresented);
-        } catch (e) {
-          console.debug('Cleanup error for question_presented:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('timer_update', handleTimerUpdate);
-        } catch (e) {
-          console.debug('Cleanup error for timer_update:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('opponent_answered', handleOpponentAnswered);
-        } catch (e) {
-          console.debug('Cleanup error for opponent_answered:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('round_result', handleRoundResult);
-        } catch (e) {
-          console.debug('Cleanup error for round_result:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('duel_completed', handleDuelCompleted);
-        } catch (e) {
-          console.debug('Cleanup error for duel_completed:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('duel_error', handleGameError);
+          subscriptions.dispose();
         } catch (e) {
-          console.debug('Cleanup error for duel_error:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('connection_lost', handleConnectionLost);
-        } catch (e) {
-          console.debug('Cleanup error for connection_lost:', e);
-        }
-      },
-      () => {
-        try {
-          socketService.off('duel_cancelled', handleDuelCancelled);
-        } catch (e) {
-          console.debug('Cleanup error for duel_cancelled:', e);
-        }
-      },
-      () => {
-        try {
-          cleanupAllExisting(); // Final aggressive cleanup
-        } catch (e) {
-          console.debug('Cleanup error for cleanupAllExisting:', e);
+          console.debug('Cleanup error for duel room listeners:', e);
         }
       },
+      clearGraceTimeout,
     ];
 
     // Add cleanup functions to refs
@@ -1761,6 +2143,9 @@ export function useDuelRoomManagement(duelId: number) {
     debouncedEventHandlers,
     dispatchActions,
     duelId,
+    recordReplay,
+    syncTournament,
+    refreshRatings,
     // Removed state.userScore and state.opponentScore to prevent unnecessary recreations
   ]);
 
@@ -1937,6 +2322,58 @@ export function useDuelRoomManagement(duelId: number) {
     }
   }, [duelId]);
 
+  // ⚡ Ask the server to apply a power-up; state changes once it confirms
+  const activatePowerUp = useCallback(
+    (powerUp: socketService.PowerUpType) => {
+      if (
+        state.phase !== 'question' ||
+        state.hasAnswered ||
+        state.pendingPowerUp ||
+        state.usedPowerUps.length >= MAX_POWER_UPS_PER_QUESTION ||
+        (state.powerUps[powerUp] ?? 0) <= 0
+      ) {
+        return false;
+      }
+
+      try {
+        socketService.requestPowerUp(duelId, state.questionIndex, powerUp);
+        dispatchActions.batchUpdate({
+          pendingPowerUp: powerUp,
+          powerUpError: null,
+        });
+        return true;
+      } catch (error) {
+        console.error('❌ Error using power-up:', error);
+        dispatchActions.batchUpdate({
+          powerUpError: translate('powerUps.failed'),
+        });
+        return false;
+      }
+    },
+    [
+      duelId,
+      dispatchActions,
+      state.phase,
+      state.hasAnswered,
+      state.pendingPowerUp,
+      state.usedPowerUps,
+      state.powerUps,
+      state.questionIndex,
+    ],
+  );
+
+  // 🔁 Skip the remaining backoff, e.g. right after the network comes back
+  const retryReconnect = useCallback(async () => {
+    if (socketService.isConnected()) return;
+
+    try {
+      const token = await getCachedAuthToken();
+      await socketService.connect(token || undefined);
+    } catch (error) {
+      console.warn('🔁 Manual reconnect failed for duel:', duelId, error);
+    }
+  }, [duelId]);
+
   // 🔧 ENHANCED: Cleanup with duel ID tracking
   const cleanup = useCallback(() => {
     const refs = stableRefs.current;
@@ -1945,11 +2382,15 @@ export function useDuelRoomManagement(duelId: number) {
     refs.isCleaningUp = true;
     refs.isMounted = false;
 
-    // Clear timeout
+    // Clear timeouts
     if (refs.connectionTimeout) {
       clearTimeout(refs.connectionTimeout);
       refs.connectionTimeout = null;
     }
+    if (refs.graceTimeout) {
+      clearTimeout(refs.graceTimeout);
+      refs.graceTimeout = null;
+    }
 
     // Run cleanup functions
     refs.cleanupFunctions.forEach((cleanupFn) => {
@@ -1966,6 +2407,8 @@ export function useDuelRoomManagement(duelId: number) {
     refs.connectionAttempt = null;
     refs.hasConnectedOnce = false;
     refs.retryCount = 0;
+    refs.sessionId = null;
+    refs.isResuming = false;
 
     // Disconnect socket
     try {
@@ -2037,10 +2480,24 @@ export function useDuelRoomManagement(duelId: number) {
       roundResult: state.roundResult,
       finalResults: state.finalResults,
 
+      // Resume state
+      isReconnecting: state.isReconnecting,
+      reconnectDeadline: state.reconnectDeadline,
+
+      // Power-ups
+      powerUps: state.powerUps,
+      usedPowerUps: state.usedPowerUps,
+      pendingPowerUp: state.pendingPowerUp,
+      removedOptions: state.removedOptions,
+      opponentPowerUp: state.opponentPowerUp,
+      powerUpError: state.powerUpError,
+
       // Actions
       initializeConnection,
       submitAnswer,
       signalReady,
+      activatePowerUp,
+      retryReconnect,
       cleanup,
 
       // Loading states
@@ -2062,6 +2519,8 @@ export function useDuelRoomManagement(duelId: number) {
       initializeConnection,
       submitAnswer,
       signalReady,
+      activatePowerUp,
+      retryReconnect,
       cleanup,
     ],
   );
@@ -2486,7 +2945,7 @@ export function useDuelRoom(duelId: number) {
 
   const setupEventListeners = useCallback(async () => {
     try {
-      const { on, off } = await import('../api/socketService');
+      const { on } = await import('../api/socketService');
 
       // Clear existing listeners
       eventListeners.forEach((cleanup) => cleanup());
@@ -2505,12 +2964,9 @@ export function useDuelRoom(duelId: number) {
         setRoomError(data.message);
       };
 
-      on('room_joined', handleRoomJoined);
-      on('room_error', handleRoomError);
-
       newListeners.push(
-        () => off('room_joined', handleRoomJoined),
-        () => off('room_error', handleRoomError),
+        on('room_joined', handleRoomJoined),
+        on('room_error', handleRoomError),
       );
 
       setEventListeners(newListeners);
@@ -2593,6 +3049,29 @@ export function useDuelTimer(initialTime: number = 60) {
   const [timeLeft, setTimeLeft] = useState(initialTime);
   const [isActive, setIsActive] = useState(false);
   const [serverSynced, setServerSynced] = useState(false);
+  const [isFrozen, setIsFrozen] = useState(false);
+
+  // Power-up effects layered on top of the server clock for one question.
+  // A freeze also counts as bonus time, so the clock resumes where it stopped.
+  const powerUpClockRef = useRef({
+    questionIndex: -1,
+    bonusSeconds: 0,
+    frozenUntil: 0,
+  });
+  const freezeTimeoutRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const resetPowerUpClock = useCallback((questionIndex: number) => {
+    powerUpClockRef.current = {
+      questionIndex,
+      bonusSeconds: 0,
+      frozenUntil: 0,
+    };
+    if (freezeTimeoutRef.current) {
+      clearTimeout(freezeTimeoutRef.current);
+      freezeTimeoutRef.current = null;
+    }
+    setIsFrozen(false);
+  }, []);
 
   const startTimer = useCallback(
     (time: number = initialTime) => {
@@ -2616,23 +3095,91 @@ export function useDuelTimer(initialTime: number = 60) {
     [initialTime],
   );
 
-  const syncWithServer = useCallback((serverTime: number) => {
-    setTimeLeft(serverTime);
-    setServerSynced(true);
+  const syncWithServer = useCallback(
+    (serverTime: number, questionIndex?: number) => {
+      const clock = powerUpClockRef.current;
+      if (
+        questionIndex !== undefined &&
+        questionIndex !== clock.questionIndex
+      ) {
+        resetPowerUpClock(questionIndex);
+      }
+
+      setServerSynced(true);
+      // Hold the displayed time while frozen
+      if (powerUpClockRef.current.frozenUntil > Date.now()) return;
+      setTimeLeft(serverTime + powerUpClockRef.current.bonusSeconds);
+    },
+    [resetPowerUpClock],
+  );
+
+  const addTime = useCallback(
+    (seconds: number, questionIndex: number) => {
+      if (questionIndex !== powerUpClockRef.current.questionIndex) {
+        resetPowerUpClock(questionIndex);
+      }
+      powerUpClockRef.current.bonusSeconds += seconds;
+      setTimeLeft((current) => current + seconds);
+    },
+    [resetPowerUpClock],
+  );
+
+  const freeze = useCallback(
+    (seconds: number, questionIndex: number) => {
+      if (questionIndex !== powerUpClockRef.current.questionIndex) {
+        resetPowerUpClock(questionIndex);
+      }
+      const clock = powerUpClockRef.current;
+      clock.bonusSeconds += seconds;
+      clock.frozenUntil = Date.now() + seconds * 1000;
+      setIsFrozen(true);
+
+      if (freezeTimeoutRef.current) clearTimeout(freezeTimeoutRef.current);
+      freezeTimeoutRef.current = setTimeout(() => {
+        freezeTimeoutRef.current = null;
+        setIsFrozen(false);
+      }, seconds * 1000);
+    },
+    [resetPowerUpClock],
+  );
+
+  useEffect(() => {
+    return () => {
+      if (freezeTimeoutRef.current) clearTimeout(freezeTimeoutRef.current);
+    };
   }, []);
 
   // Setup server timer sync
   useEffect(() => {
     const setupTimerSync = async () => {
       try {
-        const { on, off } = await import('../api/socketService');
+        const { createSubscriptionScope } = await import(
+          '../api/socketService'
+        );
 
         const handleTimerUpdate = (data: {
           timeRemaining: number;
           serverTime: number;
           questionIndex: number;
         }) => {
-          syncWithServer(data.timeRemaining);
+          syncWithServer(data.timeRemaining, data.questionIndex);
+        };
+
+        // Only our own extra-time/freeze changes our clock
+        const handlePowerUpApplied = async (
+          data: socketService.PowerUpApplied,
+        ) => {
+          if (data.powerUp !== 'extra-time' && data.powerUp !== 'freeze') {
+            return;
+          }
+          const currentUserId = await getCachedUserId();
+          if (data.userId !== currentUserId) return;
+
+          if (data.powerUp === 'extra-time') {
+            addTime(data.timeBonus ?? EXTRA_TIME_SECONDS, data.questionIndex);
+          } else {
+            freeze(data.timeBonus ?? FREEZE_SECONDS, data.questionIndex);
+          }
         };
 
         const handleTimeUp = () => {
@@ -2640,13 +3187,12 @@ export function useDuelTimer(initialTime: number = 60) {
           setIsActive(false);
         };
 
-        on('timer_update', handleTimerUpdate);
-        on('question_time_up', handleTimeUp);
+        const subscriptions = createSubscriptionScope();
+        subscriptions.on('timer_update', handleTimerUpdate);
+        subscriptions.on('question_time_up', handleTimeUp);
+        subscriptions.on('power_up_applied', handlePowerUpApplied);
 
-        return () => {
-          off('timer_update', handleTimerUpdate);
-          off('question_time_up', handleTimeUp);
-        };
+        return subscriptions.dispose;
       } catch (error) {
         console.error('Failed to setup timer sync:', error);
       }
@@ -2657,16 +3203,19 @@ export function useDuelTimer(initialTime: number = 60) {
     return () => {
       cleanup.then((cleanupFn) => cleanupFn && cleanupFn());
     };
-  }, [syncWithServer]);
+  }, [syncWithServer, addTime, freeze]);
 
   return {
     timeLeft,
     isActive,
     serverSynced,
+    isFrozen,
     startTimer,
     stopTimer,
     resetTimer,
     syncWithServer,
+    addTime,
+    freeze,
   };
 }
 
@@ -2829,7 +3378,11 @@ export function useSocketBotChallenge() {
   const [socketConnected, setSocketConnected] = useState(false);
 
   const challengeBotWithSocket = useCallback(
-    async (courseId: number, difficulty: number) => {
+    async (
+      courseId: number,
+      difficulty: number,
+      options?: BotChallengeOptions,
+    ) => {
       setChallengeState('challenging');
       setChallengeError(null);
       setCreatedDuel(null);
@@ -2850,7 +3403,11 @@ export function useSocketBotChallenge() {
   );
 
   const challengeBotWithHttp = useCallback(
-    async (courseId: number, difficulty: number) => {
+    async (
+      courseId: number,
+      difficulty: number,
+      options?: BotChallengeOptions,
+    ) => {
       setChallengeState('challenging');
       setChallengeError(null);
       setCreatedDuel(null);
@@ -2859,6 +3416,7 @@ export function useSocketBotChallenge() {
         const response = await botService.challengeBotWithCourse(
           courseId,
           difficulty,
+          options,
         );
 
         if (response.success && response.duel) {
@@ -2884,12 +3442,13 @@ export function useSocketBotChallenge() {
       courseId: number,
       difficulty: number,
       preferSocket: boolean = true,
+      options?: BotChallengeOptions,
     ) => {
       if (preferSocket) {
         try {
           const { isConnected } = await import('../api/socketService');
           if (isConnected()) {
-            await challengeBotWithSocket(courseId, difficulty);
+            await challengeBotWithSocket(courseId, difficulty, options);
             return;
           }
         } catch (error) {
@@ -2898,7 +3457,7 @@ export function useSocketBotChallenge() {
       }
 
       // Fallback to HTTP
-      await challengeBotWithHttp(courseId, difficulty);
+      await challengeBotWithHttp(courseId, difficulty, options);
     },
     [challengeBotWithSocket, challengeBotWithHttp],
   );
@@ -2907,7 +3466,9 @@ export function useSocketBotChallenge() {
   useEffect(() => {
     const setupBotChallengeListeners = async () => {
       try {
-        const { on, off, isConnected } = await import('../api/socketService');
+        const { createSubscriptionScope, isConnected } = await import(
+          '../api/socketService'
+        );
 
         const connected = isConnected();
         setSocketConnected(connected);
@@ -2919,11 +3480,6 @@ export function useSocketBotChallenge() {
 
         console.log('🔧 Setting up bot challenge listeners');
 
-        // CRITICAL: Clean up old listeners first
-        off('bot_challenge_created');
-        off('bot_challenge_error');
-        off('auto_join_duel');
-
         const handleBotChallengeCreated = (data: { duel: any }) => {
           console.log('🤖 Bot challenge created via socket:', data);
           setCreatedDuel(data.duel);
@@ -2941,15 +3497,14 @@ export function useSocketBotChallenge() {
           // This could trigger navigation to the duel room
         };
 
-        on('bot_challenge_created', handleBotChallengeCreated);
-        on('bot_challenge_error', handleBotChallengeError);
-        on('auto_join_duel', handleAutoJoinDuel);
+        const subscriptions = createSubscriptionScope();
+        subscriptions.on('bot_challenge_created', handleBotChallengeCreated);
+        subscriptions.on('bot_challenge_error', handleBotChallengeError);
+        subscriptions.on('auto_join_duel', handleAutoJoinDuel);
 
         return () => {
           console.log('🧹 Cleaning up bot challenge listeners');
-          off('bot_challenge_created', handleBotChallengeCreated);
-          off('bot_challenge_error', handleBotChallengeError);
-          off('auto_join_duel', handleAutoJoinDuel);
+          subscriptions.dispose();
         };
       } catch (error) {
         console.error('Failed to setup bot challenge listeners:', error);
@@ -3035,18 +3590,18 @@ export const duelHelpers = {
   getResultText: (result: 'won' | 'lost' | 'draw') => {
     switch (result) {
       case 'won':
-        return 'Kazandı';
+        return translate('duels.resultWon');
       case 'lost':
-        return 'Kaybetti';
+        return translate('duels.resultLost');
       case 'draw':
-        return 'Berabere';
+        return translate('duels.draw');
       default:
-        return 'Bilinmeyen';
+        return translate('duels.unknown');
     }
   },
 
   formatDuelDate: (dateString: string) => {
-    return new Date(dateString).toLocaleDateString('tr-TR', {
+    return new Date(dateString).toLocaleDateString(getDateLocale(), {
       day: '2-digit',
       month: '2-digit',
       year: 'numeric',
@@ -3086,17 +3641,17 @@ export const duelHelpers = {
   getDifficultyLabel: (level: number): string => {
     switch (level) {
       case 1:
-        return 'Kolay';
+        return translate('botPractice.difficulty1');
       case 2:
-        return 'Orta';
+        return translate('botPractice.difficulty2');
       case 3:
-        return 'Zor';
+        return translate('botPractice.difficulty3');
       case 4:
-        return 'Uzman';
+        return translate('botPractice.difficulty4');
       case 5:
-        return 'Efsane';
+        return translate('botPractice.difficulty5');
       default:
-        return 'Bilinmeyen';
+        return translate('duels.unknown');
     }
   },
 
@@ -3124,7 +3679,7 @@ export const duelHelpers = {
       return duel.initiator_username;
     }
 
-    return `Rakip ${opponentId}`;
+    return translate('duels.opponentWithId', { id: opponentId });
   },
 
   // Helper to get course name from duel
@@ -3136,7 +3691,7 @@ export const duelHelpers = {
     } else if ((duel as any).course_name) {
       return (duel as any).course_name;
     }
-    return 'Bilinmeyen Ders';
+    return translate('duels.unknownCourse');
   },
 
   // Helper to determine if user can act on duel
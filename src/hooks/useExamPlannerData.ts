@@ -0,0 +1,263 @@
+// src/hooks/useExamPlannerData.ts - DUS exam dates, countdown and per course study pacing
+import { useMemo } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { getUserAllCoursesOverview } from '../api/studyService';
+import type { UserCourseOverview } from '../api/studyService';
+import { updateUserProfile } from '../api/userService';
+import { useAuth } from '../../stores/appStore';
+import { useUserData } from './useAppData';
+import type { TranslationKey } from '../../localization';
+import type { User } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export type ExamSession = 'spring' | 'autumn';
+
+export interface ExamDates {
+  spring: string | null; // YYYY-MM-DD
+  autumn: string | null; // YYYY-MM-DD
+}
+
+export interface UpcomingExam {
+  session: ExamSession;
+  date: string;
+  daysRemaining: number;
+}
+
+// Why a course is flagged as behind
+export type PacingWarning = 'pace' | 'inactive';
+
+export interface CoursePacing {
+  courseId: number;
+  courseTitle: string;
+  completionPercentage: number;
+  studiedHours: number;
+  remainingHours: number;
+  requiredHoursPerWeek: number;
+  isCompleted: boolean;
+  warning: PacingWarning | null;
+}
+
+export const EXAM_SESSIONS: ExamSession[] = ['spring', 'autumn'];
+
+export const EXAM_SESSION_LABELS: Record<ExamSession, TranslationKey> = {
+  spring: 'examPlanner.springSession',
+  autumn: 'examPlanner.autumnSession',
+};
+
+// Estimated study hours for a course with no usable history yet
+const DEFAULT_COURSE_HOURS = 80;
+
+// Below this completion the studied hours say little about the total
+const MIN_COMPLETION_FOR_ESTIMATE = 5;
+
+// A course needing more than this per week is unlikely to be finished
+const BEHIND_HOURS_PER_WEEK = 8;
+
+// Unfinished courses untouched for this long are flagged
+const INACTIVE_DAYS = 14;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const EXAM_PLANNER_KEYS = {
+  coursesOverview: (userId?: number) => ['courses-overview', userId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 COURSES OVERVIEW HOOK - completion and study time for every course
+export function useCoursesOverview() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: EXAM_PLANNER_KEYS.coursesOverview(user?.userId),
+    queryFn: async (): Promise<UserCourseOverview[]> => {
+      const overview = await getUserAllCoursesOverview();
+      return overview.coursesOverview;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 EXAM DATES HOOK - target sessions stored on the user profile
+export function useExamDates(): ExamDates {
+  const { user } = useAuth();
+  const { data: profile } = useUserData();
+
+  return useMemo(() => getExamDates(profile ?? user), [profile, user]);
+}
+
+// 🚀 EXAM PACING HOOK - countdown to the next session and required weekly
+// hours per course to finish in time
+export function useExamPacing() {
+  const examDates = useExamDates();
+  const overviewQuery = useCoursesOverview();
+
+  const nextExam = useMemo(() => getNextExam(examDates), [examDates]);
+
+  const courses = useMemo(() => {
+    if (!nextExam || !overviewQuery.data) return [];
+    return overviewQuery.data
+      .map((course) => getCoursePacing(course, nextExam.daysRemaining))
+      .sort((a, b) => b.requiredHoursPerWeek - a.requiredHoursPerWeek);
+  }, [nextExam, overviewQuery.data]);
+
+  return {
+    examDates,
+    nextExam,
+    courses,
+    behindCount: courses.filter((course) => course.warning !== null).length,
+    totalHoursPerWeek: roundHours(
+      courses.reduce((total, course) => total + course.requiredHoursPerWeek, 0),
+    ),
+    isLoading: overviewQuery.isLoading,
+    error: overviewQuery.error,
+    refetch: overviewQuery.refetch,
+  };
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 UPDATE EXAM DATES MUTATION - saves both sessions to the profile
+export function useUpdateExamDates() {
+  const queryClient = useQueryClient();
+  const { user, setUser } = useAuth();
+
+  const mutation = useMutation({
+    mutationFn: async (dates: ExamDates) =>
+      updateUserProfile({
+        exam_date_spring: dates.spring,
+        exam_date_autumn: dates.autumn,
+      }),
+    onSuccess: (response, dates) => {
+      console.log('✅ Exam dates updated:', dates);
+      queryClient.setQueryData<User | null>(['user-profile'], (profile) =>
+        profile
+          ? {
+              ...profile,
+              exam_date_spring: dates.spring,
+              exam_date_autumn: dates.autumn,
+            }
+          : response.user,
+      );
+      if (user) {
+        setUser({
+          ...user,
+          exam_date_spring: dates.spring,
+          exam_date_autumn: dates.autumn,
+        });
+      }
+    },
+    onError: (error) => {
+      console.error('❌ Error updating exam dates:', error);
+    },
+  });
+
+  return {
+    updateExamDates: mutation.mutateAsync,
+    isUpdating: mutation.isPending,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const getExamDates = (user?: User | null): ExamDates => ({
+  spring: user?.exam_date_spring || null,
+  autumn: user?.exam_date_autumn || null,
+});
+
+const startOfDay = (date: Date): number =>
+  new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime();
+
+// Whole days from today to the date; 0 on exam day, negative once past
+const getDaysUntil = (dateValue: string, now: Date = new Date()): number => {
+  const date = new Date(`${dateValue}T00:00:00`);
+  return Math.round((startOfDay(date) - startOfDay(now)) / DAY_MS);
+};
+
+// Nearest session that is today or later
+const getNextExam = (
+  dates: ExamDates,
+  now: Date = new Date(),
+): UpcomingExam | null =>
+  EXAM_SESSIONS.reduce<UpcomingExam | null>((next, session) => {
+    const date = dates[session];
+    if (!date) return next;
+    const daysRemaining = getDaysUntil(date, now);
+    if (daysRemaining < 0) return next;
+    if (next && next.daysRemaining <= daysRemaining) return next;
+    return { session, date, daysRemaining };
+  }, null);
+
+const roundHours = (hours: number): number => Math.round(hours * 10) / 10;
+
+// Hours still needed, extrapolated from the time it took to reach the
+// current completion
+const getRemainingHours = (course: UserCourseOverview): number => {
+  const completion = Math.min(100, Math.max(0, course.completionPercentage));
+  if (course.isCompleted || completion >= 100) return 0;
+
+  const estimatedTotal =
+    completion >= MIN_COMPLETION_FOR_ESTIMATE && course.totalStudyTimeHours > 0
+      ? course.totalStudyTimeHours / (completion / 100)
+      : DEFAULT_COURSE_HOURS;
+
+  return estimatedTotal * (1 - completion / 100);
+};
+
+const getCoursePacing = (
+  course: UserCourseOverview,
+  daysRemaining: number,
+  now: Date = new Date(),
+): CoursePacing => {
+  const remainingHours = getRemainingHours(course);
+  const isCompleted = remainingHours === 0;
+  // The exam day itself still counts as a (last) day of study
+  const weeksRemaining = Math.max(daysRemaining, 1) / 7;
+  const requiredHoursPerWeek = remainingHours / weeksRemaining;
+
+  const daysSinceStudied = course.lastStudiedAt
+    ? -getDaysUntil(course.lastStudiedAt.slice(0, 10), now)
+    : null;
+
+  let warning: PacingWarning | null = null;
+  if (!isCompleted && requiredHoursPerWeek > BEHIND_HOURS_PER_WEEK) {
+    warning = 'pace';
+  } else if (
+    !isCompleted &&
+    daysSinceStudied !== null &&
+    daysSinceStudied > INACTIVE_DAYS
+  ) {
+    warning = 'inactive';
+  }
+
+  return {
+    courseId: course.courseId,
+    courseTitle: course.courseTitle,
+    completionPercentage: Math.round(course.completionPercentage),
+    studiedHours: roundHours(course.totalStudyTimeHours),
+    remainingHours: roundHours(remainingHours),
+    requiredHoursPerWeek: roundHours(requiredHoursPerWeek),
+    isCompleted,
+    warning,
+  };
+};
+
+export const examPlannerHelpers = {
+  getExamDates,
+  getDaysUntil,
+  getNextExam,
+  getRemainingHours,
+  getCoursePacing,
+};
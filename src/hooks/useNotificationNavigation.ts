@@ -1,233 +1,142 @@
 import { useCallback } from 'react';
-import { router } from 'expo-router';
-import { Notification, NotificationType } from '../types/models';
+import { router, type Href } from 'expo-router';
+import { Notification } from '../types/models';
+import {
+  buildRoute,
+  resolveRoute,
+  type RouteQuery,
+} from '../../constants/routes';
+
+// Screen each notification type opens when it has no (valid) action_url
+const getDefaultRoute = (notification: Notification): Href => {
+  const { notification_type, metadata } = notification;
+
+  switch (notification_type) {
+    case 'achievement_unlock':
+      return buildRoute('achievements');
+
+    case 'duel_invitation':
+    case 'duel_result':
+      if (!metadata?.duel_id) return buildRoute('duels');
+      return buildRoute(metadata.mode === 'async' ? 'asyncDuel' : 'duel', {
+        id: metadata.duel_id,
+      });
+
+    case 'friend_request':
+    case 'friend_activity':
+      return buildRoute('friends');
+
+    case 'content_update':
+      return buildRoute('tests');
+
+    case 'plan_reminder':
+      return buildRoute('plans');
+
+    case 'coaching_note':
+      return buildRoute(
+        'coaching',
+        metadata?.note_id ? { noteId: metadata.note_id } : undefined,
+      );
+
+    case 'motivational_message':
+      return buildRoute('coaching', { tab: 'messages' });
+
+    case 'system_announcement':
+      return buildRoute('notifications');
+
+    // The study chronometer and course progress live on the home screen
+    case 'study_reminder':
+    case 'streak_reminder':
+    case 'course_reminder':
+    case 'course_completed':
+    case 'course_progress':
+    case 'course_milestone':
+    case 'course_study_session':
+    default:
+      return buildRoute('home');
+  }
+};
 
 export const useNotificationNavigation = () => {
-  // Route mapping for backend routes to actual app routes
-  const ROUTE_MAPPING: Record<string, string> = {
-    '/achievements': '/(tabs)/profile/achievements',
-    '/friends': '/(tabs)/profile/friends',
-    '/profile': '/(tabs)/profile',
-    '/duels': '/(tabs)/duels',
-    '/courses': '/(tabs)/courses',
-    '/study': '/study',
-    '/settings': '/settings',
-    '/notifications': '/(tabs)/notifications',
-    // Add more mappings as needed
-  };
-
-  const mapRoute = useCallback((route: string): string => {
-    // If it's already a tab route, return as is
-    if (route.includes('(tabs)')) {
-      return route;
-    }
+  // Map a backend route (or deep link) onto a registered screen
+  const mapRoute = useCallback(
+    (route: string): Href | null => resolveRoute(route)?.href ?? null,
+    [],
+  );
 
-    // Check if we have a mapping for this route
-    const mappedRoute = ROUTE_MAPPING[route];
-    if (mappedRoute) {
-      return mappedRoute;
-    }
+  const getNotificationDeepLink = useCallback(
+    (notification: Notification): Href => {
+      if (notification.action_url) {
+        const resolved = resolveRoute(notification.action_url);
+        if (resolved) {
+          return resolved.href;
+        }
+        console.warn(
+          '🧭 Notification action_url does not match any screen, using default:',
+          notification.action_url,
+        );
+      }
 
-    // If no mapping found, return original route
-    return route;
-  }, []);
+      return getDefaultRoute(notification);
+    },
+    [],
+  );
 
   const navigateFromNotification = useCallback(
     (notification: Notification) => {
-      // Add delay to ensure app is fully loaded when opened from notification
-      const performNavigation = () => {
-        const { notification_type, action_url, metadata } = notification;
-
-        // If there's a specific action URL, parse it and navigate
-        if (action_url) {
-          const mappedUrl = mapRoute(action_url);
-          handleActionUrl(mappedUrl, metadata);
-          return;
-        }
-
-        // Default navigation based on notification type
-        switch (notification_type) {
-          case 'study_reminder':
-            router.push('/(tabs)/courses' as any);
-            break;
-
-          case 'achievement_unlock':
-            router.push('/(tabs)/profile/achievements' as any);
-            break;
-
-          case 'duel_invitation':
-            if (metadata?.duel_id) {
-              router.push(`/duels/${metadata.duel_id}` as any);
-            } else {
-              router.push('/(tabs)/duels' as any);
-            }
-            break;
-
-          case 'duel_result':
-            if (metadata?.duel_id) {
-              router.push(`/(tabs)/duels/${metadata.duel_id}/result` as any);
-            } else {
-              router.push('/(tabs)/duels' as any);
-            }
-            break;
-
-          case 'friend_request':
-            router.push('/(tabs)/profile/friends' as any);
-            break;
-
-          case 'friend_activity':
-            if (metadata?.friend_id) {
-              router.push(
-                `/(tabs)/profile/friends/${metadata.friend_id}` as any,
-              );
-            } else {
-              router.push('/(tabs)/profile/friends' as any);
-            }
-            break;
-
-          case 'content_update':
-            if (metadata?.content_id) {
-              router.push(`/content/${metadata.content_id}` as any);
-            } else {
-              router.push('/(tabs)/courses' as any);
-            }
-            break;
-
-          case 'streak_reminder':
-            router.push('/study' as any);
-            break;
-
-          case 'plan_reminder':
-            if (metadata?.plan_id) {
-              router.push(`/study/plan/${metadata.plan_id}` as any);
-            } else {
-              router.push('/study/plan' as any);
-            }
-            break;
-
-          case 'coaching_note':
-            if (metadata?.note_id) {
-              router.push(`/coaching/${metadata.note_id}` as any);
-            } else {
-              router.push('/coaching' as any);
-            }
-            break;
-
-          case 'motivational_message':
-            router.push('/' as any);
-            break;
-
-          case 'system_announcement':
-            router.push('/(tabs)/notifications' as any);
-            break;
-
-          default:
-            router.push('/' as any);
-            break;
-        }
-      };
-
       // Small delay to ensure app is ready when opened from notification
-      setTimeout(performNavigation, 500);
+      setTimeout(() => {
+        router.push(getNotificationDeepLink(notification));
+      }, 500);
     },
-    [mapRoute],
+    [getNotificationDeepLink],
   );
 
-  const handleActionUrl = useCallback(
-    (actionUrl: string, metadata?: Record<string, any>) => {
-      try {
-        const cleanUrl = actionUrl.startsWith('/')
-          ? actionUrl
-          : `/${actionUrl}`;
-
-        router.push(cleanUrl as any);
-      } catch (error) {
-        // Fallback to home on error
-        router.push('/' as any);
+  // Unknown URLs are still pushed so the +not-found screen explains the
+  // broken link instead of silently doing nothing
+  const handleActionUrl = useCallback((actionUrl: string) => {
+    try {
+      const resolved = resolveRoute(actionUrl);
+      if (resolved) {
+        router.push(resolved.href);
+      } else {
+        console.warn('🧭 Unknown route:', actionUrl);
+        router.push(
+          (actionUrl.startsWith('/') ? actionUrl : `/${actionUrl}`) as Href,
+        );
       }
-    },
-    [],
-  );
+    } catch (error) {
+      // Fallback to home on error
+      router.push(buildRoute('home'));
+    }
+  }, []);
 
-  const getNotificationDeepLink = useCallback(
-    (notification: Notification): string => {
-      const { notification_type, metadata } = notification;
-
-      switch (notification_type) {
-        case 'duel_invitation':
-        case 'duel_result':
-          return metadata?.duel_id
-            ? `/(tabs)/duels/${metadata.duel_id}`
-            : '/(tabs)/duels';
-
-        case 'achievement_unlock':
-          return '/(tabs)/profile/achievements';
-
-        case 'friend_request':
-        case 'friend_activity':
-          return metadata?.friend_id
-            ? `/(tabs)/profile/friends/${metadata.friend_id}`
-            : '/(tabs)/profile/friends';
-
-        case 'plan_reminder':
-          return metadata?.plan_id
-            ? `/study/plan/${metadata.plan_id}`
-            : '/study/plan';
-
-        case 'coaching_note':
-          return metadata?.note_id
-            ? `/coaching/${metadata.note_id}`
-            : '/coaching';
-
-        case 'content_update':
-          return metadata?.content_id
-            ? `/content/${metadata.content_id}`
-            : '/(tabs)/courses';
-
-        case 'study_reminder':
-        case 'streak_reminder':
-          return '/(tabs)/courses';
-
-        case 'motivational_message':
-          return '/';
-
-        case 'system_announcement':
-          return '/(tabs)/notifications';
-
-        default:
-          return '/';
-      }
+  const navigateWithParams = useCallback(
+    (path: string, params?: RouteQuery) => {
+      const searchParams = new URLSearchParams();
+      Object.entries(params || {}).forEach(([key, value]) => {
+        if (value !== undefined && value !== null) {
+          searchParams.append(key, String(value));
+        }
+      });
+      const query = searchParams.toString();
+      handleActionUrl(query ? `${path}?${query}` : path);
     },
-    [],
+    [handleActionUrl],
   );
 
-  const navigateWithParams = useCallback(
-    (path: string, params?: Record<string, any>) => {
+  const safeNavigate = useCallback(
+    (route: string, fallback: Href = buildRoute('home')) => {
+      const resolved = resolveRoute(route);
       try {
-        if (params && Object.keys(params).length > 0) {
-          const searchParams = new URLSearchParams();
-          Object.entries(params).forEach(([key, value]) => {
-            searchParams.append(key, String(value));
-          });
-          router.push(`${path}?${searchParams.toString()}` as any);
-        } else {
-          router.push(path as any);
-        }
+        router.push(resolved ? resolved.href : fallback);
       } catch (error) {
-        router.push('/' as any);
+        router.push(fallback);
       }
     },
     [],
   );
 
-  const safeNavigate = useCallback((route: string, fallback: string = '/') => {
-    try {
-      router.push(route as any);
-    } catch (error) {
-      router.push(fallback as any);
-    }
-  }, []);
-
   return {
     navigateFromNotification,
     handleActionUrl,
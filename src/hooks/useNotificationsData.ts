@@ -34,10 +34,11 @@ import {
   isNotificationTypeEnabled,
   getNotificationIcon,
   getNotificationColor,
-  getTurkishNotificationTypeName,
+  getNotificationTypeName,
   formatNotificationTime,
   getNotificationPriority,
 } from '../api/notificationService';
+import { isQueuedRequestError } from '../api/apiClient';
 import type {
   Notification,
   NotificationResponse,
@@ -51,13 +52,15 @@ import type {
   CourseNotificationData,
   DeviceToken,
 } from '../types/models';
+import { useLanguage } from '../../stores/appStore';
+import { translate } from '../../localization';
 
 // Enhanced types for notifications data
 export interface NotificationListItem extends Notification {
   formattedTime: string;
   iconName: string;
   color: string;
-  turkishTypeName: string;
+  typeName: string;
   isCourseRelated: boolean;
   courseData?: CourseNotificationData | null;
   formattedBody: string;
@@ -91,8 +94,11 @@ export function useNotifications(
   unreadOnly: boolean = false,
   filters?: NotificationFilters,
 ) {
+  // Type names and relative times are localized while processing
+  const { language } = useLanguage();
+
   return useQuery({
-    queryKey: ['notifications', limit, offset, unreadOnly, filters],
+    queryKey: ['notifications', limit, offset, unreadOnly, filters, language],
     queryFn: async (): Promise<{
       notifications: NotificationListItem[];
       total: number;
@@ -119,9 +125,7 @@ export function useNotifications(
               formattedTime: formatNotificationTime(notification.created_at),
               iconName: getNotificationIcon(notification.notification_type),
               color: getNotificationColor(notification.notification_type),
-              turkishTypeName: getTurkishNotificationTypeName(
-                notification.notification_type,
-              ),
+              typeName: getNotificationTypeName(notification.notification_type),
               priority: getNotificationPriority(notification.notification_type),
               isCourseRelated,
               courseData,
@@ -322,7 +326,27 @@ export function useNotificationMutations() {
         queryKey: ['notifications-unread-count'],
       });
     },
-    onError: (error) => {
+    onError: (error, notificationId) => {
+      if (isQueuedRequestError(error)) {
+        // Queued offline - show it as read until the request is replayed
+        queryClient.setQueriesData<{
+          notifications: NotificationListItem[];
+          total: number;
+          hasMore: boolean;
+        }>(
+          { queryKey: ['notifications'] },
+          (data) =>
+            data && {
+              ...data,
+              notifications: data.notifications.map((notification) =>
+                notification.notification_id === notificationId
+                  ? { ...notification, is_read: true }
+                  : notification,
+              ),
+            },
+        );
+        return;
+      }
       console.error('❌ Error marking notification as read:', error);
       Alert.alert(
         'Hata',
@@ -952,7 +976,7 @@ export const notificationHelpers = {
       isRead: notification.is_read,
       icon: notification.iconName,
       color: notification.color,
-      type: notification.turkishTypeName,
+      type: notification.typeName,
       priority: notification.priority,
       isCourseRelated: notification.isCourseRelated,
       courseData: notification.courseData,
@@ -980,10 +1004,10 @@ export const notificationHelpers = {
 
   // Get frequency display text
   getFrequencyText: (hours: number) => {
-    if (hours === 1) return 'Saatte bir';
-    if (hours === 24) return 'Günde bir';
-    if (hours === 168) return 'Haftada bir';
-    return `${hours} saatte bir`;
+    if (hours === 1) return translate('notificationSettings.everyHour');
+    if (hours === 24) return translate('notificationSettings.everyDay');
+    if (hours === 168) return translate('notificationSettings.everyWeek');
+    return translate('notificationSettings.everyHours', { hours });
   },
 
   // Create test notification request
@@ -0,0 +1,329 @@
+// src/hooks/usePracticeTestsData.ts - Solo practice tests built on testService
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import {
+  getTestsFiltered,
+  getTestWithQuestions,
+  submitTestResult,
+  type TestWithQuestionsPayload,
+} from '../api/testService';
+import {
+  createBatchAnswers,
+  type CreateAnswerInput,
+} from '../api/answerService';
+import { getTopicsByCourse } from '../api/courseService';
+import { useAuth, useBookmarks } from '../../stores/appStore';
+import { translate } from '../../localization';
+import type { Test, Topic, Question, TestResult } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface PracticeTestFilters {
+  courseId?: number;
+  topicId?: number;
+  difficultyLevel?: number;
+}
+
+export interface PracticeAnswer {
+  questionId: number;
+  selectedAnswer: string | null;
+  isCorrect: boolean;
+  timeSpent: number; // seconds
+}
+
+export interface PracticeTestSummary {
+  testId: number;
+  totalQuestions: number;
+  correctCount: number;
+  incorrectCount: number;
+  unansweredCount: number;
+  score: number; // percentage 0-100
+  timeTaken: number; // seconds
+  answers: PracticeAnswer[];
+}
+
+// Route id used by the player for the bookmarked-questions practice set
+export const BOOKMARK_PRACTICE_SET_ID = 'bookmarks';
+
+export interface PracticeSubmissionResult {
+  testResult: TestResult;
+  savedAnswerCount: number;
+}
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 TEST BROWSER HOOK - filtered by course / topic
+export function usePracticeTests(filters: PracticeTestFilters) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: [
+      'practice-tests',
+      filters.courseId ?? null,
+      filters.topicId ?? null,
+      filters.difficultyLevel ?? null,
+    ],
+    queryFn: async (): Promise<Test[]> => {
+      console.log('📝 Fetching practice tests with filters:', filters);
+      const tests = await getTestsFiltered(filters);
+      console.log('✅ Practice tests fetched:', tests.length);
+      return tests;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 COURSE TOPICS HOOK - used for the topic filter chips
+export function useCourseTopics(courseId?: number | null) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: ['course-topics', courseId ?? null],
+    queryFn: async (): Promise<Topic[]> => {
+      if (!courseId) return [];
+      try {
+        const response = await getTopicsByCourse(courseId);
+        return [...(response.topics || [])].sort(
+          (a, b) => (a.order_index || 0) - (b.order_index || 0),
+        );
+      } catch (error) {
+        console.error('❌ Error fetching course topics:', error);
+        return [];
+      }
+    },
+    enabled: isAuthenticated && !authLoading && !!courseId,
+    staleTime: 30 * 60 * 1000, // 30 minutes - topics rarely change
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+  });
+}
+
+// 🚀 SINGLE TEST HOOK - test with its questions for the player
+export function usePracticeTest(testId: number) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: ['practice-test', testId],
+    queryFn: async (): Promise<TestWithQuestionsPayload | null> => {
+      console.log('📖 Fetching practice test with questions:', testId);
+      return getTestWithQuestions(testId);
+    },
+    enabled: isAuthenticated && !authLoading && !!testId && !isNaN(testId),
+    staleTime: 10 * 60 * 1000, // 10 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 BOOKMARK SET HOOK - saved questions served as a local, untimed test
+export function useBookmarkPracticeSet(
+  courseId?: number | null,
+): TestWithQuestionsPayload | null {
+  const { bookmarks } = useBookmarks();
+
+  return useMemo(() => {
+    const selected = bookmarks.filter(
+      (b) => !courseId || b.course_id === courseId,
+    );
+    if (selected.length === 0) return null;
+
+    return {
+      test_id: 0,
+      title: translate('practiceTests.bookmarks'),
+      description:
+        selected[0].course_title && courseId
+          ? translate('practiceTests.bookmarkSetCourse', {
+              course: selected[0].course_title,
+            })
+          : translate('practiceTests.bookmarkSetAll'),
+      question_count: selected.length,
+      time_limit: 0,
+      course_id: courseId || 0,
+      created_at: new Date().toISOString(),
+      questions: selected.map((b) => ({
+        question_id: b.question_id,
+        test_id: b.test_id || 0,
+        question_text: b.question_text,
+        options: b.options,
+        correct_answer: b.correct_answer,
+        explanation: b.explanation || undefined,
+        created_at: b.bookmarked_at,
+      })),
+    };
+  }, [bookmarks, courseId]);
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 SUBMISSION HOOK - posts the result first, then the individual answers
+export function usePracticeTestSubmission() {
+  const queryClient = useQueryClient();
+
+  const submitMutation = useMutation({
+    mutationFn: async (
+      summary: PracticeTestSummary,
+    ): Promise<PracticeSubmissionResult> => {
+      const { testResult } = await submitTestResult({
+        testId: summary.testId,
+        score: summary.score,
+        timeTaken: summary.timeTaken,
+        answers: summary.answers
+          .filter((a) => a.selectedAnswer !== null)
+          .map((a) => ({
+            questionId: a.questionId,
+            userAnswer: a.selectedAnswer as string,
+            isCorrect: a.isCorrect,
+          })),
+      });
+
+      const answerInputs: CreateAnswerInput[] = summary.answers
+        .filter((a) => a.selectedAnswer !== null)
+        .map((a) => ({
+          resultId: testResult.result_id,
+          questionId: a.questionId,
+          userAnswer: a.selectedAnswer as string,
+          isCorrect: a.isCorrect,
+          timeSpent: a.timeSpent,
+        }));
+
+      // Answers are best-effort: the result itself is already stored
+      let savedAnswerCount = 0;
+      if (answerInputs.length > 0) {
+        try {
+          const batch = await createBatchAnswers(answerInputs);
+          savedAnswerCount = batch.answers?.length || answerInputs.length;
+        } catch (error) {
+          console.warn('⚠️ Failed to save practice answers:', error);
+        }
+      }
+
+      return { testResult, savedAnswerCount };
+    },
+    onSuccess: async () => {
+      console.log('✅ Practice test submitted successfully');
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: ['practice-tests'] }),
+        queryClient.invalidateQueries({ queryKey: ['performance-data'] }),
+      ]);
+    },
+    onError: (error) => {
+      console.error('❌ Error submitting practice test:', error);
+    },
+  });
+
+  const submit = useCallback(
+    (summary: PracticeTestSummary) => submitMutation.mutateAsync(summary),
+    [submitMutation.mutateAsync],
+  );
+
+  return {
+    submit,
+    isSubmitting: submitMutation.isPending,
+    submitError: submitMutation.error,
+    submission: submitMutation.data || null,
+    reset: submitMutation.reset,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+// Backend sends correct_answer either as the option key ("A") or as the option text
+const resolveCorrectOptionKey = (
+  question: Pick<Question, 'options' | 'correct_answer'>,
+): string | null => {
+  const options = question.options || {};
+  if (question.correct_answer in options) {
+    return question.correct_answer;
+  }
+  const match = Object.entries(options).find(
+    ([, value]) => String(value) === question.correct_answer,
+  );
+  return match ? match[0] : null;
+};
+
+const buildSummary = (
+  testId: number,
+  questions: Question[],
+  selections: Record<number, string | null>,
+  timeSpent: Record<number, number>,
+  timeTaken: number,
+): PracticeTestSummary => {
+  const answers: PracticeAnswer[] = questions.map((question) => {
+    const selectedAnswer = selections[question.question_id] ?? null;
+    return {
+      questionId: question.question_id,
+      selectedAnswer,
+      isCorrect:
+        selectedAnswer !== null &&
+        selectedAnswer === resolveCorrectOptionKey(question),
+      timeSpent: Math.round(timeSpent[question.question_id] || 0),
+    };
+  });
+
+  const correctCount = answers.filter((a) => a.isCorrect).length;
+  const unansweredCount = answers.filter(
+    (a) => a.selectedAnswer === null,
+  ).length;
+
+  return {
+    testId,
+    totalQuestions: questions.length,
+    correctCount,
+    incorrectCount: questions.length - correctCount - unansweredCount,
+    unansweredCount,
+    score:
+      questions.length > 0
+        ? Math.round((correctCount / questions.length) * 100)
+        : 0,
+    timeTaken: Math.round(timeTaken),
+    answers,
+  };
+};
+
+// time_limit is stored in minutes; 0 or missing means the test is untimed
+const getTimeLimitSeconds = (test?: Pick<Test, 'time_limit'> | null): number =>
+  test?.time_limit && test.time_limit > 0 ? test.time_limit * 60 : 0;
+
+const formatClock = (totalSeconds: number): string => {
+  const safeSeconds = Math.max(0, Math.floor(totalSeconds));
+  const minutes = Math.floor(safeSeconds / 60);
+  const seconds = safeSeconds % 60;
+  return `${minutes.toString().padStart(2, '0')}:${seconds
+    .toString()
+    .padStart(2, '0')}`;
+};
+
+const getDifficultyText = (level?: number): string => {
+  if (!level) return translate('difficulty.unspecified');
+  if (level >= 4) return translate('difficulty.veryHard');
+  if (level >= 3) return translate('difficulty.hard');
+  if (level >= 2) return translate('difficulty.medium');
+  return translate('difficulty.easy');
+};
+
+const getScoreMessage = (score: number): string => {
+  if (score >= 90) return translate('practiceTests.scoreExcellent');
+  if (score >= 70) return translate('practiceTests.scoreGreat');
+  if (score >= 50) return translate('practiceTests.scoreOk');
+  return translate('practiceTests.scoreLow');
+};
+
+export const practiceTestHelpers = {
+  resolveCorrectOptionKey,
+  buildSummary,
+  getTimeLimitSeconds,
+  formatClock,
+  getDifficultyText,
+  getScoreMessage,
+};
@@ -0,0 +1,155 @@
+// src/hooks/useRatingData.ts - Elo ratings (overall and per course) and ranked tiers
+import { useCallback } from 'react';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+import { getMyRatings, getUserRatings } from '../api/ratingService';
+import { useAuth } from '../../stores/appStore';
+import type { TranslationKey } from '../../localization';
+import type { PlayerRating, RankedTier } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface RatingSnapshot {
+  rating: number;
+  gamesPlayed: number;
+}
+
+// A player's overall rating and, when a course is given, that course's rating
+export interface PlayerRatingSnapshot {
+  overall: RatingSnapshot;
+  course: RatingSnapshot | null;
+}
+
+export interface RankedTierInfo {
+  tier: RankedTier;
+  minRating: number;
+  labelKey: TranslationKey;
+}
+
+export const DEFAULT_RATING = 1200;
+
+// Ratings are provisional (and move faster) until a player has this many
+// rated duels
+export const PROVISIONAL_GAMES = 10;
+
+// Lowest tier first
+export const RANKED_TIERS: RankedTierInfo[] = [
+  { tier: 'bronze', minRating: 0, labelKey: 'ratings.tierBronze' },
+  { tier: 'silver', minRating: 1100, labelKey: 'ratings.tierSilver' },
+  { tier: 'gold', minRating: 1300, labelKey: 'ratings.tierGold' },
+  { tier: 'platinum', minRating: 1500, labelKey: 'ratings.tierPlatinum' },
+  { tier: 'diamond', minRating: 1700, labelKey: 'ratings.tierDiamond' },
+  { tier: 'master', minRating: 1900, labelKey: 'ratings.tierMaster' },
+];
+
+// Quick match starts with close opponents and widens the window while the
+// player waits; past the max anyone in the queue is fair game
+const QUEUE_RANGE_START = 100;
+const QUEUE_RANGE_STEP = 50;
+const QUEUE_RANGE_STEP_SECONDS = 10;
+const QUEUE_RANGE_MAX = 400;
+
+const RATING_KEYS = {
+  all: ['ratings'] as const,
+  mine: (userId?: number) => ['ratings', 'me', userId] as const,
+  user: (userId?: number) => ['ratings', 'user', userId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 MY RATINGS HOOK - overall rating plus one entry per rated course
+export function useMyRatings() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: RATING_KEYS.mine(user?.userId),
+    queryFn: async (): Promise<PlayerRating[]> => getMyRatings(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes - only changes after a duel
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 USER RATINGS HOOK - e.g. the opponent in a duel room
+export function useUserRatings(userId?: number) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: RATING_KEYS.user(userId),
+    queryFn: async (): Promise<PlayerRating[]> => getUserRatings(userId!),
+    enabled: isAuthenticated && !authLoading && !!userId,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 REFRESH HOOK - ratings are only written by the backend when a duel
+// completes, so the duel room just drops what it has cached
+export function useRefreshRatings() {
+  const queryClient = useQueryClient();
+
+  return useCallback(async () => {
+    await Promise.all([
+      queryClient.invalidateQueries({ queryKey: RATING_KEYS.all }),
+      queryClient.invalidateQueries({ queryKey: ['duel-leaderboard'] }),
+    ]);
+  }, [queryClient]);
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const getOverallRating = (ratings: PlayerRating[]): PlayerRating | null =>
+  ratings.find((rating) => rating.course_id === null) ?? null;
+
+const getCourseRating = (
+  ratings: PlayerRating[],
+  courseId: number,
+): PlayerRating | null =>
+  ratings.find((rating) => rating.course_id === courseId) ?? null;
+
+const toSnapshot = (rating: PlayerRating | null): RatingSnapshot => ({
+  rating: rating?.rating ?? DEFAULT_RATING,
+  gamesPlayed: rating?.games_played ?? 0,
+});
+
+// Unrated players start at DEFAULT_RATING for the course and overall
+const getSnapshot = (
+  ratings: PlayerRating[],
+  courseId: number | null,
+): PlayerRatingSnapshot => ({
+  overall: toSnapshot(getOverallRating(ratings)),
+  course: courseId ? toSnapshot(getCourseRating(ratings, courseId)) : null,
+});
+
+const isProvisional = (gamesPlayed: number): boolean =>
+  gamesPlayed < PROVISIONAL_GAMES;
+
+const getTier = (rating: number): RankedTierInfo =>
+  [...RANKED_TIERS]
+    .reverse()
+    .find((tierInfo) => rating >= tierInfo.minRating) ?? RANKED_TIERS[0];
+
+// Rating window (+/-) to search within after `timeInQueue` seconds;
+// null once the queue should match anyone
+const getQueueRatingRange = (timeInQueue: number): number | null => {
+  const range =
+    QUEUE_RANGE_START +
+    Math.floor(timeInQueue / QUEUE_RANGE_STEP_SECONDS) * QUEUE_RANGE_STEP;
+  return range > QUEUE_RANGE_MAX ? null : range;
+};
+
+export const ratingHelpers = {
+  getOverallRating,
+  getCourseRating,
+  getSnapshot,
+  isProvisional,
+  getTier,
+  getQueueRatingRange,
+};
@@ -0,0 +1,362 @@
+// src/hooks/useReviewDeckData.ts - Mistake notebook with SM-2 style spaced repetition
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import { useCallback, useMemo } from 'react';
+import {
+  getReviewQuestions,
+  getIncorrectAnswers,
+} from '../api/userQuestionHistoryService';
+import {
+  createAnswer,
+  getIncorrectAnswersWithExplanations,
+} from '../api/answerService';
+import { loadReviewSchedule, saveReviewSchedule } from '../api/offlineStorage';
+import { useAuth } from '../../stores/appStore';
+import { translate } from '../../localization';
+import type {
+  ReviewCardSchedule,
+  ReviewQuestion,
+  ReviewSchedule,
+} from '../types/models';
+
+export type { ReviewCardSchedule, ReviewSchedule } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+// SM-2 quality grade: 0-2 = failed recall, 3 = hard, 4 = good, 5 = easy
+export type ReviewGrade = 0 | 1 | 2 | 3 | 4 | 5;
+
+export interface ReviewCard extends ReviewQuestion {
+  explanation: string | null;
+  schedule: ReviewCardSchedule | null;
+  isDue: boolean;
+}
+
+export interface ReviewDeckFilters {
+  courseId?: number | null;
+  topicId?: number | null;
+}
+
+export interface ReviewAttempt {
+  card: ReviewCard;
+  selectedAnswer: string;
+  isCorrect: boolean;
+  grade: ReviewGrade;
+  timeSpent: number; // seconds
+}
+
+const REVIEW_DECK_LIMIT = 100;
+const DEFAULT_EASE_FACTOR = 2.5;
+const MIN_EASE_FACTOR = 1.3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const REVIEW_DECK_KEYS = {
+  schedule: (userId?: number) => ['review-deck', 'schedule', userId] as const,
+  questions: ['review-deck', 'questions'] as const,
+};
+
+// ===============================
+// SM-2 SCHEDULING
+// ===============================
+
+// Classic SM-2 update step
+const applyGrade = (
+  questionId: number,
+  previous: ReviewCardSchedule | null,
+  grade: ReviewGrade,
+  now: Date = new Date(),
+): ReviewCardSchedule => {
+  const easeFactor = previous?.easeFactor ?? DEFAULT_EASE_FACTOR;
+  const repetitions = previous?.repetitions ?? 0;
+  const interval = previous?.interval ?? 0;
+
+  let nextRepetitions: number;
+  let nextInterval: number;
+
+  if (grade < 3) {
+    nextRepetitions = 0;
+    nextInterval = 1;
+  } else {
+    nextRepetitions = repetitions + 1;
+    if (nextRepetitions === 1) {
+      nextInterval = 1;
+    } else if (nextRepetitions === 2) {
+      nextInterval = 6;
+    } else {
+      nextInterval = Math.round(interval * easeFactor);
+    }
+  }
+
+  const nextEaseFactor = Math.max(
+    MIN_EASE_FACTOR,
+    easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02)),
+  );
+
+  return {
+    questionId,
+    easeFactor: Number(nextEaseFactor.toFixed(2)),
+    interval: nextInterval,
+    repetitions: nextRepetitions,
+    lapses: (previous?.lapses ?? 0) + (grade < 3 ? 1 : 0),
+    dueAt: new Date(now.getTime() + nextInterval * DAY_MS).toISOString(),
+    lastReviewedAt: now.toISOString(),
+  };
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 LOCAL SCHEDULE HOOK
+export function useReviewSchedule() {
+  const { user } = useAuth();
+  const userId = user?.userId;
+
+  return useQuery({
+    queryKey: REVIEW_DECK_KEYS.schedule(userId),
+    queryFn: async (): Promise<ReviewSchedule> =>
+      userId ? loadReviewSchedule(userId) : {},
+    enabled: !!userId,
+    staleTime: Infinity, // Only changes through this module
+    gcTime: Infinity,
+  });
+}
+
+// 🚀 DECK HOOK - missed questions merged with explanations and local schedule
+export function useReviewDeck(filters: ReviewDeckFilters = {}) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+  const { data: schedule = {}, isLoading: scheduleLoading } =
+    useReviewSchedule();
+
+  const questionsQuery = useQuery({
+    queryKey: REVIEW_DECK_KEYS.questions,
+    queryFn: async (): Promise<
+      Array<ReviewQuestion & { explanation: string | null }>
+    > => {
+      console.log('📒 Fetching review deck questions...');
+      const [reviewQuestions, incorrectAnswers, explained] = await Promise.all([
+        getReviewQuestions(undefined, undefined, REVIEW_DECK_LIMIT),
+        getIncorrectAnswers(undefined, undefined, REVIEW_DECK_LIMIT),
+        getIncorrectAnswersWithExplanations(REVIEW_DECK_LIMIT).catch(
+          (error) => {
+            console.warn('⚠️ Could not load answer explanations:', error);
+            return { incorrectAnswers: [], count: 0 };
+          },
+        ),
+      ]);
+
+      // Explanation payload has no question id, so match on question text
+      const explanationsByText = new Map<string, string>();
+      explained.incorrectAnswers.forEach((answer) => {
+        if (answer.explanation) {
+          explanationsByText.set(answer.question_text, answer.explanation);
+        }
+      });
+
+      const byQuestionId = new Map<number, ReviewQuestion>();
+      [...reviewQuestions, ...incorrectAnswers].forEach((question) => {
+        if (!byQuestionId.has(question.question_id)) {
+          byQuestionId.set(question.question_id, question);
+        }
+      });
+
+      const questions = Array.from(byQuestionId.values()).map((question) => ({
+        ...question,
+        explanation:
+          question.answer_explanation ||
+          explanationsByText.get(question.question_text) ||
+          null,
+      }));
+      console.log('✅ Review deck questions fetched:', questions.length);
+      return questions;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 15 * 60 * 1000, // 15 minutes
+    retry: 2,
+  });
+
+  const allCards = useMemo((): ReviewCard[] => {
+    const now = Date.now();
+    return (questionsQuery.data || []).map((question) => {
+      const cardSchedule = schedule[question.question_id] || null;
+      return {
+        ...question,
+        schedule: cardSchedule,
+        isDue: !cardSchedule || new Date(cardSchedule.dueAt).getTime() <= now,
+      };
+    });
+  }, [questionsQuery.data, schedule]);
+
+  // Filter options come straight from the ReviewQuestion fields
+  const courseOptions = useMemo(() => {
+    const courses = new Map<number, string>();
+    allCards.forEach((card) => courses.set(card.course_id, card.course_title));
+    return Array.from(courses, ([id, title]) => ({ id, title }));
+  }, [allCards]);
+
+  const topicOptions = useMemo(() => {
+    const topics = new Map<number, string>();
+    allCards
+      .filter(
+        (card) => !filters.courseId || card.course_id === filters.courseId,
+      )
+      .forEach((card) => {
+        if (card.topic_id) {
+          topics.set(
+            card.topic_id,
+            card.topic_title ||
+              translate('reviewDeck.topicFallback', { id: card.topic_id }),
+          );
+        }
+      });
+    return Array.from(topics, ([id, title]) => ({ id, title }));
+  }, [allCards, filters.courseId]);
+
+  const cards = useMemo(
+    () =>
+      allCards.filter(
+        (card) =>
+          (!filters.courseId || card.course_id === filters.courseId) &&
+          (!filters.topicId || card.topic_id === filters.topicId),
+      ),
+    [allCards, filters.courseId, filters.topicId],
+  );
+
+  // Due cards first: most overdue, then the most frequently missed
+  const dueCards = useMemo(
+    () =>
+      cards
+        .filter((card) => card.isDue)
+        .sort((a, b) => {
+          const aDue = a.schedule ? new Date(a.schedule.dueAt).getTime() : 0;
+          const bDue = b.schedule ? new Date(b.schedule.dueAt).getTime() : 0;
+          return aDue - bDue || b.mistake_count - a.mistake_count;
+        }),
+    [cards],
+  );
+
+  return {
+    cards,
+    dueCards,
+    courseOptions,
+    topicOptions,
+    isLoading: questionsQuery.isLoading || scheduleLoading,
+    error: questionsQuery.error,
+    refetch: questionsQuery.refetch,
+  };
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 GRADE HOOK - updates the local SM-2 schedule after each attempt
+export function useReviewGrading() {
+  const queryClient = useQueryClient();
+  const { user } = useAuth();
+  const userId = user?.userId;
+
+  const gradeMutation = useMutation({
+    mutationFn: async ({
+      questionId,
+      grade,
+    }: {
+      questionId: number;
+      grade: ReviewGrade;
+    }): Promise<ReviewSchedule> => {
+      if (!userId) throw new Error('Not signed in');
+      const current = await loadReviewSchedule(userId);
+      const next = {
+        ...current,
+        [questionId]: applyGrade(
+          questionId,
+          current[questionId] || null,
+          grade,
+        ),
+      };
+      await saveReviewSchedule(userId, next);
+      return next;
+    },
+    onSuccess: (schedule) => {
+      queryClient.setQueryData(REVIEW_DECK_KEYS.schedule(userId), schedule);
+    },
+    onError: (error) => {
+      console.error('❌ Error saving review schedule:', error);
+    },
+  });
+
+  const gradeCard = useCallback(
+    (questionId: number, grade: ReviewGrade) =>
+      gradeMutation.mutateAsync({ questionId, grade }),
+    [gradeMutation.mutateAsync],
+  );
+
+  return {
+    gradeCard,
+    isGrading: gradeMutation.isPending,
+  };
+}
+
+// 🚀 SESSION SYNC HOOK - each answer is saved on its own, without a test
+// result, so practice-test stats stay untouched
+export function useReviewSessionSync() {
+  const queryClient = useQueryClient();
+
+  const syncMutation = useMutation({
+    mutationFn: async (attempts: ReviewAttempt[]): Promise<number> => {
+      let savedCount = 0;
+      for (const attempt of attempts) {
+        try {
+          await createAnswer({
+            questionId: attempt.card.question_id,
+            userAnswer: attempt.selectedAnswer,
+            isCorrect: attempt.isCorrect,
+            timeSpent: attempt.timeSpent,
+          });
+          savedCount += 1;
+        } catch (error) {
+          console.warn('⚠️ Failed to save review answer:', error);
+        }
+      }
+      return savedCount;
+    },
+    onSuccess: async (savedCount) => {
+      console.log('✅ Review session synced, answers saved:', savedCount);
+      await Promise.all([
+        queryClient.invalidateQueries({ queryKey: REVIEW_DECK_KEYS.questions }),
+        queryClient.invalidateQueries({ queryKey: ['performance-data'] }),
+      ]);
+    },
+    onError: (error) => {
+      console.error('❌ Error syncing review session:', error);
+    },
+  });
+
+  return {
+    syncSession: syncMutation.mutateAsync,
+    isSyncing: syncMutation.isPending,
+    syncError: syncMutation.error,
+    savedCount: syncMutation.data ?? null,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const getNextReviewText = (schedule: ReviewCardSchedule | null): string => {
+  if (!schedule) return translate('reviewDeck.new');
+  const diffDays = Math.ceil(
+    (new Date(schedule.dueAt).getTime() - Date.now()) / DAY_MS,
+  );
+  if (diffDays <= 0) return translate('reviewDeck.today');
+  if (diffDays === 1) return translate('reviewDeck.tomorrow');
+  return translate('reviewDeck.inDays', { days: diffDays });
+};
+
+export const reviewDeckHelpers = {
+  applyGrade,
+  getNextReviewText,
+};
@@ -0,0 +1,285 @@
+// src/hooks/useStudyPlanData.ts - Study plans, templates and daily agenda
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getStudyPlans,
+  getActiveStudyPlan,
+  getStudyPlanProgress,
+  getRecommendedDailyTopics,
+  getStudyPlanTemplates,
+  getAvailableTopics,
+  createStudyPlan,
+  createPlanFromTemplate,
+  activateStudyPlan,
+  deactivateStudyPlan,
+  deleteStudyPlan,
+  type StudyPlanProgressPayload,
+  type DailyRecommendationPayload,
+  type StudyPlanTemplatePayload,
+} from '../api/studyPlanService';
+import { useAuth } from '../../stores/appStore';
+import { translate, getDateLocale } from '../../localization';
+import type { StudyPlan, Topic } from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface CustomStudyPlanInput {
+  name: string;
+  description: string;
+  topics: Array<{ topicId: number; priority: number }>;
+  startDate: string; // YYYY-MM-DD
+  endDate: string; // YYYY-MM-DD
+  dailyGoalMinutes: number;
+  dailyGoalQuestions: number;
+}
+
+export interface TemplatePlanInput {
+  templateId: number;
+  startDate: string; // YYYY-MM-DD
+}
+
+const STUDY_PLAN_KEYS = {
+  all: ['study-plans'] as const,
+  active: ['study-plans', 'active'] as const,
+  progress: (planId: number) => ['study-plans', 'progress', planId] as const,
+  templates: ['study-plans', 'templates'] as const,
+  daily: ['study-plans', 'daily-recommendations'] as const,
+  topics: ['study-plans', 'available-topics'] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 ALL PLANS HOOK
+export function useStudyPlans() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.all,
+    queryFn: async (): Promise<StudyPlan[]> => {
+      console.log('📅 Fetching study plans...');
+      const plans = await getStudyPlans();
+      console.log('✅ Study plans fetched:', plans.length);
+      return plans;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 ACTIVE PLAN HOOK
+export function useActiveStudyPlan() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.active,
+    queryFn: async (): Promise<StudyPlan | null> => getActiveStudyPlan(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 PLAN PROGRESS HOOK - per topic completion for a plan
+export function useStudyPlanProgress(planId?: number | null) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.progress(planId || 0),
+    queryFn: async (): Promise<StudyPlanProgressPayload> =>
+      getStudyPlanProgress(planId as number),
+    enabled: isAuthenticated && !authLoading && !!planId,
+    staleTime: 2 * 60 * 1000, // 2 minutes - progress changes as the user studies
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 DAILY AGENDA HOOK - today's recommended topics
+export function useDailyRecommendations() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.daily,
+    queryFn: async (): Promise<DailyRecommendationPayload[]> => {
+      try {
+        const recommendations = await getRecommendedDailyTopics();
+        return [...recommendations].sort(
+          (a, b) => (a.priority ?? 99) - (b.priority ?? 99),
+        );
+      } catch (error) {
+        console.error('❌ Error fetching daily recommendations:', error);
+        return [];
+      }
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 15 * 60 * 1000, // 15 minutes
+    gcTime: 30 * 60 * 1000, // 30 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 TEMPLATES HOOK
+export function useStudyPlanTemplates() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.templates,
+    queryFn: async (): Promise<StudyPlanTemplatePayload[]> =>
+      getStudyPlanTemplates(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 60 * 60 * 1000, // 1 hour - templates rarely change
+    gcTime: 2 * 60 * 60 * 1000, // 2 hours
+    retry: 1,
+  });
+}
+
+// 🚀 AVAILABLE TOPICS HOOK - topic picker for custom plans
+export function useAvailableTopics(enabled: boolean = true) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: STUDY_PLAN_KEYS.topics,
+    queryFn: async (): Promise<Topic[]> => getAvailableTopics(),
+    enabled: isAuthenticated && !authLoading && enabled,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 1,
+  });
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 PLAN MUTATIONS - create / activate / deactivate / delete
+export function useStudyPlanMutations() {
+  const queryClient = useQueryClient();
+
+  const invalidatePlans = () =>
+    queryClient.invalidateQueries({ queryKey: STUDY_PLAN_KEYS.all });
+
+  const createCustomMutation = useMutation({
+    mutationFn: (input: CustomStudyPlanInput) =>
+      createStudyPlan(
+        input.name,
+        input.description,
+        input.topics,
+        input.startDate,
+        input.endDate,
+        input.dailyGoalMinutes,
+        input.dailyGoalQuestions,
+      ),
+    onSuccess: (plan) => {
+      console.log('✅ Study plan created:', plan.plan_id);
+      invalidatePlans();
+    },
+    onError: (error) => {
+      console.error('❌ Error creating study plan:', error);
+    },
+  });
+
+  const createFromTemplateMutation = useMutation({
+    mutationFn: ({ templateId, startDate }: TemplatePlanInput) =>
+      createPlanFromTemplate(templateId, startDate),
+    onSuccess: (plan) => {
+      console.log('✅ Study plan created from template:', plan.plan_id);
+      invalidatePlans();
+    },
+    onError: (error) => {
+      console.error('❌ Error creating plan from template:', error);
+    },
+  });
+
+  const activateMutation = useMutation({
+    mutationFn: (planId: number) => activateStudyPlan(planId),
+    onSuccess: () => invalidatePlans(),
+    onError: (error) => {
+      console.error('❌ Error activating study plan:', error);
+    },
+  });
+
+  const deactivateMutation = useMutation({
+    mutationFn: (planId: number) => deactivateStudyPlan(planId),
+    onSuccess: () => invalidatePlans(),
+    onError: (error) => {
+      console.error('❌ Error deactivating study plan:', error);
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: (planId: number) => deleteStudyPlan(planId),
+    onSuccess: () => invalidatePlans(),
+    onError: (error) => {
+      console.error('❌ Error deleting study plan:', error);
+    },
+  });
+
+  return {
+    createCustomPlan: createCustomMutation.mutateAsync,
+    createFromTemplate: createFromTemplateMutation.mutateAsync,
+    activatePlan: activateMutation.mutateAsync,
+    deactivatePlan: deactivateMutation.mutateAsync,
+    deletePlan: deleteMutation.mutateAsync,
+
+    isCreating:
+      createCustomMutation.isPending || createFromTemplateMutation.isPending,
+    isUpdating:
+      activateMutation.isPending ||
+      deactivateMutation.isPending ||
+      deleteMutation.isPending,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const toDateInputValue = (date: Date): string => {
+  const month = (date.getMonth() + 1).toString().padStart(2, '0');
+  const day = date.getDate().toString().padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+};
+
+const addDays = (dateValue: string, days: number): string => {
+  const date = new Date(`${dateValue}T00:00:00`);
+  date.setDate(date.getDate() + days);
+  return toDateInputValue(date);
+};
+
+// Accepts YYYY-MM-DD only and rejects impossible dates such as 2025-02-30
+const isValidDateInput = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00`);
+  return !isNaN(date.getTime()) && toDateInputValue(date) === value;
+};
+
+const formatPlanDate = (value?: string | null): string => {
+  if (!value) return '-';
+  const date = new Date(value);
+  if (isNaN(date.getTime())) return value;
+  return date.toLocaleDateString(getDateLocale(), {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+  });
+};
+
+const getPriorityText = (priority?: number): string => {
+  if (priority === 1) return translate('studyPlans.priorityHigh');
+  if (priority === 2) return translate('studyPlans.priorityMedium');
+  return translate('studyPlans.priorityLow');
+};
+
+export const studyPlanHelpers = {
+  toDateInputValue,
+  addDays,
+  isValidDateInput,
+  formatPlanDate,
+  getPriorityText,
+};
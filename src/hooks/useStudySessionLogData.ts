@@ -0,0 +1,298 @@
+// src/hooks/useStudySessionLogData.ts - Manually logged, edited and deleted study sessions
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getUserStudySessions,
+  logStudySession,
+  updateStudySession,
+  deleteStudySession,
+} from '../api/studyService';
+import type {
+  CourseStudySession,
+  ManualStudySessionRequest,
+} from '../api/studyService';
+import { useAuth } from '../../stores/appStore';
+import { studyPlanHelpers } from './useStudyPlanData';
+import type { TranslationKey } from '../../localization';
+
+// ===============================
+// TYPES
+// ===============================
+
+// Raw input of the add/edit form
+export interface StudySessionForm {
+  courseId: number | null;
+  date: string; // YYYY-MM-DD
+  startTime: string; // HH:MM
+  endTime: string; // HH:MM
+  breakMinutes: string;
+  notes: string;
+}
+
+export type StudySessionValidation =
+  | { isValid: true; request: ManualStudySessionRequest }
+  | {
+      isValid: false;
+      error: TranslationKey;
+      conflict?: CourseStudySession;
+    };
+
+// Sessions loaded for the list and for the overlap check
+export const SESSION_LOG_LIMIT = 100;
+
+// Longer entries are almost certainly typos
+const MAX_SESSION_HOURS = 16;
+
+// Everything derived from study time that a manual change makes stale
+const STUDY_TIME_QUERY_KEYS = [
+  ['study-session-log'],
+  ['recent-sessions'],
+  ['course-sessions'],
+  ['courses-overview'],
+  ['analytics-data'],
+  ['analytics-period'],
+  ['analytics-heatmap'],
+  ['analytics-top-courses'],
+  ['user-achievements'],
+];
+
+const SESSION_LOG_KEYS = {
+  sessions: (userId?: number) => ['study-session-log', userId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 STUDY SESSION LOG HOOK - recent sessions, newest first
+export function useStudySessionLog() {
+  const { user, isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: SESSION_LOG_KEYS.sessions(user?.userId),
+    queryFn: async (): Promise<CourseStudySession[]> => {
+      const response = await getUserStudySessions(1, SESSION_LOG_LIMIT);
+      return [...response.sessions].sort((a, b) =>
+        b.startTime.localeCompare(a.startTime),
+      );
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 2 * 60 * 1000, // 2 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 SAVE STUDY SESSION MUTATION - logs a new session or edits an existing one
+export function useSaveStudySession() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: ({
+      sessionId,
+      request,
+    }: {
+      sessionId: number | null;
+      request: ManualStudySessionRequest;
+    }) =>
+      sessionId
+        ? updateStudySession(sessionId, request)
+        : logStudySession(request),
+    onSuccess: (response) => {
+      console.log('✅ Study session saved:', response.session.sessionId);
+      invalidateStudyTimeQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Error saving study session:', error);
+    },
+  });
+
+  return {
+    saveSession: mutation.mutateAsync,
+    isSaving: mutation.isPending,
+  };
+}
+
+// 🚀 DELETE STUDY SESSION MUTATION
+export function useDeleteStudySession() {
+  const queryClient = useQueryClient();
+
+  const mutation = useMutation({
+    mutationFn: (session: CourseStudySession) => deleteStudySession(session),
+    onSuccess: (_response, session) => {
+      console.log('✅ Study session deleted:', session.sessionId);
+      invalidateStudyTimeQueries(queryClient);
+    },
+    onError: (error) => {
+      console.error('❌ Error deleting study session:', error);
+    },
+  });
+
+  return {
+    deleteSession: mutation.mutateAsync,
+    isDeleting: mutation.isPending,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const { toDateInputValue, isValidDateInput } = studyPlanHelpers;
+
+const invalidateStudyTimeQueries = (
+  queryClient: ReturnType<typeof useQueryClient>,
+) => {
+  STUDY_TIME_QUERY_KEYS.forEach((queryKey) =>
+    queryClient.invalidateQueries({ queryKey }),
+  );
+};
+
+const toTimeInputValue = (date: Date): string =>
+  `${date.getHours().toString().padStart(2, '0')}:${date
+    .getMinutes()
+    .toString()
+    .padStart(2, '0')}`;
+
+const isValidTimeInput = (value: string): boolean =>
+  /^([01]\d|2[0-3]):[0-5]\d$/.test(value);
+
+// Local date and time inputs to a Date; null when either is malformed
+const combineDateTime = (date: string, time: string): Date | null => {
+  if (!isValidDateInput(date) || !isValidTimeInput(time)) return null;
+  return new Date(`${date}T${time}:00`);
+};
+
+// Start and end of the session in the form; an end time earlier than the
+// start time is on the next day (23:00 – 01:00)
+const getSessionRange = (
+  form: Pick<StudySessionForm, 'date' | 'startTime' | 'endTime'>,
+): { start: Date; end: Date } | null => {
+  const start = combineDateTime(form.date, form.startTime);
+  const end = combineDateTime(form.date, form.endTime);
+  if (!start || !end) return null;
+  if (end.getTime() < start.getTime()) end.setDate(end.getDate() + 1);
+  return { start, end };
+};
+
+const createSessionForm = (
+  courseId: number | null = null,
+  now: Date = new Date(),
+): StudySessionForm => ({
+  courseId,
+  date: toDateInputValue(now),
+  startTime: '',
+  endTime: '',
+  breakMinutes: '0',
+  notes: '',
+});
+
+const sessionToForm = (session: CourseStudySession): StudySessionForm => {
+  const start = new Date(session.startTime);
+  const end = session.endTime ? new Date(session.endTime) : null;
+  return {
+    courseId: session.courseId,
+    date: toDateInputValue(start),
+    startTime: toTimeInputValue(start),
+    endTime: end ? toTimeInputValue(end) : '',
+    breakMinutes: Math.round(
+      (session.breakDurationSeconds ?? 0) / 60,
+    ).toString(),
+    notes: session.notes ?? '',
+  };
+};
+
+// First other session sharing any time with the range; a running session
+// occupies everything up to now
+const findOverlappingSession = (
+  sessions: CourseStudySession[],
+  start: Date,
+  end: Date,
+  ignoreSessionId: number | null = null,
+  now: Date = new Date(),
+): CourseStudySession | null =>
+  sessions.find((session) => {
+    if (session.sessionId === ignoreSessionId) return false;
+    const sessionStart = new Date(session.startTime).getTime();
+    const sessionEnd = session.endTime
+      ? new Date(session.endTime).getTime()
+      : now.getTime();
+    return sessionStart < end.getTime() && sessionEnd > start.getTime();
+  }) ?? null;
+
+// Checks the form against the rules the server enforces as well, so most
+// mistakes are caught before a request is made
+const validateSessionForm = (
+  form: StudySessionForm,
+  sessions: CourseStudySession[],
+  editingSessionId: number | null = null,
+  now: Date = new Date(),
+): StudySessionValidation => {
+  if (!form.courseId) {
+    return { isValid: false, error: 'studySessions.courseRequired' };
+  }
+  if (!isValidDateInput(form.date)) {
+    return { isValid: false, error: 'studySessions.invalidDate' };
+  }
+
+  const range = getSessionRange(form);
+  if (!range) {
+    return { isValid: false, error: 'studySessions.invalidTime' };
+  }
+  const { start, end } = range;
+  if (end.getTime() === start.getTime()) {
+    return { isValid: false, error: 'studySessions.endBeforeStart' };
+  }
+  if (end.getTime() > now.getTime()) {
+    return { isValid: false, error: 'studySessions.inFuture' };
+  }
+
+  const durationSeconds = (end.getTime() - start.getTime()) / 1000;
+  if (durationSeconds > MAX_SESSION_HOURS * 60 * 60) {
+    return { isValid: false, error: 'studySessions.tooLong' };
+  }
+
+  const breakMinutes = Number(form.breakMinutes.trim() || '0');
+  if (!Number.isInteger(breakMinutes) || breakMinutes < 0) {
+    return { isValid: false, error: 'studySessions.invalidBreak' };
+  }
+  if (breakMinutes * 60 >= durationSeconds) {
+    return { isValid: false, error: 'studySessions.breakTooLong' };
+  }
+
+  const conflict = findOverlappingSession(
+    sessions,
+    start,
+    end,
+    editingSessionId,
+    now,
+  );
+  if (conflict) {
+    return { isValid: false, error: 'studySessions.overlap', conflict };
+  }
+
+  return {
+    isValid: true,
+    request: {
+      courseId: form.courseId,
+      startTime: start.toISOString(),
+      endTime: end.toISOString(),
+      breakDurationSeconds: breakMinutes * 60,
+      notes: form.notes.trim() || undefined,
+    },
+  };
+};
+
+export const studySessionLogHelpers = {
+  toTimeInputValue,
+  isValidTimeInput,
+  combineDateTime,
+  getSessionRange,
+  createSessionForm,
+  sessionToForm,
+  findOverlappingSession,
+  validateSessionForm,
+};
@@ -0,0 +1,354 @@
+// src/hooks/useSubscriptionData.ts - Plans, usage, promo codes and checkout
+import { useCallback, useRef, useState } from 'react';
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import * as WebBrowser from 'expo-web-browser';
+import * as Linking from 'expo-linking';
+import {
+  getActiveSubscription,
+  getSubscriptionPlans,
+  getSubscriptionUsage,
+  initiatePayment,
+  verifyPayment,
+  applyPromoCode,
+  type ActiveSubscriptionPayload,
+  type SubscriptionPlanPayload,
+  type SubscriptionUsagePayload,
+} from '../api/subscriptionService';
+import { isPremiumUser } from '../api/userService';
+import { useAuth } from '../../stores/appStore';
+import { translate, type TranslationKey } from '../../localization';
+
+// ===============================
+// TYPES
+// ===============================
+
+export type CheckoutStatus =
+  'idle' | 'opening' | 'verifying' | 'success' | 'cancelled' | 'failed';
+
+export interface CheckoutState {
+  status: CheckoutStatus;
+  planId: number | null;
+  message: string | null;
+}
+
+export interface PromoDiscount {
+  code: string;
+  discountPercent?: number;
+  discountAmount?: number;
+  message: string;
+}
+
+export interface FeatureUsageItem {
+  key: string;
+  label: string;
+  used: number;
+  limit: number | null; // null = unlimited
+  percentUsed: number;
+}
+
+const SUBSCRIPTION_KEYS = {
+  all: ['subscription'] as const,
+  active: ['subscription', 'active'] as const,
+  plans: ['subscription', 'plans'] as const,
+  usage: ['subscription', 'usage'] as const,
+};
+
+// The payment page redirects to dus-app://subscription?paymentId=..., which
+// Expo Router opens on the subscription screen
+export const PAYMENT_RETURN_PATH = 'subscription';
+const PAYMENT_METHOD = 'card';
+
+// Free accounts can challenge bots up to this difficulty level
+export const FREE_BOT_MAX_DIFFICULTY = 2;
+
+// Payments already verified this session (auth session result and deep link
+// can both report the same payment on Android)
+const verifiedPaymentIds = new Set<string>();
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 ACTIVE SUBSCRIPTION HOOK
+export function useActiveSubscription() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: SUBSCRIPTION_KEYS.active,
+    queryFn: async (): Promise<ActiveSubscriptionPayload> =>
+      getActiveSubscription(),
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 PLANS HOOK
+export function useSubscriptionPlans() {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: SUBSCRIPTION_KEYS.plans,
+    queryFn: async (): Promise<SubscriptionPlanPayload[]> => {
+      console.log('💳 Fetching subscription plans...');
+      const plans = await getSubscriptionPlans();
+      console.log('✅ Subscription plans fetched:', plans.length);
+      return plans;
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 30 * 60 * 1000, // 30 minutes
+    gcTime: 60 * 60 * 1000, // 1 hour
+    retry: 2,
+  });
+}
+
+// 🚀 USAGE HOOK - only meaningful with an active subscription
+export function useSubscriptionUsage(enabled: boolean = true) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: SUBSCRIPTION_KEYS.usage,
+    queryFn: async (): Promise<SubscriptionUsagePayload> =>
+      getSubscriptionUsage(),
+    enabled: isAuthenticated && !authLoading && enabled,
+    staleTime: 5 * 60 * 1000, // 5 minutes
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 1,
+  });
+}
+
+// 🚀 PREMIUM ACCESS HOOK - used by PremiumGate and feature checks
+export function usePremiumAccess() {
+  const { user } = useAuth();
+  const { data: active, isLoading } = useActiveSubscription();
+
+  const isPremium =
+    !!active?.active || (!!user?.subscriptionType && isPremiumUser(user));
+
+  return {
+    isPremium,
+    isLoading,
+    subscription: active?.subscription ?? null,
+  };
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 PROMO CODE HOOK - validates a code and keeps the accepted discount
+export function usePromoCode() {
+  const [discount, setDiscount] = useState<PromoDiscount | null>(null);
+
+  const mutation = useMutation({
+    mutationFn: (code: string) => applyPromoCode(code),
+    onSuccess: (result, code) => {
+      console.log('🎟️ Promo code result:', code, result.valid);
+      setDiscount(
+        result.valid
+          ? {
+              code,
+              discountPercent: result.discountPercent,
+              discountAmount: result.discountAmount,
+              message: result.message,
+            }
+          : null,
+      );
+    },
+    onError: (error) => {
+      console.error('❌ Error applying promo code:', error);
+    },
+  });
+
+  return {
+    applyPromoCode: mutation.mutateAsync,
+    clearPromoCode: () => setDiscount(null),
+    discount,
+    isApplying: mutation.isPending,
+  };
+}
+
+// 🚀 CHECKOUT HOOK - browser payment with deep-link return and verification
+export function useSubscriptionCheckout() {
+  const queryClient = useQueryClient();
+  const { user, setUser } = useAuth();
+  const [state, setState] = useState<CheckoutState>({
+    status: 'idle',
+    planId: null,
+    message: null,
+  });
+  const inFlight = useRef(false);
+
+  const verify = useCallback(
+    async (paymentId: string, planId: number | null = null) => {
+      if (verifiedPaymentIds.has(paymentId)) return;
+
+      setState({ status: 'verifying', planId, message: null });
+      try {
+        const result = await verifyPayment(paymentId);
+        if (!result.success) {
+          setState({
+            status: 'failed',
+            planId,
+            message: result.message || translate('subscription.paymentFailed'),
+          });
+          return;
+        }
+
+        verifiedPaymentIds.add(paymentId);
+        if (user && result.subscription) {
+          setUser({
+            ...user,
+            subscriptionType: result.subscription.subscription_type,
+          });
+        }
+        await queryClient.invalidateQueries({
+          queryKey: SUBSCRIPTION_KEYS.all,
+        });
+        setState({
+          status: 'success',
+          planId,
+          message: result.message || translate('subscription.paymentSuccess'),
+        });
+      } catch (error) {
+        console.error('❌ Error verifying payment:', error);
+        setState({
+          status: 'failed',
+          planId,
+          message: translate('subscription.verifyError'),
+        });
+      }
+    },
+    [queryClient, user, setUser],
+  );
+
+  const startCheckout = useCallback(
+    async (planId: number, promoCode?: string) => {
+      if (inFlight.current) return;
+      inFlight.current = true;
+      setState({ status: 'opening', planId, message: null });
+
+      try {
+        const payment = await initiatePayment(
+          planId,
+          PAYMENT_METHOD,
+          promoCode,
+        );
+        const returnUrl = Linking.createURL(PAYMENT_RETURN_PATH);
+        const result = await WebBrowser.openAuthSessionAsync(
+          payment.paymentUrl,
+          returnUrl,
+        );
+
+        if (result.type === 'success') {
+          const { queryParams } = Linking.parse(result.url);
+          const returnedId = queryParams?.paymentId;
+          await verify(
+            typeof returnedId === 'string' ? returnedId : payment.paymentId,
+            planId,
+          );
+        } else {
+          // Closing the browser after paying still counts, so ask the backend
+          // before treating it as a cancellation
+          const check = await verifyPayment(payment.paymentId).catch(
+            () => null,
+          );
+          if (check?.success) {
+            await verify(payment.paymentId, planId);
+          } else {
+            setState({
+              status: 'cancelled',
+              planId,
+              message: translate('subscription.paymentCancelled'),
+            });
+          }
+        }
+      } catch (error) {
+        console.error('❌ Error starting checkout:', error);
+        setState({
+          status: 'failed',
+          planId,
+          message: translate('subscription.checkoutError'),
+        });
+      } finally {
+        inFlight.current = false;
+      }
+    },
+    [verify],
+  );
+
+  const reset = useCallback(
+    () => setState({ status: 'idle', planId: null, message: null }),
+    [],
+  );
+
+  return {
+    ...state,
+    isBusy: state.status === 'opening' || state.status === 'verifying',
+    startCheckout,
+    verifyReturnedPayment: verify,
+    reset,
+  };
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const applyDiscount = (price: number, discount: PromoDiscount | null) => {
+  if (!discount) return price;
+  if (discount.discountPercent) {
+    return Math.max(0, price * (1 - discount.discountPercent / 100));
+  }
+  if (discount.discountAmount) {
+    return Math.max(0, price - discount.discountAmount);
+  }
+  return price;
+};
+
+const formatPrice = (price: number, locale: string): string =>
+  new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: 'TRY',
+    maximumFractionDigits: 2,
+  }).format(price);
+
+const toFeatureLabel = (key: string): string =>
+  translate(`subscription.features.${key}` as TranslationKey, {
+    defaultValue: key
+      .replace(/[_-]+/g, ' ')
+      .replace(/\b\w/g, (char) => char.toUpperCase()),
+  });
+
+// Flattens SubscriptionUsagePayload.features into meter rows
+const getFeatureUsage = (
+  usage: SubscriptionUsagePayload | undefined,
+): FeatureUsageItem[] =>
+  Object.entries(usage?.features || {}).map(([key, feature]) => {
+    const limit =
+      typeof feature.limit === 'number' && feature.limit > 0
+        ? feature.limit
+        : null;
+    const percentUsed =
+      feature.percentUsed ??
+      (limit ? Math.round((feature.used / limit) * 100) : 0);
+
+    return {
+      key,
+      label: toFeatureLabel(key),
+      used: feature.used,
+      limit,
+      percentUsed: Math.min(100, Math.max(0, percentUsed)),
+    };
+  });
+
+const isBotDifficultyLocked = (difficultyLevel: number, isPremium: boolean) =>
+  !isPremium && difficultyLevel > FREE_BOT_MAX_DIFFICULTY;
+
+export const subscriptionHelpers = {
+  applyDiscount,
+  formatPrice,
+  getFeatureUsage,
+  isBotDifficultyLocked,
+};
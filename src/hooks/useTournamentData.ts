@@ -0,0 +1,252 @@
+// src/hooks/useTournamentData.ts - Single-elimination tournaments built from regular duels
+import { useQuery, useMutation, useQueryClient } from '@tanstack/react-query';
+import {
+  getTournaments,
+  getTournament,
+  createTournament,
+  joinTournament,
+  leaveTournament,
+  startTournament,
+  syncTournament,
+  type CreateTournamentInput,
+} from '../api/tournamentService';
+import { useAuth } from '../../stores/appStore';
+import { translate } from '../../localization';
+import type {
+  Tournament,
+  TournamentMatch,
+  TournamentSize,
+} from '../types/models';
+
+// ===============================
+// TYPES
+// ===============================
+
+export interface TournamentRound {
+  round: number;
+  matches: TournamentMatch[];
+}
+
+export const TOURNAMENT_SIZES: TournamentSize[] = [8, 16];
+
+const TOURNAMENT_KEYS = {
+  all: ['tournaments'] as const,
+  list: (courseId?: number) =>
+    ['tournaments', 'list', courseId ?? 'all'] as const,
+  detail: (tournamentId: number) =>
+    ['tournaments', 'detail', tournamentId] as const,
+};
+
+// ===============================
+// QUERY HOOKS
+// ===============================
+
+// 🚀 TOURNAMENT LIST HOOK - open and running tournaments, optionally per course
+export function useTournaments(courseId?: number) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: TOURNAMENT_KEYS.list(courseId),
+    queryFn: async (): Promise<Tournament[]> => {
+      console.log('🏆 Fetching tournaments for course:', courseId ?? 'all');
+      return getTournaments(courseId);
+    },
+    enabled: isAuthenticated && !authLoading,
+    staleTime: 60 * 1000, // 1 minute - registrations fill up quickly
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    retry: 2,
+  });
+}
+
+// 🚀 TOURNAMENT DETAIL HOOK - polls while the bracket is being played.
+// A running bracket is synced on every load, so a match whose result was
+// never picked up still advances.
+export function useTournament(tournamentId: number) {
+  const { isAuthenticated, isLoading: authLoading } = useAuth();
+
+  return useQuery({
+    queryKey: TOURNAMENT_KEYS.detail(tournamentId),
+    queryFn: async (): Promise<Tournament> => {
+      const tournament = await getTournament(tournamentId);
+      return tournament.status === 'in_progress'
+        ? syncTournament(tournamentId)
+        : tournament;
+    },
+    enabled: isAuthenticated && !authLoading && !!tournamentId,
+    staleTime: 15 * 1000, // 15 seconds
+    gcTime: 10 * 60 * 1000, // 10 minutes
+    refetchInterval: (query) =>
+      query.state.data?.status === 'completed' ? false : 30 * 1000,
+    retry: 2,
+  });
+}
+
+// ===============================
+// MUTATION HOOKS
+// ===============================
+
+// 🚀 TOURNAMENT MUTATIONS - create / join / leave / start
+export function useTournamentMutations() {
+  const queryClient = useQueryClient();
+
+  const storeTournament = (tournament: Tournament) => {
+    queryClient.setQueryData(
+      TOURNAMENT_KEYS.detail(tournament.tournament_id),
+      tournament,
+    );
+    queryClient.invalidateQueries({ queryKey: ['tournaments', 'list'] });
+  };
+
+  const createMutation = useMutation({
+    mutationFn: (input: CreateTournamentInput) => createTournament(input),
+    onSuccess: (tournament) => {
+      console.log('✅ Tournament created:', tournament.tournament_id);
+      storeTournament(tournament);
+    },
+    onError: (error) => {
+      console.error('❌ Error creating tournament:', error);
+    },
+  });
+
+  const joinMutation = useMutation({
+    mutationFn: (tournamentId: number) => joinTournament(tournamentId),
+    onSuccess: storeTournament,
+    onError: (error) => {
+      console.error('❌ Error joining tournament:', error);
+    },
+  });
+
+  const leaveMutation = useMutation({
+    mutationFn: (tournamentId: number) => leaveTournament(tournamentId),
+    onSuccess: storeTournament,
+    onError: (error) => {
+      console.error('❌ Error leaving tournament:', error);
+    },
+  });
+
+  // The backend seeds the bracket and creates the first-round duels
+  const startMutation = useMutation({
+    mutationFn: (tournament: Tournament) =>
+      startTournament(tournament.tournament_id),
+    onSuccess: (tournament) => {
+      console.log('✅ Tournament started:', tournament.tournament_id);
+      storeTournament(tournament);
+    },
+    onError: (error) => {
+      console.error('❌ Error starting tournament:', error);
+    },
+  });
+
+  return {
+    createTournament: createMutation.mutateAsync,
+    joinTournament: joinMutation.mutateAsync,
+    leaveTournament: leaveMutation.mutateAsync,
+    startTournament: startMutation.mutateAsync,
+
+    isCreating: createMutation.isPending,
+    isUpdating:
+      joinMutation.isPending ||
+      leaveMutation.isPending ||
+      startMutation.isPending,
+  };
+}
+
+// 🚀 SYNC MUTATION - called by the duel room when a bracket duel completes.
+// Both players' devices ask; the backend advances the winner only once.
+export function useSyncTournament() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (tournamentId: number) => syncTournament(tournamentId),
+    onSuccess: (tournament) => {
+      console.log('🏆 Tournament synced:', tournament.tournament_id);
+      queryClient.setQueryData(
+        TOURNAMENT_KEYS.detail(tournament.tournament_id),
+        tournament,
+      );
+      queryClient.invalidateQueries({ queryKey: ['tournaments', 'list'] });
+    },
+    onError: (error) => {
+      console.error('❌ Error syncing tournament:', error);
+    },
+  });
+}
+
+// ===============================
+// HELPERS
+// ===============================
+
+const getRoundCount = (size: number): number => Math.round(Math.log2(size));
+
+const getRoundMatches = (
+  tournament: Tournament,
+  round: number,
+): TournamentMatch[] =>
+  tournament.matches
+    .filter((match) => match.round === round)
+    .sort((a, b) => a.position - b.position);
+
+const getRounds = (tournament: Tournament): TournamentRound[] =>
+  Array.from({ length: getRoundCount(tournament.size) }, (_, index) => ({
+    round: index + 1,
+    matches: getRoundMatches(tournament, index + 1),
+  }));
+
+const getRoundLabel = (round: number, totalRounds: number): string => {
+  const remaining = totalRounds - round;
+  if (remaining === 0) return translate('tournaments.final');
+  if (remaining === 1) return translate('tournaments.semiFinal');
+  if (remaining === 2) return translate('tournaments.quarterFinal');
+  return translate('tournaments.roundOf', { count: 2 ** (remaining + 1) });
+};
+
+// The user's match that still has to be played, if any
+const getPlayableMatch = (
+  tournament: Tournament,
+  userId: number,
+): TournamentMatch | null =>
+  tournament.matches.find(
+    (match) =>
+      match.status !== 'completed' &&
+      (match.player1_id === userId || match.player2_id === userId),
+  ) ?? null;
+
+const isParticipant = (tournament: Tournament, userId?: number): boolean =>
+  !!userId &&
+  tournament.participants.some((participant) => participant.user_id === userId);
+
+const isEliminated = (tournament: Tournament, userId: number): boolean =>
+  tournament.matches.some(
+    (match) =>
+      match.status === 'completed' &&
+      match.winner_id !== userId &&
+      (match.player1_id === userId || match.player2_id === userId),
+  );
+
+const getParticipantName = (
+  tournament: Tournament,
+  userId: number | null,
+): string | null =>
+  userId === null
+    ? null
+    : (tournament.participants.find(
+        (participant) => participant.user_id === userId,
+      )?.username ?? null);
+
+const getChampionId = (tournament: Tournament): number | null => {
+  if (tournament.champion_id) return tournament.champion_id;
+  const final = getRoundMatches(tournament, getRoundCount(tournament.size))[0];
+  return final?.winner_id ?? null;
+};
+
+export const tournamentHelpers = {
+  getRoundCount,
+  getRoundMatches,
+  getRounds,
+  getRoundLabel,
+  getPlayableMatch,
+  isParticipant,
+  isEliminated,
+  getParticipantName,
+  getChampionId,
+};
@@ -0,0 +1,35 @@
+// src/hooks/useTranslation.ts - Language-aware translate function for screens
+import { useCallback, useMemo } from 'react';
+import { TranslateOptions } from 'i18n-js';
+import i18n, {
+  TranslationKey,
+  getDateLocale,
+  SUPPORTED_LANGUAGES,
+} from '../../localization';
+import { useLanguage } from '../../stores/appStore';
+
+/**
+ * Returns a `t` bound to the language stored in appStore, so components
+ * re-render when the user switches language in profile settings.
+ */
+export function useTranslation() {
+  const { language, setLanguage } = useLanguage();
+
+  const t = useCallback(
+    (key: TranslationKey, options?: TranslateOptions): string =>
+      i18n.t(key, { locale: language, ...options }),
+    [language],
+  );
+
+  const dateLocale = useMemo(() => getDateLocale(language), [language]);
+
+  return {
+    t,
+    language,
+    setLanguage,
+    dateLocale,
+    languages: SUPPORTED_LANGUAGES,
+  };
+}
+
+export type TFunction = ReturnType<typeof useTranslation>['t'];
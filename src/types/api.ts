@@ -28,6 +28,9 @@ export interface ApiResponse<T> {
   data?: T;
   message?: string;
   error?: string;
+  // Set when the response was served from the offline GET cache
+  fromCache?: boolean;
+  cachedAt?: string;
 }
 
 export interface PaginatedResponse<T> {
@@ -178,6 +181,29 @@ export interface FileUploadResponse
     fileId: string;
   }> {}
 
+// Offline support - mutating requests waiting for connectivity
+export interface QueuedRequest {
+  id: string;
+  endpoint: string;
+  method: 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body: any;
+  // Translation key describing the action, e.g. "offline.actions.endStudySession"
+  label: string;
+  // Requests sharing a dedupe key replace each other while queued
+  dedupeKey?: string;
+  queuedAt: string;
+  attempts: number;
+}
+
+// A queued request the server rejected when it was replayed
+export interface RequestConflict {
+  id: string;
+  request: QueuedRequest;
+  status: number;
+  message: string;
+  detectedAt: string;
+}
+
 // Error Response
 export interface ErrorResponse {
   status: 'error';
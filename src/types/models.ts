@@ -18,6 +18,9 @@ export interface User {
   isOAuthUser?: boolean;
   // NEW: Preferred course field
   preferred_course_id?: number | null;
+  // Target DUS sessions (YYYY-MM-DD) used by the exam countdown and pacing
+  exam_date_spring?: string | null;
+  exam_date_autumn?: string | null;
 }
 
 export interface AuthResponse {
@@ -456,6 +459,78 @@ export interface CourseCompletionData {
   totalSessions?: number;
 }
 
+// Chronometer interval modes: free-running stopwatch or fixed work/break cycles
+export type StudyIntervalMode = 'free' | 'pomodoro' | 'fiftyTen' | 'custom';
+
+export type StudyIntervalPhase = 'work' | 'break';
+
+export interface StudyIntervalPlan {
+  workMinutes: number;
+  breakMinutes: number;
+  longBreakMinutes?: number; // replaces every Nth break when set
+  cyclesBeforeLongBreak?: number;
+}
+
+// A scheduled switch into `phase` at `at`, lasting `minutes`
+export interface StudyIntervalTransition {
+  phase: StudyIntervalPhase;
+  at: Date;
+  minutes: number;
+}
+
+// How time spent with the app in the background is credited
+export type BackgroundTimeMode = 'study' | 'break' | 'ask';
+
+// Device-local chronometer preferences
+export interface StudyTimerSettings {
+  intervalMode: StudyIntervalMode;
+  customWorkMinutes: number;
+  customBreakMinutes: number;
+  backgroundTimeMode: BackgroundTimeMode;
+}
+
+export interface StudySessionEvent {
+  type: 'start' | 'pause' | 'resume';
+  at: string; // ISO timestamp
+}
+
+// Local copy of the running chronometer so a killed app can pick the
+// session back up, breaks included
+export interface StudySessionSnapshot {
+  sessionId: number;
+  courseId: number;
+  courseTitle: string;
+  startTime: string;
+  timeline: StudySessionEvent[];
+  pausedDurationMs: number;
+  pauseStartTime: string | null;
+  breakStartTime: string | null;
+  totalBreakSeconds: number; // finished breaks
+  recordedBreakSeconds: number; // finished breaks the server has confirmed
+  backgroundedAt: string | null;
+  interval: {
+    plan: StudyIntervalPlan;
+    phase: StudyIntervalPhase;
+    phaseEndsAt: string | null;
+    phaseRemainingMs: number | null;
+    completedCycles: number;
+  } | null;
+  updatedAt: string;
+}
+
+// Per-question SM-2 state of the review deck, persisted locally per user
+export interface ReviewCardSchedule {
+  questionId: number;
+  easeFactor: number;
+  interval: number; // days
+  repetitions: number;
+  lapses: number;
+  dueAt: string; // ISO date
+  lastReviewedAt: string; // ISO date
+}
+
+export type ReviewSchedule = Record<number, ReviewCardSchedule>;
+
 // User course details interface (replaces UserTopicDetails)
 export interface UserCourseDetails {
   user_id: number;
@@ -549,6 +624,140 @@ export interface PreferredCourse {
   image_url?: string;
 }
 
+// ===============================
+// STUDY PLAN TYPES
+// ===============================
+
+// Topic entry attached to a study plan (priority 1 = highest)
+export interface StudyPlanTopic {
+  topic_id: number;
+  priority: number;
+  title?: string;
+}
+
+export interface StudyPlanActivity {
+  activity_id: number;
+  plan_id: number;
+  topic_id?: number | null;
+  title: string;
+  scheduled_date: string;
+  duration_minutes?: number | null;
+  is_completed: boolean;
+}
+
+export interface StudyPlan {
+  plan_id: number;
+  user_id: number;
+  title: string;
+  description?: string | null;
+  start_date: string;
+  end_date: string;
+  is_custom: boolean;
+  is_active?: boolean;
+  daily_goal_minutes?: number | null;
+  daily_goal_questions?: number | null;
+  created_at: string;
+  updated_at?: string;
+  topics?: StudyPlanTopic[];
+  activities?: StudyPlanActivity[];
+}
+
+// ===============================
+// COACHING TYPES
+// ===============================
+
+// Weekly coaching note published by the coaching team
+export interface CoachingNote {
+  note_id: number;
+  title: string;
+  content: string;
+  publish_date: string;
+  week_number: number;
+  year: number;
+  created_at: string;
+  updated_at?: string;
+}
+
+export interface MotivationalMessage {
+  message_id: number;
+  message: string;
+  author?: string | null;
+  created_at: string;
+}
+
+export interface StrategyVideo {
+  video_id: number;
+  title: string;
+  description?: string | null;
+  video_url: string;
+  thumbnail_url?: string | null;
+  duration_seconds?: number | null;
+  is_premium: boolean;
+  created_at: string;
+}
+
+// ===============================
+// TOURNAMENT TYPES
+// ===============================
+
+export type TournamentSize = 8 | 16;
+
+export type TournamentStatus = 'registering' | 'in_progress' | 'completed';
+
+export interface TournamentParticipant {
+  user_id: number;
+  username: string;
+  seed?: number | null;
+  joined_at: string;
+}
+
+// One bracket slot; later-round players stay null until the feeding matches finish
+export interface TournamentMatch {
+  match_id: number;
+  round: number; // 1 = first round, last round = final
+  position: number; // 0-based, top to bottom within the round
+  player1_id: number | null;
+  player2_id: number | null;
+  winner_id: number | null;
+  duel_id: number | null;
+  status: 'pending' | 'active' | 'completed';
+}
+
+// Single-elimination tournament on one course
+export interface Tournament {
+  tournament_id: number;
+  name: string;
+  course_id: number;
+  course_title?: string;
+  size: TournamentSize;
+  question_count: number;
+  status: TournamentStatus;
+  organizer_id: number;
+  champion_id?: number | null;
+  participants: TournamentParticipant[];
+  matches: TournamentMatch[];
+  created_at: string;
+  started_at?: string | null;
+  completed_at?: string | null;
+}
+
+// ===============================
+// RATING TYPES
+// ===============================
+
+export type RankedTier =
+  'bronze' | 'silver' | 'gold' | 'platinum' | 'diamond' | 'master';
+
+// Elo rating for one user; course_id null is the overall rating
+export interface PlayerRating {
+  user_id: number;
+  course_id: number | null;
+  rating: number;
+  games_played: number;
+  peak_rating: number;
+  updated_at: string;
+}
+
 // ===============================
 // COURSE-BASED ANALYTICS TYPES (Enhanced)
 // ===============================
@@ -852,6 +1061,19 @@ export interface UserPerformanceTrends {
   }>;
 }
 
+// Saved ("favori") question - cached locally and synced to the backend
+export interface BookmarkedQuestion {
+  question_id: number;
+  question_text: string;
+  options: Record<string, string>;
+  correct_answer: string;
+  explanation?: string | null;
+  test_id?: number | null;
+  course_id?: number | null;
+  course_title?: string | null;
+  bookmarked_at: string;
+}
+
 export interface ReviewQuestion {
   question_id: number;
   question_text: string;
@@ -1033,6 +1255,42 @@ export interface Duel {
     user_id: number;
     username: string;
   };
+
+  // Set when the duel is a tournament bracket match
+  tournament_id?: number | null;
+
+  // Async (turn-based) duels: each player plays the same questions on their
+  // own time, the opponent before expires_at
+  mode?: 'live' | 'async';
+  expires_at?: string | null;
+  initiator_finished_at?: string | null;
+  opponent_finished_at?: string | null;
+}
+
+// Question as served for an async duel; correctAnswer/explanation are only
+// included once the player has finished their run
+export interface AsyncDuelQuestion {
+  id: number;
+  text: string;
+  options: Record<string, string>;
+  correctAnswer?: string;
+  explanation?: string | null;
+}
+
+export interface AsyncDuelAnswer {
+  question_id: number;
+  selected_answer: string | null;
+  is_correct: boolean;
+  time_taken_ms: number;
+}
+
+// One player's finished turn in an async duel
+export interface AsyncDuelRun {
+  user_id: number;
+  score: number;
+  total_time_ms: number;
+  answers: AsyncDuelAnswer[];
+  finished_at: string;
 }
 
 export interface DuelResult {
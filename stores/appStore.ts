@@ -2,11 +2,29 @@
 import { create } from 'zustand';
 import { persist, subscribeWithSelector } from 'zustand/middleware';
 import AsyncStorage from '@react-native-async-storage/async-storage';
+import { Appearance } from 'react-native';
 
 // Import existing services
 import * as authService from '../src/api/authService';
 import * as notificationService from '../src/api/notificationService';
 import * as studyService from '../src/api/studyService';
+import {
+  flushRequestQueue,
+  dismissRequestConflict,
+  clearOfflineData,
+  setApiNetworkStatus,
+  subscribeToRequestQueue,
+  isQueuedRequestError,
+  onSessionExpired,
+  onRequestReplayed,
+} from '../src/api/apiClient';
+import { clearReviewSchedule } from '../src/api/offlineStorage';
+import {
+  Language,
+  getDeviceLanguage,
+  setI18nLanguage,
+  translate,
+} from '../localization';
 
 import {
   User,
@@ -16,7 +34,11 @@ import {
   NotificationType,
   DeviceToken,
   NotificationStats,
+  BookmarkedQuestion,
+  StudyTimerSettings,
 } from '../src/types/models';
+import { QueuedRequest, RequestConflict } from '../src/types/api';
+import type { ColorScheme, ThemePreference } from '../constants/theme';
 
 // 🚀 EXACT COPY: CourseCategory from PreferredCourseContext
 export type CourseCategory =
@@ -35,6 +57,13 @@ type ExtendedPreferredCourse = PreferredCourse & {
   selectedAt?: string;
 };
 
+// Bookmark change waiting to be sent to the backend (last write wins)
+type PendingBookmarkOp = {
+  questionId: number;
+  action: 'add' | 'remove';
+  queuedAt: string;
+};
+
 // Notification filters type
 type NotificationFilters = {
   category?: 'study' | 'social' | 'system';
@@ -71,11 +100,30 @@ interface AppState {
   notificationFilters: NotificationFilters;
 
   // THEME STATE
-  theme: 'light' | 'dark';
+  // theme is the resolved scheme; themePreference may defer to the device
+  theme: ColorScheme;
+  themePreference: ThemePreference;
+
+  // LANGUAGE STATE
+  language: Language;
+
+  // STUDY TIMER STATE - chronometer interval preferences, device-local
+  studyTimerSettings: StudyTimerSettings;
 
   // NETWORK STATE
   isOnline: boolean;
 
+  // BOOKMARK STATE
+  bookmarks: BookmarkedQuestion[];
+  pendingBookmarkOps: PendingBookmarkOp[];
+  bookmarksSyncing: boolean;
+
+  // OFFLINE REQUEST QUEUE STATE - mirrored from apiClient, not persisted here
+  pendingRequests: QueuedRequest[];
+  requestConflicts: RequestConflict[];
+  requestQueueFlushing: boolean;
+  lastRequestReplayAt: string | null;
+
   // UI STATE
   showCourseModal: boolean;
   selectedCourseId: number | null;
@@ -144,12 +192,30 @@ interface AppActions {
   deleteMultipleNotifications: (notificationIds: number[]) => Promise<void>;
 
   // THEME ACTIONS
-  setTheme: (theme: 'light' | 'dark') => void;
+  setTheme: (theme: ColorScheme) => void;
   toggleTheme: () => void;
+  setThemePreference: (preference: ThemePreference) => void;
+  syncSystemTheme: () => void;
+
+  // LANGUAGE ACTIONS
+  setLanguage: (language: Language) => void;
+
+  // STUDY TIMER ACTIONS
+  updateStudyTimerSettings: (settings: Partial<StudyTimerSettings>) => void;
 
   // NETWORK ACTIONS
   setNetworkStatus: (isOnline: boolean) => void;
 
+  // BOOKMARK ACTIONS
+  toggleBookmark: (question: Omit<BookmarkedQuestion, 'bookmarked_at'>) => void;
+  isQuestionBookmarked: (questionId: number) => boolean;
+  syncBookmarks: () => Promise<void>;
+  loadBookmarks: () => Promise<void>;
+
+  // OFFLINE REQUEST QUEUE ACTIONS
+  flushRequestQueue: () => Promise<void>;
+  dismissRequestConflict: (conflictId: string) => Promise<void>;
+
   // UI ACTIONS
   setShowCourseModal: (show: boolean) => void;
   setShowNotificationSettings: (show: boolean) => void;
@@ -292,6 +358,14 @@ let preferredCourseCache: {
   timestamp: number;
 } | null = null;
 
+// 'system' defers to the device appearance (light when it is unknown)
+const resolveColorScheme = (preference: ThemePreference): ColorScheme =>
+  preference === 'system'
+    ? Appearance.getColorScheme() === 'dark'
+      ? 'dark'
+      : 'light'
+    : preference;
+
 // Main store implementation
 export const useAppStore = create<AppStore>()(
   subscribeWithSelector(
@@ -403,8 +477,18 @@ export const useAppStore = create<AppStore>()(
             unreadOnly: false,
             courseRelatedOnly: false,
           },
-          theme: 'light',
+          theme: resolveColorScheme('system'),
+          themePreference: 'system',
+          language: getDeviceLanguage(),
+          studyTimerSettings: studyService.DEFAULT_STUDY_TIMER_SETTINGS,
           isOnline: true,
+          bookmarks: [],
+          pendingBookmarkOps: [],
+          bookmarksSyncing: false,
+          pendingRequests: [],
+          requestConflicts: [],
+          requestQueueFlushing: false,
+          lastRequestReplayAt: null,
           showCourseModal: false,
           selectedCourseId: null,
           showNotificationSettings: false,
@@ -448,6 +532,8 @@ export const useAppStore = create<AppStore>()(
 
           // 🔥 OPTIMIZED: FAST LOGOUT - Immediate UI update, background cleanup
           signOut: async () => {
+            const signedOutUserId = get().user?.userId;
+
             // 🔥 IMMEDIATE: Clear caches and state first for instant UI response
             coursesCache = null;
             preferredCourseCache = null;
@@ -486,6 +572,11 @@ export const useAppStore = create<AppStore>()(
                 courseRelatedOnly: false,
               },
 
+              // Bookmark state - saved questions belong to the signed-out user
+              bookmarks: [],
+              pendingBookmarkOps: [],
+              bookmarksSyncing: false,
+
               // Other state
               notificationListOffset: 0,
               hasInitialized: false,
@@ -500,6 +591,11 @@ export const useAppStore = create<AppStore>()(
               AsyncStorage.multiRemove([
                 'notificationPreferences', // Only clear notification prefs, not course selection
               ]),
+              // Cached responses and queued changes belong to the signed-out user
+              clearOfflineData(),
+              signedOutUserId
+                ? clearReviewSchedule(signedOutUserId)
+                : Promise.resolve(),
             ])
               .then(([logoutResult]) => {
                 if (logoutResult.status === 'fulfilled') {
@@ -789,6 +885,9 @@ export const useAppStore = create<AppStore>()(
                   );
                 }
 
+                // Replay changes queued offline during a previous session
+                get().flushRequestQueue();
+
                 console.log('📱 User authenticated, initial data loaded');
               } else {
                 console.log('📱 No valid session found');
@@ -1076,6 +1175,8 @@ export const useAppStore = create<AppStore>()(
               await notificationService.markAsRead(notificationId);
               console.log('✅ Notification marked as read:', notificationId);
             } catch (error) {
+              // Queued offline - keep the optimistic update
+              if (isQueuedRequestError(error)) return;
               console.error('Failed to mark as read:', error);
               get().loadNotifications();
             }
@@ -1254,15 +1355,152 @@ export const useAppStore = create<AppStore>()(
           },
 
           // THEME ACTIONS
-          setTheme: (theme: 'light' | 'dark') => set({ theme }),
+          setTheme: (theme: ColorScheme) =>
+            set({ theme, themePreference: theme }),
           toggleTheme: () => {
-            const currentTheme = get().theme;
-            set({ theme: currentTheme === 'light' ? 'dark' : 'light' });
+            const nextTheme = get().theme === 'light' ? 'dark' : 'light';
+            set({ theme: nextTheme, themePreference: nextTheme });
+          },
+          setThemePreference: (preference: ThemePreference) =>
+            set({
+              themePreference: preference,
+              theme: resolveColorScheme(preference),
+            }),
+          syncSystemTheme: () => {
+            const { themePreference, theme } = get();
+            const resolved = resolveColorScheme(themePreference);
+            if (resolved !== theme) {
+              set({ theme: resolved });
+            }
           },
 
+          // LANGUAGE ACTIONS
+          setLanguage: (language: Language) => set({ language }),
+
+          // STUDY TIMER ACTIONS
+          updateStudyTimerSettings: (settings: Partial<StudyTimerSettings>) =>
+            set({
+              studyTimerSettings: { ...get().studyTimerSettings, ...settings },
+            }),
+
           // NETWORK ACTIONS
           setNetworkStatus: (isOnline: boolean) => set({ isOnline }),
 
+          // BOOKMARK ACTIONS - applied locally first, synced when online
+          toggleBookmark: (question) => {
+            const { bookmarks, pendingBookmarkOps } = get();
+            const isBookmarked = bookmarks.some(
+              (b) => b.question_id === question.question_id,
+            );
+            const queuedAt = new Date().toISOString();
+
+            set({
+              bookmarks: isBookmarked
+                ? bookmarks.filter(
+                    (b) => b.question_id !== question.question_id,
+                  )
+                : [{ ...question, bookmarked_at: queuedAt }, ...bookmarks],
+              pendingBookmarkOps: [
+                ...pendingBookmarkOps.filter(
+                  (op) => op.questionId !== question.question_id,
+                ),
+                {
+                  questionId: question.question_id,
+                  action: isBookmarked ? 'remove' : 'add',
+                  queuedAt,
+                },
+              ],
+            });
+
+            get().syncBookmarks();
+          },
+
+          isQuestionBookmarked: (questionId: number) =>
+            get().bookmarks.some((b) => b.question_id === questionId),
+
+          syncBookmarks: async () => {
+            const { isOnline, isAuthenticated, bookmarksSyncing } = get();
+            if (!isOnline || !isAuthenticated || bookmarksSyncing) return;
+            if (get().pendingBookmarkOps.length === 0) return;
+
+            set({ bookmarksSyncing: true });
+            try {
+              for (const op of [...get().pendingBookmarkOps]) {
+                const bookmark = get().bookmarks.find(
+                  (b) => b.question_id === op.questionId,
+                );
+                try {
+                  if (op.action === 'add' && bookmark) {
+                    await studyService.bookmarkQuestion(bookmark);
+                  } else if (op.action === 'remove') {
+                    await studyService.removeQuestionBookmark(op.questionId);
+                  }
+                } catch (error: any) {
+                  // Network (status 0), auth and server errors are retried later
+                  if (
+                    !error?.status ||
+                    error.status === 401 ||
+                    error.status >= 500
+                  ) {
+                    console.warn('Bookmark sync paused:', error?.message);
+                    break;
+                  }
+                  console.warn(
+                    `Dropping rejected bookmark change for question ${op.questionId}:`,
+                    error.message,
+                  );
+                }
+
+                // Only clear the op if it wasn't replaced while we were syncing
+                set((state) => ({
+                  pendingBookmarkOps: state.pendingBookmarkOps.filter(
+                    (pending) =>
+                      pending.questionId !== op.questionId ||
+                      pending.queuedAt !== op.queuedAt,
+                  ),
+                }));
+              }
+            } finally {
+              set({ bookmarksSyncing: false });
+            }
+          },
+
+          loadBookmarks: async () => {
+            if (!get().isAuthenticated) return;
+            try {
+              await get().syncBookmarks();
+              const { questions } = await studyService.getBookmarkedQuestions(
+                1,
+                200,
+              );
+
+              // Local changes that haven't reached the server yet win
+              const { bookmarks, pendingBookmarkOps } = get();
+              const pendingIds = new Set(
+                pendingBookmarkOps.map((op) => op.questionId),
+              );
+              const localPending = bookmarks.filter((b) =>
+                pendingIds.has(b.question_id),
+              );
+              const serverBookmarks = questions.filter(
+                (q) => !pendingIds.has(q.question_id),
+              );
+
+              set({ bookmarks: [...localPending, ...serverBookmarks] });
+            } catch (error) {
+              console.error('Failed to load bookmarks:', error);
+            }
+          },
+
+          // OFFLINE REQUEST QUEUE ACTIONS - queue itself lives in apiClient
+          flushRequestQueue: async () => {
+            if (!get().isAuthenticated) return;
+            await flushRequestQueue();
+          },
+
+          dismissRequestConflict: (conflictId: string) =>
+            dismissRequestConflict(conflictId),
+
           // UI ACTIONS
           setShowCourseModal: (showCourseModal: boolean) =>
             set({ showCourseModal }),
@@ -1349,6 +1587,11 @@ export const useAppStore = create<AppStore>()(
           initializationError: null,
           hasCheckedPreferredCourse: false,
           preferredCourseLoading: false,
+          bookmarksSyncing: false,
+          pendingRequests: [],
+          requestConflicts: [],
+          requestQueueFlushing: false,
+          lastRequestReplayAt: null,
         }),
       },
     ),
@@ -1378,6 +1621,7 @@ export const useAuth = () => {
     refreshSession,
     checkSession,
     validateSession,
+    setUser,
     setAuthError,
     setAuthLoading,
     initializeApp,
@@ -1406,6 +1650,7 @@ export const useAuth = () => {
     checkSession,
     validateSession,
     initializeApp,
+    setUser,
     clearError: () => setAuthError(null),
     setLoading: setAuthLoading,
 
@@ -1514,17 +1759,88 @@ export const useNotifications = () => {
   };
 };
 
-// Theme hook (unchanged)
+// Theme hook
 export const useTheme = () => {
-  const { theme, setTheme, toggleTheme } = useAppStore();
+  const theme = useAppStore((state) => state.theme);
+  const themePreference = useAppStore((state) => state.themePreference);
+  const setTheme = useAppStore((state) => state.setTheme);
+  const toggleTheme = useAppStore((state) => state.toggleTheme);
+  const setThemePreference = useAppStore((state) => state.setThemePreference);
   return {
     theme,
+    themePreference,
     setTheme,
     toggleTheme,
+    setThemePreference,
     isDark: theme === 'dark',
   };
 };
 
+// Language hook
+// Selectors keep every translated component from re-rendering on unrelated updates
+export const useLanguage = () => {
+  const language = useAppStore((state) => state.language);
+  const setLanguage = useAppStore((state) => state.setLanguage);
+  return { language, setLanguage };
+};
+
+// Study timer settings hook
+export const useStudyTimerSettings = () => {
+  const storedSettings = useAppStore((state) => state.studyTimerSettings);
+  const updateSettings = useAppStore((state) => state.updateStudyTimerSettings);
+  // Settings persisted by an older version may lack newer fields
+  const settings: StudyTimerSettings = {
+    ...studyService.DEFAULT_STUDY_TIMER_SETTINGS,
+    ...storedSettings,
+  };
+  return { settings, updateSettings };
+};
+
+// Offline request queue hook
+export const useOfflineQueue = () => {
+  const isOnline = useAppStore((state) => state.isOnline);
+  const pendingRequests = useAppStore((state) => state.pendingRequests);
+  const conflicts = useAppStore((state) => state.requestConflicts);
+  const isFlushing = useAppStore((state) => state.requestQueueFlushing);
+  const lastReplayAt = useAppStore((state) => state.lastRequestReplayAt);
+  const flush = useAppStore((state) => state.flushRequestQueue);
+  const dismissConflict = useAppStore((state) => state.dismissRequestConflict);
+
+  return {
+    isOnline,
+    pendingRequests,
+    pendingCount: pendingRequests.length,
+    conflicts,
+    isFlushing,
+    lastReplayAt,
+    flush,
+    dismissConflict,
+  };
+};
+
+// Bookmarks hook
+export const useBookmarks = () => {
+  const {
+    bookmarks,
+    pendingBookmarkOps,
+    bookmarksSyncing,
+    toggleBookmark,
+    isQuestionBookmarked,
+    syncBookmarks,
+    loadBookmarks,
+  } = useAppStore();
+
+  return {
+    bookmarks,
+    pendingCount: pendingBookmarkOps.length,
+    isSyncing: bookmarksSyncing,
+    toggleBookmark,
+    isBookmarked: isQuestionBookmarked,
+    syncBookmarks,
+    loadBookmarks,
+  };
+};
+
 // Network hook (unchanged)
 export const useNetwork = () => {
   const { isOnline, setNetworkStatus } = useAppStore();
@@ -1577,6 +1893,77 @@ useAppStore.subscribe(
   },
 );
 
+// Follow the device appearance while the preference is 'system'. The
+// persisted theme may be stale after a restart, so resync after hydration.
+Appearance.addChangeListener(() => useAppStore.getState().syncSystemTheme());
+useAppStore.persist.onFinishHydration(() =>
+  useAppStore.getState().syncSystemTheme(),
+);
+
+// Keep the i18n instance in step with the persisted language choice
+useAppStore.subscribe(
+  (state) => state.language,
+  (language) => setI18nLanguage(language),
+  { fireImmediately: true },
+);
+
+// Flush queued bookmark changes as soon as the device is back online
+useAppStore.subscribe(
+  (state) => state.isOnline,
+  (isOnline) => {
+    if (isOnline) {
+      useAppStore.getState().syncBookmarks();
+    }
+  },
+);
+
+// apiClient serves cached GETs and queues mutations while offline; reconnecting
+// replays the queue
+useAppStore.subscribe(
+  (state) => state.isOnline,
+  (isOnline) => setApiNetworkStatus(isOnline),
+  { fireImmediately: true },
+);
+
+// Replay requests queued in a previous session once the user is signed in
+useAppStore.subscribe(
+  (state) => state.isAuthenticated,
+  (isAuthenticated) => {
+    if (isAuthenticated) {
+      useAppStore.getState().flushRequestQueue();
+    }
+  },
+);
+
+// apiClient gave up refreshing the token - send the user back to login.
+// Like an explicit sign out, cached responses and queued changes are dropped:
+// whoever signs in next must not see or replay them.
+onSessionExpired(() => {
+  if (useAppStore.getState().isAuthenticated) {
+    useAppStore.setState({
+      user: null,
+      isAuthenticated: false,
+      authError: translate('errors.sessionExpired'),
+    });
+    clearOfflineData();
+  }
+});
+
+// Replayed offline changes get the follow-up work they missed, e.g. the
+// achievement check for a study session ended offline
+onRequestReplayed((request, response) => {
+  studyService.handleReplayedStudyRequest(request, response);
+});
+
+subscribeToRequestQueue((snapshot) =>
+  useAppStore.setState({
+    pendingRequests: snapshot.pending,
+    requestConflicts: snapshot.conflicts,
+    requestQueueFlushing: snapshot.isFlushing,
+    lastRequestReplayAt: snapshot.lastReplayAt,
+  }),
+);
+
 useAppStore.subscribe(
   (state) => state.unreadCount,
   (unreadCount) => {